@@ -10,6 +10,7 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { TradingModeToggle } from "@/components/TradingModeToggle";
 import { useAuth } from "@/hooks/useAuth";
+import { useUserEventSync } from "@/hooks/useUserEvents";
 import { LogOut } from "lucide-react";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
@@ -23,6 +24,7 @@ import AITransparency from "@/pages/ai-transparency";
 import LearningProgress from "@/pages/learning-progress";
 import TradeJournal from "@/pages/trade-journal";
 import TimeframeAnalysis from "@/pages/timeframe-analysis";
+import Backtests from "@/pages/backtests";
 import AICoach from "@/pages/ai-coach";
 import NotFound from "@/pages/not-found";
 
@@ -55,6 +57,7 @@ function Router() {
       <Route path="/learning-progress" component={LearningProgress} />
       <Route path="/trade-journal" component={TradeJournal} />
       <Route path="/timeframe-analysis" component={TimeframeAnalysis} />
+      <Route path="/backtests" component={Backtests} />
       <Route path="/ai-coach" component={AICoach} />
       <Route component={NotFound} />
     </Switch>
@@ -81,6 +84,7 @@ function App() {
 
 function AuthenticatedLayout({ style }: { style: any }) {
   const { isAuthenticated, isLoading } = useAuth();
+  useUserEventSync(isAuthenticated);
 
   // Show landing page without sidebar/header for unauthenticated users
   if (isLoading || !isAuthenticated) {
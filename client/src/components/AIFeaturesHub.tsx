@@ -129,15 +129,10 @@ export default function AIFeaturesHub({ userId, currentPrices }: AIFeaturesHubPr
   });
 
   const forecastVolatility = useMutation({
-    mutationFn: (symbol: string) => {
-      const historicalPrices = [currentPrices[symbol] || 0]; // Simplified
-      return apiRequest("/api/ai/volatility/forecast", "POST", {
-        symbol,
-        currentPrice: currentPrices[symbol] || 0,
-        historicalPrices,
-        timeframe: "24h"
-      });
-    },
+    mutationFn: (symbol: string) => apiRequest("/api/ai/volatility/forecast", "POST", {
+      symbol,
+      timeframe: "24h"
+    }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ai/volatility/market/overview"] });
       toast({ title: "Volatility Forecast Updated", description: "Market volatility analyzed" });
@@ -149,8 +144,10 @@ export default function AIFeaturesHub({ userId, currentPrices }: AIFeaturesHubPr
   const [positionSizeResult, setPositionSizeResult] = useState<any>(null);
 
   const calculatePositionSize = useMutation({
-    mutationFn: (params: { symbol: string; entryPrice: number; stopLoss?: number }) => 
-      apiRequest("/api/ai/position-size/calculate", "POST", params),
+    mutationFn: async (params: { symbol: string; entryPrice: number; stopLoss?: number }) => {
+      const response = await apiRequest("/api/ai/position-size/calculate", "POST", params);
+      return response.json();
+    },
     onSuccess: (data) => {
       setPositionSizeResult(data);
       toast({ title: "Position Size Calculated", description: "Optimal sizing determined" });
@@ -487,12 +484,15 @@ export default function AIFeaturesHub({ userId, currentPrices }: AIFeaturesHubPr
                       <div className="flex items-center gap-3">
                         <GitBranch className="h-4 w-4 text-muted-foreground" />
                         <div>
-                          <p className="font-medium">{corr.assetPair}</p>
-                          <p className="text-sm text-muted-foreground">Correlation: {parseFloat(corr.correlationCoefficient).toFixed(2)}</p>
+                          <p className="font-medium">{corr.asset1} / {corr.asset2}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Pearson: {(parseFloat(corr.correlationScore) / 100).toFixed(2)}
+                            {corr.spearmanScore !== null && ` · Spearman: ${(parseFloat(corr.spearmanScore) / 100).toFixed(2)}`}
+                          </p>
                         </div>
                       </div>
-                      <Badge variant={corr.correlationType === 'positive' ? 'default' : 'secondary'}>
-                        {corr.correlationType}
+                      <Badge variant={corr.riskLevel === 'high' ? 'destructive' : corr.riskLevel === 'medium' ? 'default' : 'secondary'}>
+                        {corr.riskLevel}
                       </Badge>
                     </div>
                   </div>
@@ -593,14 +593,16 @@ export default function AIFeaturesHub({ userId, currentPrices }: AIFeaturesHubPr
                     <p className="text-sm text-muted-foreground">Suggested Size</p>
                     <p className="text-2xl font-semibold">${positionSizeResult.suggestedSize.toFixed(2)}</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {positionSizeResult.suggestedPercentage.toFixed(1)}% of portfolio
+                      {positionSizeResult.suggestedPercentage.toFixed(1)}% of portfolio, set by {positionSizeResult.method.replace("_", " ")}
                     </p>
                   </div>
                   <div className="p-4 bg-muted/50 rounded-lg">
                     <p className="text-sm text-muted-foreground">Kelly Criterion</p>
-                    <p className="text-2xl font-semibold">{positionSizeResult.kellyPercentage.toFixed(1)}%</p>
+                    <p className="text-2xl font-semibold">
+                      {positionSizeResult.kellyPercentage !== null ? `${positionSizeResult.kellyPercentage.toFixed(1)}%` : "--"}
+                    </p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Win Rate: {positionSizeResult.winRate.toFixed(0)}%
+                      Win Rate: {positionSizeResult.winRate.toFixed(0)}% over {positionSizeResult.tradeCount} trades
                     </p>
                   </div>
                 </div>
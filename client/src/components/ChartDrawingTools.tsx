@@ -11,6 +11,9 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { useChartTelemetry } from "@/hooks/useChartTelemetry";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 export interface Drawing {
   id: string;
@@ -27,6 +30,7 @@ interface ChartDrawingToolsProps {
   onDrawingsChange: (drawings: Drawing[]) => void;
   priceScale: { min: number; max: number };
   timeScale: { min: number; max: number }; // Actual time range from chart
+  symbol?: string; // Alert drawings create a server-side level alert on this symbol
 }
 
 export function ChartDrawingTools({
@@ -36,6 +40,7 @@ export function ChartDrawingTools({
   onDrawingsChange,
   priceScale,
   timeScale,
+  symbol,
 }: ChartDrawingToolsProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [activeTool, setActiveTool] = useState<"none" | "trendline" | "fibonacci" | "zone" | "horizontal" | "text" | "alert">("none");
@@ -45,6 +50,37 @@ export function ChartDrawingTools({
   const [textInput, setTextInput] = useState("");
   const [pendingTextPoint, setPendingTextPoint] = useState<{ time: number; price: number } | null>(null);
   const { logDrawingToolSelected, logDrawingCreated, logDrawingDeleted } = useChartTelemetry();
+  const { toast } = useToast();
+
+  const createLevelAlert = useMutation({
+    mutationFn: async (drawing: Drawing) => {
+      return apiRequest("/api/alerts", "POST", {
+        symbol,
+        expression: { type: "level_cross", price: parseFloat(drawing.points[0].price.toFixed(2)), direction: "either" },
+        repeatMode: "rearm",
+        drawingId: drawing.id,
+      });
+    },
+    onSuccess: (_, drawing) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      toast({ title: "Alert created", description: `${symbol} crossing ${drawing.points[0].price.toFixed(2)}` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The alert may already be gone (deleted from the alerts card): a 404 is fine
+  const deleteLevelAlert = useMutation({
+    mutationFn: async (drawingId: string) => {
+      return apiRequest(`/api/alerts/drawing/${drawingId}`, "DELETE").catch(() => null);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/alerts"] }),
+  });
 
   // Wrapper for setActiveTool with telemetry
   const selectTool = (tool: typeof activeTool) => {
@@ -277,6 +313,7 @@ export function ChartDrawingTools({
       };
       onDrawingsChange([...drawings, newDrawing]);
       logDrawingCreated("alert", newDrawing.id);
+      if (symbol) createLevelAlert.mutate(newDrawing);
       setActiveTool("none");
       return;
     }
@@ -353,6 +390,7 @@ export function ChartDrawingTools({
     // Log deletion for all drawings
     drawings.forEach(drawing => {
       logDrawingDeleted(drawing.type, drawing.id);
+      if (drawing.type === "alert" && symbol) deleteLevelAlert.mutate(drawing.id);
     });
     onDrawingsChange([]);
   };
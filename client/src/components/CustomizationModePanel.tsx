@@ -21,6 +21,7 @@ import {
   X,
   LayoutGrid,
   Shield,
+  ShieldAlert,
   BarChart3,
   Activity,
   Wallet,
@@ -58,7 +59,7 @@ interface CustomizationModePanelProps {
 
 // Icon mapping for dynamic rendering
 const iconMap: Record<string, any> = {
-  Shield, BarChart3, Activity, Wallet, Zap, LineChart, Eye, Bell,
+  Shield, ShieldAlert, BarChart3, Activity, Wallet, Zap, LineChart, Eye, Bell,
   Brain, Lightbulb, Sparkles, Cpu, Heart, BookOpen, Calendar, Sun,
 };
 
@@ -5,6 +5,7 @@ import { Bell, Settings, LogOut, Power, Shield } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { TradingModeToggle } from "@/components/TradingModeToggle";
+import { NotificationInbox } from "@/components/NotificationInbox";
 import { useState } from "react";
 
 interface DashboardHeaderProps {
@@ -104,6 +105,9 @@ export default function DashboardHeader({
 
           <div className="h-6 w-px bg-border" />
 
+          {/* Notifications */}
+          <NotificationInbox />
+
           {/* Settings */}
           <Button 
             variant="ghost" 
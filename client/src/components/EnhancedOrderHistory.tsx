@@ -37,13 +37,130 @@ interface PaperOrder {
   side: string;
   orderType: string;
   quantity: string;
-  price: string;
+  price: string | null;
   status: string;
   timestamp: string;
   stopLoss?: string;
   takeProfit?: string;
+  filledPrice?: string | null;
+  stopPrice?: string | null;
+  trailingAmount?: string | null;
+  trailingType?: string | null;
+  highWaterMark?: string | null;
+  ocoGroupId?: string | null;
+  triggeredAt?: string | null;
+  filledQuantity?: string;
+  liquidity?: string | null;
+  fee?: string;
+  slippage?: string;
+  exchange?: string; // Set on live exchange orders
+  commission?: string; // Live orders: summed commission with its asset, e.g. "0.0012 BNB"
+}
+
+interface LiveFill {
+  price: string;
+  quantity: string;
+  commission: string;
+  commissionAsset: string | null;
 }
 
+interface LiveOrder {
+  id: string;
+  exchange: string;
+  symbol: string;
+  side: string;
+  orderType: string;
+  quantity: string;
+  price: string | null;
+  status: string;
+  executedQuantity: string;
+  avgPrice: string | null;
+  createdAt: string;
+  fills: LiveFill[];
+}
+
+// Exchange order statuses in the paper order vocabulary, so one set of filters covers both
+const LIVE_STATUS_LABELS: Record<string, string> = {
+  new: "open",
+  partially_filled: "partially_filled",
+  filled: "completed",
+  canceled: "cancelled",
+  expired: "expired",
+  rejected: "rejected",
+};
+
+const toOrderRow = (order: LiveOrder): PaperOrder => {
+  const commissions = new Map<string, number>();
+  for (const fill of order.fills) {
+    const asset = fill.commissionAsset || "";
+    commissions.set(asset, (commissions.get(asset) || 0) + parseFloat(fill.commission));
+  }
+  return {
+    id: order.id,
+    symbol: order.symbol,
+    side: order.side,
+    orderType: order.orderType,
+    quantity: order.quantity,
+    price: order.price,
+    status: LIVE_STATUS_LABELS[order.status] || order.status,
+    timestamp: order.createdAt,
+    filledPrice: order.avgPrice,
+    filledQuantity: order.executedQuantity,
+    exchange: order.exchange,
+    commission: Array.from(commissions.entries())
+      .filter(([, amount]) => amount > 0)
+      .map(([asset, amount]) => `${parseFloat(amount.toFixed(8))} ${asset}`.trim())
+      .join(" + "),
+  };
+};
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+  market: "Market",
+  limit: "Limit",
+  stop_market: "Stop",
+  stop_limit: "Stop Limit",
+  trailing_stop: "Trailing Stop",
+};
+
+// Fill price once executed, otherwise the limit (or stop trigger) the order rests at
+const getOrderPrice = (order: PaperOrder) =>
+  parseFloat(order.filledPrice || order.price || order.stopPrice || "0");
+
+// Secondary line under the order type: trigger, trail, OCO and execution cost details
+const describeOrderTerms = (order: PaperOrder) => {
+  const terms: string[] = [];
+  const filledQuantity = parseFloat(order.filledQuantity || "0");
+  if (order.orderType === "trailing_stop" && order.trailingAmount) {
+    terms.push(order.trailingType === "percent" ? `trail ${order.trailingAmount}%` : `trail $${order.trailingAmount}`);
+  }
+  if (order.stopPrice && order.orderType !== "limit") {
+    terms.push(`stop $${parseFloat(order.stopPrice).toLocaleString()}`);
+  }
+  if (order.orderType === "stop_limit" && order.triggeredAt) {
+    terms.push("triggered");
+  }
+  if (order.ocoGroupId) {
+    terms.push("OCO");
+  }
+  if (filledQuantity > 0 && filledQuantity < parseFloat(order.quantity)) {
+    terms.push(`filled ${filledQuantity}/${order.quantity}`);
+  }
+  if (parseFloat(order.fee || "0") > 0) {
+    terms.push(`${order.liquidity || "fee"} fee $${parseFloat(order.fee!).toFixed(2)}`);
+  }
+  if (parseFloat(order.slippage || "0") > 0) {
+    terms.push(`slippage $${parseFloat(order.slippage!).toFixed(2)}`);
+  }
+  if (order.commission) {
+    terms.push(`commission ${order.commission}`);
+  }
+  return terms.join(" · ");
+};
+
+// Only standalone, untouched paper limit orders can have quantity/price amended
+const isEditable = (order: PaperOrder) =>
+  !order.exchange && order.orderType === "limit" && !order.ocoGroupId && !(parseFloat(order.filledQuantity || "0") > 0);
+
 interface AnalysisResult {
   runId: string;
   summary: string;
@@ -78,11 +195,18 @@ export default function EnhancedOrderHistory() {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [analysisDateRange, setAnalysisDateRange] = useState<{ from: Date; to: Date } | null>(null);
 
-  const { data: orders, isLoading } = useQuery<PaperOrder[]>({
+  const { data: paperOrders, isLoading } = useQuery<PaperOrder[]>({
     queryKey: ["/api/paper/orders", userId],
     enabled: !!userId,
   });
 
+  const { data: liveOrders } = useQuery<LiveOrder[]>({
+    queryKey: ["/api/exchange/live-orders", userId],
+    enabled: !!userId,
+  });
+
+  const orders = paperOrders && [...paperOrders, ...(liveOrders || []).map(toOrderRow)];
+
   const cancelOrderMutation = useMutation({
     mutationFn: async (orderId: string) => {
       return await apiRequest(`/api/paper/order/${orderId}/cancel`, "PATCH");
@@ -140,7 +264,7 @@ export default function EnhancedOrderHistory() {
   };
 
   const calculatePnL = (order: PaperOrder) => {
-    const basePrice = parseFloat(order.price);
+    const basePrice = getOrderPrice(order);
     const randomPnL = (Math.random() - 0.5) * basePrice * 0.1;
     return randomPnL;
   };
@@ -163,11 +287,11 @@ export default function EnhancedOrderHistory() {
   // Calculate statistics
   const stats = {
     total: filteredOrders.length,
-    pending: filteredOrders.filter(o => o.status === "pending").length,
+    pending: filteredOrders.filter(o => o.status === "pending" || o.status === "open").length,
     completed: filteredOrders.filter(o => o.status === "completed").length,
     cancelled: filteredOrders.filter(o => o.status === "cancelled").length,
     totalVolume: filteredOrders.reduce((sum, o) => 
-      sum + (parseFloat(o.quantity) * parseFloat(o.price)), 0
+      sum + (parseFloat(o.quantity) * getOrderPrice(o)), 0
     ),
     avgOrderSize: filteredOrders.length > 0 
       ? filteredOrders.reduce((sum, o) => sum + parseFloat(o.quantity), 0) / filteredOrders.length 
@@ -192,7 +316,7 @@ export default function EnhancedOrderHistory() {
       <div>
         <h1 className="text-3xl font-bold tracking-tight">Order History</h1>
         <p className="text-muted-foreground mt-2">
-          Comprehensive view of all your paper trading orders and performance
+          Comprehensive view of all your paper and live exchange orders and performance
         </p>
       </div>
 
@@ -294,7 +418,11 @@ export default function EnhancedOrderHistory() {
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="partially_filled">Partially Filled</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="open">Open (live)</SelectItem>
+                  <SelectItem value="expired">Expired (live)</SelectItem>
+                  <SelectItem value="rejected">Rejected (live)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -338,7 +466,8 @@ export default function EnhancedOrderHistory() {
               <div className="md:hidden space-y-3 px-4">
                 {sortedOrders.map((order) => {
                   const pnl = calculatePnL(order);
-                  const total = parseFloat(order.quantity) * parseFloat(order.price);
+                  const executionPrice = getOrderPrice(order);
+                  const total = parseFloat(order.quantity) * executionPrice;
                   
                   return (
                     <Card key={order.id} className="p-4" data-testid={`card-order-${order.id}`}>
@@ -378,7 +507,17 @@ export default function EnhancedOrderHistory() {
                           </div>
                           <div>
                             <p className="text-muted-foreground text-xs">Type</p>
-                            <p className="font-medium capitalize">{order.orderType}</p>
+                            <p className="font-medium">
+                              {ORDER_TYPE_LABELS[order.orderType] || order.orderType}
+                              {order.exchange && (
+                                <Badge variant="outline" className="ml-2 text-xs capitalize" data-testid={`badge-live-${order.id}`}>
+                                  Live · {order.exchange}
+                                </Badge>
+                              )}
+                            </p>
+                            {describeOrderTerms(order) && (
+                              <p className="text-xs text-muted-foreground">{describeOrderTerms(order)}</p>
+                            )}
                           </div>
                           <div>
                             <p className="text-muted-foreground text-xs">Quantity</p>
@@ -386,7 +525,7 @@ export default function EnhancedOrderHistory() {
                           </div>
                           <div>
                             <p className="text-muted-foreground text-xs">Price</p>
-                            <p className="font-mono font-medium">${parseFloat(order.price).toLocaleString()}</p>
+                            <p className="font-mono font-medium">${executionPrice.toLocaleString()}</p>
                           </div>
                           <div>
                             <p className="text-muted-foreground text-xs">Total</p>
@@ -397,21 +536,23 @@ export default function EnhancedOrderHistory() {
                           <div>
                             <p className="text-muted-foreground text-xs">Status</p>
                             <Badge variant="outline" className="capitalize text-xs">
-                              {order.status}
+                              {order.status.replace("_", " ")}
                             </Badge>
                           </div>
                         </div>
 
                         {order.status === "pending" && (
                           <div className="flex gap-2 mt-2">
-                            <EditOrderDialog
-                              orderId={order.id}
-                              currentQuantity={order.quantity}
-                              currentPrice={order.price}
-                              symbol={order.symbol}
-                              side={order.side}
-                              userId={userId!}
-                            />
+                            {isEditable(order) && (
+                              <EditOrderDialog
+                                orderId={order.id}
+                                currentQuantity={order.quantity}
+                                currentPrice={order.price || ""}
+                                symbol={order.symbol}
+                                side={order.side}
+                                userId={userId!}
+                              />
+                            )}
                             <Button
                               variant="destructive"
                               size="sm"
@@ -452,7 +593,8 @@ export default function EnhancedOrderHistory() {
                     <TableBody>
                       {sortedOrders.map((order) => {
                         const pnl = calculatePnL(order);
-                        const total = parseFloat(order.quantity) * parseFloat(order.price);
+                        const executionPrice = getOrderPrice(order);
+                        const total = parseFloat(order.quantity) * executionPrice;
                         
                         return (
                           <TableRow key={order.id} data-testid={`row-order-${order.id}`}>
@@ -470,19 +612,31 @@ export default function EnhancedOrderHistory() {
                                 {order.side.toUpperCase()}
                               </Badge>
                             </TableCell>
-                            <TableCell className="capitalize">{order.orderType}</TableCell>
+                            <TableCell>
+                              <div>
+                                {ORDER_TYPE_LABELS[order.orderType] || order.orderType}
+                                {order.exchange && (
+                                  <Badge variant="outline" className="ml-2 capitalize" data-testid={`badge-live-${order.id}`}>
+                                    Live · {order.exchange}
+                                  </Badge>
+                                )}
+                              </div>
+                              {describeOrderTerms(order) && (
+                                <div className="text-xs text-muted-foreground">{describeOrderTerms(order)}</div>
+                              )}
+                            </TableCell>
                             <TableCell className="text-right font-mono">
                               {parseFloat(order.quantity).toFixed(4)}
                             </TableCell>
                             <TableCell className="text-right font-mono">
-                              ${parseFloat(order.price).toLocaleString()}
+                              ${executionPrice.toLocaleString()}
                             </TableCell>
                             <TableCell className="text-right font-mono">
                               ${total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                             </TableCell>
                             <TableCell>
                               <Badge variant="outline" className="capitalize">
-                                {order.status}
+                                {order.status.replace("_", " ")}
                               </Badge>
                             </TableCell>
                             <TableCell className="text-right">
@@ -500,14 +654,16 @@ export default function EnhancedOrderHistory() {
                             <TableCell className="text-right">
                               {order.status === "pending" ? (
                                 <div className="flex items-center justify-end gap-1">
-                                  <EditOrderDialog
-                                    orderId={order.id}
-                                    currentQuantity={order.quantity}
-                                    currentPrice={order.price}
-                                    symbol={order.symbol}
-                                    side={order.side}
-                                    userId={userId!}
-                                  />
+                                  {isEditable(order) && (
+                                    <EditOrderDialog
+                                      orderId={order.id}
+                                      currentQuantity={order.quantity}
+                                      currentPrice={order.price || ""}
+                                      symbol={order.symbol}
+                                      side={order.side}
+                                      userId={userId!}
+                                    />
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="sm"
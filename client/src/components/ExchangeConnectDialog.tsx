@@ -8,14 +8,66 @@ import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Shield, ExternalLink, AlertCircle, Key, Lock, Coins } from "lucide-react";
+import { Shield, ExternalLink, AlertCircle, Key, Lock, Coins, Anchor, FlaskConical } from "lucide-react";
 
-interface BinanceConnectDialogProps {
+interface ExchangeConnectDialogProps {
+  exchange: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialogProps) {
+interface ExchangeSetup {
+  name: string;
+  icon: typeof Coins;
+  iconColor: string;
+  bgColor: string;
+  permissions: string;
+  testnetUrl?: string; // Exchanges without a testnet hide the toggle
+  apiUrl: string;
+  steps: string[];
+}
+
+export const EXCHANGE_SETUP: Record<string, ExchangeSetup> = {
+  binance: {
+    name: "Binance",
+    icon: Coins,
+    iconColor: "text-yellow-600 dark:text-yellow-500",
+    bgColor: "bg-yellow-500/10",
+    permissions: "SPOT_TRADING,USER_DATA,READ_ONLY",
+    testnetUrl: "https://testnet.binance.vision/",
+    apiUrl: "https://www.binance.com/en/my/settings/api-management",
+    steps: [
+      "Go to Binance → Account → API Management",
+      "Create a new API key with \"Spot & Margin Trading\" enabled",
+    ],
+  },
+  kraken: {
+    name: "Kraken",
+    icon: Anchor,
+    iconColor: "text-purple-600 dark:text-purple-500",
+    bgColor: "bg-purple-500/10",
+    permissions: "QUERY_FUNDS,QUERY_ORDERS,CREATE_ORDERS,CANCEL_ORDERS",
+    apiUrl: "https://pro.kraken.com/app/settings/api",
+    steps: [
+      "Go to Kraken → Settings → API",
+      "Create a new key with Query Funds, Query/Create/Cancel Orders enabled",
+    ],
+  },
+  mock: {
+    name: "Mock Exchange",
+    icon: FlaskConical,
+    iconColor: "text-green-600 dark:text-green-500",
+    bgColor: "bg-green-500/10",
+    permissions: "SPOT_TRADING",
+    apiUrl: "",
+    steps: [
+      "Enter any key and secret - each key is its own account with 100,000 USDT",
+      "Orders fill in-process at market data prices; nothing reaches a real exchange",
+    ],
+  },
+};
+
+export function ExchangeConnectDialog({ exchange, open, onOpenChange }: ExchangeConnectDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -23,6 +75,9 @@ export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialo
   const [apiSecret, setApiSecret] = useState("");
   const [testnet, setTestnet] = useState(true);
 
+  const setup = EXCHANGE_SETUP[exchange] ?? EXCHANGE_SETUP.binance;
+  const hasTestnet = setup.testnetUrl !== undefined;
+
   const connectMutation = useMutation({
     mutationFn: async (data: { exchange: string; apiKey: string; apiSecret: string; permissions: string; testnet: boolean }) => {
       return await apiRequest("/api/exchange/connect", "POST", data);
@@ -31,7 +86,7 @@ export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialo
       queryClient.invalidateQueries({ queryKey: ["/api/exchange/status"] });
       toast({
         title: "Exchange Connected",
-        description: "Your Binance account has been securely connected.",
+        description: `Your ${setup.name} account has been securely connected.`,
       });
       onOpenChange(false);
       setApiKey("");
@@ -57,26 +112,26 @@ export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialo
     }
 
     connectMutation.mutate({
-      exchange: "binance",
+      exchange,
       apiKey,
       apiSecret,
-      permissions: "SPOT_TRADING,USER_DATA,READ_ONLY",
-      testnet,
+      permissions: setup.permissions,
+      testnet: hasTestnet && testnet,
     });
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[550px]" data-testid="dialog-binance-connect">
+      <DialogContent className="sm:max-w-[550px]" data-testid={`dialog-${exchange}-connect`}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-3 text-xl">
-            <div className="w-8 h-8 rounded-full bg-yellow-500/10 flex items-center justify-center">
-              <Coins className="h-5 w-5 text-yellow-600 dark:text-yellow-500" />
+            <div className={`w-8 h-8 rounded-full ${setup.bgColor} flex items-center justify-center`}>
+              <setup.icon className={`h-5 w-5 ${setup.iconColor}`} />
             </div>
-            Connect to Binance
+            Connect to {setup.name}
           </DialogTitle>
           <DialogDescription>
-            Securely connect your Binance account to execute real trades with advanced security
+            Securely connect your {setup.name} account to execute real trades with advanced security
           </DialogDescription>
         </DialogHeader>
 
@@ -98,7 +153,7 @@ export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialo
             <Input
               id="api-key"
               type="text"
-              placeholder="Enter your Binance API key"
+              placeholder={`Enter your ${setup.name} API key`}
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
               data-testid="input-api-key"
@@ -115,7 +170,7 @@ export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialo
             <Input
               id="api-secret"
               type="password"
-              placeholder="Enter your Binance API secret"
+              placeholder={`Enter your ${setup.name} API secret`}
               value={apiSecret}
               onChange={(e) => setApiSecret(e.target.value)}
               data-testid="input-api-secret"
@@ -124,45 +179,54 @@ export function BinanceConnectDialog({ open, onOpenChange }: BinanceConnectDialo
           </div>
 
           {/* Testnet Toggle */}
-          <div className="flex items-center justify-between p-3 rounded-lg border">
-            <div className="space-y-0.5">
-              <Label htmlFor="testnet" className="text-sm font-medium">
-                Use Testnet
-              </Label>
-              <p className="text-xs text-muted-foreground">
-                Connect to Binance Testnet for safe testing
-              </p>
+          {hasTestnet && (
+            <div className="flex items-center justify-between p-3 rounded-lg border">
+              <div className="space-y-0.5">
+                <Label htmlFor="testnet" className="text-sm font-medium">
+                  Use Testnet
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Connect to {setup.name} Testnet for safe testing
+                </p>
+              </div>
+              <Switch
+                id="testnet"
+                checked={testnet}
+                onCheckedChange={setTestnet}
+                data-testid="switch-testnet"
+              />
             </div>
-            <Switch
-              id="testnet"
-              checked={testnet}
-              onCheckedChange={setTestnet}
-              data-testid="switch-testnet"
-            />
-          </div>
+          )}
 
           {/* Setup Instructions */}
           <Alert variant="default" className="bg-muted/50">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
               <div className="space-y-2 text-xs">
-                <p className="font-semibold">How to get your Binance API keys:</p>
+                <p className="font-semibold">How to get your {setup.name} API keys:</p>
                 <ol className="list-decimal list-inside space-y-1 pl-2">
-                  <li>Go to Binance → Account → API Management</li>
-                  <li>Create a new API key with "Spot & Margin Trading" enabled</li>
-                  <li>Do <span className="font-semibold">NOT</span> enable withdrawal permissions</li>
-                  <li>Copy your API key and secret here</li>
+                  {setup.steps.map((step) => (
+                    <li key={step}>{step}</li>
+                  ))}
+                  {setup.apiUrl && (
+                    <>
+                      <li>Do <span className="font-semibold">NOT</span> enable withdrawal permissions</li>
+                      <li>Copy your API key and secret here</li>
+                    </>
+                  )}
                 </ol>
-                <a
-                  href={testnet ? "https://testnet.binance.vision/" : "https://www.binance.com/en/my/settings/api-management"}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center gap-1 text-primary hover:underline mt-2"
-                  data-testid="link-binance-api"
-                >
-                  Open Binance API Management
-                  <ExternalLink className="h-3 w-3" />
-                </a>
+                {setup.apiUrl && (
+                  <a
+                    href={hasTestnet && testnet ? setup.testnetUrl : setup.apiUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline mt-2"
+                    data-testid={`link-${exchange}-api`}
+                  >
+                    Open {setup.name} API Management
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
               </div>
             </AlertDescription>
           </Alert>
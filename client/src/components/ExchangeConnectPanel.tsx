@@ -3,39 +3,39 @@ import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, Link as LinkIcon, Settings, Coins, Building2, Anchor, Zap } from "lucide-react";
+import { CheckCircle2, Link as LinkIcon, Settings, Building2, Zap } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { ExchangeSelectionDialog } from "./ExchangeSelectionDialog";
-import { BinanceConnectDialog } from "./BinanceConnectDialog";
+import { ExchangeConnectDialog, EXCHANGE_SETUP } from "./ExchangeConnectDialog";
 
 export function ExchangeConnectPanel() {
   const { user } = useAuth();
   const [selectionDialogOpen, setSelectionDialogOpen] = useState(false);
-  const [binanceDialogOpen, setBinanceDialogOpen] = useState(false);
+  const [connectExchange, setConnectExchange] = useState<string | null>(null);
 
   // Fetch exchange status
   const { data: exchangeStatus, isLoading } = useQuery<Array<{
     exchange: string;
     connected: boolean;
     permissions: string;
+    testnet: boolean;
     lastValidated?: Date | null;
   }>>({
     queryKey: ["/api/exchange/status", user?.id],
     enabled: !!user?.id,
   });
 
-  const binanceConnected = exchangeStatus?.some(
-    (e) => e.exchange === "binance" && e.connected
-  );
+  const { data: supportedExchanges = [] } = useQuery<string[]>({
+    queryKey: ["/api/exchange/supported"],
+    enabled: !!user?.id,
+  });
+
+  const connectedExchanges = (exchangeStatus || []).filter((e) => e.connected && EXCHANGE_SETUP[e.exchange]);
+  const hasConnection = connectedExchanges.length > 0;
 
   const handleSelectExchange = (exchange: string) => {
     setSelectionDialogOpen(false);
-    
-    // Open the appropriate connection dialog based on selected exchange
-    if (exchange === "binance") {
-      setBinanceDialogOpen(true);
-    }
-    // Add more exchanges here when supported
+    setConnectExchange(exchange);
   };
 
   if (isLoading) {
@@ -68,28 +68,31 @@ export function ExchangeConnectPanel() {
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Connected Exchanges */}
-          {binanceConnected && (
-            <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg border hover-elevate">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-full bg-yellow-500/10 flex items-center justify-center">
-                  <Coins className="h-5 w-5 text-yellow-600 dark:text-yellow-500" />
-                </div>
-                <div>
-                  <p className="font-semibold">Binance</p>
-                  <p className="text-xs text-muted-foreground">
-                    Testnet • Spot Trading
-                  </p>
+          {connectedExchanges.map((connection) => {
+            const setup = EXCHANGE_SETUP[connection.exchange];
+            return (
+              <div key={connection.exchange} className="flex items-center justify-between p-4 bg-muted/50 rounded-lg border hover-elevate">
+                <div className="flex items-center gap-3">
+                  <div className={`w-10 h-10 rounded-full ${setup.bgColor} flex items-center justify-center`}>
+                    <setup.icon className={`h-5 w-5 ${setup.iconColor}`} />
+                  </div>
+                  <div>
+                    <p className="font-semibold">{setup.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {connection.testnet ? "Testnet" : "Live"} • Spot Trading
+                    </p>
+                  </div>
                 </div>
+                <Badge variant="default" className="gap-1.5" data-testid={`badge-exchange-connected-${connection.exchange}`}>
+                  <CheckCircle2 className="h-3.5 w-3.5" />
+                  Connected
+                </Badge>
               </div>
-              <Badge variant="default" className="gap-1.5" data-testid="badge-exchange-connected">
-                <CheckCircle2 className="h-3.5 w-3.5" />
-                Connected
-              </Badge>
-            </div>
-          )}
+            );
+          })}
 
           {/* Connection Actions */}
-          {!binanceConnected ? (
+          {!hasConnection ? (
             <div className="space-y-3">
               <Button 
                 onClick={() => setSelectionDialogOpen(true)} 
@@ -104,18 +107,19 @@ export function ExchangeConnectPanel() {
               <div className="text-xs text-muted-foreground space-y-2 pt-1">
                 <p className="font-medium text-foreground">Supported Exchanges:</p>
                 <div className="flex flex-wrap gap-2">
-                  <Badge variant="outline" className="gap-1.5">
-                    <Coins className="h-3 w-3 text-yellow-600 dark:text-yellow-500" />
-                    Binance
-                  </Badge>
+                  {supportedExchanges.filter((exchange) => EXCHANGE_SETUP[exchange]).map((exchange) => {
+                    const setup = EXCHANGE_SETUP[exchange];
+                    return (
+                      <Badge key={exchange} variant="outline" className="gap-1.5">
+                        <setup.icon className={`h-3 w-3 ${setup.iconColor}`} />
+                        {setup.name}
+                      </Badge>
+                    );
+                  })}
                   <Badge variant="outline" className="gap-1.5 opacity-60">
                     <Building2 className="h-3 w-3 text-blue-600 dark:text-blue-500" />
                     Coinbase (Soon)
                   </Badge>
-                  <Badge variant="outline" className="gap-1.5 opacity-60">
-                    <Anchor className="h-3 w-3 text-purple-600 dark:text-purple-500" />
-                    Kraken (Soon)
-                  </Badge>
                   <Badge variant="outline" className="gap-1.5 opacity-60">
                     <Zap className="h-3 w-3 text-orange-600 dark:text-orange-500" />
                     Bybit (Soon)
@@ -136,16 +140,27 @@ export function ExchangeConnectPanel() {
             <div className="space-y-3">
               <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
                 <p className="text-sm text-green-700 dark:text-green-400 font-medium">
-                  ✓ Your Binance account is connected and ready for live trading
+                  ✓ Your {connectedExchanges.map((e) => EXCHANGE_SETUP[e.exchange].name).join(" and ")} account{connectedExchanges.length > 1 ? "s are" : " is"} connected and ready for live trading
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
                   All trades will respect your Risk Guard limits and require confirmation
                 </p>
               </div>
-              <Button variant="outline" size="sm" data-testid="button-manage-connection">
-                <Settings className="h-4 w-4 mr-2" />
-                Manage Connection
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" data-testid="button-manage-connection">
+                  <Settings className="h-4 w-4 mr-2" />
+                  Manage Connection
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectionDialogOpen(true)}
+                  data-testid="button-connect-another-exchange"
+                >
+                  <LinkIcon className="h-4 w-4 mr-2" />
+                  Connect Another
+                </Button>
+              </div>
             </div>
           )}
         </CardContent>
@@ -158,11 +173,14 @@ export function ExchangeConnectPanel() {
         onSelectExchange={handleSelectExchange}
       />
 
-      {/* Binance Connect Dialog (Step 2) */}
-      <BinanceConnectDialog 
-        open={binanceDialogOpen} 
-        onOpenChange={setBinanceDialogOpen}
-      />
+      {/* Exchange Connect Dialog (Step 2) */}
+      {connectExchange && (
+        <ExchangeConnectDialog
+          exchange={connectExchange}
+          open={!!connectExchange}
+          onOpenChange={(open) => !open && setConnectExchange(null)}
+        />
+      )}
     </>
   );
 }
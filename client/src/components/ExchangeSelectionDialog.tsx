@@ -1,6 +1,7 @@
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { ChevronRight, Shield, Coins, Building2, Anchor, Zap } from "lucide-react";
+import { ChevronRight, Shield, Coins, Building2, Anchor, Zap, FlaskConical } from "lucide-react";
 
 interface ExchangeSelectionDialogProps {
   open: boolean;
@@ -15,7 +16,7 @@ interface ExchangeOption {
   iconColor: string;
   bgColor: string;
   description: string;
-  supported: boolean;
+  devOnly?: boolean; // Hidden unless the server offers it
   tag?: string;
 }
 
@@ -27,7 +28,6 @@ const EXCHANGES: ExchangeOption[] = [
     iconColor: "text-yellow-600 dark:text-yellow-500",
     bgColor: "bg-yellow-500/10",
     description: "World's largest crypto exchange by trading volume",
-    supported: true,
     tag: "Most Popular"
   },
   {
@@ -37,7 +37,6 @@ const EXCHANGES: ExchangeOption[] = [
     iconColor: "text-blue-600 dark:text-blue-500",
     bgColor: "bg-blue-500/10",
     description: "US-based exchange with strong regulatory compliance",
-    supported: false,
   },
   {
     id: "kraken",
@@ -46,7 +45,6 @@ const EXCHANGES: ExchangeOption[] = [
     iconColor: "text-purple-600 dark:text-purple-500",
     bgColor: "bg-purple-500/10",
     description: "Established exchange with advanced trading features",
-    supported: false,
   },
   {
     id: "bybit",
@@ -55,11 +53,28 @@ const EXCHANGES: ExchangeOption[] = [
     iconColor: "text-orange-600 dark:text-orange-500",
     bgColor: "bg-orange-500/10",
     description: "Popular for derivatives and futures trading",
-    supported: false,
+  },
+  {
+    id: "mock",
+    name: "Mock Exchange",
+    icon: FlaskConical,
+    iconColor: "text-green-600 dark:text-green-500",
+    bgColor: "bg-green-500/10",
+    description: "In-process exchange for development and testing - no real funds",
+    devOnly: true,
   }
 ];
 
 export function ExchangeSelectionDialog({ open, onOpenChange, onSelectExchange }: ExchangeSelectionDialogProps) {
+  const { data: supportedExchanges = [] } = useQuery<string[]>({
+    queryKey: ["/api/exchange/supported"],
+    enabled: open,
+  });
+
+  const exchanges = EXCHANGES
+    .map(exchange => ({ ...exchange, supported: supportedExchanges.includes(exchange.id) }))
+    .filter(exchange => !exchange.devOnly || exchange.supported);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px]" data-testid="dialog-exchange-selection">
@@ -71,7 +86,7 @@ export function ExchangeSelectionDialog({ open, onOpenChange, onSelectExchange }
         </DialogHeader>
 
         <div className="space-y-3 py-4">
-          {EXCHANGES.map((exchange) => (
+          {exchanges.map((exchange) => (
             <button
               key={exchange.id}
               onClick={() => {
@@ -73,8 +73,8 @@ export default function ExecuteSuggestionDialog({
 
   const executeTrade = useMutation({
     mutationFn: async (data: ExecuteFormData) => {
-      // First, mark suggestion as executed
-      await apiRequest(`/api/ai/suggestions/${suggestion.id}/execute`, "PUT");
+      // First, risk-check the trade and mark the suggestion as executed
+      await apiRequest(`/api/ai/suggestions/${suggestion.id}/execute`, "PUT", { quantity: data.quantity });
       
       // Then place the paper trade
       return await apiRequest("/api/paper/order", "POST", {
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import {
   Dialog,
@@ -15,17 +15,57 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, AlertTriangle, CheckCircle2, TrendingUp, TrendingDown } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Loader2, AlertTriangle, CheckCircle2, TrendingUp, TrendingDown, ShieldCheck } from "lucide-react";
+import { EXCHANGE_SETUP } from "./ExchangeConnectDialog";
 
 interface LiveTradeModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+// Symbols use each exchange's own pair names
+const EXCHANGE_SYMBOLS: Record<string, { quote: string; symbols: Array<{ value: string; label: string }> }> = {
+  binance: {
+    quote: "USDT",
+    symbols: [
+      { value: "BTCUSDT", label: "BTC/USDT" },
+      { value: "ETHUSDT", label: "ETH/USDT" },
+      { value: "SOLUSDT", label: "SOL/USDT" },
+    ],
+  },
+  kraken: {
+    quote: "USD",
+    symbols: [
+      { value: "XBTUSD", label: "BTC/USD" },
+      { value: "ETHUSD", label: "ETH/USD" },
+      { value: "SOLUSD", label: "SOL/USD" },
+    ],
+  },
+  mock: {
+    quote: "USDT",
+    symbols: [
+      { value: "BTCUSDT", label: "BTC/USDT" },
+      { value: "ETHUSDT", label: "ETH/USDT" },
+      { value: "SOLUSDT", label: "SOL/USDT" },
+    ],
+  },
+};
+
 export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: exchangeStatus } = useQuery<Array<{ exchange: string; connected: boolean; testnet: boolean }>>({
+    queryKey: ["/api/exchange/status", user?.id],
+    enabled: open && !!user?.id,
+  });
+  const connectedExchanges = (exchangeStatus || [])
+    .filter((e) => e.connected && EXCHANGE_SYMBOLS[e.exchange])
+    .map((e) => e.exchange);
 
+  const [exchange, setExchange] = useState("binance");
   const [symbol, setSymbol] = useState("BTCUSDT");
   const [side, setSide] = useState<"BUY" | "SELL">("BUY");
   const [type, setType] = useState<"MARKET" | "LIMIT">("MARKET");
@@ -35,16 +75,38 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
   const [executionToken, setExecutionToken] = useState<string | null>(null);
   const [preCheckResult, setPreCheckResult] = useState<any>(null);
   const [step, setStep] = useState<"order" | "confirm">("order");
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [twoFactorMethod, setTwoFactorMethod] = useState<"totp" | "email">("totp");
+
+  const exchangeName = EXCHANGE_SETUP[exchange]?.name ?? exchange;
+  // The pre-check may round quantity and price to the exchange's steps; confirm what will be sent
+  const confirmedOrder = preCheckResult?.orderPayload ?? { symbol, side, type, quantity, price };
+  const { quote, symbols } = EXCHANGE_SYMBOLS[exchange] ?? EXCHANGE_SYMBOLS.binance;
+
+  // Default to the first connected exchange
+  useEffect(() => {
+    if (connectedExchanges.length > 0 && !connectedExchanges.includes(exchange)) {
+      handleExchangeChange(connectedExchanges[0]);
+    }
+  }, [connectedExchanges.join(",")]);
+
+  const handleExchangeChange = (value: string) => {
+    setExchange(value);
+    setSymbol((EXCHANGE_SYMBOLS[value] ?? EXCHANGE_SYMBOLS.binance).symbols[0].value);
+  };
 
   // Pre-check mutation
   const preCheckMutation = useMutation({
     mutationFn: async (orderData: any) => {
-      return await apiRequest("/api/exchange/execute", "POST", orderData);
+      const response = await apiRequest("/api/exchange/execute", "POST", orderData);
+      return response.json();
     },
     onSuccess: (data: any) => {
       if (data.preCheck.allowed) {
         setExecutionToken(data.token);
         setPreCheckResult(data.preCheck);
+        setTwoFactorCode("");
+        setTwoFactorMethod(data.preCheck.stepUpMethods?.[0] || "totp");
         setStep("confirm");
       } else {
         toast({
@@ -65,8 +127,14 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
 
   // Confirm execution mutation
   const confirmMutation = useMutation({
-    mutationFn: async (confirmData: { exchange: string; token: string }) => {
-      return await apiRequest("/api/exchange/confirm", "POST", confirmData);
+    mutationFn: async (confirmData: {
+      exchange: string;
+      token: string;
+      twoFactorCode?: string;
+      twoFactorMethod?: "totp" | "email";
+    }) => {
+      const response = await apiRequest("/api/exchange/confirm", "POST", confirmData);
+      return response.json();
     },
     onSuccess: (data: any) => {
       if (data.success) {
@@ -78,6 +146,7 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
         // Reset and close
         handleClose();
         queryClient.invalidateQueries({ queryKey: ["/api/paper/orders"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/exchange/live-orders"] });
       } else {
         toast({
           title: "Execution Failed",
@@ -115,7 +184,7 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
     }
 
     preCheckMutation.mutate({
-      exchange: "binance",
+      exchange,
       symbol,
       side,
       type,
@@ -124,6 +193,27 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
     });
   };
 
+  // Email a one-time code when the user has no authenticator app (or prefers email)
+  const sendCodeMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await apiRequest("/api/exchange/confirm/send-code", "POST", { token });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Code Sent",
+        description: "Check your email for the verification code",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could Not Send Code",
+        description: error.message || "Failed to send verification code",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleConfirm = () => {
     if (!executionToken) {
       toast({
@@ -134,20 +224,31 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
       return;
     }
 
+    if (preCheckResult?.stepUpRequired && !twoFactorCode) {
+      toast({
+        title: "Verification Required",
+        description: "Enter your verification code to confirm this order",
+        variant: "destructive",
+      });
+      return;
+    }
+
     confirmMutation.mutate({
-      exchange: "binance",
+      exchange,
       token: executionToken,
+      ...(preCheckResult?.stepUpRequired ? { twoFactorCode, twoFactorMethod } : {}),
     });
   };
 
   const handleClose = () => {
-    setSymbol("BTCUSDT");
+    setSymbol(symbols[0].value);
     setSide("BUY");
     setType("MARKET");
     setQuantity("");
     setPrice("");
     setExecutionToken(null);
     setPreCheckResult(null);
+    setTwoFactorCode("");
     setStep("order");
     onOpenChange(false);
   };
@@ -167,11 +268,27 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
                 Live Exchange Order
               </DialogTitle>
               <DialogDescription>
-                Place a real order on Binance. All trades are verified against Risk Guard limits.
+                Place a real order on {exchangeName}. All trades are verified against Risk Guard limits.
               </DialogDescription>
             </DialogHeader>
 
             <div className="space-y-4 py-4">
+              {connectedExchanges.length > 1 && (
+                <div className="space-y-2">
+                  <Label htmlFor="exchange">Exchange</Label>
+                  <Select value={exchange} onValueChange={handleExchangeChange}>
+                    <SelectTrigger id="exchange" data-testid="select-exchange">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {connectedExchanges.map((e) => (
+                        <SelectItem key={e} value={e}>{EXCHANGE_SETUP[e]?.name ?? e}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="symbol">Symbol</Label>
                 <Select value={symbol} onValueChange={setSymbol}>
@@ -179,9 +296,9 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="BTCUSDT">BTC/USDT</SelectItem>
-                    <SelectItem value="ETHUSDT">ETH/USDT</SelectItem>
-                    <SelectItem value="SOLUSDT">SOL/USDT</SelectItem>
+                    {symbols.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -229,7 +346,7 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
 
               {type === "LIMIT" && (
                 <div className="space-y-2">
-                  <Label htmlFor="price">Limit Price (USDT)</Label>
+                  <Label htmlFor="price">Limit Price ({quote})</Label>
                   <Input
                     id="price"
                     type="number"
@@ -245,7 +362,7 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription>
-                  <strong>Real Money:</strong> This will execute a live trade on Binance using your API keys.
+                  <strong>Real Money:</strong> This will execute a live trade on {exchangeName} using your API keys.
                   Ensure your order details are correct.
                 </AlertDescription>
               </Alert>
@@ -273,7 +390,7 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
                 Confirm Execution
               </DialogTitle>
               <DialogDescription>
-                Review your order details and confirm to execute on Binance.
+                Review your order details and confirm to execute on {exchangeName}.
               </DialogDescription>
             </DialogHeader>
 
@@ -285,29 +402,43 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
                 </AlertDescription>
               </Alert>
 
+              {preCheckResult?.adjustments?.length > 0 && (
+                <Alert data-testid="alert-order-adjusted">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <strong>Order adjusted to {exchangeName} trading rules:</strong>
+                    <ul className="list-disc list-inside mt-1 text-xs">
+                      {preCheckResult.adjustments.map((adjustment: string) => (
+                        <li key={adjustment}>{adjustment}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="space-y-3 rounded-lg border p-4">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Symbol:</span>
-                  <span className="font-medium">{symbol}</span>
+                  <span className="font-medium">{confirmedOrder.symbol}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Side:</span>
-                  <span className={`font-medium ${side === "BUY" ? "text-green-500" : "text-red-500"}`}>
-                    {side}
+                  <span className={`font-medium ${confirmedOrder.side === "BUY" ? "text-green-500" : "text-red-500"}`}>
+                    {confirmedOrder.side}
                   </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Type:</span>
-                  <span className="font-medium">{type}</span>
+                  <span className="font-medium">{confirmedOrder.type}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Quantity:</span>
-                  <span className="font-medium">{quantity}</span>
+                  <span className="font-medium" data-testid="text-confirm-quantity">{confirmedOrder.quantity}</span>
                 </div>
-                {type === "LIMIT" && (
+                {confirmedOrder.type === "LIMIT" && (
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Limit Price:</span>
-                    <span className="font-medium">${price}</span>
+                    <span className="font-medium" data-testid="text-confirm-price">{confirmedOrder.price} {quote}</span>
                   </div>
                 )}
                 <div className="flex justify-between text-sm pt-2 border-t">
@@ -320,10 +451,58 @@ export function LiveTradeModal({ open, onOpenChange }: LiveTradeModalProps) {
                 </div>
               </div>
 
+              {preCheckResult?.stepUpRequired && (
+                <div className="space-y-2 rounded-lg border p-4" data-testid="section-step-up">
+                  <Label htmlFor="two-factor-code" className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4" />
+                    Verification Code
+                  </Label>
+                  {(preCheckResult.stepUpMethods || []).length > 1 && (
+                    <Select value={twoFactorMethod} onValueChange={(val: any) => setTwoFactorMethod(val)}>
+                      <SelectTrigger data-testid="select-two-factor-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="totp">Authenticator app</SelectItem>
+                        <SelectItem value="email">Email code</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <div className="flex gap-2">
+                    <Input
+                      id="two-factor-code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, ""))}
+                      data-testid="input-two-factor-code"
+                    />
+                    {twoFactorMethod === "email" && (
+                      <Button
+                        variant="outline"
+                        onClick={() => executionToken && sendCodeMutation.mutate(executionToken)}
+                        disabled={sendCodeMutation.isPending}
+                        data-testid="button-send-step-up-code"
+                      >
+                        {sendCodeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Email Code
+                      </Button>
+                    )}
+                  </div>
+                  {(preCheckResult.stepUpMethods || []).length === 0 && (
+                    <p className="text-xs text-destructive">
+                      Enable an authenticator app or add an email address to confirm live orders.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription>
-                  This action cannot be undone. The order will be executed immediately on Binance.
+                  This action cannot be undone. The order will be executed immediately on {exchangeName}.
                 </AlertDescription>
               </Alert>
             </div>
@@ -0,0 +1,106 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, BellRing, ShieldAlert, Target } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+interface Notification {
+  id: string;
+  category: "price_alert" | "risk" | "order_trigger";
+  title: string;
+  body: string;
+  urgent: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const CATEGORY_ICONS = {
+  price_alert: BellRing,
+  risk: ShieldAlert,
+  order_trigger: Target,
+};
+
+// Bell with the unread count; new notifications arrive over the user channel
+export function NotificationInbox() {
+  const { data } = useQuery<{ notifications: Notification[]; unreadCount: number }>({
+    queryKey: ["/api/notifications"],
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markRead = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/notifications/${id}/read`, "POST"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: async () => apiRequest("/api/notifications/read-all", "POST"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge
+              className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px]"
+              variant="destructive"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-3">
+          <span className="text-sm font-semibold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate()}
+            data-testid="button-mark-all-read"
+          >
+            Mark all read
+          </Button>
+        </div>
+        <ScrollArea className="max-h-96">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-muted-foreground">No notifications yet</p>
+          ) : (
+            notifications.map(notification => {
+              const Icon = CATEGORY_ICONS[notification.category] ?? Bell;
+              return (
+                <button
+                  key={notification.id}
+                  className={`flex w-full gap-3 border-b border-border px-4 py-3 text-left hover-elevate ${
+                    notification.readAt ? "opacity-60" : ""
+                  }`}
+                  onClick={() => !notification.readAt && markRead.mutate(notification.id)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <Icon className={`mt-0.5 h-4 w-4 shrink-0 ${notification.urgent ? "text-red-500" : "text-primary"}`} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium leading-tight">{notification.title}</p>
+                    <p className="mt-1 text-xs text-muted-foreground">{notification.body}</p>
+                    <p className="mt-1 text-[10px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                </button>
+              );
+            })
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
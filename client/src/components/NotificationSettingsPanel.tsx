@@ -0,0 +1,252 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Bell } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationChannelMap,
+} from "@shared/notifications";
+
+interface NotificationPreferences {
+  channels: NotificationChannelMap;
+  webhookUrl: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timeZone: string;
+}
+
+interface NotificationDelivery {
+  id: string;
+  channel: NotificationChannel;
+  transport: string;
+  status: "sent" | "failed" | "held";
+  error: string | null;
+  createdAt: string;
+}
+
+const CATEGORY_LABELS: Record<NotificationCategory, { title: string; description: string }> = {
+  price_alert: { title: "Price alerts", description: "When one of your price alerts triggers" },
+  risk: { title: "Risk Guard", description: "Automatic pauses, resumes, cooldowns and hard-stop flattening" },
+  order_trigger: { title: "Stop-loss, take-profit & liquidations", description: "When a protective level closes a position" },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  webhook: "Webhook",
+};
+
+const STATUS_VARIANTS = {
+  sent: "default",
+  failed: "destructive",
+  held: "secondary",
+} as const;
+
+export function NotificationSettingsPanel() {
+  const { toast } = useToast();
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notifications/preferences"],
+  });
+
+  const { data: deliveries = [] } = useQuery<NotificationDelivery[]>({
+    queryKey: ["/api/notifications/deliveries"],
+  });
+
+  // Local state for the text inputs
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [quietHoursStart, setQuietHoursStart] = useState("");
+  const [quietHoursEnd, setQuietHoursEnd] = useState("");
+  const [timeZone, setTimeZone] = useState("UTC");
+
+  // Sync local state with query data
+  useEffect(() => {
+    if (preferences) {
+      setWebhookUrl(preferences.webhookUrl || "");
+      setQuietHoursStart(preferences.quietHoursStart || "");
+      setQuietHoursEnd(preferences.quietHoursEnd || "");
+      setTimeZone(preferences.timeZone);
+    }
+  }, [preferences]);
+
+  const updatePreferences = useMutation({
+    mutationFn: async (updates: Partial<NotificationPreferences>) => {
+      return await apiRequest("/api/notifications/preferences", "PUT", updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/preferences"] });
+      toast({
+        title: "Settings Updated",
+        description: "Your notification settings have been updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update notification settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isChannelOn = (category: NotificationCategory, channel: NotificationChannel) =>
+    preferences?.channels[category]?.includes(channel) ?? false;
+
+  const toggleChannel = (category: NotificationCategory, channel: NotificationChannel, enabled: boolean) => {
+    const current = preferences?.channels[category] ?? [];
+    const next = enabled ? [...current.filter(c => c !== channel), channel] : current.filter(c => c !== channel);
+    updatePreferences.mutate({ channels: { ...preferences?.channels, [category]: next } });
+  };
+
+  const saveDelivery = () => {
+    if (!!quietHoursStart !== !!quietHoursEnd) {
+      toast({
+        title: "Error",
+        description: "Set both a start and an end for quiet hours, or neither",
+        variant: "destructive",
+      });
+      return;
+    }
+    updatePreferences.mutate({
+      webhookUrl: webhookUrl.trim() || null,
+      quietHoursStart: quietHoursStart || null,
+      quietHoursEnd: quietHoursEnd || null,
+      timeZone: timeZone.trim() || "UTC",
+    });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-primary" />
+          <CardTitle>Notifications</CardTitle>
+        </div>
+        <CardDescription>
+          Everything lands in your in-app inbox. Choose what is also sent by email or to a webhook.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Channels per category */}
+        <div className="space-y-4">
+          {NOTIFICATION_CATEGORIES.map(category => (
+            <div key={category} className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="text-base">{CATEGORY_LABELS[category].title}</Label>
+                <p className="text-sm text-muted-foreground">{CATEGORY_LABELS[category].description}</p>
+              </div>
+              <div className="flex items-center gap-4">
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <div key={channel} className="flex items-center gap-2">
+                    <Switch
+                      id={`notify-${category}-${channel}`}
+                      checked={isChannelOn(category, channel)}
+                      onCheckedChange={(checked) => toggleChannel(category, channel, checked)}
+                      disabled={!preferences || updatePreferences.isPending}
+                      data-testid={`switch-notify-${category}-${channel}`}
+                    />
+                    <Label htmlFor={`notify-${category}-${channel}`} className="text-sm">
+                      {CHANNEL_LABELS[channel]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Webhook and quiet hours */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Webhook URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/hooks/trading"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              data-testid="input-webhook-url"
+            />
+            <p className="text-xs text-muted-foreground">
+              Each notification is POSTed as JSON (id, category, title, body, data, urgent, createdAt) to an
+              https URL on a public host.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-start">Quiet hours from</Label>
+              <Input
+                id="quiet-start"
+                type="time"
+                value={quietHoursStart}
+                onChange={(e) => setQuietHoursStart(e.target.value)}
+                data-testid="input-quiet-hours-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-end">Until</Label>
+              <Input
+                id="quiet-end"
+                type="time"
+                value={quietHoursEnd}
+                onChange={(e) => setQuietHoursEnd(e.target.value)}
+                data-testid="input-quiet-hours-end"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time-zone">Time zone</Label>
+              <Input
+                id="time-zone"
+                placeholder="Europe/London"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                data-testid="input-time-zone"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            During quiet hours email and webhook deliveries are held back and sent when quiet hours end;
+            liquidations and hard-stop flattening still go out immediately.
+          </p>
+
+          <Button onClick={saveDelivery} disabled={updatePreferences.isPending} data-testid="button-save-notifications">
+            Save
+          </Button>
+        </div>
+
+        {/* Delivery log */}
+        <div className="space-y-2 border-t pt-4">
+          <Label className="text-base">Recent deliveries</Label>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No email or webhook deliveries yet</p>
+          ) : (
+            <div className="space-y-1">
+              {deliveries.slice(0, 10).map(delivery => (
+                <div key={delivery.id} className="flex items-center justify-between text-sm" data-testid={`delivery-${delivery.id}`}>
+                  <span>
+                    {CHANNEL_LABELS[delivery.channel]} <span className="text-muted-foreground">via {delivery.transport}</span>
+                    {delivery.error && <span className="text-muted-foreground"> - {delivery.error}</span>}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                    <span className="text-xs text-muted-foreground">{new Date(delivery.createdAt).toLocaleString()}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
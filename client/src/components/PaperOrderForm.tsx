@@ -6,19 +6,49 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowUpCircle, ArrowDownCircle, DollarSign } from "lucide-react";
 import { useState } from "react";
 
+type OrderType = 'market' | 'limit' | 'stop_market' | 'stop_limit' | 'trailing_stop' | 'oco';
+
 interface PaperOrderFormProps {
-  onSubmit?: (order: { side: 'buy' | 'sell'; symbol: string; quantity: string; price?: string; orderType: 'market' | 'limit'; stopLoss?: string; takeProfit?: string }) => void;
+  onSubmit?: (order: {
+    side: 'buy' | 'sell';
+    symbol: string;
+    quantity: string;
+    price?: string;
+    orderType: OrderType;
+    stopPrice?: string;
+    stopLimitPrice?: string;
+    trailingAmount?: string;
+    trailingType?: 'absolute' | 'percent';
+    stopLoss?: string;
+    takeProfit?: string;
+  }) => void;
 }
 
+const ORDER_TYPES: { value: OrderType; label: string }[] = [
+  { value: 'market', label: 'Market' },
+  { value: 'limit', label: 'Limit' },
+  { value: 'stop_market', label: 'Stop' },
+  { value: 'stop_limit', label: 'Stop Limit' },
+  { value: 'trailing_stop', label: 'Trailing' },
+  { value: 'oco', label: 'OCO' },
+];
+
 export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
   const [orderSide, setOrderSide] = useState<'buy' | 'sell'>('buy');
-  const [orderType, setOrderType] = useState<'market' | 'limit'>('market');
+  const [orderType, setOrderType] = useState<OrderType>('market');
   const [symbol, setSymbol] = useState('');
   const [amount, setAmount] = useState('');
   const [price, setPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [stopLimitPrice, setStopLimitPrice] = useState('');
+  const [trailingAmount, setTrailingAmount] = useState('');
+  const [trailingType, setTrailingType] = useState<'absolute' | 'percent'>('percent');
   const [stopLoss, setStopLoss] = useState('');
   const [takeProfit, setTakeProfit] = useState('');
 
+  const needsLimitPrice = orderType === 'limit' || orderType === 'stop_limit' || orderType === 'oco';
+  const needsStopPrice = orderType === 'stop_market' || orderType === 'stop_limit' || orderType === 'oco';
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -34,10 +64,26 @@ export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
       return;
     }
     
-    if (orderType === 'limit') {
+    if (needsLimitPrice) {
       const priceNum = parseFloat(price);
       if (!price || isNaN(priceNum) || priceNum <= 0) {
-        alert('Please enter a price greater than 0 for limit orders');
+        alert('Please enter a limit price greater than 0');
+        return;
+      }
+    }
+
+    if (needsStopPrice) {
+      const stopPriceNum = parseFloat(stopPrice);
+      if (!stopPrice || isNaN(stopPriceNum) || stopPriceNum <= 0) {
+        alert('Please enter a stop price greater than 0');
+        return;
+      }
+    }
+
+    if (orderType === 'trailing_stop') {
+      const trailingNum = parseFloat(trailingAmount);
+      if (!trailingAmount || isNaN(trailingNum) || trailingNum <= 0) {
+        alert('Please enter a trailing amount greater than 0');
         return;
       }
     }
@@ -46,16 +92,23 @@ export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
       side: orderSide,
       symbol: symbol.toUpperCase(),
       quantity: amount,
-      price: orderType === 'limit' ? price : undefined,
+      price: needsLimitPrice ? price : undefined,
       orderType,
-      stopLoss: stopLoss || undefined,
-      takeProfit: takeProfit || undefined,
+      stopPrice: needsStopPrice ? stopPrice : undefined,
+      stopLimitPrice: orderType === 'oco' && stopLimitPrice ? stopLimitPrice : undefined,
+      trailingAmount: orderType === 'trailing_stop' ? trailingAmount : undefined,
+      trailingType: orderType === 'trailing_stop' ? trailingType : undefined,
+      stopLoss: orderType !== 'oco' ? stopLoss || undefined : undefined,
+      takeProfit: orderType !== 'oco' ? takeProfit || undefined : undefined,
     });
     
     // Reset form
     setSymbol('');
     setAmount('');
     setPrice('');
+    setStopPrice('');
+    setStopLimitPrice('');
+    setTrailingAmount('');
     setStopLoss('');
     setTakeProfit('');
   };
@@ -92,23 +145,18 @@ export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
           </div>
 
           {/* Order Type Segmented Control */}
-          <div className="flex gap-2 p-1 bg-muted rounded-md">
-            <button
-              type="button"
-              onClick={() => setOrderType('market')}
-              className={`flex-1 py-2 px-4 text-sm font-medium rounded transition-colors ${orderType === 'market' ? 'bg-background shadow-sm' : 'hover-elevate'}`}
-              data-testid="button-market"
-            >
-              Market
-            </button>
-            <button
-              type="button"
-              onClick={() => setOrderType('limit')}
-              className={`flex-1 py-2 px-4 text-sm font-medium rounded transition-colors ${orderType === 'limit' ? 'bg-background shadow-sm' : 'hover-elevate'}`}
-              data-testid="button-limit"
-            >
-              Limit
-            </button>
+          <div className="grid grid-cols-3 gap-1 p-1 bg-muted rounded-md">
+            {ORDER_TYPES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setOrderType(value)}
+                className={`py-2 px-2 text-sm font-medium rounded transition-colors ${orderType === value ? 'bg-background shadow-sm' : 'hover-elevate'}`}
+                data-testid={`button-${value.replace('_', '-')}`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
 
           {/* Symbol Input */}
@@ -139,9 +187,9 @@ export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
                 required
               />
             </div>
-            {orderType === 'limit' && (
+            {needsLimitPrice && (
               <div className="space-y-2">
-                <Label htmlFor="price">Price</Label>
+                <Label htmlFor="price">{orderType === 'limit' ? 'Price' : 'Limit Price'}</Label>
                 <div className="relative">
                   <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -160,8 +208,84 @@ export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
             )}
           </div>
 
-          {/* Stop-Loss and Take-Profit (only for buy orders) */}
-          {orderSide === 'buy' && (
+          {/* Stop Trigger (stop, stop-limit and OCO stop leg) */}
+          {needsStopPrice && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="stopPrice">Stop Price</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="stopPrice"
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={stopPrice}
+                    onChange={(e) => setStopPrice(e.target.value)}
+                    className="pl-9"
+                    data-testid="input-stop-price"
+                    required
+                  />
+                </div>
+              </div>
+              {orderType === 'oco' && (
+                <div className="space-y-2">
+                  <Label htmlFor="stopLimitPrice">Stop Limit (Optional)</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="stopLimitPrice"
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={stopLimitPrice}
+                      onChange={(e) => setStopLimitPrice(e.target.value)}
+                      className="pl-9"
+                      data-testid="input-stop-limit-price"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Trailing Offset */}
+          {orderType === 'trailing_stop' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="trailingAmount">Trail By</Label>
+                <Input
+                  id="trailingAmount"
+                  type="number"
+                  step="0.01"
+                  placeholder={trailingType === 'percent' ? '2.5' : '0.00'}
+                  value={trailingAmount}
+                  onChange={(e) => setTrailingAmount(e.target.value)}
+                  data-testid="input-trailing-amount"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Trail Type</Label>
+                <div className="flex gap-1 p-1 bg-muted rounded-md">
+                  {(['percent', 'absolute'] as const).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setTrailingType(type)}
+                      className={`flex-1 py-1.5 text-sm font-medium rounded transition-colors ${trailingType === type ? 'bg-background shadow-sm' : 'hover-elevate'}`}
+                      data-testid={`button-trailing-${type}`}
+                    >
+                      {type === 'percent' ? '%' : '$'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Stop-Loss and Take-Profit (only for buy orders; OCO is already a bracket) */}
+          {orderSide === 'buy' && orderType !== 'oco' && (
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="stopLoss">Stop-Loss (Optional)</Label>
@@ -204,12 +328,14 @@ export default function PaperOrderForm({ onSubmit }: PaperOrderFormProps) {
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Total</span>
                 <span className="font-mono font-medium" data-testid="text-total">
-                  ${orderType === 'limit' && price ? (parseFloat(amount) * parseFloat(price)).toFixed(2) : 'Market Price'}
+                  ${needsLimitPrice && price ? (parseFloat(amount) * parseFloat(price)).toFixed(2) : 'Market Price'}
                 </span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Order Type</span>
-                <Badge variant="outline" data-testid="badge-order-type">{orderType.toUpperCase()}</Badge>
+                <Badge variant="outline" data-testid="badge-order-type">
+                  {ORDER_TYPES.find(t => t.value === orderType)?.label.toUpperCase()}
+                </Badge>
               </div>
             </div>
           )}
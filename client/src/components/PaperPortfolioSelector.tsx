@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PaperPortfolio {
+  id: string;
+  name: string;
+  isSelected: boolean;
+  startingBalance: string;
+  balance: string;
+  equity: string;
+  totalPnl: string;
+  positionCount: number;
+}
+
+// Everything under /api/paper/* follows the selected portfolio
+const invalidatePaperQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/paper/portfolios"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/paper/wallet"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/paper/orders"] });
+};
+
+export default function PaperPortfolioSelector() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [resetOpen, setResetOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [startingBalance, setStartingBalance] = useState("10000");
+
+  const { data: portfolios = [] } = useQuery<PaperPortfolio[]>({
+    queryKey: ["/api/paper/portfolios"],
+  });
+
+  const selected = portfolios.find(p => p.isSelected) ?? portfolios[0];
+
+  const selectMutation = useMutation({
+    mutationFn: async (walletId: string) => {
+      const response = await apiRequest(`/api/paper/portfolios/${walletId}/select`, "POST");
+      return response.json();
+    },
+    onSuccess: invalidatePaperQueries,
+    onError: (error: Error) => {
+      toast({ title: "Couldn't switch portfolio", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/paper/portfolios", "POST", {
+        name: name.trim(),
+        startingBalance: parseFloat(startingBalance),
+      });
+      return response.json();
+    },
+    onSuccess: (portfolio: PaperPortfolio) => {
+      invalidatePaperQueries();
+      setCreateOpen(false);
+      setName("");
+      setStartingBalance("10000");
+      toast({ title: "Portfolio created", description: `Now trading in "${portfolio.name}"` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create portfolio", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (walletId: string) => {
+      const response = await apiRequest(`/api/paper/portfolios/${walletId}/reset`, "POST");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidatePaperQueries();
+      toast({ title: "Portfolio reset", description: "The previous state was archived as a snapshot" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't reset portfolio", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const balanceNum = parseFloat(startingBalance);
+  const canCreate = name.trim().length > 0 && !isNaN(balanceNum) && balanceNum > 0;
+
+  return (
+    <div className="flex items-center gap-1.5" data-testid="paper-portfolio-selector">
+      <Select
+        value={selected?.id}
+        onValueChange={(walletId) => selectMutation.mutate(walletId)}
+        disabled={selectMutation.isPending}
+      >
+        <SelectTrigger className="h-7 text-xs flex-1" data-testid="select-paper-portfolio">
+          <SelectValue placeholder="Portfolio" />
+        </SelectTrigger>
+        <SelectContent>
+          {portfolios.map(portfolio => (
+            <SelectItem key={portfolio.id} value={portfolio.id} data-testid={`portfolio-option-${portfolio.id}`}>
+              {portfolio.name}
+              <span className={`ml-2 font-mono ${parseFloat(portfolio.totalPnl) >= 0 ? "text-chart-2" : "text-chart-3"}`}>
+                {parseFloat(portfolio.totalPnl) >= 0 ? "+" : ""}{parseFloat(portfolio.totalPnl).toFixed(2)}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => setCreateOpen(true)}
+        data-testid="button-new-portfolio"
+      >
+        <Plus className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => setResetOpen(true)}
+        disabled={!selected || resetMutation.isPending}
+        data-testid="button-reset-portfolio"
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+      </Button>
+
+      {/* New Portfolio Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-sm" data-testid="dialog-new-portfolio">
+          <DialogHeader>
+            <DialogTitle>New Paper Portfolio</DialogTitle>
+            <DialogDescription>
+              Run a separate strategy without mixing its P&L with your other portfolios
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="portfolio-name">Name</Label>
+              <Input
+                id="portfolio-name"
+                placeholder="e.g. Swing test"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-portfolio-name"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="portfolio-balance">Starting Balance ($)</Label>
+              <Input
+                id="portfolio-balance"
+                type="number"
+                min="1"
+                value={startingBalance}
+                onChange={(e) => setStartingBalance(e.target.value)}
+                data-testid="input-portfolio-balance"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canCreate || createMutation.isPending}
+              data-testid="button-create-portfolio"
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Confirmation */}
+      <AlertDialog open={resetOpen} onOpenChange={setResetOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset "{selected?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Open positions are closed, pending orders cancelled and the balance goes back to
+              ${parseFloat(selected?.startingBalance || "0").toLocaleString()}. The current state is kept as a snapshot.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selected && resetMutation.mutate(selected.id)}
+              data-testid="button-confirm-reset-portfolio"
+            >
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
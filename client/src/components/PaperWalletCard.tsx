@@ -8,6 +8,7 @@ import { useState } from "react";
 import { Link } from "wouter";
 import PartialExitDialog from "./PartialExitDialog";
 import AIExitAdvisorDialog from "./AIExitAdvisorDialog";
+import PaperPortfolioSelector from "./PaperPortfolioSelector";
 import { SiBinance } from "react-icons/si";
 
 interface Asset {
@@ -88,9 +89,10 @@ export default function PaperWalletCard({
         <div className="grid grid-cols-2 gap-3">
           {/* Paper Wallet Info */}
           <div className="flex items-center gap-2 p-3 rounded-lg border border-border bg-card">
-            <Wallet className="h-4 w-4" />
-            <div>
-              <CardTitle className="text-sm font-semibold">Paper Wallet</CardTitle>
+            <Wallet className="h-4 w-4 shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <CardTitle className="sr-only">Paper Wallet</CardTitle>
+              <PaperPortfolioSelector />
               <p className="text-[10px] text-muted-foreground">
                 Available ${balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </p>
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+
+interface RiskEstimate {
+  valueAtRisk: number;
+  expectedShortfall: number;
+  valueAtRiskPercent: number;
+  expectedShortfallPercent: number;
+}
+
+interface PortfolioRiskData {
+  book: {
+    source: "paper" | "live";
+    exchange?: string;
+    value: number;
+    positions: { asset: string; exposure: number }[];
+    unpriced: string[];
+  };
+  metrics: {
+    confidence: number;
+    horizonDays: number;
+    observations: number;
+    historical: RiskEstimate | null;
+    parametric: RiskEstimate | null;
+    dailyVolatilityPercent: number | null;
+    missingHistory: string[];
+  };
+  stress: {
+    scenarioId: string;
+    name: string;
+    pnl: number;
+    pnlPercent: number;
+  }[];
+}
+
+interface Props {
+  userId: string;
+}
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function PortfolioRiskCard({ userId }: Props) {
+  const [source, setSource] = useState<"paper" | "live">("paper");
+  const [horizonDays, setHorizonDays] = useState("1");
+
+  const { data, isLoading, error } = useQuery<PortfolioRiskData>({
+    queryKey: [`/api/risk/metrics?source=${source}&horizonDays=${horizonDays}`],
+    enabled: !!userId,
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const confidenceLabel = data ? `${Math.round(data.metrics.confidence * 100)}%` : "95%";
+  const skipped = data ? [...data.book.unpriced, ...data.metrics.missingHistory] : [];
+
+  const renderEstimate = (label: string, estimate: RiskEstimate | null, testId: string) => (
+    <div className="rounded-md border p-2" data-testid={testId}>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      {estimate ? (
+        <>
+          <p className="text-sm font-mono font-semibold text-red-500">
+            VaR {formatUsd(estimate.valueAtRisk)} ({estimate.valueAtRiskPercent.toFixed(2)}%)
+          </p>
+          <p className="text-xs font-mono text-muted-foreground">
+            ES {formatUsd(estimate.expectedShortfall)} ({estimate.expectedShortfallPercent.toFixed(2)}%)
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">Not enough price history</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={source} onValueChange={(value) => setSource(value as "paper" | "live")}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-risk-source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="paper">Paper portfolio</SelectItem>
+            <SelectItem value="live">Live account</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={horizonDays} onValueChange={setHorizonDays}>
+          <SelectTrigger className="h-8 w-24 text-xs" data-testid="select-risk-horizon">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">1 day</SelectItem>
+            <SelectItem value="7">7 days</SelectItem>
+            <SelectItem value="30">30 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-12 bg-muted rounded"></div>
+          <div className="h-20 bg-muted rounded"></div>
+        </div>
+      ) : error || !data ? (
+        <p className="text-xs text-muted-foreground" data-testid="text-risk-error">
+          {(error as any)?.message?.replace(/^\d+:\s*/, "") || "Risk metrics are unavailable"}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">
+              Book value <span className="font-mono text-foreground">{formatUsd(data.book.value)}</span>
+            </span>
+            {data.metrics.dailyVolatilityPercent !== null && (
+              <Badge variant="outline" className="text-xs">
+                Daily vol {data.metrics.dailyVolatilityPercent.toFixed(2)}%
+              </Badge>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {renderEstimate(`Historical ${confidenceLabel}`, data.metrics.historical, "risk-historical")}
+            {renderEstimate(`Parametric ${confidenceLabel}`, data.metrics.parametric, "risk-parametric")}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {data.metrics.horizonDays}-day horizon from {data.metrics.observations} days of returns
+          </p>
+
+          <div className="space-y-1">
+            <p className="text-xs font-semibold">Stress scenarios</p>
+            {data.stress.map((scenario) => (
+              <div
+                key={scenario.scenarioId}
+                className="flex items-center justify-between text-xs"
+                data-testid={`stress-${scenario.scenarioId}`}
+              >
+                <span className="truncate pr-2">{scenario.name}</span>
+                <span className={`font-mono ${scenario.pnl < 0 ? "text-red-500" : "text-green-500"}`}>
+                  {formatUsd(scenario.pnl)} ({scenario.pnlPercent.toFixed(1)}%)
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {skipped.length > 0 && (
+            <p className="flex items-center gap-1 text-xs text-amber-500">
+              <AlertTriangle className="h-3 w-3" />
+              Left out (no price data): {skipped.join(", ")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,15 +5,26 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Bell, X, TrendingUp, TrendingDown } from "lucide-react";
+import { Bell, X, TrendingUp, TrendingDown, Activity } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  alertExpressionSchema,
+  describeAlertExpression,
+  ALERT_REPEAT_MODES,
+  type AlertExpression,
+  type AlertRepeatMode,
+} from "@shared/alertConditions";
 
 interface PriceAlert {
   id: string;
   symbol: string;
-  condition: "above" | "below";
-  targetPrice: string;
+  condition: string;
+  targetPrice: string | null;
+  expression: unknown;
+  repeatMode: AlertRepeatMode;
+  triggerCount: number;
+  expiresAt: string | null;
   isActive: boolean;
   triggered: boolean;
   createdAt: string;
@@ -23,43 +34,125 @@ interface Props {
   userId: string;
 }
 
+type ConditionType = "price" | "percent_change" | "rsi" | "ma_cross" | "macd" | "volume_spike" | "portfolio";
+
 const SYMBOLS = ["BTC", "ETH", "SOL"];
 
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  price: "Price",
+  percent_change: "% change",
+  rsi: "RSI",
+  ma_cross: "MA cross",
+  macd: "MACD",
+  volume_spike: "Volume spike",
+  portfolio: "Portfolio",
+};
+
+const INTERVALS = [
+  { value: "5", label: "5m" },
+  { value: "15", label: "15m" },
+  { value: "60", label: "1h" },
+  { value: "240", label: "4h" },
+  { value: "D", label: "1D" },
+];
+
+const REPEAT_LABELS: Record<AlertRepeatMode, string> = {
+  once: "Once",
+  rearm: "Re-arm",
+  repeat: "Repeat",
+};
+
+const EXPIRY_HOURS: Record<string, number | null> = {
+  never: null,
+  "1h": 1,
+  "24h": 24,
+  "7d": 24 * 7,
+};
+
+// Alerts from before expressions existed only have condition/targetPrice
+function expressionOf(alert: PriceAlert): AlertExpression | null {
+  const parsed = alertExpressionSchema.safeParse(alert.expression);
+  if (parsed.success) return parsed.data;
+  if ((alert.condition === "above" || alert.condition === "below") && alert.targetPrice) {
+    return { type: "price", operator: alert.condition, value: parseFloat(alert.targetPrice) };
+  }
+  return null;
+}
+
+function AlertIcon({ expression }: { expression: AlertExpression | null }) {
+  const operator = expression && "operator" in expression ? expression.operator : null;
+  if (operator === "above") return <TrendingUp className="h-4 w-4 text-green-500" />;
+  if (operator === "below") return <TrendingDown className="h-4 w-4 text-red-500" />;
+  return <Activity className="h-4 w-4 text-primary" />;
+}
+
 export function PriceAlertsCard({ userId }: Props) {
   const [symbol, setSymbol] = useState("BTC");
+  const [conditionType, setConditionType] = useState<ConditionType>("price");
   const [condition, setCondition] = useState<"above" | "below">("above");
-  const [targetPrice, setTargetPrice] = useState("");
+  const [value, setValue] = useState("");
+  const [windowMinutes, setWindowMinutes] = useState("60");
+  const [interval, setCandleInterval] = useState("60");
+  const [period, setPeriod] = useState("50");
+  const [direction, setDirection] = useState<"up" | "down" | "either">("either");
+  const [macdSignal, setMacdSignal] = useState<"bullish_cross" | "bearish_cross">("bullish_cross");
+  const [metric, setMetric] = useState<"unrealized_pnl" | "daily_pnl" | "equity" | "drawdown_percent">("unrealized_pnl");
+  const [repeatMode, setRepeatMode] = useState<AlertRepeatMode>("once");
+  const [expiry, setExpiry] = useState("never");
   const { toast } = useToast();
 
   const { data: alerts = [], isLoading } = useQuery<PriceAlert[]>({
     queryKey: ["/api/alerts", userId],
   });
 
+  const buildExpression = (): unknown => {
+    const number = parseFloat(value);
+    switch (conditionType) {
+      case "price":
+        return { type: "price", operator: condition, value: number };
+      case "percent_change":
+        return { type: "percent_change", operator: condition, percent: number, windowMinutes: parseInt(windowMinutes) };
+      case "rsi":
+        return { type: "rsi", operator: condition, value: number, interval };
+      case "ma_cross":
+        return { type: "ma_cross", direction, maType: "ema", period: parseInt(period), interval };
+      case "macd":
+        return { type: "macd", signal: macdSignal, interval };
+      case "volume_spike":
+        return { type: "volume_spike", multiple: number, interval };
+      case "portfolio":
+        return { type: "portfolio", metric, operator: condition, value: number };
+    }
+  };
+
   const createMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (expression: AlertExpression) => {
+      const hours = EXPIRY_HOURS[expiry];
       return apiRequest("/api/alerts", "POST", {
         symbol,
-        condition,
-        targetPrice: parseFloat(targetPrice),
+        expression,
+        repeatMode,
+        cooldownMinutes: repeatMode === "repeat" ? 15 : 0,
+        expiresAt: hours ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null,
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/alerts", userId] });
-      setTargetPrice("");
+      setValue("");
       toast({ title: "Alert created" });
     },
     onError: (error: any) => {
-      toast({ 
-        title: "Error", 
+      toast({
+        title: "Error",
         description: error.message || "Failed to create alert",
-        variant: "destructive" 
+        variant: "destructive"
       });
     },
   });
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      return apiRequest("DELETE", `/api/alerts/${id}`);
+      return apiRequest(`/api/alerts/${id}`, "DELETE");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/alerts", userId] });
@@ -69,13 +162,35 @@ export function PriceAlertsCard({ userId }: Props) {
 
   const handleCreate = (e: React.FormEvent) => {
     e.preventDefault();
-    if (targetPrice && parseFloat(targetPrice) > 0) {
-      createMutation.mutate();
+    const parsed = alertExpressionSchema.safeParse(buildExpression());
+    if (!parsed.success) {
+      toast({
+        title: "Error",
+        description: "Check the alert's values",
+        variant: "destructive",
+      });
+      return;
     }
+    createMutation.mutate(parsed.data);
   };
 
-  const activeAlerts = alerts.filter(a => a.isActive && !a.triggered);
-  const triggeredAlerts = alerts.filter(a => a.triggered);
+  // Re-arming and repeating alerts stay active after they fire
+  const activeAlerts = alerts.filter(a => a.isActive);
+  const triggeredAlerts = alerts.filter(a => !a.isActive && a.triggered);
+
+  const needsOperator = conditionType === "price" || conditionType === "percent_change"
+    || conditionType === "rsi" || conditionType === "portfolio";
+  const needsInterval = conditionType === "rsi" || conditionType === "ma_cross"
+    || conditionType === "macd" || conditionType === "volume_spike";
+  const valuePlaceholder: Record<ConditionType, string> = {
+    price: "Price",
+    percent_change: "% (e.g. -5)",
+    rsi: "RSI (e.g. 70)",
+    ma_cross: "",
+    macd: "",
+    volume_spike: "× average",
+    portfolio: metric === "drawdown_percent" ? "%" : "USD (e.g. -500)",
+  };
 
   return (
     <Card>
@@ -84,43 +199,166 @@ export function PriceAlertsCard({ userId }: Props) {
           <Bell className="h-5 w-5" />
           Price Alerts
         </CardTitle>
-        <CardDescription>Get notified when prices hit targets</CardDescription>
+        <CardDescription>Get notified when prices, indicators or your portfolio hit targets</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         <form onSubmit={handleCreate} className="space-y-3">
           <div className="flex gap-2">
-            <Select value={symbol} onValueChange={setSymbol}>
-              <SelectTrigger className="w-24" data-testid="select-alert-symbol">
+            {conditionType !== "portfolio" && (
+              <Select value={symbol} onValueChange={setSymbol}>
+                <SelectTrigger className="w-24" data-testid="select-alert-symbol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SYMBOLS.map(s => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={conditionType} onValueChange={(v) => setConditionType(v as ConditionType)}>
+              <SelectTrigger className="flex-1" data-testid="select-alert-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(type => (
+                  <SelectItem key={type} value={type}>{CONDITION_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-2">
+            {conditionType === "portfolio" && (
+              <Select value={metric} onValueChange={(v) => setMetric(v as typeof metric)}>
+                <SelectTrigger className="w-36" data-testid="select-alert-metric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unrealized_pnl">Unrealized P&L</SelectItem>
+                  <SelectItem value="daily_pnl">Today's P&L</SelectItem>
+                  <SelectItem value="equity">Equity</SelectItem>
+                  <SelectItem value="drawdown_percent">Drawdown %</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {conditionType === "percent_change" && (
+              <Select value={windowMinutes} onValueChange={setWindowMinutes}>
+                <SelectTrigger className="w-24" data-testid="select-alert-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5">5m</SelectItem>
+                  <SelectItem value="15">15m</SelectItem>
+                  <SelectItem value="60">1h</SelectItem>
+                  <SelectItem value="240">4h</SelectItem>
+                  <SelectItem value="1440">24h</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {needsInterval && (
+              <Select value={interval} onValueChange={setCandleInterval}>
+                <SelectTrigger className="w-20" data-testid="select-alert-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVALS.map(i => (
+                    <SelectItem key={i.value} value={i.value}>{i.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {conditionType === "ma_cross" && (
+              <>
+                <Select value={period} onValueChange={setPeriod}>
+                  <SelectTrigger className="w-24" data-testid="select-alert-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["20", "50", "100", "200"].map(p => (
+                      <SelectItem key={p} value={p}>EMA {p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={direction} onValueChange={(v) => setDirection(v as typeof direction)}>
+                  <SelectTrigger className="flex-1" data-testid="select-alert-direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="either">Crosses</SelectItem>
+                    <SelectItem value="up">Crosses above</SelectItem>
+                    <SelectItem value="down">Crosses below</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+
+            {conditionType === "macd" && (
+              <Select value={macdSignal} onValueChange={(v) => setMacdSignal(v as typeof macdSignal)}>
+                <SelectTrigger className="flex-1" data-testid="select-alert-macd">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bullish_cross">Bullish cross</SelectItem>
+                  <SelectItem value="bearish_cross">Bearish cross</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {needsOperator && (
+              <Select value={condition} onValueChange={(v) => setCondition(v as "above" | "below")}>
+                <SelectTrigger className="w-28" data-testid="select-alert-condition">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="above">Above</SelectItem>
+                  <SelectItem value="below">Below</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {valuePlaceholder[conditionType] && (
+              <Input
+                type="number"
+                step="any"
+                placeholder={valuePlaceholder[conditionType]}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                data-testid="input-alert-price"
+                className="flex-1"
+              />
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Select value={repeatMode} onValueChange={(v) => setRepeatMode(v as AlertRepeatMode)}>
+              <SelectTrigger className="w-28" data-testid="select-alert-repeat">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {SYMBOLS.map(s => (
-                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                {ALERT_REPEAT_MODES.map(mode => (
+                  <SelectItem key={mode} value={mode}>{REPEAT_LABELS[mode]}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            
-            <Select value={condition} onValueChange={(v) => setCondition(v as "above" | "below")}>
-              <SelectTrigger className="w-28" data-testid="select-alert-condition">
+
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="flex-1" data-testid="select-alert-expiry">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="above">Above</SelectItem>
-                <SelectItem value="below">Below</SelectItem>
+                <SelectItem value="never">No expiry</SelectItem>
+                <SelectItem value="1h">Expires in 1h</SelectItem>
+                <SelectItem value="24h">Expires in 24h</SelectItem>
+                <SelectItem value="7d">Expires in 7d</SelectItem>
               </SelectContent>
             </Select>
 
-            <Input
-              type="number"
-              step="0.01"
-              placeholder="Price"
-              value={targetPrice}
-              onChange={(e) => setTargetPrice(e.target.value)}
-              data-testid="input-alert-price"
-              className="flex-1"
-            />
-
-            <Button 
+            <Button
               type="submit"
               disabled={createMutation.isPending}
               data-testid="button-create-alert"
@@ -139,57 +377,68 @@ export function PriceAlertsCard({ userId }: Props) {
             <p className="text-sm text-muted-foreground">No active alerts</p>
           )}
 
-          {activeAlerts.map((alert) => (
-            <div
-              key={alert.id}
-              className="flex items-center justify-between p-3 rounded-md border bg-card"
-              data-testid={`alert-${alert.id}`}
-            >
-              <div className="flex items-center gap-2">
-                <Badge variant="outline">{alert.symbol}</Badge>
-                {alert.condition === "above" ? (
-                  <TrendingUp className="h-4 w-4 text-green-500" />
-                ) : (
-                  <TrendingDown className="h-4 w-4 text-red-500" />
-                )}
-                <span className="text-sm">
-                  {alert.condition} ${parseFloat(alert.targetPrice).toLocaleString()}
-                </span>
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => deleteMutation.mutate(alert.id)}
-                disabled={deleteMutation.isPending}
-                data-testid={`button-delete-alert-${alert.id}`}
+          {activeAlerts.map((alert) => {
+            const expression = expressionOf(alert);
+            return (
+              <div
+                key={alert.id}
+                className="flex items-center justify-between p-3 rounded-md border bg-card"
+                data-testid={`alert-${alert.id}`}
               >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          ))}
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline">{alert.symbol}</Badge>
+                  <AlertIcon expression={expression} />
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">
+                      {expression ? describeAlertExpression(expression) : alert.condition}
+                    </p>
+                    {(alert.repeatMode !== "once" || alert.expiresAt) && (
+                      <p className="text-xs text-muted-foreground">
+                        {alert.repeatMode !== "once" && `${REPEAT_LABELS[alert.repeatMode]} · fired ${alert.triggerCount}×`}
+                        {alert.repeatMode !== "once" && alert.expiresAt && " · "}
+                        {alert.expiresAt && `until ${new Date(alert.expiresAt).toLocaleString()}`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(alert.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-alert-${alert.id}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
 
           {triggeredAlerts.length > 0 && (
             <div className="pt-2 border-t">
               <p className="text-sm font-semibold mb-2">Triggered</p>
-              {triggeredAlerts.slice(0, 3).map((alert) => (
-                <div
-                  key={alert.id}
-                  className="flex items-center justify-between p-2 rounded-md bg-muted/50 mb-1"
-                  data-testid={`triggered-alert-${alert.id}`}
-                >
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Badge variant="secondary" className="text-xs">{alert.symbol}</Badge>
-                    <span>{alert.condition} ${parseFloat(alert.targetPrice).toLocaleString()}</span>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteMutation.mutate(alert.id)}
+              {triggeredAlerts.slice(0, 3).map((alert) => {
+                const expression = expressionOf(alert);
+                return (
+                  <div
+                    key={alert.id}
+                    className="flex items-center justify-between p-2 rounded-md bg-muted/50 mb-1"
+                    data-testid={`triggered-alert-${alert.id}`}
                   >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-              ))}
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Badge variant="secondary" className="text-xs">{alert.symbol}</Badge>
+                      <span>{expression ? describeAlertExpression(expression) : alert.condition}</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(alert.id)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })}
             </div>
           )}
         </div>
@@ -1191,6 +1191,7 @@ export function TradingChart({
               onDrawingsChange={setDrawings}
               priceScale={priceScale}
               timeScale={timeScale}
+              symbol={symbol}
             />
           )}
 
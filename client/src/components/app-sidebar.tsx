@@ -1,4 +1,4 @@
-import { Home, History, BarChart3, Settings, Shield, Brain, TrendingUp, BookOpen, Calendar } from "lucide-react";
+import { Home, History, BarChart3, Settings, Shield, Brain, TrendingUp, BookOpen, Calendar, FlaskConical } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -63,6 +63,11 @@ const phaseCItems = [
     url: "/timeframe-analysis",
     icon: Calendar,
   },
+  {
+    title: "Backtests",
+    url: "/backtests",
+    icon: FlaskConical,
+  },
 ];
 
 export function AppSidebar() {
@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { createChart, IChartApi, ISeriesApi, HistogramData, LineData, UTCTimestamp, LineSeries, HistogramSeries } from 'lightweight-charts';
 import { CandlestickData } from 'lightweight-charts';
-import { calculateMACD } from '@/lib/indicators';
+import { MACD, series } from '@shared/indicators';
 
 interface MACDPanelProps {
   data: CandlestickData[];
@@ -100,13 +100,13 @@ export function MACDPanel({ data, height, width, settings, onChartReady, onChart
     const signalData: LineData[] = [];
     const histogramData: HistogramData[] = [];
 
-    // Calculate MACD for each point
+    // Calculate MACD for each point in one pass
+    const macdValues = series(new MACD(settings.fast, settings.slow, settings.signal), data.map(d => d.close));
     for (let i = settings.slow + settings.signal - 1; i < data.length; i++) {
-      const subset = data.slice(0, i + 1);
-      const macd = calculateMACD(subset, settings.fast, settings.slow, settings.signal);
+      const macd = macdValues[i];
 
       if (macd) {
-        const time = subset[subset.length - 1].time as UTCTimestamp;
+        const time = data[i].time as UTCTimestamp;
         
         macdData.push({
           time,
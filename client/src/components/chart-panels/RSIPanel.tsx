@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { createChart, IChartApi, ISeriesApi, LineData, UTCTimestamp, LineSeries } from 'lightweight-charts';
 import { CandlestickData } from 'lightweight-charts';
-import { calculateRSI } from '@/lib/indicators';
+import { RSI, series } from '@shared/indicators';
 
 interface RSIPanelProps {
   data: CandlestickData[];
@@ -105,13 +105,13 @@ export function RSIPanel({ data, height, width, period, onChartReady, onChartDes
     const overboughtData: LineData[] = [];
     const oversoldData: LineData[] = [];
 
-    // Calculate RSI for each point
+    // Calculate RSI for each point in one pass
+    const rsiValues = series(new RSI(period), data.map(d => d.close));
     for (let i = period; i < data.length; i++) {
-      const subset = data.slice(0, i + 1);
-      const rsi = calculateRSI(subset, period);
+      const rsi = rsiValues[i];
 
       if (rsi !== null) {
-        const time = subset[subset.length - 1].time as UTCTimestamp;
+        const time = data[i].time as UTCTimestamp;
         
         rsiData.push({
           time,
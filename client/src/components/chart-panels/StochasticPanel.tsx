@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { createChart, IChartApi, ISeriesApi, LineData, CandlestickData, LineStyle, LineSeries } from 'lightweight-charts';
-import { calculateStochastic } from '@/lib/indicators';
+import { Stochastic, series } from '@shared/indicators';
+import { toCandle } from '@/lib/indicators';
 
 interface StochasticPanelProps {
   data: CandlestickData[];
@@ -133,9 +134,9 @@ export function StochasticPanel({
     const oversoldData: LineData[] = [];
     const midlineData: LineData[] = [];
 
+    const stochasticValues = series(new Stochastic(kPeriod, dPeriod), data.map(toCandle));
     for (let i = kPeriod + dPeriod - 1; i < data.length; i++) {
-      const subset = data.slice(0, i + 1);
-      const stochastic = calculateStochastic(subset, kPeriod, dPeriod);
+      const stochastic = stochasticValues[i];
 
       if (stochastic) {
         const time = data[i].time;
@@ -0,0 +1,101 @@
+import { useEffect, useRef } from "react";
+import { priceSocketManager } from "@/lib/priceSocketManager";
+import { queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import type { UserEvent, UserEventType } from "@shared/userEvents";
+
+// Queries each event changes; invalidation matches by prefix, so user IDs in keys are covered
+const AFFECTED_QUERIES: Record<UserEventType, string[]> = {
+  order_filled: [
+    "/api/paper/wallet",
+    "/api/paper/orders",
+    "/api/paper/portfolios",
+    "/api/exchange/live-orders",
+    "/api/exchange/orders",
+    "/api/exchange/balance",
+    "/api/trade-journal",
+  ],
+  order_triggered: ["/api/paper/wallet", "/api/paper/orders", "/api/paper/portfolios", "/api/trade-journal"],
+  price_alert: ["/api/alerts"],
+  risk_state: ["/api/risk/status", "/api/auth/user"],
+  mistake_warning: [],
+  ai_suggestion: ["/api/ai/suggestions/active", "/api/suggestions"],
+  notification: ["/api/notifications"],
+};
+
+const TRIGGER_LABELS: Record<UserEvent<"order_triggered">["data"]["trigger"], string> = {
+  stop_loss: "Stop-loss hit",
+  take_profit: "Take-profit hit",
+  stop_limit: "Stop-limit triggered",
+  liquidation: "Position liquidated",
+};
+
+export function useUserEvents(onEvent: (event: UserEvent) => void, onResync?: () => void, enabled = true) {
+  // Latest handlers without resubscribing on every render
+  const handlers = useRef({ onEvent, onResync });
+  handlers.current = { onEvent, onResync };
+
+  useEffect(() => {
+    if (!enabled) return;
+    return priceSocketManager.subscribeUserEvents(
+      event => handlers.current.onEvent(event),
+      () => handlers.current.onResync?.()
+    );
+  }, [enabled]);
+}
+
+function notify(event: UserEvent) {
+  switch (event.type) {
+    case "price_alert":
+      toast({
+        title: `${event.data.symbol} alert`,
+        description: event.data.description,
+      });
+      break;
+    case "order_triggered":
+      toast({
+        title: `${TRIGGER_LABELS[event.data.trigger]}: ${event.data.symbol}`,
+        description: event.data.quantity
+          ? `${event.data.quantity} @ $${event.data.price}`
+          : `@ $${event.data.price}`,
+        variant: event.data.trigger === "liquidation" ? "destructive" : "default",
+      });
+      break;
+    case "risk_state":
+      if (event.data.action === "paused" || event.data.action === "flattened") {
+        toast({ title: "Risk Guard paused trading", description: event.data.reason, variant: "destructive" });
+      } else if (event.data.action === "cooldown_started") {
+        toast({ title: "Risk Guard cooldown", description: event.data.reason });
+      }
+      break;
+    case "mistake_warning":
+      if (event.data.severity === "high" || event.data.severity === "critical") {
+        toast({
+          title: `Possible mistake on ${event.data.symbol}`,
+          description: event.data.reasoning,
+          variant: "destructive",
+        });
+      }
+      break;
+  }
+}
+
+/**
+ * Keeps cached account data current from the user event channel: each event refreshes the
+ * queries it affects (and surfaces alerts, triggers and Risk Guard pauses as toasts), and
+ * a resync refreshes everything
+ */
+export function useUserEventSync(enabled: boolean) {
+  useUserEvents(
+    event => {
+      AFFECTED_QUERIES[event.type].forEach(key => {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      });
+      notify(event);
+    },
+    () => {
+      queryClient.invalidateQueries();
+    },
+    enabled
+  );
+}
@@ -220,6 +220,18 @@ export const DASHBOARD_MODULES: DashboardModule[] = [
     order: 15,
     size: "md",
   },
+  {
+    id: "portfolio-risk",
+    name: "Portfolio Risk",
+    description: "Value-at-Risk, expected shortfall and stress scenarios",
+    category: "analytics",
+    icon: "ShieldAlert",
+    component: "PortfolioRiskCard",
+    defaultVisible: false,
+    powerModeOnly: true,
+    order: 15.5,
+    size: "md",
+  },
 
   // Tools
   {
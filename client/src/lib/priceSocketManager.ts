@@ -1,6 +1,8 @@
-// Shared WebSocket manager for price updates
+// Shared WebSocket manager for price updates and the signed-in user's event channel
 // Ensures only ONE WebSocket connection across entire application
 
+import type { UserChannelMessage, UserEvent } from "@shared/userEvents";
+
 interface PriceUpdate {
   symbol: string;
   price: number;
@@ -9,11 +11,17 @@ interface PriceUpdate {
   timestamp: number;
   volume?: number;
   marketCap?: number;
+  source?: string;
+  stale?: boolean;
 }
 
-interface PriceSocketMessage {
-  type: "prices" | "pong";
-  data?: PriceUpdate[];
+type PriceSocketMessage =
+  | { type: "prices" | "pong"; data?: PriceUpdate[] }
+  | UserChannelMessage;
+
+interface UserEventSubscriber {
+  onEvent: (event: UserEvent) => void;
+  onResync?: () => void; // Events were missed and can't be replayed: refetch everything
 }
 
 const MIN_RETRY_DELAY = 1000; // 1 second
@@ -30,11 +38,75 @@ class PriceSocketManager {
   private pongTimeout?: NodeJS.Timeout;
   private retryCount = 0;
   private subscribers = new Set<(prices: Record<string, PriceUpdate>, connected: boolean) => void>();
+  private userSubscribers = new Set<UserEventSubscriber>();
+  // Where the user channel left off, so a reconnect replays only what was missed
+  private userStreamId?: string;
+  private userLastSeq = 0;
 
   private notifySubscribers() {
     this.subscribers.forEach(callback => callback(this.prices, this.connected));
   }
 
+  private hasSubscribers() {
+    return this.subscribers.size > 0 || this.userSubscribers.size > 0;
+  }
+
+  private send(message: object) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private subscribeUserChannel() {
+    this.send(
+      this.userStreamId
+        ? { type: "subscribe_user", streamId: this.userStreamId, lastSeq: this.userLastSeq }
+        : { type: "subscribe_user" }
+    );
+  }
+
+  private handleUserMessage(message: UserChannelMessage) {
+    switch (message.type) {
+      case "user_event":
+        // Replays can overlap events already seen
+        if (message.event.seq <= this.userLastSeq) return;
+        this.userLastSeq = message.event.seq;
+        this.userSubscribers.forEach(subscriber => {
+          try {
+            subscriber.onEvent(message.event);
+          } catch (error) {
+            console.error("[WS Manager] User event subscriber failed:", error);
+          }
+        });
+        break;
+      case "user_subscribed":
+        this.userStreamId = message.streamId;
+        this.userLastSeq = message.seq;
+        break;
+      case "user_resync":
+        console.log("[WS Manager] User events missed, resyncing");
+        this.userStreamId = message.streamId;
+        this.userLastSeq = message.seq;
+        this.userSubscribers.forEach(subscriber => subscriber.onResync?.());
+        break;
+      case "user_error":
+        console.warn("[WS Manager] User channel error:", message.error);
+        break;
+    }
+  }
+
+  private disconnect() {
+    console.log("[WS Manager] Last subscriber removed, closing connection");
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+    this.clearHeartbeat();
+    if (this.ws) {
+      this.ws.close(1000, "All subscribers removed");
+      this.ws = null;
+    }
+  }
+
   private clearHeartbeat() {
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
@@ -87,6 +159,9 @@ class PriceSocketManager {
       this.connected = true;
       this.retryCount = 0;
       this.notifySubscribers();
+      if (this.userSubscribers.size > 0) {
+        this.subscribeUserChannel();
+      }
       
       // Server sends initial prices automatically
       // Start heartbeat to respond to server pings
@@ -107,6 +182,8 @@ class PriceSocketManager {
             clearTimeout(this.pongTimeout);
             this.pongTimeout = undefined;
           }
+        } else if (message.type.startsWith("user_")) {
+          this.handleUserMessage(message as UserChannelMessage);
         } else if (message.type === "prices" && message.data) {
           console.log("[WS Manager] ✅ Prices received, count:", message.data.length);
           console.log("[WS Manager] First price:", message.data[0]);
@@ -164,9 +241,10 @@ class PriceSocketManager {
   }
 
   subscribe(callback: (prices: Record<string, PriceUpdate>, connected: boolean) => void) {
+    const firstSubscriber = !this.hasSubscribers();
     this.subscribers.add(callback);
     
-    if (this.subscribers.size === 1) {
+    if (firstSubscriber) {
       console.log("[WS Manager] First subscriber, initializing connection");
       this.connect();
     } else {
@@ -179,16 +257,35 @@ class PriceSocketManager {
       this.subscribers.delete(callback);
       console.log(`[WS Manager] Subscriber removed (total: ${this.subscribers.size})`);
       
-      if (this.subscribers.size === 0) {
-        console.log("[WS Manager] Last subscriber removed, closing connection");
-        if (this.reconnectTimeout) {
-          clearTimeout(this.reconnectTimeout);
-        }
-        this.clearHeartbeat();
-        if (this.ws) {
-          this.ws.close(1000, "All subscribers removed");
-          this.ws = null;
-        }
+      if (!this.hasSubscribers()) {
+        this.disconnect();
+      }
+    };
+  }
+
+  /**
+   * Receive the signed-in user's events (fills, triggers, alerts, Risk Guard changes,
+   * mistake warnings, AI suggestions). Events missed while disconnected are replayed on
+   * reconnect; when they can't be, onResync is called instead.
+   */
+  subscribeUserEvents(onEvent: (event: UserEvent) => void, onResync?: () => void) {
+    const subscriber: UserEventSubscriber = { onEvent, onResync };
+    const firstSubscriber = !this.hasSubscribers();
+    this.userSubscribers.add(subscriber);
+
+    if (firstSubscriber) {
+      this.connect(); // Subscribes to the user channel once open
+    } else if (this.userSubscribers.size === 1) {
+      this.subscribeUserChannel();
+    }
+
+    return () => {
+      this.userSubscribers.delete(subscriber);
+      if (this.userSubscribers.size === 0) {
+        this.send({ type: "unsubscribe_user" });
+      }
+      if (!this.hasSubscribers()) {
+        this.disconnect();
       }
     };
   }
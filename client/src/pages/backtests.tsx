@@ -0,0 +1,592 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { FlaskConical, Loader2, Plus, Trash2, X } from "lucide-react";
+import { format, subMonths } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  BacktestTrade,
+  StrategyDefinition,
+  StrategyOperand,
+  StrategyRule,
+} from "@shared/backtest";
+
+interface BacktestSummary {
+  id: string;
+  strategyName: string;
+  description: string | null;
+  periodStart: string;
+  periodEnd: string | null;
+  totalTrades: number;
+  winningTrades: number;
+  winRate: string | null;
+  totalProfitLoss: string;
+  totalReturnPercent: string | null;
+  maxDrawdown: string | null;
+  sharpeRatio: string | null;
+  profitFactor: string | null;
+  exposurePercent: string | null;
+  createdAt: string;
+}
+
+interface BacktestDetail extends BacktestSummary {
+  equityCurve: { time: number; equity: number }[];
+  backtestTrades: BacktestTrade[];
+}
+
+type Operator = StrategyRule["operator"];
+
+interface RuleRow {
+  left: string;
+  operator: Operator;
+  right: string;
+  value: string; // Used when right is "value"
+}
+
+// Indicator lines a rule can compare, by picker key
+const OPERANDS: Record<string, { label: string; operand: StrategyOperand }> = {
+  close: { label: "Close", operand: { kind: "price", field: "close" } },
+  "sma:20": { label: "SMA 20", operand: { kind: "sma", period: 20 } },
+  "sma:50": { label: "SMA 50", operand: { kind: "sma", period: 50 } },
+  "sma:200": { label: "SMA 200", operand: { kind: "sma", period: 200 } },
+  "ema:9": { label: "EMA 9", operand: { kind: "ema", period: 9 } },
+  "ema:21": { label: "EMA 21", operand: { kind: "ema", period: 21 } },
+  "ema:50": { label: "EMA 50", operand: { kind: "ema", period: 50 } },
+  "ema:200": { label: "EMA 200", operand: { kind: "ema", period: 200 } },
+  rsi: { label: "RSI 14", operand: { kind: "rsi", period: 14 } },
+  "macd:macd": { label: "MACD", operand: { kind: "macd", line: "macd", fast: 12, slow: 26, signal: 9 } },
+  "macd:signal": { label: "MACD signal", operand: { kind: "macd", line: "signal", fast: 12, slow: 26, signal: 9 } },
+  "macd:histogram": { label: "MACD histogram", operand: { kind: "macd", line: "histogram", fast: 12, slow: 26, signal: 9 } },
+  "bb:upper": { label: "Bollinger upper", operand: { kind: "bollinger", band: "upper", period: 20, stdDev: 2 } },
+  "bb:middle": { label: "Bollinger middle", operand: { kind: "bollinger", band: "middle", period: 20, stdDev: 2 } },
+  "bb:lower": { label: "Bollinger lower", operand: { kind: "bollinger", band: "lower", period: 20, stdDev: 2 } },
+  "stoch:k": { label: "Stochastic %K", operand: { kind: "stochastic", line: "k", kPeriod: 14, dPeriod: 3 } },
+  "stoch:d": { label: "Stochastic %D", operand: { kind: "stochastic", line: "d", kPeriod: 14, dPeriod: 3 } },
+  adx: { label: "ADX 14", operand: { kind: "adx", period: 14 } },
+  atr: { label: "ATR 14", operand: { kind: "atr", period: 14 } },
+  supertrend: { label: "SuperTrend", operand: { kind: "supertrend", period: 10, multiplier: 3 } },
+  vwap: { label: "VWAP", operand: { kind: "vwap" } },
+};
+
+const OPERATOR_LABELS: Record<Operator, string> = {
+  above: "is above",
+  below: "is below",
+  crosses_above: "crosses above",
+  crosses_below: "crosses below",
+};
+
+const PRESETS: Record<string, { label: string; entry: RuleRow[]; exit: RuleRow[] }> = {
+  ema_cross: {
+    label: "EMA crossover",
+    entry: [{ left: "ema:21", operator: "crosses_above", right: "ema:50", value: "" }],
+    exit: [{ left: "ema:21", operator: "crosses_below", right: "ema:50", value: "" }],
+  },
+  rsi_reversion: {
+    label: "RSI mean reversion",
+    entry: [{ left: "rsi", operator: "crosses_above", right: "value", value: "30" }],
+    exit: [{ left: "rsi", operator: "above", right: "value", value: "60" }],
+  },
+  supertrend: {
+    label: "SuperTrend trend following",
+    entry: [{ left: "close", operator: "crosses_above", right: "supertrend", value: "" }],
+    exit: [{ left: "close", operator: "crosses_below", right: "supertrend", value: "" }],
+  },
+  bollinger: {
+    label: "Bollinger bounce",
+    entry: [{ left: "close", operator: "crosses_above", right: "bb:lower", value: "" }],
+    exit: [{ left: "close", operator: "crosses_above", right: "bb:middle", value: "" }],
+  },
+};
+
+const SYMBOLS = ["BTC", "ETH", "SOL", "XRP", "ADA", "LINK", "AVAX", "DOT"];
+
+const INTERVALS: { value: StrategyDefinition["interval"]; label: string }[] = [
+  { value: "15", label: "15m" },
+  { value: "60", label: "1h" },
+  { value: "240", label: "4h" },
+  { value: "D", label: "1D" },
+];
+
+const EXIT_REASON_LABELS: Record<BacktestTrade["exitReason"], string> = {
+  signal: "Signal",
+  stop_loss: "Stop",
+  take_profit: "Target",
+  end_of_data: "End",
+};
+
+function toRule(row: RuleRow): StrategyRule {
+  return {
+    left: OPERANDS[row.left].operand,
+    operator: row.operator,
+    right: row.right === "value" ? { kind: "value", value: parseFloat(row.value) } : OPERANDS[row.right].operand,
+  };
+}
+
+const money = (value: string | number | null) =>
+  value === null ? "—" : `$${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+const percent = (value: string | number | null) => (value === null ? "—" : `${Number(value).toFixed(2)}%`);
+const ratio = (value: string | number | null) => (value === null ? "—" : Number(value).toFixed(2));
+
+function RuleEditor({
+  title,
+  rows,
+  onChange,
+  minRows,
+}: {
+  title: string;
+  rows: RuleRow[];
+  onChange: (rows: RuleRow[]) => void;
+  minRows: number;
+}) {
+  const update = (index: number, patch: Partial<RuleRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{title}</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={rows.length >= 5}
+          onClick={() => onChange([...rows, { left: "close", operator: "above", right: "sma:50", value: "" }])}
+        >
+          <Plus className="h-3 w-3 mr-1" /> Rule
+        </Button>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <Select value={row.left} onValueChange={(v) => update(index, { left: v })}>
+            <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(OPERANDS).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={row.operator} onValueChange={(v) => update(index, { operator: v as Operator })}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OPERATOR_LABELS) as Operator[]).map(op => (
+                <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={row.right} onValueChange={(v) => update(index, { right: v })}>
+            <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="value">Number</SelectItem>
+              {Object.entries(OPERANDS).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {row.right === "value" && (
+            <Input
+              type="number"
+              step="any"
+              className="w-24"
+              value={row.value}
+              onChange={(e) => update(index, { value: e.target.value })}
+            />
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={rows.length <= minRows}
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {rows.length === 0 && <p className="text-sm text-muted-foreground">Only stops and targets close positions</p>}
+    </div>
+  );
+}
+
+export default function Backtests() {
+  const { toast } = useToast();
+  const [name, setName] = useState("EMA crossover");
+  const [symbol, setSymbol] = useState("BTC");
+  const [interval, setCandleInterval] = useState<StrategyDefinition["interval"]>("60");
+  const [from, setFrom] = useState(format(subMonths(new Date(), 3), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [direction, setDirection] = useState<"long" | "short">("long");
+  const [entryRules, setEntryRules] = useState<RuleRow[]>(PRESETS.ema_cross.entry);
+  const [exitRules, setExitRules] = useState<RuleRow[]>(PRESETS.ema_cross.exit);
+  const [sizingMode, setSizingMode] = useState<StrategyDefinition["sizing"]["mode"]>("percent_equity");
+  const [sizingValue, setSizingValue] = useState("50");
+  const [stopLoss, setStopLoss] = useState("3");
+  const [takeProfit, setTakeProfit] = useState("");
+  const [capital, setCapital] = useState("10000");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: history = [] } = useQuery<BacktestSummary[]>({
+    queryKey: ["/api/backtests"],
+  });
+
+  const { data: selected } = useQuery<BacktestDetail>({
+    queryKey: ["/api/backtests", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const applyPreset = (key: string) => {
+    const preset = PRESETS[key];
+    setName(preset.label);
+    setEntryRules(preset.entry);
+    setExitRules(preset.exit);
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (definition: unknown) => {
+      const res = await apiRequest("/api/backtests", "POST", definition);
+      return (await res.json()) as BacktestDetail;
+    },
+    onSuccess: (backtest) => {
+      queryClient.setQueryData(["/api/backtests", backtest.id], backtest);
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"], exact: true });
+      setSelectedId(backtest.id);
+      toast({ title: "Backtest complete", description: `${backtest.totalTrades} trades` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Backtest failed",
+        description: error.message || "Failed to run backtest",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/backtests/${id}`, "DELETE"),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"], exact: true });
+      if (id === selectedId) setSelectedId(null);
+    },
+  });
+
+  const handleRun = () => {
+    if ([...entryRules, ...exitRules].some(row => row.right === "value" && isNaN(parseFloat(row.value)))) {
+      toast({ title: "Missing value", description: "Fill in every number in the rules", variant: "destructive" });
+      return;
+    }
+    if (sizingMode === "risk_percent" && !stopLoss) {
+      toast({ title: "Stop required", description: "Risk-based sizing needs a stop-loss", variant: "destructive" });
+      return;
+    }
+
+    runMutation.mutate({
+      name,
+      symbol,
+      interval,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      direction,
+      entryRules: entryRules.map(toRule),
+      exitRules: exitRules.map(toRule),
+      sizing: { mode: sizingMode, value: parseFloat(sizingValue) },
+      stopLossPercent: stopLoss ? parseFloat(stopLoss) : undefined,
+      takeProfitPercent: takeProfit ? parseFloat(takeProfit) : undefined,
+      initialCapital: parseFloat(capital),
+    });
+  };
+
+  const stats = selected ? [
+    { label: "Return", value: percent(selected.totalReturnPercent), positive: Number(selected.totalProfitLoss) >= 0 },
+    { label: "Net P&L", value: money(selected.totalProfitLoss), positive: Number(selected.totalProfitLoss) >= 0 },
+    { label: "Max drawdown", value: percent(selected.maxDrawdown) },
+    { label: "Sharpe", value: ratio(selected.sharpeRatio) },
+    { label: "Profit factor", value: ratio(selected.profitFactor) },
+    { label: "Win rate", value: percent(selected.winRate) },
+    { label: "Trades", value: selected.totalTrades.toString() },
+    { label: "Exposure", value: percent(selected.exposurePercent) },
+  ] : [];
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="heading-backtests">Strategy Backtests</h1>
+        <p className="text-muted-foreground">
+          Replay indicator rules over historical candles with paper-trading fees and slippage
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Strategy
+          </CardTitle>
+          <CardDescription>
+            Rules are checked on each candle close and trade at the next open. Stops and targets fill intrabar.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Preset</Label>
+              <Select onValueChange={applyPreset}>
+                <SelectTrigger data-testid="select-backtest-preset"><SelectValue placeholder="Start from…" /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRESETS).map(([key, preset]) => (
+                    <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-name">Name</Label>
+              <Input id="backtest-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-backtest-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Symbol</Label>
+              <Select value={symbol} onValueChange={setSymbol}>
+                <SelectTrigger data-testid="select-backtest-symbol"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SYMBOLS.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Interval</Label>
+              <Select value={interval} onValueChange={(v) => setCandleInterval(v as StrategyDefinition["interval"])}>
+                <SelectTrigger data-testid="select-backtest-interval"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INTERVALS.map(i => <SelectItem key={i.value} value={i.value}>{i.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-from">From</Label>
+              <Input id="backtest-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-backtest-from" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-to">To</Label>
+              <Input id="backtest-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-backtest-to" />
+            </div>
+            <div className="space-y-2">
+              <Label>Direction</Label>
+              <Select value={direction} onValueChange={(v) => setDirection(v as "long" | "short")}>
+                <SelectTrigger data-testid="select-backtest-direction"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="long">Long</SelectItem>
+                  <SelectItem value="short">Short</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-capital">Starting capital</Label>
+              <Input id="backtest-capital" type="number" value={capital} onChange={(e) => setCapital(e.target.value)} data-testid="input-backtest-capital" />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <RuleEditor title="Enter when all of" rows={entryRules} onChange={setEntryRules} minRows={1} />
+            <RuleEditor title="Exit when any of" rows={exitRules} onChange={setExitRules} minRows={0} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Position size</Label>
+              <Select value={sizingMode} onValueChange={(v) => setSizingMode(v as typeof sizingMode)}>
+                <SelectTrigger data-testid="select-backtest-sizing"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent_equity">% of equity</SelectItem>
+                  <SelectItem value="fixed_usd">Fixed USD</SelectItem>
+                  <SelectItem value="risk_percent">% of equity at risk</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-size">{sizingMode === "fixed_usd" ? "USD" : "Percent"}</Label>
+              <Input id="backtest-size" type="number" step="any" value={sizingValue} onChange={(e) => setSizingValue(e.target.value)} data-testid="input-backtest-size" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-stop">Stop-loss %</Label>
+              <Input id="backtest-stop" type="number" step="any" placeholder="None" value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} data-testid="input-backtest-stop" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-target">Take-profit %</Label>
+              <Input id="backtest-target" type="number" step="any" placeholder="None" value={takeProfit} onChange={(e) => setTakeProfit(e.target.value)} data-testid="input-backtest-target" />
+            </div>
+          </div>
+
+          <Button onClick={handleRun} disabled={runMutation.isPending} data-testid="button-run-backtest">
+            {runMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Run backtest
+          </Button>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.strategyName}</CardTitle>
+            <CardDescription>
+              {selected.description}
+              {" · "}
+              {format(new Date(selected.periodStart), "PP")} – {selected.periodEnd ? format(new Date(selected.periodEnd), "PP") : "—"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(stat => (
+                <div key={stat.label} className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p
+                    className={`text-lg font-semibold ${
+                      stat.positive === undefined ? "" : stat.positive ? "text-green-500" : "text-red-500"
+                    }`}
+                  >
+                    {stat.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <ResponsiveContainer width="100%" height={280}>
+              <AreaChart data={selected.equityCurve}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="time"
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={12}
+                  tickFormatter={(time) => format(new Date(time * 1000), "MMM d")}
+                  minTickGap={40}
+                />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={12}
+                  domain={["auto", "auto"]}
+                  tickFormatter={(value) => `$${Math.round(value).toLocaleString()}`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  labelFormatter={(time) => format(new Date(Number(time) * 1000), "PPp")}
+                  formatter={(value: number) => [money(value), "Equity"]}
+                />
+                <Area type="monotone" dataKey="equity" stroke="hsl(var(--chart-1))" fill="hsl(var(--chart-1))" fillOpacity={0.15} />
+              </AreaChart>
+            </ResponsiveContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Exit</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead className="text-right">Entry price</TableHead>
+                  <TableHead className="text-right">Exit price</TableHead>
+                  <TableHead className="text-right">P&L</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selected.backtestTrades.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      The entry rules never held in this period
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  selected.backtestTrades.slice(-100).reverse().map((trade, index) => (
+                    <TableRow key={`${trade.entryTime}-${index}`}>
+                      <TableCell>{format(new Date(trade.entryTime * 1000), "PP p")}</TableCell>
+                      <TableCell>{format(new Date(trade.exitTime * 1000), "PP p")}</TableCell>
+                      <TableCell className="capitalize">{trade.side}</TableCell>
+                      <TableCell className="text-right">{money(trade.entryPrice)}</TableCell>
+                      <TableCell className="text-right">{money(trade.exitPrice)}</TableCell>
+                      <TableCell className={`text-right ${trade.pnl >= 0 ? "text-green-500" : "text-red-500"}`}>
+                        {money(trade.pnl)} ({trade.pnlPercent.toFixed(2)}%)
+                      </TableCell>
+                      <TableCell><Badge variant="outline">{EXIT_REASON_LABELS[trade.exitReason]}</Badge></TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+            {selected.backtestTrades.length > 100 && (
+              <p className="text-xs text-muted-foreground">Showing the last 100 of {selected.backtestTrades.length} trades</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Your stored backtests</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No backtests yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead className="text-right">Return</TableHead>
+                  <TableHead className="text-right">Max DD</TableHead>
+                  <TableHead className="text-right">Sharpe</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(backtest => (
+                  <TableRow
+                    key={backtest.id}
+                    className={`cursor-pointer ${backtest.id === selectedId ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedId(backtest.id)}
+                    data-testid={`row-backtest-${backtest.id}`}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{backtest.strategyName}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-1">{backtest.description}</p>
+                    </TableCell>
+                    <TableCell>{format(new Date(backtest.createdAt), "PP")}</TableCell>
+                    <TableCell className={`text-right ${Number(backtest.totalProfitLoss) >= 0 ? "text-green-500" : "text-red-500"}`}>
+                      {percent(backtest.totalReturnPercent)}
+                    </TableCell>
+                    <TableCell className="text-right">{percent(backtest.maxDrawdown)}</TableCell>
+                    <TableCell className="text-right">{ratio(backtest.sharpeRatio)}</TableCell>
+                    <TableCell className="text-right">{backtest.totalTrades}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteMutation.mutate(backtest.id);
+                        }}
+                        data-testid={`button-delete-backtest-${backtest.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
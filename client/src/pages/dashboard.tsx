@@ -8,6 +8,7 @@ import AIInsightsCard from "@/components/AIInsightsCard";
 import LivePricesTicker from "@/components/LivePricesTicker";
 import { WatchlistCard } from "@/components/WatchlistCard";
 import { PriceAlertsCard } from "@/components/PriceAlertsCard";
+import { PortfolioRiskCard } from "@/components/PortfolioRiskCard";
 import { LiveTradeModal } from "@/components/LiveTradeModal";
 import ComprehensiveTradeModal from "@/components/ComprehensiveTradeModal";
 import AIFeaturesHub from "@/components/AIFeaturesHub";
@@ -24,7 +25,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Link as LinkIcon, Rocket, Brain, TrendingUp, Shield, Zap, Heart, ArrowUpDown, BarChart3, Settings2, DollarSign, Target, Activity, Bookmark, Bell } from "lucide-react";
+import { Link as LinkIcon, Rocket, Brain, TrendingUp, Shield, Zap, Heart, ArrowUpDown, BarChart3, Settings2, DollarSign, Target, Activity, Bookmark, Bell, ShieldAlert } from "lucide-react";
 import { TimeframeSelector } from "@/components/TimeframeSelector";
 import { RangeAnalysisCard } from "@/components/RangeAnalysisCard";
 import { useMutation } from "@tanstack/react-query";
@@ -313,8 +314,11 @@ export default function Dashboard() {
   });
 
   // Fetch exchange balance (only if connected)
-  const binanceConnected = exchangeStatus?.find(e => e.exchange === 'binance')?.connected || false;
-  const binanceTestnet = exchangeStatus?.find(e => e.exchange === 'binance')?.testnet || false;
+  // The server reads balances and orders from the first active connection
+  const activeExchange = exchangeStatus?.find(e => e.connected);
+  const exchangeConnected = !!activeExchange;
+  const exchangeTestnet = activeExchange?.testnet || false;
+  const exchangeName = activeExchange ? activeExchange.exchange.charAt(0).toUpperCase() + activeExchange.exchange.slice(1) : "exchange";
   
   const { data: exchangeBalance } = useQuery<{
     balances: Array<{ asset: string; free: string; locked: string }>;
@@ -324,7 +328,7 @@ export default function Dashboard() {
     updateTime: number;
   }>({
     queryKey: ["/api/exchange/balance", userId],
-    enabled: !!userId && binanceConnected,
+    enabled: !!userId && exchangeConnected,
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
@@ -334,7 +338,7 @@ export default function Dashboard() {
     const lockedBalance = parseFloat(asset.locked);
     // For now, just sum all balances (in reality you'd convert to USDT)
     // This is a simplified calculation
-    if (asset.asset === 'USDT') {
+    if (asset.asset === 'USDT' || asset.asset === 'USD') {
       return total + freeBalance + lockedBalance;
     }
     return total;
@@ -360,18 +364,18 @@ export default function Dashboard() {
     }
   })() : null;
 
-  // Fetch Binance open orders (replaces paper wallet positions)
-  const { data: binanceOrders } = useQuery<{
+  // Fetch exchange open orders (replaces paper wallet positions)
+  const { data: exchangeOrders } = useQuery<{
     orders: any[];
   }>({
     queryKey: ["/api/exchange/orders", userId],
-    enabled: !!userId && binanceConnected,
+    enabled: !!userId && exchangeConnected,
     refetchInterval: 10000, // Refresh every 10 seconds
   });
 
   // Calculate stats from exchange balance
   const totalPnL = 0; // Will be calculated from real trades later
-  const activePositions = binanceOrders?.orders?.length || 0; // Count open orders
+  const activePositions = exchangeOrders?.orders?.length || 0; // Count open orders
 
   const handleOrderSubmit = async (order: any) => {
     try {
@@ -545,8 +549,8 @@ export default function Dashboard() {
                 <PeaceIndexCard userId={user?.id || ""} />
               )}
               
-              {/* Live Portfolio (Binance) - Replaces paper trading */}
-              {isModuleVisible("paper-wallet") && binanceConnected && (
+              {/* Live Portfolio (connected exchange) - Replaces paper trading */}
+              {isModuleVisible("paper-wallet") && exchangeConnected && (
                 <Card data-testid="card-live-portfolio">
                   <CardHeader>
                     <CardTitle className="text-sm font-semibold flex items-center gap-2">
@@ -554,7 +558,7 @@ export default function Dashboard() {
                       Live Portfolio
                     </CardTitle>
                     <CardDescription className="text-xs">
-                      Real-time balances from your Binance account
+                      Real-time balances from your {exchangeName} account
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -565,22 +569,22 @@ export default function Dashboard() {
                       </div>
                       <div className="flex justify-between items-center p-2 rounded-lg border">
                         <span className="text-xs text-muted-foreground">Mode</span>
-                        <Badge variant={binanceTestnet ? "secondary" : "default"}>
-                          {binanceTestnet ? "Testnet" : "Live Trading"}
+                        <Badge variant={exchangeTestnet ? "secondary" : "default"}>
+                          {exchangeTestnet ? "Testnet" : "Live Trading"}
                         </Badge>
                       </div>
                     </div>
                     <Separator className="my-3" />
                     <div className="text-center py-4 text-muted-foreground">
                       <p className="text-sm">Full portfolio view coming soon</p>
-                      <p className="text-xs mt-1">Your Binance balance is displayed above</p>
+                      <p className="text-xs mt-1">Your {exchangeName} balance is displayed above</p>
                     </div>
                   </CardContent>
                 </Card>
               )}
               
               {/* Show message if no exchange connected */}
-              {isModuleVisible("paper-wallet") && !binanceConnected && (
+              {isModuleVisible("paper-wallet") && !exchangeConnected && (
                 <Card data-testid="card-connect-exchange">
                   <CardHeader>
                     <CardTitle className="text-sm font-semibold flex items-center gap-2">
@@ -590,7 +594,7 @@ export default function Dashboard() {
                   </CardHeader>
                   <CardContent className="text-center py-6">
                     <p className="text-sm text-muted-foreground mb-4">
-                      Connect your Binance account to see your live portfolio
+                      Connect an exchange account to see your live portfolio
                     </p>
                     <Button variant="default" asChild>
                       <a href="/settings">Go to Settings</a>
@@ -681,6 +685,20 @@ export default function Dashboard() {
             </CardContent>
           </Card>
         )}
+
+        {isModuleVisible("portfolio-risk") && (
+          <Card className="max-h-[420px] overflow-hidden" data-testid="module-portfolio-risk">
+            <CardHeader className="pb-2 px-4 pt-3">
+              <CardTitle className="text-sm font-semibold flex items-center gap-1.5">
+                <ShieldAlert className="h-3.5 w-3.5 text-primary" />
+                Portfolio Risk
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 pb-3 h-[calc(100%-52px)] overflow-y-auto card-scroll">
+              <PortfolioRiskCard userId={userId} />
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Live Trade Modal */}
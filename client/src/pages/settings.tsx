@@ -10,6 +10,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Shield, Check, X, Smartphone, AlertTriangle } from "lucide-react";
 import { ExchangeConnectPanel } from "@/components/ExchangeConnectPanel";
+import { NotificationSettingsPanel } from "@/components/NotificationSettingsPanel";
 
 export default function Settings() {
   const { user } = useAuth();
@@ -121,6 +122,8 @@ export default function Settings() {
   const [dailyLossAmount, setDailyLossAmount] = useState<string>("1000");
   const [monthlyLossPercent, setMonthlyLossPercent] = useState<string>("25");
   const [monthlyLossAmount, setMonthlyLossAmount] = useState<string>("5000");
+  const [hardStopPercent, setHardStopPercent] = useState<string>("");
+  const [maxVarPercent, setMaxVarPercent] = useState<string>("");
 
   // Sync local state with query data
   useEffect(() => {
@@ -129,6 +132,8 @@ export default function Settings() {
       setDailyLossAmount((riskSettings as any)?.maxDailyLossAmount?.toString() || "1000");
       setMonthlyLossPercent((riskSettings as any)?.maxMonthlyLossPercent?.toString() || "25");
       setMonthlyLossAmount((riskSettings as any)?.maxMonthlyLossAmount?.toString() || "5000");
+      setHardStopPercent((riskSettings as any)?.hardDrawdownStopPercent?.toString() || "");
+      setMaxVarPercent((riskSettings as any)?.maxVarPercent?.toString() || "");
     }
   }, [riskSettings]);
 
@@ -141,6 +146,10 @@ export default function Settings() {
       maxDailyLossAmount?: string;
       maxMonthlyLossPercent?: string;
       maxMonthlyLossAmount?: string;
+      hardDrawdownStopPercent?: string | null;
+      flattenOnHardStop?: boolean;
+      maxVarPercent?: string | null;
+      enforceVarLimit?: boolean;
     }) => {
       return await apiRequest(`/api/risk/settings`, "PATCH", settings);
     },
@@ -310,8 +319,9 @@ export default function Settings() {
         <CardContent className="space-y-6">
           <div className="bg-muted p-4 rounded-lg">
             <p className="text-sm text-muted-foreground">
-              <strong>By default</strong>, Risk Guard shows warnings but <strong>never blocks trades</strong>. 
-              Enable limits below to enforce hard stop-loss protection.
+              <strong>By default</strong>, loss limits show warnings but <strong>never block trades</strong>. 
+              Enable limits below to enforce hard stop-loss protection. Position size limits block trades on the
+              Guardian and Adaptive profiles; open position and concentration limits block on Guardian only.
             </p>
           </div>
 
@@ -445,6 +455,134 @@ export default function Settings() {
             </div>
           </div>
 
+          {/* Hard Drawdown Stop */}
+          <div className="space-y-3">
+            <Label className="text-base">Hard Drawdown Stop</Label>
+            <p className="text-sm text-muted-foreground">
+              Pauses trading when your portfolio falls this far below its peak. Only you can resume afterwards. Leave empty to turn it off.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="hard-stop-percent" className="text-sm text-muted-foreground">
+                  Stop at Drawdown (%)
+                </Label>
+                <Input
+                  id="hard-stop-percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  placeholder="Off"
+                  value={hardStopPercent}
+                  onChange={(e) => setHardStopPercent(e.target.value)}
+                  onBlur={() => {
+                    if (hardStopPercent.trim() === "") {
+                      if ((riskSettings as any)?.hardDrawdownStopPercent) {
+                        updateRiskSettings.mutate({ hardDrawdownStopPercent: null });
+                      }
+                      return;
+                    }
+                    const value = parseFloat(hardStopPercent);
+                    if (!isNaN(value) && value > 0 && value <= 100) {
+                      updateRiskSettings.mutate({ hardDrawdownStopPercent: value.toString() });
+                    }
+                  }}
+                  disabled={updateRiskSettings.isPending}
+                  data-testid="input-hard-drawdown-stop"
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex items-end justify-between gap-2">
+                <Label htmlFor="flatten-on-hard-stop" className="text-sm text-muted-foreground">
+                  Close all positions at the stop
+                </Label>
+                <Switch
+                  id="flatten-on-hard-stop"
+                  checked={(riskSettings as any)?.flattenOnHardStop || false}
+                  onCheckedChange={(checked) =>
+                    updateRiskSettings.mutate({ flattenOnHardStop: checked })
+                  }
+                  disabled={updateRiskSettings.isPending}
+                  data-testid="switch-flatten-on-hard-stop"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Value-at-Risk limit */}
+          <div className="space-y-3">
+            <Label className="text-base">Value-at-Risk Limit</Label>
+            <p className="text-sm text-muted-foreground">
+              Checks each new trade against the one-day 95% historical VaR of your portfolio with the trade added. Leave empty to turn it off.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="max-var-percent" className="text-sm text-muted-foreground">
+                  Max VaR (% of portfolio)
+                </Label>
+                <Input
+                  id="max-var-percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  placeholder="Off"
+                  value={maxVarPercent}
+                  onChange={(e) => setMaxVarPercent(e.target.value)}
+                  onBlur={() => {
+                    if (maxVarPercent.trim() === "") {
+                      if ((riskSettings as any)?.maxVarPercent) {
+                        updateRiskSettings.mutate({ maxVarPercent: null });
+                      }
+                      return;
+                    }
+                    const value = parseFloat(maxVarPercent);
+                    if (!isNaN(value) && value > 0 && value <= 100) {
+                      updateRiskSettings.mutate({ maxVarPercent: value.toString() });
+                    }
+                  }}
+                  disabled={updateRiskSettings.isPending}
+                  data-testid="input-max-var-percent"
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex items-end justify-between gap-2">
+                <Label htmlFor="enforce-var-limit" className="text-sm text-muted-foreground">
+                  Block trades over the limit
+                </Label>
+                <Switch
+                  id="enforce-var-limit"
+                  checked={(riskSettings as any)?.enforceVarLimit || false}
+                  onCheckedChange={(checked) =>
+                    updateRiskSettings.mutate({ enforceVarLimit: checked })
+                  }
+                  disabled={updateRiskSettings.isPending}
+                  data-testid="switch-enforce-var-limit"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Recent Risk Guard activity */}
+          {((riskSettings as any)?.events?.length ?? 0) > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base">Recent Activity</Label>
+              <ul className="space-y-1 text-sm" data-testid="list-risk-guard-events">
+                {(riskSettings as any).events.slice(0, 5).map((event: any) => (
+                  <li key={event.id} className="flex justify-between gap-4">
+                    <span>
+                      <span className="font-medium capitalize">{event.action.replace("_", " ")}</span>
+                      <span className="text-muted-foreground"> - {event.reason}</span>
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="pt-4 border-t">
             <p className="text-xs text-muted-foreground">
               💡 <strong>Tip:</strong> Leave these disabled to maintain full trading freedom with AI-powered warnings. 
@@ -454,6 +592,9 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Notifications */}
+      <NotificationSettingsPanel />
+
       {/* User Info */}
       <Card>
         <CardHeader>
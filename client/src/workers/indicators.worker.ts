@@ -1,5 +1,11 @@
 // Web Worker for off-thread indicator calculations
 // This prevents UI blocking when calculating indicators for large datasets
+// The math lives in @shared/indicators, shared with the server
+
+import {
+  SMA, EMA, RSI, MACD, BollingerBands, Stochastic, OBV, ATR, VWAP, Ichimoku, ADX, SuperTrend, KeltnerChannels,
+  series, type StreamingIndicator,
+} from "@shared/indicators";
 
 export interface OHLCVCandle {
   time: number;
@@ -11,7 +17,9 @@ export interface OHLCVCandle {
 }
 
 export interface IndicatorRequest {
-  type: 'rsi' | 'macd' | 'ema' | 'sma' | 'bollinger' | 'stochastic' | 'obv' | 'all';
+  type:
+    | 'rsi' | 'macd' | 'ema' | 'sma' | 'bollinger' | 'stochastic' | 'obv'
+    | 'atr' | 'vwap' | 'ichimoku' | 'adx' | 'supertrend' | 'keltner' | 'all';
   data: OHLCVCandle[];
   params: any;
   requestId: string;
@@ -25,190 +33,32 @@ export interface IndicatorResponse {
   error?: string;
 }
 
-// Helper function to calculate SMA
-function calculateSMAArray(prices: number[], period: number): number[] {
-  const smaArray: number[] = [];
-  
-  for (let i = 0; i < period - 1; i++) {
-    smaArray.push(NaN); // Not enough data points
-  }
-
-  for (let i = period - 1; i < prices.length; i++) {
-    const subset = prices.slice(i - period + 1, i + 1);
-    const sma = subset.reduce((sum, price) => sum + price, 0) / period;
-    smaArray.push(sma);
-  }
-
-  return smaArray;
-}
-
-// Helper function to calculate EMA
-function calculateEMAArray(prices: number[], period: number): number[] {
-  const emaArray: number[] = [];
-  const multiplier = 2 / (period + 1);
-  let ema = prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period;
-  
-  for (let i = 0; i < period; i++) {
-    emaArray.push(NaN); // Not enough data points
-  }
-  emaArray[period - 1] = ema;
-
-  for (let i = period; i < prices.length; i++) {
-    ema = (prices[i] - ema) * multiplier + ema;
-    emaArray.push(ema);
-  }
-
-  return emaArray;
-}
-
-// Calculate RSI for all candles
-function calculateRSIWorker(data: OHLCVCandle[], period: number = 14): { time: number; value: number }[] {
-  const prices = data.map(d => d.close);
-  const result: { time: number; value: number }[] = [];
-
-  for (let i = period; i < prices.length; i++) {
-    const subset = prices.slice(Math.max(0, i - period), i + 1);
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    for (let j = 1; j < subset.length; j++) {
-      const change = subset[j] - subset[j - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-
-    const avgGain = gains.reduce((sum, gain) => sum + gain, 0) / period;
-    const avgLoss = losses.reduce((sum, loss) => sum + loss, 0) / period;
-    
-    const rsi = avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
-    result.push({ time: data[i].time, value: rsi });
-  }
-
-  return result;
-}
-
-// Calculate MACD for all candles
-function calculateMACDWorker(
-  data: OHLCVCandle[],
-  fast: number = 12,
-  slow: number = 26,
-  signal: number = 9
-): { time: number; macd: number; signal: number; histogram: number }[] {
-  const prices = data.map(d => d.close);
-  const emaFast = calculateEMAArray(prices, fast);
-  const emaSlow = calculateEMAArray(prices, slow);
-  
-  const macdLine: number[] = [];
-  for (let i = 0; i < prices.length; i++) {
-    macdLine.push(emaFast[i] - emaSlow[i]);
-  }
-
-  const signalLine = calculateEMAArray(macdLine.slice(slow - 1), signal);
-  const result: { time: number; macd: number; signal: number; histogram: number }[] = [];
-
-  for (let i = slow - 1; i < data.length; i++) {
-    const signalIdx = i - (slow - 1);
-    const macdValue = macdLine[i];
-    const signalValue = signalLine[signalIdx];
-    const histogram = macdValue - signalValue;
-
-    result.push({
-      time: data[i].time,
-      macd: macdValue,
-      signal: signalValue,
-      histogram,
-    });
-  }
-
-  return result;
-}
-
-// Calculate Bollinger Bands for all candles
-function calculateBollingerWorker(
-  data: OHLCVCandle[],
-  period: number = 20,
-  stdDev: number = 2
-): { time: number; upper: number; middle: number; lower: number }[] {
-  const result: { time: number; upper: number; middle: number; lower: number }[] = [];
-
-  for (let i = period - 1; i < data.length; i++) {
-    const subset = data.slice(i - period + 1, i + 1).map(d => d.close);
-    const sma = subset.reduce((sum, price) => sum + price, 0) / period;
-    const variance = subset.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period;
-    const sd = Math.sqrt(variance);
+type Point<T> = { time: number } & T;
 
-    result.push({
-      time: data[i].time,
-      upper: sma + stdDev * sd,
-      middle: sma,
-      lower: sma - stdDev * sd,
-    });
-  }
-
-  return result;
-}
-
-// Calculate Stochastic for all candles
-function calculateStochasticWorker(
+// Pair each candle's time with the indicator's value, dropping the warm-up
+function timed<I, O, T>(
   data: OHLCVCandle[],
-  kPeriod: number = 14,
-  dPeriod: number = 3
-): { time: number; k: number; d: number }[] {
-  const kValues: { time: number; k: number }[] = [];
-
-  // Calculate %K for all possible points
-  for (let i = kPeriod - 1; i < data.length; i++) {
-    const subset = data.slice(i - kPeriod + 1, i + 1);
-    const lowestLow = Math.min(...subset.map(d => d.low));
-    const highestHigh = Math.max(...subset.map(d => d.high));
-    const currentClose = subset[subset.length - 1].close;
-    
-    const k = highestHigh !== lowestLow 
-      ? ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100 
-      : 50;
-    
-    kValues.push({ time: data[i].time, k });
-  }
-
-  // Calculate %D (SMA of %K)
-  const result: { time: number; k: number; d: number }[] = [];
-  for (let i = dPeriod - 1; i < kValues.length; i++) {
-    const dSubset = kValues.slice(i - dPeriod + 1, i + 1);
-    const d = dSubset.reduce((sum, val) => sum + val.k, 0) / dPeriod;
-    
-    result.push({
-      time: kValues[i].time,
-      k: kValues[i].k,
-      d,
-    });
-  }
-
+  indicator: StreamingIndicator<I, O>,
+  input: (candle: OHLCVCandle) => I,
+  shape: (value: O) => T
+): Point<T>[] {
+  const result: Point<T>[] = [];
+  series(indicator, data.map(input)).forEach((value, i) => {
+    if (value !== null) result.push({ time: data[i].time, ...shape(value) });
+  });
   return result;
 }
 
-// Calculate OBV (On-Balance Volume) for all candles
-function calculateOBVWorker(data: OHLCVCandle[]): { time: number; value: number }[] {
-  const result: { time: number; value: number }[] = [];
-  let obv = 0;
-
-  for (let i = 0; i < data.length; i++) {
-    if (i === 0) {
-      // First candle: OBV starts at 0
-      result.push({ time: data[i].time, value: 0 });
-    } else {
-      // Compare current close to previous close
-      if (data[i].close > data[i - 1].close) {
-        obv += data[i].volume;
-      } else if (data[i].close < data[i - 1].close) {
-        obv -= data[i].volume;
-      }
-      // If close === previous close, OBV stays the same
-      
-      result.push({ time: data[i].time, value: obv });
-    }
-  }
+const close = (candle: OHLCVCandle) => candle.close;
+const whole = (candle: OHLCVCandle) => candle;
+const asValue = (value: number) => ({ value });
 
-  return result;
+function calculateMACDWorker(data: OHLCVCandle[], fast: number, slow: number, signal: number) {
+  return timed(data, new MACD(fast, slow, signal), close, macd => ({
+    macd: macd.value,
+    signal: macd.signal,
+    histogram: macd.histogram,
+  }));
 }
 
 // Listen for messages from the main thread
@@ -221,54 +71,73 @@ self.onmessage = (event: MessageEvent<IndicatorRequest>) => {
 
     switch (type) {
       case 'rsi':
-        result = calculateRSIWorker(data, params.period || 14);
+        result = timed(data, new RSI(params.period || 14), close, asValue);
         break;
 
       case 'macd':
-        result = calculateMACDWorker(
-          data,
-          params.fast || 12,
-          params.slow || 26,
-          params.signal || 9
-        );
+        result = calculateMACDWorker(data, params.fast || 12, params.slow || 26, params.signal || 9);
         break;
 
       case 'sma':
-        const smaArray = calculateSMAArray(data.map(d => d.close), params.period || 20);
-        result = data.map((d, i) => ({ time: d.time, value: smaArray[i] })).filter(d => !isNaN(d.value));
+        result = timed(data, new SMA(params.period || 20), close, asValue);
         break;
 
       case 'ema':
-        const emaArray = calculateEMAArray(data.map(d => d.close), params.period || 20);
-        result = data.map((d, i) => ({ time: d.time, value: emaArray[i] })).filter(d => !isNaN(d.value));
+        result = timed(data, new EMA(params.period || 20), close, asValue);
         break;
 
       case 'bollinger':
-        result = calculateBollingerWorker(
-          data,
-          params.period || 20,
-          params.stdDev || 2
-        );
+        result = timed(data, new BollingerBands(params.period || 20, params.stdDev || 2), close, bands => bands);
         break;
 
       case 'stochastic':
-        result = calculateStochasticWorker(
+        result = timed(data, new Stochastic(params.kPeriod || 14, params.dPeriod || 3), whole, stochastic => stochastic);
+        break;
+
+      case 'obv':
+        result = timed(data, new OBV(), whole, asValue);
+        break;
+
+      case 'atr':
+        result = timed(data, new ATR(params.period || 14), whole, asValue);
+        break;
+
+      case 'vwap':
+        result = timed(data, new VWAP(params.sessionSeconds ?? 24 * 60 * 60), whole, asValue);
+        break;
+
+      case 'ichimoku':
+        result = timed(
           data,
-          params.kPeriod || 14,
-          params.dPeriod || 3
+          new Ichimoku(params.tenkan || 9, params.kijun || 26, params.senkouB || 52, params.displacement || 26),
+          whole,
+          ichimoku => ichimoku
         );
         break;
 
-      case 'obv':
-        result = calculateOBVWorker(data);
+      case 'adx':
+        result = timed(data, new ADX(params.period || 14), whole, adx => adx);
+        break;
+
+      case 'supertrend':
+        result = timed(data, new SuperTrend(params.period || 10, params.multiplier || 3), whole, supertrend => supertrend);
+        break;
+
+      case 'keltner':
+        result = timed(
+          data,
+          new KeltnerChannels(params.emaPeriod || 20, params.atrPeriod || 10, params.multiplier || 2),
+          whole,
+          bands => bands
+        );
         break;
 
       case 'all':
         result = {
-          rsi: calculateRSIWorker(data, params.rsi?.period || 14),
+          rsi: timed(data, new RSI(params.rsi?.period || 14), close, asValue),
           macd: calculateMACDWorker(data, params.macd?.fast || 12, params.macd?.slow || 26, params.macd?.signal || 9),
-          bollinger: calculateBollingerWorker(data, params.bollinger?.period || 20, params.bollinger?.stdDev || 2),
-          stochastic: calculateStochasticWorker(data, params.stochastic?.kPeriod || 14, params.stochastic?.dPeriod || 3),
+          bollinger: timed(data, new BollingerBands(params.bollinger?.period || 20, params.bollinger?.stdDev || 2), close, bands => bands),
+          stochastic: timed(data, new Stochastic(params.stochastic?.kPeriod || 14, params.stochastic?.dPeriod || 3), whole, stochastic => stochastic),
         };
         break;
 
@@ -0,0 +1,172 @@
+import "../services/__tests__/testEnv";
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { PaperRealizedPnl, PaperWallet, RiskGuardEvent, RiskGuardSettings, User } from "@shared/schema";
+import { storage } from "../storage";
+import { riskGuardService } from "../riskGuardService";
+import { notificationService } from "../services/notifications";
+import { equityTracker } from "../services/equityHistory";
+import { riskPolicyEngine } from "../services/riskPolicy";
+
+const USER_ID = "user-1";
+
+// A minute per ledger row or event, so "after the event" never depends on the wall clock
+let clock: number;
+const tick = () => new Date((clock += 60_000));
+
+let wallet: PaperWallet;
+let user: User;
+let settings: RiskGuardSettings;
+let ledger: PaperRealizedPnl[];
+let events: RiskGuardEvent[];
+
+function closeTrade(realizedPnl: number) {
+  ledger.push({
+    id: `pnl-${ledger.length}`,
+    walletId: wallet.id,
+    userId: USER_ID,
+    orderId: `order-${ledger.length}`,
+    lotId: null,
+    symbol: "BTC",
+    side: "long",
+    method: "fifo",
+    quantity: "1",
+    entryPrice: "100",
+    exitPrice: (100 + realizedPnl).toString(),
+    costs: "0",
+    realizedPnl: realizedPnl.toString(),
+    openedAt: null,
+    closedAt: tick(),
+  });
+}
+
+const cooldownsStarted = () => events.filter(e => e.action === "cooldown_started").length;
+
+beforeEach(() => {
+  mock.restoreAll();
+  clock = Date.parse("2026-01-01T00:00:00Z");
+  wallet = { id: "wallet-1", userId: USER_ID, lastResetAt: null, createdAt: tick() } as PaperWallet;
+  user = { id: USER_ID, tradingPaused: false } as User;
+  settings = {
+    userId: USER_ID,
+    autoPauseEnabled: true,
+    autoPausedBy: null,
+    maxConsecutiveLosses: 3,
+    consecutiveLossCooldownMinutes: 60,
+    cooldownEndTime: null,
+  } as RiskGuardSettings;
+  ledger = [];
+  events = [];
+
+  mock.method(storage, "getUser", async () => user);
+  mock.method(storage, "getRiskGuardSettings", async () => settings);
+  mock.method(storage, "updateRiskGuardSettings", async (_userId: string, updates: Partial<RiskGuardSettings>) => {
+    Object.assign(settings, updates);
+    return settings;
+  });
+  mock.method(storage, "updateRiskGuardCooldown", async (_userId: string, cooldownEndTime: Date | null) => {
+    settings.cooldownEndTime = cooldownEndTime;
+  });
+  mock.method(storage, "updateUserTradingStatus", async (_userId: string, paused: boolean) => {
+    user.tradingPaused = paused;
+  });
+  mock.method(storage, "getPaperRealizedPnlByWalletId", async (_walletId: string, since?: Date) =>
+    ledger.filter(row => !since || row.closedAt >= since)
+  );
+  mock.method(storage, "createRiskGuardEvent", async (event: any) => {
+    const row = { id: `event-${events.length}`, createdAt: tick(), ...event } as RiskGuardEvent;
+    events.push(row);
+    return row;
+  });
+  mock.method(storage, "getLatestRiskGuardEvent", async (_userId: string, action: string) =>
+    events.filter(e => e.action === action).at(-1)
+  );
+  mock.method(notificationService, "notify", async () => null);
+});
+
+after(() => mock.restoreAll());
+
+describe("Risk Guard consecutive losses", () => {
+  it("starts a cooldown once the streak reaches the limit", async () => {
+    closeTrade(-10);
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 0);
+
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 1);
+    assert.ok(settings.cooldownEndTime);
+    assert.equal(user.tradingPaused, true);
+    assert.equal(settings.autoPausedBy, "consecutive_losses");
+  });
+
+  it("ends the streak on a winning trade", async () => {
+    closeTrade(-10);
+    closeTrade(-10);
+    closeTrade(5);
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 0);
+  });
+
+  it("counts a new streak after the cooldown ends", async () => {
+    closeTrade(-10);
+    closeTrade(-10);
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 1);
+
+    settings.cooldownEndTime = new Date(0); // The hour has passed
+    assert.equal(await riskGuardService.clearExpiredCooldown(USER_ID), true);
+
+    // The losses before the cooldown don't count towards the next one
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 1);
+
+    closeTrade(-10);
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 2);
+  });
+
+  it("counts a new streak after trading is resumed by hand", async () => {
+    closeTrade(-10);
+    closeTrade(-10);
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 1);
+
+    await riskGuardService.resumeTrading(USER_ID, "Resumed by user", "user");
+    assert.equal(user.tradingPaused, false);
+    assert.equal(settings.autoPausedBy, null);
+
+    closeTrade(-10);
+    closeTrade(-10);
+    await riskGuardService.checkConsecutiveLosses(USER_ID, wallet);
+    assert.equal(cooldownsStarted(), 1);
+    assert.equal(user.tradingPaused, false);
+  });
+});
+
+describe("Risk Guard after a closed trade", () => {
+  it("checks the wallet that traded rather than the selected one", async () => {
+    const selected = { id: "wallet-2", userId: USER_ID } as PaperWallet;
+    mock.method(storage, "getPaperWalletById", async (id: string) => (id === wallet.id ? wallet : undefined));
+    mock.method(storage, "getPaperWalletByUserId", async () => selected);
+    mock.method(storage, "getPaperPositionsByWalletId", async () => []);
+    const recorded = mock.method(equityTracker, "record", async () => undefined);
+    const evaluated = mock.method(riskPolicyEngine, "evaluatePortfolioLimits", async () => []);
+
+    closeTrade(-10);
+    closeTrade(-10);
+    closeTrade(-10);
+    await riskGuardService.recordClosedTrade(USER_ID, wallet.id);
+
+    assert.equal(recorded.mock.calls[0].arguments[0], wallet);
+    assert.equal(evaluated.mock.calls[0].arguments[0], wallet);
+    assert.equal(cooldownsStarted(), 1);
+    assert.equal(events.find(e => e.action === "cooldown_started")!.walletId, wallet.id);
+  });
+});
@@ -1,16 +1,22 @@
 import speakeasy from "speakeasy";
 import QRCode from "qrcode";
 import { db } from "./db";
+import { storage } from "./storage";
 import { otpCodes, users } from "@shared/schema";
-import { eq, and, gt } from "drizzle-orm";
+import { eq, and, gt, isNull } from "drizzle-orm";
+
+// 'step_up' codes confirm a sensitive action (live trades) and can't be used to log in
+export type OTPType = "email" | "phone" | "step_up";
+
+const TOTP_STEP_SECONDS = 30;
 
 // Generate 6-digit OTP code
 export function generateOTP(): string {
   return Math.floor(100000 + Math.random() * 900000).toString();
 }
 
-// Send Email OTP (via Resend)
-export async function sendEmailOTP(email: string, code: string): Promise<void> {
+// Send an email (via Resend)
+export async function sendEmail(to: string, subject: string, html: string): Promise<void> {
   const RESEND_API_KEY = process.env.RESEND_API_KEY;
   
   if (!RESEND_API_KEY) {
@@ -25,17 +31,9 @@ export async function sendEmailOTP(email: string, code: string): Promise<void> {
     },
     body: JSON.stringify({
       from: "TraderAgent Elite <noreply@yourdomain.com>",
-      to: email,
-      subject: "Your Login Code",
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Your Login Code</h2>
-          <p>Your verification code is:</p>
-          <h1 style="background: #f4f4f4; padding: 20px; text-align: center; font-size: 32px; letter-spacing: 5px;">${code}</h1>
-          <p>This code will expire in 10 minutes.</p>
-          <p>If you didn't request this code, please ignore this email.</p>
-        </div>
-      `,
+      to,
+      subject,
+      html,
     }),
   });
 
@@ -45,6 +43,19 @@ export async function sendEmailOTP(email: string, code: string): Promise<void> {
   }
 }
 
+// Send Email OTP (via Resend)
+export async function sendEmailOTP(email: string, code: string, subject: string = "Your Login Code"): Promise<void> {
+  await sendEmail(email, subject, `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${subject}</h2>
+          <p>Your verification code is:</p>
+          <h1 style="background: #f4f4f4; padding: 20px; text-align: center; font-size: 32px; letter-spacing: 5px;">${code}</h1>
+          <p>This code will expire in 10 minutes.</p>
+          <p>If you didn't request this code, please ignore this email.</p>
+        </div>
+      `);
+}
+
 // Send Phone OTP (via Twilio)
 export async function sendPhoneOTP(phone: string, code: string): Promise<void> {
   const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID;
@@ -81,8 +92,9 @@ export async function sendPhoneOTP(phone: string, code: string): Promise<void> {
 export async function storeOTP(
   identifier: string,
   code: string,
-  type: "email" | "phone",
-  userId?: string
+  type: OTPType,
+  userId?: string,
+  scope?: string
 ): Promise<void> {
   const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
@@ -91,43 +103,37 @@ export async function storeOTP(
     identifier,
     code,
     type,
+    scope: scope ?? null,
     expiresAt,
   });
 }
 
-// Verify OTP code
+// Verify OTP code; a scoped code only verifies for the same scope. Claiming the code and
+// checking it is one update, so a code can't be used twice by concurrent requests.
 export async function verifyOTP(
   identifier: string,
   code: string,
-  type: "email" | "phone"
+  type: OTPType,
+  scope?: string
 ): Promise<boolean> {
   const now = new Date();
 
-  const [otpRecord] = await db
-    .select()
-    .from(otpCodes)
+  const claimed = await db
+    .update(otpCodes)
+    .set({ verified: true })
     .where(
       and(
         eq(otpCodes.identifier, identifier),
         eq(otpCodes.code, code),
         eq(otpCodes.type, type),
+        scope === undefined ? isNull(otpCodes.scope) : eq(otpCodes.scope, scope),
         gt(otpCodes.expiresAt, now),
         eq(otpCodes.verified, false)
       )
     )
-    .limit(1);
-
-  if (!otpRecord) {
-    return false;
-  }
+    .returning({ id: otpCodes.id });
 
-  // Mark as verified
-  await db
-    .update(otpCodes)
-    .set({ verified: true })
-    .where(eq(otpCodes.id, otpRecord.id));
-
-  return true;
+  return claimed.length > 0;
 }
 
 // Generate TOTP secret for Google Authenticator
@@ -157,24 +163,27 @@ export async function generateTOTPSecret(userId: string, email: string) {
 
 // Verify TOTP code
 export async function verifyTOTP(userId: string, token: string): Promise<boolean> {
-  const [user] = await db
-    .select()
-    .from(users)
-    .where(eq(users.id, userId))
-    .limit(1);
+  const user = await storage.getUser(userId);
 
   if (!user || !user.totpSecret) {
     return false;
   }
 
-  const verified = speakeasy.totp.verify({
+  const time = Math.floor(Date.now() / 1000);
+  const match = speakeasy.totp.verifyDelta({
     secret: user.totpSecret,
     encoding: "base32",
     token,
+    time,
     window: 2, // Allow 2 time steps before/after (60 seconds tolerance)
   });
+  if (!match) {
+    return false;
+  }
 
-  return verified;
+  // Spend the code's step and every earlier one, so a captured code can't be replayed
+  // while it is still inside the window
+  return storage.claimTotpStep(userId, Math.floor(time / TOTP_STEP_SECONDS) + match.delta);
 }
 
 // Enable TOTP after verification
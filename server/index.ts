@@ -1,7 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { startPriceMonitoring } from "./services/priceMonitoring";
+import { stopLossTakeProfitMonitor } from "./services/priceMonitoring";
 import { alertMonitoringService } from "./services/alertMonitoring";
+import { orderMatchingService } from "./services/orderMatching";
+import { marginMonitor } from "./services/marginMonitor";
+import { liveOrderReconciler } from "./services/liveOrderReconciliation";
+import { equityTracker } from "./services/equityHistory";
+import { riskSupervisor } from "./services/riskSupervisor";
+import { notificationService } from "./services/notifications";
 
 const app = express();
 app.use(express.json());
@@ -77,10 +83,39 @@ app.use((req, res, next) => {
     }, () => {
       console.log(`serving on port ${port}`);
       
-      // Start automatic stop-loss/take-profit monitoring for demo user
-      startPriceMonitoring("demo-user-123", 5000);
-      console.log(`Price monitoring started - checking SL/TP every 5 seconds`);
+      // Start automatic stop-loss/take-profit enforcement for every wallet
+      stopLossTakeProfitMonitor.start().catch((error) => {
+        console.error("Failed to start SL/TP monitoring:", error);
+      });
+
+      // Start matching pending paper limit/stop/trailing/OCO orders against price ticks
+      orderMatchingService.start().catch((error) => {
+        console.error("Failed to start order matching:", error);
+      });
+
+      // Start borrow interest accrual and liquidation checks for margin positions
+      marginMonitor.start().catch((error) => {
+        console.error("Failed to start margin monitoring:", error);
+      });
+      
+      // Start reconciling live exchange orders that are still working
+      liveOrderReconciler.start().catch((error) => {
+        console.error("Failed to start live order reconciliation:", error);
+      });
+
+      // Start marking paper portfolios to market for Risk Guard's loss limits
+      equityTracker.start().catch((error) => {
+        console.error("Failed to start equity tracking:", error);
+      });
+
+      // Start evaluating Risk Guard limits on a schedule: auto-pause, auto-resume and the hard stop
+      riskSupervisor.start().catch((error) => {
+        console.error("Failed to start risk supervision:", error);
+      });
       
+      // Start sending notifications that quiet hours held back
+      notificationService.start();
+
       // Start alert monitoring for price alerts
       alertMonitoringService.startMonitoring(10000);
       console.log(`Alert monitoring started - checking price alerts every 10 seconds`);
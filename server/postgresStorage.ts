@@ -1,13 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { db } from "./db";
-import { eq, desc, and, lt } from "drizzle-orm";
+import { eq, desc, asc, and, lt, gt, gte, or, inArray, isNull, isNotNull, count, max, sum, sql } from "drizzle-orm";
 import {
   users,
   trades,
   paperWallets,
   paperPositions,
   paperOrders,
+  paperPortfolioSnapshots,
+  paperEquityHistory,
+  paperTaxLots,
+  paperRealizedPnl,
+  paperOrderRequests,
   aiBriefings,
   riskGuardSettings,
+  riskGuardEvents,
+  notifications,
+  notificationPreferences,
+  notificationDeliveries,
+  strategyPerformance,
   aiTradeSuggestions,
   marketSentiment,
   tradingPatterns,
@@ -15,6 +26,9 @@ import {
   priceAlerts,
   exchangeConnections,
   executionTokens,
+  liveOrders,
+  liveFills,
+  stepUpAudits,
   aiDailyInsights,
   aiAnalysisRuns,
   personalAgents,
@@ -32,10 +46,33 @@ import {
   type InsertPaperPosition,
   type PaperOrder,
   type InsertPaperOrder,
+  type PaperPortfolioSnapshot,
+  type InsertPaperPortfolioSnapshot,
+  type PaperEquityPoint,
+  type InsertPaperEquityPoint,
+  type PaperTaxLot,
+  type InsertPaperTaxLot,
+  type PaperRealizedPnl,
+  type InsertPaperRealizedPnl,
+  type PaperOrderRequest,
+  type InsertPaperOrderRequest,
+  tradingSymbols,
+  type TradingSymbol,
+  type InsertTradingSymbol,
   type AIBriefing,
   type InsertAIBriefing,
   type RiskGuardSettings,
   type InsertRiskGuardSettings,
+  type RiskGuardEvent,
+  type InsertRiskGuardEvent,
+  type Notification,
+  type InsertNotification,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type StrategyPerformance,
+  type InsertStrategyPerformance,
   type AITradeSuggestion,
   type InsertAITradeSuggestion,
   type MarketSentiment,
@@ -50,6 +87,12 @@ import {
   type InsertExchangeConnection,
   type ExecutionToken,
   type InsertExecutionToken,
+  type LiveOrder,
+  type InsertLiveOrder,
+  type LiveFill,
+  type InsertLiveFill,
+  type StepUpAudit,
+  type InsertStepUpAudit,
   type AIDailyInsight,
   type InsertAIDailyInsight,
   type AIAnalysisRun,
@@ -63,37 +106,51 @@ import {
   type AIAgentHealth,
   type InsertAIAgentHealth,
 } from "@shared/schema";
-import type { IStorage } from "./storage";
+import type {
+  IStorage,
+  PaperOrderFill,
+  PaperWalletExecutionModel,
+  PaperWalletDetails,
+  PaperWalletMarginSettings,
+  PaperPositionMarginUpdate,
+} from "./storage";
+
+// Paper fills run as one transaction; storage calls made inside it join that transaction
+const transactionContext = new AsyncLocalStorage<typeof db>();
+
+function conn(): typeof db {
+  return transactionContext.getStore() ?? db;
+}
 
 export class PostgresStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    const result = await conn().select().from(users).where(eq(users.id, id)).limit(1);
     return result[0];
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    const result = await conn().select().from(users).where(eq(users.username, username)).limit(1);
     return result[0];
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    const result = await conn().select().from(users).where(eq(users.email, email)).limit(1);
     return result[0];
   }
 
   async getUserByPhone(phone: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.phone, phone)).limit(1);
+    const result = await conn().select().from(users).where(eq(users.phone, phone)).limit(1);
     return result[0];
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(user).returning();
+    const result = await conn().insert(users).values(user).returning();
     return result[0];
   }
 
   // Replit Auth: Upsert user on login
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const result = await db
+    const result = await conn()
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -108,41 +165,155 @@ export class PostgresStorage implements IStorage {
   }
 
   async updateUserTradingStatus(userId: string, paused: boolean): Promise<void> {
-    await db.update(users).set({ tradingPaused: paused }).where(eq(users.id, userId));
+    await conn().update(users).set({ tradingPaused: paused }).where(eq(users.id, userId));
+  }
+
+  // Records the step of an accepted TOTP code; false when that step (or a later one) was already used
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await conn()
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+      .returning({ id: users.id });
+    return claimed.length > 0;
   }
 
   async getTradesByUserId(userId: string): Promise<Trade[]> {
-    return db.select().from(trades).where(eq(trades.userId, userId)).orderBy(desc(trades.timestamp));
+    return conn().select().from(trades).where(eq(trades.userId, userId)).orderBy(desc(trades.timestamp));
   }
 
   async createTrade(trade: InsertTrade): Promise<Trade> {
-    const result = await db.insert(trades).values(trade).returning();
+    const result = await conn().insert(trades).values(trade).returning();
     return result[0];
   }
 
+  // The user's selected portfolio (oldest one if none is flagged)
   async getPaperWalletByUserId(userId: string): Promise<PaperWallet | undefined> {
-    const result = await db.select().from(paperWallets).where(eq(paperWallets.userId, userId)).limit(1);
+    const result = await conn()
+      .select()
+      .from(paperWallets)
+      .where(eq(paperWallets.userId, userId))
+      .orderBy(desc(paperWallets.isSelected), paperWallets.createdAt)
+      .limit(1);
+    return result[0];
+  }
+
+  async getPaperWalletsByUserId(userId: string): Promise<PaperWallet[]> {
+    return conn()
+      .select()
+      .from(paperWallets)
+      .where(eq(paperWallets.userId, userId))
+      .orderBy(paperWallets.createdAt);
+  }
+
+  async getPaperWalletById(walletId: string): Promise<PaperWallet | undefined> {
+    const result = await conn().select().from(paperWallets).where(eq(paperWallets.id, walletId)).limit(1);
     return result[0];
   }
 
+  // The portfolio each user is trading in
+  async getSelectedPaperWallets(): Promise<PaperWallet[]> {
+    return conn().select().from(paperWallets).where(eq(paperWallets.isSelected, true));
+  }
+
+  /**
+   * Run fn in one transaction holding the wallet row lock. Every balance, position, lot and
+   * order change for the wallet goes through here, so fills on one wallet are serialized.
+   * Nested calls join the outer transaction.
+   */
+  async withPaperWalletLock<T>(walletId: string, fn: (wallet: PaperWallet) => Promise<T>): Promise<T> {
+    const lockAndRun = async () => {
+      const [wallet] = await conn()
+        .select()
+        .from(paperWallets)
+        .where(eq(paperWallets.id, walletId))
+        .for("update");
+      if (!wallet) {
+        throw new Error(`Paper wallet ${walletId} not found`);
+      }
+      return fn(wallet);
+    };
+
+    if (transactionContext.getStore()) {
+      return lockAndRun();
+    }
+    return db.transaction((tx) => transactionContext.run(tx as unknown as typeof db, lockAndRun));
+  }
+
   async createPaperWallet(wallet: InsertPaperWallet): Promise<PaperWallet> {
-    const result = await db.insert(paperWallets).values(wallet).returning();
+    const result = await conn().insert(paperWallets).values(wallet).returning();
+    return result[0];
+  }
+
+  async selectPaperWallet(userId: string, walletId: string): Promise<void> {
+    await conn().transaction(async (tx) => {
+      await tx.update(paperWallets).set({ isSelected: false }).where(eq(paperWallets.userId, userId));
+      await tx
+        .update(paperWallets)
+        .set({ isSelected: true })
+        .where(and(eq(paperWallets.id, walletId), eq(paperWallets.userId, userId)));
+    });
+  }
+
+  async updatePaperWalletDetails(walletId: string, updates: PaperWalletDetails): Promise<PaperWallet | undefined> {
+    const result = await conn()
+      .update(paperWallets)
+      .set(updates)
+      .where(eq(paperWallets.id, walletId))
+      .returning();
+    return result[0];
+  }
+
+  async resetPaperWallet(walletId: string, balance: string): Promise<PaperWallet | undefined> {
+    const result = await conn()
+      .update(paperWallets)
+      .set({ balance, reservedBalance: "0", lastResetAt: new Date() })
+      .where(eq(paperWallets.id, walletId))
+      .returning();
     return result[0];
   }
 
   async updatePaperWalletBalance(walletId: string, newBalance: string): Promise<void> {
-    await db.update(paperWallets).set({ balance: newBalance }).where(eq(paperWallets.id, walletId));
+    await conn().update(paperWallets).set({ balance: newBalance }).where(eq(paperWallets.id, walletId));
+  }
+
+  async updatePaperWalletReservedBalance(walletId: string, reservedBalance: string): Promise<void> {
+    await conn().update(paperWallets).set({ reservedBalance }).where(eq(paperWallets.id, walletId));
+  }
+
+  async updatePaperWalletExecutionModel(
+    walletId: string,
+    updates: PaperWalletExecutionModel
+  ): Promise<PaperWallet | undefined> {
+    const result = await conn()
+      .update(paperWallets)
+      .set(updates)
+      .where(eq(paperWallets.id, walletId))
+      .returning();
+    return result[0];
+  }
+
+  async updatePaperWalletMarginSettings(
+    walletId: string,
+    updates: PaperWalletMarginSettings
+  ): Promise<PaperWallet | undefined> {
+    const result = await conn()
+      .update(paperWallets)
+      .set(updates)
+      .where(eq(paperWallets.id, walletId))
+      .returning();
+    return result[0];
   }
 
   async getPaperPositionsByWalletId(walletId: string): Promise<PaperPosition[]> {
-    return db.select().from(paperPositions).where(eq(paperPositions.walletId, walletId));
+    return conn().select().from(paperPositions).where(eq(paperPositions.walletId, walletId));
   }
 
   async getPaperPositionByWalletAndSymbol(
     walletId: string,
     symbol: string
   ): Promise<PaperPosition | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(paperPositions)
       .where(and(eq(paperPositions.walletId, walletId), eq(paperPositions.symbol, symbol)))
@@ -150,13 +321,36 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
 
+  // Positions across all wallets that carry a stop-loss or take-profit
+  async getProtectedPaperPositions(symbol?: string): Promise<PaperPosition[]> {
+    const hasProtection = or(isNotNull(paperPositions.stopLoss), isNotNull(paperPositions.takeProfit));
+    return conn()
+      .select()
+      .from(paperPositions)
+      .where(symbol ? and(eq(paperPositions.symbol, symbol), hasProtection) : hasProtection);
+  }
+
+  // Leveraged longs and shorts across all wallets
+  async getMarginPaperPositions(symbol?: string): Promise<PaperPosition[]> {
+    const isMargin = isNotNull(paperPositions.margin);
+    return conn()
+      .select()
+      .from(paperPositions)
+      .where(symbol ? and(eq(paperPositions.symbol, symbol), isMargin) : isMargin);
+  }
+
+  // Open positions in a symbol across all wallets
+  async getPaperPositionsBySymbol(symbol: string): Promise<PaperPosition[]> {
+    return conn().select().from(paperPositions).where(eq(paperPositions.symbol, symbol));
+  }
+
   async createPaperPosition(position: InsertPaperPosition): Promise<PaperPosition> {
-    const result = await db.insert(paperPositions).values(position).returning();
+    const result = await conn().insert(paperPositions).values(position).returning();
     return result[0];
   }
 
   async updatePaperPosition(id: string, quantity: string, avgPrice: string): Promise<void> {
-    await db.update(paperPositions).set({ quantity, avgPrice }).where(eq(paperPositions.id, id));
+    await conn().update(paperPositions).set({ quantity, avgPrice }).where(eq(paperPositions.id, id));
   }
 
   async updatePositionStopLossTakeProfit(
@@ -164,23 +358,31 @@ export class PostgresStorage implements IStorage {
     stopLoss: string | null,
     takeProfit: string | null
   ): Promise<void> {
-    await db
+    await conn()
       .update(paperPositions)
       .set({ stopLoss, takeProfit })
       .where(eq(paperPositions.id, id));
   }
 
+  async updatePaperPositionReservedQuantity(id: string, reservedQuantity: string): Promise<void> {
+    await conn().update(paperPositions).set({ reservedQuantity }).where(eq(paperPositions.id, id));
+  }
+
+  async updatePaperPositionMargin(id: string, updates: PaperPositionMarginUpdate): Promise<void> {
+    await conn().update(paperPositions).set(updates).where(eq(paperPositions.id, id));
+  }
+
   async deletePaperPosition(id: string): Promise<void> {
-    await db.delete(paperPositions).where(eq(paperPositions.id, id));
+    await conn().delete(paperPositions).where(eq(paperPositions.id, id));
   }
 
   async createPaperOrder(order: InsertPaperOrder): Promise<PaperOrder> {
-    const result = await db.insert(paperOrders).values(order).returning();
+    const result = await conn().insert(paperOrders).values(order).returning();
     return result[0];
   }
 
   async getPaperOrdersByWalletId(walletId: string): Promise<PaperOrder[]> {
-    return db.select().from(paperOrders).where(eq(paperOrders.walletId, walletId)).orderBy(desc(paperOrders.timestamp));
+    return conn().select().from(paperOrders).where(eq(paperOrders.walletId, walletId)).orderBy(desc(paperOrders.timestamp));
   }
 
   async getPaperOrdersByUserId(userId: string): Promise<PaperOrder[]> {
@@ -192,12 +394,12 @@ export class PostgresStorage implements IStorage {
   }
 
   async createAIBriefing(briefing: InsertAIBriefing): Promise<AIBriefing> {
-    const result = await db.insert(aiBriefings).values(briefing).returning();
+    const result = await conn().insert(aiBriefings).values(briefing).returning();
     return result[0];
   }
 
   async getLatestBriefingByUserId(userId: string): Promise<AIBriefing | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiBriefings)
       .where(eq(aiBriefings.userId, userId))
@@ -207,7 +409,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getAllBriefingsByUserId(userId: string): Promise<AIBriefing[]> {
-    return db
+    return conn()
       .select()
       .from(aiBriefings)
       .where(eq(aiBriefings.userId, userId))
@@ -215,7 +417,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getRiskGuardSettings(userId: string): Promise<RiskGuardSettings | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(riskGuardSettings)
       .where(eq(riskGuardSettings.userId, userId))
@@ -224,12 +426,12 @@ export class PostgresStorage implements IStorage {
   }
 
   async createRiskGuardSettings(settings: InsertRiskGuardSettings): Promise<RiskGuardSettings> {
-    const result = await db.insert(riskGuardSettings).values(settings).returning();
+    const result = await conn().insert(riskGuardSettings).values(settings).returning();
     return result[0];
   }
 
   async updateRiskGuardSettings(userId: string, updates: Partial<RiskGuardSettings>): Promise<RiskGuardSettings | undefined> {
-    const result = await db
+    const result = await conn()
       .update(riskGuardSettings)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(riskGuardSettings.userId, userId))
@@ -238,33 +440,303 @@ export class PostgresStorage implements IStorage {
   }
 
   async updateRiskGuardCooldown(userId: string, cooldownEndTime: Date | null): Promise<void> {
-    await db
+    await conn()
       .update(riskGuardSettings)
       .set({ cooldownEndTime, updatedAt: new Date() })
       .where(eq(riskGuardSettings.userId, userId));
   }
 
+  // Accounts with Risk Guard on, plus any still held by an automatic pause
+  async getSupervisedRiskGuardSettings(): Promise<RiskGuardSettings[]> {
+    return conn()
+      .select()
+      .from(riskGuardSettings)
+      .where(or(eq(riskGuardSettings.autoPauseEnabled, true), isNotNull(riskGuardSettings.autoPausedBy)));
+  }
+
+  async createRiskGuardEvent(event: InsertRiskGuardEvent): Promise<RiskGuardEvent> {
+    const result = await conn().insert(riskGuardEvents).values(event).returning();
+    return result[0];
+  }
+
+  // Newest first
+  async getRiskGuardEvents(userId: string, limit: number): Promise<RiskGuardEvent[]> {
+    return conn()
+      .select()
+      .from(riskGuardEvents)
+      .where(eq(riskGuardEvents.userId, userId))
+      .orderBy(desc(riskGuardEvents.createdAt))
+      .limit(limit);
+  }
+
+  async getLatestRiskGuardEvent(userId: string, action: string): Promise<RiskGuardEvent | undefined> {
+    const result = await conn()
+      .select()
+      .from(riskGuardEvents)
+      .where(and(eq(riskGuardEvents.userId, userId), eq(riskGuardEvents.action, action)))
+      .orderBy(desc(riskGuardEvents.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
   async getPaperOrderById(orderId: string): Promise<PaperOrder | undefined> {
-    const result = await db.select().from(paperOrders).where(eq(paperOrders.id, orderId)).limit(1);
+    const result = await conn().select().from(paperOrders).where(eq(paperOrders.id, orderId)).limit(1);
     return result[0];
   }
 
   async cancelPaperOrder(orderId: string): Promise<void> {
-    await db.update(paperOrders).set({ status: "cancelled" }).where(eq(paperOrders.id, orderId));
+    await conn().update(paperOrders).set({ status: "cancelled" }).where(eq(paperOrders.id, orderId));
+  }
+
+  async updatePaperOrder(orderId: string, quantity: string, price: string, reservedAmount?: string): Promise<void> {
+    await conn()
+      .update(paperOrders)
+      .set(reservedAmount !== undefined ? { quantity, price, reservedAmount } : { quantity, price })
+      .where(eq(paperOrders.id, orderId));
+  }
+
+  async getPendingPaperOrders(symbol?: string): Promise<PaperOrder[]> {
+    const conditions = [eq(paperOrders.status, "pending")];
+    if (symbol) {
+      conditions.push(eq(paperOrders.symbol, symbol));
+    }
+    return conn()
+      .select()
+      .from(paperOrders)
+      .where(and(...conditions))
+      .orderBy(paperOrders.timestamp);
+  }
+
+  // Only applies to a pending order whose filled quantity is unchanged, so two ticks racing
+  // on the same order record each fill once
+  async fillPaperOrder(orderId: string, previousFilledQuantity: string, fill: PaperOrderFill): Promise<boolean> {
+    const { complete, ...totals } = fill;
+    const result = await conn()
+      .update(paperOrders)
+      .set({ ...totals, status: complete ? "completed" : "pending", filledAt: new Date() })
+      .where(and(
+        eq(paperOrders.id, orderId),
+        eq(paperOrders.status, "pending"),
+        eq(paperOrders.filledQuantity, previousFilledQuantity)
+      ))
+      .returning({ id: paperOrders.id });
+    return result.length > 0;
+  }
+
+  async markPaperOrderTriggered(orderId: string): Promise<void> {
+    await conn().update(paperOrders).set({ triggeredAt: new Date() }).where(eq(paperOrders.id, orderId));
+  }
+
+  async updatePaperOrderTrailingStop(orderId: string, highWaterMark: string, stopPrice: string): Promise<void> {
+    await conn()
+      .update(paperOrders)
+      .set({ highWaterMark, stopPrice })
+      .where(eq(paperOrders.id, orderId));
+  }
+
+  async getPaperOrdersByOcoGroup(ocoGroupId: string): Promise<PaperOrder[]> {
+    return conn().select().from(paperOrders).where(eq(paperOrders.ocoGroupId, ocoGroupId));
+  }
+
+  async createPaperPortfolioSnapshot(snapshot: InsertPaperPortfolioSnapshot): Promise<PaperPortfolioSnapshot> {
+    const result = await conn().insert(paperPortfolioSnapshots).values(snapshot).returning();
+    return result[0];
+  }
+
+  async getPaperPortfolioSnapshots(walletId: string): Promise<PaperPortfolioSnapshot[]> {
+    return conn()
+      .select()
+      .from(paperPortfolioSnapshots)
+      .where(eq(paperPortfolioSnapshots.walletId, walletId))
+      .orderBy(desc(paperPortfolioSnapshots.createdAt));
+  }
+
+  async createPaperEquityPoint(point: InsertPaperEquityPoint): Promise<PaperEquityPoint> {
+    const result = await conn().insert(paperEquityHistory).values(point).returning();
+    return result[0];
+  }
+
+  async getPaperEquityHistory(walletId: string, since: Date): Promise<PaperEquityPoint[]> {
+    return conn()
+      .select()
+      .from(paperEquityHistory)
+      .where(and(eq(paperEquityHistory.walletId, walletId), gte(paperEquityHistory.recordedAt, since)))
+      .orderBy(asc(paperEquityHistory.recordedAt));
+  }
+
+  async getLastPaperEquityPointBefore(walletId: string, before: Date): Promise<PaperEquityPoint | undefined> {
+    const result = await conn()
+      .select()
+      .from(paperEquityHistory)
+      .where(and(eq(paperEquityHistory.walletId, walletId), lt(paperEquityHistory.recordedAt, before)))
+      .orderBy(desc(paperEquityHistory.recordedAt))
+      .limit(1);
+    return result[0];
   }
 
-  async updatePaperOrder(orderId: string, quantity: string, price: string): Promise<void> {
-    await db.update(paperOrders).set({ quantity, price }).where(eq(paperOrders.id, orderId));
+  async getFirstPaperEquityPointSince(walletId: string, since: Date): Promise<PaperEquityPoint | undefined> {
+    const result = await conn()
+      .select()
+      .from(paperEquityHistory)
+      .where(and(eq(paperEquityHistory.walletId, walletId), gte(paperEquityHistory.recordedAt, since)))
+      .orderBy(asc(paperEquityHistory.recordedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getPaperEquityPeak(walletId: string, since: Date): Promise<number | null> {
+    const result = await conn()
+      .select({ peak: max(paperEquityHistory.equity) })
+      .from(paperEquityHistory)
+      .where(and(eq(paperEquityHistory.walletId, walletId), gte(paperEquityHistory.recordedAt, since)));
+    return result[0]?.peak ? parseFloat(result[0].peak) : null;
+  }
+
+  async createPaperTaxLot(lot: InsertPaperTaxLot): Promise<PaperTaxLot> {
+    const result = await conn().insert(paperTaxLots).values(lot).returning();
+    return result[0];
+  }
+
+  // Oldest first; callers walk the list backwards for LIFO
+  async getOpenPaperTaxLots(walletId: string, symbol: string, side: string): Promise<PaperTaxLot[]> {
+    return conn()
+      .select()
+      .from(paperTaxLots)
+      .where(
+        and(
+          eq(paperTaxLots.walletId, walletId),
+          eq(paperTaxLots.symbol, symbol),
+          eq(paperTaxLots.side, side),
+          isNull(paperTaxLots.closedAt)
+        )
+      )
+      .orderBy(asc(paperTaxLots.openedAt), asc(paperTaxLots.id));
+  }
+
+  async updatePaperTaxLotRemaining(lotId: string, remainingQuantity: string): Promise<void> {
+    await conn()
+      .update(paperTaxLots)
+      .set({
+        remainingQuantity,
+        closedAt: parseFloat(remainingQuantity) <= 0 ? new Date() : null,
+      })
+      .where(eq(paperTaxLots.id, lotId));
+  }
+
+  async deleteOpenPaperTaxLots(walletId: string): Promise<void> {
+    await conn()
+      .delete(paperTaxLots)
+      .where(and(eq(paperTaxLots.walletId, walletId), isNull(paperTaxLots.closedAt)));
+  }
+
+  async createPaperRealizedPnl(entries: InsertPaperRealizedPnl[]): Promise<PaperRealizedPnl[]> {
+    if (entries.length === 0) return [];
+    return conn().insert(paperRealizedPnl).values(entries).returning();
+  }
+
+  async getPaperRealizedPnlByUserId(userId: string, since?: Date): Promise<PaperRealizedPnl[]> {
+    return conn()
+      .select()
+      .from(paperRealizedPnl)
+      .where(
+        since
+          ? and(eq(paperRealizedPnl.userId, userId), gte(paperRealizedPnl.closedAt, since))
+          : eq(paperRealizedPnl.userId, userId)
+      )
+      .orderBy(asc(paperRealizedPnl.closedAt));
+  }
+
+  async claimPaperOrderRequest(request: InsertPaperOrderRequest): Promise<PaperOrderRequest | undefined> {
+    const result = await conn()
+      .insert(paperOrderRequests)
+      .values(request)
+      .onConflictDoNothing({ target: [paperOrderRequests.userId, paperOrderRequests.idempotencyKey] })
+      .returning();
+    return result[0];
+  }
+
+  async getPaperOrderRequest(userId: string, idempotencyKey: string): Promise<PaperOrderRequest | undefined> {
+    const result = await conn()
+      .select()
+      .from(paperOrderRequests)
+      .where(and(eq(paperOrderRequests.userId, userId), eq(paperOrderRequests.idempotencyKey, idempotencyKey)))
+      .limit(1);
+    return result[0];
+  }
+
+  async completePaperOrderRequest(id: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await conn()
+      .update(paperOrderRequests)
+      .set({ status: "completed", responseStatus, responseBody, completedAt: new Date() })
+      .where(eq(paperOrderRequests.id, id));
+  }
+
+  async deletePaperOrderRequest(id: string): Promise<void> {
+    await conn().delete(paperOrderRequests).where(eq(paperOrderRequests.id, id));
+  }
+
+  async getTradingSymbols(): Promise<TradingSymbol[]> {
+    return conn().select().from(tradingSymbols).orderBy(asc(tradingSymbols.symbol));
+  }
+
+  // Inserts symbols that don't exist yet; existing rows (including delisted ones) are left alone
+  async seedTradingSymbols(symbols: InsertTradingSymbol[]): Promise<void> {
+    if (symbols.length === 0) return;
+    await conn().insert(tradingSymbols).values(symbols).onConflictDoNothing({ target: tradingSymbols.symbol });
+  }
+
+  // Adds a symbol, or relists a delisted one with the new settings
+  async upsertTradingSymbol(symbol: InsertTradingSymbol): Promise<TradingSymbol> {
+    const { symbol: _key, ...updates } = symbol;
+    const result = await conn()
+      .insert(tradingSymbols)
+      .values(symbol)
+      .onConflictDoUpdate({
+        target: tradingSymbols.symbol,
+        set: { ...updates, status: "active", delistedAt: null, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async delistTradingSymbol(symbol: string): Promise<TradingSymbol | undefined> {
+    const now = new Date();
+    const result = await conn()
+      .update(tradingSymbols)
+      .set({ status: "delisted", delistedAt: now, updatedAt: now })
+      .where(eq(tradingSymbols.symbol, symbol))
+      .returning();
+    return result[0];
+  }
+
+  async getPaperRealizedPnlByWalletId(walletId: string, since?: Date): Promise<PaperRealizedPnl[]> {
+    return conn()
+      .select()
+      .from(paperRealizedPnl)
+      .where(
+        since
+          ? and(eq(paperRealizedPnl.walletId, walletId), gte(paperRealizedPnl.closedAt, since))
+          : eq(paperRealizedPnl.walletId, walletId)
+      )
+      .orderBy(asc(paperRealizedPnl.closedAt));
+  }
+
+  async sumPaperRealizedPnl(walletId: string, since: Date): Promise<number> {
+    const result = await conn()
+      .select({ total: sum(paperRealizedPnl.realizedPnl) })
+      .from(paperRealizedPnl)
+      .where(and(eq(paperRealizedPnl.walletId, walletId), gte(paperRealizedPnl.closedAt, since)));
+    return parseFloat(result[0]?.total ?? "0");
   }
 
   // AI Trade Suggestions
   async createAITradeSuggestion(suggestion: InsertAITradeSuggestion): Promise<AITradeSuggestion> {
-    const result = await db.insert(aiTradeSuggestions).values(suggestion).returning();
+    const result = await conn().insert(aiTradeSuggestions).values(suggestion).returning();
     return result[0];
   }
 
   async getActiveSuggestionsByUserId(userId: string): Promise<AITradeSuggestion[]> {
-    return await db
+    return await conn()
       .select()
       .from(aiTradeSuggestions)
       .where(and(eq(aiTradeSuggestions.userId, userId), eq(aiTradeSuggestions.status, "active")))
@@ -272,26 +744,31 @@ export class PostgresStorage implements IStorage {
   }
 
   async getAllSuggestionsByUserId(userId: string): Promise<AITradeSuggestion[]> {
-    return await db
+    return await conn()
       .select()
       .from(aiTradeSuggestions)
       .where(eq(aiTradeSuggestions.userId, userId))
       .orderBy(desc(aiTradeSuggestions.timestamp));
   }
 
+  async getAITradeSuggestionById(id: string): Promise<AITradeSuggestion | undefined> {
+    const result = await conn().select().from(aiTradeSuggestions).where(eq(aiTradeSuggestions.id, id)).limit(1);
+    return result[0];
+  }
+
   async updateSuggestionStatus(id: string, status: string): Promise<void> {
-    await db.update(aiTradeSuggestions).set({ status }).where(eq(aiTradeSuggestions.id, id));
+    await conn().update(aiTradeSuggestions).set({ status }).where(eq(aiTradeSuggestions.id, id));
   }
 
   // Market Sentiment
   async createMarketSentiment(sentiment: InsertMarketSentiment): Promise<MarketSentiment> {
-    const result = await db.insert(marketSentiment).values(sentiment).returning();
+    const result = await conn().insert(marketSentiment).values(sentiment).returning();
     return result[0];
   }
 
   async getRecentMarketSentiment(symbol: string, minutesAgo: number): Promise<MarketSentiment | undefined> {
     const cutoffTime = new Date(Date.now() - minutesAgo * 60 * 1000);
-    const result = await db
+    const result = await conn()
       .select()
       .from(marketSentiment)
       .where(and(eq(marketSentiment.symbol, symbol)))
@@ -305,7 +782,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getLatestSentimentBySymbol(symbol: string): Promise<MarketSentiment | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(marketSentiment)
       .where(eq(marketSentiment.symbol, symbol))
@@ -330,12 +807,12 @@ export class PostgresStorage implements IStorage {
 
   // Trading Patterns
   async createTradingPattern(pattern: InsertTradingPattern): Promise<TradingPattern> {
-    const result = await db.insert(tradingPatterns).values(pattern).returning();
+    const result = await conn().insert(tradingPatterns).values(pattern).returning();
     return result[0];
   }
 
   async getPatternsByUserId(userId: string): Promise<TradingPattern[]> {
-    return await db
+    return await conn()
       .select()
       .from(tradingPatterns)
       .where(eq(tradingPatterns.userId, userId))
@@ -343,7 +820,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async updatePatternFrequency(id: string, frequency: number, lastOccurrence: Date): Promise<void> {
-    await db
+    await conn()
       .update(tradingPatterns)
       .set({ frequency, lastOccurrence })
       .where(eq(tradingPatterns.id, id));
@@ -351,12 +828,12 @@ export class PostgresStorage implements IStorage {
 
   // Watchlist
   async addToWatchlist(item: InsertWatchlist): Promise<Watchlist> {
-    const result = await db.insert(watchlist).values(item).returning();
+    const result = await conn().insert(watchlist).values(item).returning();
     return result[0];
   }
 
   async getWatchlistByUserId(userId: string): Promise<Watchlist[]> {
-    return await db
+    return await conn()
       .select()
       .from(watchlist)
       .where(eq(watchlist.userId, userId))
@@ -364,11 +841,11 @@ export class PostgresStorage implements IStorage {
   }
 
   async removeFromWatchlist(id: string): Promise<void> {
-    await db.delete(watchlist).where(eq(watchlist.id, id));
+    await conn().delete(watchlist).where(eq(watchlist.id, id));
   }
 
   async getWatchlistItem(userId: string, symbol: string): Promise<Watchlist | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(watchlist)
       .where(and(eq(watchlist.userId, userId), eq(watchlist.symbol, symbol)))
@@ -377,7 +854,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getWatchlistItemById(id: string): Promise<Watchlist | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(watchlist)
       .where(eq(watchlist.id, id))
@@ -387,42 +864,225 @@ export class PostgresStorage implements IStorage {
 
   // Price Alerts
   async createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert> {
-    const result = await db.insert(priceAlerts).values(alert).returning();
+    const result = await conn().insert(priceAlerts).values(alert).returning();
     return result[0];
   }
 
   async getPriceAlertsByUserId(userId: string): Promise<PriceAlert[]> {
-    return await db
+    return await conn()
       .select()
       .from(priceAlerts)
       .where(eq(priceAlerts.userId, userId))
       .orderBy(desc(priceAlerts.createdAt));
   }
 
+  // Repeating alerts stay active after they fire; one-shot alerts are deactivated
   async getActivePriceAlerts(): Promise<PriceAlert[]> {
-    return await db
+    return await conn()
       .select()
       .from(priceAlerts)
-      .where(and(eq(priceAlerts.isActive, true), eq(priceAlerts.triggered, false)));
+      .where(eq(priceAlerts.isActive, true));
   }
 
   async updatePriceAlert(id: string, updates: Partial<PriceAlert>): Promise<void> {
-    await db.update(priceAlerts).set(updates).where(eq(priceAlerts.id, id));
+    await conn().update(priceAlerts).set(updates).where(eq(priceAlerts.id, id));
   }
 
   async deletePriceAlert(id: string): Promise<void> {
-    await db.delete(priceAlerts).where(eq(priceAlerts.id, id));
+    await conn().delete(priceAlerts).where(eq(priceAlerts.id, id));
   }
 
-  async triggerPriceAlert(id: string): Promise<void> {
-    await db
+  async triggerPriceAlert(id: string, keepActive: boolean): Promise<void> {
+    await conn()
       .update(priceAlerts)
-      .set({ triggered: true, triggeredAt: new Date(), isActive: false })
+      .set({
+        triggered: true,
+        triggeredAt: new Date(),
+        triggerCount: sql`${priceAlerts.triggerCount} + 1`,
+        armed: false,
+        isActive: keepActive,
+      })
       .where(eq(priceAlerts.id, id));
   }
 
+  async rearmPriceAlert(id: string): Promise<void> {
+    await conn().update(priceAlerts).set({ armed: true }).where(eq(priceAlerts.id, id));
+  }
+
+  async deactivateExpiredPriceAlerts(now: Date): Promise<number> {
+    const result = await conn()
+      .update(priceAlerts)
+      .set({ isActive: false })
+      .where(and(eq(priceAlerts.isActive, true), lt(priceAlerts.expiresAt, now)))
+      .returning({ id: priceAlerts.id });
+    return result.length;
+  }
+
+  async getPriceAlertByDrawingId(userId: string, drawingId: string): Promise<PriceAlert | undefined> {
+    const result = await conn()
+      .select()
+      .from(priceAlerts)
+      .where(and(eq(priceAlerts.userId, userId), eq(priceAlerts.drawingId, drawingId)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Notifications
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await conn().insert(notifications).values(notification).returning();
+    return result[0];
+  }
+
+  async getRecentNotificationByDedupeKey(userId: string, dedupeKey: string, since: Date): Promise<Notification | undefined> {
+    const result = await conn()
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.dedupeKey, dedupeKey),
+        gte(notifications.createdAt, since)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  // Newest first
+  async getNotifications(userId: string, limit: number, unreadOnly: boolean): Promise<Notification[]> {
+    return conn()
+      .select()
+      .from(notifications)
+      .where(unreadOnly
+        ? and(eq(notifications.userId, userId), isNull(notifications.readAt))
+        : eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const result = await conn()
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result[0]?.count ?? 0;
+  }
+
+  async markNotificationRead(userId: string, id: string): Promise<Notification | undefined> {
+    const result = await conn()
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning();
+    if (result[0]) return result[0];
+
+    // Already read: return it unchanged
+    const existing = await conn()
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .limit(1);
+    return existing[0];
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await conn()
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const result = await conn()
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId))
+      .limit(1);
+    return result[0];
+  }
+
+  async upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const result = await conn()
+      .insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const result = await conn().insert(notificationDeliveries).values(delivery).returning();
+    return result[0];
+  }
+
+  // Newest first
+  async getNotificationDeliveries(userId: string, limit: number): Promise<NotificationDelivery[]> {
+    return conn()
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.userId, userId))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getUserIdsWithHeldNotificationDeliveries(): Promise<string[]> {
+    const rows = await conn()
+      .selectDistinct({ userId: notificationDeliveries.userId })
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.status, "held"));
+    return rows.map(row => row.userId);
+  }
+
+  // Oldest first, with the notification each one delivers
+  async getHeldNotificationDeliveries(userId: string): Promise<{ delivery: NotificationDelivery; notification: Notification }[]> {
+    const rows = await conn()
+      .select()
+      .from(notificationDeliveries)
+      .innerJoin(notifications, eq(notificationDeliveries.notificationId, notifications.id))
+      .where(and(eq(notificationDeliveries.userId, userId), eq(notificationDeliveries.status, "held")))
+      .orderBy(asc(notificationDeliveries.createdAt));
+    return rows.map(row => ({ delivery: row.notification_deliveries, notification: row.notifications }));
+  }
+
+  async updateNotificationDelivery(
+    id: string,
+    updates: Pick<NotificationDelivery, "status" | "transport" | "error" | "attemptedAt">
+  ): Promise<void> {
+    await conn().update(notificationDeliveries).set(updates).where(eq(notificationDeliveries.id, id));
+  }
+
+  // Strategy Performance
+  async createStrategyPerformance(performance: InsertStrategyPerformance): Promise<StrategyPerformance> {
+    const result = await conn().insert(strategyPerformance).values(performance).returning();
+    return result[0];
+  }
+
+  // Newest first
+  async getStrategyPerformances(userId: string, strategyType: string, limit: number): Promise<StrategyPerformance[]> {
+    return conn()
+      .select()
+      .from(strategyPerformance)
+      .where(and(eq(strategyPerformance.userId, userId), eq(strategyPerformance.strategyType, strategyType)))
+      .orderBy(desc(strategyPerformance.createdAt))
+      .limit(limit);
+  }
+
+  async getStrategyPerformanceById(id: string): Promise<StrategyPerformance | undefined> {
+    const result = await conn()
+      .select()
+      .from(strategyPerformance)
+      .where(eq(strategyPerformance.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async deleteStrategyPerformance(id: string): Promise<void> {
+    await conn().delete(strategyPerformance).where(eq(strategyPerformance.id, id));
+  }
+
   async getPriceAlertById(id: string): Promise<PriceAlert | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(priceAlerts)
       .where(eq(priceAlerts.id, id))
@@ -432,20 +1092,25 @@ export class PostgresStorage implements IStorage {
 
   // Exchange Connections
   async createExchangeConnection(connection: InsertExchangeConnection): Promise<ExchangeConnection> {
-    const result = await db.insert(exchangeConnections).values(connection).returning();
+    const result = await conn().insert(exchangeConnections).values(connection).returning();
     return result[0];
   }
 
   async getExchangeConnectionsByUserId(userId: string): Promise<ExchangeConnection[]> {
-    return await db
+    return await conn()
       .select()
       .from(exchangeConnections)
       .where(eq(exchangeConnections.userId, userId))
       .orderBy(desc(exchangeConnections.createdAt));
   }
 
+  async getExchangeConnection(id: string): Promise<ExchangeConnection | undefined> {
+    const result = await conn().select().from(exchangeConnections).where(eq(exchangeConnections.id, id)).limit(1);
+    return result[0];
+  }
+
   async getActiveExchangeConnection(userId: string, exchange: string): Promise<ExchangeConnection | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(exchangeConnections)
       .where(
@@ -460,24 +1125,24 @@ export class PostgresStorage implements IStorage {
   }
 
   async updateExchangeConnection(id: string, updates: Partial<ExchangeConnection>): Promise<void> {
-    await db
+    await conn()
       .update(exchangeConnections)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(exchangeConnections.id, id));
   }
 
   async deleteExchangeConnection(id: string): Promise<void> {
-    await db.delete(exchangeConnections).where(eq(exchangeConnections.id, id));
+    await conn().delete(exchangeConnections).where(eq(exchangeConnections.id, id));
   }
 
   // Execution Tokens
   async createExecutionToken(tokenData: InsertExecutionToken): Promise<ExecutionToken> {
-    const result = await db.insert(executionTokens).values(tokenData).returning();
+    const result = await conn().insert(executionTokens).values(tokenData).returning();
     return result[0];
   }
 
   async getExecutionToken(token: string): Promise<ExecutionToken | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(executionTokens)
       .where(eq(executionTokens.token, token))
@@ -486,26 +1151,132 @@ export class PostgresStorage implements IStorage {
   }
 
   async updateExecutionTokenStatus(token: string, status: string): Promise<void> {
-    await db
+    await conn()
       .update(executionTokens)
       .set({ status })
       .where(eq(executionTokens.token, token));
   }
 
+  // Moves a live, unexpired token from 'pending' to 'executing'; only one caller can win
+  async claimExecutionToken(token: string, userId: string): Promise<boolean> {
+    const claimed = await conn()
+      .update(executionTokens)
+      .set({ status: "executing" })
+      .where(and(
+        eq(executionTokens.token, token),
+        eq(executionTokens.userId, userId),
+        eq(executionTokens.status, "pending"),
+        gt(executionTokens.expiresAt, new Date())
+      ))
+      .returning({ id: executionTokens.id });
+    return claimed.length > 0;
+  }
+
   async cleanExpiredTokens(): Promise<void> {
-    await db
+    await conn()
       .delete(executionTokens)
       .where(lt(executionTokens.expiresAt, new Date()));
   }
 
+  // Live Orders
+  async createLiveOrder(order: InsertLiveOrder): Promise<LiveOrder> {
+    const result = await conn().insert(liveOrders).values(order).returning();
+    return result[0];
+  }
+
+  async getLiveOrder(id: string): Promise<LiveOrder | undefined> {
+    const result = await conn().select().from(liveOrders).where(eq(liveOrders.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getLiveOrderByExchangeId(connectionId: string, symbol: string, exchangeOrderId: string): Promise<LiveOrder | undefined> {
+    const result = await conn()
+      .select()
+      .from(liveOrders)
+      .where(
+        and(
+          eq(liveOrders.connectionId, connectionId),
+          eq(liveOrders.symbol, symbol),
+          eq(liveOrders.exchangeOrderId, exchangeOrderId)
+        )
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async getLiveOrdersByUserId(userId: string): Promise<LiveOrder[]> {
+    return await conn()
+      .select()
+      .from(liveOrders)
+      .where(eq(liveOrders.userId, userId))
+      .orderBy(desc(liveOrders.createdAt));
+  }
+
+  async getOpenLiveOrders(): Promise<LiveOrder[]> {
+    return await conn()
+      .select()
+      .from(liveOrders)
+      .where(inArray(liveOrders.status, ["new", "partially_filled"]))
+      .orderBy(asc(liveOrders.createdAt));
+  }
+
+  async updateLiveOrder(id: string, updates: Partial<LiveOrder>): Promise<void> {
+    await conn()
+      .update(liveOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(liveOrders.id, id));
+  }
+
+  async addLiveFills(fills: InsertLiveFill[]): Promise<LiveFill[]> {
+    if (fills.length === 0) return [];
+    // Fills are re-fetched on every reconciliation; known trade IDs are skipped
+    return conn().insert(liveFills).values(fills).onConflictDoNothing().returning();
+  }
+
+  async getLiveFillsByOrderIds(liveOrderIds: string[]): Promise<LiveFill[]> {
+    if (liveOrderIds.length === 0) return [];
+    return await conn()
+      .select()
+      .from(liveFills)
+      .where(inArray(liveFills.liveOrderId, liveOrderIds))
+      .orderBy(asc(liveFills.executedAt));
+  }
+
+  // Step-up Authentication
+  async createStepUpAudit(audit: InsertStepUpAudit): Promise<StepUpAudit> {
+    const result = await conn().insert(stepUpAudits).values(audit).returning();
+    return result[0];
+  }
+
+  async countStepUpAudits(userId: string, outcome: string, since: Date): Promise<number> {
+    const result = await conn()
+      .select({ count: count() })
+      .from(stepUpAudits)
+      .where(
+        and(
+          eq(stepUpAudits.userId, userId),
+          eq(stepUpAudits.outcome, outcome),
+          gte(stepUpAudits.createdAt, since)
+        )
+      );
+    return result[0]?.count ?? 0;
+  }
+
+  async updateStepUpThreshold(userId: string, thresholdUsd: string): Promise<void> {
+    await conn()
+      .update(users)
+      .set({ stepUpThresholdUsd: thresholdUsd, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
   // AI Daily Insights (Freedom Engine)
   async createAIDailyInsight(insight: InsertAIDailyInsight): Promise<AIDailyInsight> {
-    const result = await db.insert(aiDailyInsights).values(insight).returning();
+    const result = await conn().insert(aiDailyInsights).values(insight).returning();
     return result[0];
   }
 
   async getAIDailyInsights(userId: string): Promise<AIDailyInsight[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiDailyInsights)
       .where(eq(aiDailyInsights.userId, userId))
@@ -515,7 +1286,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getLatestInsightByType(userId: string, insightType: string): Promise<AIDailyInsight | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiDailyInsights)
       .where(
@@ -531,12 +1302,12 @@ export class PostgresStorage implements IStorage {
 
   // AI Timeframe Analysis & Personal Agent (Phase E)
   async createAIAnalysisRun(run: InsertAIAnalysisRun): Promise<AIAnalysisRun> {
-    const result = await db.insert(aiAnalysisRuns).values(run).returning();
+    const result = await conn().insert(aiAnalysisRuns).values(run).returning();
     return result[0];
   }
 
   async getAIAnalysisRuns(userId: string, limit: number = 10): Promise<AIAnalysisRun[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiAnalysisRuns)
       .where(eq(aiAnalysisRuns.userId, userId))
@@ -546,7 +1317,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getPersonalAgent(userId: string): Promise<PersonalAgent | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(personalAgents)
       .where(eq(personalAgents.userId, userId))
@@ -555,24 +1326,24 @@ export class PostgresStorage implements IStorage {
   }
 
   async createPersonalAgent(agent: InsertPersonalAgent): Promise<PersonalAgent> {
-    const result = await db.insert(personalAgents).values(agent).returning();
+    const result = await conn().insert(personalAgents).values(agent).returning();
     return result[0];
   }
 
   async updatePersonalAgent(id: string, updates: Partial<PersonalAgent>): Promise<void> {
-    await db
+    await conn()
       .update(personalAgents)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(personalAgents.id, id));
   }
 
   async createUserSettingsAudit(audit: InsertUserSettingsAudit): Promise<UserSettingsAudit> {
-    const result = await db.insert(userSettingsAudit).values(audit).returning();
+    const result = await conn().insert(userSettingsAudit).values(audit).returning();
     return result[0];
   }
 
   async getUserSettingsAudit(userId: string, limit: number = 20): Promise<UserSettingsAudit[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(userSettingsAudit)
       .where(eq(userSettingsAudit.userId, userId))
@@ -583,12 +1354,12 @@ export class PostgresStorage implements IStorage {
 
   // Phase 3: Personal AI Agent Learning & Decision Support
   async createAIPersonalExample(example: InsertAIPersonalExample): Promise<AIPersonalExample> {
-    const result = await db.insert(aiPersonalExamples).values(example).returning();
+    const result = await conn().insert(aiPersonalExamples).values(example).returning();
     return result[0];
   }
 
   async getAIPersonalExamples(userId: string, limit: number = 50): Promise<AIPersonalExample[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiPersonalExamples)
       .where(eq(aiPersonalExamples.userId, userId))
@@ -598,7 +1369,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getAIPersonalExamplesByContext(userId: string, contextType: string, limit: number = 50): Promise<AIPersonalExample[]> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiPersonalExamples)
       .where(
@@ -618,7 +1389,7 @@ export class PostgresStorage implements IStorage {
     outcomePnL?: string, 
     outcomeNotes?: string
   ): Promise<void> {
-    await db
+    await conn()
       .update(aiPersonalExamples)
       .set({ 
         outcomeTracked: true,
@@ -630,7 +1401,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async getAIAgentHealth(userId: string): Promise<AIAgentHealth | undefined> {
-    const result = await db
+    const result = await conn()
       .select()
       .from(aiAgentHealth)
       .where(eq(aiAgentHealth.userId, userId))
@@ -639,12 +1410,12 @@ export class PostgresStorage implements IStorage {
   }
 
   async createAIAgentHealth(health: InsertAIAgentHealth): Promise<AIAgentHealth> {
-    const result = await db.insert(aiAgentHealth).values(health).returning();
+    const result = await conn().insert(aiAgentHealth).values(health).returning();
     return result[0];
   }
 
   async updateAIAgentHealth(userId: string, updates: Partial<AIAgentHealth>): Promise<void> {
-    await db
+    await conn()
       .update(aiAgentHealth)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(aiAgentHealth.userId, userId));
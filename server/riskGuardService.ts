@@ -1,5 +1,10 @@
 import { storage } from "./storage";
 import type { RiskGuardSettings, PaperWallet, PaperPosition } from "@shared/schema";
+import { equityTracker } from "./services/equityHistory";
+import { riskPolicyEngine } from "./services/riskPolicy";
+import { getClosedTrades } from "./services/taxLots";
+import { userEvents } from "./services/userEvents";
+import { notificationService } from "./services/notifications";
 
 export interface RiskCheckResult {
   allowed: boolean;
@@ -8,266 +13,183 @@ export interface RiskCheckResult {
   violations: string[]; // Critical violations (may block if enforcement enabled)
 }
 
+// Who changed the trading state: the background supervisor, a closing trade, or the user
+export type RiskGuardEventSource = "supervisor" | "trade" | "user";
+export type RiskGuardEventAction = "paused" | "resumed" | "cooldown_started" | "cooldown_ended" | "flattened";
+
+const RISK_NOTIFICATION_TITLES: Partial<Record<RiskGuardEventAction, string>> = {
+  paused: "Risk Guard paused trading",
+  resumed: "Risk Guard resumed trading",
+  cooldown_started: "Risk Guard cooldown started",
+  flattened: "Risk Guard closed your positions",
+};
+
+// The rule holding an automatic pause; loss limit and cooldown pauses lift on their own, a hard stop does not
+export type AutoPauseRule = "loss_limit" | "consecutive_losses" | "hard_stop";
+
 export class RiskGuardService {
   
   /**
-   * Check if an order is allowed based on risk guard settings
+   * Check portfolio-level risk limits (daily and monthly loss, drawdown) with the risk policy engine
+   * Returns warnings by default, only violations if enforcement is enabled
    */
-  async checkOrderAllowed(
+  async checkPortfolioLimits(
     userId: string,
-    symbol: string,
-    side: "buy" | "sell",
-    quantity: string,
-    price: string
+    wallet: PaperWallet,
+    positions: PaperPosition[],
+    settings: RiskGuardSettings
   ): Promise<RiskCheckResult> {
-    const warnings: string[] = [];
-    const violations: string[] = []; // Only blocks if enforcement is enabled
-    
-    // Get risk guard settings (with defaults if not set)
-    const settings = await storage.getRiskGuardSettings(userId);
-    if (!settings || !settings.autoPauseEnabled) {
-      return { allowed: true, warnings: [], violations: [] };
-    }
-
-    // Get wallet and current positions
-    const wallet = await storage.getPaperWalletByUserId(userId);
-    if (!wallet) {
-      return { allowed: false, reason: "Wallet not found", warnings: [], violations: ["Wallet not found"] };
-    }
-
-    const positions = await storage.getPaperPositionsByWalletId(wallet.id);
-    
-    // Check cooldown period (ALWAYS blocks - not optional)
-    if (settings.cooldownEndTime) {
-      const now = new Date();
-      const cooldownEnd = new Date(settings.cooldownEndTime);
-      if (now < cooldownEnd) {
-        const minutesRemaining = Math.ceil((cooldownEnd.getTime() - now.getTime()) / (1000 * 60));
-        violations.push(
-          `Trading is in cooldown period. ${minutesRemaining} minutes remaining after consecutive losses.`
-        );
-      }
-    }
+    const findings = await riskPolicyEngine.evaluatePortfolioLimits(wallet, positions, settings);
+    const violations = findings.filter(f => f.severity === "block").map(f => f.message);
 
-    // Only check buy orders for risk limits (sells reduce risk)
-    if (side === "buy") {
-      // Check max open positions (WARNING only, not enforced)
-      if (positions.length >= (settings.maxOpenPositions || 5)) {
-        const existingSymbolPosition = positions.find(p => p.symbol === symbol);
-        if (!existingSymbolPosition) {
-          warnings.push(`Maximum open positions (${settings.maxOpenPositions}) reached`);
-        }
-      }
-
-      // Check max position size (WARNING only, not enforced)
-      const orderValue = parseFloat(quantity) * parseFloat(price);
-      const walletBalance = parseFloat(wallet.balance);
-      const maxPositionByPercent = walletBalance * (parseFloat(settings.maxPositionSizePercent || "25") / 100);
-      const maxPositionByAmount = parseFloat(settings.maxPositionSizeAmount || "2500");
-      const maxPositionSize = Math.min(maxPositionByPercent, maxPositionByAmount);
-
-      if (orderValue > maxPositionSize) {
-        warnings.push(
-          `Position size $${orderValue.toFixed(2)} exceeds max allowed $${maxPositionSize.toFixed(2)} ` +
-          `(${settings.maxPositionSizePercent}% of portfolio or $${settings.maxPositionSizeAmount})`
-        );
-      }
-      
-      // Check single asset concentration (WARNING only, not enforced)
-      const totalPortfolioValue = positions.reduce((sum, p) => 
-        sum + (parseFloat(p.quantity) * parseFloat(p.avgPrice)), 0) + walletBalance;
-      
-      const existingPosition = positions.find(p => p.symbol === symbol);
-      const existingValue = existingPosition ? parseFloat(existingPosition.quantity) * parseFloat(existingPosition.avgPrice) : 0;
-      const newTotalValue = existingValue + orderValue;
-      const assetConcentration = (newTotalValue / totalPortfolioValue) * 100;
-      const maxSingleAsset = parseFloat(settings.maxSingleAssetPercent || "40");
-      
-      if (assetConcentration > maxSingleAsset) {
-        warnings.push(
-          `${symbol} concentration would be ${assetConcentration.toFixed(1)}%, exceeding max ${maxSingleAsset}% for a single asset`
-        );
-      }
-
-      // Check portfolio-level limits (may warn or block based on enforcement settings)
-      const portfolioCheck = await this.checkPortfolioLimits(userId, wallet, positions, settings);
-      warnings.push(...portfolioCheck.warnings);
-      violations.push(...portfolioCheck.violations);
-    }
-
-    // Only block if there are violations (enforcement-based)
-    // Warnings are informational only
     return {
       allowed: violations.length === 0,
-      reason: violations.length > 0 ? violations[0] : undefined,
-      warnings,
+      reason: violations[0],
+      warnings: findings.filter(f => f.severity === "warn").map(f => f.message),
       violations,
     };
   }
 
   /**
-   * Check portfolio-level risk limits
-   * Returns warnings by default, only violations if enforcement is enabled
+   * Pause trading and record why. With a rule the pause is Risk Guard's own; without one it
+   * is the user's. Returns false when trading was already paused and nothing changed.
    */
-  async checkPortfolioLimits(
+  async pauseTrading(
     userId: string,
-    wallet: PaperWallet,
-    positions: PaperPosition[],
-    settings: RiskGuardSettings
-  ): Promise<RiskCheckResult> {
-    const warnings: string[] = [];
-    const violations: string[] = [];
-    
-    // Calculate total portfolio value
-    const walletBalance = parseFloat(wallet.balance);
-    const initialBalance = 10000; // Default starting balance
-
-    // Get all trades for P&L calculation
-    const trades = await storage.getTradesByUserId(userId);
-    
-    // Calculate daily P&L from trades table
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const todaysTrades = trades.filter(trade => {
-      const tradeDate = new Date(trade.timestamp);
-      tradeDate.setHours(0, 0, 0, 0);
-      return tradeDate.getTime() === today.getTime() && trade.profit !== null;
-    });
+    reason: string,
+    source: RiskGuardEventSource,
+    options: { rule?: AutoPauseRule; walletId?: string; details?: Record<string, unknown> } = {}
+  ): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    if (!user) return false;
 
-    const dailyPnL = todaysTrades.reduce((sum, trade) => sum + parseFloat(trade.profit || "0"), 0);
-    const dailyLossPercent = (dailyPnL / initialBalance) * 100;
-    const dailyLossAmount = Math.abs(dailyPnL);
-
-    // Check max daily loss
-    if (dailyPnL < 0) {
-      const maxDailyLossPercent = parseFloat(settings.maxDailyLossPercent || "10");
-      const maxDailyLossAmount = parseFloat(settings.maxDailyLossAmount || "1000");
-      const enforceDailyLimit = settings.enforceDailyLossLimit || false;
-
-      if (Math.abs(dailyLossPercent) > maxDailyLossPercent) {
-        const message = `Daily loss ${Math.abs(dailyLossPercent).toFixed(2)}% exceeds max ${maxDailyLossPercent}%`;
-        if (enforceDailyLimit) {
-          violations.push(message);
-        } else {
-          warnings.push(message);
-        }
+    const settings = await storage.getRiskGuardSettings(userId);
+    const rule = options.rule ?? null;
+
+    if (user.tradingPaused) {
+      // A hard stop takes over an existing pause so only the user can lift it, and a user
+      // pause takes over one that would otherwise lift on its own
+      const current = settings?.autoPausedBy ?? null;
+      const takesOver = rule === "hard_stop"
+        ? current !== "hard_stop"
+        : rule === null && current !== null && current !== "hard_stop";
+      if (!takesOver) {
+        return false;
       }
+    } else {
+      await storage.updateUserTradingStatus(userId, true);
+    }
 
-      if (dailyLossAmount > maxDailyLossAmount) {
-        const message = `Daily loss $${dailyLossAmount.toFixed(2)} exceeds max $${maxDailyLossAmount}`;
-        if (enforceDailyLimit) {
-          violations.push(message);
-        } else {
-          warnings.push(message);
-        }
-      }
+    if (settings && settings.autoPausedBy !== rule) {
+      await storage.updateRiskGuardSettings(userId, { autoPausedBy: rule });
     }
 
-    // Calculate monthly P&L from trades table
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    startOfMonth.setHours(0, 0, 0, 0);
-    
-    const monthlyTrades = trades.filter(trade => {
-      const tradeDate = new Date(trade.timestamp);
-      return tradeDate >= startOfMonth && trade.profit !== null;
-    });
+    console.log(`[RISK GUARD] Trading paused for user ${userId} (${source}): ${reason}`);
+    await this.recordEvent(userId, "paused", source, reason, options.walletId, options.details);
+    return true;
+  }
 
-    const monthlyPnL = monthlyTrades.reduce((sum, trade) => sum + parseFloat(trade.profit || "0"), 0);
-    const monthlyLossPercent = (monthlyPnL / initialBalance) * 100;
-    const monthlyLossAmount = Math.abs(monthlyPnL);
-
-    // Check max monthly loss
-    if (monthlyPnL < 0) {
-      const maxMonthlyLossPercent = parseFloat(settings.maxMonthlyLossPercent || "25");
-      const maxMonthlyLossAmount = parseFloat(settings.maxMonthlyLossAmount || "5000");
-      const enforceMonthlyLimit = settings.enforceMonthlyLossLimit || false;
-
-      if (Math.abs(monthlyLossPercent) > maxMonthlyLossPercent) {
-        const message = `Monthly loss ${Math.abs(monthlyLossPercent).toFixed(2)}% exceeds max ${maxMonthlyLossPercent}%`;
-        if (enforceMonthlyLimit) {
-          violations.push(message);
-        } else {
-          warnings.push(message);
-        }
-      }
+  /**
+   * Resume trading and record why; clears any automatic pause
+   */
+  async resumeTrading(
+    userId: string,
+    reason: string,
+    source: RiskGuardEventSource,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await storage.updateUserTradingStatus(userId, false);
 
-      if (monthlyLossAmount > maxMonthlyLossAmount) {
-        const message = `Monthly loss $${monthlyLossAmount.toFixed(2)} exceeds max $${maxMonthlyLossAmount}`;
-        if (enforceMonthlyLimit) {
-          violations.push(message);
-        } else {
-          warnings.push(message);
-        }
-      }
+    const settings = await storage.getRiskGuardSettings(userId);
+    if (settings?.autoPausedBy) {
+      await storage.updateRiskGuardSettings(userId, { autoPausedBy: null });
     }
 
-    // Check portfolio drawdown (WARNING only, not enforced)
-    const currentValue = walletBalance;
-    const drawdownPercent = ((initialBalance - currentValue) / initialBalance) * 100;
-    const maxDrawdown = parseFloat(settings.maxPortfolioDrawdownPercent || "20");
+    console.log(`[RISK GUARD] Trading resumed for user ${userId} (${source}): ${reason}`);
+    await this.recordEvent(userId, "resumed", source, reason, undefined, details);
+  }
 
-    if (drawdownPercent > maxDrawdown) {
-      warnings.push(
-        `Portfolio drawdown ${drawdownPercent.toFixed(2)}% exceeds max ${maxDrawdown}%`
-      );
+  async recordEvent(
+    userId: string,
+    action: RiskGuardEventAction,
+    source: RiskGuardEventSource,
+    reason: string,
+    walletId?: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await storage.createRiskGuardEvent({
+      userId,
+      walletId: walletId ?? null,
+      action,
+      source,
+      reason,
+      details: details ?? null,
+    });
+    userEvents.publish(userId, "risk_state", { action, source, reason });
+
+    // Users aren't notified of changes they made themselves, or of cooldowns running out
+    const title = RISK_NOTIFICATION_TITLES[action];
+    if (source !== "user" && title) {
+      await notificationService.notify(userId, {
+        category: "risk",
+        title,
+        body: reason,
+        data: { action, source, walletId: walletId ?? null, ...details },
+        dedupeKey: `risk:${action}:${reason}`,
+        urgent: action === "flattened",
+      });
     }
-
-    return {
-      allowed: violations.length === 0,
-      warnings,
-      violations,
-    };
   }
 
   /**
-   * Auto-pause trading if risk limits are violated
+   * Auto-pause trading if the wallet's risk limits are violated
    */
-  async enforceRiskLimits(userId: string): Promise<void> {
+  async enforceRiskLimits(userId: string, wallet: PaperWallet, source: RiskGuardEventSource = "trade"): Promise<void> {
     const settings = await storage.getRiskGuardSettings(userId);
     if (!settings || !settings.autoPauseEnabled) {
       return;
     }
 
-    const wallet = await storage.getPaperWalletByUserId(userId);
-    if (!wallet) return;
-
     const positions = await storage.getPaperPositionsByWalletId(wallet.id);
     const check = await this.checkPortfolioLimits(userId, wallet, positions, settings);
 
     if (!check.allowed) {
-      console.log(`[RISK GUARD] Auto-pausing trading for user ${userId}: ${check.violations.join(", ")}`);
-      await storage.updateUserTradingStatus(userId, true);
+      await this.pauseTrading(userId, check.violations.join("; "), source, {
+        rule: "loss_limit",
+        walletId: wallet.id,
+        details: { violations: check.violations },
+      });
     }
   }
 
   /**
-   * Check for consecutive losses and trigger cooldown if needed
+   * Check the wallet for consecutive losses and trigger cooldown if needed
    */
-  async checkConsecutiveLosses(userId: string): Promise<void> {
+  async checkConsecutiveLosses(userId: string, wallet: PaperWallet): Promise<void> {
     const settings = await storage.getRiskGuardSettings(userId);
     if (!settings || !settings.autoPauseEnabled) {
       return;
     }
 
-    // Get recent closed orders
-    const orders = await storage.getPaperOrdersByUserId(userId);
-    const closedOrders = orders
-      .filter(o => o.status === 'filled' && o.side === 'sell')
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, 10); // Check last 10 trades
-
-    // Count consecutive losses
+    // Closed trades from the realized P&L ledger, newest first. The streak starts over with the
+    // portfolio period and whenever a cooldown ends or trading is resumed
+    const [cooldownEnded, resumed] = await Promise.all([
+      storage.getLatestRiskGuardEvent(userId, "cooldown_ended"),
+      storage.getLatestRiskGuardEvent(userId, "resumed"),
+    ]);
+    const streakStart = Math.max(
+      new Date(wallet.lastResetAt ?? wallet.createdAt).getTime(),
+      cooldownEnded ? new Date(cooldownEnded.createdAt).getTime() : 0,
+      resumed ? new Date(resumed.createdAt).getTime() : 0
+    );
+    const trades = await getClosedTrades({ walletId: wallet.id }, new Date(streakStart));
+    trades.reverse();
+
+    // Count consecutive losses; a breakeven or winning trade ends the streak
     let consecutiveLosses = 0;
-    for (const order of closedOrders) {
-      // For sell orders, check if closedBy indicates a loss (stop-loss trigger)
-      // Or we can use a simple heuristic based on order type
-      if (order.closedBy === 'stop_loss') {
-        consecutiveLosses++;
-      } else if (order.closedBy === 'take_profit' || order.closedBy === 'manual') {
-        // Assume manual/TP closures are profitable, break the loss streak
-        break;
-      }
+    for (const trade of trades) {
+      if (trade.realizedPnl >= 0) break;
+      consecutiveLosses++;
     }
 
     const maxConsecutiveLosses = settings.maxConsecutiveLosses || 3;
@@ -279,22 +201,47 @@ export class RiskGuardService {
       cooldownEnd.setMinutes(cooldownEnd.getMinutes() + cooldownMinutes);
 
       await storage.updateRiskGuardCooldown(userId, cooldownEnd);
-      await storage.updateUserTradingStatus(userId, true);
 
-      console.log(
-        `[RISK GUARD] ${consecutiveLosses} consecutive losses detected for user ${userId}. ` +
-        `Trading paused for ${cooldownMinutes} minutes until ${cooldownEnd.toISOString()}`
-      );
+      const reason = `${consecutiveLosses} consecutive losses; cooling down for ${cooldownMinutes} minutes`;
+      const details = { consecutiveLosses, cooldownEndTime: cooldownEnd.toISOString() };
+      await this.recordEvent(userId, "cooldown_started", "trade", reason, wallet.id, details);
+      await this.pauseTrading(userId, reason, "trade", { rule: "consecutive_losses", walletId: wallet.id, details });
+    }
+  }
+
+  /**
+   * Feed a closed paper trade into the equity history, the loss streak and the portfolio limits.
+   * Called once the closing fill has committed; never throws.
+   */
+  async recordClosedTrade(userId: string, walletId: string): Promise<void> {
+    try {
+      // The wallet that traded, which need not be the user's selected one
+      const wallet = await storage.getPaperWalletById(walletId);
+      if (!wallet) return;
+
+      await equityTracker.record(wallet, "trade");
+      await this.checkConsecutiveLosses(userId, wallet);
+      await this.enforceRiskLimits(userId, wallet);
+    } catch (error) {
+      console.error(`[RISK GUARD] Failed to check limits after a closed trade for user ${userId}:`, error);
     }
   }
 
   /**
-   * Clear cooldown if time has expired
+   * Feed a margin liquidation into the loss streak and portfolio limit checks
    */
-  async clearExpiredCooldown(userId: string): Promise<void> {
+  async recordLiquidation(userId: string, walletId: string, symbol: string, loss: number): Promise<void> {
+    console.log(`[RISK GUARD] ${symbol} position liquidated for user ${userId} (loss $${loss.toFixed(2)})`);
+    await this.recordClosedTrade(userId, walletId);
+  }
+
+  /**
+   * Clear cooldown if time has expired; returns true when one was cleared
+   */
+  async clearExpiredCooldown(userId: string, source: RiskGuardEventSource = "supervisor"): Promise<boolean> {
     const settings = await storage.getRiskGuardSettings(userId);
     if (!settings?.cooldownEndTime) {
-      return;
+      return false;
     }
 
     const now = new Date();
@@ -302,8 +249,13 @@ export class RiskGuardService {
 
     if (now >= cooldownEnd) {
       await storage.updateRiskGuardCooldown(userId, null);
+      await this.recordEvent(userId, "cooldown_ended", source, "Cooldown period ended", undefined, {
+        cooldownEndTime: cooldownEnd.toISOString(),
+      });
       console.log(`[RISK GUARD] Cooldown period ended for user ${userId}. Trading can resume.`);
+      return true;
     }
+    return false;
   }
 }
 
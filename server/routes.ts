@@ -1,24 +1,59 @@
 import express, { type Express } from "express";
-import { createServer, type Server } from "http";
+import { createServer, type IncomingMessage, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import path from "path";
 import { storage } from "./storage";
-import { insertTradeSchema, insertWatchlistSchema, insertPriceAlertSchema, whatIfSimulations, aiAuditLogs, RiskGuardSettings } from "@shared/schema";
+import { insertTradeSchema, insertWatchlistSchema, insertPriceAlertSchema, whatIfSimulations, aiAuditLogs, RiskGuardSettings, type PriceAlert } from "@shared/schema";
 import { db } from "./db";
-import OpenAI from "openai";
 import { 
   getPaperWalletWithPositions, 
   executeMarketOrder, 
   executeLimitOrder,
+  executeStopOrder,
+  executeOcoOrder,
+  cancelPendingOrder,
+  amendLimitOrder,
+  updateExecutionModel,
+  updateMarginSettings,
   getMarketPrice,
+  getTradablePrice,
   setMarketPrice,
   getAllMarketPrices
 } from "./services/paperTrading";
+import { FEE_TIERS } from "./services/executionModel";
+import {
+  listPortfolios,
+  createPortfolio,
+  selectPortfolio,
+  updatePortfolio,
+  resetPortfolio,
+  snapshotPortfolio,
+  getPortfolioSnapshots,
+} from "./services/paperPortfolios";
+import { getEquityHistory } from "./services/equityHistory";
+import { MAX_LEVERAGE } from "./services/marginTrading";
+import { claimOrderRequest, completeOrderRequest } from "./services/orderIdempotency";
+import { orderMatchingService } from "./services/orderMatching";
+import { marginMonitor } from "./services/marginMonitor";
+import { stopLossTakeProfitMonitor } from "./services/priceMonitoring";
+import { alertMonitoringService } from "./services/alertMonitoring";
+import { notificationService, isValidTimeZone } from "./services/notifications";
+import { checkWebhookUrl } from "./services/notificationTransports";
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_CHANNELS } from "@shared/notifications";
+import { alertExpressionSchema, ALERT_REPEAT_MODES, PORTFOLIO_ALERT_SYMBOL } from "@shared/alertConditions";
+import { strategyDefinitionSchema } from "@shared/backtest";
+import { runBacktest, BACKTEST_STRATEGY_TYPE } from "./services/backtester";
+import { aiGateway } from "./services/aiGateway";
 import { generateDailyBriefing } from "./services/aiBriefing";
 import { calculateTradingDNA } from "./services/tradingDNA";
-import { initializePriceService, getAllMarketPrices as getCryptoPrices } from "./services/cryptoPrices";
-import { setupAuth, isAuthenticated } from "./simpleAuth";
+import { marketData } from "./services/marketData";
+import { symbolRegistry } from "./services/symbolRegistry";
+import { setupAuth, isAuthenticated, isAdmin, getSessionUserId, onSessionEnd } from "./simpleAuth";
+import { userEvents } from "./services/userEvents";
+import type { UserChannelMessage } from "@shared/userEvents";
 import { riskGuardService } from "./riskGuardService";
+import { riskPolicyEngine } from "./services/riskPolicy";
+import { getPortfolioRisk, stressPortfolio } from "./services/portfolioRisk";
 import { aiSentimentService } from "./services/aiSentiment";
 import { patternRecognitionService } from "./services/aiPatternRecognition";
 import { aiTradeSuggestionsService } from "./services/aiTradeSuggestions";
@@ -187,6 +222,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Replit Auth
   await setupAuth(app);
 
+  // Load the symbol registry before anything quotes or trades; falls back to the built-in list
+  try {
+    await symbolRegistry.load();
+  } catch (error) {
+    console.error("[SYMBOLS] Failed to load symbol registry - using built-in symbols:", error);
+  }
+
   // Register OHLCV routes for chart data
   registerOHLCVRoutes(app);
 
@@ -642,13 +684,242 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/paper/portfolios - List the user's paper portfolios with equity and P&L
+  app.get("/api/paper/portfolios", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const portfolios = await listPortfolios(userId);
+      res.json(portfolios);
+    } catch (error) {
+      console.error("Error fetching paper portfolios:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/paper/portfolios - Create a named portfolio and select it
+  const portfolioSchema = z.object({
+    name: z.string().trim().min(1).max(50),
+    startingBalance: z.number().positive().max(100_000_000).transform(String).optional(),
+    lotMethod: z.enum(["fifo", "lifo", "average"]).optional(), // How sells are matched against buy lots
+  });
+
+  app.post("/api/paper/portfolios", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = portfolioSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid portfolio data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { name, startingBalance, lotMethod } = validationResult.data;
+      const result = await createPortfolio(userId, name, startingBalance || "10000", lotMethod);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.status(201).json(result.wallet);
+    } catch (error) {
+      console.error("Error creating paper portfolio:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/paper/portfolios/:walletId - Rename or change the starting balance used on reset
+  app.patch("/api/paper/portfolios/:walletId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = portfolioSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid portfolio data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const result = await updatePortfolio(userId, req.params.walletId, validationResult.data);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json(result.wallet);
+    } catch (error) {
+      console.error("Error updating paper portfolio:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/paper/portfolios/:walletId/select - Make this the portfolio /api/paper/* acts on
+  app.post("/api/paper/portfolios/:walletId/select", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const result = await selectPortfolio(userId, req.params.walletId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json(result.wallet);
+    } catch (error) {
+      console.error("Error selecting paper portfolio:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/paper/portfolios/:walletId/reset - Archive to a snapshot and restore the starting balance
+  app.post("/api/paper/portfolios/:walletId/reset", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const result = await resetPortfolio(userId, req.params.walletId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({ wallet: result.wallet, snapshot: result.snapshot });
+    } catch (error) {
+      console.error("Error resetting paper portfolio:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/paper/portfolios/:walletId/snapshots - Archived states, newest first
+  app.get("/api/paper/portfolios/:walletId/snapshots", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const result = await getPortfolioSnapshots(userId, req.params.walletId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json(result.snapshots);
+    } catch (error) {
+      console.error("Error fetching portfolio snapshots:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/paper/portfolios/:walletId/equity?days=30 - Equity curve and day/month/peak P&L
+  app.get("/api/paper/portfolios/:walletId/equity", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const result = await getEquityHistory(userId, req.params.walletId, days);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({ summary: result.summary, points: result.points });
+    } catch (error) {
+      console.error("Error fetching equity history:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/paper/portfolios/:walletId/snapshots - Take a snapshot without resetting
+  app.post("/api/paper/portfolios/:walletId/snapshots", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const result = await snapshotPortfolio(userId, req.params.walletId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.status(201).json(result.snapshot);
+    } catch (error) {
+      console.error("Error taking portfolio snapshot:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/paper/execution-model - Configure fees, slippage and partial fills for paper fills
+  const executionModelSchema = z.object({
+    feeTier: z.enum(Object.keys(FEE_TIERS) as [string, ...string[]]).optional(),
+    slippageEnabled: z.boolean().optional(),
+    partialFillsEnabled: z.boolean().optional(),
+  });
+
+  app.patch("/api/paper/execution-model", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = executionModelSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid execution model",
+          details: validationResult.error.errors
+        });
+      }
+
+      const wallet = await updateExecutionModel(userId, validationResult.data);
+      res.json({ wallet, feeTiers: FEE_TIERS });
+    } catch (error) {
+      console.error("Error updating execution model:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/paper/margin - Switch margin mode and configure leverage, maintenance margin and borrow rate
+  const marginSettingsSchema = z.object({
+    marginEnabled: z.boolean().optional(),
+    leverage: z.number().min(1).max(MAX_LEVERAGE).transform(String).optional(),
+    maintenanceMarginRate: z.number().min(0.005).max(0.5).transform(String).optional(),
+    borrowRateApr: z.number().min(0).max(1).transform(String).optional(),
+  });
+
+  app.patch("/api/paper/margin", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = marginSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid margin settings",
+          details: validationResult.error.errors
+        });
+      }
+
+      const result = await updateMarginSettings(userId, validationResult.data);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.json({ wallet: result.wallet });
+    } catch (error) {
+      console.error("Error updating margin settings:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // POST /api/paper/order - Execute a paper trade order
   const paperOrderSchema = z.object({
     symbol: z.string(),
     side: z.enum(["buy", "sell"]),
-    orderType: z.enum(["market", "limit"]),
+    orderType: z.enum(["market", "limit", "stop_market", "stop_limit", "trailing_stop", "oco"]),
     quantity: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val),
     price: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val).optional(),
+    stopPrice: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val).optional(),
+    stopLimitPrice: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val).optional(),
+    trailingAmount: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val).optional(),
+    trailingType: z.enum(["absolute", "percent"]).optional(),
     stopLoss: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val).optional(),
     takeProfit: z.union([z.string(), z.number()]).transform(val => typeof val === 'number' ? String(val) : val).optional(),
   });
@@ -663,6 +934,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "User not authenticated" });
       }
 
+      // A retry with the same Idempotency-Key gets the first response instead of a second order
+      const idempotencyKey = req.get("Idempotency-Key");
+      if (idempotencyKey !== undefined) {
+        const claim = await claimOrderRequest(userId, idempotencyKey, req.body);
+        if (claim.kind === "rejected") {
+          return res.status(claim.status).json({ error: claim.error });
+        }
+        if (claim.kind === "replay") {
+          res.set("Idempotent-Replayed", "true");
+          return res.status(claim.status).json(claim.body);
+        }
+
+        // Store whatever this request answers before the answer goes out
+        const sendJson = res.json.bind(res);
+        res.json = (body: any) => {
+          completeOrderRequest(claim.requestId, res.statusCode, body)
+            .catch(error => console.error("[IDEMPOTENCY] Failed to store order response:", error))
+            .finally(() => sendJson(body));
+          return res;
+        };
+      }
+
       console.log("Received order request:", JSON.stringify(req.body));
       
       const validationResult = paperOrderSchema.safeParse(req.body);
@@ -675,7 +968,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const { symbol, side, orderType, quantity, price, stopLoss, takeProfit } = validationResult.data;
+      const { symbol, side, orderType, quantity, price, stopPrice, stopLimitPrice, trailingAmount, trailingType, stopLoss, takeProfit } = validationResult.data;
 
       // Additional validation
       const quantityNum = parseFloat(quantity);
@@ -687,23 +980,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Please select a symbol" });
       }
 
-      // Get the actual price for risk checking (market price for market orders, limit price for limit orders)
+      if (!symbolRegistry.resolve(symbol)) {
+        return res.status(400).json({ error: `Unknown symbol: ${symbol}` });
+      }
+
+      // Get the actual price for risk checking (market price for market/trailing orders, limit price for limit orders, trigger for stops)
       let orderPriceForRiskCheck = price;
-      if (orderType === "market") {
-        const marketPrice = getMarketPrice(symbol);
-        orderPriceForRiskCheck = marketPrice.toString();
+      if (orderType === "stop_market" || orderType === "oco") {
+        orderPriceForRiskCheck = stopPrice;
+      }
+      if (orderType === "market" || orderType === "trailing_stop") {
+        const tradable = getTradablePrice(symbol);
+        if (!tradable.success) {
+          return res.status(422).json({ error: tradable.error });
+        }
+        orderPriceForRiskCheck = tradable.price.toString();
       }
 
-      // Check risk guard limits with actual price
-      const riskCheck = await riskGuardService.checkOrderAllowed(userId, symbol, side, quantity, orderPriceForRiskCheck || "0");
+      // Check the risk policy with actual price
+      const riskCheck = await riskPolicyEngine.evaluateOrder(userId, {
+        symbol,
+        side,
+        quantity: quantityNum,
+        price: parseFloat(orderPriceForRiskCheck || "0"),
+        channel: "paper",
+      });
       
-      // If violations exist (enforcement enabled and limits exceeded), block the trade
+      // If any rule blocks (per the user's rule set and enforcement settings), block the trade
       if (!riskCheck.allowed) {
         console.log("[RISK GUARD] Order blocked:", riskCheck.violations);
         return res.status(403).json({ 
           error: "Risk Guard: Order not allowed", 
           violations: riskCheck.violations,
-          message: riskCheck.reason 
+          message: riskCheck.reason,
+          mitigation: riskCheck.mitigation,
+          findings: riskCheck.findings,
         });
       }
 
@@ -715,7 +1026,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let result;
       if (orderType === "market") {
         result = await executeMarketOrder(userId, symbol, side, quantity, stopLoss, takeProfit);
-      } else {
+        if (result.success && (stopLoss || takeProfit)) {
+          stopLossTakeProfitMonitor.trackSymbol(symbol);
+        }
+        if (result.success) {
+          // Dropped again on the next tick unless the order opened a margin position
+          marginMonitor.trackSymbol(symbol);
+        }
+      } else if (orderType === "limit") {
         if (!price) {
           return res.status(400).json({ error: "Price is required for limit orders" });
         }
@@ -724,6 +1042,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ error: "Price must be greater than 0" });
         }
         result = await executeLimitOrder(userId, symbol, side, quantity, price, stopLoss, takeProfit);
+      } else if (orderType === "oco") {
+        if (!price || !stopPrice) {
+          return res.status(400).json({ error: "OCO orders require both price and stopPrice" });
+        }
+        result = await executeOcoOrder(userId, { symbol, side, quantity, price, stopPrice, stopLimitPrice });
+      } else {
+        result = await executeStopOrder(userId, {
+          symbol,
+          side,
+          orderType,
+          quantity,
+          stopPrice,
+          price,
+          trailingAmount,
+          trailingType,
+          stopLoss,
+          takeProfit,
+        });
+      }
+
+      // Every non-market order rests until the matching engine fills it
+      if (result.success && orderType !== "market") {
+        orderMatchingService.trackSymbol(symbol);
       }
 
       if (!result.success) {
@@ -773,17 +1114,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/paper/order/:orderId/cancel", isAuthenticated, async (req: any, res) => {
     try {
       const { orderId } = req.params;
-      const order = await storage.getPaperOrderById(orderId);
-
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
-      }
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
 
-      if (order.status !== "pending") {
-        return res.status(400).json({ error: "Only pending orders can be cancelled" });
+      // Releases the balance / quantity the order was holding
+      const result = await cancelPendingOrder(userId, orderId);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
       }
 
-      await storage.cancelPaperOrder(orderId);
       res.json({ success: true, message: "Order cancelled successfully" });
     } catch (error) {
       console.error("Error cancelling order:", error);
@@ -810,15 +1149,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { quantity, price } = validationResult.data;
-      const order = await storage.getPaperOrderById(orderId);
-
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
-      }
-
-      if (order.status !== "pending") {
-        return res.status(400).json({ error: "Only pending orders can be modified" });
-      }
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
 
       const quantityNum = parseFloat(quantity);
       const priceNum = parseFloat(price);
@@ -831,7 +1163,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Price must be greater than 0" });
       }
 
-      await storage.updatePaperOrder(orderId, quantity, price);
+      // Re-reserves balance / quantity for the amended order
+      const result = await amendLimitOrder(userId, orderId, quantity, price);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
       res.json({ success: true, message: "Order updated successfully" });
     } catch (error) {
       console.error("Error updating order:", error);
@@ -1145,6 +1482,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/ai/sentiment/:symbol", isAuthenticated, async (req: any, res) => {
     try {
       const { symbol } = req.params;
+      if (!symbolRegistry.resolve(symbol)) {
+        return res.status(404).json({ error: `Unknown symbol: ${symbol}` });
+      }
       const price = getMarketPrice(symbol);
       const sentiment = await aiSentimentService.getSentimentForSymbol(symbol, price);
       res.json(sentiment);
@@ -1271,12 +1611,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // PUT /api/ai/suggestions/:id/execute - Mark suggestion as executed
+  // PUT /api/ai/suggestions/:id/execute - Risk-check a suggestion's trade and mark it executed
   app.put("/api/ai/suggestions/:id/execute", isAuthenticated, async (req: any, res) => {
     try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
       const { id } = req.params;
-      await aiTradeSuggestionsService.executeSuggestion(id);
-      res.json({ success: true, message: "Suggestion executed" });
+      const quantity = req.body?.quantity !== undefined ? parseFloat(req.body.quantity) : undefined;
+      if (quantity !== undefined && (isNaN(quantity) || quantity <= 0)) {
+        return res.status(400).json({ error: "Quantity must be greater than 0" });
+      }
+
+      const result = await aiTradeSuggestionsService.executeSuggestion(userId, id, quantity);
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          error: result.risk ? "Risk Guard: Order not allowed" : result.error,
+          violations: result.risk?.violations,
+          message: result.error,
+          mitigation: result.risk?.mitigation,
+          findings: result.risk?.findings,
+        });
+      }
+      res.json({ success: true, message: "Suggestion executed", warnings: result.risk?.warnings ?? [] });
     } catch (error: any) {
       console.error("Error executing suggestion:", error);
       res.status(500).json({ error: "Failed to execute suggestion", message: error.message });
@@ -1388,13 +1744,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (!symbolRegistry.resolve(requestData.symbol)) {
+        return res.status(404).json({ error: `Unknown symbol: ${requestData.symbol}` });
+      }
+
       // Import simulation service
       const { simulateWhatIf } = await import('./services/whatIfService');
       
       // Run simulation
       const simulationResult = await simulateWhatIf(requestData);
 
-      // Prepare AI explanation with OpenAI if available
+      // Prepare AI explanation; offline the simulation summary stands in for it
       let aiExplanation = simulationResult.summary;
       let modelVersion = "fallback";
       
@@ -1403,15 +1763,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const canonicalRequest = JSON.stringify(requestData, Object.keys(requestData).sort());
       const promptHash = crypto.createHash('sha256').update(canonicalRequest).digest('hex');
 
-      if (process.env.OPENAI_API_KEY) {
-        try {
-          const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-          
-          // Get user's trading DNA for context
-          const { calculateTradingDNA } = await import('./services/tradingDNA');
-          const tradingDna = await calculateTradingDNA(requestData.userId);
-          
-          const prompt = `Analyze this What-If trade simulation and provide concise explanation and suggestions.
+      try {
+        // Get user's trading DNA for context
+        const { calculateTradingDNA } = await import('./services/tradingDNA');
+        const tradingDna = await calculateTradingDNA(requestData.userId);
+        
+        const prompt = `Analyze this What-If trade simulation and provide concise explanation and suggestions.
 
 Trade Setup:
 - Symbol: ${requestData.symbol}
@@ -1437,25 +1794,23 @@ Provide:
 
 Keep response concise and actionable.`;
 
-          const completion = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content: "You are a trading advisor analyzing probabilistic trade simulations. Be concise, clear, and focus on risk management."
-              },
-              { role: "user", content: prompt }
-            ],
-            temperature: 0.7,
-            max_tokens: 300,
-          });
+        const completion = await aiGateway.completeText("what_if", {
+          messages: [
+            {
+              role: "system",
+              content: "You are a trading advisor analyzing probabilistic trade simulations. Be concise, clear, and focus on risk management."
+            },
+            { role: "user", content: prompt }
+          ],
+          userId: requestData.userId,
+          stub: simulationResult.summary,
+        });
 
-          aiExplanation = completion.choices[0]?.message?.content || simulationResult.summary;
-          modelVersion = "gpt-4o-mini";
-        } catch (aiError: any) {
-          console.error("[WHATIF] OpenAI error:", aiError.message);
-          // Fallback to simulation summary if AI fails
-        }
+        aiExplanation = completion.data || simulationResult.summary;
+        modelVersion = completion.model;
+      } catch (aiError: any) {
+        console.error("[WHATIF] AI error:", aiError.message);
+        // Fallback to simulation summary if AI fails
       }
 
       // Save simulation to database
@@ -1620,6 +1975,90 @@ Keep response concise and actionable.`;
     }
   });
 
+  // POST /api/backtests - Replay a rule-based strategy over historical candles and store the result
+  app.post("/api/backtests", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = strategyDefinitionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid strategy", details: validationResult.error.errors });
+      }
+
+      const definition = { ...validationResult.data, symbol: validationResult.data.symbol.toUpperCase() };
+      if (!symbolRegistry.resolve(definition.symbol)) {
+        return res.status(404).json({ error: `Unknown symbol: ${definition.symbol}` });
+      }
+
+      const result = await runBacktest(userId, definition);
+      if (!result.success) {
+        return res.status(422).json({ error: result.error });
+      }
+      res.status(201).json(result.backtest);
+    } catch (error: any) {
+      console.error("Error running backtest:", error);
+      res.status(500).json({ error: "Failed to run backtest" });
+    }
+  });
+
+  // GET /api/backtests - Stored backtests, newest first, without equity curves and trade lists
+  app.get("/api/backtests", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+      const backtests = await storage.getStrategyPerformances(userId, BACKTEST_STRATEGY_TYPE, limit);
+      res.json(backtests.map(({ equityCurve, backtestTrades, ...summary }) => summary));
+    } catch (error) {
+      console.error("Error fetching backtests:", error);
+      res.status(500).json({ error: "Failed to fetch backtests" });
+    }
+  });
+
+  // GET /api/backtests/:id - One backtest with its equity curve and trades
+  app.get("/api/backtests/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const backtest = await storage.getStrategyPerformanceById(req.params.id);
+      if (!backtest || backtest.strategyType !== BACKTEST_STRATEGY_TYPE) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Forbidden: You can only view your own backtests" });
+      }
+      res.json(backtest);
+    } catch (error) {
+      console.error("Error fetching backtest:", error);
+      res.status(500).json({ error: "Failed to fetch backtest" });
+    }
+  });
+
+  // DELETE /api/backtests/:id - Delete a stored backtest
+  app.delete("/api/backtests/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const backtest = await storage.getStrategyPerformanceById(req.params.id);
+      if (!backtest || backtest.strategyType !== BACKTEST_STRATEGY_TYPE) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Forbidden: You can only delete your own backtests" });
+      }
+
+      await storage.deleteStrategyPerformance(backtest.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting backtest:", error);
+      res.status(500).json({ error: "Failed to delete backtest" });
+    }
+  });
+
   // GET /api/risk/status/:userId - Get trading status and risk guard settings
   app.get("/api/risk/status/:userId", isAuthenticated, async (req: any, res) => {
     try {
@@ -1638,14 +2077,16 @@ Keep response concise and actionable.`;
         return res.status(404).json({ error: "User not found" });
       }
 
-      // Get risk guard settings
+      // Get risk guard settings and the latest trading state changes
       const riskSettings = await storage.getRiskGuardSettings(authenticatedUserId);
+      const events = await storage.getRiskGuardEvents(authenticatedUserId, 50);
 
       res.json({ 
         userId: user.id,
         tradingPaused: user.tradingPaused,
         status: user.tradingPaused ? 'paused' : 'active',
-        ...riskSettings // Include all risk guard settings
+        ...riskSettings, // Include all risk guard settings
+        events,
       });
     } catch (error) {
       console.error("Error fetching risk status:", error);
@@ -1653,6 +2094,87 @@ Keep response concise and actionable.`;
     }
   });
 
+  // GET /api/risk/metrics - Value-at-Risk, expected shortfall and stress scenarios for the paper or live book
+  app.get("/api/risk/metrics", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const source = req.query.source === "live" ? "live" : "paper";
+      const confidence = parseFloat(req.query.confidence as string) || 0.95;
+      if (confidence < 0.8 || confidence > 0.995) {
+        return res.status(400).json({ error: "confidence must be between 0.8 and 0.995" });
+      }
+      const lookbackDays = Math.min(Math.max(parseInt(req.query.lookbackDays as string) || 90, 30), 365);
+      const horizonDays = Math.min(Math.max(parseInt(req.query.horizonDays as string) || 1, 1), 30);
+
+      const result = await getPortfolioRisk(userId, {
+        source,
+        exchange: req.query.exchange as string | undefined,
+        confidence,
+        lookbackDays,
+        horizonDays,
+      });
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({ book: result.book, metrics: result.metrics, stress: result.stress });
+    } catch (error) {
+      console.error("Error calculating portfolio risk:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/risk/stress - Run custom stress scenarios against the paper or live book
+  const stressScenarioSchema = z.object({
+    id: z.string().min(1).max(50),
+    name: z.string().min(1).max(100),
+    description: z.string().max(300).optional(),
+    btcShock: z.number().min(-1).max(5),
+    altBeta: z.union([z.number().min(-5).max(5), z.literal("historical")]),
+    shocks: z.record(z.string(), z.number().min(-1).max(5)).optional(),
+  });
+  const stressRequestSchema = z.object({
+    source: z.enum(["paper", "live"]).default("paper"),
+    exchange: z.string().optional(),
+    scenarios: z.array(stressScenarioSchema).max(20).optional(),
+  });
+
+  app.post("/api/risk/stress", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = stressRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: validationResult.error.errors
+        });
+      }
+
+      const request = validationResult.data;
+      const result = await stressPortfolio(userId, {
+        ...request,
+        scenarios: request.scenarios?.map(scenario => ({
+          ...scenario,
+          shocks: scenario.shocks
+            ? Object.fromEntries(Object.entries(scenario.shocks).map(([asset, shock]) => [asset.toUpperCase(), shock]))
+            : undefined,
+        })),
+      });
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({ book: result.book, stress: result.stress });
+    } catch (error) {
+      console.error("Error running stress scenarios:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // PATCH /api/risk/settings - Update risk guard enforcement settings (authenticated user only)
   const updateRiskSettingsSchema = z.object({
     enforceDailyLossLimit: z.boolean().optional(),
@@ -1661,6 +2183,10 @@ Keep response concise and actionable.`;
     maxDailyLossAmount: z.string().optional(),
     maxMonthlyLossPercent: z.string().optional(),
     maxMonthlyLossAmount: z.string().optional(),
+    hardDrawdownStopPercent: z.string().regex(/^\d+(\.\d+)?$/, "Must be a percentage").nullable().optional(),
+    flattenOnHardStop: z.boolean().optional(),
+    maxVarPercent: z.string().regex(/^\d+(\.\d+)?$/, "Must be a percentage").nullable().optional(),
+    enforceVarLimit: z.boolean().optional(),
   }).strict(); // Reject any additional fields
 
   app.patch("/api/risk/settings", isAuthenticated, async (req: any, res) => {
@@ -1688,7 +2214,11 @@ Keep response concise and actionable.`;
         maxDailyLossPercent,
         maxDailyLossAmount,
         maxMonthlyLossPercent,
-        maxMonthlyLossAmount
+        maxMonthlyLossAmount,
+        hardDrawdownStopPercent,
+        flattenOnHardStop,
+        maxVarPercent,
+        enforceVarLimit
       } = validationResult.data;
 
       // Get current settings
@@ -1719,6 +2249,18 @@ Keep response concise and actionable.`;
       if (maxMonthlyLossAmount !== undefined) {
         updates.maxMonthlyLossAmount = maxMonthlyLossAmount;
       }
+      if (hardDrawdownStopPercent !== undefined) {
+        updates.hardDrawdownStopPercent = hardDrawdownStopPercent;
+      }
+      if (flattenOnHardStop !== undefined) {
+        updates.flattenOnHardStop = flattenOnHardStop;
+      }
+      if (maxVarPercent !== undefined) {
+        updates.maxVarPercent = maxVarPercent;
+      }
+      if (enforceVarLimit !== undefined) {
+        updates.enforceVarLimit = enforceVarLimit;
+      }
 
       const updated = await storage.updateRiskGuardSettings(authenticatedUserId, updates);
 
@@ -1749,7 +2291,7 @@ Keep response concise and actionable.`;
       }
 
       const { userId } = validationResult.data;
-      await storage.updateUserTradingStatus(userId, true);
+      await riskGuardService.pauseTrading(userId, "Paused by user", "user");
       
       res.json({ 
         success: true, 
@@ -1775,7 +2317,7 @@ Keep response concise and actionable.`;
       }
 
       const { userId } = validationResult.data;
-      await storage.updateUserTradingStatus(userId, false);
+      await riskGuardService.resumeTrading(userId, "Resumed by user", "user");
       
       res.json({ 
         success: true, 
@@ -1823,61 +2365,152 @@ Keep response concise and actionable.`;
     maxPositionSizeAmount: z.string().optional(),
     maxOpenPositions: z.number().optional(),
     autoPauseEnabled: z.boolean().optional(),
+    hardDrawdownStopPercent: z.string().regex(/^\d+(\.\d+)?$/, "Must be a percentage").nullable().optional(),
+    flattenOnHardStop: z.boolean().optional(),
+    maxVarPercent: z.string().regex(/^\d+(\.\d+)?$/, "Must be a percentage").nullable().optional(),
+    enforceVarLimit: z.boolean().optional(),
+  });
+
+  app.put("/api/risk/guard/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const authenticatedUserId = user?.id || user.claims.sub;
+      const requestedUserId = req.params.userId;
+      
+      // Security: Validate user can only update their own risk guard settings
+      if (authenticatedUserId !== requestedUserId) {
+        return res.status(403).json({ error: "Forbidden: You can only update your own risk guard settings" });
+      }
+      
+      const validationResult = updateRiskGuardSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: validationResult.error.errors 
+        });
+      }
+
+      await storage.updateRiskGuardSettings(authenticatedUserId, validationResult.data);
+      const updated = await storage.getRiskGuardSettings(authenticatedUserId);
+      
+      res.json({ 
+        success: true, 
+        message: "Risk Guard settings updated",
+        settings: updated 
+      });
+    } catch (error) {
+      console.error("Error updating risk guard settings:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/test/prices - Get current market prices
+  app.get("/api/test/prices", async (req, res) => {
+    try {
+      const prices = getAllMarketPrices();
+      res.json(prices);
+    } catch (error) {
+      console.error("Error fetching prices:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/market-data/quotes - Cached quotes with their source and staleness
+  app.get("/api/market-data/quotes", async (req, res) => {
+    try {
+      res.json({
+        sources: marketData.getActiveSources(),
+        quotes: marketData.getQuotes(),
+      });
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/symbols - Tradable symbols with their order filters
+  app.get("/api/symbols", async (req, res) => {
+    try {
+      const includeDelisted = req.query.includeDelisted === "true";
+      res.json(symbolRegistry.list(includeDelisted));
+    } catch (error) {
+      console.error("Error fetching symbols:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
-  app.put("/api/risk/guard/:userId", isAuthenticated, async (req: any, res) => {
+  // POST /api/admin/symbols - List a new symbol (or relist a delisted one)
+  const decimalString = z.string().regex(/^\d+(\.\d+)?$/, "Must be a positive decimal").refine(value => parseFloat(value) > 0, "Must be greater than 0");
+  const addSymbolSchema = z.object({
+    symbol: z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9]+$/, "Symbol must be alphanumeric"),
+    name: z.string().trim().min(1),
+    baseAsset: z.string().trim().min(1).max(20).optional(),
+    quoteAsset: z.string().trim().min(1).max(20).optional(),
+    tickSize: decimalString,
+    lotSize: decimalString,
+    minNotional: z.string().regex(/^\d+(\.\d+)?$/, "Must be a decimal").optional(),
+    providerIds: z.record(z.string().min(1)).default({}),
+  });
+
+  app.post("/api/admin/symbols", isAdmin, async (req, res) => {
     try {
-      const user = req.user as any;
-      const authenticatedUserId = user?.id || user.claims.sub;
-      const requestedUserId = req.params.userId;
-      
-      // Security: Validate user can only update their own risk guard settings
-      if (authenticatedUserId !== requestedUserId) {
-        return res.status(403).json({ error: "Forbidden: You can only update your own risk guard settings" });
-      }
-      
-      const validationResult = updateRiskGuardSchema.safeParse(req.body);
-      
+      const validationResult = addSymbolSchema.safeParse(req.body);
       if (!validationResult.success) {
-        return res.status(400).json({ 
-          error: "Invalid request", 
-          details: validationResult.error.errors 
+        return res.status(400).json({
+          error: "Invalid symbol",
+          details: validationResult.error.errors
         });
       }
 
-      await storage.updateRiskGuardSettings(authenticatedUserId, validationResult.data);
-      const updated = await storage.getRiskGuardSettings(authenticatedUserId);
-      
-      res.json({ 
-        success: true, 
-        message: "Risk Guard settings updated",
-        settings: updated 
+      const input = validationResult.data;
+      const symbol = input.symbol.toUpperCase();
+      const result = await symbolRegistry.addSymbol({
+        ...input,
+        symbol,
+        baseAsset: (input.baseAsset || symbol).toUpperCase(),
+        quoteAsset: (input.quoteAsset || "USD").toUpperCase(),
       });
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.status(201).json(result.symbol);
     } catch (error) {
-      console.error("Error updating risk guard settings:", error);
+      console.error("Error adding symbol:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // GET /api/test/prices - Get current market prices
-  app.get("/api/test/prices", async (req, res) => {
+  // DELETE /api/admin/symbols/:symbol - Delist a symbol with no open positions or resting orders
+  app.delete("/api/admin/symbols/:symbol", isAdmin, async (req, res) => {
     try {
-      const prices = getAllMarketPrices();
-      res.json(prices);
+      const result = await symbolRegistry.delistSymbol(req.params.symbol);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json(result.symbol);
     } catch (error) {
-      console.error("Error fetching prices:", error);
+      console.error("Error delisting symbol:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // POST /api/test/set-price - Update market price for testing
+  // POST /api/test/set-price - Update market price for testing (admin only, never in production).
+  // The manual quote outranks every provider on the shared quote bus, so it moves fills,
+  // stops and liquidations for every account.
   const setPriceSchema = z.object({
     symbol: z.string(),
     price: z.number().positive(),
   });
 
-  app.post("/api/test/set-price", async (req, res) => {
+  app.post("/api/test/set-price", isAdmin, async (req, res) => {
     try {
+      if (process.env.NODE_ENV === "production") {
+        return res.status(404).json({ error: "Not found" });
+      }
+
       const validationResult = setPriceSchema.safeParse(req.body);
       
       if (!validationResult.success) {
@@ -1888,6 +2521,9 @@ Keep response concise and actionable.`;
       }
 
       const { symbol, price } = validationResult.data;
+      if (!symbolRegistry.resolve(symbol)) {
+        return res.status(404).json({ error: `Unknown symbol: ${symbol}` });
+      }
       setMarketPrice(symbol, price);
       
       res.json({ 
@@ -2000,18 +2636,45 @@ Keep response concise and actionable.`;
     }
   });
 
+  // Alert options beyond the legacy symbol/condition/targetPrice body
+  const alertOptionsSchema = z.object({
+    expression: alertExpressionSchema.optional(),
+    repeatMode: z.enum(ALERT_REPEAT_MODES).optional(),
+    cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    drawingId: z.string().min(1).max(100).nullable().optional(),
+  });
+
   // POST /api/alerts - Create price alert
+  // Body: { symbol, condition, targetPrice } or { symbol, expression }, plus optional
+  // repeatMode, cooldownMinutes, expiresAt and drawingId
   app.post("/api/alerts", isAuthenticated, async (req: any, res) => {
     const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
+    const optionsResult = alertOptionsSchema.safeParse(req.body);
+    if (!optionsResult.success) {
+      return res.status(400).json({ error: "Invalid request", details: optionsResult.error.errors });
+    }
+    const { expression, ...options } = optionsResult.data;
+
+    // Plain price expressions also fill condition/targetPrice, which older clients read
+    let condition = req.body.condition;
+    let targetPrice = req.body.targetPrice;
+    if (expression) {
+      condition = expression.type === "price" ? expression.operator : expression.type;
+      targetPrice = expression.type === "price" ? expression.value.toString() : null;
+    }
+
     const validationResult = insertPriceAlertSchema.safeParse({
       userId: userId,
-      symbol: req.body.symbol?.toUpperCase(),
-      condition: req.body.condition,
-      targetPrice: req.body.targetPrice,
+      symbol: expression?.type === "portfolio" ? PORTFOLIO_ALERT_SYMBOL : req.body.symbol?.toUpperCase(),
+      condition,
+      targetPrice,
+      expression: expression ?? null,
+      ...options,
       isActive: true
     });
 
@@ -2020,7 +2683,14 @@ Keep response concise and actionable.`;
     }
 
     try {
+      // A chart drawing has at most one alert: re-creating replaces it
+      if (options.drawingId) {
+        const existing = await storage.getPriceAlertByDrawingId(userId, options.drawingId);
+        if (existing) await storage.deletePriceAlert(existing.id);
+      }
+
       const alert = await storage.createPriceAlert(validationResult.data);
+      alertMonitoringService.trackSymbol(alert.symbol);
       res.status(201).json(alert);
     } catch (error) {
       console.error("Error creating alert:", error);
@@ -2043,7 +2713,22 @@ Keep response concise and actionable.`;
         return res.status(403).json({ error: "Forbidden: You can only update your own price alerts" });
       }
       
-      await storage.updatePriceAlert(req.params.id, req.body);
+      const validationResult = z.object({
+        isActive: z.boolean().optional(),
+        repeatMode: z.enum(ALERT_REPEAT_MODES).optional(),
+        cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+        expiresAt: z.coerce.date().nullable().optional(),
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid request", details: validationResult.error.errors });
+      }
+
+      // Re-activating starts the alert over, armed
+      const updates: Partial<PriceAlert> = validationResult.data.isActive && !alert.isActive
+        ? { ...validationResult.data, armed: true, triggered: false }
+        : validationResult.data;
+      await storage.updatePriceAlert(req.params.id, updates);
+      alertMonitoringService.trackSymbol(alert.symbol);
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating alert:", error);
@@ -2074,8 +2759,156 @@ Keep response concise and actionable.`;
     }
   });
 
+  // DELETE /api/alerts/drawing/:drawingId - Delete the alert created by a chart drawing
+  app.delete("/api/alerts/drawing/:drawingId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const alert = await storage.getPriceAlertByDrawingId(userId, req.params.drawingId);
+      if (!alert) {
+        return res.status(404).json({ error: "Price alert not found" });
+      }
+
+      await storage.deletePriceAlert(alert.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting drawing alert:", error);
+      res.status(500).json({ error: "Failed to delete alert" });
+    }
+  });
+
+  // ===== NOTIFICATION ROUTES =====
+
+  // GET /api/notifications - Inbox, newest first (?unread=true for unread only)
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(userId, limit, req.query.unread === "true"),
+        storage.countUnreadNotifications(userId),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // POST /api/notifications/read-all - Mark the whole inbox read
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      await storage.markAllNotificationsRead(userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to mark notifications read" });
+    }
+  });
+
+  // POST /api/notifications/:id/read - Mark one notification read
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const notification = await storage.markNotificationRead(userId, req.params.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ error: "Failed to mark notification read" });
+    }
+  });
+
+  // GET /api/notifications/preferences - Channels per category, webhook URL and quiet hours
+  app.get("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      res.json(await notificationService.getPreferences(userId));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  // PUT /api/notifications/preferences - Update notification preferences
+  const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+  const notificationPreferencesSchema = z.object({
+    channels: z.record(z.enum(NOTIFICATION_CATEGORIES), z.array(z.enum(NOTIFICATION_CHANNELS))).optional(),
+    webhookUrl: z.string().url().superRefine((url, ctx) => {
+      const urlError = checkWebhookUrl(url);
+      if (urlError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: urlError });
+    }).nullable().optional(),
+    quietHoursStart: timeOfDay.nullable().optional(),
+    quietHoursEnd: timeOfDay.nullable().optional(),
+    timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  }).refine(
+    prefs => (prefs.quietHoursStart === undefined) === (prefs.quietHoursEnd === undefined)
+      && (prefs.quietHoursStart === null) === (prefs.quietHoursEnd === null),
+    "Set quiet hours start and end together"
+  );
+
+  app.put("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const validationResult = notificationPreferencesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid notification preferences",
+          details: validationResult.error.errors
+        });
+      }
+
+      const preferences = await notificationService.updatePreferences(userId, validationResult.data);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  // GET /api/notifications/deliveries - Email and webhook delivery log, newest first
+  app.get("/api/notifications/deliveries", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      res.json(await storage.getNotificationDeliveries(userId, limit));
+    } catch (error) {
+      console.error("Error fetching notification deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch notification deliveries" });
+    }
+  });
+
   // Live Exchange Routes (Phase 1)
   const { connectExchange, getExchangeStatus, preCheckOrder, confirmAndExecute } = await import("./services/liveExchangeService");
+  const { getStepUpMethods, sendStepUpCode, verifyStepUp } = await import("./services/stepUpAuth");
+  const { getConnectionAdapter, getSupportedExchanges } = await import("./services/exchangeAdapter");
+
+  // The user's active connection, for ?exchange= when given or else the first one connected
+  const findActiveConnection = async (userId: string, exchange?: string) => {
+    const connections = await storage.getExchangeConnectionsByUserId(userId);
+    return connections.find(c => c.isActive && (!exchange || c.exchange === exchange));
+  };
+
+  // GET /api/exchange/supported - Exchanges this server can connect to
+  app.get("/api/exchange/supported", isAuthenticated, async (req, res) => {
+    res.json(getSupportedExchanges());
+  });
 
   // POST /api/exchange/connect - Connect exchange with encrypted API keys
   app.post("/api/exchange/connect", isAuthenticated, async (req, res) => {
@@ -2142,25 +2975,15 @@ Keep response concise and actionable.`;
       }
 
       // Get exchange connection
-      const connections = await storage.getExchangeConnectionsByUserId(authenticatedUserId);
-      const connection = connections.find(c => c.exchange === 'binance');
+      const connection = await findActiveConnection(authenticatedUserId, req.query.exchange as string | undefined);
       if (!connection) {
         return res.status(404).json({ error: "No exchange connection found" });
       }
 
-      // Import BinanceService
-      const { BinanceService } = await import("./services/binanceService");
-      const { decrypt } = await import("./utils/encryption");
+      const adapter = getConnectionAdapter(connection);
 
-      // Decrypt API keys
-      const apiKey = decrypt(connection.encryptedApiKey);
-      const apiSecret = decrypt(connection.encryptedApiSecret);
-
-      // Create Binance service instance
-      const binanceService = new BinanceService({ apiKey, apiSecret, testnet: connection.testnet || false });
-
-      // Fetch account info from Binance
-      const accountInfo = await binanceService.getAccountInfo();
+      // Fetch account info from the exchange
+      const accountInfo = await adapter.getAccount();
 
       console.log(`[EXCHANGE] Fetched balance for user ${authenticatedUserId} - Total: ${accountInfo.balances.length} assets`);
 
@@ -2169,6 +2992,7 @@ Keep response concise and actionable.`;
         canTrade: accountInfo.canTrade,
         canDeposit: accountInfo.canDeposit,
         canWithdraw: accountInfo.canWithdraw,
+        exchange: connection.exchange,
         updateTime: Date.now(),
       });
     } catch (error: any) {
@@ -2177,7 +3001,7 @@ Keep response concise and actionable.`;
     }
   });
 
-  // GET /api/exchange/orders/:userId - Get open orders from Binance
+  // GET /api/exchange/orders/:userId - Get open orders from the connected exchange
   app.get("/api/exchange/orders/:userId", isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
@@ -2190,35 +3014,49 @@ Keep response concise and actionable.`;
       }
 
       // Get exchange connection
-      const connections = await storage.getExchangeConnectionsByUserId(authenticatedUserId);
-      const connection = connections.find(c => c.exchange === 'binance');
+      const connection = await findActiveConnection(authenticatedUserId, req.query.exchange as string | undefined);
       if (!connection) {
         return res.status(404).json({ error: "No exchange connection found" });
       }
 
-      // Import BinanceService
-      const { BinanceService } = await import("./services/binanceService");
-      const { decrypt } = await import("./utils/encryption");
-
-      // Decrypt API keys
-      const apiKey = decrypt(connection.encryptedApiKey);
-      const apiSecret = decrypt(connection.encryptedApiSecret);
-
-      // Create Binance service instance
-      const binanceService = new BinanceService({ apiKey, apiSecret, testnet: connection.testnet || false });
+      const adapter = getConnectionAdapter(connection);
 
-      // Fetch open orders from Binance
-      const orders = await binanceService.getOpenOrders();
+      // Fetch open orders from the exchange
+      const orders = await adapter.getOpenOrders();
 
       console.log(`[EXCHANGE] Fetched ${orders.length} open orders for user ${authenticatedUserId}`);
 
-      res.json({ orders });
+      res.json({ exchange: connection.exchange, orders });
     } catch (error: any) {
       console.error("[EXCHANGE] Error fetching orders:", error);
       res.status(500).json({ error: error.message || "Failed to fetch exchange orders" });
     }
   });
 
+  // GET /api/exchange/live-orders/:userId - Live orders placed through the platform, with their fills
+  app.get("/api/exchange/live-orders/:userId", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const authenticatedUserId = user?.id || user.claims.sub;
+
+      // Security: Validate user can only access their own orders
+      if (authenticatedUserId !== req.params.userId) {
+        return res.status(403).json({ error: "Forbidden: You can only access your own orders" });
+      }
+
+      const orders = await storage.getLiveOrdersByUserId(authenticatedUserId);
+      const fills = await storage.getLiveFillsByOrderIds(orders.map(order => order.id));
+
+      res.json(orders.map(order => ({
+        ...order,
+        fills: fills.filter(fill => fill.liveOrderId === order.id),
+      })));
+    } catch (error: any) {
+      console.error("[EXCHANGE] Error fetching live orders:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch live orders" });
+    }
+  });
+
   // DELETE /api/exchange/orders/:userId/:symbol/:orderId - Cancel an order
   app.delete("/api/exchange/orders/:userId/:symbol/:orderId", isAuthenticated, async (req, res) => {
     try {
@@ -2233,28 +3071,27 @@ Keep response concise and actionable.`;
       }
 
       // Get exchange connection
-      const connections = await storage.getExchangeConnectionsByUserId(authenticatedUserId);
-      const connection = connections.find(c => c.exchange === 'binance');
+      const connection = await findActiveConnection(authenticatedUserId, req.query.exchange as string | undefined);
       if (!connection) {
         return res.status(404).json({ error: "No exchange connection found" });
       }
 
-      // Import BinanceService
-      const { BinanceService } = await import("./services/binanceService");
-      const { decrypt } = await import("./utils/encryption");
-
-      // Decrypt API keys
-      const apiKey = decrypt(connection.encryptedApiKey);
-      const apiSecret = decrypt(connection.encryptedApiSecret);
-
-      // Create Binance service instance
-      const binanceService = new BinanceService({ apiKey, apiSecret, testnet: connection.testnet || false });
+      const adapter = getConnectionAdapter(connection);
 
       // Cancel the order
-      const result = await binanceService.cancelOrder(symbol, parseInt(orderId));
+      const result = await adapter.cancelOrder(symbol, orderId);
 
       console.log(`[EXCHANGE] Cancelled order ${orderId} for user ${authenticatedUserId}`);
 
+      // Reflect the cancel in the live order ledger right away instead of waiting for reconciliation
+      const liveOrder = await storage.getLiveOrderByExchangeId(connection.id, symbol, orderId);
+      if (liveOrder) {
+        const { applyExchangeOrder } = await import("./services/liveOrderReconciliation");
+        await applyExchangeOrder(adapter, liveOrder, result).catch(error => {
+          console.error(`[EXCHANGE] Failed to update live order ${orderId} after cancel:`, error);
+        });
+      }
+
       res.json({ success: true, result });
     } catch (error: any) {
       console.error("[EXCHANGE] Error cancelling order:", error);
@@ -2272,14 +3109,7 @@ Keep response concise and actionable.`;
         return res.status(400).json({ error: "Missing required order fields" });
       }
 
-      // Check if trading is paused
-      if (user.tradingPaused) {
-        return res.status(403).json({ 
-          error: "Trading is paused",
-          reason: "Risk limits triggered. Review your settings to resume."
-        });
-      }
-
+      // Risk Guard (including a trading pause) is checked by the pre-check's risk policy
       const orderPayload = { symbol, side, type, quantity, price };
       const result = await preCheckOrder(user.id, exchange, orderPayload);
 
@@ -2299,16 +3129,25 @@ Keep response concise and actionable.`;
   app.post("/api/exchange/confirm", isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
-      const { exchange, token, twoFactorCode } = req.body;
+      const { exchange, token, twoFactorCode, twoFactorMethod } = req.body;
 
       if (!exchange || !token) {
         return res.status(400).json({ error: "Missing exchange or token" });
       }
 
-      const result = await confirmAndExecute(user.id, exchange, token, twoFactorCode);
+      const result = await confirmAndExecute(user.id, exchange, token, {
+        code: twoFactorCode,
+        method: twoFactorMethod,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
 
       if (!result.success) {
-        return res.status(400).json({ error: result.error });
+        return res.status(result.status || 400).json({
+          error: result.error,
+          stepUpRequired: result.stepUpRequired,
+          stepUpMethods: result.stepUpMethods,
+        });
       }
 
       console.log(`[AUDIT] Order executed - User: ${user.id}, OrderID: ${result.orderId}`);
@@ -2320,6 +3159,129 @@ Keep response concise and actionable.`;
     }
   });
 
+  // POST /api/exchange/confirm/send-code - Email a step-up code for confirming a live order
+  app.post("/api/exchange/confirm/send-code", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({ error: "Missing token" });
+      }
+
+      const executionToken = await storage.getExecutionToken(token);
+      if (!executionToken || executionToken.userId !== userId || executionToken.status !== "pending") {
+        return res.status(400).json({ error: "Invalid or expired execution token" });
+      }
+
+      const result = await sendStepUpCode(userId, "live_order_confirm", {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      }, { executionToken: token });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({ success: true, message: "Verification code sent to your email" });
+    } catch (error: any) {
+      console.error("Error sending step-up code:", error);
+      res.status(500).json({ error: error.message || "Failed to send verification code" });
+    }
+  });
+
+  // GET /api/exchange/step-up-policy - Notional above which live orders need a second factor
+  app.get("/api/exchange/step-up-policy", isAuthenticated, async (req, res) => {
+    try {
+      const sessionUser = req.user as any;
+      const user = await storage.getUser(sessionUser?.id || sessionUser.claims.sub);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json({
+        thresholdUsd: parseFloat(user.stepUpThresholdUsd),
+        methods: getStepUpMethods(user),
+      });
+    } catch (error: any) {
+      console.error("Error fetching step-up policy:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch step-up policy" });
+    }
+  });
+
+  // PUT /api/exchange/step-up-policy - Change the threshold; raising it needs a second factor
+  const stepUpPolicySchema = z.object({
+    thresholdUsd: z.number().min(0),
+    twoFactorCode: z.string().optional(),
+    twoFactorMethod: z.enum(["totp", "email"]).optional(),
+  });
+
+  app.put("/api/exchange/step-up-policy", isAuthenticated, async (req, res) => {
+    try {
+      const sessionUser = req.user as any;
+      const userId = sessionUser?.id || sessionUser.claims.sub;
+
+      const validationResult = stepUpPolicySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid step-up policy",
+          details: validationResult.error.errors
+        });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { thresholdUsd, twoFactorCode, twoFactorMethod } = validationResult.data;
+      const credentials = { code: twoFactorCode, method: twoFactorMethod, ipAddress: req.ip, userAgent: req.get("user-agent") };
+
+      // Lowering the threshold only makes confirmation stricter
+      if (thresholdUsd > parseFloat(user.stepUpThresholdUsd)) {
+        const stepUpResult = await verifyStepUp(userId, "step_up_policy_change", credentials, { notional: thresholdUsd });
+        if (!stepUpResult.success) {
+          return res.status(stepUpResult.status || 400).json({
+            error: stepUpResult.error,
+            stepUpRequired: stepUpResult.stepUpRequired,
+            stepUpMethods: stepUpResult.methods,
+          });
+        }
+      }
+
+      await storage.updateStepUpThreshold(userId, thresholdUsd.toFixed(2));
+      console.log(`[AUDIT] Step-up threshold changed - User: ${userId}, From: $${user.stepUpThresholdUsd}, To: $${thresholdUsd.toFixed(2)}`);
+
+      res.json({ thresholdUsd, methods: getStepUpMethods(user) });
+    } catch (error: any) {
+      console.error("Error updating step-up policy:", error);
+      res.status(500).json({ error: error.message || "Failed to update step-up policy" });
+    }
+  });
+
+  // POST /api/exchange/step-up-policy/send-code - Email a step-up code for changing the policy
+  app.post("/api/exchange/step-up-policy/send-code", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user?.id || user.claims.sub;
+
+      const result = await sendStepUpCode(userId, "step_up_policy_change", {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+
+      res.json({ success: true, message: "Verification code sent to your email" });
+    } catch (error: any) {
+      console.error("Error sending step-up code:", error);
+      res.status(500).json({ error: error.message || "Failed to send verification code" });
+    }
+  });
+
   // ============================================
   // AI FEATURE ROUTES (8 New AI Services)
   // ============================================
@@ -2542,9 +3504,16 @@ Keep response concise and actionable.`;
   // AI Volatility Forecaster Routes
   app.post("/api/ai/volatility/forecast", isAuthenticated, async (req, res) => {
     try {
-      const { symbol, currentPrice, historicalPrices, timeframe } = req.body;
+      const { symbol, timeframe = "24h" } = req.body;
+      if (typeof symbol !== "string" || !symbolRegistry.resolve(symbol)) {
+        return res.status(400).json({ error: "Unknown symbol" });
+      }
+      if (!["4h", "24h", "7d"].includes(timeframe)) {
+        return res.status(400).json({ error: "timeframe must be 4h, 24h or 7d" });
+      }
+
       const { generateVolatilityForecast } = await import('./services/aiVolatilityForecastService');
-      const forecast = await generateVolatilityForecast(symbol, currentPrice, historicalPrices, timeframe);
+      const forecast = await generateVolatilityForecast(symbol.toUpperCase(), timeframe);
       
       res.json(forecast);
     } catch (error: any) {
@@ -2628,8 +3597,14 @@ Keep response concise and actionable.`;
         return res.status(400).json({ error: "orderPayload and currentPrice are required" });
       }
 
-      const { precheckOrder } = await import('./services/riskPrecheckService');
-      const result = await precheckOrder(userId, orderPayload, currentPrice);
+      const price = parseFloat(orderPayload.price || currentPrice);
+      const result = await riskPolicyEngine.evaluateOrder(userId, {
+        symbol: orderPayload.symbol,
+        side: orderPayload.side,
+        quantity: parseFloat(orderPayload.quantity),
+        price,
+        channel: "paper",
+      });
       
       res.json(result);
     } catch (error: any) {
@@ -3216,6 +4191,15 @@ Keep response concise and actionable.`;
       const user = req.user as any;
       const userId = user?.id || user.claims.sub;
       const { mistakePredictionEngine } = await import('./services/mistakePredictionEngine');
+
+      // Default to the margin wallet's leverage when the client doesn't send one
+      let leverage = req.body.leverage;
+      if (leverage === undefined) {
+        const wallet = await storage.getPaperWalletByUserId(userId);
+        if (wallet?.marginEnabled) {
+          leverage = parseFloat(wallet.leverage);
+        }
+      }
       
       const prediction = await mistakePredictionEngine.analyzeTrade({
         userId,
@@ -3224,7 +4208,7 @@ Keep response concise and actionable.`;
         quantity: req.body.quantity,
         price: req.body.price,
         orderType: req.body.orderType,
-        leverage: req.body.leverage,
+        leverage,
       });
       
       res.json(prediction);
@@ -3771,11 +4755,52 @@ Keep response concise and actionable.`;
   interface WSClientMeta {
     isAlive: boolean;
     lastPing: number;
+    unsubscribeUser?: () => void; // Set while the client is on its user channel
+    sessionId?: string; // Session the user channel was opened under
   }
   
   const wsClientMeta = new WeakMap<WebSocket, WSClientMeta>();
   let activeConnections = 0;
 
+  // User channel: replay the events a client missed since lastSeq (a resync when they are
+  // gone), then push new ones. Without a streamId the client is new and starts from now.
+  // The session is checked on every subscribe, and a logout drops the channels opened under it.
+  const subscribeUserChannel = async (
+    ws: WebSocket,
+    req: IncomingMessage,
+    streamId?: string,
+    lastSeq?: number
+  ) => {
+    const send = (message: UserChannelMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    const userId = await getSessionUserId(req).catch(() => null);
+    const meta = wsClientMeta.get(ws);
+    if (!meta) return; // Closed while the session loaded
+    if (!userId) {
+      meta.unsubscribeUser?.();
+      meta.unsubscribeUser = undefined;
+      send({ type: "user_error", error: "Unauthorized" });
+      return;
+    }
+    meta.sessionId = (req as any).sessionID;
+
+    // Replay and subscribe in the same tick, so no event is missed or sent twice
+    meta.unsubscribeUser?.();
+    const seq = userEvents.latestSeq(userId);
+    const missed = streamId === undefined ? [] : userEvents.replay(userId, streamId, Number(lastSeq) || 0);
+    if (missed === null) {
+      send({ type: "user_resync", streamId: userEvents.streamId, seq });
+    } else {
+      missed.forEach(event => send({ type: "user_event", event }));
+      send({ type: "user_subscribed", streamId: userEvents.streamId, seq });
+    }
+    meta.unsubscribeUser = userEvents.subscribe(userId, event => send({ type: "user_event", event }));
+  };
+
   // Set up WebSocket server for real-time price updates
   const wss = new WebSocketServer({ 
     server: httpServer, 
@@ -3783,6 +4808,19 @@ Keep response concise and actionable.`;
     maxPayload: 1024 * 1024, // 1MB max payload
   });
   
+  onSessionEnd(sessionId => {
+    wss.clients.forEach(ws => {
+      const meta = wsClientMeta.get(ws);
+      if (meta?.unsubscribeUser && meta.sessionId === sessionId) {
+        meta.unsubscribeUser();
+        meta.unsubscribeUser = undefined;
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: "user_error", error: "Unauthorized" } satisfies UserChannelMessage));
+        }
+      }
+    });
+  });
+
   wss.on("connection", (ws: WebSocket, req) => {
     // Connection pooling: reject if at capacity
     if (activeConnections >= MAX_WS_CONNECTIONS) {
@@ -3801,8 +4839,8 @@ Keep response concise and actionable.`;
     const sendInitialPrices = () => {
       try {
         console.log(`[WS] sendInitialPrices called, readyState: ${ws.readyState}`);
-        const initialPrices = getCryptoPrices(); // FIX: Use getCryptoPrices (from cryptoPrices.ts with change/changePercent) instead of getAllMarketPrices (from paperTrading.ts)
-        console.log(`[WS] Got ${initialPrices.length} prices from getCryptoPrices`);
+        const initialPrices = marketData.getQuotes();
+        console.log(`[WS] Got ${initialPrices.length} quotes from market data`);
         console.log(`[WS] DEBUG - First 3 prices:`, JSON.stringify(initialPrices.slice(0, 3), null, 2));
         
         if (ws.readyState === WebSocket.OPEN) {
@@ -3827,7 +4865,7 @@ Keep response concise and actionable.`;
     console.log("[WS] Sending initial prices to new client...");
     sendInitialPrices();
     
-    // Handle incoming messages (ping, resync)
+    // Handle incoming messages (ping, resync, user channel)
     ws.on("message", (data: Buffer) => {
       try {
         console.log(`[WS] Received message, length: ${data.length}, readyState: ${ws.readyState}`);
@@ -3849,6 +4887,16 @@ Keep response concise and actionable.`;
           // Client requesting state resync
           console.log("[WS] Client requested state resync");
           sendInitialPrices();
+        } else if (message.type === "subscribe_user") {
+          // Prices are public; the user channel needs the express session from the upgrade request
+          subscribeUserChannel(ws, req, message.streamId, message.lastSeq).catch(error => {
+            console.error("[WS] Error subscribing to user channel:", error);
+          });
+        } else if (message.type === "unsubscribe_user") {
+          if (meta) {
+            meta.unsubscribeUser?.();
+            meta.unsubscribeUser = undefined;
+          }
         } else {
           console.log(`[WS] Unknown message type: ${message.type}`);
         }
@@ -3869,6 +4917,7 @@ Keep response concise and actionable.`;
     
     ws.on("close", (code, reason) => {
       activeConnections--;
+      wsClientMeta.get(ws)?.unsubscribeUser?.();
       wsClientMeta.delete(ws);
       const reasonStr = reason ? reason.toString() : '';
       console.log(`[WS] Client disconnected from price feed (${activeConnections} active, code: ${code}, reason: "${reasonStr}")`);
@@ -3898,6 +4947,7 @@ Keep response concise and actionable.`;
       if (meta.isAlive === false) {
         // Client didn't respond to last ping, terminate
         console.warn("[WS] Terminating unresponsive client");
+        meta.unsubscribeUser?.();
         wsClientMeta.delete(ws);
         return ws.terminate();
       }
@@ -3944,37 +4994,33 @@ Keep response concise and actionable.`;
     });
   });
   
-  // Initialize multi-source crypto price service (Coinbase WS → Kraken WS → CoinGecko)
-  initializePriceService().then(() => {
-    console.log('[Price Feed] ✅ Multi-source price service initialized');
-    console.log('[Price Feed] 🚀 Broadcasting prices every 500ms (0.5 seconds)');
-    
-    // Broadcast prices to WebSocket clients every 500ms
-    setInterval(() => {
-      const priceUpdates = getCryptoPrices();
-      
-      if (priceUpdates.length > 0) {
-        const message = JSON.stringify({
-          type: "prices",
-          data: priceUpdates
-        });
-        
-        // Broadcast to price feed WebSocket clients
-        wss.clients.forEach((client) => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(message);
-          }
-        });
-        
-        // Feed ticks to UDF streaming service for bar bucketing
-        priceUpdates.forEach(update => {
-          processPriceTick(update.symbol, update.price, update.volume || 0);
-        });
-      }
-    }, 500); // Broadcast every 500ms (0.5 seconds)
-  }).catch((error) => {
-    console.error('[Price Feed] ❌ Failed to initialize price service:', error);
+  // Start the market data providers (Coinbase WS → Kraken WS → CoinGecko by default)
+  marketData.start();
+
+  // Feed every accepted quote to UDF streaming for bar bucketing
+  marketData.onQuote(quote => {
+    processPriceTick(quote.symbol, quote.price, quote.tradeSize || 0);
+  });
+
+  // Coalesce quotes into one /ws/prices snapshot every 500ms
+  let pricesChanged = false;
+  marketData.onQuote(() => {
+    pricesChanged = true;
   });
+  setInterval(() => {
+    if (!pricesChanged) return;
+    pricesChanged = false;
+
+    const message = JSON.stringify({
+      type: "prices",
+      data: marketData.getQuotes()
+    });
+    wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  }, 500);
   
   console.log("[UDF STREAM] WebSocket server configured on /ws/udf/stream");
   
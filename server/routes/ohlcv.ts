@@ -1,4 +1,5 @@
 import type { Express } from "express";
+import { symbolRegistry } from "../services/symbolRegistry";
 import { fetchOHLCVData, fetchOHLCVRange, getCachedCandles, clearCache, getCacheStats } from "../services/binanceService";
 
 export function registerOHLCVRoutes(app: Express) {
@@ -15,6 +16,10 @@ export function registerOHLCVRoutes(app: Express) {
     const { symbol, interval } = req.params;
     const limit = parseInt(req.query.limit as string) || 500;
 
+    if (!symbolRegistry.resolve(symbol)) {
+      return res.status(404).json({ success: false, error: `Unknown symbol: ${symbol}` });
+    }
+
     try {
       console.log(`[OHLCV API] Request: ${symbol} ${interval} (limit: ${limit})`);
       
@@ -57,6 +62,10 @@ export function registerOHLCVRoutes(app: Express) {
     const from = parseInt(req.query.from as string);
     const to = parseInt(req.query.to as string);
 
+    if (!symbolRegistry.resolve(symbol)) {
+      return res.status(404).json({ success: false, error: `Unknown symbol: ${symbol}` });
+    }
+
     if (!from || !to) {
       return res.status(400).json({
         success: false,
@@ -1,5 +1,6 @@
 import type { Express } from "express";
 import { db } from "../db";
+import { symbolRegistry } from "../services/symbolRegistry";
 
 /**
  * UDF (Universal Data Feed) API routes for TradingView integration
@@ -7,81 +8,18 @@ import { db } from "../db";
  * Spec: https://www.tradingview.com/charting-library-docs/latest/connecting_data/UDF/
  */
 
-// Supported symbols configuration
-const SUPPORTED_SYMBOLS = [
-  {
-    symbol: "BTC",
-    full_name: "CRYPTO:BTCUSD",
-    description: "Bitcoin",
+// Supported symbols come from the symbol registry
+function getSupportedSymbols() {
+  return symbolRegistry.list().map((info) => ({
+    symbol: info.symbol,
+    full_name: `CRYPTO:${info.baseAsset}${info.quoteAsset}`,
+    description: info.name,
     exchange: "CRYPTO",
     type: "crypto",
-    ticker: "BTC",
-  },
-  {
-    symbol: "ETH",
-    full_name: "CRYPTO:ETHUSD",
-    description: "Ethereum",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "ETH",
-  },
-  {
-    symbol: "SOL",
-    full_name: "CRYPTO:SOLUSD",
-    description: "Solana",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "SOL",
-  },
-  {
-    symbol: "ADA",
-    full_name: "CRYPTO:ADAUSD",
-    description: "Cardano",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "ADA",
-  },
-  {
-    symbol: "AVAX",
-    full_name: "CRYPTO:AVAXUSD",
-    description: "Avalanche",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "AVAX",
-  },
-  {
-    symbol: "MATIC",
-    full_name: "CRYPTO:MATICUSD",
-    description: "Polygon",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "MATIC",
-  },
-  {
-    symbol: "DOT",
-    full_name: "CRYPTO:DOTUSD",
-    description: "Polkadot",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "DOT",
-  },
-  {
-    symbol: "LINK",
-    full_name: "CRYPTO:LINKUSD",
-    description: "Chainlink",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "LINK",
-  },
-  {
-    symbol: "XRP",
-    full_name: "CRYPTO:XRPUSD",
-    description: "Ripple",
-    exchange: "CRYPTO",
-    type: "crypto",
-    ticker: "XRP",
-  },
-];
+    ticker: info.symbol,
+    pricescale: Math.round(1 / info.tickSize),
+  }));
+}
 
 // Resolution mapping (TradingView format to minutes)
 const RESOLUTION_MAP: Record<string, number> = {
@@ -138,7 +76,7 @@ export function registerUDFRoutes(app: Express) {
 
     // Find symbol (case-insensitive, handle full name format)
     const symbolUpper = symbol.toUpperCase().replace("CRYPTO:", "");
-    const symbolInfo = SUPPORTED_SYMBOLS.find(
+    const symbolInfo = getSupportedSymbols().find(
       (s) => s.symbol === symbolUpper || s.ticker === symbolUpper
     );
 
@@ -157,7 +95,7 @@ export function registerUDFRoutes(app: Express) {
       listed_exchange: symbolInfo.exchange,
       timezone: "Etc/UTC",
       minmov: 1,
-      pricescale: 100, // 2 decimal places
+      pricescale: symbolInfo.pricescale, // 1 / tick size
       has_intraday: true,
       has_daily: true,
       has_weekly_and_monthly: true,
@@ -182,7 +120,7 @@ export function registerUDFRoutes(app: Express) {
     const limitNum = limit ? parseInt(limit as string) : 30;
 
     // Filter symbols by query, type, and exchange
-    let results = SUPPORTED_SYMBOLS.filter((s) => {
+    let results = getSupportedSymbols().filter((s) => {
       const matchesQuery =
         s.symbol.includes(queryUpper) ||
         s.description.toUpperCase().includes(queryUpper);
@@ -224,6 +162,9 @@ export function registerUDFRoutes(app: Express) {
       }
 
       const symbolUpper = (symbol as string).toUpperCase().replace("CRYPTO:", "");
+      if (!symbolRegistry.resolve(symbolUpper)) {
+        return res.status(404).json({ s: "error", errmsg: `Symbol ${symbol} not found` });
+      }
       const fromTimestamp = parseInt(from as string);
       const toTimestamp = parseInt(to as string);
 
@@ -0,0 +1,245 @@
+/**
+ * Paper order concurrency harness
+ *
+ * Fires overlapping paper orders at a throwaway user and checks that the wallet stays
+ * consistent: no double-spent balance, no quantity sold twice, lots matching positions,
+ * and idempotency keys answering once.
+ *
+ *   DATABASE_URL=postgres://... npm run paper:concurrency
+ *
+ * Run it against a development database: every run creates a new user and leaves its
+ * paper data behind for inspection. Exits with code 1 if any invariant fails.
+ */
+import { randomUUID } from "crypto";
+import { pool } from "../db";
+import { storage } from "../storage";
+import {
+  executeMarketOrder,
+  executeLimitOrder,
+  initializePaperWallet,
+  setMarketPrice,
+  getMarketPrice,
+} from "../services/paperTrading";
+import { stopLossTakeProfitMonitor } from "../services/priceMonitoring";
+import { orderMatchingService } from "../services/orderMatching";
+import { claimOrderRequest, completeOrderRequest } from "../services/orderIdempotency";
+
+const SYMBOL = "BTC";
+const CASH_TOLERANCE = 0.05; // Balances are stored to the cent on every fill
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string): void {
+  if (!ok) failures++;
+  console.log(`${ok ? "PASS" : "FAIL"}  ${name}${detail ? ` (${detail})` : ""}`);
+}
+
+async function createUser(label: string) {
+  const user = await storage.createUser({
+    username: `concurrency-${label}-${randomUUID().slice(0, 8)}`,
+    email: `concurrency-${randomUUID()}@example.invalid`,
+  });
+  const wallet = await initializePaperWallet(user.id);
+  // Exact cash arithmetic: no slippage, no partial fills
+  await storage.updatePaperWalletExecutionModel(wallet.id, { slippageEnabled: false, partialFillsEnabled: false });
+  return user.id;
+}
+
+// Market orders only fill at a live quote; re-publish the cached price by hand so each
+// scenario runs without a market data feed
+function refreshQuote(): void {
+  setMarketPrice(SYMBOL, getMarketPrice(SYMBOL));
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 10000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await condition()) return true;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  return false;
+}
+
+/**
+ * Invariants that must hold for a spot wallet after any interleaving of fills
+ */
+async function checkWalletInvariants(label: string, userId: string): Promise<void> {
+  const wallet = await storage.getPaperWalletByUserId(userId);
+  if (!wallet) {
+    check(`${label}: wallet exists`, false);
+    return;
+  }
+
+  const balance = parseFloat(wallet.balance);
+  const reserved = parseFloat(wallet.reservedBalance);
+  check(`${label}: balance is not negative`, balance >= 0, `balance ${balance}`);
+  check(`${label}: reserved cash within balance`, reserved >= 0 && reserved <= balance + CASH_TOLERANCE, `reserved ${reserved}`);
+
+  // Cash only moves through fills: starting balance - buys + sells
+  const orders = await storage.getPaperOrdersByWalletId(wallet.id);
+  let expectedBalance = parseFloat(wallet.startingBalance);
+  let filledOrders = 0;
+  for (const order of orders) {
+    const filled = parseFloat(order.filledQuantity);
+    if (filled <= 0) continue;
+    filledOrders++;
+    const notional = filled * parseFloat(order.filledPrice || "0");
+    const fee = parseFloat(order.fee);
+    expectedBalance += order.side === "buy" ? -(notional + fee) : notional - fee;
+  }
+  const drift = Math.abs(expectedBalance - balance);
+  check(
+    `${label}: balance matches the fills`,
+    drift <= CASH_TOLERANCE * Math.max(1, filledOrders),
+    `expected ${expectedBalance.toFixed(2)}, got ${balance.toFixed(2)}`
+  );
+
+  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  for (const position of positions) {
+    const quantity = parseFloat(position.quantity);
+    check(`${label}: ${position.symbol} quantity is positive`, quantity > 0, `quantity ${quantity}`);
+    check(
+      `${label}: ${position.symbol} reserved quantity within position`,
+      parseFloat(position.reservedQuantity) <= quantity + 1e-8
+    );
+
+    const lots = await storage.getOpenPaperTaxLots(wallet.id, position.symbol, position.side);
+    const lotQuantity = lots.reduce((sum, lot) => sum + parseFloat(lot.remainingQuantity), 0);
+    check(
+      `${label}: ${position.symbol} open lots equal the position`,
+      Math.abs(lotQuantity - quantity) <= 1e-6,
+      `lots ${lotQuantity}, position ${quantity}`
+    );
+  }
+
+  for (const symbol of Array.from(new Set(orders.map(order => order.symbol)))) {
+    if (positions.some(position => position.symbol === symbol)) continue;
+    const lots = await storage.getOpenPaperTaxLots(wallet.id, symbol, "long");
+    check(`${label}: no open ${symbol} lots without a position`, lots.length === 0, `${lots.length} open`);
+  }
+}
+
+/**
+ * More buys than the balance can cover, all at once: only the affordable ones may fill
+ */
+async function concurrentBuys(): Promise<void> {
+  const userId = await createUser("buys");
+  const price = getMarketPrice(SYMBOL);
+  const quantity = 0.02;
+  const affordable = Math.floor(10000 / (quantity * price * 1.001));
+
+  const results = await Promise.all(
+    Array.from({ length: 10 }, () => executeMarketOrder(userId, SYMBOL, "buy", quantity.toString()))
+  );
+  const filled = results.filter(result => result.success).length;
+
+  check("concurrent buys: fills stop at the balance", filled === affordable, `${filled} filled, ${affordable} affordable`);
+  await checkWalletInvariants("concurrent buys", userId);
+}
+
+/**
+ * The whole position sold five times at once: exactly one sell may fill
+ */
+async function concurrentSells(): Promise<void> {
+  const userId = await createUser("sells");
+  await executeMarketOrder(userId, SYMBOL, "buy", "0.01");
+  await executeMarketOrder(userId, SYMBOL, "buy", "0.02");
+
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => executeMarketOrder(userId, SYMBOL, "sell", "0.03"))
+  );
+  const filled = results.filter(result => result.success).length;
+
+  check("concurrent sells: position sold once", filled === 1, `${filled} sells filled`);
+
+  const realized = await storage.getPaperRealizedPnlByUserId(userId);
+  const realizedQuantity = realized.reduce((sum, row) => sum + parseFloat(row.quantity), 0);
+  check("concurrent sells: ledger closed each lot once", Math.abs(realizedQuantity - 0.03) <= 1e-8, `${realizedQuantity} realized`);
+  await checkWalletInvariants("concurrent sells", userId);
+}
+
+/**
+ * A manual sell racing the stop-loss monitor and a resting sell limit on the same tick
+ */
+async function sellRacingStopLoss(): Promise<void> {
+  const userId = await createUser("stop-loss");
+  const price = getMarketPrice(SYMBOL);
+  await executeMarketOrder(userId, SYMBOL, "buy", "0.02", (price * 0.99).toFixed(2));
+  await executeLimitOrder(userId, SYMBOL, "sell", "0.01", (price * 0.98).toFixed(2));
+  stopLossTakeProfitMonitor.trackSymbol(SYMBOL);
+  orderMatchingService.trackSymbol(SYMBOL);
+
+  const wallet = await storage.getPaperWalletByUserId(userId);
+  const manualSell = executeMarketOrder(userId, SYMBOL, "sell", "0.01");
+  setMarketPrice(SYMBOL, price * 0.97);
+  await manualSell;
+
+  await waitFor(async () => (await storage.getPaperPositionsByWalletId(wallet!.id)).length === 0);
+  setMarketPrice(SYMBOL, price);
+
+  const orders = await storage.getPaperOrdersByWalletId(wallet!.id);
+  const sold = orders
+    .filter(order => order.side === "sell")
+    .reduce((sum, order) => sum + parseFloat(order.filledQuantity), 0);
+  check("sell vs stop-loss: never sells more than was bought", sold <= 0.02 + 1e-8, `${sold} sold`);
+  check(
+    "sell vs stop-loss: no resting orders left behind",
+    orders.every(order => order.status !== "pending"),
+  );
+  await checkWalletInvariants("sell vs stop-loss", userId);
+}
+
+/**
+ * The same Idempotency-Key sent twice at once, then retried
+ */
+async function idempotencyKeys(): Promise<void> {
+  const userId = await createUser("idempotency");
+  const key = randomUUID();
+  const body = { symbol: SYMBOL, side: "buy", orderType: "market", quantity: "0.01" };
+
+  const [first, second] = await Promise.all([
+    claimOrderRequest(userId, key, body),
+    claimOrderRequest(userId, key, body),
+  ]);
+  const claimed = [first, second].filter(claim => claim.kind === "claimed");
+  check("idempotency: one of two concurrent requests claims the key", claimed.length === 1);
+
+  if (claimed[0]?.kind === "claimed") {
+    await completeOrderRequest(claimed[0].requestId, 200, { ok: true });
+  }
+  const retry = await claimOrderRequest(userId, key, body);
+  check("idempotency: a retry replays the stored response", retry.kind === "replay" && retry.status === 200);
+
+  const mismatch = await claimOrderRequest(userId, key, { ...body, quantity: "0.02" });
+  check("idempotency: a different body is rejected", mismatch.kind === "rejected" && mismatch.status === 422);
+}
+
+async function main(): Promise<void> {
+  await stopLossTakeProfitMonitor.start();
+  await orderMatchingService.start();
+
+  try {
+    refreshQuote();
+    await concurrentBuys();
+    refreshQuote();
+    await concurrentSells();
+    refreshQuote();
+    await sellRacingStopLoss();
+    refreshQuote();
+    await idempotencyKeys();
+  } finally {
+    stopLossTakeProfitMonitor.stop();
+  }
+
+  console.log(failures === 0 ? "\nAll invariants held" : `\n${failures} check(s) failed`);
+}
+
+main()
+  .catch(error => {
+    console.error("Concurrency harness crashed:", error);
+    failures++;
+  })
+  .finally(async () => {
+    await pool.end();
+    process.exit(failures === 0 ? 0 : 1);
+  });
@@ -0,0 +1,185 @@
+import "./testEnv";
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import speakeasy from "speakeasy";
+import type { PaperWallet, User } from "@shared/schema";
+import { installMemoryStorage, type LiveTradingState } from "./memoryStorage";
+import { connectExchange, getExchangeStatus, preCheckOrder, confirmAndExecute } from "../liveExchangeService";
+import { liveOrderReconciler } from "../liveOrderReconciliation";
+import { mockExchange } from "../mockExchange";
+
+// connect → pre-check → step-up → confirm → reconcile, against the mock exchange
+const USER_ID = "user-1";
+const totpSecret = speakeasy.generateSecret().base32;
+const totpCode = () => speakeasy.totp({ secret: totpSecret, encoding: "base32" });
+
+let state: LiveTradingState;
+
+beforeEach(() => {
+  mock.restoreAll();
+  mockExchange.reset();
+  state = installMemoryStorage();
+  state.users.set(USER_ID, {
+    id: USER_ID,
+    email: null,
+    totpSecret,
+    totpEnabled: true,
+    totpLastStep: null,
+    stepUpThresholdUsd: "0",
+    tradingPaused: false,
+    archetype: "guardian",
+  } as User);
+});
+
+after(() => mock.restoreAll());
+
+async function connectAndPreCheck(apiKey: string, price: string, quantity = "0.01") {
+  const connected = await connectExchange(USER_ID, "mock", apiKey, "secret", "trade");
+  assert.equal(connected.success, true, connected.error);
+
+  const { token, preCheck } = await preCheckOrder(USER_ID, "mock", {
+    symbol: "BTCUSDT",
+    side: "BUY",
+    type: "LIMIT",
+    quantity,
+    price,
+  });
+  assert.equal(preCheck.allowed, true, preCheck.reason);
+  assert.ok(token);
+  return { token, preCheck };
+}
+
+describe("live trading flow on the mock exchange", () => {
+  it("places a resting limit order after step-up and reconciles its fill", async () => {
+    mockExchange.setPrice("BTCUSDT", 60000);
+    const { token, preCheck } = await connectAndPreCheck("key-flow", "50000");
+
+    const [status] = await getExchangeStatus(USER_ID);
+    assert.equal(status.exchange, "mock");
+    assert.equal(status.connected, true);
+    assert.equal(preCheck.estimatedCost, 500);
+    assert.equal(preCheck.stepUpRequired, true);
+    assert.deepEqual(preCheck.stepUpMethods, ["totp"]);
+
+    // Without a code the order is challenged and the token stays usable
+    const challenged = await confirmAndExecute(USER_ID, "mock", token);
+    assert.equal(challenged.success, false);
+    assert.equal(challenged.status, 401);
+    assert.equal(challenged.stepUpRequired, true);
+    assert.equal(state.tokens.get(token)!.status, "pending");
+
+    const confirmed = await confirmAndExecute(USER_ID, "mock", token, { code: totpCode(), method: "totp" });
+    assert.equal(confirmed.success, true, confirmed.error);
+    assert.equal(state.tokens.get(token)!.status, "confirmed");
+    assert.deepEqual(state.audits.map(a => a.outcome), ["challenged", "verified"]);
+
+    const liveOrder = state.liveOrders.get(confirmed.liveOrderId!)!;
+    assert.equal(liveOrder.status, "new");
+    assert.equal(liveOrder.clientOrderId, token);
+    assert.equal(state.fills.length, 0);
+
+    // Still above the limit: reconciling changes nothing
+    await liveOrderReconciler.reconcile();
+    assert.equal(liveOrder.status, "new");
+
+    mockExchange.setPrice("BTCUSDT", 49000);
+    await liveOrderReconciler.reconcile();
+    assert.equal(liveOrder.status, "filled");
+    assert.equal(liveOrder.executedQuantity, "0.01");
+    assert.equal(parseFloat(liveOrder.avgPrice!), 50000);
+    assert.ok(liveOrder.closedAt);
+    assert.equal(state.fills.length, 1);
+    assert.equal(state.fills[0].isMaker, true);
+    assert.equal(parseFloat(state.fills[0].commission), 0.5);
+
+    // A final order is not polled again, and its fill is not stored twice
+    await liveOrderReconciler.reconcile();
+    assert.equal(state.fills.length, 1);
+  });
+
+  it("does not reuse an execution token", async () => {
+    mockExchange.setPrice("BTCUSDT", 60000);
+    const { token } = await connectAndPreCheck("key-reuse", "50000");
+
+    const first = await confirmAndExecute(USER_ID, "mock", token, { code: totpCode(), method: "totp" });
+    assert.equal(first.success, true, first.error);
+
+    state.users.get(USER_ID)!.totpLastStep = null; // Only the token should stop the second attempt
+    const second = await confirmAndExecute(USER_ID, "mock", token, { code: totpCode(), method: "totp" });
+    assert.equal(second.success, false);
+    assert.equal(state.liveOrders.size, 1);
+  });
+
+  it("does not accept the same TOTP code for a second order", async () => {
+    mockExchange.setPrice("BTCUSDT", 60000);
+    const { token: firstToken } = await connectAndPreCheck("key-totp", "50000");
+    const { token: secondToken } = await connectAndPreCheck("key-totp", "51000");
+
+    const code = totpCode();
+    const first = await confirmAndExecute(USER_ID, "mock", firstToken, { code, method: "totp" });
+    assert.equal(first.success, true, first.error);
+
+    const replayed = await confirmAndExecute(USER_ID, "mock", secondToken, { code, method: "totp" });
+    assert.equal(replayed.success, false);
+    assert.equal(replayed.status, 401);
+    assert.equal(state.tokens.get(secondToken)!.status, "pending");
+    assert.equal(state.liveOrders.size, 1);
+  });
+
+  it("sizes live orders against the exchange account, with or without a paper wallet", async () => {
+    mockExchange.setPrice("BTCUSDT", 60000);
+
+    // No paper wallet: the 100,000 USDT mock account allows the guardian's $2,500 cap
+    const { preCheck: withoutWallet } = await connectAndPreCheck("key-sizing", "50000", "0.045");
+    assert.equal(withoutWallet.estimatedCost, 2250);
+    assert.deepEqual(withoutWallet.riskWarnings, ["Position size $2250.00 is close to the $2500.00 limit"]);
+
+    // A nearly empty paper wallet has no say in real-money sizing
+    state.paperWallets.set(USER_ID, {
+      id: "wallet-1",
+      userId: USER_ID,
+      balance: "100",
+      startingBalance: "100",
+      marginEnabled: false,
+      lastResetAt: null,
+      createdAt: new Date(0),
+    } as PaperWallet);
+    const { preCheck: smallWallet } = await connectAndPreCheck("key-sizing", "50000", "0.01");
+    assert.equal(smallWallet.allowed, true);
+  });
+
+  it("blocks a live order above the position size cap", async () => {
+    mockExchange.setPrice("BTCUSDT", 60000);
+    await connectExchange(USER_ID, "mock", "key-cap", "secret", "trade");
+
+    const { token, preCheck } = await preCheckOrder(USER_ID, "mock", {
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: "0.06",
+      price: "50000",
+    });
+    assert.equal(token, undefined);
+    assert.equal(preCheck.allowed, false);
+    assert.equal(preCheck.riskFindings?.[0].ruleId, "position_size");
+    assert.equal(preCheck.riskFindings?.[0].maxQuantity, 0.05);
+  });
+
+  it("marks the token failed when the exchange rejects the order", async () => {
+    mockExchange.setPrice("BTCUSDT", 60000);
+    const { token } = await connectAndPreCheck("key-funds", "50000");
+    state.tokens.get(token)!.orderPayload = JSON.stringify({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: "10",
+      price: "50000",
+    });
+
+    const result = await confirmAndExecute(USER_ID, "mock", token, { code: totpCode(), method: "totp" });
+    assert.equal(result.success, false);
+    assert.match(result.error!, /insufficient balance/);
+    assert.equal(state.tokens.get(token)!.status, "failed");
+    assert.equal(state.liveOrders.size, 0);
+  });
+});
@@ -0,0 +1,111 @@
+import { randomUUID } from "crypto";
+import { mock } from "node:test";
+import { storage } from "../../storage";
+import type { ExchangeConnection, ExecutionToken, LiveFill, LiveOrder, PaperWallet, StepUpAudit, User } from "@shared/schema";
+
+/**
+ * In-memory stand-ins for the storage methods the live trading flow touches (connection,
+ * pre-check, step-up, confirmation and reconciliation), installed on the storage singleton
+ * with node:test mocks. Any other storage call still goes to Postgres and fails loudly.
+ */
+export interface LiveTradingState {
+  users: Map<string, User>;
+  paperWallets: Map<string, PaperWallet>; // By user; none unless a test adds one
+  connections: Map<string, ExchangeConnection>;
+  tokens: Map<string, ExecutionToken>;
+  liveOrders: Map<string, LiveOrder>;
+  fills: LiveFill[];
+  audits: StepUpAudit[];
+}
+
+export function installMemoryStorage(): LiveTradingState {
+  const state: LiveTradingState = {
+    users: new Map(),
+    paperWallets: new Map(),
+    connections: new Map(),
+    tokens: new Map(),
+    liveOrders: new Map(),
+    fills: [],
+    audits: [],
+  };
+
+  mock.method(storage, "getUser", async (id: string) => state.users.get(id));
+  mock.method(storage, "claimTotpStep", async (userId: string, step: number) => {
+    const user = state.users.get(userId);
+    if (!user || (user.totpLastStep !== null && user.totpLastStep >= step)) return false;
+    user.totpLastStep = step;
+    return true;
+  });
+
+  // Default Risk Guard limits; paper wallets have no positions or history
+  mock.method(storage, "getRiskGuardSettings", async () => undefined);
+  mock.method(storage, "getPaperWalletByUserId", async (userId: string) => state.paperWallets.get(userId));
+  mock.method(storage, "getPaperPositionsByWalletId", async () => []);
+  mock.method(storage, "getPaperEquityPeak", async () => null);
+  mock.method(storage, "getLastPaperEquityPointBefore", async () => undefined);
+  mock.method(storage, "getFirstPaperEquityPointSince", async () => undefined);
+  mock.method(storage, "sumPaperRealizedPnl", async () => 0);
+
+  mock.method(storage, "createExchangeConnection", async (connection: any) => {
+    const row = { id: randomUUID(), lastValidated: null, createdAt: new Date(), ...connection } as ExchangeConnection;
+    state.connections.set(row.id, row);
+    return row;
+  });
+  mock.method(storage, "getExchangeConnection", async (id: string) => state.connections.get(id));
+  mock.method(storage, "getExchangeConnectionsByUserId", async (userId: string) =>
+    Array.from(state.connections.values()).filter(c => c.userId === userId)
+  );
+  mock.method(storage, "getActiveExchangeConnection", async (userId: string, exchange: string) =>
+    Array.from(state.connections.values()).find(c => c.userId === userId && c.exchange === exchange && c.isActive)
+  );
+  mock.method(storage, "updateExchangeConnection", async (id: string, updates: Partial<ExchangeConnection>) => {
+    Object.assign(state.connections.get(id)!, updates);
+  });
+
+  mock.method(storage, "createExecutionToken", async (token: any) => {
+    const row = { id: randomUUID(), createdAt: new Date(), ...token } as ExecutionToken;
+    state.tokens.set(row.token, row);
+    return row;
+  });
+  mock.method(storage, "getExecutionToken", async (token: string) => state.tokens.get(token));
+  mock.method(storage, "updateExecutionTokenStatus", async (token: string, status: string) => {
+    state.tokens.get(token)!.status = status;
+  });
+  mock.method(storage, "claimExecutionToken", async (token: string, userId: string) => {
+    const row = state.tokens.get(token);
+    if (!row || row.userId !== userId || row.status !== "pending" || row.expiresAt <= new Date()) return false;
+    row.status = "executing";
+    return true;
+  });
+
+  mock.method(storage, "createStepUpAudit", async (audit: any) => {
+    const row = { id: randomUUID(), createdAt: new Date(), ...audit } as StepUpAudit;
+    state.audits.push(row);
+    return row;
+  });
+  mock.method(storage, "countStepUpAudits", async (userId: string, outcome: string, since: Date) =>
+    state.audits.filter(a => a.userId === userId && a.outcome === outcome && a.createdAt >= since).length
+  );
+
+  mock.method(storage, "createLiveOrder", async (order: any) => {
+    const row = { id: randomUUID(), createdAt: new Date(), ...order } as LiveOrder;
+    state.liveOrders.set(row.id, row);
+    return row;
+  });
+  mock.method(storage, "getOpenLiveOrders", async () =>
+    Array.from(state.liveOrders.values()).filter(o => o.status === "new" || o.status === "partially_filled")
+  );
+  mock.method(storage, "updateLiveOrder", async (id: string, updates: Partial<LiveOrder>) => {
+    Object.assign(state.liveOrders.get(id)!, updates);
+  });
+  // Like the unique index on (live_order_id, trade_id): a fill is stored once
+  mock.method(storage, "addLiveFills", async (fills: any[]) => {
+    const added = fills
+      .filter(fill => !state.fills.some(f => f.liveOrderId === fill.liveOrderId && f.tradeId === fill.tradeId))
+      .map(fill => ({ id: randomUUID(), ...fill }) as LiveFill);
+    state.fills.push(...added);
+    return added;
+  });
+
+  return state;
+}
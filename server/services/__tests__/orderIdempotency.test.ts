@@ -0,0 +1,94 @@
+import "./testEnv";
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import type { PaperOrderRequest } from "@shared/schema";
+import { storage } from "../../storage";
+import { claimOrderRequest, completeOrderRequest } from "../orderIdempotency";
+
+const USER_ID = "user-1";
+const ORDER = { symbol: "BTC", side: "buy", orderType: "market", quantity: "0.01" };
+
+// Keyed like the unique index on (user_id, idempotency_key)
+let requests: Map<string, PaperOrderRequest>;
+
+beforeEach(() => {
+  mock.restoreAll();
+  requests = new Map();
+
+  mock.method(storage, "claimPaperOrderRequest", async (request: any) => {
+    const key = `${request.userId}:${request.idempotencyKey}`;
+    if (requests.has(key)) return undefined;
+    const row = {
+      id: randomUUID(),
+      status: "processing",
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date(),
+      completedAt: null,
+      ...request,
+    } as PaperOrderRequest;
+    requests.set(key, row);
+    return row;
+  });
+  mock.method(storage, "getPaperOrderRequest", async (userId: string, idempotencyKey: string) =>
+    requests.get(`${userId}:${idempotencyKey}`)
+  );
+  mock.method(storage, "completePaperOrderRequest", async (id: string, responseStatus: number, responseBody: unknown) => {
+    const row = Array.from(requests.values()).find(r => r.id === id);
+    if (row) Object.assign(row, { status: "completed", responseStatus, responseBody, completedAt: new Date() });
+  });
+  mock.method(storage, "deletePaperOrderRequest", async (id: string) => {
+    for (const [key, row] of requests) {
+      if (row.id === id) requests.delete(key);
+    }
+  });
+});
+
+after(() => mock.restoreAll());
+
+describe("paper order idempotency", () => {
+  it("replays the stored response for a retry with the same key and body", async () => {
+    const claim = await claimOrderRequest(USER_ID, "key-1", ORDER);
+    assert.ok(claim.kind === "claimed");
+    await completeOrderRequest(claim.requestId, 200, { success: true });
+
+    const retry = await claimOrderRequest(USER_ID, "key-1", ORDER);
+    assert.deepEqual(retry, { kind: "replay", status: 200, body: { success: true } });
+
+    const changed = await claimOrderRequest(USER_ID, "key-1", { ...ORDER, quantity: "1" });
+    assert.ok(changed.kind === "rejected");
+    assert.equal(changed.status, 422);
+  });
+
+  it("answers 409 while the first request is still processing", async () => {
+    await claimOrderRequest(USER_ID, "key-2", ORDER);
+    const retry = await claimOrderRequest(USER_ID, "key-2", ORDER);
+    assert.ok(retry.kind === "rejected");
+    assert.equal(retry.status, 409);
+  });
+
+  it("lets a retry reclaim a key whose request died while processing", async () => {
+    const first = await claimOrderRequest(USER_ID, "key-3", ORDER);
+    assert.ok(first.kind === "claimed");
+    requests.get(`${USER_ID}:key-3`)!.createdAt = new Date(Date.now() - 2 * 60 * 1000);
+
+    const retry = await claimOrderRequest(USER_ID, "key-3", ORDER);
+    assert.ok(retry.kind === "claimed");
+    assert.notEqual(retry.requestId, first.requestId);
+
+    // The first request finishing late does not overwrite the new claim
+    await completeOrderRequest(first.requestId, 200, { success: true });
+    assert.equal(requests.get(`${USER_ID}:key-3`)!.status, "processing");
+  });
+
+  it("keeps a completed response past the processing lease", async () => {
+    const claim = await claimOrderRequest(USER_ID, "key-4", ORDER);
+    assert.ok(claim.kind === "claimed");
+    await completeOrderRequest(claim.requestId, 201, { orderId: "order-1" });
+    requests.get(`${USER_ID}:key-4`)!.createdAt = new Date(Date.now() - 60 * 60 * 1000);
+
+    const retry = await claimOrderRequest(USER_ID, "key-4", ORDER);
+    assert.deepEqual(retry, { kind: "replay", status: 201, body: { orderId: "order-1" } });
+  });
+});
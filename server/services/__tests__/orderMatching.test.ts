@@ -0,0 +1,171 @@
+import "./testEnv";
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { PaperOrder, PaperPosition, PaperWallet } from "@shared/schema";
+import { storage } from "../../storage";
+import { createPaperWallet, installPaperStorage, type PaperTradingState } from "./paperStorage";
+import { executeOcoOrder, executeStopOrder } from "../paperTrading";
+import { orderMatchingService } from "../orderMatching";
+import { marketData } from "../marketData";
+import { aiTradeJournal } from "../aiTradeJournal";
+import { riskGuardService } from "../../riskGuardService";
+
+// Resting orders worked tick by tick through the matcher's own scan
+const USER_ID = "user-1";
+
+let state: PaperTradingState;
+let wallet: PaperWallet;
+
+async function tick(symbol: string, price: number) {
+  marketData.setManualPrice(symbol, price);
+  orderMatchingService["latestPrices"].set(symbol, price);
+  await orderMatchingService["matchSymbol"](symbol);
+}
+
+async function holdPosition(symbol: string, quantity: number, avgPrice: number): Promise<PaperPosition> {
+  return storage.createPaperPosition({
+    walletId: wallet.id,
+    symbol,
+    quantity: quantity.toString(),
+    avgPrice: avgPrice.toFixed(8),
+  });
+}
+
+async function placeOco(params: Parameters<typeof executeOcoOrder>[1]): Promise<[PaperOrder, PaperOrder]> {
+  const result = await executeOcoOrder(USER_ID, params);
+  assert.equal(result.success, true, result.error);
+  const [limitLeg, stopLeg] = result.orderIds!.map(id => state.orders.get(id)!);
+  return [limitLeg, stopLeg];
+}
+
+beforeEach(() => {
+  mock.restoreAll();
+  state = installPaperStorage();
+  // DOT's synthetic book lets one fill take $20,000, so larger orders fill in parts
+  wallet = createPaperWallet(state, USER_ID, { balance: "100000", partialFillsEnabled: true });
+  mock.method(aiTradeJournal, "logTrade", async () => ({}));
+  mock.method(riskGuardService, "recordClosedTrade", async () => undefined);
+});
+
+after(() => mock.restoreAll());
+
+describe("OCO partial fills", () => {
+  it("moves the rest of a sell bracket's reservation to a partly filled stop leg", async () => {
+    marketData.setManualPrice("DOT", 10);
+    const position = await holdPosition("DOT", 3000, 8);
+    const [limitLeg, stopLeg] = await placeOco({ symbol: "DOT", side: "sell", quantity: "3000", price: "12", stopPrice: "9" });
+    assert.equal(limitLeg.reservedAmount, "3000");
+    assert.equal(stopLeg.reservedAmount, null);
+    assert.equal(parseFloat(position.reservedQuantity), 3000);
+
+    await tick("DOT", 9);
+    const filled = parseFloat(stopLeg.filledQuantity);
+    assert.ok(filled > 0 && filled < 3000);
+    assert.equal(limitLeg.status, "cancelled");
+    assert.equal(stopLeg.status, "pending");
+
+    // What the stop leg still has to sell stays reserved on the position
+    assert.ok(Math.abs(parseFloat(stopLeg.reservedAmount!) - (3000 - filled)) < 1e-8);
+    assert.ok(Math.abs(parseFloat(position.reservedQuantity) - (3000 - filled)) < 1e-8);
+    assert.ok(Math.abs(parseFloat(position.quantity) - (3000 - filled)) < 1e-8);
+
+    await tick("DOT", 8.9);
+    assert.equal(stopLeg.status, "completed");
+    assert.equal(parseFloat(stopLeg.filledQuantity), 3000);
+    assert.equal(parseFloat(stopLeg.reservedAmount!), 0);
+    assert.equal(state.positions.size, 0);
+  });
+
+  it("keeps a buy bracket's cash reserved for the rest of a partly filled stop leg", async () => {
+    marketData.setManualPrice("DOT", 10);
+    const [limitLeg, stopLeg] = await placeOco({ symbol: "DOT", side: "buy", quantity: "3000", price: "9", stopPrice: "11" });
+    const reserved = parseFloat(limitLeg.reservedAmount!);
+    assert.equal(parseFloat(wallet.reservedBalance), reserved);
+
+    await tick("DOT", 11);
+    const filled = parseFloat(stopLeg.filledQuantity);
+    assert.ok(filled > 0 && filled < 3000);
+    assert.equal(limitLeg.status, "cancelled");
+
+    const expected = reserved * (1 - filled / 3000);
+    assert.ok(Math.abs(parseFloat(stopLeg.reservedAmount!) - expected) < 0.01);
+    assert.ok(Math.abs(parseFloat(wallet.reservedBalance) - expected) < 0.01);
+
+    await tick("DOT", 11.1);
+    assert.equal(stopLeg.status, "completed");
+    assert.equal(parseFloat(wallet.reservedBalance), 0);
+  });
+
+  it("cancels the stop leg when the limit leg fills in part and keeps the limit's reservation", async () => {
+    marketData.setManualPrice("DOT", 10);
+    const position = await holdPosition("DOT", 3000, 8);
+    const [limitLeg, stopLeg] = await placeOco({ symbol: "DOT", side: "sell", quantity: "3000", price: "12", stopPrice: "9" });
+
+    await tick("DOT", 12);
+    const filled = parseFloat(limitLeg.filledQuantity);
+    assert.ok(filled > 0 && filled < 3000);
+    assert.equal(stopLeg.status, "cancelled");
+    assert.equal(limitLeg.status, "pending");
+    assert.ok(Math.abs(parseFloat(limitLeg.reservedAmount!) - (3000 - filled)) < 1e-8);
+    assert.ok(Math.abs(parseFloat(position.reservedQuantity) - (3000 - filled)) < 1e-8);
+
+    // The cancelled stop leg no longer fires
+    await tick("DOT", 8);
+    assert.equal(limitLeg.status, "pending");
+    assert.ok(Math.abs(parseFloat(position.quantity) - (3000 - filled)) < 1e-8);
+  });
+});
+
+describe("trailing stops", () => {
+  async function placeTrailingStop(params: Omit<Parameters<typeof executeStopOrder>[1], "orderType">): Promise<PaperOrder> {
+    const result = await executeStopOrder(USER_ID, { ...params, orderType: "trailing_stop" });
+    assert.equal(result.success, true, result.error);
+    return state.orders.get(result.orderId!)!;
+  }
+
+  beforeEach(() => {
+    wallet.partialFillsEnabled = false;
+  });
+
+  it("ratchets a sell stop up behind new highs and fires when the price falls back to it", async () => {
+    marketData.setManualPrice("DOT", 10);
+    await holdPosition("DOT", 100, 8);
+    const order = await placeTrailingStop({ symbol: "DOT", side: "sell", quantity: "100", trailingAmount: "5", trailingType: "percent" });
+    assert.equal(order.highWaterMark, "10.000");
+    assert.equal(order.stopPrice, "9.500");
+
+    await tick("DOT", 12);
+    assert.equal(order.highWaterMark, "12.000");
+    assert.equal(order.stopPrice, "11.400");
+
+    // A pullback above the stop leaves the order resting at its level
+    await tick("DOT", 11.5);
+    assert.equal(order.stopPrice, "11.400");
+    assert.equal(order.status, "pending");
+
+    await tick("DOT", 11.4);
+    assert.equal(order.status, "completed");
+    assert.equal(order.filledPrice, "11.40000000");
+    assert.equal(state.positions.size, 0);
+  });
+
+  it("trails a buy stop down behind new lows, rounding the level away from the market", async () => {
+    marketData.setManualPrice("DOT", 10);
+    const order = await placeTrailingStop({ symbol: "DOT", side: "buy", quantity: "100", trailingAmount: "0.3333" });
+    assert.equal(order.stopPrice, "10.334");
+
+    // 9.1234 + 0.3333 = 9.4567, on DOT's 0.001 tick the stop goes up to 9.457
+    await tick("DOT", 9.1234);
+    assert.equal(order.highWaterMark, "9.123");
+    assert.equal(order.stopPrice, "9.457");
+
+    // A higher price is not a new low, so the stop does not move with it
+    await tick("DOT", 9.45);
+    assert.equal(order.stopPrice, "9.457");
+    assert.equal(order.status, "pending");
+
+    await tick("DOT", 9.46);
+    assert.equal(order.status, "completed");
+    assert.equal(state.positions.size, 1);
+  });
+});
@@ -0,0 +1,181 @@
+import { randomUUID } from "crypto";
+import { mock } from "node:test";
+import { storage, type PaperOrderFill, type PaperPositionMarginUpdate } from "../../storage";
+import type { PaperOrder, PaperPosition, PaperRealizedPnl, PaperTaxLot, PaperWallet } from "@shared/schema";
+
+/**
+ * In-memory stand-ins for the storage methods the paper engine touches when it places and
+ * fills orders (wallets, positions, orders, tax lots and the realized P&L ledger), installed
+ * on the storage singleton with node:test mocks. The wallet lock runs its callback directly.
+ */
+export interface PaperTradingState {
+  wallets: Map<string, PaperWallet>;
+  positions: Map<string, PaperPosition>;
+  orders: Map<string, PaperOrder>;
+  lots: PaperTaxLot[];
+  realized: PaperRealizedPnl[];
+}
+
+export function createPaperWallet(state: PaperTradingState, userId: string, overrides: Partial<PaperWallet> = {}): PaperWallet {
+  const wallet = {
+    id: randomUUID(),
+    userId,
+    name: "Main",
+    isSelected: true,
+    startingBalance: "10000",
+    balance: "10000",
+    reservedBalance: "0",
+    feeTier: "vip0",
+    slippageEnabled: false,
+    partialFillsEnabled: false,
+    marginEnabled: false,
+    leverage: "1",
+    maintenanceMarginRate: "0.05",
+    borrowRateApr: "0.10",
+    lotMethod: "fifo",
+    lastResetAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  } as PaperWallet;
+  state.wallets.set(wallet.id, wallet);
+  return wallet;
+}
+
+export function installPaperStorage(): PaperTradingState {
+  const state: PaperTradingState = {
+    wallets: new Map(),
+    positions: new Map(),
+    orders: new Map(),
+    lots: [],
+    realized: [],
+  };
+  const findPosition = (walletId: string, symbol: string) =>
+    Array.from(state.positions.values()).find(p => p.walletId === walletId && p.symbol === symbol);
+
+  mock.method(storage, "getPaperWalletById", async (id: string) => state.wallets.get(id));
+  mock.method(storage, "getPaperWalletByUserId", async (userId: string) =>
+    Array.from(state.wallets.values()).find(w => w.userId === userId && w.isSelected)
+  );
+  mock.method(storage, "withPaperWalletLock", async (walletId: string, fn: (wallet: PaperWallet) => Promise<unknown>) =>
+    fn(state.wallets.get(walletId)!)
+  );
+  mock.method(storage, "updatePaperWalletBalance", async (id: string, balance: string) => {
+    state.wallets.get(id)!.balance = balance;
+  });
+  mock.method(storage, "updatePaperWalletReservedBalance", async (id: string, reservedBalance: string) => {
+    state.wallets.get(id)!.reservedBalance = reservedBalance;
+  });
+
+  mock.method(storage, "getPaperPositionsByWalletId", async (walletId: string) =>
+    Array.from(state.positions.values()).filter(p => p.walletId === walletId)
+  );
+  mock.method(storage, "getPaperPositionByWalletAndSymbol", async (walletId: string, symbol: string) =>
+    findPosition(walletId, symbol)
+  );
+  mock.method(storage, "createPaperPosition", async (position: any) => {
+    const row = {
+      id: randomUUID(),
+      side: "long",
+      reservedQuantity: "0",
+      stopLoss: null,
+      takeProfit: null,
+      margin: null,
+      borrowedAmount: "0",
+      accruedInterest: "0",
+      interestAccruedAt: null,
+      liquidationPrice: null,
+      ...position,
+    } as PaperPosition;
+    state.positions.set(row.id, row);
+    return row;
+  });
+  mock.method(storage, "updatePaperPosition", async (id: string, quantity: string, avgPrice: string) => {
+    Object.assign(state.positions.get(id)!, { quantity, avgPrice });
+  });
+  mock.method(storage, "updatePositionStopLossTakeProfit", async (id: string, stopLoss: string | null, takeProfit: string | null) => {
+    Object.assign(state.positions.get(id)!, { stopLoss, takeProfit });
+  });
+  mock.method(storage, "updatePaperPositionReservedQuantity", async (id: string, reservedQuantity: string) => {
+    state.positions.get(id)!.reservedQuantity = reservedQuantity;
+  });
+  mock.method(storage, "updatePaperPositionMargin", async (id: string, updates: PaperPositionMarginUpdate) => {
+    Object.assign(state.positions.get(id)!, updates);
+  });
+  mock.method(storage, "deletePaperPosition", async (id: string) => {
+    state.positions.delete(id);
+  });
+
+  mock.method(storage, "createPaperOrder", async (order: any) => {
+    const row = {
+      id: randomUUID(),
+      price: null,
+      stopPrice: null,
+      trailingAmount: null,
+      trailingType: null,
+      highWaterMark: null,
+      ocoGroupId: null,
+      triggeredAt: null,
+      status: "pending",
+      stopLoss: null,
+      takeProfit: null,
+      closedBy: null,
+      reservedAmount: null,
+      filledPrice: null,
+      filledQuantity: "0",
+      filledAt: null,
+      liquidity: null,
+      fee: "0",
+      slippage: "0",
+      timestamp: new Date(),
+      ...order,
+    } as PaperOrder;
+    state.orders.set(row.id, row);
+    return row;
+  });
+  mock.method(storage, "getPaperOrderById", async (id: string) => state.orders.get(id));
+  mock.method(storage, "getPendingPaperOrders", async (symbol?: string) =>
+    Array.from(state.orders.values()).filter(o => o.status === "pending" && (!symbol || o.symbol === symbol))
+  );
+  mock.method(storage, "getPaperOrdersByOcoGroup", async (ocoGroupId: string) =>
+    Array.from(state.orders.values()).filter(o => o.ocoGroupId === ocoGroupId)
+  );
+  mock.method(storage, "cancelPaperOrder", async (id: string) => {
+    state.orders.get(id)!.status = "cancelled";
+  });
+  mock.method(storage, "fillPaperOrder", async (id: string, previousFilledQuantity: string, fill: PaperOrderFill) => {
+    const order = state.orders.get(id);
+    if (!order || order.status !== "pending" || order.filledQuantity !== previousFilledQuantity) return false;
+    const { complete, ...totals } = fill;
+    Object.assign(order, totals, { status: complete ? "completed" : "pending", filledAt: new Date() });
+    return true;
+  });
+  mock.method(storage, "markPaperOrderTriggered", async (id: string) => {
+    state.orders.get(id)!.triggeredAt = new Date();
+  });
+  mock.method(storage, "updatePaperOrderTrailingStop", async (id: string, highWaterMark: string, stopPrice: string) => {
+    Object.assign(state.orders.get(id)!, { highWaterMark, stopPrice });
+  });
+
+  // Lots come back oldest first, like the index on openedAt
+  mock.method(storage, "createPaperTaxLot", async (lot: any) => {
+    const row = { id: randomUUID(), fee: "0", openedAt: new Date(), closedAt: null, ...lot } as PaperTaxLot;
+    state.lots.push(row);
+    return row;
+  });
+  mock.method(storage, "getOpenPaperTaxLots", async (walletId: string, symbol: string, side: string) =>
+    state.lots.filter(l => l.walletId === walletId && l.symbol === symbol && l.side === side && parseFloat(l.remainingQuantity) > 0)
+  );
+  mock.method(storage, "updatePaperTaxLotRemaining", async (id: string, remainingQuantity: string) => {
+    state.lots.find(l => l.id === id)!.remainingQuantity = remainingQuantity;
+  });
+  mock.method(storage, "createPaperRealizedPnl", async (entries: any[]) => {
+    const rows = entries.map(entry => ({ id: randomUUID(), closedAt: new Date(), ...entry }) as PaperRealizedPnl);
+    state.realized.push(...rows);
+    return rows;
+  });
+  mock.method(storage, "getPaperRealizedPnlByWalletId", async (walletId: string, since?: Date) =>
+    state.realized.filter(row => row.walletId === walletId && (!since || row.closedAt >= since))
+  );
+
+  return state;
+}
@@ -0,0 +1,168 @@
+import "./testEnv";
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { PaperWallet, RiskGuardSettings, User } from "@shared/schema";
+import { storage } from "../../storage";
+import { createPaperWallet, installPaperStorage, type PaperTradingState } from "./paperStorage";
+import { riskPolicyEngine, type RiskOrder } from "../riskPolicy";
+import { equityTracker, type PnlSummary } from "../equityHistory";
+import { marketData } from "../marketData";
+
+// A $10,000 paper portfolio under the default Risk Guard limits: positions up to 25% or
+// $2,500, five open positions, 40% in one asset, daily loss 10% or $1,000
+const USER_ID = "user-1";
+
+let state: PaperTradingState;
+let wallet: PaperWallet;
+let user: User;
+let settings: RiskGuardSettings | undefined;
+let pnl: PnlSummary;
+
+const buy = (symbol: string, quantity: number, price: number): RiskOrder => ({ symbol, side: "buy", quantity, price, channel: "paper" });
+
+async function hold(symbol: string, quantity: number, price: number) {
+  marketData.setManualPrice(symbol, price);
+  await storage.createPaperPosition({ walletId: wallet.id, symbol, quantity: quantity.toString(), avgPrice: price.toFixed(8) });
+}
+
+const blockedBy = (result: { findings: { ruleId: string; severity: string }[] }) =>
+  result.findings.filter(f => f.severity === "block").map(f => f.ruleId);
+const warnedBy = (result: { findings: { ruleId: string; severity: string }[] }) =>
+  result.findings.filter(f => f.severity === "warn").map(f => f.ruleId);
+
+beforeEach(() => {
+  mock.restoreAll();
+  state = installPaperStorage();
+  wallet = createPaperWallet(state, USER_ID);
+  user = { id: USER_ID, archetype: "guardian", tradingPaused: false } as User;
+  settings = undefined;
+  pnl = {
+    equity: 10000,
+    startingBalance: 10000,
+    periodStart: new Date(0),
+    dayStartEquity: 10000,
+    monthStartEquity: 10000,
+    peakEquity: 10000,
+    dailyPnl: 0,
+    monthlyPnl: 0,
+    dailyRealizedPnl: 0,
+    monthlyRealizedPnl: 0,
+    drawdownPercent: 0,
+  };
+
+  mock.method(storage, "getUser", async () => user);
+  mock.method(storage, "getRiskGuardSettings", async () => settings);
+  mock.method(equityTracker, "getPnlSummary", async () => pnl);
+  marketData.setManualPrice("BTC", 50000);
+  marketData.setManualPrice("DOT", 10);
+});
+
+after(() => mock.restoreAll());
+
+describe("guardian rule set", () => {
+  it("allows an order well inside every limit", async () => {
+    const result = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.01, 50000));
+    assert.equal(result.allowed, true);
+    assert.equal(result.archetype, "guardian");
+    assert.deepEqual(result.findings, []);
+  });
+
+  it("blocks a position above the size cap and warns from 80% of it", async () => {
+    const blocked = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.06, 50000));
+    assert.equal(blocked.allowed, false);
+    assert.deepEqual(blockedBy(blocked), ["position_size"]);
+    assert.equal(blocked.findings[0].maxQuantity, 0.05);
+    assert.equal(blocked.reason, "Position size $3000.00 exceeds max allowed $2500.00 (25% of portfolio or $2500)");
+
+    const warned = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.045, 50000));
+    assert.equal(warned.allowed, true);
+    assert.deepEqual(warnedBy(warned), ["position_size"]);
+  });
+
+  it("blocks a sixth position but lets an existing one grow", async () => {
+    for (const symbol of ["ETH", "SOL", "ADA", "XRP", "LINK"]) {
+      await hold(symbol, 1, 10);
+    }
+
+    const newAsset = await riskPolicyEngine.evaluateOrder(USER_ID, buy("DOT", 1, 10));
+    assert.deepEqual(blockedBy(newAsset), ["max_open_positions"]);
+
+    const existing = await riskPolicyEngine.evaluateOrder(USER_ID, buy("ETH", 1, 10));
+    assert.equal(existing.allowed, true);
+  });
+
+  it("blocks concentrating more than 40% of the portfolio in one asset", async () => {
+    await hold("DOT", 300, 10); // $3,000 of a $13,000 portfolio
+
+    const blocked = await riskPolicyEngine.evaluateOrder(USER_ID, buy("DOT", 240, 10));
+    assert.deepEqual(blockedBy(blocked), ["concentration"]);
+    assert.equal(blocked.findings.find(f => f.ruleId === "concentration")!.maxQuantity, 220);
+
+    const warned = await riskPolicyEngine.evaluateOrder(USER_ID, buy("DOT", 150, 10));
+    assert.equal(warned.allowed, true);
+    assert.ok(warnedBy(warned).includes("concentration"));
+  });
+
+  it("blocks every new order while trading is paused or cooling down", async () => {
+    user.tradingPaused = true;
+    const paused = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.01, 50000));
+    assert.deepEqual(blockedBy(paused), ["trading_paused"]);
+
+    user.tradingPaused = false;
+    settings = { cooldownEndTime: new Date(Date.now() + 30 * 60_000) } as RiskGuardSettings;
+    const cooling = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.01, 50000));
+    assert.deepEqual(blockedBy(cooling), ["cooldown"]);
+  });
+
+  it("blocks on the daily loss limit only when the user enforces it", async () => {
+    pnl.dailyPnl = -1200;
+    const advised = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.01, 50000));
+    assert.equal(advised.allowed, true);
+    assert.deepEqual(warnedBy(advised), ["daily_loss"]);
+
+    settings = { enforceDailyLossLimit: true } as RiskGuardSettings;
+    const enforced = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.01, 50000));
+    assert.deepEqual(blockedBy(enforced), ["daily_loss"]);
+    assert.match(enforced.reason!, /Daily loss 12\.00% exceeds max 10%; Daily loss \$1200\.00 exceeds max \$1000/);
+  });
+
+  it("never blocks an order that reduces a position", async () => {
+    user.tradingPaused = true;
+    await hold("DOT", 300, 10);
+
+    const result = await riskPolicyEngine.evaluateOrder(USER_ID, { ...buy("DOT", 300, 10), side: "sell" });
+    assert.equal(result.allowed, true);
+    assert.deepEqual(result.findings, []);
+  });
+
+  it("only warns on sizing when auto-pause is off, except for the cash balance", async () => {
+    settings = { autoPauseEnabled: false } as RiskGuardSettings;
+    const oversized = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.06, 50000));
+    assert.equal(oversized.allowed, true);
+    assert.deepEqual(warnedBy(oversized), ["position_size"]);
+
+    const unaffordable = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.3, 50000));
+    assert.deepEqual(blockedBy(unaffordable), ["balance"]);
+  });
+});
+
+describe("adaptive rule set", () => {
+  it("warns instead of blocking on open positions and concentration", async () => {
+    user.archetype = "adaptive";
+    for (const symbol of ["ETH", "SOL", "ADA", "XRP", "LINK"]) {
+      await hold(symbol, 1, 10);
+    }
+    const sixth = await riskPolicyEngine.evaluateOrder(USER_ID, buy("DOT", 1, 10));
+    assert.equal(sixth.allowed, true);
+    assert.deepEqual(warnedBy(sixth), ["max_open_positions"]);
+
+    await hold("DOT", 300, 10);
+    const concentrated = await riskPolicyEngine.evaluateOrder(USER_ID, buy("DOT", 240, 10));
+    assert.equal(concentrated.allowed, true);
+    assert.ok(warnedBy(concentrated).includes("concentration"));
+
+    // Position size still blocks
+    const oversized = await riskPolicyEngine.evaluateOrder(USER_ID, buy("BTC", 0.06, 50000));
+    assert.deepEqual(blockedBy(oversized), ["position_size"]);
+  });
+});
@@ -0,0 +1,109 @@
+import "./testEnv";
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { PaperWallet } from "@shared/schema";
+import { createPaperWallet, installPaperStorage, type PaperTradingState } from "./paperStorage";
+import { executeMarketOrder } from "../paperTrading";
+import { getClosedTrades } from "../taxLots";
+import { marketData } from "../marketData";
+import { aiTradeJournal } from "../aiTradeJournal";
+import { riskGuardService } from "../../riskGuardService";
+
+// Market orders at 0.1% taker fee and no slippage: every fee is folded into the lot it opens
+const USER_ID = "user-1";
+
+let state: PaperTradingState;
+let wallet: PaperWallet;
+
+async function trade(side: "buy" | "sell", quantity: string, price: number) {
+  marketData.setManualPrice("DOT", price);
+  const result = await executeMarketOrder(USER_ID, "DOT", side, quantity);
+  assert.equal(result.success, true, result.error);
+}
+
+// 10 DOT at a cost of 10.01, then 10 more at 12.012
+async function buyTwoLots() {
+  await trade("buy", "10", 10);
+  await trade("buy", "10", 12);
+  assert.deepEqual(state.lots.map(lot => lot.costPrice), ["10.01000000", "12.01200000"]);
+}
+
+const position = () => Array.from(state.positions.values())[0];
+const realizedPnl = () => state.realized.reduce((sum, row) => sum + parseFloat(row.realizedPnl), 0);
+
+beforeEach(() => {
+  mock.restoreAll();
+  state = installPaperStorage();
+  wallet = createPaperWallet(state, USER_ID);
+  mock.method(aiTradeJournal, "logTrade", async () => ({}));
+  mock.method(riskGuardService, "recordClosedTrade", async () => undefined);
+});
+
+after(() => mock.restoreAll());
+
+describe("realized P&L by lot method", () => {
+  it("FIFO sells the oldest lot first and keeps the newer cost open", async () => {
+    await buyTwoLots();
+    await trade("sell", "10", 15);
+
+    // (15 - 10.01) * 10 less the 0.15 exit fee
+    assert.equal(state.realized.length, 1);
+    assert.equal(state.realized[0].method, "fifo");
+    assert.equal(state.realized[0].lotId, state.lots[0].id);
+    assert.equal(state.realized[0].realizedPnl, "49.75000000");
+    assert.equal(position().avgPrice, "12.01200000");
+    assert.deepEqual(state.lots.map(lot => lot.remainingQuantity), ["0.00000000", "10"]);
+  });
+
+  it("LIFO sells the newest lot first and keeps the older cost open", async () => {
+    wallet.lotMethod = "lifo";
+    await buyTwoLots();
+    await trade("sell", "10", 15);
+
+    // (15 - 12.012) * 10 less the 0.15 exit fee
+    assert.equal(state.realized.length, 1);
+    assert.equal(state.realized[0].method, "lifo");
+    assert.equal(state.realized[0].lotId, state.lots[1].id);
+    assert.equal(state.realized[0].realizedPnl, "29.73000000");
+    assert.equal(position().avgPrice, "10.01000000");
+    assert.deepEqual(state.lots.map(lot => lot.remainingQuantity), ["10", "0.00000000"]);
+  });
+
+  it("average cost realizes every sale against the blended cost", async () => {
+    wallet.lotMethod = "average";
+    await buyTwoLots();
+    await trade("sell", "10", 15);
+
+    // (15 - 11.011) * 10 less the 0.15 exit fee, drawn half from each lot
+    assert.equal(state.realized.length, 2);
+    assert.ok(Math.abs(realizedPnl() - 39.74) < 1e-6);
+    assert.equal(position().avgPrice, "11.01100000");
+  });
+
+  it("splits a FIFO sale across lots and shares the exit fee by quantity", async () => {
+    await buyTwoLots();
+    await trade("sell", "15", 15);
+
+    // 10 from the first lot and 5 from the second; the 0.225 fee splits 2:1
+    assert.deepEqual(state.realized.map(row => row.quantity), ["10.00000000", "5.00000000"]);
+    assert.deepEqual(state.realized.map(row => row.costs), ["0.15000000", "0.07500000"]);
+    assert.deepEqual(state.realized.map(row => row.realizedPnl), ["49.75000000", "14.86500000"]);
+    assert.equal(position().quantity, "5");
+    assert.equal(position().avgPrice, "12.01200000");
+
+    // The ledger rolls the two rows up into one closed trade
+    const [closed] = await getClosedTrades({ walletId: wallet.id });
+    assert.ok(Math.abs(closed.realizedPnl - 64.615) < 1e-6);
+    assert.equal(closed.quantity, 15);
+  });
+
+  it("realizes a loss when the sale is below the lot's cost", async () => {
+    wallet.lotMethod = "lifo";
+    await buyTwoLots();
+    await trade("sell", "5", 11);
+
+    // (11 - 12.012) * 5 less the 0.055 exit fee
+    assert.equal(state.realized[0].realizedPnl, "-5.11500000");
+    assert.deepEqual(state.lots.map(lot => lot.remainingQuantity), ["10", "5.00000000"]);
+  });
+});
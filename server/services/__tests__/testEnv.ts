@@ -0,0 +1,5 @@
+// Imported before anything that loads server/db: the pool connects lazily and the tests
+// replace the storage methods they reach, so the URL is never dialled
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+process.env.ENCRYPTION_KEY ??= "test-encryption-key-0123456789abcdef";
+process.env.ENABLE_MOCK_EXCHANGE = "true";
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { UserEventStream } from "../userEvents";
+
+const USER_ID = "user-1";
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+let stream: UserEventStream;
+
+const publish = () => stream.publish(USER_ID, "risk_state", { action: "paused", source: "trade", reason: "test" });
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["setTimeout"] });
+  stream = new UserEventStream();
+});
+
+afterEach(() => mock.timers.reset());
+
+describe("user event buffers", () => {
+  it("replays missed events to a client that reconnects within the window", () => {
+    const unsubscribe = stream.subscribe(USER_ID, () => {});
+    publish();
+    unsubscribe();
+    publish();
+
+    mock.timers.tick(FIVE_MINUTES - 1);
+    assert.deepEqual(stream.replay(USER_ID, stream.streamId, 1)?.map(event => event.seq), [2]);
+  });
+
+  it("drops a user's buffer once the window passes with no connection", () => {
+    const unsubscribe = stream.subscribe(USER_ID, () => {});
+    publish();
+    unsubscribe();
+
+    mock.timers.tick(FIVE_MINUTES);
+    assert.equal(stream.latestSeq(USER_ID), 0);
+    assert.equal(stream.replay(USER_ID, stream.streamId, 1), null);
+  });
+
+  it("keeps the buffer while any connection stays open", () => {
+    const first = stream.subscribe(USER_ID, () => {});
+    stream.subscribe(USER_ID, () => {});
+    publish();
+    first();
+
+    mock.timers.tick(FIVE_MINUTES * 2);
+    assert.equal(stream.latestSeq(USER_ID), 1);
+  });
+
+  it("keeps events for an offline user for the window after the latest one", () => {
+    publish();
+    mock.timers.tick(FIVE_MINUTES - 1);
+    publish();
+    mock.timers.tick(FIVE_MINUTES - 1);
+    assert.equal(stream.latestSeq(USER_ID), 2);
+
+    mock.timers.tick(1);
+    assert.equal(stream.latestSeq(USER_ID), 0);
+  });
+
+  it("cancels the eviction when the user reconnects", () => {
+    stream.subscribe(USER_ID, () => {})();
+    publish();
+    const listener = mock.fn();
+    stream.subscribe(USER_ID, listener);
+
+    mock.timers.tick(FIVE_MINUTES);
+    publish();
+    assert.equal(stream.latestSeq(USER_ID), 2);
+    assert.equal(listener.mock.callCount(), 1);
+  });
+});
@@ -75,6 +75,50 @@ export async function logAIDecision(params: LogAIDecisionParams) {
   }
 }
 
+interface LogAIUsageParams {
+  userId?: string;
+  featureType: string;
+  provider: string;
+  modelVersion: string;
+  promptHash: string;
+  attempts: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null;
+  latencyMs: number;
+  output: string | null;
+  error?: string;
+}
+
+/**
+ * Record one LLM call from the AI gateway: tokens, cost and latency, and the raw output
+ * or the error that ended it
+ */
+export async function logAIUsage(params: LogAIUsageParams) {
+  try {
+    await db.insert(aiAuditLogs).values({
+      userId: params.userId ?? null,
+      featureType: params.featureType,
+      modelVersion: params.modelVersion,
+      promptHash: params.promptHash,
+      outputData: params.output ?? JSON.stringify({ error: params.error }),
+      explanation: params.error
+        ? `LLM call failed after ${params.attempts} attempt(s): ${params.error}`
+        : `LLM completion (${params.provider})`,
+      provider: params.provider,
+      status: params.error ? 'error' : 'ok',
+      attempts: params.attempts,
+      promptTokens: params.promptTokens,
+      completionTokens: params.completionTokens,
+      costUsd: params.costUsd !== null ? params.costUsd.toFixed(6) : null,
+      latencyMs: params.latencyMs,
+    });
+  } catch (error) {
+    console.error('[AI Audit] Error logging AI usage:', error);
+    // Don't throw - audit logging should never break the main flow
+  }
+}
+
 /**
  * Get audit trail for a user
  * 
@@ -1,5 +1,6 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { storage } from "../storage";
+import { aiGateway } from "./aiGateway";
 import { getPaperWalletWithPositions, getMarketPrice } from "./paperTrading";
 import type { AIBriefing } from "@shared/schema";
 
@@ -38,30 +39,21 @@ function calculateBasicTradingDNA(trades: any[]) {
   };
 }
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY 
+const briefingSchema = z.object({
+  summary: z.string(),
+  insights: z.array(z.object({
+    type: z.enum(['neutral', 'bullish', 'bearish', 'warning']),
+    title: z.string(),
+    description: z.string(),
+  })),
+  recommendations: z.array(z.object({
+    action: z.string(),
+    symbol: z.string(),
+    reasoning: z.string(),
+    confidence: z.number().min(0).max(100),
+  })),
 });
 
-interface Insight {
-  type: 'bullish' | 'bearish' | 'neutral' | 'warning';
-  title: string;
-  description: string;
-}
-
-interface Recommendation {
-  action: string;
-  symbol: string;
-  reasoning: string;
-  confidence: number;
-}
-
-interface BriefingResponse {
-  summary: string;
-  insights: Insight[];
-  recommendations: Recommendation[];
-}
-
 export async function generateDailyBriefing(userId: string): Promise<AIBriefing> {
   // Get user's trading DNA and recent trades
   const trades = await storage.getTradesByUserId(userId);
@@ -75,9 +67,9 @@ export async function generateDailyBriefing(userId: string): Promise<AIBriefing>
     symbol: pos.symbol,
     quantity: parseFloat(pos.quantity),
     avgPrice: parseFloat(pos.avgPrice),
-    currentPrice: getMarketPrice(pos.symbol),
-    value: parseFloat(pos.quantity) * getMarketPrice(pos.symbol),
-    profitLoss: (getMarketPrice(pos.symbol) - parseFloat(pos.avgPrice)) * parseFloat(pos.quantity)
+    currentPrice: parseFloat(pos.currentPrice),
+    value: parseFloat(pos.quantity) * parseFloat(pos.currentPrice),
+    profitLoss: (parseFloat(pos.currentPrice) - parseFloat(pos.avgPrice)) * parseFloat(pos.quantity)
   }));
   
   // Get real-time market prices and calculate market conditions
@@ -163,9 +155,8 @@ Respond ONLY with valid JSON in this exact format:
   ]
 }`;
 
-  // Call OpenAI API with enhanced system prompt
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
+  // Call the AI gateway with enhanced system prompt
+  const { data: briefingData } = await aiGateway.completeJson("briefing", {
     messages: [
       {
         role: "system",
@@ -182,14 +173,10 @@ Provide data-driven, actionable insights with specific price levels, percentages
         content: prompt
       }
     ],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
-    max_tokens: 2000
+    schema: briefingSchema,
+    userId,
   });
 
-  // Parse the response
-  const briefingData: BriefingResponse = JSON.parse(response.choices[0].message.content || "{}");
-  
   // Save briefing to database
   const briefing = await storage.createAIBriefing({
     userId,
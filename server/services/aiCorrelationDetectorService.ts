@@ -1,48 +1,44 @@
 import { db } from '../db';
 import { correlations, paperPositions, paperWallets } from '@shared/schema';
 import { eq, desc } from 'drizzle-orm';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
+import { getAlignedReturns } from './portfolioRisk';
+import { correlationMatrix } from './quantModels';
 
 interface CorrelationAnalysis {
   asset1: string;
   asset2: string;
-  correlationScore: number; // -100 to 100
+  correlationScore: number; // -100 to 100, Pearson
+  spearmanScore: number | null; // -100 to 100
+  llmCorrelationScore: number | null; // The LLM's own estimate, for comparison only
   riskLevel: 'low' | 'medium' | 'high';
   recommendation: string;
   alternatives: string[];
 }
 
-// Historical correlation data (simplified - in production would use real price data)
-const KNOWN_CORRELATIONS: Record<string, Record<string, number>> = {
-  'BTC': { 'ETH': 75, 'SOL': 70, 'USDT': -5 },
-  'ETH': { 'BTC': 75, 'SOL': 80, 'USDT': -5 },
-  'SOL': { 'BTC': 70, 'ETH': 80, 'USDT': -5 },
-  'USDT': { 'BTC': -5, 'ETH': -5, 'SOL': -5 },
-};
-
-function calculateCorrelation(asset1: string, asset2: string): number {
-  const a1 = asset1.replace('USDT', '');
-  const a2 = asset2.replace('USDT', '');
-  
-  if (KNOWN_CORRELATIONS[a1] && KNOWN_CORRELATIONS[a1][a2] !== undefined) {
-    return KNOWN_CORRELATIONS[a1][a2];
-  }
-  if (KNOWN_CORRELATIONS[a2] && KNOWN_CORRELATIONS[a2][a1] !== undefined) {
-    return KNOWN_CORRELATIONS[a2][a1];
-  }
-  
-  // Default moderate positive correlation for crypto assets
-  if (a1 !== a2 && !a1.includes('USD') && !a2.includes('USD')) {
-    return 60;
-  }
-  
-  return 0;
-}
+const LOOKBACK_DAYS = 90;
+
+const explanationSchema = z.object({
+  recommendation: z.string(),
+  alternatives: z.array(z.string()).optional(),
+  llm_correlation_estimate: z.number().nullable().optional(),
+});
 
+const suggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    symbol: z.string(),
+    reason: z.string(),
+    correlation_estimate: z.number().optional(),
+  })),
+});
+
+const toScore = (coefficient: number | null) => coefficient === null ? null : Math.round(coefficient * 10000) / 100;
+
+/**
+ * Correlations between the assets held in a user's paper portfolio, from daily returns over
+ * the last 90 days. The LLM explains each pair and suggests alternatives; the scores are computed.
+ */
 export async function analyzePortfolioCorrelations(userId: string) {
   try {
     // Get user's positions
@@ -58,19 +54,31 @@ export async function analyzePortfolioCorrelations(userId: string) {
       where: eq(paperPositions.walletId, wallet.id),
     });
 
-    if (positions.length < 2) {
+    const heldAssets = Array.from(new Set(positions.map(p => p.symbol.toUpperCase())));
+    if (heldAssets.length < 2) {
       return null; // Need at least 2 assets to analyze correlation
     }
 
+    const { returns, missing } = await getAlignedReturns(heldAssets, LOOKBACK_DAYS);
+    const pearson = correlationMatrix(returns, 'pearson');
+    const spearman = correlationMatrix(returns, 'spearman');
+    const assets = pearson.assets;
+    const observations = assets.length > 0 ? returns[assets[0]].length : 0;
+    if (assets.length < 2 || observations < 10) {
+      throw new Error('Not enough price history to compute correlations');
+    }
+
     const correlationResults: CorrelationAnalysis[] = [];
 
     // Analyze each pair of assets
-    for (let i = 0; i < positions.length; i++) {
-      for (let j = i + 1; j < positions.length; j++) {
-        const asset1 = positions[i].symbol;
-        const asset2 = positions[j].symbol;
+    for (let i = 0; i < assets.length; i++) {
+      for (let j = i + 1; j < assets.length; j++) {
+        const asset1 = assets[i];
+        const asset2 = assets[j];
 
-        const correlationScore = calculateCorrelation(asset1, asset2);
+        const correlationScore = toScore(pearson.matrix[i][j]);
+        if (correlationScore === null) continue; // A flat series has no correlation
+        const spearmanScore = toScore(spearman.matrix[i][j]);
 
         // Determine risk level based on correlation
         let riskLevel: 'low' | 'medium' | 'high';
@@ -82,46 +90,54 @@ export async function analyzePortfolioCorrelations(userId: string) {
           riskLevel = 'low';
         }
 
-        // Use AI to generate recommendations
-        const correlationPrompt = `As a portfolio risk analyst, analyze this asset correlation:
+        // Use AI to explain the computed correlation
+        const correlationPrompt = `As a portfolio risk analyst, explain this asset correlation. The scores are computed from ${observations} days of returns; do not change them.
 
 Assets: ${asset1} and ${asset2}
-Correlation Score: ${correlationScore} (-100 to 100 scale)
+Pearson Correlation: ${correlationScore} (-100 to 100 scale)
+Spearman Rank Correlation: ${spearmanScore ?? 'n/a'}
 Risk Level: ${riskLevel}
 
 Provide:
-1. Risk assessment and recommendation
-2. 2-3 alternative uncorrelated assets to improve diversification
+1. Risk assessment and recommendation based on these scores
+2. 2-3 alternative assets that have historically moved less with these
+3. Separately, your own estimate of their typical correlation (-100 to 100), stored for comparison only
 
 Format as JSON:
 {
   "recommendation": "...",
-  "alternatives": ["...", "...", "..."]
+  "alternatives": ["...", "...", "..."],
+  "llm_correlation_estimate": 0
 }`;
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [{ role: 'user', content: correlationPrompt }],
-          max_tokens: 250,
-          temperature: 0.6,
-          response_format: { type: 'json_object' },
-        });
-
-        const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
+        let aiResponse: Partial<z.infer<typeof explanationSchema>> = {};
+        try {
+          const { data } = await aiGateway.completeJson('correlation', {
+            messages: [{ role: 'user', content: correlationPrompt }],
+            schema: explanationSchema,
+            userId,
+          });
+          aiResponse = data;
+        } catch (error: any) {
+          console.error('Error explaining correlation:', error.message || error);
+        }
 
         // Default alternatives if AI doesn't provide
         const defaultAlternatives = correlationScore > 0 
           ? ['Stablecoins (USDT, USDC)', 'Precious metals', 'DeFi tokens with low correlation']
           : ['Major cryptocurrencies', 'Layer 2 solutions', 'Emerging altcoins'];
 
+        const llmEstimate = aiResponse.llm_correlation_estimate;
         const analysis: CorrelationAnalysis = {
           asset1,
           asset2,
           correlationScore,
+          spearmanScore,
+          llmCorrelationScore: llmEstimate !== undefined && llmEstimate !== null ? Math.max(-100, Math.min(100, llmEstimate)) : null,
           riskLevel,
           recommendation: aiResponse.recommendation || 
-            `${Math.abs(correlationScore)}% correlation detected - consider diversification`,
-          alternatives: aiResponse.alternatives || defaultAlternatives,
+            `${Math.abs(correlationScore)}% correlation over the last ${observations} days - consider diversification`,
+          alternatives: aiResponse.alternatives?.length ? aiResponse.alternatives : defaultAlternatives,
         };
 
         correlationResults.push(analysis);
@@ -131,7 +147,10 @@ Format as JSON:
           userId,
           asset1,
           asset2,
-          correlationScore: correlationScore.toString(),
+          correlationScore: correlationScore.toFixed(2),
+          spearmanScore: spearmanScore !== null ? spearmanScore.toFixed(2) : null,
+          llmCorrelationScore: analysis.llmCorrelationScore !== null ? analysis.llmCorrelationScore.toFixed(2) : null,
+          observations,
           riskLevel,
           recommendation: analysis.recommendation,
           alternatives: JSON.stringify(analysis.alternatives),
@@ -140,11 +159,20 @@ Format as JSON:
     }
 
     // Calculate overall portfolio correlation risk
-    const avgCorrelation = correlationResults.reduce((sum, c) => sum + Math.abs(c.correlationScore), 0) / correlationResults.length;
+    const avgCorrelation = correlationResults.length > 0
+      ? correlationResults.reduce((sum, c) => sum + Math.abs(c.correlationScore), 0) / correlationResults.length
+      : 0;
     const highCorrelationPairs = correlationResults.filter(c => Math.abs(c.correlationScore) >= 70).length;
 
     return {
       correlations: correlationResults,
+      matrix: {
+        assets,
+        observations,
+        pearson: pearson.matrix,
+        spearman: spearman.matrix,
+      },
+      missingHistory: missing,
       overallCorrelationRisk: avgCorrelation >= 70 ? 'high' : avgCorrelation >= 40 ? 'medium' : 'low',
       highCorrelationPairs,
       diversificationScore: Math.max(0, 100 - avgCorrelation),
@@ -191,16 +219,14 @@ Format as JSON:
   ]
 }`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data } = await aiGateway.completeJson('correlation', {
       messages: [{ role: 'user', content: prompt }],
-      max_tokens: 400,
+      schema: suggestionsSchema,
+      userId,
+      maxTokens: 400,
       temperature: 0.7,
-      response_format: { type: 'json_object' },
     });
-
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
-    return aiResponse.suggestions || [];
+    return data.suggestions;
   } catch (error) {
     console.error('Error suggesting uncorrelated assets:', error);
     throw error;
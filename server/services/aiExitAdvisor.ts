@@ -1,9 +1,17 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { calculateTradingDNA } from "./tradingDNA";
 import { storage } from "../storage";
 import { aiAuditLogger } from "./aiAuditLogger";
+import { aiGateway } from "./aiGateway";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Unrecognised values fall back to a cautious HOLD rather than failing the request
+const exitAdviceSchema = z.object({
+  recommendation: z.enum(["HOLD", "EXIT_PARTIAL", "EXIT_ALL", "TIGHTEN_STOP"]).catch("HOLD"),
+  reasoning: z.string(),
+  confidence: z.number().catch(50),
+  keyPoints: z.array(z.string()).catch([]),
+  suggestedAction: z.string().optional(),
+});
 
 interface PositionContext {
   symbol: string;
@@ -101,8 +109,7 @@ Respond in JSON format:
   "suggestedAction": "Optional: Specific action like 'Exit 50% at current price' or 'Set stop-loss at $X'"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const { data: advice, model } = await aiGateway.completeJson("exit_advice", {
       messages: [
         {
           role: "system",
@@ -113,38 +120,17 @@ Respond in JSON format:
           content: prompt
         }
       ],
-      temperature: 0.6,
-      max_tokens: 600,
-      response_format: { type: "json_object" }
+      schema: exitAdviceSchema,
+      userId,
     });
 
-    const content = response.choices[0].message.content || '{}';
-    
-    // Strip markdown formatting if present
-    const cleanContent = content.replace(/^```json\n?/g, '').replace(/\n?```$/g, '').trim();
-    
-    const advice: ExitAdvice = JSON.parse(cleanContent);
-    
-    // Validate and sanitize
-    if (!advice.recommendation || !['HOLD', 'EXIT_PARTIAL', 'EXIT_ALL', 'TIGHTEN_STOP'].includes(advice.recommendation)) {
-      advice.recommendation = 'HOLD';
-    }
-    
-    if (typeof advice.confidence !== 'number' || isNaN(advice.confidence)) {
-      advice.confidence = 50;
-    }
-    
     advice.confidence = Math.max(0, Math.min(100, advice.confidence));
     
-    if (!Array.isArray(advice.keyPoints)) {
-      advice.keyPoints = [];
-    }
-    
     // Log AI interaction for transparency
     await aiAuditLogger.logAIInteraction({
       userId,
       featureType: 'exit_advisor',
-      modelVersion: 'gpt-4o-mini',
+      modelVersion: model,
       inputData: {
         position: positionContext,
         tradingDNA: dna,
@@ -0,0 +1,317 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { createAIProvider } from "./aiProviders";
+import { logAIUsage } from "./aiAuditService";
+
+/**
+ * AI Gateway
+ *
+ * Every LLM call goes through here, so models, limits and accounting live in one place:
+ * - Providers implement AIProvider (aiProviders.ts). AI_PROVIDER picks one ("openai" or
+ *   "stub"); without it the OpenAI provider is used when OPENAI_API_KEY is set and the
+ *   deterministic stub otherwise, so every AI route runs offline in development and tests
+ * - Each feature has its model, token limit, temperature and timeout in AI_FEATURES;
+ *   AI_MODEL overrides the model everywhere and AI_MODEL_<FEATURE> (e.g. AI_MODEL_BRIEFING)
+ *   for one feature
+ * - Timeouts, rate limits, server errors and responses that fail their schema are retried
+ *   with backoff; the last error is rethrown with its status and code
+ * - JSON responses are validated against the caller's zod schema (markdown fences stripped)
+ * - Every call, including failures, is written to ai_audit_logs with tokens, cost and latency
+ */
+
+export type AIFeature =
+  | "briefing"
+  | "sentiment"
+  | "pattern"
+  | "suggestion"
+  | "exit_advice"
+  | "trade_assistant"
+  | "journal"
+  | "mistake_prediction"
+  | "coaching"
+  | "insight"
+  | "timeframe_analysis"
+  | "news"
+  | "prediction"
+  | "optimization"
+  | "risk_advice"
+  | "correlation"
+  | "volatility"
+  | "position_sizing"
+  | "what_if";
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface AIProviderRequest {
+  feature: AIFeature;
+  model: string;
+  messages: AIMessage[];
+  maxTokens: number;
+  temperature: number;
+  json: boolean;
+  schema?: z.ZodTypeAny; // Expected JSON shape; the stub provider builds its response from it
+  stubText?: string; // The stub provider's text response
+  signal: AbortSignal;
+}
+
+export interface AIProviderResponse {
+  content: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  complete(request: AIProviderRequest): Promise<AIProviderResponse>;
+}
+
+export interface AIResult<T> {
+  data: T;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null; // Null for models without known pricing
+}
+
+interface AIRequest {
+  messages: AIMessage[];
+  userId?: string; // Attributes the call in ai_audit_logs
+  maxTokens?: number; // Overrides the feature's limit
+  temperature?: number;
+}
+
+interface FeatureConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_TIMEOUT_MS = 20000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export const AI_FEATURES: Record<AIFeature, FeatureConfig> = {
+  briefing: { model: DEFAULT_MODEL, maxTokens: 2000, temperature: 0.7, timeoutMs: 45000 },
+  sentiment: { model: DEFAULT_MODEL, maxTokens: 500, temperature: 0.3, timeoutMs: DEFAULT_TIMEOUT_MS },
+  pattern: { model: DEFAULT_MODEL, maxTokens: 1000, temperature: 0.3, timeoutMs: 30000 },
+  suggestion: { model: DEFAULT_MODEL, maxTokens: 1500, temperature: 0.4, timeoutMs: 30000 },
+  exit_advice: { model: DEFAULT_MODEL, maxTokens: 600, temperature: 0.6, timeoutMs: DEFAULT_TIMEOUT_MS },
+  trade_assistant: { model: DEFAULT_MODEL, maxTokens: 500, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  journal: { model: DEFAULT_MODEL, maxTokens: 800, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  mistake_prediction: { model: DEFAULT_MODEL, maxTokens: 500, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  coaching: { model: DEFAULT_MODEL, maxTokens: 600, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  insight: { model: DEFAULT_MODEL, maxTokens: 500, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  timeframe_analysis: { model: DEFAULT_MODEL, maxTokens: 1000, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  news: { model: DEFAULT_MODEL, maxTokens: 300, temperature: 0.5, timeoutMs: DEFAULT_TIMEOUT_MS },
+  prediction: { model: DEFAULT_MODEL, maxTokens: 400, temperature: 0.6, timeoutMs: DEFAULT_TIMEOUT_MS },
+  optimization: { model: DEFAULT_MODEL, maxTokens: 500, temperature: 0.6, timeoutMs: DEFAULT_TIMEOUT_MS },
+  risk_advice: { model: DEFAULT_MODEL, maxTokens: 300, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+  correlation: { model: DEFAULT_MODEL, maxTokens: 250, temperature: 0.3, timeoutMs: DEFAULT_TIMEOUT_MS },
+  volatility: { model: DEFAULT_MODEL, maxTokens: 400, temperature: 0.3, timeoutMs: DEFAULT_TIMEOUT_MS },
+  position_sizing: { model: DEFAULT_MODEL, maxTokens: 350, temperature: 0.3, timeoutMs: DEFAULT_TIMEOUT_MS },
+  what_if: { model: DEFAULT_MODEL, maxTokens: 300, temperature: 0.7, timeoutMs: DEFAULT_TIMEOUT_MS },
+};
+
+// USD per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  stub: { input: 0, output: 0 },
+};
+
+/**
+ * JSON text from a response that may wrap it in a markdown code fence
+ */
+export function stripMarkdownJson(content: string): string {
+  const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : content.trim();
+}
+
+function costOf(model: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return null;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+// Timeouts, network failures, rate limits and server errors are worth another attempt
+function isRetryable(error: any): boolean {
+  if (error?.invalidResponse) return true;
+  if (error?.name === "AbortError" || error?.name === "APIConnectionTimeoutError" || error?.name === "APIConnectionError") return true;
+  const status = error?.status;
+  if (status === undefined) return !error?.code; // Unknown failures without a code are usually transient
+  if (error?.code === "insufficient_quota") return false;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class AIGateway {
+  private provider: AIProvider | null = null;
+
+  /**
+   * The active provider's name ("openai" or "stub")
+   */
+  get providerName(): string {
+    return this.getProvider().name;
+  }
+
+  /**
+   * Swap the provider (tests pin the stub this way)
+   */
+  setProvider(provider: AIProvider): void {
+    this.provider = provider;
+  }
+
+  async completeText(feature: AIFeature, request: AIRequest & { stub?: string }): Promise<AIResult<string>> {
+    return this.complete(feature, request, false, content => content, request.stub);
+  }
+
+  async completeJson<S extends z.ZodTypeAny>(
+    feature: AIFeature,
+    request: AIRequest & { schema: S }
+  ): Promise<AIResult<z.infer<S>>> {
+    return this.complete(feature, request, true, content => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(stripMarkdownJson(content));
+      } catch {
+        throw Object.assign(new Error("AI response was not valid JSON"), { invalidResponse: true });
+      }
+      const result = request.schema.safeParse(parsed);
+      if (!result.success) {
+        const issue = result.error.errors[0];
+        throw Object.assign(
+          new Error(`AI response did not match the expected shape: ${issue.path.join(".") || "(root)"} ${issue.message}`),
+          { invalidResponse: true }
+        );
+      }
+      return result.data;
+    }, undefined, request.schema);
+  }
+
+  private getProvider(): AIProvider {
+    if (!this.provider) {
+      const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+      this.provider = createAIProvider(configured || (process.env.OPENAI_API_KEY ? "openai" : "stub"));
+      console.log(`[AI] Using ${this.provider.name} provider`);
+    }
+    return this.provider;
+  }
+
+  private resolveConfig(feature: AIFeature): FeatureConfig {
+    const config = AI_FEATURES[feature];
+    const model = process.env[`AI_MODEL_${feature.toUpperCase()}`] || process.env.AI_MODEL || config.model;
+    return { ...config, model };
+  }
+
+  private async complete<T>(
+    feature: AIFeature,
+    request: AIRequest,
+    json: boolean,
+    parse: (content: string) => T,
+    stubText?: string,
+    schema?: z.ZodTypeAny
+  ): Promise<AIResult<T>> {
+    const provider = this.getProvider();
+    const config = this.resolveConfig(feature);
+    const startedAt = Date.now();
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let model = provider.name === "stub" ? "stub" : config.model;
+    let lastError: any;
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      attempts = attempt;
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+      try {
+        const response = await provider.complete({
+          feature,
+          model: config.model,
+          messages: request.messages,
+          maxTokens: request.maxTokens ?? config.maxTokens,
+          temperature: request.temperature ?? config.temperature,
+          json,
+          schema,
+          stubText,
+          signal: controller.signal,
+        });
+        // Every attempt is billed, including ones whose response was rejected
+        promptTokens += response.promptTokens;
+        completionTokens += response.completionTokens;
+        model = response.model;
+
+        const data = parse(response.content);
+        const result: AIResult<T> = {
+          data,
+          provider: provider.name,
+          model,
+          promptTokens,
+          completionTokens,
+          costUsd: costOf(model, promptTokens, completionTokens),
+        };
+        await this.record(feature, request, result, attempt, Date.now() - startedAt, response.content);
+        return result;
+      } catch (error: any) {
+        lastError = controller.signal.aborted
+          ? Object.assign(new Error(`AI request timed out after ${config.timeoutMs}ms`), { name: "AbortError" })
+          : error;
+        if (attempt === MAX_ATTEMPTS || !isRetryable(lastError)) break;
+        console.warn(`[AI] ${feature} attempt ${attempt} failed (${lastError.message}), retrying`);
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    await this.record(
+      feature,
+      request,
+      { data: null, provider: provider.name, model, promptTokens, completionTokens, costUsd: costOf(model, promptTokens, completionTokens) },
+      attempts,
+      Date.now() - startedAt,
+      null,
+      lastError
+    );
+    throw lastError;
+  }
+
+  private async record(
+    feature: AIFeature,
+    request: AIRequest,
+    result: AIResult<unknown>,
+    attempts: number,
+    latencyMs: number,
+    content: string | null,
+    error?: any
+  ): Promise<void> {
+    await logAIUsage({
+      userId: request.userId,
+      featureType: feature,
+      provider: result.provider,
+      modelVersion: result.model,
+      promptHash: crypto.createHash("sha256").update(JSON.stringify(request.messages)).digest("hex"),
+      attempts,
+      promptTokens: result.promptTokens,
+      completionTokens: result.completionTokens,
+      costUsd: result.costUsd,
+      latencyMs,
+      output: content,
+      error: error?.message,
+    });
+  }
+}
+
+export const aiGateway = new AIGateway();
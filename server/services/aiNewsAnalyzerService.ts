@@ -1,11 +1,8 @@
 import { db } from '../db';
 import { newsAnalysis } from '@shared/schema';
 import { desc, and, eq, gte } from 'drizzle-orm';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
 
 interface NewsArticle {
   headline: string;
@@ -47,14 +44,12 @@ export async function fetchCryptoNews(symbol?: string): Promise<NewsArticle[]> {
 
 Make them timely and relevant.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  // Offline there are no headlines to invent, so the stub's text yields an empty list
+  const { data: aiHeadlines } = await aiGateway.completeText('news', {
     messages: [{ role: 'user', content: aiPrompt }],
-    max_tokens: 200,
+    maxTokens: 200,
     temperature: 0.8,
   });
-
-  const aiHeadlines = completion.choices[0].message.content || '';
   const headlines = aiHeadlines.split('\n').filter(line => line.trim().match(/^\d+\./));
 
   return headlines.map(headline => ({
@@ -72,6 +67,13 @@ interface NewsAnalysisResult {
   sourceUrl?: string;
 }
 
+const newsAnalysisSchema = z.object({
+  sentiment: z.enum(['neutral', 'bullish', 'bearish']).optional(),
+  impact: z.enum(['medium', 'high', 'low']).optional(),
+  insights: z.array(z.string()).optional(),
+  summary: z.string().optional(),
+});
+
 export async function analyzeNews(article: NewsArticle, symbol?: string): Promise<NewsAnalysisResult> {
   try {
     const analysisPrompt = `Analyze this crypto news headline and provide trading insights:
@@ -91,16 +93,11 @@ Format response as JSON:
   "summary": "Brief 1-2 sentence analysis"
 }`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data: aiResponse } = await aiGateway.completeJson('news', {
       messages: [{ role: 'user', content: analysisPrompt }],
-      max_tokens: 300,
-      temperature: 0.5,
-      response_format: { type: 'json_object' },
+      schema: newsAnalysisSchema,
     });
 
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
-
     const result: NewsAnalysisResult = {
       headline: article.headline,
       summary: aiResponse.summary || article.summary,
@@ -1,9 +1,17 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { storage } from "../storage";
+import { aiGateway } from "./aiGateway";
 import type { InsertTradingPattern, PaperOrder } from "@shared/schema";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+// Defaults to no patterns, so the offline stub never invents behaviour to store
+const patternsSchema = z.object({
+  patterns: z.array(z.object({
+    type: z.string(),
+    description: z.string().optional(),
+    frequency: z.number().int().min(1).optional(),
+    impact: z.enum(["neutral", "positive", "negative"]).optional(),
+    recommendation: z.string().optional(),
+  })).default([]),
 });
 
 export class PatternRecognitionService {
@@ -63,8 +71,7 @@ Provide a JSON array of patterns with:
   ]
 }`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const { data: result } = await aiGateway.completeJson("pattern", {
         messages: [
           {
             role: "system",
@@ -75,41 +82,38 @@ Provide a JSON array of patterns with:
             content: prompt
           }
         ],
-        temperature: 0.3,
-        response_format: { type: "json_object" }
+        schema: patternsSchema,
+        userId,
       });
 
-      const result = JSON.parse(completion.choices[0].message.content || "{}");
       const patterns: InsertTradingPattern[] = [];
 
-      if (result.patterns && Array.isArray(result.patterns)) {
-        for (const pattern of result.patterns) {
-          // Check if this pattern already exists
-          const existingPatterns = await storage.getPatternsByUserId(userId);
-          const existing = existingPatterns.find(p => p.patternType === pattern.type);
-
-          if (existing) {
-            // Update frequency of existing pattern
-            await storage.updatePatternFrequency(
-              existing.id,
-              existing.frequency + pattern.frequency,
-              new Date()
-            );
-          } else {
-            // Create new pattern
-            const newPattern: InsertTradingPattern = {
-              userId,
-              patternType: pattern.type,
-              description: pattern.description || `${pattern.type} pattern detected`,
-              frequency: pattern.frequency || 1,
-              impact: pattern.impact || "neutral",
-              recommendation: pattern.recommendation || "Monitor this pattern",
-              lastOccurrence: new Date()
-            };
-            
-            await storage.createTradingPattern(newPattern);
-            patterns.push(newPattern);
-          }
+      for (const pattern of result.patterns) {
+        // Check if this pattern already exists
+        const existingPatterns = await storage.getPatternsByUserId(userId);
+        const existing = existingPatterns.find(p => p.patternType === pattern.type);
+
+        if (existing) {
+          // Update frequency of existing pattern
+          await storage.updatePatternFrequency(
+            existing.id,
+            existing.frequency + (pattern.frequency || 1),
+            new Date()
+          );
+        } else {
+          // Create new pattern
+          const newPattern: InsertTradingPattern = {
+            userId,
+            patternType: pattern.type,
+            description: pattern.description || `${pattern.type} pattern detected`,
+            frequency: pattern.frequency || 1,
+            impact: pattern.impact || "neutral",
+            recommendation: pattern.recommendation || "Monitor this pattern",
+            lastOccurrence: new Date()
+          };
+          
+          await storage.createTradingPattern(newPattern);
+          patterns.push(newPattern);
         }
       }
 
@@ -1,10 +1,13 @@
 import { db } from '../db';
 import { portfolioOptimizations, paperPositions, paperWallets, trades } from '@shared/schema';
 import { eq, desc } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const allocationSchema = z.object({
+  suggested_allocation: z.record(z.number()).default({}),
+  reasoning: z.string().optional(),
+  expected_improvement: z.number().optional(),
 });
 
 interface AssetAllocation {
@@ -120,16 +123,12 @@ Format as JSON:
   "expected_improvement": 15
 }`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data: aiResponse } = await aiGateway.completeJson('optimization', {
       messages: [{ role: 'user', content: allocationPrompt }],
-      max_tokens: 500,
-      temperature: 0.6,
-      response_format: { type: 'json_object' },
+      schema: allocationSchema,
+      userId,
     });
-
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
-    const suggestedAllocation = aiResponse.suggested_allocation || {};
+    const suggestedAllocation = aiResponse.suggested_allocation;
 
     // Calculate rebalance actions
     const rebalanceActions: RebalanceAction[] = [];
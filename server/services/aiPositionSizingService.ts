@@ -1,37 +1,63 @@
 import { db } from '../db';
-import { positionSizing, trades, paperWallets, riskGuardSettings } from '@shared/schema';
+import { positionSizing, trades, paperWallets, paperPositions, riskGuardSettings } from '@shared/schema';
 import { eq, desc, and, gte } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
+import { fetchOHLCVData } from './binanceService';
+import { getPortfolioEquity } from './paperPortfolios';
+import { estimateVolatility, fixedFractionalSize, kellyFraction, logReturns } from './quantModels';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+type SizingMethod = 'kelly' | 'fixed_fractional' | 'position_limit' | 'default';
 
 interface PositionSizeRecommendation {
   symbol: string;
   suggestedSize: number; // USD amount
   suggestedPercentage: number; // % of portfolio
-  kellyPercentage?: number;
+  suggestedQuantity: number;
+  method: SizingMethod; // The constraint that set the size
+  kellyPercentage: number | null; // Null without enough closed trades
+  fixedFractionalPercentage: number | null;
+  stopLoss: number | null;
+  stopSource: 'user' | 'volatility' | null; // Volatility stops sit 2 daily standard deviations away
+  stopDistancePercent: number | null;
   winRate: number;
   riskRewardRatio: number;
+  tradeCount: number;
   reasoning: string;
+  riskAdvice?: string;
   maxRiskAmount: number;
 }
 
+// Kelly needs a track record; below this many closed trades sizing falls back to the stop
+const MIN_KELLY_TRADES = 10;
+const VOLATILITY_STOP_MULTIPLE = 2;
+
+const explanationSchema = z.object({
+  reasoning: z.string(),
+  risk_advice: z.string().optional(),
+});
+
 function calculateKellyCriterion(winRate: number, avgWin: number, avgLoss: number): number {
   if (avgLoss === 0) return 0;
-  
-  const winProbability = winRate / 100;
-  const lossProbability = 1 - winProbability;
-  const winLossRatio = avgWin / Math.abs(avgLoss);
-  
-  // Kelly Formula: (Win% * WinLossRatio - Loss%) / WinLossRatio
-  const kelly = (winProbability * winLossRatio - lossProbability) / winLossRatio;
-  
+
   // Use fractional Kelly (50%) for safety
-  return Math.max(0, Math.min(kelly * 0.5, 0.25)) * 100; // Return as percentage, max 25%
+  const kelly = kellyFraction(winRate / 100, avgWin / Math.abs(avgLoss));
+  return Math.min(kelly * 0.5, 0.25) * 100; // Return as percentage, max 25%
 }
 
+// Stop distance from daily volatility, for sizing trades placed without a stop
+async function volatilityStopDistance(symbol: string): Promise<number | null> {
+  const candles = await fetchOHLCVData(symbol, '1d', 91);
+  const returns = logReturns(candles.map(c => c.close));
+  if (returns.length < 30) return null;
+  return VOLATILITY_STOP_MULTIPLE * Math.sqrt(estimateVolatility(returns).nextVariance);
+}
+
+/**
+ * Size a position from the user's record and the stop: fixed-fractional risk to the stop,
+ * no more than half-Kelly when there is enough history, within Risk Guard's position limits.
+ * The LLM explains the size; it does not change it.
+ */
 export async function calculateOptimalPositionSize(
   userId: string,
   symbol: string,
@@ -80,87 +106,115 @@ export async function calculateOptimalPositionSize(
     const riskRewardRatio = avgLoss > 0 ? avgWin / avgLoss : 2;
 
     // Calculate Kelly Criterion percentage
-    const kellyPercentage = calculateKellyCriterion(winRate, avgWin, avgLoss);
+    const kellyPercentage = symbolTrades.length >= MIN_KELLY_TRADES && wins.length > 0 && losses.length > 0
+      ? calculateKellyCriterion(winRate, avgWin, avgLoss)
+      : null;
 
     // Get portfolio value
-    const portfolioValue = parseFloat(wallet.balance); // Simplified - should include positions
+    const positions = await db.query.paperPositions.findMany({
+      where: eq(paperPositions.walletId, wallet.id),
+    });
+    const portfolioValue = getPortfolioEquity(wallet, positions);
 
     // Calculate max risk per trade (from risk settings or default 2%)
     const maxRiskPercent = riskSettings && riskSettings.maxPositionSizePercent
       ? Math.min(parseFloat(riskSettings.maxPositionSizePercent), 5) // Cap at 5%
       : 2;
-
-    // Calculate position size based on stop loss risk
-    let suggestedPercentage = kellyPercentage || maxRiskPercent;
-    let maxRiskAmount = portfolioValue * (maxRiskPercent / 100);
-
-    if (stopLoss && stopLoss < entryPrice) {
-      // Calculate position size based on stop loss distance
-      const riskPerShare = entryPrice - stopLoss;
-      const riskPercentOfEntry = (riskPerShare / entryPrice) * 100;
-      
-      // Adjust position size based on stop loss distance
-      if (riskPercentOfEntry > 5) {
-        // Wider stop = smaller position
-        suggestedPercentage = Math.min(suggestedPercentage, maxRiskPercent * 0.5);
+    const maxRiskAmount = portfolioValue * (maxRiskPercent / 100);
+
+    // Fixed-fractional: lose maxRiskPercent of equity if the stop is hit
+    let stopSource: 'user' | 'volatility' | null = null;
+    let stopPrice: number | null = null;
+    if (stopLoss && stopLoss > 0 && stopLoss !== entryPrice) {
+      stopSource = 'user';
+      stopPrice = stopLoss;
+    } else {
+      const distance = await volatilityStopDistance(symbol);
+      if (distance !== null) {
+        stopSource = 'volatility';
+        stopPrice = entryPrice * (1 - distance);
       }
     }
-
-    // Ensure position size respects risk limits
-    suggestedPercentage = Math.min(suggestedPercentage, maxRiskPercent);
+    const fixedFractional = stopPrice !== null
+      ? fixedFractionalSize(portfolioValue, maxRiskPercent / 100, entryPrice, stopPrice)
+      : null;
+    const fixedFractionalPercentage = fixedFractional && portfolioValue > 0
+      ? (fixedFractional.positionValue / portfolioValue) * 100
+      : null;
+
+    // The smallest of the sizing rules, within Risk Guard's position limits
+    const candidates: { method: SizingMethod; percentage: number }[] = [];
+    if (fixedFractionalPercentage !== null) candidates.push({ method: 'fixed_fractional', percentage: fixedFractionalPercentage });
+    if (kellyPercentage !== null) candidates.push({ method: 'kelly', percentage: kellyPercentage });
+    if (candidates.length === 0) candidates.push({ method: 'default', percentage: maxRiskPercent });
+
+    const maxPositionPercent = parseFloat(riskSettings?.maxPositionSizePercent || '25');
+    const maxPositionAmount = parseFloat(riskSettings?.maxPositionSizeAmount || '2500');
+    if (portfolioValue > 0) {
+      candidates.push({
+        method: 'position_limit',
+        percentage: Math.min(maxPositionPercent, (maxPositionAmount / portfolioValue) * 100),
+      });
+    }
+    const { method, percentage: suggestedPercentage } = candidates.reduce((min, c) => c.percentage < min.percentage ? c : min);
     const suggestedSize = portfolioValue * (suggestedPercentage / 100);
+    const suggestedQuantity = entryPrice > 0 ? suggestedSize / entryPrice : 0;
+    const stopDistancePercent = fixedFractional ? fixedFractional.stopDistance * 100 : null;
 
-    // Use AI to validate and enhance recommendation
-    const positionSizePrompt = `As a risk management expert, validate this position sizing recommendation:
+    // Use AI to explain the recommendation
+    const positionSizePrompt = `As a risk management expert, explain this position sizing recommendation. The size is computed; do not change it.
 
 Symbol: ${symbol}
 Portfolio Value: $${portfolioValue.toFixed(2)}
-Suggested Position Size: ${suggestedPercentage.toFixed(1)}% ($${suggestedSize.toFixed(2)})
+Suggested Position Size: ${suggestedPercentage.toFixed(1)}% ($${suggestedSize.toFixed(2)}), set by ${method.replace('_', ' ')}
 
-Trading Statistics:
+Sizing Inputs:
+- Risk per Trade: ${maxRiskPercent}% ($${maxRiskAmount.toFixed(2)})
+- Stop: ${stopPrice !== null ? `$${stopPrice.toFixed(2)} (${stopDistancePercent!.toFixed(2)}% away, ${stopSource === 'user' ? 'set by the trader' : 'from 2x daily volatility'})` : 'none'}
+- Fixed-Fractional Size: ${fixedFractionalPercentage !== null ? fixedFractionalPercentage.toFixed(1) + '%' : 'n/a'}
+- Half-Kelly: ${kellyPercentage !== null ? kellyPercentage.toFixed(1) + '%' : `n/a (fewer than ${MIN_KELLY_TRADES} closed trades)`}
+- Position Limit: ${maxPositionPercent}% or $${maxPositionAmount}
+
+Trading Statistics (${symbolTrades.length} trades, 90 days):
 - Win Rate: ${winRate.toFixed(1)}%
 - Risk/Reward Ratio: ${riskRewardRatio.toFixed(2)}:1
-- Kelly Criterion: ${kellyPercentage.toFixed(1)}%
-- Max Risk Setting: ${maxRiskPercent}%
 
 Entry Price: $${entryPrice}
-Stop Loss: ${stopLoss ? '$' + stopLoss : 'Not set'}
-
-Provide:
-1. Final recommendation (approve, reduce, or increase with reasoning)
-2. Specific risk management advice
 
 Format as JSON:
 {
-  "approved": true/false,
-  "adjustment_factor": 1.0,
   "reasoning": "...",
   "risk_advice": "..."
 }`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: positionSizePrompt }],
-      max_tokens: 350,
-      temperature: 0.5,
-      response_format: { type: 'json_object' },
-    });
-
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
-
-    // Apply AI adjustment
-    const adjustmentFactor = aiResponse.adjustment_factor || 1.0;
-    const finalSuggestedSize = suggestedSize * adjustmentFactor;
-    const finalSuggestedPercentage = suggestedPercentage * adjustmentFactor;
+    let aiResponse: Partial<z.infer<typeof explanationSchema>> = {};
+    try {
+      const { data } = await aiGateway.completeJson('position_sizing', {
+        messages: [{ role: 'user', content: positionSizePrompt }],
+        schema: explanationSchema,
+        userId,
+      });
+      aiResponse = data;
+    } catch (error: any) {
+      console.error('Error explaining position size:', error.message || error);
+    }
 
     const recommendation: PositionSizeRecommendation = {
       symbol,
-      suggestedSize: finalSuggestedSize,
-      suggestedPercentage: finalSuggestedPercentage,
+      suggestedSize,
+      suggestedPercentage,
+      suggestedQuantity,
+      method,
       kellyPercentage,
+      fixedFractionalPercentage,
+      stopLoss: stopPrice,
+      stopSource,
+      stopDistancePercent,
       winRate,
       riskRewardRatio,
-      reasoning: aiResponse.reasoning || `Based on ${winRate.toFixed(1)}% win rate and Kelly Criterion, recommended size is ${finalSuggestedPercentage.toFixed(1)}% of portfolio`,
+      tradeCount: symbolTrades.length,
+      reasoning: aiResponse.reasoning || `Sized at ${suggestedPercentage.toFixed(1)}% of portfolio by ${method.replace('_', ' ')}, risking at most ${maxRiskPercent}% to the stop`,
+      riskAdvice: aiResponse.risk_advice,
       maxRiskAmount,
     };
 
@@ -168,13 +222,13 @@ Format as JSON:
     await db.insert(positionSizing).values({
       userId,
       symbol,
-      suggestedSize: finalSuggestedSize.toString(),
-      suggestedPercentage: finalSuggestedPercentage.toString(),
-      kellyPercentage: kellyPercentage.toString(),
-      winRate: winRate.toString(),
-      riskRewardRatio: riskRewardRatio.toString(),
+      suggestedSize: suggestedSize.toFixed(2),
+      suggestedPercentage: suggestedPercentage.toFixed(2),
+      kellyPercentage: kellyPercentage !== null ? kellyPercentage.toFixed(2) : null,
+      winRate: winRate.toFixed(2),
+      riskRewardRatio: Math.min(riskRewardRatio, 999).toFixed(2),
       reasoning: recommendation.reasoning,
-      maxRiskAmount: maxRiskAmount.toString(),
+      maxRiskAmount: maxRiskAmount.toFixed(2),
     });
 
     return recommendation;
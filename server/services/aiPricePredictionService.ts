@@ -1,12 +1,24 @@
 import { db } from '../db';
 import { pricePredictions } from '@shared/schema';
 import { eq, desc, and, gte } from 'drizzle-orm';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
+import { getTechnicalSnapshot, formatTechnicalSnapshot } from './technicalSnapshot';
+
+const predictionSchema = z.object({
+  predicted_price: z.number().optional(),
+  confidence: z.number().min(0).max(100).optional(),
+  price_range: z.object({ min: z.number(), max: z.number() }).optional(),
+  factors: z.array(z.string()).optional(),
 });
 
+// Candle interval the technicals are read from for each forecast horizon
+const TECHNICALS_INTERVAL: Record<PriceForecast['timeframe'], string> = {
+  '1h': '1h',
+  '4h': '1h',
+  '24h': '4h',
+};
+
 interface PriceForecast {
   symbol: string;
   timeframe: '1h' | '4h' | '24h';
@@ -28,6 +40,15 @@ export async function generatePricePrediction(
   }
 ) {
   try {
+    // Indicators are optional context: a candle fetch failure shouldn't block the forecast
+    const technicals = await getTechnicalSnapshot(symbol, TECHNICALS_INTERVAL[timeframe]).catch(error => {
+      console.error(`Error computing technicals for ${symbol}:`, error);
+      return null;
+    });
+    const technicalsSection = technicals
+      ? `\nTechnical Indicators (${technicals.interval} candles):\n${formatTechnicalSnapshot(technicals)}\n`
+      : '';
+
     // Use AI to analyze market conditions and predict price
     const predictionPrompt = `As a crypto market analyst, predict ${symbol} price movement for the next ${timeframe}:
 
@@ -35,7 +56,7 @@ Current Market Data:
 - Current Price: $${currentPrice}
 - 24h Volume: ${marketData?.volume24h ? '$' + marketData.volume24h.toLocaleString() : 'N/A'}
 - 24h Change: ${marketData?.priceChange24h ? marketData.priceChange24h.toFixed(2) + '%' : 'N/A'}
-
+${technicalsSection}
 Provide prediction with:
 1. Predicted price
 2. Confidence level (0-100)
@@ -50,16 +71,11 @@ Format as JSON:
   "factors": ["...", "...", "..."]
 }`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data: aiResponse } = await aiGateway.completeJson('prediction', {
       messages: [{ role: 'user', content: predictionPrompt }],
-      max_tokens: 400,
-      temperature: 0.6,
-      response_format: { type: 'json_object' },
+      schema: predictionSchema,
     });
 
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
-
     // Calculate realistic prediction based on current price and AI suggestion
     const volatilityFactor = {
       '1h': 0.02,  // 2% max change
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+import { z } from "zod";
+import type { AIProvider, AIProviderRequest, AIProviderResponse } from "./aiGateway";
+
+/**
+ * AI Providers
+ *
+ * Each provider turns a gateway request into one completion. Models, retries, validation
+ * and accounting are the gateway's job.
+ */
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = "openai";
+  private client: OpenAI | null = null;
+
+  async complete(request: AIProviderRequest): Promise<AIProviderResponse> {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 }); // The gateway retries
+    }
+
+    const completion = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      content: completion.choices[0]?.message?.content || "",
+      model: completion.model || request.model,
+      promptTokens: completion.usage?.prompt_tokens ?? 0,
+      completionTokens: completion.usage?.completion_tokens ?? 0,
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider: the same request always gets the same response, with no
+ * network and no API key
+ * - JSON requests get the smallest value that satisfies the caller's schema: numbers at the
+ *   middle of their allowed range, the first enum option, one item per array
+ * - Text requests get the caller's stub text, or a fixed line naming the feature
+ * Token counts are estimated at four characters per token.
+ */
+export class StubProvider implements AIProvider {
+  readonly name = "stub";
+
+  async complete(request: AIProviderRequest): Promise<AIProviderResponse> {
+    const content = request.json
+      ? JSON.stringify(request.schema ? stubFromSchema(request.schema, request.feature) : {})
+      : request.stubText ?? `[offline] ${request.feature.replace(/_/g, " ")} is unavailable without an AI provider.`;
+
+    const promptLength = request.messages.reduce((sum, m) => sum + m.content.length, 0);
+    return {
+      content,
+      model: "stub",
+      promptTokens: Math.ceil(promptLength / 4),
+      completionTokens: Math.ceil(content.length / 4),
+    };
+  }
+}
+
+function numberInRange(checks: { kind: string; value?: number; inclusive?: boolean }[], isInt: boolean): number {
+  const min = checks.find(c => c.kind === "min")?.value;
+  const max = checks.find(c => c.kind === "max")?.value;
+  let value = min !== undefined && max !== undefined ? (min + max) / 2 : min ?? (max !== undefined ? Math.min(0, max) : 0);
+  if (isInt || checks.some(c => c.kind === "int")) value = Math.ceil(value);
+  return value;
+}
+
+/**
+ * A value the schema accepts, built from its definition
+ */
+export function stubFromSchema(schema: z.ZodTypeAny, label: string): unknown {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      return Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, stubFromSchema(value as z.ZodTypeAny, key)]));
+    }
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const minLength = def.checks.find((c: any) => c.kind === "min")?.value ?? 0;
+      const text = `Offline ${label.replace(/_/g, " ")}`;
+      return text.length >= minLength ? text : text.padEnd(minLength, ".");
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberInRange(def.checks, false);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return false;
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const count = Math.max(1, def.minLength?.value ?? 0);
+      return Array.from({ length: count }, () => stubFromSchema(def.type, label));
+    }
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return def.values[0];
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value;
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return stubFromSchema(def.options[0], label);
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return stubFromSchema(def.innerType, label);
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return def.defaultValue();
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return stubFromSchema(def.schema, label);
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return {};
+    default:
+      // Anything else is rare in response schemas; a stable hash keeps it deterministic
+      return crypto.createHash("sha256").update(label).digest("hex").slice(0, 8);
+  }
+}
+
+export function createAIProvider(name: string): AIProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider();
+    case "stub":
+      return new StubProvider();
+    default:
+      console.warn(`[AI] Unknown AI_PROVIDER "${name}" - using the offline stub`);
+      return new StubProvider();
+  }
+}
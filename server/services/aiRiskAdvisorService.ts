@@ -1,11 +1,7 @@
 import { db } from '../db';
 import { riskAssessments, paperPositions, paperWallets, trades } from '@shared/schema';
 import { eq, desc, and, gte } from 'drizzle-orm';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { aiGateway } from './aiGateway';
 
 interface PortfolioAnalysis {
   positions: Array<{
@@ -220,15 +216,12 @@ ${warnings.map(w => `- ${w.message}`).join('\n')}
 
 Provide 2-3 specific, actionable risk management recommendations based on this data. Be concise and practical.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    // The offline stub's line is not a list item, so only the rule-based recommendations remain
+    const { data: aiRecommendations } = await aiGateway.completeText('risk_advice', {
       messages: [{ role: 'user', content: aiPrompt }],
-      max_tokens: 300,
-      temperature: 0.7,
+      userId,
     });
 
-    const aiRecommendations = completion.choices[0].message.content || '';
-
     // Parse AI recommendations into structured format
     const aiRecLines = aiRecommendations.split('\n').filter(line => line.trim().startsWith('-') || line.trim().match(/^\d+\./));
     aiRecLines.forEach((line, idx) => {
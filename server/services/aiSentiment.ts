@@ -1,9 +1,13 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { storage } from "../storage";
+import { aiGateway } from "./aiGateway";
 import type { InsertMarketSentiment } from "@shared/schema";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const sentimentSchema = z.object({
+  sentiment: z.enum(["neutral", "bullish", "bearish"]),
+  score: z.number().min(-100).max(100),
+  analysis: z.string(),
+  key_factors: z.array(z.string()).default([]),
 });
 
 interface NewsArticle {
@@ -82,7 +86,7 @@ export class AISentimentService {
   }
 
   /**
-   * Analyze market sentiment using OpenAI
+   * Analyze market sentiment with the AI gateway
    */
   async analyzeSentiment(
     symbol: string,
@@ -106,8 +110,7 @@ Provide a JSON response with:
 
 Format: {"sentiment": "...", "score": X, "analysis": "...", "key_factors": [...]}`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const { data: result } = await aiGateway.completeJson("sentiment", {
         messages: [
           {
             role: "system",
@@ -118,23 +121,20 @@ Format: {"sentiment": "...", "score": X, "analysis": "...", "key_factors": [...]
             content: prompt
           }
         ],
-        temperature: 0.3,
-        response_format: { type: "json_object" }
+        schema: sentimentSchema,
       });
 
-      const result = JSON.parse(completion.choices[0].message.content || "{}");
-
       return {
         symbol,
-        sentiment: result.sentiment || "neutral",
-        score: result.score?.toString() || "0",
-        analysis: result.analysis || "Unable to determine sentiment",
+        sentiment: result.sentiment,
+        score: result.score.toString(),
+        analysis: result.analysis,
         newsHeadlines: JSON.stringify(newsArticles.map(a => ({
           title: a.title,
           source: a.source.title,
           published_at: a.published_at
         }))),
-        technicalFactors: JSON.stringify(result.key_factors || [])
+        technicalFactors: JSON.stringify(result.key_factors)
       };
     } catch (error) {
       console.error("Error analyzing sentiment:", error);
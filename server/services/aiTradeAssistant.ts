@@ -1,9 +1,7 @@
-import OpenAI from "openai";
 import { calculateTradingDNA } from "./tradingDNA";
 import { storage } from "../storage";
 import { aiAuditLogger } from "./aiAuditLogger";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { aiGateway } from "./aiGateway";
 
 interface TradeContext {
   symbol: string;
@@ -99,8 +97,14 @@ INSTRUCTIONS:
 
 Response format: Direct answer, then brief analysis with clear recommendations.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    // Offline the assistant can still restate the setup's risk figures
+    const stub = [
+      `AI advice is unavailable offline. This ${tradeContext.side} uses ${positionSize.toFixed(1)}% of your available balance.`,
+      tradeContext.stopLoss ? (riskRewardRatio > 0 ? `Risk/reward is 1:${riskRewardRatio.toFixed(2)}.` : "") : "No stop loss is set.",
+      tradeContext.takeProfit ? "" : "No take profit is set.",
+    ].filter(Boolean).join(" ");
+
+    const { data: advice, model } = await aiGateway.completeText("trade_assistant", {
       messages: [
         {
           role: "system",
@@ -111,17 +115,15 @@ Response format: Direct answer, then brief analysis with clear recommendations.`
           content: prompt
         }
       ],
-      temperature: 0.7,
-      max_tokens: 500,
+      userId,
+      stub,
     });
-
-    const advice = response.choices[0].message.content || "Unable to generate advice at this time.";
     
     // Log AI interaction for transparency
     await aiAuditLogger.logAIInteraction({
       userId,
       featureType: 'trade_assistant',
-      modelVersion: 'gpt-4o-mini',
+      modelVersion: model,
       inputData: {
         question,
         tradeContext,
@@ -1,10 +1,17 @@
 import { db } from '../db';
 import { tradeJournalEntries, paperOrders, tradingPatterns } from '@shared/schema';
 import { eq, and, desc, sql } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const journalInsightsSchema = z.object({
+  insights: z.array(z.string()),
+  lessons: z.array(z.string()),
+  mistakes: z.array(z.string()).default([]),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()).default([]),
+  emotionalState: z.enum(['neutral', 'calm', 'stressed', 'confident', 'fearful']),
+  strategicAlignment: z.number().min(0).max(100),
 });
 
 interface TradeData {
@@ -185,8 +192,7 @@ Analyze this trade and provide insights in JSON format:
 
 Be specific, actionable, and honest. Focus on learning and improvement.`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data } = await aiGateway.completeJson('journal', {
       messages: [
         {
           role: 'system',
@@ -194,11 +200,11 @@ Be specific, actionable, and honest. Focus on learning and improvement.`;
         },
         { role: 'user', content: prompt },
       ],
-      temperature: 0.7,
-      response_format: { type: 'json_object' },
+      schema: journalInsightsSchema,
+      userId: tradeData.userId,
     });
 
-    return JSON.parse(response.choices[0].message.content || '{}');
+    return data;
   },
 
   /**
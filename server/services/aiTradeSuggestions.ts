@@ -1,11 +1,27 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { storage } from "../storage";
 import { aiSentimentService } from "./aiSentiment";
 import { patternRecognitionService } from "./aiPatternRecognition";
 import type { InsertAITradeSuggestion, MarketSentiment } from "@shared/schema";
+import { riskPolicyEngine, type RiskPolicyResult } from "./riskPolicy";
+import { getMarketPrice } from "./paperTrading";
+import { aiGateway } from "./aiGateway";
+import { userEvents } from "./userEvents";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+// Defaults to no suggestions, so the offline stub never proposes a trade
+const suggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    symbol: z.string(),
+    action: z.enum(["buy", "sell"]),
+    suggested_quantity: z.number().optional(),
+    entry_price: z.number().optional(),
+    target_price: z.number().optional(),
+    stop_loss: z.number().optional(),
+    risk_reward_ratio: z.number().optional(),
+    reasoning: z.string().optional(),
+    confidence: z.number().min(0).max(100),
+    risk_level: z.enum(["low", "medium", "high"]).optional(),
+  })).default([]),
 });
 
 export class AITradeSuggestionsService {
@@ -125,8 +141,7 @@ Provide JSON with:
 
 Only suggest trades with confidence > 60. Max 3 suggestions. ALWAYS include entry_price, target_price, stop_loss, and risk_reward_ratio.`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const { data: result } = await aiGateway.completeJson("suggestion", {
         messages: [
           {
             role: "system",
@@ -137,62 +152,65 @@ Only suggest trades with confidence > 60. Max 3 suggestions. ALWAYS include entr
             content: prompt
           }
         ],
-        temperature: 0.4,
-        response_format: { type: "json_object" }
+        schema: suggestionsSchema,
+        userId,
       });
 
-      const result = JSON.parse(completion.choices[0].message.content || "{}");
       const suggestions: InsertAITradeSuggestion[] = [];
 
-      if (result.suggestions && Array.isArray(result.suggestions)) {
-        for (const suggestion of result.suggestions) {
-          if (suggestion.confidence >= 60) {
-            const currentPrice = currentPrices[suggestion.symbol];
-            
-            // Use AI-provided prices or fallback to current price
-            const entryPrice = suggestion.entry_price || currentPrice;
-            const targetPrice = suggestion.target_price || (entryPrice * 1.05); // 5% default target
-            const stopLoss = suggestion.stop_loss || (entryPrice * 0.97); // 3% default stop
-            
-            // Calculate risk/reward ratio with safety checks
-            let riskRewardRatio = 0;
-            if (suggestion.risk_reward_ratio) {
-              riskRewardRatio = suggestion.risk_reward_ratio;
-            } else {
-              const risk = entryPrice - stopLoss;
-              const reward = targetPrice - entryPrice;
-              // Only calculate if risk is meaningful (> 0.01% of entry price)
-              if (Math.abs(risk) > entryPrice * 0.0001) {
-                riskRewardRatio = reward / risk;
-                // Cap ratio at reasonable bounds (-100 to 100)
-                riskRewardRatio = Math.max(-100, Math.min(100, riskRewardRatio));
-              }
+      for (const suggestion of result.suggestions) {
+        if (suggestion.confidence >= 60) {
+          const currentPrice = currentPrices[suggestion.symbol];
+          
+          // Use AI-provided prices or fallback to current price
+          const entryPrice = suggestion.entry_price || currentPrice;
+          const targetPrice = suggestion.target_price || (entryPrice * 1.05); // 5% default target
+          const stopLoss = suggestion.stop_loss || (entryPrice * 0.97); // 3% default stop
+          
+          // Calculate risk/reward ratio with safety checks
+          let riskRewardRatio = 0;
+          if (suggestion.risk_reward_ratio) {
+            riskRewardRatio = suggestion.risk_reward_ratio;
+          } else {
+            const risk = entryPrice - stopLoss;
+            const reward = targetPrice - entryPrice;
+            // Only calculate if risk is meaningful (> 0.01% of entry price)
+            if (Math.abs(risk) > entryPrice * 0.0001) {
+              riskRewardRatio = reward / risk;
+              // Cap ratio at reasonable bounds (-100 to 100)
+              riskRewardRatio = Math.max(-100, Math.min(100, riskRewardRatio));
             }
-            
-            const newSuggestion: InsertAITradeSuggestion = {
-              userId,
-              symbol: suggestion.symbol,
-              action: suggestion.action,
-              suggestedQuantity: suggestion.suggested_quantity?.toString() || "0.01",
-              suggestedPrice: currentPrice?.toString() || "0",
-              suggestedEntry: entryPrice?.toString() || "0",
-              targetPrice: targetPrice?.toString() || "0",
-              stopLoss: stopLoss?.toString() || "0",
-              riskRewardRatio: riskRewardRatio?.toString() || "0",
-              reasoning: suggestion.reasoning || "AI-generated suggestion",
-              confidence: suggestion.confidence?.toString() || "60",
-              status: "active",
-              marketConditions: JSON.stringify({
-                sentiment: sentiments.find(s => s.symbol === suggestion.symbol)?.sentiment,
-                price: currentPrice,
-                riskLevel: suggestion.risk_level
-              })
-            };
-            
-            // Store suggestion in database
-            await storage.createAITradeSuggestion(newSuggestion);
-            suggestions.push(newSuggestion);
           }
+          
+          const newSuggestion: InsertAITradeSuggestion = {
+            userId,
+            symbol: suggestion.symbol,
+            action: suggestion.action,
+            suggestedQuantity: suggestion.suggested_quantity?.toString() || "0.01",
+            suggestedPrice: currentPrice?.toString() || "0",
+            suggestedEntry: entryPrice?.toString() || "0",
+            targetPrice: targetPrice?.toString() || "0",
+            stopLoss: stopLoss?.toString() || "0",
+            riskRewardRatio: riskRewardRatio?.toString() || "0",
+            reasoning: suggestion.reasoning || "AI-generated suggestion",
+            confidence: suggestion.confidence?.toString() || "60",
+            status: "active",
+            marketConditions: JSON.stringify({
+              sentiment: sentiments.find(s => s.symbol === suggestion.symbol)?.sentiment,
+              price: currentPrice,
+              riskLevel: suggestion.risk_level
+            })
+          };
+          
+          // Store suggestion in database
+          await storage.createAITradeSuggestion(newSuggestion);
+          suggestions.push(newSuggestion);
+          userEvents.publish(userId, "ai_suggestion", {
+            symbol: newSuggestion.symbol,
+            action: newSuggestion.action,
+            confidence: newSuggestion.confidence ?? "60",
+            reasoning: newSuggestion.reasoning,
+          });
         }
       }
 
@@ -217,11 +235,37 @@ Only suggest trades with confidence > 60. Max 3 suggestions. ALWAYS include entr
   }
 
   /**
-   * Mark a suggestion as executed
+   * Check a suggestion's trade against the risk policy and mark it executed if allowed.
+   * The quantity is the one the user is about to trade, defaulting to the suggested quantity.
    */
-  async executeSuggestion(suggestionId: string): Promise<void> {
+  async executeSuggestion(
+    userId: string,
+    suggestionId: string,
+    quantity?: number
+  ): Promise<{ success: boolean; error?: string; status?: number; risk?: RiskPolicyResult }> {
     try {
+      const suggestion = await storage.getAITradeSuggestionById(suggestionId);
+      if (!suggestion) {
+        return { success: false, error: "Suggestion not found", status: 404 };
+      }
+      if (suggestion.userId !== userId) {
+        return { success: false, error: "Forbidden: You can only execute your own suggestions", status: 403 };
+      }
+
+      const price = parseFloat(suggestion.suggestedEntry || suggestion.suggestedPrice || "0") || getMarketPrice(suggestion.symbol);
+      const risk = await riskPolicyEngine.evaluateOrder(userId, {
+        symbol: suggestion.symbol,
+        side: suggestion.action === "sell" ? "sell" : "buy",
+        quantity: quantity ?? parseFloat(suggestion.suggestedQuantity || "0"),
+        price,
+        channel: "ai_suggestion",
+      });
+      if (!risk.allowed) {
+        return { success: false, error: risk.reason, status: 403, risk };
+      }
+
       await storage.updateSuggestionStatus(suggestionId, "executed");
+      return { success: true, risk };
     } catch (error) {
       console.error("Error executing suggestion:", error);
       throw error;
@@ -1,10 +1,18 @@
 import { db } from '../db';
 import { coachingInsights, trades, tradingPatterns } from '@shared/schema';
 import { eq, desc, and, gte } from 'drizzle-orm';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
+
+// Defaults to no insights; the rule-based mistake insights below still apply offline
+const coachingSchema = z.object({
+  insights: z.array(z.object({
+    category: z.string().optional(),
+    title: z.string().optional(),
+    message: z.string().optional(),
+    priority: z.enum(['medium', 'high', 'low']).optional(),
+    actionItems: z.array(z.string()).optional(),
+  })).default([]),
 });
 
 interface TradingMistake {
@@ -173,27 +181,25 @@ Provide 3 specific, actionable coaching insights with:
 4. Priority (high/medium/low)
 5. Action items (2-3 specific steps)
 
-Format as JSON array:
-[
-  {
-    "category": "...",
-    "title": "...",
-    "message": "...",
-    "priority": "...",
-    "actionItems": ["...", "..."]
-  }
-]`;
+Format as JSON:
+{
+  "insights": [
+    {
+      "category": "...",
+      "title": "...",
+      "message": "...",
+      "priority": "...",
+      "actionItems": ["...", "..."]
+    }
+  ]
+}`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data: aiResponse } = await aiGateway.completeJson('coaching', {
       messages: [{ role: 'user', content: coachingPrompt }],
-      max_tokens: 600,
-      temperature: 0.7,
-      response_format: { type: 'json_object' },
+      schema: coachingSchema,
+      userId,
     });
-
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
-    const insights = aiResponse.insights || [];
+    const insights = aiResponse.insights;
 
     // Save coaching insights to database
     for (const insight of insights) {
@@ -1,83 +1,68 @@
 import { db } from '../db';
 import { volatilityForecasts } from '@shared/schema';
 import { eq, desc } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { aiGateway } from './aiGateway';
+import { fetchOHLCVData } from './binanceService';
+import { estimateVolatility, forecastVariance, logReturns, sampleVariance } from './quantModels';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+type Timeframe = '4h' | '24h' | '7d';
 
 interface VolatilityForecast {
   symbol: string;
   currentVolatility: number;
   predictedVolatility: number;
-  timeframe: '4h' | '24h' | '7d';
+  longRunVolatility: number;
+  timeframe: Timeframe;
+  model: 'garch' | 'ewma';
+  modelParams: Record<string, number>;
+  observations: number;
   volatilityTrend: 'increasing' | 'decreasing' | 'stable';
   tradingRecommendation: 'reduce_exposure' | 'normal' | 'opportunity';
+  llmPredictedVolatility: number | null;
+  explanation: string;
   bestTimeToTrade?: { start: string; end: string }[];
 }
 
-function calculateVolatility(priceData: number[]): number {
-  if (priceData.length < 2) return 0;
+// Candles behind each timeframe: the forecast covers `steps` candles of `interval`
+const TIMEFRAMES: Record<Timeframe, { interval: string; steps: number; limit: number }> = {
+  '4h': { interval: '4h', steps: 1, limit: 180 },
+  '24h': { interval: '4h', steps: 6, limit: 180 },
+  '7d': { interval: '1d', steps: 7, limit: 365 },
+};
+
+const explanationSchema = z.object({
+  explanation: z.string(),
+  llm_predicted_volatility: z.number().nullable().optional(),
+  best_time_to_trade: z.array(z.object({ start: z.string(), end: z.string() })).optional(),
+});
 
-  const returns = [];
-  for (let i = 1; i < priceData.length; i++) {
-    returns.push((priceData[i] - priceData[i - 1]) / priceData[i - 1]);
-  }
+// Realized volatility is measured over the most recent candles
+const REALIZED_WINDOW = 30;
 
-  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
-  const stdDev = Math.sqrt(variance);
+const toPercent = (variance: number) => Math.sqrt(Math.max(variance, 0)) * 100;
 
-  return stdDev * 100; // Convert to percentage
-}
-
-export async function generateVolatilityForecast(
-  symbol: string,
-  currentPrice: number,
-  historicalPrices: number[],
-  timeframe: '4h' | '24h' | '7d'
-) {
+/**
+ * Forecast volatility over a timeframe from OHLCV history (GARCH(1,1), or EWMA on short
+ * history). The LLM explains the forecast; its own estimate is stored alongside, not used.
+ */
+export async function generateVolatilityForecast(symbol: string, timeframe: Timeframe) {
   try {
-    // Calculate current volatility from historical data
-    const currentVolatility = calculateVolatility(historicalPrices);
-
-    // Use AI to predict future volatility
-    const forecastPrompt = `As a market volatility expert, forecast ${symbol} volatility for the next ${timeframe}:
-
-Current Data:
-- Current Price: $${currentPrice}
-- Current Volatility: ${currentVolatility.toFixed(2)}%
-- Price Range (recent): $${Math.min(...historicalPrices)} - $${Math.max(...historicalPrices)}
-
-Analyze and predict:
-1. Expected volatility level
-2. Volatility trend (increasing/decreasing/stable)
-3. Trading recommendation (reduce_exposure/normal/opportunity)
-4. Best trading time windows if applicable
-
-Format as JSON:
-{
-  "predicted_volatility": 0,
-  "volatility_trend": "...",
-  "trading_recommendation": "...",
-  "best_time_to_trade": [{"start": "09:00", "end": "11:00"}],
-  "reasoning": "..."
-}`;
-
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: forecastPrompt }],
-      max_tokens: 400,
-      temperature: 0.6,
-      response_format: { type: 'json_object' },
-    });
+    const config = TIMEFRAMES[timeframe];
+    const candles = await fetchOHLCVData(symbol, config.interval, config.limit);
+    const returns = logReturns(candles.map(c => c.close));
+    if (returns.length < REALIZED_WINDOW) {
+      throw new Error(`Not enough price history for ${symbol} to forecast volatility`);
+    }
 
-    const aiResponse = JSON.parse(completion.choices[0].message.content || '{}');
+    const estimate = estimateVolatility(returns);
+    const currentVolatility = toPercent(sampleVariance(returns.slice(-REALIZED_WINDOW)) * config.steps);
+    const predictedVolatility = toPercent(forecastVariance(estimate, config.steps));
+    const longRunVolatility = toPercent(estimate.longRunVariance * config.steps);
+    const modelParams: Record<string, number> = estimate.params
+      ? { omega: estimate.params.omega, alpha: estimate.params.alpha, beta: estimate.params.beta }
+      : { lambda: estimate.lambda! };
 
-    // Calculate realistic prediction
-    const predictedVolatility = aiResponse.predicted_volatility || currentVolatility * 1.1;
-    
     let volatilityTrend: 'increasing' | 'decreasing' | 'stable';
     if (predictedVolatility > currentVolatility * 1.15) {
       volatilityTrend = 'increasing';
@@ -87,31 +72,80 @@ Format as JSON:
       volatilityTrend = 'stable';
     }
 
-    // Determine trading recommendation
+    // Measured against the asset's own long-run level, so BTC and small caps are judged alike
     let tradingRecommendation: 'reduce_exposure' | 'normal' | 'opportunity';
-    if (predictedVolatility > 15) {
-      tradingRecommendation = 'reduce_exposure'; // High volatility = risk
-    } else if (predictedVolatility < 5) {
-      tradingRecommendation = 'opportunity'; // Low volatility = potential breakout
+    if (predictedVolatility > longRunVolatility * 1.25) {
+      tradingRecommendation = 'reduce_exposure'; // Elevated volatility = risk
+    } else if (predictedVolatility < longRunVolatility * 0.8) {
+      tradingRecommendation = 'opportunity'; // Compressed volatility = potential breakout
     } else {
       tradingRecommendation = 'normal';
     }
 
+    const explainPrompt = `As a market volatility expert, explain this ${timeframe} volatility forecast for ${symbol}. The figures are computed; do not change them.
+
+Computed Forecast:
+- Model: ${estimate.model === 'garch'
+      ? `GARCH(1,1) (alpha ${modelParams.alpha.toFixed(2)}, beta ${modelParams.beta.toFixed(2)})`
+      : `EWMA (lambda ${modelParams.lambda})`}
+- Candles: ${returns.length + 1} x ${config.interval}
+- Realized volatility (last ${REALIZED_WINDOW} candles): ${currentVolatility.toFixed(2)}%
+- Forecast volatility: ${predictedVolatility.toFixed(2)}%
+- Long-run volatility: ${longRunVolatility.toFixed(2)}%
+- Trend: ${volatilityTrend}
+- Recommendation: ${tradingRecommendation}
+
+Explain in 2-3 sentences what this means for a trader. Separately, give your own independent estimate of ${timeframe} volatility in % (it is stored for comparison only) and any time windows (UTC) that tend to be calmer.
+
+Format as JSON:
+{
+  "explanation": "...",
+  "llm_predicted_volatility": 0,
+  "best_time_to_trade": [{"start": "09:00", "end": "11:00"}]
+}`;
+
+    let aiResponse: Partial<z.infer<typeof explanationSchema>> = {};
+    try {
+      const { data } = await aiGateway.completeJson('volatility', {
+        messages: [{ role: 'user', content: explainPrompt }],
+        schema: explanationSchema,
+      });
+      aiResponse = data;
+    } catch (error: any) {
+      console.error('Error explaining volatility forecast:', error.message || error);
+    }
+
+    const llmPredictedVolatility = aiResponse.llm_predicted_volatility && aiResponse.llm_predicted_volatility > 0
+      ? Math.min(aiResponse.llm_predicted_volatility, 999)
+      : null;
+
     const forecast: VolatilityForecast = {
       symbol,
       currentVolatility,
       predictedVolatility,
+      longRunVolatility,
       timeframe,
-      volatilityTrend: aiResponse.volatility_trend || volatilityTrend,
-      tradingRecommendation: aiResponse.trading_recommendation || tradingRecommendation,
+      model: estimate.model,
+      modelParams,
+      observations: returns.length,
+      volatilityTrend,
+      tradingRecommendation,
+      llmPredictedVolatility,
+      explanation: aiResponse.explanation ||
+        `${estimate.model.toUpperCase()} forecasts ${predictedVolatility.toFixed(2)}% volatility over ${timeframe}, against ${longRunVolatility.toFixed(2)}% long-run and ${currentVolatility.toFixed(2)}% recently`,
       bestTimeToTrade: aiResponse.best_time_to_trade,
     };
 
     // Save to database
     await db.insert(volatilityForecasts).values({
       symbol,
-      currentVolatility: currentVolatility.toString(),
-      predictedVolatility: predictedVolatility.toString(),
+      currentVolatility: currentVolatility.toFixed(2),
+      predictedVolatility: predictedVolatility.toFixed(2),
+      longRunVolatility: longRunVolatility.toFixed(2),
+      model: forecast.model,
+      modelParams,
+      llmPredictedVolatility: llmPredictedVolatility !== null ? llmPredictedVolatility.toFixed(2) : null,
+      explanation: forecast.explanation,
       timeframe,
       volatilityTrend: forecast.volatilityTrend,
       tradingRecommendation: forecast.tradingRecommendation,
@@ -184,10 +218,10 @@ export async function getMarketVolatilityOverview(symbols: string[] = ['BTC', 'E
       });
 
       if (latest) {
-        const vol = parseFloat(latest.predictedVolatility);
-        if (vol > 15) {
+        // Forecasts are judged against each asset's long-run volatility when they are made
+        if (latest.tradingRecommendation === 'reduce_exposure') {
           overview.highVolatility.push(symbol);
-        } else if (vol < 5) {
+        } else if (latest.tradingRecommendation === 'opportunity') {
           overview.lowVolatility.push(symbol);
         } else {
           overview.normalVolatility.push(symbol);
@@ -0,0 +1,201 @@
+import { storage } from "../storage";
+import type { PriceAlert } from "@shared/schema";
+import { alertExpressionSchema, type AlertExpression } from "@shared/alertConditions";
+import { fetchOHLCVData, getCachedCandles, type OHLCVCandle } from "./binanceService";
+import { SMA, EMA, RSI, MACD, latest, series } from "@shared/indicators";
+import { getPortfolioEquity } from "./paperPortfolios";
+import { equityTracker } from "./equityHistory";
+import { getPositionPrice } from "./paperTrading";
+
+/**
+ * Alert Conditions
+ *
+ * Evaluates alert expressions (shared/alertConditions.ts) for the alert monitor:
+ * - Price, percent-change and level alerts read the live price; crosses compare it with the
+ *   price at the symbol's previous check, so the first check after a restart never crosses
+ * - Indicator alerts read cached OHLCV candles with the live price as the latest close
+ * - Portfolio alerts mark the user's selected paper portfolio to market
+ * `value` is the figure the condition was tested on, for the notification.
+ */
+
+export interface AlertEvaluation {
+  met: boolean;
+  value: number | null;
+}
+
+export interface AlertContext {
+  price: number | null; // Live price; null for portfolio alerts
+  previousPrice: number | null; // Price at the symbol's previous check
+  priceMinutesAgo: (minutes: number) => number | null; // From the monitor's quote history
+}
+
+const CANDLE_LIMIT = 250;
+const CANDLE_RETRY_MS = 60 * 1000;
+
+// Failed candle fetches aren't retried on every quote
+const candleFailures = new Map<string, number>();
+
+const NOT_MET: AlertEvaluation = { met: false, value: null };
+
+/**
+ * An alert's expression; alerts from before expressions existed are plain price alerts
+ */
+export function alertExpressionOf(alert: PriceAlert): AlertExpression | null {
+  if (alert.expression) {
+    const parsed = alertExpressionSchema.safeParse(alert.expression);
+    return parsed.success ? parsed.data : null;
+  }
+  if ((alert.condition === "above" || alert.condition === "below") && alert.targetPrice) {
+    return { type: "price", operator: alert.condition, value: parseFloat(alert.targetPrice) };
+  }
+  return null;
+}
+
+function compare(operator: "above" | "below", value: number, threshold: number): boolean {
+  return operator === "above" ? value >= threshold : value <= threshold;
+}
+
+// Whether a value moved across zero (relative to a reference) between two checks
+function crossed(direction: "up" | "down" | "either", before: number, after: number): boolean {
+  const up = before < 0 && after >= 0;
+  const down = before > 0 && after <= 0;
+  return direction === "up" ? up : direction === "down" ? down : up || down;
+}
+
+async function loadCandles(symbol: string, interval: string, livePrice: number): Promise<OHLCVCandle[]> {
+  const key = `${symbol}_${interval}`;
+  let candles = getCachedCandles(symbol, interval);
+
+  if (!candles) {
+    const failedAt = candleFailures.get(key);
+    if (failedAt && Date.now() - failedAt < CANDLE_RETRY_MS) return [];
+
+    candles = await fetchOHLCVData(symbol, interval, CANDLE_LIMIT);
+    if (candles.length === 0) {
+      candleFailures.set(key, Date.now());
+      return [];
+    }
+    candleFailures.delete(key);
+  }
+
+  // The latest candle is still forming: close it at the live price
+  const last = candles[candles.length - 1];
+  return [
+    ...candles.slice(0, -1),
+    { ...last, close: livePrice, high: Math.max(last.high, livePrice), low: Math.min(last.low, livePrice) },
+  ];
+}
+
+async function evaluatePortfolio(
+  userId: string,
+  expression: Extract<AlertExpression, { type: "portfolio" }>
+): Promise<AlertEvaluation> {
+  const wallet = await storage.getPaperWalletByUserId(userId);
+  if (!wallet) return NOT_MET;
+  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+
+  let value: number;
+  switch (expression.metric) {
+    case "equity":
+      value = getPortfolioEquity(wallet, positions);
+      break;
+    case "unrealized_pnl":
+      value = positions.reduce((sum, position) => {
+        const direction = position.side === "short" ? -1 : 1;
+        const { price } = getPositionPrice(position);
+        return sum
+          + direction * (price - parseFloat(position.avgPrice)) * parseFloat(position.quantity)
+          - parseFloat(position.accruedInterest || "0");
+      }, 0);
+      break;
+    case "daily_pnl":
+      value = (await equityTracker.getPnlSummary(wallet, positions)).dailyPnl;
+      break;
+    case "drawdown_percent":
+      value = (await equityTracker.getPnlSummary(wallet, positions)).drawdownPercent;
+      break;
+  }
+
+  return { met: compare(expression.operator, value, expression.value), value };
+}
+
+export async function evaluateAlert(
+  alert: PriceAlert,
+  expression: AlertExpression,
+  context: AlertContext
+): Promise<AlertEvaluation> {
+  if (expression.type === "portfolio") {
+    return evaluatePortfolio(alert.userId, expression);
+  }
+
+  const { price, previousPrice } = context;
+  if (price === null) return NOT_MET;
+
+  switch (expression.type) {
+    case "price":
+      return { met: compare(expression.operator, price, expression.value), value: price };
+
+    case "percent_change": {
+      const then = context.priceMinutesAgo(expression.windowMinutes);
+      if (!then) return NOT_MET;
+      const change = ((price - then) / then) * 100;
+      return { met: compare(expression.operator, change, expression.percent), value: change };
+    }
+
+    case "level_cross":
+      if (previousPrice === null) return { met: false, value: price };
+      return {
+        met: crossed(expression.direction, previousPrice - expression.price, price - expression.price),
+        value: price,
+      };
+
+    case "ma_cross": {
+      const closes = (await loadCandles(alert.symbol, expression.interval, price)).map(c => c.close);
+      const average = latest(expression.maType === "sma" ? new SMA(expression.period) : new EMA(expression.period), closes);
+      if (average === null || previousPrice === null) return NOT_MET;
+      return { met: crossed(expression.direction, previousPrice - average, price - average), value: average };
+    }
+
+    case "rsi": {
+      const closes = (await loadCandles(alert.symbol, expression.interval, price)).map(c => c.close);
+      const rsi = latest(new RSI(expression.period), closes);
+      if (rsi === null) return NOT_MET;
+      return { met: compare(expression.operator, rsi, expression.value), value: rsi };
+    }
+
+    case "macd": {
+      const closes = (await loadCandles(alert.symbol, expression.interval, price)).map(c => c.close);
+      const values = series(new MACD(), closes);
+      const macd = values[values.length - 1];
+      if (!macd) return NOT_MET;
+
+      switch (expression.signal) {
+        case "histogram_above":
+        case "histogram_below":
+          return {
+            met: compare(expression.signal === "histogram_above" ? "above" : "below", macd.histogram, expression.value),
+            value: macd.histogram,
+          };
+        case "bullish_cross":
+        case "bearish_cross": {
+          // A cross on the latest candle: the histogram changed sign since the one before
+          const before = values[values.length - 2];
+          if (!before) return NOT_MET;
+          const direction = expression.signal === "bullish_cross" ? "up" : "down";
+          return { met: crossed(direction, before.histogram, macd.histogram), value: macd.histogram };
+        }
+      }
+    }
+
+    case "volume_spike": {
+      const candles = await loadCandles(alert.symbol, expression.interval, price);
+      if (candles.length < expression.lookback + 1) return NOT_MET;
+      const latest = candles[candles.length - 1].volume;
+      const previous = candles.slice(-expression.lookback - 1, -1);
+      const average = previous.reduce((sum, candle) => sum + candle.volume, 0) / previous.length;
+      if (!(average > 0)) return NOT_MET;
+      const multiple = latest / average;
+      return { met: multiple >= expression.multiple, value: multiple };
+    }
+  }
+}
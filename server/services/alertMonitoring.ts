@@ -1,57 +1,274 @@
 import { storage } from "../storage";
-import { getAllMarketPrices } from "./paperTrading";
+import type { PriceAlert } from "@shared/schema";
+import { PORTFOLIO_ALERT_SYMBOL, describeAlertExpression, type AlertExpression } from "@shared/alertConditions";
+import { marketData, type Quote } from "./marketData";
+import { alertExpressionOf, evaluateAlert, type AlertContext, type AlertEvaluation } from "./alertConditions";
+import { userEvents } from "./userEvents";
+import { notificationService } from "./notifications";
+
+/**
+ * Price Alert Monitor
+ *
+ * Checks active alerts against market data quotes as they arrive, so an alert fires on the
+ * same price a paper fill or chart sees. Only symbols with an active alert are checked;
+ * stale quotes never trigger. Portfolio alerts are checked on their own interval.
+ * - Conditions are alert expressions (see alertConditions.ts); percent-change alerts read a
+ *   quote history kept here, so they wait for a full window after a restart
+ * - 'once' alerts deactivate when they fire, 'rearm' alerts wait for their condition to go
+ *   false before firing again, and 'repeat' alerts fire at most once per cooldown
+ * - Expired alerts are deactivated on the resync
+ * Firings are pushed to the alert's owner as user events and sent as notifications.
+ */
+
+const HISTORY_SAMPLE_MS = 15 * 1000;
+const HISTORY_MAX_MS = 24 * 60 * 60 * 1000 + HISTORY_SAMPLE_MS;
+const PORTFOLIO_CHECK_INTERVAL_MS = 30 * 1000;
+const MIN_REPEAT_COOLDOWN_MINUTES = 1; // A repeating alert with no cooldown would fire on every quote
+
+// The figure the condition was tested on, for the notification body
+function formatValue(expression: AlertExpression, value: number): string {
+  switch (expression.type) {
+    case "percent_change":
+      return `${value.toFixed(2)}%`;
+    case "rsi":
+      return `RSI ${value.toFixed(1)}`;
+    case "macd":
+      return `histogram ${value.toFixed(4)}`;
+    case "volume_spike":
+      return `${value.toFixed(1)}× average`;
+    case "ma_cross":
+      return `average $${value.toFixed(2)}`;
+    case "portfolio":
+      return expression.metric === "drawdown_percent" ? `${value.toFixed(2)}%` : `$${value.toFixed(2)}`;
+    default:
+      return `$${value}`;
+  }
+}
 
 export class AlertMonitoringService {
-  private monitoringInterval: NodeJS.Timeout | null = null;
+  private alertSymbols = new Set<string>();
+  private latestPrices = new Map<string, number>();
+  private checkedPrices = new Map<string, number>(); // Price at each symbol's previous check, for crosses
+  private priceHistory = new Map<string, { at: number; price: number }[]>();
+  private inFlight = new Set<string>();
+  private portfolioCheckRunning = false;
+  private resyncInterval: NodeJS.Timeout | null = null;
+  private portfolioInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
 
-  startMonitoring(intervalMs: number = 10000) {
-    if (this.monitoringInterval) {
+  startMonitoring(resyncIntervalMs: number = 10000) {
+    if (this.resyncInterval) {
       return; // Already monitoring
     }
 
     console.log("[ALERT MONITOR] Starting price alert monitoring");
 
-    this.monitoringInterval = setInterval(async () => {
-      try {
-        await this.checkAlerts();
-      } catch (error) {
-        console.error("[ALERT MONITOR] Error checking alerts:", error);
-      }
-    }, intervalMs);
+    this.resyncAlertSymbols().catch(error => {
+      console.error("[ALERT MONITOR] Error loading alert symbols:", error);
+    });
+    this.unsubscribe = marketData.onQuote(quote => this.handleQuote(quote));
+
+    // Picks up alerts created or re-activated without trackSymbol, and expires old ones
+    this.resyncInterval = setInterval(() => {
+      this.resyncAlertSymbols().catch(error => {
+        console.error("[ALERT MONITOR] Error resyncing alert symbols:", error);
+      });
+    }, resyncIntervalMs);
+
+    this.portfolioInterval = setInterval(() => {
+      this.checkPortfolioAlerts().catch(error => {
+        console.error("[ALERT MONITOR] Error checking portfolio alerts:", error);
+      });
+    }, PORTFOLIO_CHECK_INTERVAL_MS);
   }
 
   stopMonitoring() {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
+    if (this.resyncInterval) {
+      clearInterval(this.resyncInterval);
+      this.resyncInterval = null;
+      if (this.portfolioInterval) {
+        clearInterval(this.portfolioInterval);
+        this.portfolioInterval = null;
+      }
+      this.unsubscribe?.();
+      this.unsubscribe = null;
       console.log("[ALERT MONITOR] Stopped price alert monitoring");
     }
   }
 
-  private async checkAlerts() {
+  /**
+   * Start checking a symbol after an alert is created for it
+   */
+  trackSymbol(symbol: string): void {
+    if (symbol.toUpperCase() === PORTFOLIO_ALERT_SYMBOL) return;
+    this.alertSymbols.add(symbol.toUpperCase());
+  }
+
+  private async resyncAlertSymbols(): Promise<void> {
+    const expired = await storage.deactivateExpiredPriceAlerts(new Date());
+    if (expired > 0) {
+      console.log(`[ALERT MONITOR] Deactivated ${expired} expired alert(s)`);
+    }
+
     const activeAlerts = await storage.getActivePriceAlerts();
-    if (activeAlerts.length === 0) return;
+    this.alertSymbols = new Set(
+      activeAlerts
+        .map(alert => alert.symbol.toUpperCase())
+        .filter(symbol => symbol !== PORTFOLIO_ALERT_SYMBOL)
+    );
+  }
+
+  private handleQuote(quote: Quote): void {
+    if (quote.stale || !this.alertSymbols.has(quote.symbol)) return;
+
+    this.latestPrices.set(quote.symbol, quote.price);
+    this.recordHistory(quote.symbol, quote.price);
+
+    // A check already running will pick up the newest price when it loops
+    if (this.inFlight.has(quote.symbol)) return;
+
+    this.checkSymbol(quote.symbol).catch(error => {
+      console.error(`[ALERT MONITOR] Error checking ${quote.symbol}:`, error);
+    });
+  }
+
+  // One sample per HISTORY_SAMPLE_MS, kept for the longest percent-change window
+  private recordHistory(symbol: string, price: number): void {
+    const now = Date.now();
+    const history = this.priceHistory.get(symbol) ?? [];
+    if (history.length > 0 && now - history[history.length - 1].at < HISTORY_SAMPLE_MS) return;
+
+    history.push({ at: now, price });
+    while (history.length > 0 && now - history[0].at > HISTORY_MAX_MS) history.shift();
+    this.priceHistory.set(symbol, history);
+  }
 
-    const currentPrices = getAllMarketPrices();
+  // The last sample at or before the moment; null when the history doesn't reach back that far
+  private priceMinutesAgo(symbol: string, minutes: number): number | null {
+    const history = this.priceHistory.get(symbol) ?? [];
+    const cutoff = Date.now() - minutes * 60 * 1000;
+    let price: number | null = null;
+    for (const sample of history) {
+      if (sample.at > cutoff) break;
+      price = sample.price;
+    }
+    return price;
+  }
 
+  private async checkSymbol(symbol: string): Promise<void> {
+    this.inFlight.add(symbol);
+
+    try {
+      let price: number | undefined;
+
+      while (price !== this.latestPrices.get(symbol)) {
+        price = this.latestPrices.get(symbol)!;
+        await this.checkAlerts(symbol, price);
+      }
+    } finally {
+      this.inFlight.delete(symbol);
+    }
+  }
+
+  private async checkAlerts(symbol: string, currentPrice: number) {
+    const activeAlerts = (await storage.getActivePriceAlerts())
+      .filter(alert => alert.symbol.toUpperCase() === symbol);
+    if (activeAlerts.length === 0) {
+      this.alertSymbols.delete(symbol);
+      return;
+    }
+
+    const context: AlertContext = {
+      price: currentPrice,
+      previousPrice: this.checkedPrices.get(symbol) ?? null,
+      priceMinutesAgo: minutes => this.priceMinutesAgo(symbol, minutes),
+    };
     for (const alert of activeAlerts) {
-      const currentPrice = currentPrices[alert.symbol];
-      if (!currentPrice) continue;
+      await this.checkAlert(alert, context);
+    }
+    this.checkedPrices.set(symbol, currentPrice);
+  }
 
-      const targetPrice = parseFloat(alert.targetPrice);
-      let shouldTrigger = false;
+  private async checkPortfolioAlerts(): Promise<void> {
+    if (this.portfolioCheckRunning) return;
+    this.portfolioCheckRunning = true;
 
-      if (alert.condition === "above" && currentPrice >= targetPrice) {
-        shouldTrigger = true;
-      } else if (alert.condition === "below" && currentPrice <= targetPrice) {
-        shouldTrigger = true;
+    try {
+      const alerts = (await storage.getActivePriceAlerts())
+        .filter(alert => alert.symbol.toUpperCase() === PORTFOLIO_ALERT_SYMBOL);
+      const context: AlertContext = { price: null, previousPrice: null, priceMinutesAgo: () => null };
+      for (const alert of alerts) {
+        await this.checkAlert(alert, context);
       }
+    } finally {
+      this.portfolioCheckRunning = false;
+    }
+  }
 
-      if (shouldTrigger) {
-        await storage.triggerPriceAlert(alert.id);
-        console.log(`[ALERT TRIGGERED] ${alert.symbol} ${alert.condition} $${targetPrice} (current: $${currentPrice})`);
+  private async checkAlert(alert: PriceAlert, context: AlertContext): Promise<void> {
+    if (alert.expiresAt && alert.expiresAt <= new Date()) return; // Deactivated on the next resync
+
+    const expression = alertExpressionOf(alert);
+    if (!expression) return;
+
+    let evaluation: AlertEvaluation;
+    try {
+      evaluation = await evaluateAlert(alert, expression, context);
+    } catch (error: any) {
+      console.error(`[ALERT MONITOR] Error evaluating alert ${alert.id}:`, error.message || error);
+      return;
+    }
+
+    if (!evaluation.met) {
+      if (alert.repeatMode === "rearm" && !alert.armed) {
+        await storage.rearmPriceAlert(alert.id);
       }
+      return;
+    }
+
+    if (alert.repeatMode === "rearm" && !alert.armed) return;
+    const cooldownMinutes = alert.repeatMode === "repeat"
+      ? Math.max(alert.cooldownMinutes, MIN_REPEAT_COOLDOWN_MINUTES)
+      : alert.cooldownMinutes;
+    if (
+      alert.repeatMode !== "once" &&
+      alert.triggeredAt &&
+      Date.now() - alert.triggeredAt.getTime() < cooldownMinutes * 60 * 1000
+    ) {
+      return;
     }
+
+    await this.fire(alert, expression, evaluation, context.price);
+  }
+
+  private async fire(
+    alert: PriceAlert,
+    expression: AlertExpression,
+    evaluation: AlertEvaluation,
+    currentPrice: number | null
+  ): Promise<void> {
+    await storage.triggerPriceAlert(alert.id, alert.repeatMode !== "once");
+
+    const description = describeAlertExpression(expression);
+    const observed = evaluation.value !== null ? ` (${formatValue(expression, evaluation.value)})` : "";
+    const isPortfolio = alert.symbol.toUpperCase() === PORTFOLIO_ALERT_SYMBOL;
+    console.log(`[ALERT TRIGGERED] ${alert.symbol} ${description}${observed}`);
+
+    userEvents.publish(alert.userId, "price_alert", {
+      alertId: alert.id,
+      symbol: alert.symbol,
+      condition: alert.condition,
+      targetPrice: alert.targetPrice,
+      price: currentPrice?.toString() ?? null,
+      description: description + observed,
+    });
+    await notificationService.notify(alert.userId, {
+      category: "price_alert",
+      title: isPortfolio ? "Portfolio alert" : `${alert.symbol} alert`,
+      body: `${isPortfolio ? "" : `${alert.symbol}: `}${description}${observed}`,
+      data: { alertId: alert.id, symbol: alert.symbol, expression, value: evaluation.value, price: currentPrice },
+      dedupeKey: `price_alert:${alert.id}:${alert.triggerCount + 1}`,
+    });
   }
 }
 
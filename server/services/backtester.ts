@@ -0,0 +1,423 @@
+import { storage } from "../storage";
+import type { PaperWallet, StrategyPerformance } from "@shared/schema";
+import {
+  describeRule,
+  type StrategyDefinition,
+  type StrategyOperand,
+  type StrategyRule,
+  type BacktestTrade,
+  type BacktestMetrics,
+  type BacktestResult,
+} from "@shared/backtest";
+import {
+  SMA, EMA, RSI, MACD, BollingerBands, Stochastic, ATR, ADX, SuperTrend, VWAP, series,
+} from "@shared/indicators";
+import { fetchOHLCVRange, type OHLCVCandle } from "./binanceService";
+import { quoteExecution, type Liquidity } from "./executionModel";
+import { initializePaperWallet } from "./paperTrading";
+
+/**
+ * Strategy Backtester
+ *
+ * Replays historical candles through a rule-based strategy (shared/backtest.ts):
+ * - Rules are evaluated on each candle's close and act at the next candle's open, so a
+ *   signal never trades on the price that produced it
+ * - Stops and take-profits fill intrabar; a candle that gaps through one fills at its open,
+ *   and a candle that touches both is assumed to hit the stop first
+ * - Fills are priced by the paper execution model with the user's fee tier and slippage
+ *   setting (taker for market and stop fills, maker for take-profits); positions are 1x
+ * Open positions are closed at the last candle's close. Results are stored in
+ * strategy_performance with strategyType 'backtest'.
+ */
+
+export const BACKTEST_STRATEGY_TYPE = "backtest";
+
+const INTERVAL_SECONDS: Record<StrategyDefinition["interval"], number> = {
+  "15": 15 * 60,
+  "60": 60 * 60,
+  "240": 4 * 60 * 60,
+  D: 24 * 60 * 60,
+};
+const INTERVAL_LABELS: Record<StrategyDefinition["interval"], string> = { "15": "15m", "60": "1h", "240": "4h", D: "1D" };
+
+const PAGE_SIZE = 1000; // Binance returns at most 1000 klines per range request
+const MAX_CANDLES = 5000;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60; // Crypto trades every day
+const MIN_ORDER_NOTIONAL = 1;
+
+// decimal(5, 2) columns
+const MAX_RATIO = 999.99;
+
+interface OpenPosition {
+  side: "long" | "short";
+  quantity: number;
+  entryPrice: number;
+  entryNotional: number;
+  entryFee: number;
+  entryTime: number;
+  stopPrice: number | null;
+  takeProfitPrice: number | null;
+}
+
+async function loadCandles(definition: StrategyDefinition): Promise<OHLCVCandle[]> {
+  const step = INTERVAL_SECONDS[definition.interval];
+  const to = Math.floor(definition.to.getTime() / 1000);
+  const candles: OHLCVCandle[] = [];
+  let from = Math.floor(definition.from.getTime() / 1000);
+
+  while (from < to && candles.length < MAX_CANDLES) {
+    const page = await fetchOHLCVRange(definition.symbol, definition.interval, from, to);
+    const fresh = page.filter(c => candles.length === 0 || c.time > candles[candles.length - 1].time);
+    if (fresh.length === 0) break;
+
+    candles.push(...fresh);
+    if (page.length < PAGE_SIZE) break;
+    from = candles[candles.length - 1].time + step;
+  }
+
+  return candles.slice(0, MAX_CANDLES);
+}
+
+// Value of an operand at every candle (null during an indicator's warm-up)
+function operandSeries(operand: StrategyOperand, candles: OHLCVCandle[], closes: number[]): (number | null)[] {
+  switch (operand.kind) {
+    case "price":
+      return candles.map(c => c[operand.field]);
+    case "value":
+      return candles.map(() => operand.value);
+    case "sma":
+      return series(new SMA(operand.period), closes);
+    case "ema":
+      return series(new EMA(operand.period), closes);
+    case "rsi":
+      return series(new RSI(operand.period), closes);
+    case "macd":
+      return series(new MACD(operand.fast, operand.slow, operand.signal), closes)
+        .map(v => v ? (operand.line === "macd" ? v.value : v[operand.line]) : null);
+    case "bollinger":
+      return series(new BollingerBands(operand.period, operand.stdDev), closes).map(v => v ? v[operand.band] : null);
+    case "stochastic":
+      return series(new Stochastic(operand.kPeriod, operand.dPeriod), candles).map(v => v ? v[operand.line] : null);
+    case "atr":
+      return series(new ATR(operand.period), candles);
+    case "adx":
+      return series(new ADX(operand.period), candles).map(v => v ? v.adx : null);
+    case "supertrend":
+      return series(new SuperTrend(operand.period, operand.multiplier), candles).map(v => v ? v.value : null);
+    case "vwap":
+      return series(new VWAP(), candles);
+  }
+}
+
+function ruleHolds(rule: StrategyRule, i: number, valuesOf: (operand: StrategyOperand) => (number | null)[]): boolean {
+  const left = valuesOf(rule.left);
+  const right = valuesOf(rule.right);
+  const l = left[i];
+  const r = right[i];
+  if (l === null || r === null) return false;
+
+  switch (rule.operator) {
+    case "above":
+      return l > r;
+    case "below":
+      return l < r;
+    case "crosses_above":
+    case "crosses_below": {
+      if (i === 0) return false;
+      const lPrev = left[i - 1];
+      const rPrev = right[i - 1];
+      if (lPrev === null || rPrev === null) return false;
+      return rule.operator === "crosses_above" ? lPrev <= rPrev && l > r : lPrev >= rPrev && l < r;
+    }
+  }
+}
+
+function computeMetrics(
+  definition: StrategyDefinition,
+  trades: BacktestTrade[],
+  equityCurve: { time: number; equity: number }[],
+  candlesInPosition: number
+): BacktestMetrics {
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = losses.reduce((sum, t) => sum + t.pnl, 0);
+  const totalPnl = grossProfit + grossLoss;
+
+  let peak = definition.initialCapital;
+  let maxDrawdownAmount = 0;
+  let maxDrawdownPercent = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    const drawdown = peak - point.equity;
+    if (drawdown > maxDrawdownAmount) maxDrawdownAmount = drawdown;
+    if (peak > 0) maxDrawdownPercent = Math.max(maxDrawdownPercent, (drawdown / peak) * 100);
+  }
+
+  // Per-candle returns, annualized
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) returns.push(equityCurve[i].equity / previous - 1);
+  }
+  let sharpeRatio: number | null = null;
+  if (returns.length >= 2) {
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const sd = Math.sqrt(variance);
+    if (sd > 0) {
+      sharpeRatio = (mean / sd) * Math.sqrt(SECONDS_PER_YEAR / INTERVAL_SECONDS[definition.interval]);
+    }
+  }
+
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let streak = 0;
+  for (const trade of trades) {
+    streak = trade.pnl > 0 ? Math.max(streak, 0) + 1 : Math.min(streak, 0) - 1;
+    longestWinStreak = Math.max(longestWinStreak, streak);
+    longestLossStreak = Math.max(longestLossStreak, -streak);
+  }
+
+  return {
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    totalPnl,
+    totalReturnPercent: (totalPnl / definition.initialCapital) * 100,
+    avgWin: wins.length > 0 ? grossProfit / wins.length : null,
+    avgLoss: losses.length > 0 ? grossLoss / losses.length : null,
+    largestWin: wins.length > 0 ? Math.max(...wins.map(t => t.pnl)) : null,
+    largestLoss: losses.length > 0 ? Math.min(...losses.map(t => t.pnl)) : null,
+    maxDrawdownPercent,
+    maxDrawdownAmount,
+    sharpeRatio,
+    profitFactor: grossLoss < 0 ? grossProfit / -grossLoss : null,
+    exposurePercent: equityCurve.length > 0 ? (candlesInPosition / equityCurve.length) * 100 : 0,
+    longestWinStreak,
+    longestLossStreak,
+    totalFees: trades.reduce((sum, t) => sum + t.fees, 0),
+  };
+}
+
+/**
+ * Replay candles through a strategy. Pure apart from the fill model's wallet settings,
+ * so it can run on any candle array.
+ */
+export function simulateStrategy(
+  definition: StrategyDefinition,
+  candles: OHLCVCandle[],
+  wallet: PaperWallet
+): BacktestResult {
+  const executionWallet = { ...wallet, partialFillsEnabled: false };
+  const closes = candles.map(c => c.close);
+  const seriesCache = new Map<string, (number | null)[]>();
+  const valuesOf = (operand: StrategyOperand) => {
+    const key = JSON.stringify(operand);
+    let values = seriesCache.get(key);
+    if (!values) {
+      values = operandSeries(operand, candles, closes);
+      seriesCache.set(key, values);
+    }
+    return values;
+  };
+
+  const direction = definition.direction;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: { time: number; equity: number }[] = [];
+  let cash = definition.initialCapital;
+  let position: OpenPosition | null = null;
+  let pendingEntry = false;
+  let pendingExit = false;
+  let candlesInPosition = 0;
+
+  const equityAt = (price: number) => {
+    if (!position) return cash;
+    return position.side === "long" ? cash + position.quantity * price : cash - position.quantity * price;
+  };
+
+  const open = (price: number, time: number) => {
+    const equity = cash;
+    let notional: number;
+    switch (definition.sizing.mode) {
+      case "percent_equity":
+        notional = equity * definition.sizing.value / 100;
+        break;
+      case "fixed_usd":
+        notional = definition.sizing.value;
+        break;
+      case "risk_percent":
+        notional = (equity * definition.sizing.value / 100) / (definition.stopLossPercent! / 100);
+        break;
+    }
+
+    const side = direction === "long" ? "buy" : "sell";
+    let quote = quoteExecution(executionWallet, definition.symbol, side, notional / price, price, "taker");
+    // No leverage: the position and its fee must fit in equity
+    if (quote.notional + quote.fee > equity) {
+      const scale = equity / (quote.notional + quote.fee);
+      quote = quoteExecution(executionWallet, definition.symbol, side, quote.fillQuantity * scale * 0.999, price, "taker");
+    }
+    if (quote.notional < MIN_ORDER_NOTIONAL) return;
+
+    cash += direction === "long" ? -(quote.notional + quote.fee) : quote.notional - quote.fee;
+    const sign = direction === "long" ? 1 : -1;
+    position = {
+      side: direction,
+      quantity: quote.fillQuantity,
+      entryPrice: quote.fillPrice,
+      entryNotional: quote.notional,
+      entryFee: quote.fee,
+      entryTime: time,
+      stopPrice: definition.stopLossPercent ? quote.fillPrice * (1 - sign * definition.stopLossPercent / 100) : null,
+      takeProfitPrice: definition.takeProfitPercent ? quote.fillPrice * (1 + sign * definition.takeProfitPercent / 100) : null,
+    };
+  };
+
+  const close = (price: number, time: number, liquidity: Liquidity, exitReason: BacktestTrade["exitReason"]) => {
+    if (!position) return;
+    const side = position.side === "long" ? "sell" : "buy";
+    const quote = quoteExecution(executionWallet, definition.symbol, side, position.quantity, price, liquidity);
+
+    cash += position.side === "long" ? quote.notional - quote.fee : -(quote.notional + quote.fee);
+    const fees = position.entryFee + quote.fee;
+    const gross = position.side === "long"
+      ? quote.notional - position.entryNotional
+      : position.entryNotional - quote.notional;
+    const pnl = gross - fees;
+
+    trades.push({
+      side: position.side,
+      entryTime: position.entryTime,
+      exitTime: time,
+      entryPrice: position.entryPrice,
+      exitPrice: quote.fillPrice,
+      quantity: position.quantity,
+      fees,
+      pnl,
+      pnlPercent: (pnl / position.entryNotional) * 100,
+      exitReason,
+    });
+    position = null;
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+
+    // Orders signalled on the previous close fill at this open
+    if (pendingExit) close(candle.open, candle.time, "taker", "signal");
+    if (pendingEntry && !position) open(candle.open, candle.time);
+    pendingEntry = false;
+    pendingExit = false;
+
+    // Protective levels, stop first
+    const held = position as OpenPosition | null;
+    if (held) {
+      const isLong = held.side === "long";
+      const stopHit = held.stopPrice !== null && (isLong ? candle.low <= held.stopPrice : candle.high >= held.stopPrice);
+      const targetHit = held.takeProfitPrice !== null
+        && (isLong ? candle.high >= held.takeProfitPrice : candle.low <= held.takeProfitPrice);
+
+      if (stopHit) {
+        const fill = isLong ? Math.min(candle.open, held.stopPrice!) : Math.max(candle.open, held.stopPrice!);
+        close(fill, candle.time, "taker", "stop_loss");
+      } else if (targetHit) {
+        const fill = isLong ? Math.max(candle.open, held.takeProfitPrice!) : Math.min(candle.open, held.takeProfitPrice!);
+        close(fill, candle.time, "maker", "take_profit");
+      }
+    }
+
+    if (position) candlesInPosition++;
+    equityCurve.push({ time: candle.time, equity: equityAt(candle.close) });
+
+    // Signals on this close act at the next open
+    if (i < candles.length - 1) {
+      if (position) {
+        pendingExit = definition.exitRules.some(rule => ruleHolds(rule, i, valuesOf));
+      } else {
+        pendingEntry = definition.entryRules.every(rule => ruleHolds(rule, i, valuesOf));
+      }
+    }
+  }
+
+  if (position && candles.length > 0) {
+    const last = candles[candles.length - 1];
+    close(last.close, last.time, "taker", "end_of_data");
+    equityCurve[equityCurve.length - 1] = { time: last.time, equity: cash };
+  }
+
+  return {
+    metrics: computeMetrics(definition, trades, equityCurve, candlesInPosition),
+    equityCurve,
+    trades,
+    candleCount: candles.length,
+  };
+}
+
+function describeStrategy(definition: StrategyDefinition): string {
+  const entry = definition.entryRules.map(describeRule).join(" and ");
+  const exits = [
+    ...definition.exitRules.map(describeRule),
+    ...(definition.stopLossPercent ? [`${definition.stopLossPercent}% stop`] : []),
+    ...(definition.takeProfitPercent ? [`${definition.takeProfitPercent}% target`] : []),
+  ];
+  return `${definition.symbol} ${INTERVAL_LABELS[definition.interval]} ${definition.direction}: enter when ${entry}`
+    + (exits.length > 0 ? `; exit on ${exits.join(" or ")}` : "");
+}
+
+const decimal = (value: number | null, max?: number) => {
+  if (value === null) return null;
+  const bounded = max === undefined ? value : Math.max(-max, Math.min(max, value));
+  return bounded.toFixed(2);
+};
+
+/**
+ * Fetch the candles, replay them and store the result
+ */
+export async function runBacktest(
+  userId: string,
+  definition: StrategyDefinition
+): Promise<{ success: true; backtest: StrategyPerformance } | { success: false; error: string }> {
+  const candles = await loadCandles(definition);
+  if (candles.length === 0) {
+    return { success: false, error: `No ${definition.symbol} candles available for that range` };
+  }
+
+  const wallet = await storage.getPaperWalletByUserId(userId) ?? await initializePaperWallet(userId);
+  const result = simulateStrategy(definition, candles, wallet);
+  const { metrics } = result;
+
+  const backtest = await storage.createStrategyPerformance({
+    userId,
+    strategyName: definition.name,
+    strategyType: BACKTEST_STRATEGY_TYPE,
+    description: describeStrategy(definition),
+    periodStart: new Date(candles[0].time * 1000),
+    periodEnd: new Date(candles[candles.length - 1].time * 1000),
+    isActive: false,
+    totalTrades: metrics.totalTrades,
+    winningTrades: metrics.winningTrades,
+    losingTrades: metrics.losingTrades,
+    winRate: decimal(metrics.winRate),
+    totalProfitLoss: metrics.totalPnl.toFixed(2),
+    avgProfit: decimal(metrics.avgWin),
+    avgLoss: decimal(metrics.avgLoss),
+    largestWin: decimal(metrics.largestWin),
+    largestLoss: decimal(metrics.largestLoss),
+    maxDrawdown: decimal(metrics.maxDrawdownPercent),
+    maxDrawdownAmount: decimal(metrics.maxDrawdownAmount),
+    sharpeRatio: decimal(metrics.sharpeRatio, MAX_RATIO),
+    profitFactor: decimal(metrics.profitFactor, MAX_RATIO),
+    longestWinStreak: metrics.longestWinStreak,
+    longestLossStreak: metrics.longestLossStreak,
+    strategyDefinition: definition,
+    equityCurve: result.equityCurve,
+    backtestTrades: result.trades,
+    totalReturnPercent: decimal(metrics.totalReturnPercent),
+    exposurePercent: decimal(metrics.exposurePercent),
+  });
+
+  console.log(`[BACKTEST] ${definition.name}: ${candles.length} candles, ${metrics.totalTrades} trades, ${metrics.totalReturnPercent.toFixed(2)}%`);
+  return { success: true, backtest };
+}
@@ -0,0 +1,148 @@
+import { BinanceService } from "./binanceService";
+import type {
+  ExchangeAccount,
+  ExchangeAdapter,
+  ExchangeCredentials,
+  ExchangeFill,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeOrderStatus,
+  ExchangeSymbolFilters,
+  ExchangeTicker,
+} from "./exchangeAdapter";
+
+/**
+ * Binance spot, on top of the signed REST client in binanceService.ts
+ */
+
+const STATUS_MAP: Record<string, ExchangeOrderStatus> = {
+  NEW: "new",
+  PARTIALLY_FILLED: "partially_filled",
+  FILLED: "filled",
+  CANCELED: "canceled",
+  PENDING_CANCEL: "pending_cancel",
+  REJECTED: "rejected",
+  EXPIRED: "expired",
+  EXPIRED_IN_MATCH: "expired",
+};
+
+function toExchangeOrder(raw: any): ExchangeOrder {
+  return {
+    orderId: String(raw.orderId),
+    clientOrderId: raw.clientOrderId ?? null,
+    symbol: raw.symbol,
+    side: raw.side,
+    type: raw.type,
+    status: STATUS_MAP[raw.status] ?? "new",
+    rawStatus: raw.status,
+    quantity: raw.origQty,
+    price: raw.price && parseFloat(raw.price) > 0 ? raw.price : null,
+    executedQuantity: raw.executedQty ?? "0",
+    quoteQuantity: raw.cummulativeQuoteQty ?? "0",
+    createdAt: raw.time ?? raw.transactTime ?? Date.now(),
+  };
+}
+
+export class BinanceAdapter implements ExchangeAdapter {
+  readonly name = "binance";
+  readonly supportsTestnet = true;
+  private client: BinanceService;
+
+  constructor(credentials: ExchangeCredentials) {
+    this.client = new BinanceService(credentials);
+  }
+
+  validateCredentials() {
+    return this.client.validateCredentials();
+  }
+
+  async getAccount(): Promise<ExchangeAccount> {
+    const account = await this.client.getAccountInfo();
+    return {
+      canTrade: account.canTrade,
+      canWithdraw: account.canWithdraw,
+      canDeposit: account.canDeposit,
+      balances: account.balances,
+    };
+  }
+
+  getTicker(symbol: string): Promise<ExchangeTicker> {
+    return this.client.getTickerPrice(symbol);
+  }
+
+  async getSymbolFilters(symbol: string): Promise<ExchangeSymbolFilters | null> {
+    const info = await this.client.getExchangeInfo(symbol);
+    const rules = info.symbols?.[0];
+    if (!rules) return null;
+
+    const filter = (type: string) => rules.filters.find((f: any) => f.filterType === type) || {};
+    const priceFilter = filter("PRICE_FILTER");
+    const lotSize = filter("LOT_SIZE");
+    const notional = filter("NOTIONAL").minNotional ? filter("NOTIONAL") : filter("MIN_NOTIONAL");
+
+    return {
+      symbol: rules.symbol,
+      baseAsset: rules.baseAsset,
+      quoteAsset: rules.quoteAsset,
+      tickSize: priceFilter.tickSize ?? "0",
+      lotSize: lotSize.stepSize ?? "0",
+      minQuantity: lotSize.minQty ?? "0",
+      maxQuantity: lotSize.maxQty ?? null,
+      minNotional: notional.minNotional ?? "0",
+      trading: rules.status === "TRADING",
+    };
+  }
+
+  async placeOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    const raw = await this.client.placeOrder({
+      symbol: request.symbol,
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      price: request.price,
+      newClientOrderId: request.clientOrderId,
+    });
+
+    const order = toExchangeOrder({ ...raw, origQty: raw.origQty ?? request.quantity });
+    const executedAt = raw.transactTime ?? Date.now();
+    const fills: ExchangeFill[] = (raw.fills || []).map((fill: any) => ({
+      tradeId: String(fill.tradeId),
+      price: fill.price,
+      quantity: fill.qty,
+      quoteQuantity: (parseFloat(fill.price) * parseFloat(fill.qty)).toFixed(8),
+      commission: fill.commission || "0",
+      commissionAsset: fill.commissionAsset ?? null,
+      isMaker: false, // Fills at placement take liquidity
+      executedAt,
+    }));
+    return { order, fills };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+    return toExchangeOrder(await this.client.cancelOrder(symbol, parseInt(orderId)));
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+    const orders = await this.client.getOpenOrders(symbol);
+    return orders.map(toExchangeOrder);
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+    return toExchangeOrder(await this.client.getOrder(symbol, parseInt(orderId)));
+  }
+
+  async getOrderFills(symbol: string, orderId: string): Promise<ExchangeFill[]> {
+    const trades = await this.client.getOrderTrades(symbol, parseInt(orderId));
+    return trades.map((trade: any) => ({
+      tradeId: String(trade.id),
+      price: trade.price,
+      quantity: trade.qty,
+      quoteQuantity: trade.quoteQty,
+      commission: trade.commission || "0",
+      commissionAsset: trade.commissionAsset ?? null,
+      isMaker: trade.isMaker ?? null,
+      executedAt: trade.time,
+    }));
+  }
+}
@@ -1,4 +1,8 @@
 import crypto from 'crypto';
+import { symbolRegistry } from './symbolRegistry';
+
+// Binance error code for a symbol it does not list ("Invalid symbol.")
+const INVALID_SYMBOL_CODE = -1121;
 
 interface BinanceOrderParams {
   symbol: string;
@@ -7,6 +11,7 @@ interface BinanceOrderParams {
   quantity: string;
   price?: string;
   timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  newClientOrderId?: string;
 }
 
 interface BinanceAccountInfo {
@@ -131,6 +136,10 @@ export class BinanceService {
       queryParams.timeInForce = params.timeInForce || 'GTC';
     }
 
+    if (params.newClientOrderId) {
+      queryParams.newClientOrderId = params.newClientOrderId;
+    }
+
     const queryString = new URLSearchParams(queryParams).toString();
     const signature = this.sign(queryString);
     
@@ -162,6 +171,24 @@ export class BinanceService {
     return response.json();
   }
 
+  /**
+   * Gets trading rules (price/lot/notional filters) for a symbol; an unlisted symbol
+   * comes back with no symbols
+   */
+  async getExchangeInfo(symbol: string): Promise<any> {
+    const response = await fetch(`${this.baseUrl}/v3/exchangeInfo?symbol=${symbol}`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ msg: 'Unknown error' }));
+      if (error.code === INVALID_SYMBOL_CODE) {
+        return { symbols: [] };
+      }
+      throw new Error(error.msg || `Failed to get exchange info for ${symbol}`);
+    }
+
+    return response.json();
+  }
+
   /**
    * Gets all open orders for all symbols or a specific symbol
    */
@@ -197,6 +224,20 @@ export class BinanceService {
     return orders;
   }
 
+  /**
+   * Gets the current state of one order (open or closed)
+   */
+  async getOrder(symbol: string, orderId: number): Promise<any> {
+    return this.signedGet('/v3/order', { symbol, orderId: orderId.toString() });
+  }
+
+  /**
+   * Gets the trades (fills) of one order, with commission
+   */
+  async getOrderTrades(symbol: string, orderId: number): Promise<any[]> {
+    return this.signedGet('/v3/myTrades', { symbol, orderId: orderId.toString() });
+  }
+
   /**
    * Cancels an order
    */
@@ -228,6 +269,27 @@ export class BinanceService {
     return response.json();
   }
 
+  /**
+   * Signed GET request
+   */
+  private async signedGet(endpoint: string, params: Record<string, string>): Promise<any> {
+    const queryString = new URLSearchParams({ ...params, timestamp: Date.now().toString() }).toString();
+    const signature = this.sign(queryString);
+
+    const response = await fetch(`${this.baseUrl}${endpoint}?${queryString}&signature=${signature}`, {
+      headers: {
+        'X-MBX-APIKEY': this.credentials.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ msg: 'Unknown error' }));
+      throw new Error(error.msg || `HTTP ${response.status}`);
+    }
+
+    return response.json();
+  }
+
   /**
    * Creates HMAC SHA256 signature for Binance API
    */
@@ -292,19 +354,12 @@ function getCacheKey(symbol: string, interval: string): string {
 }
 
 function normalizeSymbol(symbol: string): string {
-  // Convert symbols like BTC to BTCUSDT for Binance
-  const symbolMap: Record<string, string> = {
-    BTC: "BTCUSDT",
-    ETH: "ETHUSDT",
-    SOL: "SOLUSDT",
-    ADA: "ADAUSDT",
-    AVAX: "AVAXUSDT",
-    MATIC: "MATICUSDT",
-    DOT: "DOTUSDT",
-    LINK: "LINKUSDT",
-    XRP: "XRPUSDT",
-  };
-  return symbolMap[symbol] || `${symbol}USDT`;
+  // BTC -> BTCUSDT, from the symbol registry
+  const binanceSymbol = symbolRegistry.getProviderId(symbol, "binance");
+  if (!binanceSymbol) {
+    throw new Error(`Symbol ${symbol} has no Binance market`);
+  }
+  return binanceSymbol;
 }
 
 function convertKlineToCandle(kline: any[]): OHLCVCandle {
@@ -321,22 +376,6 @@ function convertKlineToCandle(kline: any[]): OHLCVCandle {
 // CoinGecko OHLC API integration
 const COINGECKO_API_URL = "https://api.coingecko.com/api/v3";
 
-// Map symbols to CoinGecko IDs
-const COINGECKO_ID_MAP: Record<string, string> = {
-  BTC: "bitcoin",
-  ETH: "ethereum",
-  SOL: "solana",
-  ADA: "cardano",
-  AVAX: "avalanche-2",
-  MATIC: "matic-network",
-  DOT: "polkadot",
-  LINK: "chainlink",
-  XRP: "ripple",
-  USDT: "tether",
-  BNB: "binancecoin",
-  USDC: "usd-coin",
-};
-
 // Map intervals to CoinGecko days parameter
 function getCoinGeckoDays(interval: string, limit: number): string {
   // CoinGecko auto-granularity:
@@ -371,7 +410,7 @@ function getCoinGeckoDays(interval: string, limit: number): string {
 }
 
 async function fetchCoinGeckoOHLCV(symbol: string, interval: string, limit: number): Promise<OHLCVCandle[]> {
-  const coinId = COINGECKO_ID_MAP[symbol];
+  const coinId = symbolRegistry.getProviderId(symbol, "coingecko");
   if (!coinId) {
     throw new Error(`Symbol ${symbol} not supported by CoinGecko`);
   }
@@ -0,0 +1,193 @@
+import { storage } from "../storage";
+import type { PaperWallet, PaperPosition, PaperEquityPoint } from "@shared/schema";
+import { getPortfolioEquity } from "./paperPortfolios";
+
+/**
+ * Paper Equity History
+ *
+ * Risk Guard's loss limits need to know what a portfolio was worth at the start of the day,
+ * the start of the month and at its peak. The equity tracker marks every selected portfolio
+ * to market on a fixed interval, and again after each closing trade, and stores the result
+ * in paper_equity_history with the cumulative realized P&L from the ledger:
+ * - A period's baseline is the last point recorded before it began; a portfolio with no
+ *   history that far back is measured from its first point in the period
+ * - History from before a portfolio's last reset is ignored
+ */
+
+export interface PnlSummary {
+  equity: number;
+  startingBalance: number;
+  periodStart: Date; // Portfolio creation or last reset
+  dayStartEquity: number;
+  monthStartEquity: number;
+  peakEquity: number;
+  dailyPnl: number; // Realized and unrealized, against dayStartEquity
+  monthlyPnl: number;
+  dailyRealizedPnl: number;
+  monthlyRealizedPnl: number;
+  drawdownPercent: number; // Below peakEquity
+}
+
+type EquityHistoryResult = { success: boolean; error?: string; status?: number; summary?: PnlSummary; points?: PaperEquityPoint[] };
+
+function getPeriodStart(wallet: PaperWallet): Date {
+  return new Date(wallet.lastResetAt ?? wallet.createdAt);
+}
+
+function latest(a: Date, b: Date): Date {
+  return a > b ? a : b;
+}
+
+export class EquityTracker {
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async start(intervalMs: number = 5 * 60 * 1000): Promise<void> {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    this.interval = setInterval(() => {
+      this.recordAll().catch(error => {
+        console.error("[EQUITY] Failed to record equity:", error);
+      });
+    }, intervalMs);
+
+    await this.recordAll();
+    console.log(`[EQUITY] Equity tracking started - marking portfolios every ${intervalMs / 60000} min`);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Mark every selected portfolio to market
+   */
+  async recordAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const wallets = await storage.getSelectedPaperWallets();
+      for (const wallet of wallets) {
+        try {
+          await this.record(wallet, "interval");
+        } catch (error: any) {
+          console.error(`[EQUITY] Failed to record equity for wallet ${wallet.id}:`, error.message || error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async record(
+    wallet: PaperWallet,
+    reason: "interval" | "trade",
+    positions?: PaperPosition[]
+  ): Promise<PaperEquityPoint> {
+    const openPositions = positions ?? await storage.getPaperPositionsByWalletId(wallet.id);
+    const balance = parseFloat(wallet.balance);
+    const equity = getPortfolioEquity(wallet, openPositions);
+    const realizedPnl = await storage.sumPaperRealizedPnl(wallet.id, getPeriodStart(wallet));
+
+    return storage.createPaperEquityPoint({
+      walletId: wallet.id,
+      userId: wallet.userId,
+      balance: balance.toFixed(2),
+      positionsValue: (equity - balance).toFixed(2),
+      equity: equity.toFixed(2),
+      realizedPnl: realizedPnl.toFixed(8),
+      unrealizedPnl: (equity - parseFloat(wallet.startingBalance) - realizedPnl).toFixed(8),
+      reason,
+    });
+  }
+
+  /**
+   * Current equity against the day, month and peak baselines
+   */
+  async getPnlSummary(wallet: PaperWallet, positions?: PaperPosition[]): Promise<PnlSummary> {
+    const openPositions = positions ?? await storage.getPaperPositionsByWalletId(wallet.id);
+    const equity = getPortfolioEquity(wallet, openPositions);
+    const startingBalance = parseFloat(wallet.startingBalance);
+    const periodStart = getPeriodStart(wallet);
+
+    const now = new Date();
+    const dayStart = new Date(now);
+    dayStart.setHours(0, 0, 0, 0);
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    const dayStartEquity = await this.getEquityAt(wallet, dayStart, equity);
+    const monthStartEquity = await this.getEquityAt(wallet, monthStart, equity);
+    const historyPeak = await storage.getPaperEquityPeak(wallet.id, periodStart);
+    const peakEquity = Math.max(startingBalance, historyPeak ?? 0, equity);
+
+    return {
+      equity,
+      startingBalance,
+      periodStart,
+      dayStartEquity,
+      monthStartEquity,
+      peakEquity,
+      dailyPnl: equity - dayStartEquity,
+      monthlyPnl: equity - monthStartEquity,
+      dailyRealizedPnl: await storage.sumPaperRealizedPnl(wallet.id, latest(dayStart, periodStart)),
+      monthlyRealizedPnl: await storage.sumPaperRealizedPnl(wallet.id, latest(monthStart, periodStart)),
+      drawdownPercent: peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0,
+    };
+  }
+
+  /**
+   * Drawdown of current equity below its peak since a moment in the current period
+   */
+  async getDrawdownSince(wallet: PaperWallet, since: Date, equity: number): Promise<number> {
+    const periodStart = getPeriodStart(wallet);
+    const from = latest(since, periodStart);
+    const historyPeak = await storage.getPaperEquityPeak(wallet.id, from);
+    const startingBalance = from <= periodStart ? parseFloat(wallet.startingBalance) : 0;
+    const peak = Math.max(startingBalance, historyPeak ?? 0, equity);
+    return peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+  }
+
+  /**
+   * Equity at a moment in the current period; current equity when there is no history around it
+   */
+  private async getEquityAt(wallet: PaperWallet, at: Date, currentEquity: number): Promise<number> {
+    const periodStart = getPeriodStart(wallet);
+    if (at <= periodStart) {
+      return parseFloat(wallet.startingBalance);
+    }
+
+    const before = await storage.getLastPaperEquityPointBefore(wallet.id, at);
+    if (before && before.recordedAt >= periodStart) {
+      return parseFloat(before.equity);
+    }
+
+    const after = await storage.getFirstPaperEquityPointSince(wallet.id, at);
+    return after ? parseFloat(after.equity) : currentEquity;
+  }
+}
+
+export const equityTracker = new EquityTracker();
+
+/**
+ * A portfolio's equity curve for the last few days, with its current P&L summary
+ */
+export async function getEquityHistory(userId: string, walletId: string, days: number): Promise<EquityHistoryResult> {
+  const wallet = await storage.getPaperWalletById(walletId);
+  if (!wallet) {
+    return { success: false, error: "Portfolio not found", status: 404 };
+  }
+  if (wallet.userId !== userId) {
+    return { success: false, error: "Forbidden: You can only access your own portfolios", status: 403 };
+  }
+
+  const since = latest(new Date(Date.now() - days * 24 * 60 * 60 * 1000), getPeriodStart(wallet));
+  const points = await storage.getPaperEquityHistory(wallet.id, since);
+  const summary = await equityTracker.getPnlSummary(wallet);
+  return { success: true, summary, points };
+}
@@ -0,0 +1,153 @@
+import type { ExchangeConnection } from "@shared/schema";
+import { decrypt } from "../utils/encryption";
+import { BinanceAdapter } from "./binanceAdapter";
+import { KrakenAdapter } from "./krakenAdapter";
+import { MockExchangeAdapter } from "./mockExchange";
+
+/**
+ * Exchange Adapters
+ *
+ * One interface for every venue live orders can go to. The live exchange service,
+ * order reconciliation and the exchange routes only talk to ExchangeAdapter, so adding
+ * a venue means adding an adapter here and nothing else:
+ * - Symbols are the exchange's own (BTCUSDT on Binance, XBTUSD on Kraken)
+ * - Quantities and prices stay decimal strings, as the exchanges send them
+ * - Order statuses are mapped to one vocabulary; the exchange's own is kept in rawStatus
+ */
+
+export type ExchangeOrderStatus = "new" | "partially_filled" | "filled" | "canceled" | "expired" | "rejected" | "pending_cancel";
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+  testnet?: boolean;
+}
+
+export interface ExchangeBalance {
+  asset: string;
+  free: string;
+  locked: string;
+}
+
+export interface ExchangeAccount {
+  canTrade: boolean;
+  canWithdraw: boolean;
+  canDeposit: boolean;
+  balances: ExchangeBalance[];
+}
+
+export interface ExchangeTicker {
+  symbol: string;
+  price: string;
+}
+
+export interface ExchangeSymbolFilters {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: string; // Price increment
+  lotSize: string; // Quantity increment
+  minQuantity: string;
+  maxQuantity: string | null;
+  minNotional: string; // Minimum order value in the quote asset
+  trading: boolean; // False while the exchange has the symbol halted or delisted
+}
+
+export interface ExchangeOrderRequest {
+  symbol: string;
+  side: "BUY" | "SELL";
+  type: "MARKET" | "LIMIT";
+  quantity: string;
+  price?: string; // Required for LIMIT
+  clientOrderId?: string;
+}
+
+export interface ExchangeOrder {
+  orderId: string;
+  clientOrderId: string | null;
+  symbol: string;
+  side: "BUY" | "SELL";
+  type: string; // 'MARKET', 'LIMIT', or the exchange's own name for anything else
+  status: ExchangeOrderStatus;
+  rawStatus: string;
+  quantity: string;
+  price: string | null;
+  executedQuantity: string;
+  quoteQuantity: string; // Cumulative quote spent or received
+  createdAt: number; // ms
+}
+
+export interface ExchangeFill {
+  tradeId: string;
+  price: string;
+  quantity: string;
+  quoteQuantity: string;
+  commission: string;
+  commissionAsset: string | null;
+  isMaker: boolean | null;
+  executedAt: number; // ms
+}
+
+export interface ExchangeOrderResult {
+  order: ExchangeOrder;
+  fills: ExchangeFill[]; // Fills known at placement; more may follow
+}
+
+export interface ExchangeAdapter {
+  readonly name: string;
+  readonly supportsTestnet: boolean;
+
+  validateCredentials(): Promise<{ valid: boolean; permissions: string[]; error?: string }>;
+  getAccount(): Promise<ExchangeAccount>;
+  getTicker(symbol: string): Promise<ExchangeTicker>;
+  getSymbolFilters(symbol: string): Promise<ExchangeSymbolFilters | null>;
+  placeOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult>;
+  cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrder>;
+  getOpenOrders(symbol?: string): Promise<ExchangeOrder[]>;
+  getOrder(symbol: string, orderId: string): Promise<ExchangeOrder>;
+  getOrderFills(symbol: string, orderId: string): Promise<ExchangeFill[]>;
+}
+
+/**
+ * Exchanges this server can connect to. The in-process mock is only offered when
+ * ENABLE_MOCK_EXCHANGE=true (development and end-to-end tests).
+ */
+export function getSupportedExchanges(): string[] {
+  const exchanges = ["binance", "kraken"];
+  if (process.env.ENABLE_MOCK_EXCHANGE === "true") {
+    exchanges.push("mock");
+  }
+  return exchanges;
+}
+
+export function createExchangeAdapter(exchange: string, credentials: ExchangeCredentials): ExchangeAdapter | null {
+  if (!getSupportedExchanges().includes(exchange)) {
+    return null;
+  }
+
+  switch (exchange) {
+    case "binance":
+      return new BinanceAdapter(credentials);
+    case "kraken":
+      return new KrakenAdapter(credentials);
+    case "mock":
+      return new MockExchangeAdapter(credentials);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Adapter for a stored connection, with its credentials decrypted
+ */
+export function getConnectionAdapter(connection: ExchangeConnection): ExchangeAdapter {
+  const adapter = createExchangeAdapter(connection.exchange, {
+    apiKey: decrypt(connection.encryptedApiKey),
+    apiSecret: decrypt(connection.encryptedApiSecret),
+    testnet: connection.testnet,
+  });
+  if (!adapter) {
+    throw new Error(`Exchange ${connection.exchange} is not supported`);
+  }
+  return adapter;
+}
@@ -0,0 +1,119 @@
+import type { ExchangeConnection } from "@shared/schema";
+import type { ExchangeAdapter, ExchangeSymbolFilters } from "./exchangeAdapter";
+import type { OrderPayload } from "./liveExchangeService";
+
+/**
+ * Exchange Symbol Filters
+ *
+ * Exchanges reject orders that break their per-symbol trading rules (Binance's LOT_SIZE,
+ * PRICE_FILTER and MIN_NOTIONAL). The pre-check applies the same rules so an order that
+ * passes it is the order that gets sent:
+ * - Quantities round down to the lot size; limit prices round to the tick size in the
+ *   user's favour (buys down, sells up)
+ * - Orders still outside min/max quantity or below the minimum notional are rejected
+ * Filters change rarely, so they are cached per exchange, network and symbol. Adapters
+ * return null only when the exchange says the symbol is unknown; a failed request throws
+ * and is not cached.
+ */
+
+const FILTER_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const filterCache = new Map<string, { filters: ExchangeSymbolFilters | null; fetchedAt: number }>();
+
+export interface FilteredOrder {
+  order?: OrderPayload; // The order as it will be sent
+  adjustments: string[];
+  error?: string;
+}
+
+/**
+ * Trading rules for a symbol (null when the exchange does not list it)
+ */
+export async function getSymbolFilters(
+  adapter: ExchangeAdapter,
+  connection: ExchangeConnection,
+  symbol: string
+): Promise<ExchangeSymbolFilters | null> {
+  const key = `${connection.exchange}:${connection.testnet ? "testnet" : "live"}:${symbol}`;
+  const cached = filterCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < FILTER_CACHE_TTL_MS) {
+    return cached.filters;
+  }
+
+  const filters = await adapter.getSymbolFilters(symbol);
+  filterCache.set(key, { filters, fetchedAt: Date.now() });
+  return filters;
+}
+
+function decimalsOf(step: string): number {
+  const fraction = step.split(".")[1] || "";
+  return fraction.replace(/0+$/, "").length;
+}
+
+function roundToStep(value: number, step: string, mode: "floor" | "ceil"): string {
+  const size = parseFloat(step);
+  if (!(size > 0)) return value.toString();
+
+  // Tolerance keeps values already on the step (0.3 / 0.1) from rounding a step away
+  const steps = value / size;
+  const rounded = mode === "floor" ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9);
+  return (rounded * size).toFixed(decimalsOf(step));
+}
+
+/**
+ * Round an order onto the symbol's steps, or explain why the exchange would reject it
+ */
+export function applySymbolFilters(
+  order: OrderPayload,
+  filters: ExchangeSymbolFilters,
+  marketPrice: number
+): FilteredOrder {
+  const adjustments: string[] = [];
+
+  if (!filters.trading) {
+    return { adjustments, error: `${order.symbol} is not currently trading on this exchange` };
+  }
+
+  const requestedQuantity = parseFloat(order.quantity);
+  const quantity = roundToStep(requestedQuantity, filters.lotSize, "floor");
+  if (parseFloat(quantity) !== requestedQuantity) {
+    adjustments.push(`Quantity rounded down from ${order.quantity} to ${quantity} (lot size ${filters.lotSize})`);
+  }
+
+  let price = order.price;
+  if (order.type === "LIMIT" && order.price) {
+    const requestedPrice = parseFloat(order.price);
+    price = roundToStep(requestedPrice, filters.tickSize, order.side === "BUY" ? "floor" : "ceil");
+    if (parseFloat(price) !== requestedPrice) {
+      adjustments.push(
+        `Limit price rounded ${order.side === "BUY" ? "down" : "up"} from ${order.price} to ${price} (tick size ${filters.tickSize})`
+      );
+    }
+    if (!(parseFloat(price) > 0)) {
+      return { adjustments, error: `Limit price must be at least ${filters.tickSize} ${filters.quoteAsset}` };
+    }
+  }
+
+  const quantityValue = parseFloat(quantity);
+  const minQuantity = parseFloat(filters.minQuantity);
+  if (!(quantityValue > 0) || quantityValue < minQuantity) {
+    return {
+      adjustments,
+      error: `Quantity must be at least ${Math.max(minQuantity, parseFloat(filters.lotSize))} ${filters.baseAsset}`,
+    };
+  }
+  if (filters.maxQuantity && quantityValue > parseFloat(filters.maxQuantity)) {
+    return { adjustments, error: `Quantity must be at most ${filters.maxQuantity} ${filters.baseAsset}` };
+  }
+
+  const notional = quantityValue * (order.type === "LIMIT" && price ? parseFloat(price) : marketPrice);
+  const minNotional = parseFloat(filters.minNotional);
+  if (notional < minNotional) {
+    return {
+      adjustments,
+      error: `Order value ${notional.toFixed(2)} ${filters.quoteAsset} is below the exchange minimum of ${minNotional} ${filters.quoteAsset}`,
+    };
+  }
+
+  return { order: { ...order, quantity, price }, adjustments };
+}
@@ -0,0 +1,150 @@
+import type { PaperWallet } from "@shared/schema";
+
+/**
+ * Paper Execution Model
+ *
+ * Prices a paper fill the way an exchange would:
+ * - Maker/taker fees from Binance-style VIP tiers (resting limits are makers, everything else takes)
+ * - Slippage for taker fills from a synthetic order book: half the spread plus a
+ *   square-root impact term that grows with order size relative to book depth
+ * - Optional partial fills, capped at a share of the visible depth per fill
+ *
+ * Fees are charged in the quote currency (USD) on top of the notional.
+ */
+
+export type Liquidity = "maker" | "taker";
+
+export interface FeeTier {
+  makerRate: number; // Fraction of notional, e.g. 0.001 = 0.1%
+  takerRate: number;
+}
+
+// Binance spot schedule (no BNB discount)
+export const FEE_TIERS: Record<string, FeeTier> = {
+  vip0: { makerRate: 0.001, takerRate: 0.001 },
+  vip1: { makerRate: 0.0009, takerRate: 0.001 },
+  vip2: { makerRate: 0.0008, takerRate: 0.001 },
+  vip3: { makerRate: 0.00042, takerRate: 0.0006 },
+  vip4: { makerRate: 0.00042, takerRate: 0.00054 },
+  vip5: { makerRate: 0.00036, takerRate: 0.00048 },
+  vip6: { makerRate: 0.0003, takerRate: 0.00042 },
+  vip7: { makerRate: 0.00024, takerRate: 0.00036 },
+  vip8: { makerRate: 0.00018, takerRate: 0.0003 },
+  vip9: { makerRate: 0.00012, takerRate: 0.00024 },
+};
+
+interface BookProfile {
+  depthUsd: number; // Notional resting within ~1% of mid on one side
+  spreadBps: number;
+}
+
+// Rough top-of-book liquidity for the symbols the paper engine prices
+const BOOK_PROFILES: Record<string, BookProfile> = {
+  BTC: { depthUsd: 8_000_000, spreadBps: 0.5 },
+  ETH: { depthUsd: 4_000_000, spreadBps: 1 },
+  SOL: { depthUsd: 1_000_000, spreadBps: 2 },
+  XRP: { depthUsd: 800_000, spreadBps: 2 },
+  ADA: { depthUsd: 300_000, spreadBps: 4 },
+  LINK: { depthUsd: 300_000, spreadBps: 4 },
+  AVAX: { depthUsd: 250_000, spreadBps: 5 },
+  DOT: { depthUsd: 200_000, spreadBps: 5 },
+  MATIC: { depthUsd: 150_000, spreadBps: 6 },
+};
+const DEFAULT_BOOK_PROFILE: BookProfile = { depthUsd: 100_000, spreadBps: 10 };
+
+// Impact in bps when an order eats the whole 1% depth band
+const IMPACT_COEFFICIENT_BPS = 100;
+
+// Share of the visible depth a single fill may take when partial fills are on
+const MAX_DEPTH_PARTICIPATION = 0.1;
+
+export interface ExecutionQuote {
+  fillQuantity: number; // May be below the requested quantity when partial fills are on
+  fillPrice: number;
+  notional: number;
+  fee: number;
+  feeRate: number;
+  slippage: number; // Cost vs the reference price, in quote currency
+  liquidity: Liquidity;
+}
+
+export function getFeeTier(tier: string | null | undefined): FeeTier {
+  return FEE_TIERS[tier || "vip0"] || FEE_TIERS.vip0;
+}
+
+export function getFeeRate(wallet: PaperWallet, liquidity: Liquidity): number {
+  const tier = getFeeTier(wallet.feeTier);
+  return liquidity === "maker" ? tier.makerRate : tier.takerRate;
+}
+
+function getBookProfile(symbol: string): BookProfile {
+  return BOOK_PROFILES[symbol.toUpperCase()] || DEFAULT_BOOK_PROFILE;
+}
+
+/**
+ * Slippage in bps for a taker order of the given notional
+ */
+export function estimateSlippageBps(symbol: string, notional: number): number {
+  const book = getBookProfile(symbol);
+  const impact = IMPACT_COEFFICIENT_BPS * Math.sqrt(Math.max(0, notional) / book.depthUsd);
+  return book.spreadBps / 2 + impact;
+}
+
+/**
+ * Largest quantity one fill may take from the synthetic book
+ */
+export function getMaxFillQuantity(symbol: string, price: number): number {
+  return (getBookProfile(symbol).depthUsd * MAX_DEPTH_PARTICIPATION) / price;
+}
+
+/**
+ * Price a fill against the wallet's execution model
+ */
+export function quoteExecution(
+  wallet: PaperWallet,
+  symbol: string,
+  side: "buy" | "sell",
+  quantityNum: number,
+  referencePrice: number,
+  liquidity: Liquidity
+): ExecutionQuote {
+  let fillQuantity = quantityNum;
+  if (wallet.partialFillsEnabled) {
+    fillQuantity = Math.min(quantityNum, getMaxFillQuantity(symbol, referencePrice));
+  }
+
+  // Makers rest in the book and fill at their own price
+  let fillPrice = referencePrice;
+  if (liquidity === "taker" && wallet.slippageEnabled) {
+    const slippageBps = estimateSlippageBps(symbol, fillQuantity * referencePrice);
+    const direction = side === "buy" ? 1 : -1;
+    fillPrice = referencePrice * (1 + direction * slippageBps / 10000);
+  }
+
+  const notional = fillQuantity * fillPrice;
+  const feeRate = getFeeRate(wallet, liquidity);
+
+  return {
+    fillQuantity,
+    fillPrice,
+    notional,
+    fee: notional * feeRate,
+    feeRate,
+    slippage: Math.abs(fillPrice - referencePrice) * fillQuantity,
+    liquidity,
+  };
+}
+
+/**
+ * Cash a buy of the full quantity needs, slippage and fees included
+ */
+export function estimateBuyCost(
+  wallet: PaperWallet,
+  symbol: string,
+  quantityNum: number,
+  price: number,
+  liquidity: Liquidity
+): number {
+  const quote = quoteExecution({ ...wallet, partialFillsEnabled: false }, symbol, "buy", quantityNum, price, liquidity);
+  return quote.notional + quote.fee;
+}
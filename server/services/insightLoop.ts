@@ -17,36 +17,20 @@
  * - Recommendations: Actionable next steps (JSON array)
  */
 
-import OpenAI from "openai";
+import { z } from "zod";
 import type { IStorage } from "../storage";
 import type { InsertAIDailyInsight, AIDailyInsight } from "../../shared/schema";
 import { logAIDecision } from "./aiAuditService";
 import { calculateTradingDNA } from "./tradingDNA";
+import { aiGateway } from "./aiGateway";
 import crypto from "crypto";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const dailyInsightSchema = z.object({
+  summary: z.string().optional(),
+  insights: z.array(z.string()).default([]),
+  recommendations: z.array(z.string()).default([]),
 });
 
-/**
- * Strip markdown code blocks from JSON response
- * OpenAI sometimes wraps JSON in ```json...``` blocks
- */
-function stripMarkdownJson(response: string): string {
-  const trimmed = response.trim();
-  
-  // Check if wrapped in markdown code blocks
-  if (trimmed.startsWith('```json') || trimmed.startsWith('```')) {
-    // Remove opening ```json or ``` and closing ```
-    return trimmed
-      .replace(/^```(?:json)?\s*\n?/, '')
-      .replace(/\n?```\s*$/, '')
-      .trim();
-  }
-  
-  return trimmed;
-}
-
 /**
  * Determine insight type based on current hour (server time)
  * Morning: 6-11 AM
@@ -216,16 +200,12 @@ Keep it brief, calm, and actionable. No hype. Focus on peace of mind.`;
   const promptHash = crypto.createHash('sha256').update(prompt).digest('hex');
   
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await aiGateway.completeJson("insight", {
       messages: [{ role: "user", content: prompt }],
-      temperature: 0.7,
-      max_tokens: 500,
+      schema: dailyInsightSchema,
+      userId,
     });
-    
-    const response = completion.choices[0].message.content || '{}';
-    const cleanedResponse = stripMarkdownJson(response);
-    const parsed = JSON.parse(cleanedResponse);
+    const parsed = completion.data;
     
     const result = {
       userId,
@@ -233,8 +213,8 @@ Keep it brief, calm, and actionable. No hype. Focus on peace of mind.`;
       summary: parsed.summary || 'Morning brief generated',
       emotionScore: emotionScore.toString(),
       peaceIndex: peaceIndex.toString(),
-      insights: JSON.stringify(parsed.insights || []),
-      recommendations: JSON.stringify(parsed.recommendations || []),
+      insights: JSON.stringify(parsed.insights),
+      recommendations: JSON.stringify(parsed.recommendations),
       marketContext: JSON.stringify(market),
       portfolioSnapshot: JSON.stringify({ totalPnL, portfolioValue, positions: positions.length }),
     };
@@ -243,10 +223,10 @@ Keep it brief, calm, and actionable. No hype. Focus on peace of mind.`;
     await logAIDecision({
       userId,
       featureType: 'briefing',
-      modelVersion: 'gpt-4o-mini',
+      modelVersion: completion.model,
       prompt,
       inputData: { market, portfolio: { totalPnL, portfolioValue }, positions: positions.length },
-      outputData: JSON.parse(cleanedResponse),
+      outputData: parsed,
       explanation: `Morning brief generated for ${user.firstName}. Peace index: ${peaceIndex.toFixed(0)}/100`,
       confidence: 85,
     });
@@ -325,16 +305,14 @@ Be supportive but honest. If they're doing well, celebrate. If stressed, remind
   const promptHash = crypto.createHash('sha256').update(prompt).digest('hex');
   
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await aiGateway.completeJson("insight", {
       messages: [{ role: "user", content: prompt }],
+      schema: dailyInsightSchema,
+      userId,
+      maxTokens: 300,
       temperature: 0.8,
-      max_tokens: 300,
     });
-    
-    const response = completion.choices[0].message.content || '{}';
-    const cleanedResponse = stripMarkdownJson(response);
-    const parsed = JSON.parse(cleanedResponse);
+    const parsed = completion.data;
     
     const result = {
       userId,
@@ -342,8 +320,8 @@ Be supportive but honest. If they're doing well, celebrate. If stressed, remind
       summary: parsed.summary || 'Midday check-in',
       emotionScore: emotionScore.toString(),
       peaceIndex: peaceIndex.toString(),
-      insights: JSON.stringify(parsed.insights || []),
-      recommendations: JSON.stringify(parsed.recommendations || []),
+      insights: JSON.stringify(parsed.insights),
+      recommendations: JSON.stringify(parsed.recommendations),
       marketContext: JSON.stringify(market),
       portfolioSnapshot: JSON.stringify({ totalPnL, portfolioValue, positions: positions.length }),
     };
@@ -351,10 +329,10 @@ Be supportive but honest. If they're doing well, celebrate. If stressed, remind
     await logAIDecision({
       userId,
       featureType: 'briefing',
-      modelVersion: 'gpt-4o-mini',
+      modelVersion: completion.model,
       prompt,
       inputData: { emotionScore, peaceIndex, totalPnL },
-      outputData: JSON.parse(cleanedResponse),
+      outputData: parsed,
       explanation: `Midday pulse check-in. Emotion: ${emotionScore.toFixed(0)}, Peace: ${peaceIndex.toFixed(0)}`,
       confidence: 80,
     });
@@ -440,16 +418,14 @@ Be warm and encouraging. Focus on growth, not perfection. Help them end the day
   const promptHash = crypto.createHash('sha256').update(prompt).digest('hex');
   
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await aiGateway.completeJson("insight", {
       messages: [{ role: "user", content: prompt }],
+      schema: dailyInsightSchema,
+      userId,
+      maxTokens: 400,
       temperature: 0.7,
-      max_tokens: 400,
     });
-    
-    const response = completion.choices[0].message.content || '{}';
-    const cleanedResponse = stripMarkdownJson(response);
-    const parsed = JSON.parse(cleanedResponse);
+    const parsed = completion.data;
     
     const result = {
       userId,
@@ -457,8 +433,8 @@ Be warm and encouraging. Focus on growth, not perfection. Help them end the day
       summary: parsed.summary || 'Evening reflection',
       emotionScore: emotionScore.toString(),
       peaceIndex: peaceIndex.toString(),
-      insights: JSON.stringify(parsed.insights || []),
-      recommendations: JSON.stringify(parsed.recommendations || []),
+      insights: JSON.stringify(parsed.insights),
+      recommendations: JSON.stringify(parsed.recommendations),
       marketContext: JSON.stringify(market),
       portfolioSnapshot: JSON.stringify({ totalPnL, portfolioValue, tradesCount: todayTrades.length }),
     };
@@ -466,10 +442,10 @@ Be warm and encouraging. Focus on growth, not perfection. Help them end the day
     await logAIDecision({
       userId,
       featureType: 'briefing',
-      modelVersion: 'gpt-4o-mini',
+      modelVersion: completion.model,
       prompt,
       inputData: { todayTrades: todayTrades.length, totalPnL, peaceIndex },
-      outputData: JSON.parse(cleanedResponse),
+      outputData: parsed,
       explanation: `Evening reflection generated. Peace index: ${peaceIndex.toFixed(0)}/100. Trades today: ${todayTrades.length}`,
       confidence: 85,
     });
@@ -0,0 +1,279 @@
+import crypto from "crypto";
+import type {
+  ExchangeAccount,
+  ExchangeAdapter,
+  ExchangeCredentials,
+  ExchangeFill,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeOrderStatus,
+  ExchangeSymbolFilters,
+  ExchangeTicker,
+} from "./exchangeAdapter";
+
+/**
+ * Kraken spot REST API (https://docs.kraken.com/api/)
+ *
+ * Symbols are Kraken pair altnames (XBTUSD, ETHUSD). Kraken has no spot testnet, and
+ * order placement does not return fills: they are read back with QueryOrders/QueryTrades.
+ */
+
+const BASE_URL = "https://api.kraken.com";
+const UNKNOWN_PAIR_ERROR = "EQuery:Unknown asset pair";
+
+// Last nonce sent per API key. Adapters are built per request, so this has to outlive them
+const lastNonces = new Map<string, number>();
+
+// Kraken order status → adapter status; an open order with volume executed is partially filled
+const STATUS_MAP: Record<string, ExchangeOrderStatus> = {
+  pending: "new",
+  open: "new",
+  closed: "filled",
+  canceled: "canceled",
+  expired: "expired",
+};
+
+interface KrakenPair {
+  altname: string;
+  base: string;
+  quote: string;
+  pair_decimals: number;
+  lot_decimals: number;
+  ordermin?: string;
+  costmin?: string;
+  tick_size?: string;
+  status?: string;
+}
+
+// Kraken prefixes legacy asset codes (XXBT, ZUSD); strip the prefix for display
+function normalizeAsset(asset: string): string {
+  return asset.length === 4 && (asset.startsWith("X") || asset.startsWith("Z")) ? asset.slice(1) : asset;
+}
+
+function toExchangeOrder(orderId: string, raw: any): ExchangeOrder {
+  const executed = parseFloat(raw.vol_exec || "0");
+  let status = STATUS_MAP[raw.status] ?? "new";
+  if (status === "new" && executed > 0) status = "partially_filled";
+
+  return {
+    orderId,
+    clientOrderId: raw.cl_ord_id ?? null,
+    symbol: raw.descr?.pair,
+    side: raw.descr?.type === "sell" ? "SELL" : "BUY",
+    type: (raw.descr?.ordertype || "").toUpperCase(),
+    status,
+    rawStatus: raw.status,
+    quantity: raw.vol,
+    price: raw.descr?.price && parseFloat(raw.descr.price) > 0 ? raw.descr.price : null,
+    executedQuantity: raw.vol_exec || "0",
+    quoteQuantity: raw.cost || "0",
+    createdAt: Math.round(parseFloat(raw.opentm || "0") * 1000) || Date.now(),
+  };
+}
+
+export class KrakenAdapter implements ExchangeAdapter {
+  readonly name = "kraken";
+  readonly supportsTestnet = false;
+  private credentials: ExchangeCredentials;
+  private pairs = new Map<string, KrakenPair>();
+
+  constructor(credentials: ExchangeCredentials) {
+    this.credentials = credentials;
+  }
+
+  async validateCredentials(): Promise<{ valid: boolean; permissions: string[]; error?: string }> {
+    if (this.credentials.testnet) {
+      return { valid: false, permissions: [], error: "Kraken has no spot testnet" };
+    }
+
+    try {
+      await this.privateRequest("BalanceEx");
+      // Kraken does not report key permissions; a successful balance query proves the key works
+      return { valid: true, permissions: [] };
+    } catch (error: any) {
+      console.error("[Kraken] ❌ Validation failed:", error.message);
+      return { valid: false, permissions: [], error: error.message || "Failed to validate API credentials" };
+    }
+  }
+
+  async getAccount(): Promise<ExchangeAccount> {
+    const balances: Record<string, { balance: string; hold_trade?: string }> = await this.privateRequest("BalanceEx");
+    return {
+      canTrade: true,
+      canWithdraw: false,
+      canDeposit: false,
+      balances: Object.entries(balances).map(([asset, { balance, hold_trade }]) => {
+        const locked = parseFloat(hold_trade || "0");
+        return {
+          asset: normalizeAsset(asset),
+          free: (parseFloat(balance) - locked).toString(),
+          locked: locked.toString(),
+        };
+      }),
+    };
+  }
+
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    const result = await this.publicRequest("Ticker", { pair: symbol });
+    const ticker: any = Object.values(result)[0];
+    if (!ticker?.c) {
+      throw new Error(`Failed to get ticker price for ${symbol}`);
+    }
+    return { symbol, price: ticker.c[0] };
+  }
+
+  async getSymbolFilters(symbol: string): Promise<ExchangeSymbolFilters | null> {
+    const pair = await this.getPair(symbol);
+    if (!pair) return null;
+
+    return {
+      symbol: pair.altname,
+      baseAsset: normalizeAsset(pair.base),
+      quoteAsset: normalizeAsset(pair.quote),
+      tickSize: pair.tick_size ?? Math.pow(10, -pair.pair_decimals).toFixed(pair.pair_decimals),
+      lotSize: Math.pow(10, -pair.lot_decimals).toFixed(pair.lot_decimals),
+      minQuantity: pair.ordermin ?? "0",
+      maxQuantity: null,
+      minNotional: pair.costmin ?? "0",
+      trading: !pair.status || pair.status === "online",
+    };
+  }
+
+  async placeOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    const params: Record<string, string> = {
+      pair: request.symbol,
+      type: request.side === "BUY" ? "buy" : "sell",
+      ordertype: request.type === "LIMIT" ? "limit" : "market",
+      volume: request.quantity,
+    };
+    if (request.type === "LIMIT" && request.price) {
+      params.price = request.price;
+    }
+    if (request.clientOrderId) {
+      params.cl_ord_id = request.clientOrderId;
+    }
+
+    const result = await this.privateRequest("AddOrder", params);
+    const orderId = result.txid?.[0];
+    if (!orderId) {
+      throw new Error("Kraken did not return an order ID");
+    }
+
+    // Market orders usually complete within the AddOrder round trip
+    const order = await this.getOrder(request.symbol, orderId);
+    const fills = order.executedQuantity !== "0" ? await this.getOrderFills(request.symbol, orderId) : [];
+    return { order, fills };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+    await this.privateRequest("CancelOrder", { txid: orderId });
+    return this.getOrder(symbol, orderId);
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+    const result = await this.privateRequest("OpenOrders");
+    return Object.entries(result.open || {})
+      .map(([orderId, raw]) => toExchangeOrder(orderId, raw))
+      .filter(order => !symbol || order.symbol === symbol);
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+    const result = await this.privateRequest("QueryOrders", { txid: orderId });
+    const raw = result[orderId];
+    if (!raw) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    return toExchangeOrder(orderId, { ...raw, descr: { pair: symbol, ...raw.descr } });
+  }
+
+  async getOrderFills(symbol: string, orderId: string): Promise<ExchangeFill[]> {
+    const orders = await this.privateRequest("QueryOrders", { txid: orderId, trades: "true" });
+    const tradeIds: string[] = orders[orderId]?.trades || [];
+    if (tradeIds.length === 0) return [];
+
+    const trades = await this.privateRequest("QueryTrades", { txid: tradeIds.join(",") });
+    const pair = await this.getPair(symbol);
+    const commissionAsset = pair ? normalizeAsset(pair.quote) : null; // Kraken charges spot fees in the quote asset by default
+
+    return Object.entries(trades).map(([tradeId, trade]: [string, any]) => ({
+      tradeId,
+      price: trade.price,
+      quantity: trade.vol,
+      quoteQuantity: trade.cost,
+      commission: trade.fee || "0",
+      commissionAsset,
+      isMaker: typeof trade.maker === "boolean" ? trade.maker : null,
+      executedAt: Math.round(parseFloat(trade.time) * 1000),
+    }));
+  }
+
+  private async getPair(symbol: string): Promise<KrakenPair | null> {
+    const cached = this.pairs.get(symbol);
+    if (cached) return cached;
+
+    // Only Kraken saying the pair is unknown means "not listed"; network and server
+    // errors are rethrown so they aren't cached as a missing pair
+    let result: any;
+    try {
+      result = await this.publicRequest("AssetPairs", { pair: symbol });
+    } catch (error: any) {
+      if (error.message?.includes(UNKNOWN_PAIR_ERROR)) return null;
+      throw error;
+    }
+
+    const pair = Object.values(result ?? {})[0] as KrakenPair | undefined;
+    if (pair) this.pairs.set(symbol, pair);
+    return pair ?? null;
+  }
+
+  private async publicRequest(method: string, params: Record<string, string> = {}): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${BASE_URL}/0/public/${method}${query ? `?${query}` : ""}`);
+    return this.unwrap(response);
+  }
+
+  /**
+   * Signed request: API-Sign = HMAC-SHA512(path + SHA256(nonce + body), base64-decoded secret)
+   */
+  private async privateRequest(method: string, params: Record<string, string> = {}): Promise<any> {
+    const path = `/0/private/${method}`;
+    const nonce = this.nextNonce();
+    const body = new URLSearchParams({ nonce, ...params }).toString();
+
+    const sha256 = crypto.createHash("sha256").update(nonce + body).digest();
+    const signature = crypto
+      .createHmac("sha512", Buffer.from(this.credentials.apiSecret, "base64"))
+      .update(Buffer.concat([Buffer.from(path), sha256]))
+      .digest("base64");
+
+    const response = await fetch(`${BASE_URL}${path}`, {
+      method: "POST",
+      headers: {
+        "API-Key": this.credentials.apiKey,
+        "API-Sign": signature,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+    return this.unwrap(response);
+  }
+
+  private async unwrap(response: Response): Promise<any> {
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    if (Array.isArray(data.error) && data.error.length > 0) {
+      throw new Error(data.error.join(", "));
+    }
+    return data.result;
+  }
+
+  // Kraken rejects a nonce that is not larger than the previous one for the key
+  private nextNonce(): string {
+    const nonce = Math.max(Date.now() * 1000, (lastNonces.get(this.credentials.apiKey) ?? 0) + 1);
+    lastNonces.set(this.credentials.apiKey, nonce);
+    return nonce.toString();
+  }
+}
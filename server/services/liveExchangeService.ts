@@ -1,8 +1,25 @@
 import { storage } from "../storage";
-import { encrypt, decrypt } from "../utils/encryption";
-import { createBinanceService } from "./binanceService";
+import { encrypt } from "../utils/encryption";
+import {
+  createExchangeAdapter,
+  getConnectionAdapter,
+  type ExchangeAdapter,
+  type ExchangeOrderResult,
+  type ExchangeSymbolFilters,
+} from "./exchangeAdapter";
+import { applySymbolFilters, getSymbolFilters } from "./exchangeFilters";
 import { randomUUID } from "crypto";
 import { riskGuardService } from "../riskGuardService";
+import { riskPolicyEngine, type LivePortfolio, type RiskFinding } from "./riskPolicy";
+import { marketData } from "./marketData";
+import { recordPlacedOrder } from "./liveOrderReconciliation";
+import {
+  getStepUpMethods,
+  isStepUpRequired,
+  verifyLiveOrderStepUp,
+  type StepUpCredentials,
+  type StepUpMethod,
+} from "./stepUpAuth";
 
 export interface OrderPayload {
   symbol: string;
@@ -18,16 +35,69 @@ export interface PreCheckResult {
   estimatedCost?: number;
   estimatedFees?: number;
   riskWarnings?: string[];
+  riskFindings?: RiskFinding[]; // Every risk policy rule that fired, with its severity
+  mitigation?: string; // How to get a blocked order through
+  adjustments?: string[]; // How the order was rounded to fit the exchange's symbol filters
+  requestedOrder?: OrderPayload; // The order as submitted, when adjustments were made
+  stepUpRequired?: boolean; // Confirmation will ask for a second factor
+  stepUpMethods?: StepUpMethod[];
   orderPayload: OrderPayload;
 }
 
 export interface ExecutionResult {
   success: boolean;
   orderId?: string;
+  liveOrderId?: string; // live_orders row, absent if the ledger write failed
   executedPrice?: string;
   executedQuantity?: string;
   fees?: string;
   error?: string;
+  status?: number;
+  stepUpRequired?: boolean;
+  stepUpMethods?: StepUpMethod[];
+}
+
+// Dollars and dollar stablecoins, counted at face value when valuing an exchange account
+const DOLLAR_ASSETS = ["USD", "USDT", "USDC", "BUSD", "DAI", "FDUSD"];
+// Smaller holdings don't count as open positions
+const MIN_HOLDING_USD = 1;
+
+/**
+ * The exchange account marked to market for sizing a live order: the order's base asset at
+ * the exchange price, other assets from market data. Assets without a price are left out,
+ * and an account that can't be read is undefined
+ */
+async function valueExchangeAccount(
+  adapter: ExchangeAdapter,
+  filters: ExchangeSymbolFilters,
+  currentPrice: number
+): Promise<LivePortfolio | undefined> {
+  let account;
+  try {
+    account = await adapter.getAccount();
+  } catch (error: any) {
+    console.warn('[Exchange] Could not read account balances for the risk check:', error.message || error);
+    return undefined;
+  }
+
+  const portfolio: LivePortfolio = { value: 0, assetValues: {} };
+  for (const balance of account.balances) {
+    const amount = parseFloat(balance.free) + parseFloat(balance.locked);
+    if (!(amount > 0)) continue;
+
+    const asset = balance.asset.toUpperCase();
+    if (DOLLAR_ASSETS.includes(asset)) {
+      portfolio.value += amount;
+      continue;
+    }
+    const price = asset === filters.baseAsset.toUpperCase() ? currentPrice : marketData.getPrice(asset);
+    if (!price) continue;
+
+    const value = amount * price;
+    portfolio.value += value;
+    if (value >= MIN_HOLDING_USD) portfolio.assetValues[asset] = value;
+  }
+  return portfolio;
 }
 
 /**
@@ -44,9 +114,22 @@ export async function connectExchange(
   try {
     console.log(`[Exchange] Connecting ${exchange} for user ${userId}...`);
 
+    const adapter = createExchangeAdapter(exchange, { apiKey, apiSecret, testnet });
+    if (!adapter) {
+      return {
+        success: false,
+        error: `Exchange ${exchange} is not supported`,
+      };
+    }
+    if (testnet && !adapter.supportsTestnet) {
+      return {
+        success: false,
+        error: `${exchange} has no testnet`,
+      };
+    }
+
     // Validate credentials with exchange
-    const binanceService = createBinanceService(apiKey, apiSecret, testnet);
-    const validation = await binanceService.validateCredentials();
+    const validation = await adapter.validateCredentials();
 
     if (!validation.valid) {
       return {
@@ -71,6 +154,7 @@ export async function connectExchange(
     const connection = await storage.createExchangeConnection({
       userId,
       exchange,
+      testnet,
       encryptedApiKey,
       encryptedApiSecret,
       permissions,
@@ -103,6 +187,7 @@ export async function getExchangeStatus(userId: string): Promise<Array<{
   exchange: string;
   connected: boolean;
   permissions: string;
+  testnet: boolean;
   lastValidated?: Date | null;
 }>> {
   const connections = await storage.getExchangeConnectionsByUserId(userId);
@@ -113,6 +198,7 @@ export async function getExchangeStatus(userId: string): Promise<Array<{
       exchange: c.exchange,
       connected: c.isActive,
       permissions: c.permissions,
+      testnet: c.testnet,
       lastValidated: c.lastValidated,
     }));
 }
@@ -140,61 +226,92 @@ export async function preCheckOrder(
       };
     }
 
-    // Check if user is paused
     const user = await storage.getUser(userId);
-    if (user?.tradingPaused) {
+
+    // Get current price
+    const adapter = getConnectionAdapter(connection);
+
+    let currentPrice: number;
+    try {
+      const ticker = await adapter.getTicker(orderPayload.symbol);
+      currentPrice = parseFloat(ticker.price);
+    } catch (error) {
       return {
         preCheck: {
           allowed: false,
-          reason: 'Trading is currently paused due to risk limits. Please review your settings.',
+          reason: `Failed to get current price for ${orderPayload.symbol}`,
           orderPayload,
         },
       };
     }
 
-    // Get current price
-    const apiKey = decrypt(connection.encryptedApiKey);
-    const apiSecret = decrypt(connection.encryptedApiSecret);
-    const binanceService = createBinanceService(apiKey, apiSecret);
-    
-    let currentPrice: number;
+    // Fit the order to the exchange's trading rules; the adjusted order is what gets confirmed and sent
+    let filters;
     try {
-      const ticker = await binanceService.getTickerPrice(orderPayload.symbol);
-      currentPrice = parseFloat(ticker.price);
+      filters = await getSymbolFilters(adapter, connection, orderPayload.symbol);
     } catch (error) {
       return {
         preCheck: {
           allowed: false,
-          reason: `Failed to get current price for ${orderPayload.symbol}`,
+          reason: `Failed to get trading rules for ${orderPayload.symbol}`,
+          orderPayload,
+        },
+      };
+    }
+    if (!filters) {
+      return {
+        preCheck: {
+          allowed: false,
+          reason: `${orderPayload.symbol} is not listed on ${exchange}`,
+          orderPayload,
+        },
+      };
+    }
+
+    const filtered = applySymbolFilters(orderPayload, filters, currentPrice);
+    if (!filtered.order) {
+      return {
+        preCheck: {
+          allowed: false,
+          reason: filtered.error || `Order does not meet ${exchange} trading rules`,
+          adjustments: filtered.adjustments,
           orderPayload,
         },
       };
     }
+    const requestedOrder = orderPayload;
+    const adjustments = filtered.adjustments;
+    orderPayload = filtered.order;
 
     const quantity = parseFloat(orderPayload.quantity);
     const price = orderPayload.price ? parseFloat(orderPayload.price) : currentPrice;
     const estimatedCost = quantity * price;
-    const estimatedFees = estimatedCost * 0.001; // Binance fee ~0.1%
-
-    // Check risk limits
-    const riskSettings = await storage.getRiskGuardSettings(userId);
-    if (riskSettings) {
-      const wallet = await storage.getPaperWalletByUserId(userId);
-      if (wallet) {
-        const positionSizePercent = (estimatedCost / parseFloat(wallet.balance)) * 100;
-        
-        if (positionSizePercent > parseFloat(riskSettings.maxPositionSizePercent || '25')) {
-          return {
-            preCheck: {
-              allowed: false,
-              reason: `Order exceeds maximum position size of ${riskSettings.maxPositionSizePercent}% of portfolio`,
-              estimatedCost,
-              estimatedFees,
-              orderPayload,
-            },
-          };
-        }
-      }
+    const estimatedFees = estimatedCost * 0.001; // Taker fee ~0.1% on Binance, more on Kraken
+
+    // Check the risk policy on the order as it will be sent, against the account it is sent from
+    const risk = await riskPolicyEngine.evaluateOrder(userId, {
+      symbol: orderPayload.symbol,
+      asset: filters.baseAsset,
+      side: orderPayload.side === 'SELL' ? 'sell' : 'buy',
+      quantity,
+      price,
+      channel: 'live',
+      portfolio: await valueExchangeAccount(adapter, filters, currentPrice),
+    });
+    if (!risk.allowed) {
+      return {
+        preCheck: {
+          allowed: false,
+          reason: risk.reason || 'Order not allowed by Risk Guard',
+          mitigation: risk.mitigation,
+          estimatedCost,
+          estimatedFees,
+          riskWarnings: risk.warnings,
+          riskFindings: risk.findings,
+          adjustments,
+          orderPayload,
+        },
+      };
     }
 
     // Generate execution token (valid for 5 minutes)
@@ -206,7 +323,12 @@ export async function preCheckOrder(
       reason: 'Order passed all risk checks. Ready for execution.',
       estimatedCost,
       estimatedFees,
-      riskWarnings: [],
+      riskWarnings: risk.warnings,
+      riskFindings: risk.findings,
+      adjustments,
+      requestedOrder: adjustments.length > 0 ? requestedOrder : undefined,
+      stepUpRequired: user ? isStepUpRequired(user, estimatedCost) : true,
+      stepUpMethods: user ? getStepUpMethods(user) : [],
       orderPayload,
     };
 
@@ -245,7 +367,7 @@ export async function confirmAndExecute(
   userId: string,
   exchange: string,
   token: string,
-  twoFactorCode?: string
+  stepUp: StepUpCredentials = {}
 ): Promise<ExecutionResult> {
   try {
     console.log(`[Exchange] Confirming execution with token: ${token}`);
@@ -284,6 +406,20 @@ export async function confirmAndExecute(
 
     // Parse order payload
     const orderPayload: OrderPayload = JSON.parse(executionToken.orderPayload);
+    const preCheck: PreCheckResult = JSON.parse(executionToken.preCheckResult);
+
+    // Second factor; a wrong code leaves the token pending so the user can retry
+    const notional = preCheck.estimatedCost ?? Infinity;
+    const stepUpResult = await verifyLiveOrderStepUp(userId, token, notional, stepUp);
+    if (!stepUpResult.success) {
+      return {
+        success: false,
+        error: stepUpResult.error,
+        status: stepUpResult.status,
+        stepUpRequired: stepUpResult.stepUpRequired,
+        stepUpMethods: stepUpResult.methods,
+      };
+    }
 
     // Get exchange connection
     const connection = await storage.getActiveExchangeConnection(userId, exchange);
@@ -295,37 +431,29 @@ export async function confirmAndExecute(
       };
     }
 
-    // Decrypt credentials and execute order
-    const apiKey = decrypt(connection.encryptedApiKey);
-    const apiSecret = decrypt(connection.encryptedApiSecret);
-    const binanceService = createBinanceService(apiKey, apiSecret);
+    // Decrypt credentials and execute order; the token doubles as the client order ID
+    const adapter = getConnectionAdapter(connection);
 
+    // Claim the token before sending anything, so concurrent confirms can't place the order twice
+    if (!(await storage.claimExecutionToken(token, userId))) {
+      return {
+        success: false,
+        error: 'Execution token already used',
+      };
+    }
+
+    let result: ExchangeOrderResult;
     try {
-      const result = await binanceService.placeOrder({
+      result = await adapter.placeOrder({
         symbol: orderPayload.symbol,
         side: orderPayload.side,
         type: orderPayload.type,
         quantity: orderPayload.quantity,
         price: orderPayload.price,
+        clientOrderId: token,
       });
-
-      // Mark token as confirmed
-      await storage.updateExecutionTokenStatus(token, 'confirmed');
-
-      console.log(`[Exchange] Order executed successfully:`, result);
-
-      // Log execution for audit
-      console.log(`[AUDIT] Live order executed - User: ${userId}, Order: ${JSON.stringify(orderPayload)}, Result: ${JSON.stringify(result)}`);
-
-      return {
-        success: true,
-        orderId: result.orderId || result.clientOrderId,
-        executedPrice: result.fills?.[0]?.price || orderPayload.price,
-        executedQuantity: result.executedQty || orderPayload.quantity,
-        fees: result.fills?.[0]?.commission || '0',
-      };
     } catch (error: any) {
-      await storage.updateExecutionTokenStatus(token, 'rejected');
+      await storage.updateExecutionTokenStatus(token, 'failed');
       console.error('[Exchange] Order execution failed:', error.message);
       
       return {
@@ -333,6 +461,30 @@ export async function confirmAndExecute(
         error: error.message || 'Order execution failed',
       };
     }
+
+    console.log(`[Exchange] Order executed successfully:`, result);
+
+    // Log execution for audit
+    console.log(`[AUDIT] Live order executed - User: ${userId}, Order: ${JSON.stringify(orderPayload)}, Result: ${JSON.stringify(result)}`);
+
+    // The order is live from here on: bookkeeping failures must not report it as failed
+    let liveOrderId: string | undefined;
+    try {
+      await storage.updateExecutionTokenStatus(token, 'confirmed');
+      const liveOrder = await recordPlacedOrder({ userId, connection, executionToken: token, ...orderPayload }, result);
+      liveOrderId = liveOrder.id;
+    } catch (error: any) {
+      console.error(`[Exchange] Order ${result.order.orderId} placed but not recorded in the live order ledger:`, error.message || error);
+    }
+
+    return {
+      success: true,
+      orderId: result.order.orderId,
+      liveOrderId,
+      executedPrice: result.fills[0]?.price || orderPayload.price,
+      executedQuantity: result.order.executedQuantity,
+      fees: result.fills.reduce((sum, fill) => sum + parseFloat(fill.commission), 0).toString(),
+    };
   } catch (error: any) {
     console.error('[Exchange] Confirmation error:', error);
     return {
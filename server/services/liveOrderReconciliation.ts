@@ -0,0 +1,233 @@
+import { storage } from "../storage";
+import {
+  getConnectionAdapter,
+  type ExchangeAdapter,
+  type ExchangeFill,
+  type ExchangeOrder,
+  type ExchangeOrderResult,
+} from "./exchangeAdapter";
+import type { ExchangeConnection, InsertLiveFill, LiveOrder } from "@shared/schema";
+import { userEvents } from "./userEvents";
+
+/**
+ * Live Order Ledger & Reconciliation
+ *
+ * Every real-money order the platform places is written to live_orders with the fills
+ * the exchange reported. Orders that were still working when placed are polled until
+ * they reach a final status:
+ * - Open orders come from one getOpenOrders call per connection; anything no longer
+ *   open is looked up individually to learn whether it filled, was canceled or expired
+ * - Fills (with commission) are fetched whenever the executed quantity moves and are
+ *   stored once per exchange trade ID
+ * - Each increase in executed quantity is pushed to the order's owner as a user event
+ * Exchanges are reached through their ExchangeAdapter, so this works for every venue.
+ */
+
+export type LiveOrderStatus = "new" | "partially_filled" | "filled" | "canceled" | "expired" | "rejected";
+
+const FINAL_STATUSES: LiveOrderStatus[] = ["filled", "canceled", "expired", "rejected"];
+
+export interface PlacedLiveOrder {
+  userId: string;
+  connection: ExchangeConnection;
+  executionToken?: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  type: "MARKET" | "LIMIT";
+  quantity: string;
+  price?: string;
+}
+
+// pending_cancel keeps the current status until the cancel resolves
+function toLedgerStatus(exchangeOrder: ExchangeOrder, current: LiveOrderStatus): LiveOrderStatus {
+  return exchangeOrder.status === "pending_cancel" ? current : exchangeOrder.status;
+}
+
+function toLiveFill(liveOrderId: string, fill: ExchangeFill): InsertLiveFill {
+  return {
+    liveOrderId,
+    tradeId: fill.tradeId,
+    price: fill.price,
+    quantity: fill.quantity,
+    quoteQuantity: fill.quoteQuantity,
+    commission: fill.commission,
+    commissionAsset: fill.commissionAsset,
+    isMaker: fill.isMaker,
+    executedAt: new Date(fill.executedAt),
+  };
+}
+
+function averagePrice(executedQty: number, quoteQty: number): string | null {
+  return executedQty > 0 ? (quoteQty / executedQty).toFixed(8) : null;
+}
+
+// The fill between two executed quantities, priced from the quote quantity it added
+function publishFill(order: LiveOrder, previousQty: number, previousQuote: number, executedQty: number, quoteQty: number, status: LiveOrderStatus): void {
+  const quantity = executedQty - previousQty;
+  if (!(quantity > 0)) return;
+  userEvents.publish(order.userId, "order_filled", {
+    account: "live",
+    orderId: order.id,
+    symbol: order.symbol,
+    side: order.side === "sell" ? "sell" : "buy",
+    orderType: order.orderType,
+    quantity: quantity.toString(),
+    price: ((quoteQty - previousQuote) / quantity).toFixed(8),
+    complete: status === "filled",
+  });
+}
+
+/**
+ * Record an order right after the exchange accepted it, with any fills in the placement response
+ */
+export async function recordPlacedOrder(placed: PlacedLiveOrder, result: ExchangeOrderResult): Promise<LiveOrder> {
+  const { order: placedOrder, fills } = result;
+  const status = toLedgerStatus(placedOrder, "new");
+  const executedQty = parseFloat(placedOrder.executedQuantity);
+  const quoteQty = parseFloat(placedOrder.quoteQuantity);
+
+  const order = await storage.createLiveOrder({
+    userId: placed.userId,
+    connectionId: placed.connection.id,
+    exchange: placed.connection.exchange,
+    exchangeOrderId: placedOrder.orderId,
+    clientOrderId: placedOrder.clientOrderId,
+    executionToken: placed.executionToken ?? null,
+    symbol: placed.symbol,
+    side: placed.side.toLowerCase(),
+    orderType: placed.type.toLowerCase(),
+    quantity: placed.quantity,
+    price: placed.price ?? null,
+    status,
+    exchangeStatus: placedOrder.rawStatus,
+    executedQuantity: executedQty.toString(),
+    quoteQuantity: quoteQty.toString(),
+    avgPrice: averagePrice(executedQty, quoteQty),
+    lastReconciledAt: new Date(),
+    closedAt: FINAL_STATUSES.includes(status) ? new Date() : null,
+  });
+
+  // Fills known at placement; later fills are picked up by reconciliation
+  await storage.addLiveFills(fills.map(fill => toLiveFill(order.id, fill)));
+  publishFill(order, 0, 0, executedQty, quoteQty, status);
+
+  console.log(`[LIVE ORDERS] Recorded ${order.exchange} order ${order.exchangeOrderId} (${order.symbol} ${status})`);
+  return order;
+}
+
+/**
+ * Bring one ledger order in line with the exchange's view of it (from getOpenOrders,
+ * getOrder or a cancel response), fetching new fills if the executed quantity moved
+ */
+export async function applyExchangeOrder(
+  adapter: ExchangeAdapter,
+  order: LiveOrder,
+  exchangeOrder: ExchangeOrder
+): Promise<LiveOrderStatus> {
+  const current = order.status as LiveOrderStatus;
+  const status = toLedgerStatus(exchangeOrder, current);
+  const executedQty = parseFloat(exchangeOrder.executedQuantity);
+  const quoteQty = parseFloat(exchangeOrder.quoteQuantity);
+
+  if (executedQty > parseFloat(order.executedQuantity)) {
+    const fills = await adapter.getOrderFills(order.symbol, order.exchangeOrderId);
+    await storage.addLiveFills(fills.map(fill => toLiveFill(order.id, fill)));
+  }
+
+  await storage.updateLiveOrder(order.id, {
+    status,
+    exchangeStatus: exchangeOrder.rawStatus,
+    executedQuantity: executedQty.toString(),
+    quoteQuantity: quoteQty.toString(),
+    avgPrice: averagePrice(executedQty, quoteQty),
+    lastReconciledAt: new Date(),
+    closedAt: FINAL_STATUSES.includes(status) ? order.closedAt ?? new Date() : null,
+  });
+  publishFill(order, parseFloat(order.executedQuantity), parseFloat(order.quoteQuantity), executedQty, quoteQty, status);
+
+  if (status !== current) {
+    console.log(`[LIVE ORDERS] ${order.exchange} order ${order.exchangeOrderId} (${order.symbol}): ${current} → ${status}`);
+  }
+  return status;
+}
+
+export class LiveOrderReconciler {
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async start(intervalMs: number = 15000): Promise<void> {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    this.interval = setInterval(() => {
+      this.reconcile().catch(error => {
+        console.error("[LIVE ORDERS] Reconciliation failed:", error);
+      });
+    }, intervalMs);
+
+    await this.reconcile();
+    console.log(`[LIVE ORDERS] Reconciliation started - polling every ${intervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * One pass over every order still new or partially filled
+   */
+  async reconcile(): Promise<void> {
+    // A slow exchange can outlast the interval; skip rather than overlap
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const openOrders = await storage.getOpenLiveOrders();
+      const byConnection = new Map<string, LiveOrder[]>();
+      for (const order of openOrders) {
+        byConnection.set(order.connectionId, [...(byConnection.get(order.connectionId) || []), order]);
+      }
+
+      for (const [connectionId, orders] of Array.from(byConnection.entries())) {
+        try {
+          await this.reconcileConnection(connectionId, orders);
+        } catch (error: any) {
+          console.error(`[LIVE ORDERS] Failed to reconcile connection ${connectionId}:`, error.message || error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcileConnection(connectionId: string, orders: LiveOrder[]): Promise<void> {
+    const connection = await storage.getExchangeConnection(connectionId);
+    if (!connection || !connection.isActive) {
+      console.warn(`[LIVE ORDERS] Connection ${connectionId} is gone - ${orders.length} order(s) left unreconciled`);
+      return;
+    }
+
+    const adapter = getConnectionAdapter(connection);
+
+    const exchangeOpenOrders = new Map<string, ExchangeOrder>();
+    for (const exchangeOrder of await adapter.getOpenOrders()) {
+      exchangeOpenOrders.set(`${exchangeOrder.symbol}:${exchangeOrder.orderId}`, exchangeOrder);
+    }
+
+    for (const order of orders) {
+      try {
+        const exchangeOrder = exchangeOpenOrders.get(`${order.symbol}:${order.exchangeOrderId}`)
+          ?? await adapter.getOrder(order.symbol, order.exchangeOrderId);
+        await applyExchangeOrder(adapter, order, exchangeOrder);
+      } catch (error: any) {
+        console.error(`[LIVE ORDERS] Failed to reconcile order ${order.exchangeOrderId}:`, error.message || error);
+      }
+    }
+  }
+}
+
+export const liveOrderReconciler = new LiveOrderReconciler();
@@ -0,0 +1,241 @@
+import { storage } from "../storage";
+import type { PaperPosition, PaperWallet } from "@shared/schema";
+import {
+  getPositionPrice,
+  applyBuyFill,
+  applySellFill,
+  recordClosedTrade,
+  journalClosedTrade,
+  releaseOrderReservation,
+  type ClosedFill,
+} from "./paperTrading";
+import { marketData } from "./marketData";
+import { quoteExecution } from "./executionModel";
+import { computeBorrowInterest, computeLiquidationPrice, isLiquidatable } from "./marginTrading";
+import { riskGuardService } from "../riskGuardService";
+import { userEvents } from "./userEvents";
+import { notificationService } from "./notifications";
+
+/**
+ * Margin Monitor
+ *
+ * Keeps leveraged paper positions honest:
+ * - Accrues borrow interest on a fixed interval and refreshes liquidation prices
+ * - Liquidates any position whose equity falls to the maintenance margin on a price tick
+ * - Liquidations are logged to the order history (closedBy: 'liquidation'), the
+ *   AI Trade Journal and Risk Guard, which treats them like any other loss, pushed to the
+ *   position's owner as user events and sent as urgent notifications
+ */
+export class MarginMonitor {
+  private marginSymbols = new Set<string>();
+  private latestPrices = new Map<string, number>();
+  private inFlight = new Set<string>();
+  private accrualInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  async start(accrualIntervalMs: number = 60000): Promise<void> {
+    if (this.accrualInterval) {
+      return; // Already monitoring
+    }
+
+    const positions = await storage.getMarginPaperPositions();
+    positions.forEach(position => this.marginSymbols.add(position.symbol.toUpperCase()));
+    this.unsubscribe = marketData.onQuote(quote => {
+      // Never trigger on a stale quote; wait for the feed to deliver a live one
+      if (!quote.stale) this.handleTick(quote.symbol, quote.price);
+    });
+
+    // Accruing interest also picks up margin positions opened by paths that don't call trackSymbol
+    this.accrualInterval = setInterval(() => {
+      this.accrueInterest().catch(error => {
+        console.error("[MARGIN MONITOR] Error accruing borrow interest:", error);
+      });
+    }, accrualIntervalMs);
+
+    console.log(`[MARGIN MONITOR] Started - watching ${this.marginSymbols.size} symbol(s) with margin positions`);
+  }
+
+  stop(): void {
+    if (this.accrualInterval) {
+      clearInterval(this.accrualInterval);
+      this.accrualInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Start watching a symbol after a margin position is opened
+   */
+  trackSymbol(symbol: string): void {
+    this.marginSymbols.add(symbol.toUpperCase());
+  }
+
+  private async accrueInterest(): Promise<void> {
+    const positions = await storage.getMarginPaperPositions();
+    const wallets = new Map<string, PaperWallet | undefined>();
+    const now = new Date();
+
+    for (const position of positions) {
+      this.marginSymbols.add(position.symbol.toUpperCase());
+
+      if (!wallets.has(position.walletId)) {
+        wallets.set(position.walletId, await storage.getPaperWalletById(position.walletId));
+      }
+      const wallet = wallets.get(position.walletId);
+      if (!wallet) continue;
+
+      // Reload under the lock: a fill may have resized or closed the position since the scan
+      await storage.withPaperWalletLock(wallet.id, async () => {
+        const current = await storage.getPaperPositionByWalletAndSymbol(wallet.id, position.symbol);
+        if (!current || current.id !== position.id) return;
+
+        const elapsedMs = now.getTime() - (current.interestAccruedAt ?? now).getTime();
+        const interest = computeBorrowInterest(
+          current,
+          getPositionPrice(current).price,
+          parseFloat(wallet.borrowRateApr),
+          elapsedMs
+        );
+
+        const accruedInterest = (parseFloat(current.accruedInterest) + interest).toFixed(8);
+        await storage.updatePaperPositionMargin(current.id, {
+          accruedInterest,
+          interestAccruedAt: now,
+          liquidationPrice: computeLiquidationPrice(
+            { ...current, accruedInterest },
+            parseFloat(wallet.maintenanceMarginRate)
+          ).toFixed(8),
+        });
+      });
+    }
+  }
+
+  private handleTick(symbol: string, price: number): void {
+    if (!this.marginSymbols.has(symbol)) return;
+
+    this.latestPrices.set(symbol, price);
+
+    // A scan already running will pick up the newest price when it loops
+    if (this.inFlight.has(symbol)) return;
+
+    this.checkSymbol(symbol).catch(error => {
+      console.error(`[MARGIN MONITOR] Error checking ${symbol}:`, error);
+    });
+  }
+
+  private async checkSymbol(symbol: string): Promise<void> {
+    this.inFlight.add(symbol);
+
+    try {
+      let price: number | undefined;
+
+      while (price !== this.latestPrices.get(symbol)) {
+        price = this.latestPrices.get(symbol)!;
+
+        const positions = await storage.getMarginPaperPositions(symbol);
+        if (positions.length === 0) {
+          this.marginSymbols.delete(symbol);
+          return;
+        }
+
+        for (const position of positions) {
+          const wallet = await storage.getPaperWalletById(position.walletId);
+          if (wallet && isLiquidatable(position, price, parseFloat(wallet.maintenanceMarginRate))) {
+            await this.liquidateLocked(wallet, position, price);
+          }
+        }
+      }
+    } finally {
+      this.inFlight.delete(symbol);
+    }
+  }
+
+  /**
+   * Liquidate under the wallet lock, re-checking the position in case a fill changed it
+   */
+  private async liquidateLocked(wallet: PaperWallet, position: PaperPosition, price: number): Promise<void> {
+    const result = await storage.withPaperWalletLock(wallet.id, async (lockedWallet) => {
+      const current = await storage.getPaperPositionByWalletAndSymbol(wallet.id, position.symbol);
+      if (!current || current.id !== position.id) return null;
+      if (!isLiquidatable(current, price, parseFloat(lockedWallet.maintenanceMarginRate))) return null;
+      return this.liquidate(lockedWallet, current, price);
+    });
+
+    if (!result) return;
+    userEvents.publish(wallet.userId, "order_triggered", {
+      orderId: result.orderId,
+      symbol: position.symbol,
+      trigger: "liquidation",
+      price: result.fillPrice,
+      quantity: position.quantity,
+    });
+    await notificationService.notify(wallet.userId, {
+      category: "order_trigger",
+      title: `${position.symbol} position liquidated`,
+      body: `Your ${position.side} ${position.quantity} ${position.symbol} was liquidated at $${result.fillPrice} (loss $${result.loss.toFixed(2)})`,
+      data: { orderId: result.orderId, symbol: position.symbol, trigger: "liquidation", price: result.fillPrice, quantity: position.quantity },
+      dedupeKey: `liquidation:${result.orderId}`,
+      urgent: true,
+    });
+    if (result.closed) {
+      await journalClosedTrade(wallet.userId, result.orderId, position.symbol, result.closed);
+    }
+    await riskGuardService.recordLiquidation(wallet.userId, wallet.id, position.symbol, result.loss);
+  }
+
+  private async liquidate(
+    wallet: PaperWallet,
+    position: PaperPosition,
+    price: number
+  ): Promise<{ orderId: string; closed: ClosedFill | null; loss: number; fillPrice: string }> {
+    console.log(
+      `💥 LIQUIDATION! ${position.side.toUpperCase()} ${position.quantity} ${position.symbol} @ $${price} ` +
+      `(liq: $${position.liquidationPrice}) for user ${wallet.userId}`
+    );
+
+    // Resting orders on the closing side (sells on a long, buys on a short) can't fill once it is liquidated
+    const closingSide = position.side === "short" ? "buy" : "sell";
+    const pendingOrders = await storage.getPendingPaperOrders(position.symbol);
+    for (const order of pendingOrders) {
+      if (order.walletId === wallet.id && order.side === closingSide) {
+        await storage.cancelPaperOrder(order.id);
+        await releaseOrderReservation(order);
+      }
+    }
+
+    // The liquidation engine closes the whole position in one go
+    const quantityNum = parseFloat(position.quantity);
+    const quote = quoteExecution({ ...wallet, partialFillsEnabled: false }, position.symbol, closingSide, quantityNum, price, "taker");
+    const closed = closingSide === "sell"
+      ? await applySellFill(wallet, position, quantityNum, quote.fillPrice, quote.fee)
+      : await applyBuyFill(wallet, position.symbol, quantityNum, quote.fillPrice, quote.fee);
+
+    const order = await storage.createPaperOrder({
+      walletId: wallet.id,
+      symbol: position.symbol,
+      side: closingSide,
+      orderType: "market",
+      quantity: position.quantity,
+      price: price.toFixed(8),
+      status: "completed",
+      closedBy: "liquidation",
+      filledPrice: quote.fillPrice.toFixed(8),
+      filledQuantity: position.quantity,
+      filledAt: new Date(),
+      liquidity: quote.liquidity,
+      fee: quote.fee.toFixed(8),
+      slippage: quote.slippage.toFixed(8),
+    });
+
+    if (closed) {
+      await recordClosedTrade(wallet.userId, order.id, position.symbol, closed);
+    }
+
+    // Isolated margin: the ledger caps the loss at the posted margin
+    const loss = closed ? -closed.realizedPnl : parseFloat(position.margin || "0");
+    return { orderId: order.id, closed, loss, fillPrice: quote.fillPrice.toFixed(8) };
+  }
+}
+
+export const marginMonitor = new MarginMonitor();
@@ -0,0 +1,78 @@
+import type { PaperPosition } from "@shared/schema";
+
+/**
+ * Paper Margin Math
+ *
+ * Isolated-margin accounting for leveraged longs and shorts:
+ * - Long: margin + borrowed cash buys the position; equity = value - borrowed - interest
+ * - Short: the borrowed asset is sold and the proceeds are held with the margin;
+ *   equity = margin + proceeds - value - interest
+ * - A position is liquidated once equity falls to the maintenance margin
+ *   (maintenanceMarginRate × current position value)
+ */
+
+export const MAX_LEVERAGE = 20;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+type MarginFields = Pick<
+  PaperPosition,
+  "side" | "quantity" | "margin" | "borrowedAmount" | "accruedInterest"
+>;
+
+export function isMarginPosition(position: Pick<PaperPosition, "margin">): boolean {
+  return position.margin !== null && position.margin !== undefined;
+}
+
+function readMargin(position: MarginFields) {
+  return {
+    quantity: parseFloat(position.quantity),
+    margin: parseFloat(position.margin || "0"),
+    borrowed: parseFloat(position.borrowedAmount || "0"),
+    interest: parseFloat(position.accruedInterest || "0"),
+  };
+}
+
+/**
+ * What the position would return to the wallet if closed at this price, before fees
+ */
+export function getPositionEquity(position: MarginFields, price: number): number {
+  const { quantity, margin, borrowed, interest } = readMargin(position);
+  return position.side === "short"
+    ? margin + borrowed - quantity * price - interest
+    : quantity * price - borrowed - interest;
+}
+
+/**
+ * Price at which equity meets the maintenance margin
+ */
+export function computeLiquidationPrice(position: MarginFields, maintenanceMarginRate: number): number {
+  const { quantity, margin, borrowed, interest } = readMargin(position);
+  if (quantity <= 0) return 0;
+
+  if (position.side === "short") {
+    return (margin + borrowed - interest) / (quantity * (1 + maintenanceMarginRate));
+  }
+
+  // An unleveraged long can't be liquidated
+  return Math.max(0, (borrowed + interest) / (quantity * (1 - maintenanceMarginRate)));
+}
+
+export function isLiquidatable(position: MarginFields, price: number, maintenanceMarginRate: number): boolean {
+  const value = parseFloat(position.quantity) * price;
+  return getPositionEquity(position, price) <= value * maintenanceMarginRate;
+}
+
+/**
+ * Borrow interest for the elapsed time: longs pay on the cash borrowed, shorts on the asset's current value
+ */
+export function computeBorrowInterest(
+  position: MarginFields,
+  price: number,
+  borrowRateApr: number,
+  elapsedMs: number
+): number {
+  const { quantity, borrowed } = readMargin(position);
+  const borrowedValue = position.side === "short" ? quantity * price : borrowed;
+  return borrowedValue * borrowRateApr * (elapsedMs / YEAR_MS);
+}
@@ -0,0 +1,315 @@
+import { EventEmitter } from "events";
+import { createProvider } from "./marketDataProviders";
+import { symbolRegistry, type SymbolInfo } from "./symbolRegistry";
+
+/**
+ * Market Data Service
+ *
+ * The single source of truth for prices. Providers (Coinbase, Kraken, CoinGecko, Binance,
+ * simulation) publish into one quote cache; everything else reads the cache or subscribes
+ * to its "quote" events, so a paper fill, a chart bar and an alert see the same price:
+ * - Only active symbols from the symbol registry are quoted; providers are restarted with
+ *   the new list when a symbol is listed or delisted
+ * - Providers are started in priority order; the next one starts when none has delivered
+ *   a quote for FAILOVER_AFTER_MS
+ * - A quote from a lower-priority provider only replaces a fresh one from a higher-priority
+ *   provider once that quote goes stale
+ * - Quotes older than STALE_AFTER_MS are flagged stale; seeded defaults are stale from the start
+ * - Only fresh quotes are tradable (getLivePrice); fills and triggers never use a stale one
+ */
+
+export interface QuoteUpdate {
+  symbol: string;
+  price: number;
+  open24h?: number; // Price 24h ago, for the 24h change
+  volume24h?: number;
+  marketCap?: number;
+  tradeSize?: number; // Size of the trade behind this tick, when the provider reports one
+  timestamp?: number; // Provider time; defaults to now
+}
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number; // 24h
+  changePercent: number; // 24h
+  volume?: number; // 24h
+  marketCap?: number;
+  tradeSize?: number;
+  source: string;
+  timestamp: number;
+  stale: boolean;
+}
+
+export interface ProviderContext {
+  symbols: SymbolInfo[]; // Active symbols; look up provider IDs in providerIds
+  publish(update: QuoteUpdate): void;
+  getPrice(symbol: string): number | null;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  start(context: ProviderContext): void;
+  stop(): void;
+}
+
+type QuoteListener = (quote: Quote) => void;
+
+const STALE_AFTER_MS = 60 * 1000;
+const FAILOVER_AFTER_MS = 10 * 1000;
+const DEFAULT_PROVIDERS = ["coinbase", "kraken", "coingecko"];
+
+// Seed prices for the built-in symbols so a cold start can still quote; flagged stale until a provider reports
+const DEFAULT_PRICES: Record<string, number> = {
+  BTC: 67000,
+  ETH: 3500,
+  SOL: 145,
+  ADA: 0.55,
+  AVAX: 35,
+  MATIC: 0.85,
+  DOT: 7.5,
+  LINK: 15,
+  XRP: 0.52,
+  BNB: 320,
+  DOGE: 0.08,
+  TRX: 0.12,
+  LTC: 85,
+  UNI: 8.5,
+  ATOM: 10,
+  ALGO: 0.25,
+  XLM: 0.11,
+  FIL: 5.5,
+  APT: 12,
+  NEAR: 4.5,
+};
+
+// Quotes set by hand (test endpoint, harnesses) rank above every provider until stale
+const MANUAL_SOURCE = "manual";
+const DEFAULT_SOURCE = "default";
+
+interface CachedQuote extends Omit<Quote, "stale"> {
+  open24h: number;
+}
+
+export class MarketDataService extends EventEmitter {
+  private quotes = new Map<string, CachedQuote>();
+  private providers: MarketDataProvider[] = [];
+  private startedProviders = 0;
+  private lastProviderQuoteAt = 0;
+  private failoverInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    super();
+    this.setMaxListeners(50);
+    this.seedDefaults();
+    symbolRegistry.onChange(() => this.handleSymbolsChanged());
+  }
+
+  /**
+   * Start the configured providers (MARKET_DATA_PROVIDERS, comma-separated, highest priority first)
+   */
+  start(providerNames: string[] = this.getConfiguredProviders()): void {
+    if (this.failoverInterval) {
+      return; // Already running
+    }
+
+    this.providers = providerNames
+      .map(name => createProvider(name))
+      .filter((provider): provider is MarketDataProvider => provider !== null);
+
+    if (this.providers.length === 0) {
+      console.warn("[MARKET DATA] No providers configured - serving default prices only");
+      return;
+    }
+
+    this.lastProviderQuoteAt = Date.now();
+    this.startNextProvider();
+
+    this.failoverInterval = setInterval(() => {
+      if (Date.now() - this.lastProviderQuoteAt < FAILOVER_AFTER_MS) return;
+      if (this.startedProviders >= this.providers.length) return;
+      console.warn(`[MARKET DATA] No quotes for ${FAILOVER_AFTER_MS / 1000}s - failing over`);
+      this.lastProviderQuoteAt = Date.now();
+      this.startNextProvider();
+    }, FAILOVER_AFTER_MS / 2);
+
+    console.log(`[MARKET DATA] Started with providers: ${this.providers.map(p => p.name).join(" → ")}`);
+  }
+
+  stop(): void {
+    if (this.failoverInterval) {
+      clearInterval(this.failoverInterval);
+      this.failoverInterval = null;
+    }
+    this.providers.slice(0, this.startedProviders).forEach(provider => provider.stop());
+    this.startedProviders = 0;
+  }
+
+  /**
+   * Subscribe to every accepted quote. Returns an unsubscribe function.
+   */
+  onQuote(listener: QuoteListener): () => void {
+    const safeListener = (quote: Quote) => {
+      try {
+        listener(quote);
+      } catch (error) {
+        console.error("[MARKET DATA] Quote listener failed:", error);
+      }
+    };
+    this.on("quote", safeListener);
+    return () => this.off("quote", safeListener);
+  }
+
+  getQuote(symbol: string): Quote | null {
+    if (!symbolRegistry.resolve(symbol)) return null;
+    const cached = this.quotes.get(symbol.toUpperCase());
+    return cached ? this.toQuote(cached) : null;
+  }
+
+  getQuotes(): Quote[] {
+    return Array.from(this.quotes.values())
+      .filter(cached => symbolRegistry.resolve(cached.symbol))
+      .map(cached => this.toQuote(cached));
+  }
+
+  /**
+   * Last price of an active symbol; null for unknown or delisted symbols and symbols not quoted yet
+   */
+  getPrice(symbol: string): number | null {
+    if (!symbolRegistry.resolve(symbol)) return null;
+    return this.quotes.get(symbol.toUpperCase())?.price ?? null;
+  }
+
+  /**
+   * Price to trade at: null unless the symbol has a fresh quote. Seeded defaults and the last
+   * quote of a stalled feed are for display only.
+   */
+  getLivePrice(symbol: string): number | null {
+    const quote = this.getQuote(symbol);
+    return quote && !quote.stale ? quote.price : null;
+  }
+
+  /**
+   * Set a price by hand (test endpoint, scripts); it is published like any provider tick
+   */
+  setManualPrice(symbol: string, price: number): Quote | null {
+    return this.publish(MANUAL_SOURCE, { symbol, price });
+  }
+
+  getActiveSources(): string[] {
+    return this.providers.slice(0, this.startedProviders).map(provider => provider.name);
+  }
+
+  /**
+   * Accept a provider update into the cache and emit it, unless a fresher higher-priority quote exists
+   */
+  publish(source: string, update: QuoteUpdate): Quote | null {
+    if (!Number.isFinite(update.price) || update.price <= 0) return null;
+
+    const symbol = update.symbol.toUpperCase();
+    if (!symbolRegistry.resolve(symbol)) return null;
+
+    const timestamp = update.timestamp ?? Date.now();
+    const existing = this.quotes.get(symbol);
+
+    if (existing && !this.isStale(existing) && this.rank(source) > this.rank(existing.source)) {
+      return null;
+    }
+
+    if (source !== MANUAL_SOURCE) {
+      this.lastProviderQuoteAt = Date.now();
+    }
+
+    const open24h = update.open24h ?? existing?.open24h ?? update.price;
+    const change = update.price - open24h;
+    const cached: CachedQuote = {
+      symbol,
+      price: update.price,
+      change: parseFloat(change.toFixed(2)),
+      changePercent: open24h > 0 ? parseFloat(((change / open24h) * 100).toFixed(2)) : 0,
+      volume: update.volume24h ?? existing?.volume,
+      marketCap: update.marketCap ?? existing?.marketCap,
+      tradeSize: update.tradeSize,
+      source,
+      timestamp,
+      open24h,
+    };
+    this.quotes.set(symbol, cached);
+
+    const quote = this.toQuote(cached);
+    this.emit("quote", quote);
+    return quote;
+  }
+
+  private startNextProvider(): void {
+    const provider = this.providers[this.startedProviders];
+    if (!provider) return;
+
+    this.startedProviders++;
+    console.log(`[MARKET DATA] Starting provider ${provider.name}`);
+
+    try {
+      provider.start({
+        symbols: symbolRegistry.list(),
+        publish: (update) => { this.publish(provider.name, update); },
+        getPrice: (symbol) => this.getPrice(symbol),
+      });
+    } catch (error) {
+      console.error(`[MARKET DATA] Provider ${provider.name} failed to start:`, error);
+      this.startNextProvider();
+    }
+  }
+
+  /**
+   * Restart running providers so they subscribe to the current symbol list
+   */
+  private handleSymbolsChanged(): void {
+    this.seedDefaults();
+    const running = this.providers.slice(0, this.startedProviders);
+    if (running.length === 0) return;
+
+    this.startedProviders = 0;
+    running.forEach(provider => provider.stop());
+    running.forEach(() => this.startNextProvider());
+  }
+
+  /**
+   * Lower is better: manual, then providers in configured order, then the seeded defaults
+   */
+  private rank(source: string): number {
+    if (source === MANUAL_SOURCE) return -1;
+    const index = this.providers.findIndex(provider => provider.name === source);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  }
+
+  private isStale(quote: Pick<CachedQuote, "timestamp">): boolean {
+    return Date.now() - quote.timestamp > STALE_AFTER_MS;
+  }
+
+  private toQuote({ open24h, ...quote }: CachedQuote): Quote {
+    return { ...quote, stale: this.isStale(quote) };
+  }
+
+  private seedDefaults(): void {
+    for (const [symbol, price] of Object.entries(DEFAULT_PRICES)) {
+      if (this.quotes.has(symbol)) continue;
+      this.quotes.set(symbol, {
+        symbol,
+        price,
+        change: 0,
+        changePercent: 0,
+        source: DEFAULT_SOURCE,
+        timestamp: 0,
+        open24h: price,
+      });
+    }
+  }
+
+  private getConfiguredProviders(): string[] {
+    const configured = process.env.MARKET_DATA_PROVIDERS;
+    if (!configured) return DEFAULT_PROVIDERS;
+    return configured.split(",").map(name => name.trim().toLowerCase()).filter(Boolean);
+  }
+}
+
+export const marketData = new MarketDataService();
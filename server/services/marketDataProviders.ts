@@ -0,0 +1,283 @@
+import WebSocket from "ws";
+import type { MarketDataProvider, ProviderContext, QuoteUpdate } from "./marketData";
+
+/**
+ * Market Data Providers
+ *
+ * Each provider turns one upstream feed into QuoteUpdates for the market data service.
+ * The symbols to request and their provider IDs come from the symbol registry (via the
+ * context); caching, priority and staleness are the service's job.
+ */
+
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Provider ID → symbol for every active symbol the provider lists
+ */
+function getProviderIds(context: ProviderContext, provider: string): Map<string, string> {
+  const ids = new Map<string, string>();
+  for (const info of context.symbols) {
+    const id = info.providerIds[provider];
+    if (id) ids.set(id, info.symbol);
+  }
+  return ids;
+}
+
+/**
+ * Shared connect/reconnect handling for streaming feeds
+ */
+abstract class WebSocketProvider implements MarketDataProvider {
+  abstract readonly name: string;
+  protected abstract readonly url: string;
+  private ws: WebSocket | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(context: ProviderContext): void {
+    this.running = true;
+    this.connect(context);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  protected abstract subscribeMessage(providerIds: string[]): unknown;
+
+  protected abstract parseMessage(message: any, ids: Map<string, string>): QuoteUpdate | null;
+
+  private connect(context: ProviderContext): void {
+    console.log(`[${this.name}] Connecting...`);
+    const ws = new WebSocket(this.url);
+    const ids = getProviderIds(context, this.name);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      console.log(`[${this.name}] ✅ Connected`);
+      ws.send(JSON.stringify(this.subscribeMessage(Array.from(ids.keys()))));
+    });
+
+    ws.on("message", (data: Buffer) => {
+      try {
+        const update = this.parseMessage(JSON.parse(data.toString()), ids);
+        if (update) context.publish(update);
+      } catch {
+        // Ignore malformed frames
+      }
+    });
+
+    ws.on("error", (error) => {
+      console.error(`[${this.name}] Error:`, error.message);
+    });
+
+    ws.on("close", () => {
+      if (this.ws !== ws) return; // Stopped or replaced by a restart
+      this.ws = null;
+      if (!this.running) return;
+      console.log(`[${this.name}] Disconnected - reconnecting in ${RECONNECT_DELAY_MS / 1000}s`);
+      this.reconnectTimeout = setTimeout(() => this.connect(context), RECONNECT_DELAY_MS);
+    });
+  }
+}
+
+/**
+ * Shared interval handling for REST feeds
+ */
+abstract class PollingProvider implements MarketDataProvider {
+  abstract readonly name: string;
+  protected abstract readonly intervalMs: number;
+  private interval: NodeJS.Timeout | null = null;
+
+  start(context: ProviderContext): void {
+    const poll = () => {
+      this.fetchQuotes(context)
+        .then(updates => updates.forEach(update => context.publish(update)))
+        .catch(error => console.error(`[${this.name}] Error:`, error?.message || error));
+    };
+    poll();
+    this.interval = setInterval(poll, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  protected abstract fetchQuotes(context: ProviderContext): Promise<QuoteUpdate[]>;
+}
+
+/**
+ * Coinbase Exchange ticker channel (wss://ws-feed.exchange.coinbase.com)
+ */
+export class CoinbaseProvider extends WebSocketProvider {
+  readonly name = "coinbase";
+  protected readonly url = "wss://ws-feed.exchange.coinbase.com";
+
+  protected subscribeMessage(productIds: string[]) {
+    return { type: "subscribe", product_ids: productIds, channels: ["ticker"] };
+  }
+
+  protected parseMessage(message: any, ids: Map<string, string>): QuoteUpdate | null {
+    if (message.type !== "ticker") return null;
+    const symbol = ids.get(message.product_id);
+    if (!symbol) return null;
+
+    return {
+      symbol,
+      price: parseFloat(message.price),
+      open24h: message.open_24h ? parseFloat(message.open_24h) : undefined,
+      volume24h: message.volume_24h ? parseFloat(message.volume_24h) : undefined,
+      tradeSize: message.last_size ? parseFloat(message.last_size) : undefined,
+      timestamp: message.time ? new Date(message.time).getTime() : undefined,
+    };
+  }
+}
+
+/**
+ * Kraken v1 ticker channel (wss://ws.kraken.com)
+ */
+export class KrakenProvider extends WebSocketProvider {
+  readonly name = "kraken";
+  protected readonly url = "wss://ws.kraken.com";
+
+  protected subscribeMessage(pairs: string[]) {
+    return { event: "subscribe", pair: pairs, subscription: { name: "ticker" } };
+  }
+
+  protected parseMessage(message: any, ids: Map<string, string>): QuoteUpdate | null {
+    // Ticker frames are [channelId, data, "ticker", pair]
+    if (!Array.isArray(message) || message[2] !== "ticker") return null;
+    const symbol = ids.get(message[3]);
+    const ticker = message[1];
+    if (!symbol || !ticker?.c) return null;
+
+    return {
+      symbol,
+      price: parseFloat(ticker.c[0]),
+      open24h: ticker.o ? parseFloat(ticker.o[1]) : undefined,
+      volume24h: ticker.v ? parseFloat(ticker.v[1]) : undefined,
+      tradeSize: parseFloat(ticker.c[1]) || undefined,
+    };
+  }
+}
+
+/**
+ * CoinGecko markets endpoint, polled within the free-tier rate limit
+ */
+export class CoinGeckoProvider extends PollingProvider {
+  readonly name = "coingecko";
+  protected readonly intervalMs = 10000;
+
+  protected async fetchQuotes(context: ProviderContext): Promise<QuoteUpdate[]> {
+    const ids = getProviderIds(context, this.name);
+    if (ids.size === 0) return [];
+    const url = `https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&ids=${Array.from(ids.keys()).join(",")}&order=market_cap_desc&sparkline=false&price_change_percentage=24h`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.log(`[${this.name}] API error ${response.status}`);
+      return [];
+    }
+
+    const coins: any[] = await response.json();
+    const updates: QuoteUpdate[] = [];
+    for (const coin of coins) {
+      const symbol = ids.get(coin.id);
+      if (!symbol || !coin.current_price) continue;
+
+      const changePercent = coin.price_change_percentage_24h || 0;
+      updates.push({
+        symbol,
+        price: coin.current_price,
+        open24h: coin.current_price / (1 + changePercent / 100),
+        volume24h: coin.total_volume,
+        marketCap: coin.market_cap,
+        timestamp: coin.last_updated ? new Date(coin.last_updated).getTime() : undefined,
+      });
+    }
+    return updates;
+  }
+}
+
+/**
+ * Binance 24h ticker REST endpoint. Geo-blocked (HTTP 451) from some regions.
+ */
+export class BinanceProvider extends PollingProvider {
+  readonly name = "binance";
+  protected readonly intervalMs = 2000;
+
+  protected async fetchQuotes(context: ProviderContext): Promise<QuoteUpdate[]> {
+    const ids = getProviderIds(context, this.name);
+    if (ids.size === 0) return [];
+    const symbolsParam = JSON.stringify(Array.from(ids.keys()));
+    const url = `https://api.binance.com/api/v3/ticker/24hr?symbols=${encodeURIComponent(symbolsParam)}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.log(`[${this.name}] API error ${response.status}${response.status === 451 ? " (geolocation blocked)" : ""}`);
+      return [];
+    }
+
+    const tickers: any[] = await response.json();
+    const updates: QuoteUpdate[] = [];
+    for (const ticker of tickers) {
+      const symbol = ids.get(ticker.symbol);
+      if (!symbol) continue;
+
+      updates.push({
+        symbol,
+        price: parseFloat(ticker.lastPrice),
+        open24h: parseFloat(ticker.openPrice),
+        volume24h: parseFloat(ticker.quoteVolume),
+        timestamp: ticker.closeTime,
+      });
+    }
+    return updates;
+  }
+}
+
+/**
+ * Random walk around the last cached price, for offline development
+ */
+export class SimulationProvider extends PollingProvider {
+  readonly name = "simulation";
+  protected readonly intervalMs = 3000;
+  private readonly volatility = 0.002; // ±0.1% per step
+
+  protected async fetchQuotes(context: ProviderContext): Promise<QuoteUpdate[]> {
+    const updates: QuoteUpdate[] = [];
+    for (const { symbol } of context.symbols) {
+      const price = context.getPrice(symbol);
+      if (!price) continue;
+      const step = (Math.random() - 0.5) * this.volatility;
+      updates.push({ symbol, price: Math.max(price * (1 + step), price * 0.5) });
+    }
+    return updates;
+  }
+}
+
+export function createProvider(name: string): MarketDataProvider | null {
+  switch (name) {
+    case "coinbase":
+      return new CoinbaseProvider();
+    case "kraken":
+      return new KrakenProvider();
+    case "coingecko":
+      return new CoinGeckoProvider();
+    case "binance":
+      return new BinanceProvider();
+    case "simulation":
+      return new SimulationProvider();
+    default:
+      console.warn(`[MARKET DATA] Unknown provider "${name}" - skipped`);
+      return null;
+  }
+}
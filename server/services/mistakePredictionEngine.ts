@@ -1,11 +1,19 @@
 import { db } from '../db';
 import { mistakePredictions, paperOrders, tradingPatterns, users, aiPersonalExamples, aiAgentHealth } from '@shared/schema';
 import { eq, and, desc, sql } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { z } from 'zod';
 import { shadowLearningLogger } from './shadowLearningLogger';
+import { aiGateway } from './aiGateway';
+import { userEvents } from './userEvents';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const predictionSchema = z.object({
+  predictionType: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  confidence: z.number().min(0).max(100),
+  reasoning: z.string(),
+  evidence: z.array(z.string()).default([]),
+  alternativeSuggestion: z.string(),
+  triggerFactors: z.array(z.string()).default([]),
 });
 
 interface TradeSetup {
@@ -56,6 +64,17 @@ export const mistakePredictionEngine = {
         price: setup.price ? String(setup.price) : null,
         ...aiAnalysis,
       });
+
+      userEvents.publish(setup.userId, 'mistake_warning', {
+        predictionId: savedPrediction[0].id,
+        symbol: setup.symbol,
+        side: setup.side,
+        predictionType: aiAnalysis.predictionType,
+        severity: aiAnalysis.severity,
+        confidence: aiAnalysis.confidence,
+        reasoning: aiAnalysis.reasoning,
+        alternativeSuggestion: aiAnalysis.alternativeSuggestion,
+      });
       
       return {
         hasPrediction: true,
@@ -208,8 +227,8 @@ export const mistakePredictionEngine = {
     // For market orders, use current market price if not provided by frontend
     let price = setup.price || 0;
     if (price === 0 && setup.orderType === 'market') {
-      const { getMarketPrice } = await import('./paperTrading');
-      price = getMarketPrice(setup.symbol);
+      const { marketData } = await import('./marketData');
+      price = marketData.getPrice(setup.symbol) ?? 0;
     }
     
     if (price > 0) {
@@ -238,7 +257,7 @@ export const mistakePredictionEngine = {
   },
 
   /**
-   * Get AI prediction using GPT-4
+   * Get AI prediction through the AI gateway
    */
   async getAIPrediction(
     setup: TradeSetup,
@@ -298,8 +317,7 @@ Analyze this trade setup and predict if the trader is about to make a mistake. R
   "triggerFactors": ["factor1", "factor2"]
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { data: result } = await aiGateway.completeJson('mistake_prediction', {
       messages: [
         {
           role: 'system',
@@ -307,19 +325,17 @@ Analyze this trade setup and predict if the trader is about to make a mistake. R
         },
         { role: 'user', content: prompt },
       ],
-      temperature: 0.7,
-      response_format: { type: 'json_object' },
+      schema: predictionSchema,
+      userId: setup.userId,
     });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
     
     // SHADOW LEARNING: Log AI interaction to audit_log.jsonl
     await shadowLearningLogger.log({
       userId: setup.userId,
       feature: 'mistake_prediction',
       input_prompt: prompt,
-      model_response: response.choices[0].message.content || '{}',
-      confidence: result.confidence || 0,
+      model_response: JSON.stringify(result),
+      confidence: result.confidence,
       metadata: {
         symbol: setup.symbol,
         side: setup.side,
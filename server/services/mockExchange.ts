@@ -0,0 +1,327 @@
+import { randomUUID } from "crypto";
+import { marketData } from "./marketData";
+import { symbolRegistry } from "./symbolRegistry";
+import type {
+  ExchangeAccount,
+  ExchangeAdapter,
+  ExchangeCredentials,
+  ExchangeFill,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeSymbolFilters,
+  ExchangeTicker,
+} from "./exchangeAdapter";
+
+/**
+ * Mock Exchange
+ *
+ * An in-process exchange for exercising the live trading flow (connect, pre-check,
+ * confirm, reconcile, cancel) without network access or real money:
+ * - Each API key is its own account, funded with MOCK_STARTING_BALANCE USDT; state lives
+ *   in memory and is shared by every adapter created for the key
+ * - Symbols are registry symbols quoted in USDT (BTCUSDT); prices come from the market
+ *   data service unless set with mockExchange.setPrice
+ * - Market orders fill immediately; limit orders rest and fill the next time the account
+ *   is read at a price that crosses them, so tests control fills through prices
+ * - Commission is MOCK_FEE_RATE of the fill value, charged in the quote asset
+ * API keys starting with "invalid" are rejected.
+ */
+
+const QUOTE_ASSET = "USDT";
+const MOCK_STARTING_BALANCE = 100000;
+const MOCK_FEE_RATE = 0.001;
+
+interface MockOrder extends ExchangeOrder {
+  fills: ExchangeFill[];
+}
+
+interface MockAccount {
+  balances: Map<string, { free: number; locked: number }>;
+  orders: Map<string, MockOrder>;
+}
+
+export class MockExchange {
+  private accounts = new Map<string, MockAccount>();
+  private prices = new Map<string, number>();
+  private nextOrderId = 1;
+  private nextTradeId = 1;
+
+  /**
+   * Pin a symbol's price (e.g. "BTCUSDT"); resting orders that cross it fill on the next read
+   */
+  setPrice(symbol: string, price: number): void {
+    this.prices.set(symbol.toUpperCase(), price);
+  }
+
+  clearPrices(): void {
+    this.prices.clear();
+  }
+
+  /**
+   * Drop every account and order (between test runs)
+   */
+  reset(): void {
+    this.accounts.clear();
+    this.prices.clear();
+  }
+
+  getPrice(symbol: string): number | null {
+    const pinned = this.prices.get(symbol.toUpperCase());
+    if (pinned) return pinned;
+    const base = this.baseAsset(symbol);
+    return base ? marketData.getPrice(base) : null;
+  }
+
+  baseAsset(symbol: string): string | null {
+    const upper = symbol.toUpperCase();
+    if (!upper.endsWith(QUOTE_ASSET)) return null;
+    const base = upper.slice(0, -QUOTE_ASSET.length);
+    return symbolRegistry.resolve(base) ? base : null;
+  }
+
+  account(apiKey: string): MockAccount {
+    let account = this.accounts.get(apiKey);
+    if (!account) {
+      account = {
+        balances: new Map([[QUOTE_ASSET, { free: MOCK_STARTING_BALANCE, locked: 0 }]]),
+        orders: new Map(),
+      };
+      this.accounts.set(apiKey, account);
+    }
+    this.matchRestingOrders(account);
+    return account;
+  }
+
+  placeOrder(apiKey: string, request: ExchangeOrderRequest): MockOrder {
+    const base = this.baseAsset(request.symbol);
+    if (!base) {
+      throw new Error(`Invalid symbol: ${request.symbol}`);
+    }
+    const price = this.getPrice(request.symbol);
+    if (!price) {
+      throw new Error(`No price for ${request.symbol}`);
+    }
+
+    const quantity = parseFloat(request.quantity);
+    const limitPrice = request.price ? parseFloat(request.price) : null;
+    if (!(quantity > 0) || (request.type === "LIMIT" && !(limitPrice && limitPrice > 0))) {
+      throw new Error("Invalid quantity or price");
+    }
+
+    const account = this.account(apiKey);
+    const order: MockOrder = {
+      orderId: String(this.nextOrderId++),
+      clientOrderId: request.clientOrderId ?? randomUUID(),
+      symbol: request.symbol.toUpperCase(),
+      side: request.side,
+      type: request.type,
+      status: "new",
+      rawStatus: "NEW",
+      quantity: request.quantity,
+      price: request.type === "LIMIT" ? request.price! : null,
+      executedQuantity: "0",
+      quoteQuantity: "0",
+      createdAt: Date.now(),
+      fills: [],
+    };
+
+    // Reserve what the order could spend: quote for buys (at the limit, or the current price plus fees), base for sells
+    const reservePrice = limitPrice ?? price;
+    const [asset, amount] = request.side === "BUY"
+      ? [QUOTE_ASSET, quantity * reservePrice * (1 + MOCK_FEE_RATE)]
+      : [base, quantity];
+    const balance = this.balance(account, asset);
+    if (balance.free < amount) {
+      throw new Error("Account has insufficient balance for requested action.");
+    }
+    balance.free -= amount;
+    balance.locked += amount;
+
+    account.orders.set(order.orderId, order);
+
+    const crosses = request.side === "BUY" ? price <= reservePrice : price >= reservePrice;
+    if (request.type === "MARKET" || crosses) {
+      this.fill(account, order, request.type === "MARKET" ? price : limitPrice!, false);
+    }
+    return order;
+  }
+
+  cancelOrder(apiKey: string, orderId: string): MockOrder {
+    const account = this.account(apiKey);
+    const order = this.findOrder(account, orderId);
+    if (order.status !== "new" && order.status !== "partially_filled") {
+      throw new Error("Unknown order sent.");
+    }
+    this.releaseReservation(account, order);
+    order.status = "canceled";
+    order.rawStatus = "CANCELED";
+    return order;
+  }
+
+  findOrder(account: MockAccount, orderId: string): MockOrder {
+    const order = account.orders.get(orderId);
+    if (!order) {
+      throw new Error("Order does not exist.");
+    }
+    return order;
+  }
+
+  private balance(account: MockAccount, asset: string) {
+    let balance = account.balances.get(asset);
+    if (!balance) {
+      balance = { free: 0, locked: 0 };
+      account.balances.set(asset, balance);
+    }
+    return balance;
+  }
+
+  private matchRestingOrders(account: MockAccount): void {
+    for (const order of Array.from(account.orders.values())) {
+      if (order.status !== "new" || order.price === null) continue;
+      const price = this.getPrice(order.symbol);
+      if (!price) continue;
+      const limit = parseFloat(order.price);
+      if (order.side === "BUY" ? price <= limit : price >= limit) {
+        this.fill(account, order, limit, true);
+      }
+    }
+  }
+
+  /**
+   * Fill the whole order at one price and settle balances against its reservation
+   */
+  private fill(account: MockAccount, order: MockOrder, price: number, isMaker: boolean): void {
+    const base = this.baseAsset(order.symbol)!;
+    const quantity = parseFloat(order.quantity);
+    const value = quantity * price;
+    const commission = value * MOCK_FEE_RATE;
+
+    this.releaseReservation(account, order);
+    const quote = this.balance(account, QUOTE_ASSET);
+    const asset = this.balance(account, base);
+    if (order.side === "BUY") {
+      quote.free -= value + commission;
+      asset.free += quantity;
+    } else {
+      asset.free -= quantity;
+      quote.free += value - commission;
+    }
+
+    order.fills.push({
+      tradeId: String(this.nextTradeId++),
+      price: price.toFixed(8),
+      quantity: order.quantity,
+      quoteQuantity: value.toFixed(8),
+      commission: commission.toFixed(8),
+      commissionAsset: QUOTE_ASSET,
+      isMaker,
+      executedAt: Date.now(),
+    });
+    order.executedQuantity = order.quantity;
+    order.quoteQuantity = value.toFixed(8);
+    order.status = "filled";
+    order.rawStatus = "FILLED";
+  }
+
+  private releaseReservation(account: MockAccount, order: MockOrder): void {
+    const base = this.baseAsset(order.symbol)!;
+    const quantity = parseFloat(order.quantity);
+    const [asset, amount] = order.side === "BUY"
+      ? [QUOTE_ASSET, quantity * parseFloat(order.price ?? "0") * (1 + MOCK_FEE_RATE)]
+      : [base, quantity];
+    const balance = this.balance(account, asset);
+    // Market buys reserve at the placement price, which the order no longer records; release what is locked
+    const released = order.side === "BUY" && order.price === null ? balance.locked : Math.min(amount, balance.locked);
+    balance.locked -= released;
+    balance.free += released;
+  }
+}
+
+export const mockExchange = new MockExchange();
+
+function snapshot({ fills, ...order }: MockOrder): ExchangeOrder {
+  return { ...order };
+}
+
+export class MockExchangeAdapter implements ExchangeAdapter {
+  readonly name = "mock";
+  readonly supportsTestnet = true;
+  private apiKey: string;
+
+  constructor(credentials: ExchangeCredentials) {
+    this.apiKey = credentials.apiKey;
+  }
+
+  async validateCredentials(): Promise<{ valid: boolean; permissions: string[]; error?: string }> {
+    if (!this.apiKey || this.apiKey.startsWith("invalid")) {
+      return { valid: false, permissions: [], error: "Invalid API-key, IP, or permissions for action." };
+    }
+    return { valid: true, permissions: ["trade"] };
+  }
+
+  async getAccount(): Promise<ExchangeAccount> {
+    const account = mockExchange.account(this.apiKey);
+    return {
+      canTrade: true,
+      canWithdraw: false,
+      canDeposit: false,
+      balances: Array.from(account.balances.entries()).map(([asset, { free, locked }]) => ({
+        asset,
+        free: free.toFixed(8),
+        locked: locked.toFixed(8),
+      })),
+    };
+  }
+
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    const price = mockExchange.getPrice(symbol);
+    if (!price) {
+      throw new Error(`Failed to get ticker price for ${symbol}`);
+    }
+    return { symbol, price: price.toString() };
+  }
+
+  async getSymbolFilters(symbol: string): Promise<ExchangeSymbolFilters | null> {
+    const base = mockExchange.baseAsset(symbol);
+    const info = base ? symbolRegistry.resolve(base) : null;
+    if (!info) return null;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      baseAsset: info.baseAsset,
+      quoteAsset: QUOTE_ASSET,
+      tickSize: info.tickSize.toString(),
+      lotSize: info.lotSize.toString(),
+      minQuantity: info.lotSize.toString(),
+      maxQuantity: null,
+      minNotional: info.minNotional.toString(),
+      trading: true,
+    };
+  }
+
+  async placeOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    const order = mockExchange.placeOrder(this.apiKey, request);
+    return { order: snapshot(order), fills: [...order.fills] };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+    return snapshot(mockExchange.cancelOrder(this.apiKey, orderId));
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+    const account = mockExchange.account(this.apiKey);
+    return Array.from(account.orders.values())
+      .filter(order => order.status === "new" || order.status === "partially_filled")
+      .filter(order => !symbol || order.symbol === symbol.toUpperCase())
+      .map(snapshot);
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+    return snapshot(mockExchange.findOrder(mockExchange.account(this.apiKey), orderId));
+  }
+
+  async getOrderFills(symbol: string, orderId: string): Promise<ExchangeFill[]> {
+    return [...mockExchange.findOrder(mockExchange.account(this.apiKey), orderId).fills];
+  }
+}
@@ -0,0 +1,206 @@
+import fs from "fs/promises";
+import dns from "dns";
+import https from "https";
+import net from "net";
+import { sendEmail } from "../authService";
+import type { Notification } from "@shared/schema";
+import type { NotificationChannel } from "@shared/notifications";
+
+/**
+ * Notification Transports
+ *
+ * Each transport hands one notification to one recipient: an email address or a webhook
+ * URL. Preferences, quiet hours, dedupe and the delivery log are the notification
+ * service's job.
+ */
+
+export interface NotificationTransport {
+  readonly name: string;
+  send(notification: Notification, recipient: string): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Addresses a webhook may never reach: this host, private networks and cloud metadata endpoints
+const BLOCKED_WEBHOOK_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"], // Carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"], // Link-local, including 169.254.169.254
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"], // Multicast and reserved
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"], // Unique local
+  ["fe80::", 10, "ipv6"], // Link-local
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockedWebhookAddresses = new net.BlockList();
+for (const [network, prefix, family] of BLOCKED_WEBHOOK_RANGES) {
+  blockedWebhookAddresses.addSubnet(network, prefix, family);
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && blockedWebhookAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Why a webhook URL can't be used, or null. Only catches what the URL itself shows (scheme,
+ * IP literals, localhost); the send re-checks every address the host resolves to.
+ */
+export function checkWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Webhook URL must use https";
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || isBlockedAddress(host)) {
+    return "Webhook URL must point to a public host";
+  }
+  return null;
+}
+
+// Resolves like dns.lookup but fails when any address is private, so a hostname can't be
+// pointed (or re-pointed between save and send) at an internal service
+const publicOnlyLookup: typeof dns.lookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`), []);
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as typeof dns.lookup;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Email through the Resend integration used for login codes
+export class ResendEmailTransport implements NotificationTransport {
+  readonly name = "resend";
+
+  async send(notification: Notification, recipient: string): Promise<void> {
+    await sendEmail(recipient, notification.title, `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${escapeHtml(notification.title)}</h2>
+          <p>${escapeHtml(notification.body)}</p>
+          <p style="color: #888; font-size: 12px;">Change where these go in Settings → Notifications.</p>
+        </div>
+      `);
+  }
+}
+
+// JSON POST to the user's https URL, public addresses only; redirects are not followed and
+// anything but a 2xx response is a failure
+export class WebhookTransport implements NotificationTransport {
+  readonly name = "webhook";
+
+  async send(notification: Notification, recipient: string): Promise<void> {
+    const urlError = checkWebhookUrl(recipient);
+    if (urlError) {
+      throw new Error(urlError);
+    }
+
+    const body = JSON.stringify({
+      id: notification.id,
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+      urgent: notification.urgent,
+      createdAt: notification.createdAt,
+    });
+
+    const status = await new Promise<number>((resolve, reject) => {
+      const request = https.request(recipient, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      }, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on("error", reject);
+      request.end(body);
+    });
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded ${status}`);
+    }
+  }
+}
+
+/**
+ * Development transport: appends each delivery as a JSON line to NOTIFICATION_LOG_FILE,
+ * or logs it to the console when that isn't set
+ */
+export class LocalTransport implements NotificationTransport {
+  readonly name = "local";
+
+  constructor(private channel: NotificationChannel) {}
+
+  async send(notification: Notification, recipient: string): Promise<void> {
+    const entry = {
+      channel: this.channel,
+      recipient,
+      id: notification.id,
+      userId: notification.userId,
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      at: new Date().toISOString(),
+    };
+
+    const logFile = process.env.NOTIFICATION_LOG_FILE;
+    if (logFile) {
+      await fs.appendFile(logFile, JSON.stringify(entry) + "\n");
+    } else {
+      console.log(`[NOTIFY:${this.channel}] → ${recipient}: ${notification.title} - ${notification.body}`);
+    }
+  }
+}
+
+/**
+ * The transport for a channel. NOTIFICATION_TRANSPORT=local sends everything to the local
+ * transport; otherwise email goes through Resend when RESEND_API_KEY is set (local when it
+ * isn't) and webhooks are posted for real.
+ */
+export function createTransport(channel: NotificationChannel): NotificationTransport {
+  if (process.env.NOTIFICATION_TRANSPORT?.trim().toLowerCase() === "local") {
+    return new LocalTransport(channel);
+  }
+
+  switch (channel) {
+    case "email":
+      return process.env.RESEND_API_KEY ? new ResendEmailTransport() : new LocalTransport(channel);
+    case "webhook":
+      return new WebhookTransport();
+  }
+}
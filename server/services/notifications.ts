@@ -0,0 +1,274 @@
+import { storage } from "../storage";
+import type { Notification, NotificationPreferences } from "@shared/schema";
+import type { NotificationCategory, NotificationChannel, NotificationChannelMap } from "@shared/notifications";
+import { createTransport, type NotificationTransport } from "./notificationTransports";
+import { userEvents } from "./userEvents";
+
+/**
+ * Notification Service
+ *
+ * Tells users about triggered price alerts, Risk Guard pauses and stop-loss / take-profit
+ * / liquidation exits:
+ * - Every notification is written to the in-app inbox and pushed over the user channel
+ * - Per-user preferences pick extra channels (email, webhook) for each category
+ * - A notification repeating a dedupe key within DEDUPE_WINDOW_MS is dropped
+ * - During the user's quiet hours email and webhook deliveries are held back (logged as
+ *   'held') and sent once the window ends; urgent notifications such as liquidations still
+ *   go out immediately
+ * - Every email and webhook attempt is written to the delivery log
+ * Notifying never throws, so a failed delivery can't undo the alert or exit behind it.
+ */
+
+export interface NotifyInput {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  dedupeKey?: string;
+  urgent?: boolean;
+}
+
+export interface ResolvedNotificationPreferences {
+  channels: NotificationChannelMap;
+  webhookUrl: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timeZone: string;
+}
+
+const DEDUPE_WINDOW_MS = 15 * 60 * 1000;
+const HELD_FLUSH_INTERVAL_MS = 60 * 1000;
+
+type DeliveryOutcome = { status: "sent" | "failed"; error: string | null };
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `at` falls inside the quiet hours, read as wall-clock times in the user's time
+ * zone. A window ending before it starts (22:00-07:00) runs past midnight.
+ */
+export function isQuietHours(preferences: ResolvedNotificationPreferences, at: Date): boolean {
+  const { quietHoursStart, quietHoursEnd, timeZone } = preferences;
+  if (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd) return false;
+
+  const local = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(at);
+  const now = minutesOf(local);
+  const start = minutesOf(quietHoursStart);
+  const end = minutesOf(quietHoursEnd);
+
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+function resolvePreferences(preferences: NotificationPreferences | undefined): ResolvedNotificationPreferences {
+  return {
+    channels: (preferences?.channels as NotificationChannelMap | null) ?? {},
+    webhookUrl: preferences?.webhookUrl ?? null,
+    quietHoursStart: preferences?.quietHoursStart ?? null,
+    quietHoursEnd: preferences?.quietHoursEnd ?? null,
+    timeZone: preferences?.timeZone ?? "UTC",
+  };
+}
+
+export class NotificationService {
+  private transports = new Map<NotificationChannel, NotificationTransport>();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private flushing = false;
+
+  /**
+   * Start sending held deliveries once their user's quiet hours are over
+   */
+  start(intervalMs: number = HELD_FLUSH_INTERVAL_MS): void {
+    if (this.flushInterval) {
+      return; // Already running
+    }
+
+    this.flushInterval = setInterval(() => {
+      this.flushHeldDeliveries().catch(error => {
+        console.error("[NOTIFY] Error sending held deliveries:", error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+  }
+
+  /**
+   * Swap a channel's transport (development and tests pin the local one this way)
+   */
+  setTransport(channel: NotificationChannel, transport: NotificationTransport): void {
+    this.transports.set(channel, transport);
+  }
+
+  async getPreferences(userId: string): Promise<ResolvedNotificationPreferences> {
+    return resolvePreferences(await storage.getNotificationPreferences(userId));
+  }
+
+  async updatePreferences(
+    userId: string,
+    updates: Partial<ResolvedNotificationPreferences>
+  ): Promise<ResolvedNotificationPreferences> {
+    const current = await this.getPreferences(userId);
+    const saved = await storage.upsertNotificationPreferences({ userId, ...current, ...updates });
+    return resolvePreferences(saved);
+  }
+
+  /**
+   * Record a notification in the inbox and send it on the user's channels. Returns null
+   * when it was a duplicate or couldn't be recorded.
+   */
+  async notify(userId: string, input: NotifyInput): Promise<Notification | null> {
+    try {
+      if (input.dedupeKey) {
+        const since = new Date(Date.now() - DEDUPE_WINDOW_MS);
+        const recent = await storage.getRecentNotificationByDedupeKey(userId, input.dedupeKey, since);
+        if (recent) return null;
+      }
+
+      const notification = await storage.createNotification({
+        userId,
+        category: input.category,
+        title: input.title,
+        body: input.body,
+        data: input.data ?? null,
+        dedupeKey: input.dedupeKey ?? null,
+        urgent: input.urgent ?? false,
+      });
+
+      userEvents.publish(userId, "notification", {
+        id: notification.id,
+        category: input.category,
+        title: notification.title,
+        body: notification.body,
+      });
+
+      // Deliveries run in the background so a slow mail server or webhook can't hold up
+      // the monitor that raised the notification
+      this.deliver(notification).catch(error => {
+        console.error(`[NOTIFY] Delivery of ${notification.id} failed:`, error);
+      });
+      return notification;
+    } catch (error) {
+      console.error(`[NOTIFY] Failed to notify user ${userId} (${input.category}):`, error);
+      return null;
+    }
+  }
+
+  private getTransport(channel: NotificationChannel): NotificationTransport {
+    let transport = this.transports.get(channel);
+    if (!transport) {
+      transport = createTransport(channel);
+      this.transports.set(channel, transport);
+    }
+    return transport;
+  }
+
+  private async recipientFor(
+    channel: NotificationChannel,
+    userId: string,
+    preferences: ResolvedNotificationPreferences
+  ): Promise<string | null> {
+    if (channel === "webhook") return preferences.webhookUrl;
+    const user = await storage.getUser(userId);
+    return user?.email ?? null;
+  }
+
+  private async send(
+    transport: NotificationTransport,
+    notification: Notification,
+    channel: NotificationChannel,
+    recipient: string | null
+  ): Promise<DeliveryOutcome> {
+    if (!recipient) {
+      return { status: "failed", error: channel === "email" ? "No email address on the account" : "No webhook URL set" };
+    }
+
+    try {
+      await transport.send(notification, recipient);
+      return { status: "sent", error: null };
+    } catch (error: any) {
+      console.error(`[NOTIFY] ${channel} delivery of ${notification.id} failed:`, error.message);
+      return { status: "failed", error: error.message };
+    }
+  }
+
+  private async deliver(notification: Notification): Promise<void> {
+    const preferences = await this.getPreferences(notification.userId);
+    const channels = preferences.channels[notification.category as NotificationCategory] ?? [];
+    if (channels.length === 0) return;
+
+    const quiet = !notification.urgent && isQuietHours(preferences, new Date());
+
+    for (const channel of channels) {
+      const transport = this.getTransport(channel);
+      const outcome: DeliveryOutcome | { status: "held"; error: string } = quiet
+        ? { status: "held", error: "Quiet hours" }
+        : await this.send(transport, notification, channel, await this.recipientFor(channel, notification.userId, preferences));
+
+      await storage.createNotificationDelivery({
+        notificationId: notification.id,
+        userId: notification.userId,
+        channel,
+        transport: transport.name,
+        ...outcome,
+      });
+    }
+  }
+
+  /**
+   * Send what quiet hours held back for users whose window has ended, with their current
+   * recipients; a channel turned off in the meantime is not used
+   */
+  private async flushHeldDeliveries(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      const now = new Date();
+      for (const userId of await storage.getUserIdsWithHeldNotificationDeliveries()) {
+        const preferences = await this.getPreferences(userId);
+        if (isQuietHours(preferences, now)) continue;
+
+        for (const { delivery, notification } of await storage.getHeldNotificationDeliveries(userId)) {
+          const channel = delivery.channel as NotificationChannel;
+          const transport = this.getTransport(channel);
+          const enabled = preferences.channels[notification.category as NotificationCategory]?.includes(channel);
+
+          const outcome = enabled
+            ? await this.send(transport, notification, channel, await this.recipientFor(channel, userId, preferences))
+            : { status: "failed" as const, error: "Channel turned off before quiet hours ended" };
+
+          await storage.updateNotificationDelivery(delivery.id, {
+            ...outcome,
+            transport: transport.name,
+            attemptedAt: new Date(),
+          });
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,79 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+
+/**
+ * Paper Order Idempotency
+ *
+ * Clients send an Idempotency-Key header with POST /api/paper/order. The first request
+ * with a key claims it and its response is stored; a retry with the same key and body
+ * gets that response back instead of placing a second order.
+ * - Same key, different body: 422
+ * - Same key while the first request is still running: 409
+ * - Requests that fail with a 5xx release the key so the client can retry
+ * - A claim still processing after PROCESSING_LEASE_MS is taken to have died with its
+ *   server (crash, restart) and can be claimed again
+ * - Keys expire after 24 hours
+ */
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const PROCESSING_LEASE_MS = 60 * 1000; // Far longer than placing a paper order takes
+const MAX_KEY_LENGTH = 255;
+
+export type OrderRequestClaim =
+  | { kind: "claimed"; requestId: string }
+  | { kind: "replay"; status: number; body: unknown }
+  | { kind: "rejected"; status: number; error: string };
+
+function hashRequestBody(body: unknown): string {
+  return createHash("sha256").update(JSON.stringify(body ?? {})).digest("hex");
+}
+
+export async function claimOrderRequest(
+  userId: string,
+  idempotencyKey: string,
+  body: unknown
+): Promise<OrderRequestClaim> {
+  if (idempotencyKey.length === 0 || idempotencyKey.length > MAX_KEY_LENGTH) {
+    return { kind: "rejected", status: 400, error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` };
+  }
+
+  const requestHash = hashRequestBody(body);
+  const claimed = await storage.claimPaperOrderRequest({ userId, idempotencyKey, requestHash });
+  if (claimed) {
+    return { kind: "claimed", requestId: claimed.id };
+  }
+
+  const existing = await storage.getPaperOrderRequest(userId, idempotencyKey);
+  if (!existing) {
+    // Released between our insert and read; let the client retry
+    return { kind: "rejected", status: 409, error: "A request with this Idempotency-Key is being retried" };
+  }
+
+  const age = Date.now() - existing.createdAt.getTime();
+  if (age > KEY_TTL_MS || (existing.status !== "completed" && age > PROCESSING_LEASE_MS)) {
+    // Deleted by ID, so a concurrent retry that already reclaimed the key keeps its claim
+    await storage.deletePaperOrderRequest(existing.id);
+    return claimOrderRequest(userId, idempotencyKey, body);
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { kind: "rejected", status: 422, error: "Idempotency-Key was already used with a different request" };
+  }
+
+  if (existing.status !== "completed" || existing.responseStatus === null) {
+    return { kind: "rejected", status: 409, error: "A request with this Idempotency-Key is still in progress" };
+  }
+
+  return { kind: "replay", status: existing.responseStatus, body: existing.responseBody };
+}
+
+/**
+ * Store the response for replay, or release the key when the request failed on our side
+ */
+export async function completeOrderRequest(requestId: string, status: number, body: unknown): Promise<void> {
+  if (status >= 500) {
+    await storage.deletePaperOrderRequest(requestId);
+    return;
+  }
+  await storage.completePaperOrderRequest(requestId, status, body);
+}
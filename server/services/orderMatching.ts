@@ -0,0 +1,339 @@
+import { storage } from "../storage";
+import type { PaperOrder, PaperWallet } from "@shared/schema";
+import {
+  applyBuyFill,
+  applySellFill,
+  recordClosedTrade,
+  journalClosedTrade,
+  type ClosedFill,
+  releaseOrderReservation,
+  cancelOcoSiblings,
+  getOcoSiblingReservation,
+  computeTrailingStopPrice,
+} from "./paperTrading";
+import { symbolRegistry } from "./symbolRegistry";
+import { marketData } from "./marketData";
+import { quoteExecution, type Liquidity } from "./executionModel";
+import { stopLossTakeProfitMonitor } from "./priceMonitoring";
+import { marginMonitor } from "./marginMonitor";
+import { riskGuardService } from "../riskGuardService";
+import { userEvents } from "./userEvents";
+
+interface AppliedFill {
+  filled: boolean;
+  closed?: ClosedFill | null;
+  fill?: { quantity: number; price: number; complete: boolean };
+}
+
+/**
+ * Paper Order Matching Engine
+ *
+ * Works resting paper orders against every price tick:
+ * - limit: buys fill when price <= limit, sells when price >= limit
+ * - stop_market: sells fill when price <= stop, buys when price >= stop
+ * - stop_limit: turns into a resting limit once the stop is touched
+ * - trailing_stop: ratchets its stop behind the high-water mark (low-water for buys)
+ * - OCO legs cancel their siblings when one fills
+ *
+ * Fills are priced by the wallet's execution model (maker/taker fees, slippage,
+ * optional partial fills that leave the rest resting), release the cash / quantity
+ * reserved when the order was placed, and apply the order's stopLoss / takeProfit.
+ * Fills and stop-limit triggers are pushed to the order's owner as user events.
+ */
+export class OrderMatchingService {
+  // Symbols with at least one pending order; ticks for other symbols are ignored
+  private pendingSymbols = new Set<string>();
+  private latestPrices = new Map<string, number>();
+  private inFlight = new Set<string>();
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return; // Already matching
+    }
+    this.started = true;
+
+    const pendingOrders = await storage.getPendingPaperOrders();
+    pendingOrders.forEach(order => this.pendingSymbols.add(order.symbol.toUpperCase()));
+
+    marketData.onQuote(quote => {
+      // Never trigger on a stale quote; wait for the feed to deliver a live one
+      if (!quote.stale) this.handleTick(quote.symbol, quote.price);
+    });
+    console.log(`[ORDER MATCHER] Started - watching ${this.pendingSymbols.size} symbol(s) with pending orders`);
+  }
+
+  /**
+   * Start watching a symbol after a new resting order is placed
+   */
+  trackSymbol(symbol: string): void {
+    this.pendingSymbols.add(symbol.toUpperCase());
+  }
+
+  private handleTick(symbol: string, price: number): void {
+    if (!this.pendingSymbols.has(symbol)) return;
+
+    this.latestPrices.set(symbol, price);
+
+    // A scan already running will pick up the newest price when it loops
+    if (this.inFlight.has(symbol)) return;
+
+    this.matchSymbol(symbol).catch(error => {
+      console.error(`[ORDER MATCHER] Error matching ${symbol}:`, error);
+    });
+  }
+
+  private async matchSymbol(symbol: string): Promise<void> {
+    this.inFlight.add(symbol);
+
+    try {
+      let price: number | undefined;
+
+      while (price !== this.latestPrices.get(symbol)) {
+        price = this.latestPrices.get(symbol)!;
+
+        const orders = await storage.getPendingPaperOrders(symbol);
+        if (orders.length === 0) {
+          this.pendingSymbols.delete(symbol);
+          return;
+        }
+
+        const filledGroups = new Set<string>();
+        for (const order of orders) {
+          // A sibling OCO leg already filled on this tick
+          if (order.ocoGroupId && filledGroups.has(order.ocoGroupId)) continue;
+
+          if (await this.shouldFill(order, price)) {
+            const filled = await this.fillOrder(order, price);
+            if (filled && order.ocoGroupId) {
+              filledGroups.add(order.ocoGroupId);
+            }
+          }
+        }
+      }
+    } finally {
+      this.inFlight.delete(symbol);
+    }
+  }
+
+  private async shouldFill(order: PaperOrder, price: number): Promise<boolean> {
+    switch (order.orderType) {
+      case "limit":
+        return this.crossesLimit(order, price);
+
+      case "stop_market":
+        return this.crossesStop(order, price);
+
+      case "stop_limit":
+        if (!order.triggeredAt) {
+          if (!this.crossesStop(order, price)) return false;
+          await storage.markPaperOrderTriggered(order.id);
+          console.log(`[ORDER MATCHER] Stop-limit ${order.id} triggered at $${price}, resting at limit $${order.price}`);
+          const wallet = await storage.getPaperWalletById(order.walletId);
+          if (wallet) {
+            userEvents.publish(wallet.userId, "order_triggered", {
+              orderId: order.id,
+              symbol: order.symbol,
+              trigger: "stop_limit",
+              price: price.toString(),
+              quantity: null,
+            });
+          }
+        }
+        return this.crossesLimit(order, price);
+
+      case "trailing_stop":
+        return this.updateTrailingStop(order, price);
+
+      default:
+        return false;
+    }
+  }
+
+  private crossesLimit(order: PaperOrder, price: number): boolean {
+    if (!order.price) return false;
+    const limit = parseFloat(order.price);
+    return order.side === "buy" ? price <= limit : price >= limit;
+  }
+
+  private crossesStop(order: PaperOrder, price: number): boolean {
+    if (!order.stopPrice) return false;
+    const stop = parseFloat(order.stopPrice);
+    return order.side === "sell" ? price <= stop : price >= stop;
+  }
+
+  /**
+   * Ratchet the trailing stop with a new extreme and report whether it was hit
+   */
+  private async updateTrailingStop(order: PaperOrder, price: number): Promise<boolean> {
+    if (!order.trailingAmount || !order.highWaterMark) return false;
+
+    const waterMark = parseFloat(order.highWaterMark);
+    const improved = order.side === "sell" ? price > waterMark : price < waterMark;
+
+    if (improved) {
+      const stopPrice = computeTrailingStopPrice(
+        order.side as "buy" | "sell",
+        price,
+        parseFloat(order.trailingAmount),
+        (order.trailingType as "absolute" | "percent") || "absolute"
+      );
+      await storage.updatePaperOrderTrailingStop(
+        order.id,
+        symbolRegistry.formatPrice(order.symbol, price),
+        symbolRegistry.formatPrice(order.symbol, stopPrice, order.side === "sell" ? "down" : "up")
+      );
+      return false;
+    }
+
+    return this.crossesStop(order, price);
+  }
+
+  private async fillOrder(order: PaperOrder, tickPrice: number): Promise<boolean> {
+    const wallet = await storage.getPaperWalletById(order.walletId);
+    if (!wallet) {
+      console.error(`[ORDER MATCHER] Wallet ${order.walletId} not found for order ${order.id}`);
+      return false;
+    }
+
+    // The fill, the reservation release and the ledger commit together under the wallet lock
+    const { filled, closed, fill } = await storage.withPaperWalletLock(wallet.id, async (lockedWallet): Promise<AppliedFill> => {
+      // The order may have been cancelled, amended or filled since this scan loaded it
+      const current = await storage.getPaperOrderById(order.id);
+      if (!current || current.status !== "pending") {
+        return { filled: false };
+      }
+      return this.applyFill(lockedWallet, current, tickPrice);
+    });
+
+    if (fill) {
+      userEvents.publish(wallet.userId, "order_filled", {
+        account: "paper",
+        orderId: order.id,
+        symbol: order.symbol,
+        side: order.side as "buy" | "sell",
+        orderType: order.orderType,
+        quantity: fill.quantity.toString(),
+        price: fill.price.toFixed(8),
+        complete: fill.complete,
+      });
+    }
+
+    if (closed) {
+      await journalClosedTrade(wallet.userId, order.id, order.symbol, closed);
+      await riskGuardService.recordClosedTrade(wallet.userId, wallet.id);
+    }
+    return filled;
+  }
+
+  private async applyFill(
+    wallet: PaperWallet,
+    order: PaperOrder,
+    tickPrice: number
+  ): Promise<AppliedFill> {
+    const previousFilled = parseFloat(order.filledQuantity);
+    const remaining = parseFloat(order.quantity) - previousFilled;
+    let fillable = remaining;
+
+    // A sell whose position was closed elsewhere (e.g. stop-loss) can no longer fill
+    if (order.side === "sell") {
+      const position = await storage.getPaperPositionByWalletAndSymbol(order.walletId, order.symbol);
+      if (!position) {
+        await storage.cancelPaperOrder(order.id);
+        await cancelOcoSiblings(order);
+        console.log(`[ORDER MATCHER] Cancelled sell order ${order.id} - ${order.symbol} position no longer open`);
+        return { filled: false };
+      }
+      fillable = Math.min(remaining, parseFloat(position.quantity));
+    } else {
+      // A buy against a short only covers it; it never flips the position long
+      const position = await storage.getPaperPositionByWalletAndSymbol(order.walletId, order.symbol);
+      if (position?.side === "short") {
+        fillable = Math.min(remaining, parseFloat(position.quantity));
+      }
+    }
+
+    // Resting limits add liquidity; triggered stops hit the book as market orders
+    const liquidity: Liquidity = order.orderType === "limit" || order.orderType === "stop_limit" ? "maker" : "taker";
+    const quote = quoteExecution(wallet, order.symbol, order.side as "buy" | "sell", fillable, tickPrice, liquidity);
+    const complete = quote.fillQuantity >= fillable;
+
+    // Only one OCO leg carries the group's reservation. Whichever leg fills takes it over, so
+    // the part it leaves unfilled stays reserved once the other legs are cancelled
+    const siblingReserved = await getOcoSiblingReservation(order);
+    const reservedAmount = siblingReserved > 0
+      ? (parseFloat(order.reservedAmount || "0") + siblingReserved).toString()
+      : order.reservedAmount;
+
+    // Release the share of the reservation this fill uses (all of it once the order completes)
+    const reserved = parseFloat(reservedAmount || "0");
+    const released = complete
+      ? reserved
+      : order.side === "buy"
+        ? reserved * (quote.fillQuantity / remaining)
+        : quote.fillQuantity;
+
+    const totalFilled = previousFilled + quote.fillQuantity;
+    const averagePrice = previousFilled > 0
+      ? (parseFloat(order.filledPrice || "0") * previousFilled + quote.fillPrice * quote.fillQuantity) / totalFilled
+      : quote.fillPrice;
+
+    // Claim the fill first; with the wallet locked this only fails if the order moved on
+    const claimed = await storage.fillPaperOrder(order.id, order.filledQuantity, {
+      filledPrice: averagePrice.toFixed(8),
+      filledQuantity: totalFilled.toString(),
+      fee: (parseFloat(order.fee) + quote.fee).toFixed(8),
+      slippage: (parseFloat(order.slippage) + quote.slippage).toFixed(8),
+      liquidity,
+      reservedAmount: reservedAmount ? Math.max(0, reserved - released).toString() : null,
+      complete,
+    });
+    if (!claimed) return { filled: false };
+
+    if (reservedAmount) {
+      await releaseOrderReservation({ ...order, reservedAmount }, released);
+    }
+    await cancelOcoSiblings(order, { release: false });
+
+    // Reload so the fill sees the balance after the reservation release
+    const currentWallet = (await storage.getPaperWalletById(wallet.id)) || wallet;
+
+    let closed: ClosedFill | null;
+    if (order.side === "buy") {
+      closed = await applyBuyFill(
+        currentWallet,
+        order.symbol,
+        quote.fillQuantity,
+        quote.fillPrice,
+        quote.fee,
+        order.stopLoss,
+        order.takeProfit
+      );
+      if (closed) {
+        await recordClosedTrade(wallet.userId, order.id, order.symbol, closed);
+      } else if (wallet.marginEnabled) {
+        marginMonitor.trackSymbol(order.symbol);
+      }
+      if (order.stopLoss || order.takeProfit) {
+        stopLossTakeProfitMonitor.trackSymbol(order.symbol);
+      }
+    } else {
+      // Checked above under the same lock; throwing rolls the claim back
+      const currentPosition = await storage.getPaperPositionByWalletAndSymbol(wallet.id, order.symbol);
+      if (!currentPosition) {
+        throw new Error(`No ${order.symbol} position left for sell order ${order.id}`);
+      }
+
+      closed = await applySellFill(currentWallet, currentPosition, quote.fillQuantity, quote.fillPrice, quote.fee);
+      await recordClosedTrade(wallet.userId, order.id, order.symbol, closed);
+    }
+
+    console.log(
+      `✅ [ORDER MATCHER] ${complete ? "Filled" : "Partially filled"} ${order.orderType.toUpperCase()} ${order.side.toUpperCase()} ` +
+      `${quote.fillQuantity}/${remaining} ${order.symbol} @ $${quote.fillPrice.toFixed(2)} (${liquidity}, fee $${quote.fee.toFixed(2)})`
+    );
+    return { filled: true, closed, fill: { quantity: quote.fillQuantity, price: quote.fillPrice, complete } };
+  }
+}
+
+export const orderMatchingService = new OrderMatchingService();
@@ -0,0 +1,221 @@
+import { storage } from "../storage";
+import type { PaperWallet, PaperPosition, PaperPortfolioSnapshot } from "@shared/schema";
+import { initializePaperWallet, getPositionPrice } from "./paperTrading";
+import { isMarginPosition, getPositionEquity } from "./marginTrading";
+import type { LotMethod } from "./taxLots";
+
+/**
+ * Paper Portfolios
+ *
+ * A user can run several named paper wallets side by side ("Swing test", "DCA experiment").
+ * Exactly one is selected at a time; every /api/paper/* call and Risk Guard act on it.
+ * Resetting a portfolio archives its state as a snapshot and restores the starting balance.
+ */
+
+type PortfolioResult<T> = { success: boolean; error?: string; status?: number } & Partial<T>;
+
+/**
+ * Cash plus open positions at market (margin positions count their equity)
+ */
+export function getPortfolioEquity(wallet: PaperWallet, positions: PaperPosition[]): number {
+  return positions.reduce((sum, position) => {
+    const { price } = getPositionPrice(position);
+    return sum + (isMarginPosition(position)
+      ? getPositionEquity(position, price)
+      : parseFloat(position.quantity) * price);
+  }, parseFloat(wallet.balance));
+}
+
+async function summarizePortfolio(wallet: PaperWallet) {
+  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  const equity = getPortfolioEquity(wallet, positions);
+
+  return {
+    ...wallet,
+    equity: equity.toFixed(2),
+    totalPnl: (equity - parseFloat(wallet.startingBalance)).toFixed(2),
+    positionCount: positions.length,
+  };
+}
+
+/**
+ * Load a portfolio and verify it belongs to the user
+ */
+async function getOwnedPortfolio(
+  userId: string,
+  walletId: string
+): Promise<{ wallet?: PaperWallet; error?: string; status?: number }> {
+  const wallet = await storage.getPaperWalletById(walletId);
+  if (!wallet) {
+    return { error: "Portfolio not found", status: 404 };
+  }
+  if (wallet.userId !== userId) {
+    return { error: "Forbidden: You can only access your own portfolios", status: 403 };
+  }
+  return { wallet };
+}
+
+export async function listPortfolios(userId: string) {
+  // Makes sure the default portfolio exists
+  await initializePaperWallet(userId);
+  const wallets = await storage.getPaperWalletsByUserId(userId);
+  return Promise.all(wallets.map(summarizePortfolio));
+}
+
+export async function createPortfolio(
+  userId: string,
+  name: string,
+  startingBalance: string,
+  lotMethod: LotMethod = "fifo"
+): Promise<PortfolioResult<{ wallet: PaperWallet }>> {
+  const wallets = await storage.getPaperWalletsByUserId(userId);
+  if (wallets.some(wallet => wallet.name.toLowerCase() === name.toLowerCase())) {
+    return { success: false, error: `A portfolio named "${name}" already exists`, status: 409 };
+  }
+
+  const wallet = await storage.createPaperWallet({
+    userId,
+    name,
+    startingBalance,
+    balance: startingBalance,
+    isSelected: false,
+    lotMethod,
+  });
+
+  // Switch to the new portfolio so the next order lands in it
+  await storage.selectPaperWallet(userId, wallet.id);
+  return { success: true, wallet: { ...wallet, isSelected: true } };
+}
+
+export async function selectPortfolio(
+  userId: string,
+  walletId: string
+): Promise<PortfolioResult<{ wallet: PaperWallet }>> {
+  const { wallet, error, status } = await getOwnedPortfolio(userId, walletId);
+  if (!wallet) {
+    return { success: false, error, status };
+  }
+
+  await storage.selectPaperWallet(userId, walletId);
+  return { success: true, wallet: { ...wallet, isSelected: true } };
+}
+
+export async function updatePortfolio(
+  userId: string,
+  walletId: string,
+  updates: { name?: string; startingBalance?: string; lotMethod?: LotMethod }
+): Promise<PortfolioResult<{ wallet: PaperWallet }>> {
+  const { wallet, error, status } = await getOwnedPortfolio(userId, walletId);
+  if (!wallet) {
+    return { success: false, error, status };
+  }
+
+  if (updates.name && updates.name.toLowerCase() !== wallet.name.toLowerCase()) {
+    const wallets = await storage.getPaperWalletsByUserId(userId);
+    if (wallets.some(other => other.name.toLowerCase() === updates.name!.toLowerCase())) {
+      return { success: false, error: `A portfolio named "${updates.name}" already exists`, status: 409 };
+    }
+  }
+
+  // A new starting balance applies from the next reset; a new lot method from the next sell
+  const updated = await storage.updatePaperWalletDetails(walletId, updates);
+  return { success: true, wallet: updated };
+}
+
+/**
+ * Archive the portfolio's current state
+ */
+async function takeSnapshot(wallet: PaperWallet, reason: "reset" | "manual"): Promise<PaperPortfolioSnapshot> {
+  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  const orders = await storage.getPaperOrdersByWalletId(wallet.id);
+  const periodStart = wallet.lastResetAt ?? wallet.createdAt;
+  const periodOrders = orders.filter(order => new Date(order.timestamp) >= new Date(periodStart));
+  const equity = getPortfolioEquity(wallet, positions);
+
+  return storage.createPaperPortfolioSnapshot({
+    walletId: wallet.id,
+    userId: wallet.userId,
+    name: wallet.name,
+    reason,
+    startingBalance: wallet.startingBalance,
+    balance: wallet.balance,
+    equity: equity.toFixed(2),
+    totalPnl: (equity - parseFloat(wallet.startingBalance)).toFixed(2),
+    positions: positions.map(position => ({
+      symbol: position.symbol,
+      side: position.side,
+      quantity: position.quantity,
+      avgPrice: position.avgPrice,
+      marketPrice: getPositionPrice(position).price.toFixed(2),
+      margin: position.margin,
+    })),
+    orderCount: periodOrders.length,
+    openOrderCount: periodOrders.filter(order => order.status === "pending").length,
+    periodStart,
+  });
+}
+
+export async function snapshotPortfolio(
+  userId: string,
+  walletId: string
+): Promise<PortfolioResult<{ snapshot: PaperPortfolioSnapshot }>> {
+  const { wallet, error, status } = await getOwnedPortfolio(userId, walletId);
+  if (!wallet) {
+    return { success: false, error, status };
+  }
+
+  const snapshot = await takeSnapshot(wallet, "manual");
+  return { success: true, snapshot };
+}
+
+/**
+ * Snapshot the portfolio, cancel its resting orders, close its positions and restore the starting balance
+ */
+export async function resetPortfolio(
+  userId: string,
+  walletId: string
+): Promise<PortfolioResult<{ wallet: PaperWallet; snapshot: PaperPortfolioSnapshot }>> {
+  const { wallet, error, status } = await getOwnedPortfolio(userId, walletId);
+  if (!wallet) {
+    return { success: false, error, status };
+  }
+
+  // One transaction under the wallet lock, so no fill lands between the snapshot and the reset
+  const { snapshot, resetWallet } = await storage.withPaperWalletLock(wallet.id, async (lockedWallet) => {
+    const snapshot = await takeSnapshot(lockedWallet, "reset");
+
+    // Reservations go with the positions and balance, so orders are just cancelled
+    const orders = await storage.getPaperOrdersByWalletId(lockedWallet.id);
+    for (const order of orders) {
+      if (order.status === "pending") {
+        await storage.cancelPaperOrder(order.id);
+      }
+    }
+
+    const positions = await storage.getPaperPositionsByWalletId(lockedWallet.id);
+    for (const position of positions) {
+      await storage.deletePaperPosition(position.id);
+    }
+    await storage.deleteOpenPaperTaxLots(lockedWallet.id);
+
+    const resetWallet = await storage.resetPaperWallet(lockedWallet.id, lockedWallet.startingBalance);
+    return { snapshot, resetWallet };
+  });
+
+  console.log(`[PAPER PORTFOLIO] Reset "${wallet.name}" for user ${userId} (snapshot ${snapshot.id})`);
+
+  return { success: true, wallet: resetWallet, snapshot };
+}
+
+export async function getPortfolioSnapshots(
+  userId: string,
+  walletId: string
+): Promise<PortfolioResult<{ snapshots: PaperPortfolioSnapshot[] }>> {
+  const { wallet, error, status } = await getOwnedPortfolio(userId, walletId);
+  if (!wallet) {
+    return { success: false, error, status };
+  }
+
+  const snapshots = await storage.getPaperPortfolioSnapshots(wallet.id);
+  return { success: true, snapshots };
+}
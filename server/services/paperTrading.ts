@@ -1,31 +1,56 @@
-import { storage } from "../storage";
-import type { PaperWallet, PaperPosition, InsertPaperOrder } from "@shared/schema";
+import { storage, type PaperWalletExecutionModel, type PaperWalletMarginSettings } from "../storage";
+import type { PaperWallet, PaperPosition, PaperOrder } from "@shared/schema";
 import { aiTradeJournal } from "./aiTradeJournal";
+import { quoteExecution, estimateBuyCost, type Liquidity } from "./executionModel";
+import { isMarginPosition, computeLiquidationPrice, getPositionEquity } from "./marginTrading";
+import { openLot, matchLots, getLotMethod, getMatchedEntryPrice, type LotMatch, type LotMethod } from "./taxLots";
+import { marketData } from "./marketData";
+import { symbolRegistry } from "./symbolRegistry";
+import { riskGuardService } from "../riskGuardService";
+import { userEvents } from "./userEvents";
+import { randomUUID } from "crypto";
 
-// Live market prices (initialized from Binance API)
-const MARKET_PRICES: Record<string, number> = {
-  BTC: 109000,
-  ETH: 3996,
-  SOL: 190,
-  XRP: 2.40,
-  ADA: 0.66,
-  LINK: 17.45,
-  AVAX: 20.73,
-  DOT: 3.02,
-  MATIC: 0.28,
-};
-
+// Prices come from the market data service so fills, charts and alerts agree
 export function getMarketPrice(symbol: string): number {
-  return MARKET_PRICES[symbol.toUpperCase()] || 100;
+  const price = marketData.getPrice(symbol);
+  if (price === null) {
+    throw new Error(`No market price for ${symbol.toUpperCase()}: unknown or delisted symbol`);
+  }
+  return price;
+}
+
+/**
+ * Price to fill at. Only a live quote counts: a cold start or provider outage must not fill
+ * at a seeded default or a price the market has moved away from.
+ */
+export function getTradablePrice(symbol: string): { success: true; price: number } | { success: false; error: string } {
+  if (!symbolRegistry.resolve(symbol)) {
+    return { success: false, error: `Unknown symbol: ${symbol.toUpperCase()}` };
+  }
+  const price = marketData.getLivePrice(symbol);
+  if (price === null) {
+    return { success: false, error: `No live price for ${symbol.toUpperCase()} right now - try again shortly` };
+  }
+  return { success: true, price };
+}
+
+/**
+ * Price to value a position at: its last quote, or the entry price when the symbol has none
+ * (delisted, or not quoted yet), so one unpriced position can't fail a whole portfolio view
+ */
+export function getPositionPrice(position: Pick<PaperPosition, "symbol" | "avgPrice">): { price: number; priced: boolean } {
+  const price = marketData.getPrice(position.symbol);
+  return price === null
+    ? { price: parseFloat(position.avgPrice), priced: false }
+    : { price, priced: true };
 }
 
 export function setMarketPrice(symbol: string, price: number): void {
-  MARKET_PRICES[symbol.toUpperCase()] = price;
-  console.log(`[PRICE UPDATE] ${symbol} -> $${price}`);
+  marketData.setManualPrice(symbol, price);
 }
 
 export function getAllMarketPrices(): Record<string, number> {
-  return { ...MARKET_PRICES };
+  return Object.fromEntries(marketData.getQuotes().map(quote => [quote.symbol, quote.price]));
 }
 
 export async function initializePaperWallet(userId: string): Promise<PaperWallet> {
@@ -35,9 +60,12 @@ export async function initializePaperWallet(userId: string): Promise<PaperWallet
     return existingWallet;
   }
 
+  // First portfolio for the user; more can be added from /api/paper/portfolios
   const newWallet = await storage.createPaperWallet({
     userId,
+    name: "Main",
     balance: "10000",
+    isSelected: true,
   });
 
   // Create default risk guard settings for new users
@@ -54,172 +82,682 @@ export async function getPaperWalletWithPositions(userId: string) {
   const wallet = await initializePaperWallet(userId);
   const positions = await storage.getPaperPositionsByWalletId(wallet.id);
 
-  // Enrich positions with current market prices and P&L
+  // Enrich positions with current market prices and P&L; unpriced positions show at entry price
   const enrichedPositions = positions.map(position => {
-    const currentPrice = getMarketPrice(position.symbol);
+    const { price: currentPrice, priced } = getPositionPrice(position);
     const avgPrice = parseFloat(position.avgPrice);
     const quantity = parseFloat(position.quantity);
-    const pnl = (currentPrice - avgPrice) * quantity;
-    const pnlPercent = ((currentPrice - avgPrice) / avgPrice) * 100;
+    const direction = position.side === "short" ? -1 : 1;
+    const pnl = direction * (currentPrice - avgPrice) * quantity;
+    const pnlPercent = direction * ((currentPrice - avgPrice) / avgPrice) * 100;
 
     return {
       ...position,
       currentPrice: currentPrice.toFixed(2),
+      priced,
       pnl: pnl.toFixed(2),
       pnlPercent: pnlPercent.toFixed(2),
+      equity: isMarginPosition(position) ? getPositionEquity(position, currentPrice).toFixed(2) : undefined,
     };
   });
 
   return {
     wallet,
+    availableBalance: getAvailableBalance(wallet).toFixed(2),
     positions: enrichedPositions,
   };
 }
 
-export async function executeMarketOrder(
+/**
+ * Change the fee tier, slippage and partial-fill settings used for the user's fills
+ */
+export async function updateExecutionModel(
   userId: string,
-  symbol: string,
-  side: "buy" | "sell",
-  quantity: string,
-  stopLoss?: string,
-  takeProfit?: string
-): Promise<{ success: boolean; error?: string }> {
+  updates: PaperWalletExecutionModel
+): Promise<PaperWallet | undefined> {
   const wallet = await initializePaperWallet(userId);
-  const marketPrice = getMarketPrice(symbol);
-  const quantityNum = parseFloat(quantity);
-  const total = quantityNum * marketPrice;
+  return storage.updatePaperWalletExecutionModel(wallet.id, updates);
+}
 
-  if (side === "buy") {
-    const balanceNum = parseFloat(wallet.balance);
+/**
+ * Switch margin mode and change leverage, maintenance margin and borrow rate
+ */
+export async function updateMarginSettings(
+  userId: string,
+  updates: PaperWalletMarginSettings
+): Promise<{ success: boolean; error?: string; wallet?: PaperWallet }> {
+  const wallet = await initializePaperWallet(userId);
 
-    if (balanceNum < total) {
-      return { success: false, error: "Insufficient balance" };
+  if (updates.marginEnabled === false && wallet.marginEnabled) {
+    const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+    if (positions.some(isMarginPosition)) {
+      return { success: false, error: "Close all margin positions before turning margin mode off" };
     }
+  }
 
-    const newBalance = (balanceNum - total).toFixed(2);
-    await storage.updatePaperWalletBalance(wallet.id, newBalance);
+  const updated = await storage.updatePaperWalletMarginSettings(wallet.id, updates);
+  return { success: true, wallet: updated };
+}
 
-    const existingPosition = await storage.getPaperPositionByWalletAndSymbol(
-      wallet.id,
-      symbol
-    );
+/**
+ * Cash not held by resting buy limit orders
+ */
+export function getAvailableBalance(wallet: PaperWallet): number {
+  return parseFloat(wallet.balance) - parseFloat(wallet.reservedBalance || "0");
+}
+
+/**
+ * Quantity not held by resting sell limit orders
+ */
+export function getAvailableQuantity(position: PaperPosition): number {
+  return parseFloat(position.quantity) - parseFloat(position.reservedQuantity || "0");
+}
+
+/**
+ * The realized side of a fill, for the P&L ledger and the trade journal
+ */
+export interface ClosedFill {
+  walletId: string;
+  side: "long" | "short";
+  entryPrice: number; // Cost price of the matched lots
+  exitPrice: number;
+  quantity: number;
+  costs: number; // Exit fee plus the borrow interest paid on the closed quantity
+  method: LotMethod;
+  lots: LotMatch[];
+  realizedPnl: number;
+}
 
-    if (existingPosition) {
-      const existingQty = parseFloat(existingPosition.quantity);
-      const existingAvgPrice = parseFloat(existingPosition.avgPrice);
-      const newQty = existingQty + quantityNum;
-      const newAvgPrice = (
-        (existingQty * existingAvgPrice + quantityNum * marketPrice) /
-        newQty
-      ).toFixed(2);
+function buildClosedFill(
+  walletId: string,
+  side: "long" | "short",
+  method: LotMethod,
+  lots: LotMatch[],
+  exitPrice: number,
+  costs: number,
+  maxLoss?: number
+): ClosedFill {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const entryPrice = getMatchedEntryPrice(lots);
+  const direction = side === "short" ? -1 : 1;
+  // Entry fees are already in the lot cost; exit fees and interest come off the proceeds
+  const realizedPnl = direction * (exitPrice - entryPrice) * quantity - costs;
+
+  return {
+    walletId,
+    side,
+    entryPrice,
+    exitPrice,
+    quantity,
+    costs,
+    method,
+    lots,
+    realizedPnl: maxLoss !== undefined ? Math.max(realizedPnl, -maxLoss) : realizedPnl,
+  };
+}
+
+/**
+ * Debit the wallet and open or add to a position at the fill price.
+ * The fee is folded into the position's average cost. A buy against a short covers it.
+ */
+export async function applyBuyFill(
+  wallet: PaperWallet,
+  symbol: string,
+  quantityNum: number,
+  fillPrice: number,
+  fee: number,
+  stopLoss?: string | null,
+  takeProfit?: string | null
+): Promise<ClosedFill | null> {
+  const existingPosition = await storage.getPaperPositionByWalletAndSymbol(
+    wallet.id,
+    symbol
+  );
+
+  if (existingPosition?.side === "short") {
+    return closeMarginPosition(wallet, existingPosition, quantityNum, fillPrice, fee);
+  }
+
+  // Margin wallets open leveraged longs; spot holdings keep being added to as spot
+  if (wallet.marginEnabled && (!existingPosition || isMarginPosition(existingPosition))) {
+    await openMarginPosition(wallet, symbol, "long", existingPosition, quantityNum, fillPrice, fee, stopLoss, takeProfit);
+    return null;
+  }
+
+  const total = quantityNum * fillPrice + fee;
+  const costPrice = total / quantityNum;
+  const newBalance = (parseFloat(wallet.balance) - total).toFixed(2);
+  await storage.updatePaperWalletBalance(wallet.id, newBalance);
+  await openLot(wallet.id, symbol, "long", quantityNum, costPrice, fee);
+
+  if (existingPosition) {
+    const existingQty = parseFloat(existingPosition.quantity);
+    const existingAvgPrice = parseFloat(existingPosition.avgPrice);
+    const newQty = existingQty + quantityNum;
+    const newAvgPrice = (
+      (existingQty * existingAvgPrice + quantityNum * costPrice) /
+      newQty
+    ).toFixed(8);
 
-      await storage.updatePaperPosition(
+    await storage.updatePaperPosition(
+      existingPosition.id,
+      newQty.toString(),
+      newAvgPrice
+    );
+
+    if (stopLoss || takeProfit) {
+      await storage.updatePositionStopLossTakeProfit(
         existingPosition.id,
-        newQty.toString(),
-        newAvgPrice
+        stopLoss || null,
+        takeProfit || null
       );
-      
-      if (stopLoss || takeProfit) {
-        await storage.updatePositionStopLossTakeProfit(
-          existingPosition.id,
-          stopLoss || null,
-          takeProfit || null
-        );
-      }
-    } else {
-      await storage.createPaperPosition({
-        walletId: wallet.id,
-        symbol,
-        quantity: quantityNum.toString(),
-        avgPrice: marketPrice.toFixed(2),
-        stopLoss: stopLoss || undefined,
-        takeProfit: takeProfit || undefined,
-      });
     }
-
-    await storage.createPaperOrder({
+  } else {
+    await storage.createPaperPosition({
       walletId: wallet.id,
       symbol,
-      side,
-      orderType: "market",
       quantity: quantityNum.toString(),
-      price: marketPrice.toFixed(2),
-      status: "completed",
+      avgPrice: costPrice.toFixed(8),
+      stopLoss: stopLoss || undefined,
+      takeProfit: takeProfit || undefined,
     });
+  }
 
-    return { success: true };
-  } else if (side === "sell") {
-    const existingPosition = await storage.getPaperPositionByWalletAndSymbol(
-      wallet.id,
-      symbol
+  return null;
+}
+
+/**
+ * Credit the wallet (net of fees) and reduce (or close) a long position at the fill price.
+ * The sold quantity is matched against the position's lots by the wallet's lot method.
+ */
+export async function applySellFill(
+  wallet: PaperWallet,
+  position: PaperPosition,
+  quantityNum: number,
+  fillPrice: number,
+  fee: number
+): Promise<ClosedFill> {
+  if (isMarginPosition(position)) {
+    return closeMarginPosition(wallet, position, quantityNum, fillPrice, fee);
+  }
+
+  const total = quantityNum * fillPrice - fee;
+  const newBalance = (parseFloat(wallet.balance) + total).toFixed(2);
+  await storage.updatePaperWalletBalance(wallet.id, newBalance);
+
+  const method = getLotMethod(wallet);
+  const { matches, remainingCostPrice } = await matchLots(position, quantityNum, method);
+  const newQty = parseFloat(position.quantity) - quantityNum;
+
+  if (newQty <= 0) {
+    await storage.deletePaperPosition(position.id);
+  } else {
+    // FIFO and LIFO leave a different cost basis behind than the one sold
+    await storage.updatePaperPosition(
+      position.id,
+      newQty.toString(),
+      remainingCostPrice !== null ? remainingCostPrice.toFixed(8) : position.avgPrice
     );
+  }
 
-    if (!existingPosition) {
-      return { success: false, error: "No position to sell" };
-    }
+  return buildClosedFill(wallet.id, "long", method, matches, fillPrice, fee);
+}
+
+/**
+ * Open or add to a short: borrow the asset, sell it, and post margin from the wallet
+ */
+export async function applyShortFill(
+  wallet: PaperWallet,
+  symbol: string,
+  quantityNum: number,
+  fillPrice: number,
+  fee: number,
+  stopLoss?: string | null,
+  takeProfit?: string | null
+): Promise<void> {
+  const existingPosition = await storage.getPaperPositionByWalletAndSymbol(wallet.id, symbol);
+  await openMarginPosition(wallet, symbol, "short", existingPosition, quantityNum, fillPrice, fee, stopLoss, takeProfit);
+}
+
+/**
+ * Cash a new margin position needs: the initial margin plus the fee
+ */
+export function getMarginRequirement(wallet: PaperWallet, notional: number, fee: number): number {
+  return notional / parseFloat(wallet.leverage) + fee;
+}
+
+async function openMarginPosition(
+  wallet: PaperWallet,
+  symbol: string,
+  side: "long" | "short",
+  existingPosition: PaperPosition | undefined,
+  quantityNum: number,
+  fillPrice: number,
+  fee: number,
+  stopLoss?: string | null,
+  takeProfit?: string | null
+): Promise<void> {
+  const notional = quantityNum * fillPrice;
+  const margin = notional / parseFloat(wallet.leverage);
+  // Longs borrow the rest of the notional; shorts hold the sale proceeds against the borrowed asset
+  const borrowed = side === "long" ? notional - margin : notional;
+  // Fees are folded into the cost basis like spot fills
+  const costPrice = side === "long" ? fillPrice + fee / quantityNum : fillPrice - fee / quantityNum;
+  const maintenanceMarginRate = parseFloat(wallet.maintenanceMarginRate);
+
+  const newBalance = (parseFloat(wallet.balance) - margin - fee).toFixed(2);
+  await storage.updatePaperWalletBalance(wallet.id, newBalance);
+  await openLot(wallet.id, symbol, side, quantityNum, costPrice, fee);
 
+  if (existingPosition) {
     const existingQty = parseFloat(existingPosition.quantity);
+    const newQty = existingQty + quantityNum;
+    const updates = {
+      quantity: newQty.toString(),
+      avgPrice: ((existingQty * parseFloat(existingPosition.avgPrice) + quantityNum * costPrice) / newQty).toFixed(8),
+      margin: (parseFloat(existingPosition.margin || "0") + margin).toFixed(2),
+      borrowedAmount: (parseFloat(existingPosition.borrowedAmount) + borrowed).toFixed(2),
+    };
+    await storage.updatePaperPositionMargin(existingPosition.id, {
+      ...updates,
+      liquidationPrice: computeLiquidationPrice({ ...existingPosition, ...updates }, maintenanceMarginRate).toFixed(8),
+    });
 
-    if (existingQty < quantityNum) {
-      return { success: false, error: "Insufficient position quantity" };
+    if (stopLoss || takeProfit) {
+      await storage.updatePositionStopLossTakeProfit(existingPosition.id, stopLoss || null, takeProfit || null);
     }
+    return;
+  }
 
-    const balanceNum = parseFloat(wallet.balance);
-    const newBalance = (balanceNum + total).toFixed(2);
-    await storage.updatePaperWalletBalance(wallet.id, newBalance);
+  const position = {
+    walletId: wallet.id,
+    symbol,
+    side,
+    quantity: quantityNum.toString(),
+    avgPrice: costPrice.toFixed(8),
+    margin: margin.toFixed(2),
+    borrowedAmount: borrowed.toFixed(2),
+    accruedInterest: "0",
+    interestAccruedAt: new Date(),
+    stopLoss: stopLoss || undefined,
+    takeProfit: takeProfit || undefined,
+  };
+  await storage.createPaperPosition({
+    ...position,
+    liquidationPrice: computeLiquidationPrice(position, maintenanceMarginRate).toFixed(8),
+  });
+}
 
-    const newQty = existingQty - quantityNum;
+/**
+ * Close part or all of a margin position: repay the loan and return what is left of the margin.
+ * Isolated margin, so a position can never take more than its own margin from the wallet.
+ * Margin and loan are released pro rata, so lots are always matched at average cost.
+ */
+async function closeMarginPosition(
+  wallet: PaperWallet,
+  position: PaperPosition,
+  quantityNum: number,
+  fillPrice: number,
+  fee: number
+): Promise<ClosedFill> {
+  const quantity = parseFloat(position.quantity);
+  const closeQty = Math.min(quantityNum, quantity);
+  const fraction = closeQty / quantity;
+  const margin = parseFloat(position.margin || "0");
+  const borrowed = parseFloat(position.borrowedAmount);
+  const interest = parseFloat(position.accruedInterest);
 
-    if (newQty === 0) {
-      await storage.deletePaperPosition(existingPosition.id);
-    } else {
-      await storage.updatePaperPosition(
-        existingPosition.id,
-        newQty.toString(),
-        existingPosition.avgPrice
-      );
-    }
+  const payout = position.side === "short"
+    ? fraction * (margin + borrowed - interest) - closeQty * fillPrice
+    : closeQty * fillPrice - fraction * (borrowed + interest);
 
-    const order = await storage.createPaperOrder({
-      walletId: wallet.id,
+  const newBalance = (parseFloat(wallet.balance) + Math.max(0, payout - fee)).toFixed(2);
+  await storage.updatePaperWalletBalance(wallet.id, newBalance);
+
+  const { matches } = await matchLots(position, closeQty, "average");
+
+  if (fraction >= 1) {
+    await storage.deletePaperPosition(position.id);
+  } else {
+    const remaining = 1 - fraction;
+    const updates = {
+      quantity: (quantity - closeQty).toString(),
+      margin: (margin * remaining).toFixed(2),
+      borrowedAmount: (borrowed * remaining).toFixed(2),
+      accruedInterest: (interest * remaining).toFixed(8),
+    };
+    await storage.updatePaperPositionMargin(position.id, {
+      ...updates,
+      liquidationPrice: computeLiquidationPrice(
+        { ...position, ...updates },
+        parseFloat(wallet.maintenanceMarginRate)
+      ).toFixed(8),
+    });
+  }
+
+  // The loss stops at the margin and entry fees that went into the closed share
+  const entryFees = matches.reduce((sum, match) => sum + match.entryFee, 0);
+  return buildClosedFill(
+    wallet.id,
+    position.side === "short" ? "short" : "long",
+    "average",
+    matches,
+    fillPrice,
+    fee + fraction * interest,
+    fraction * margin + entryFees
+  );
+}
+
+/**
+ * Write a closed long (sell) or covered short (buy) to the realized P&L ledger, one row per
+ * matched lot. Runs inside the fill's transaction.
+ */
+export async function recordClosedTrade(
+  userId: string,
+  orderId: string,
+  symbol: string,
+  closed: ClosedFill
+): Promise<void> {
+  const { entryPrice, exitPrice, quantity } = closed;
+  const direction = closed.side === "short" ? -1 : 1;
+
+  // Costs are shared by quantity; a margin loss cap is spread the same way
+  const rows = closed.lots.map(lot => {
+    const share = quantity > 0 ? lot.quantity / quantity : 0;
+    return { lot, share, pnl: direction * (exitPrice - lot.entryPrice) * lot.quantity - closed.costs * share };
+  });
+  const adjustment = closed.realizedPnl - rows.reduce((sum, row) => sum + row.pnl, 0);
+
+  await storage.createPaperRealizedPnl(rows.map(({ lot, share, pnl }) => ({
+    walletId: closed.walletId,
+    userId,
+    orderId,
+    lotId: lot.lotId,
+    symbol,
+    side: closed.side,
+    method: closed.method,
+    quantity: lot.quantity.toFixed(8),
+    entryPrice: lot.entryPrice.toFixed(8),
+    exitPrice: exitPrice.toFixed(8),
+    costs: (closed.costs * share).toFixed(8),
+    realizedPnl: (pnl + adjustment * share).toFixed(8),
+    openedAt: lot.openedAt,
+  })));
+}
+
+/**
+ * Log a closed trade to the AI Trade Journal once its fill has committed (never fails the order)
+ */
+export async function journalClosedTrade(
+  userId: string,
+  orderId: string,
+  symbol: string,
+  closed: ClosedFill
+): Promise<void> {
+  const { entryPrice, exitPrice, quantity } = closed;
+  const profitLoss = closed.realizedPnl;
+  const profitLossPercent = entryPrice * quantity > 0 ? (profitLoss / (entryPrice * quantity)) * 100 : 0;
+
+  try {
+    await aiTradeJournal.logTrade({
+      userId,
+      tradeId: orderId,
+      tradeType: 'paper',
+      symbol,
+      side: closed.side === "short" ? 'buy' : 'sell',
+      entryPrice,
+      exitPrice,
+      quantity,
+      profitLoss,
+      profitLossPercent,
+    });
+    console.log(`[TRADE JOURNAL] Logged trade ${orderId} for user ${userId}`);
+  } catch (error) {
+    console.error('[TRADE JOURNAL] Failed to log trade:', error);
+    // Don't fail the order if journal logging fails
+  }
+}
+
+/**
+ * Release the cash or quantity a pending order was holding (all of it unless an amount is given)
+ */
+export async function releaseOrderReservation(order: PaperOrder, amount?: number): Promise<void> {
+  if (!order.reservedAmount) return;
+  const reserved = amount ?? parseFloat(order.reservedAmount);
+
+  if (order.side === "buy") {
+    const wallet = await storage.getPaperWalletById(order.walletId);
+    if (!wallet) return;
+    const remaining = Math.max(0, parseFloat(wallet.reservedBalance || "0") - reserved);
+    await storage.updatePaperWalletReservedBalance(wallet.id, remaining.toFixed(2));
+  } else {
+    const position = await storage.getPaperPositionByWalletAndSymbol(order.walletId, order.symbol);
+    if (!position) return;
+    const remaining = Math.max(0, parseFloat(position.reservedQuantity || "0") - reserved);
+    await storage.updatePaperPositionReservedQuantity(position.id, remaining.toString());
+  }
+}
+
+export async function executeMarketOrder(
+  userId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  quantity: string,
+  stopLoss?: string,
+  takeProfit?: string,
+  closedBy: "manual" | "risk_stop" = "manual"
+): Promise<{ success: boolean; error?: string; filledQuantity?: string }> {
+  const { id: walletId } = await initializePaperWallet(userId);
+  const symbolError = await checkSymbolFilters(walletId, symbol, side, parseFloat(quantity));
+  if (symbolError) {
+    return { success: false, error: symbolError };
+  }
+
+  // Balance checks, fill, order and ledger commit together, so concurrent orders and
+  // the SL/TP monitor can't spend the same balance or sell the same quantity twice
+  const { closed, orderId, filledPrice, ...result } = await storage.withPaperWalletLock(walletId, (wallet) =>
+    fillMarketOrder(wallet, symbol, side, parseFloat(quantity), stopLoss, takeProfit, closedBy)
+  );
+
+  if (result.success && orderId && filledPrice && result.filledQuantity) {
+    userEvents.publish(userId, "order_filled", {
+      account: "paper",
+      orderId,
       symbol,
       side,
       orderType: "market",
-      quantity: quantityNum.toString(),
-      price: marketPrice.toFixed(2),
-      status: "completed",
+      quantity: result.filledQuantity,
+      price: filledPrice,
+      complete: parseFloat(result.filledQuantity) >= parseFloat(quantity),
     });
+  }
 
-    // Log completed trade to AI Trade Journal
-    const avgPrice = parseFloat(existingPosition.avgPrice);
-    const profitLoss = (marketPrice - avgPrice) * quantityNum;
-    const profitLossPercent = ((marketPrice - avgPrice) / avgPrice) * 100;
+  if (closed && orderId) {
+    await journalClosedTrade(userId, orderId, symbol, closed);
+    await riskGuardService.recordClosedTrade(userId, walletId);
+  }
+  return result;
+}
 
-    try {
-      await aiTradeJournal.logTrade({
-        userId,
-        tradeId: order.id,
-        tradeType: 'paper',
-        symbol,
-        side,
-        entryPrice: avgPrice,
-        exitPrice: marketPrice,
-        quantity: quantityNum,
-        profitLoss,
-        profitLossPercent,
-      });
-      console.log(`[TRADE JOURNAL] Logged trade ${order.id} for user ${userId}`);
-    } catch (error) {
-      console.error('[TRADE JOURNAL] Failed to log trade:', error);
-      // Don't fail the order if journal logging fails
+async function fillMarketOrder(
+  wallet: PaperWallet,
+  symbol: string,
+  side: "buy" | "sell",
+  quantityNum: number,
+  stopLoss?: string,
+  takeProfit?: string,
+  closedBy: "manual" | "risk_stop" = "manual"
+): Promise<{
+  success: boolean;
+  error?: string;
+  filledQuantity?: string;
+  filledPrice?: string;
+  closed?: ClosedFill | null;
+  orderId?: string;
+}> {
+  const tradable = getTradablePrice(symbol);
+  if (!tradable.success) {
+    return { success: false, error: tradable.error };
+  }
+  const marketPrice = tradable.price;
+
+  // Market orders take liquidity; with partial fills on, the unfilled rest is dropped
+  const quote = quoteExecution(wallet, symbol, side, quantityNum, marketPrice, "taker");
+  const filledOrder = {
+    walletId: wallet.id,
+    symbol,
+    side,
+    orderType: "market",
+    quantity: quantityNum.toString(),
+    price: marketPrice.toFixed(8),
+    status: quote.fillQuantity < quantityNum ? "partially_filled" : "completed",
+    filledPrice: quote.fillPrice.toFixed(8),
+    filledQuantity: quote.fillQuantity.toString(),
+    filledAt: new Date(),
+    liquidity: quote.liquidity,
+    fee: quote.fee.toFixed(8),
+    slippage: quote.slippage.toFixed(8),
+  };
+
+  const existingPosition = await storage.getPaperPositionByWalletAndSymbol(
+    wallet.id,
+    symbol
+  );
+
+  if (side === "buy") {
+    if (existingPosition?.side === "short") {
+      // Covering a short settles from its own margin
+      if (parseFloat(existingPosition.quantity) < quantityNum) {
+        return { success: false, error: "Buy quantity exceeds the open short position" };
+      }
+
+      const closed = await applyBuyFill(wallet, symbol, quote.fillQuantity, quote.fillPrice, quote.fee);
+      const order = await storage.createPaperOrder({ ...filledOrder, closedBy });
+      if (closed) {
+        await recordClosedTrade(wallet.userId, order.id, symbol, closed);
+      }
+
+      return { success: true, filledQuantity: filledOrder.filledQuantity, filledPrice: filledOrder.filledPrice, closed, orderId: order.id };
     }
 
-    return { success: true };
+    const openAsMargin = wallet.marginEnabled && (!existingPosition || isMarginPosition(existingPosition));
+    const required = openAsMargin
+      ? getMarginRequirement(wallet, quote.notional, quote.fee)
+      : quote.notional + quote.fee;
+    if (getAvailableBalance(wallet) < required) {
+      return { success: false, error: "Insufficient balance" };
+    }
+
+    await applyBuyFill(wallet, symbol, quote.fillQuantity, quote.fillPrice, quote.fee, stopLoss, takeProfit);
+    const order = await storage.createPaperOrder(filledOrder);
+
+    return { success: true, filledQuantity: filledOrder.filledQuantity, filledPrice: filledOrder.filledPrice, orderId: order.id };
+  } else if (side === "sell") {
+    // Margin wallets sell short when there is no long to sell
+    if (!existingPosition || existingPosition.side === "short") {
+      if (!wallet.marginEnabled) {
+        return { success: false, error: "No position to sell" };
+      }
+
+      if (getAvailableBalance(wallet) < getMarginRequirement(wallet, quote.notional, quote.fee)) {
+        return { success: false, error: "Insufficient margin" };
+      }
+
+      await applyShortFill(wallet, symbol, quote.fillQuantity, quote.fillPrice, quote.fee, stopLoss, takeProfit);
+      const order = await storage.createPaperOrder(filledOrder);
+
+      return { success: true, filledQuantity: filledOrder.filledQuantity, filledPrice: filledOrder.filledPrice, orderId: order.id };
+    }
+
+    if (getAvailableQuantity(existingPosition) < quantityNum) {
+      return { success: false, error: "Insufficient position quantity" };
+    }
+
+    const closed = await applySellFill(wallet, existingPosition, quote.fillQuantity, quote.fillPrice, quote.fee);
+
+    const order = await storage.createPaperOrder({ ...filledOrder, closedBy });
+    await recordClosedTrade(wallet.userId, order.id, symbol, closed);
+
+    return { success: true, filledQuantity: filledOrder.filledQuantity, filledPrice: filledOrder.filledPrice, closed, orderId: order.id };
   }
 
   return { success: false, error: "Invalid order side" };
 }
 
+/**
+ * Check an order against the symbol registry: listed, quoted, tick size, lot size and min notional.
+ * Closing a whole position skips the lot size so dust left by partial fills can always be cleared.
+ */
+async function checkSymbolFilters(
+  walletId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  quantityNum: number,
+  prices: number[] = []
+): Promise<string | null> {
+  if (!symbolRegistry.resolve(symbol)) {
+    return `Unknown symbol: ${symbol}`;
+  }
+  const marketPrice = marketData.getPrice(symbol);
+  if (marketPrice === null) {
+    return `No market price for ${symbol} yet`;
+  }
+
+  const position = await storage.getPaperPositionByWalletAndSymbol(walletId, symbol);
+  const closesPosition = !!position
+    && (position.side === "short" ? side === "buy" : side === "sell")
+    && Math.abs(parseFloat(position.quantity) - quantityNum) < 1e-8;
+
+  return symbolRegistry.validateOrder(symbol, quantityNum, prices[0] ?? marketPrice, prices, {
+    skipLotSize: closesPosition,
+  });
+}
+
+/**
+ * Hold cash (buys, including expected fees and slippage) or position quantity (sells) for a resting order
+ */
+async function reserveForOrder(
+  wallet: PaperWallet,
+  symbol: string,
+  side: "buy" | "sell",
+  quantityNum: number,
+  referencePrice: number,
+  liquidity: Liquidity
+): Promise<{ reservedAmount?: string; error?: string }> {
+  if (side === "buy") {
+    const total = estimateBuyCost(wallet, symbol, quantityNum, referencePrice, liquidity);
+    if (getAvailableBalance(wallet) < total) {
+      return { error: "Insufficient balance" };
+    }
+
+    const newReserved = parseFloat(wallet.reservedBalance || "0") + total;
+    await storage.updatePaperWalletReservedBalance(wallet.id, newReserved.toFixed(2));
+    return { reservedAmount: total.toFixed(2) };
+  }
+
+  const existingPosition = await storage.getPaperPositionByWalletAndSymbol(
+    wallet.id,
+    symbol
+  );
+
+  if (!existingPosition) {
+    return { error: "No position to sell" };
+  }
+
+  // Shorts are opened with market orders; resting sells only close longs
+  if (existingPosition.side === "short") {
+    return { error: "Resting sell orders can only close long positions" };
+  }
+
+  if (getAvailableQuantity(existingPosition) < quantityNum) {
+    return { error: "Insufficient position quantity" };
+  }
+
+  const newReserved = parseFloat(existingPosition.reservedQuantity || "0") + quantityNum;
+  await storage.updatePaperPositionReservedQuantity(existingPosition.id, newReserved.toString());
+  return { reservedAmount: quantityNum.toString() };
+}
+
 export async function executeLimitOrder(
   userId: string,
   symbol: string,
@@ -228,49 +766,441 @@ export async function executeLimitOrder(
   price: string,
   stopLoss?: string,
   takeProfit?: string
-): Promise<{ success: boolean; error?: string }> {
-  const wallet = await initializePaperWallet(userId);
+): Promise<{ success: boolean; error?: string; orderId?: string }> {
+  const { id: walletId } = await initializePaperWallet(userId);
   const priceNum = parseFloat(price);
   const quantityNum = parseFloat(quantity);
-  const total = quantityNum * priceNum;
+  const symbolError = await checkSymbolFilters(walletId, symbol, side, quantityNum, [priceNum]);
+  if (symbolError) {
+    return { success: false, error: symbolError };
+  }
 
-  // Validate funds for buy orders
-  if (side === "buy") {
-    const balanceNum = parseFloat(wallet.balance);
+  return storage.withPaperWalletLock(walletId, async (wallet) => {
+    const reservation = await reserveForOrder(wallet, symbol, side, quantityNum, priceNum, "maker");
+    if (reservation.error) {
+      return { success: false, error: reservation.error };
+    }
 
-    if (balanceNum < total) {
-      return { success: false, error: "Insufficient balance" };
+    // For limit orders, only create a pending order - don't execute immediately
+    // The order matching service fills it when a price tick crosses the limit
+    const order = await storage.createPaperOrder({
+      walletId: wallet.id,
+      symbol,
+      side,
+      orderType: "limit",
+      quantity,
+      price,
+      stopLoss: stopLoss || undefined,
+      takeProfit: takeProfit || undefined,
+      reservedAmount: reservation.reservedAmount,
+    });
+
+    return { success: true, orderId: order.id };
+  });
+}
+
+export type StopOrderType = "stop_market" | "stop_limit" | "trailing_stop";
+
+export interface StopOrderParams {
+  symbol: string;
+  side: "buy" | "sell";
+  orderType: StopOrderType;
+  quantity: string;
+  stopPrice?: string;
+  price?: string; // Limit price once a stop_limit triggers
+  trailingAmount?: string;
+  trailingType?: "absolute" | "percent";
+  stopLoss?: string;
+  takeProfit?: string;
+}
+
+/**
+ * Stop level a trailing stop sits at for a given high/low-water mark
+ */
+export function computeTrailingStopPrice(
+  side: "buy" | "sell",
+  waterMark: number,
+  trailingAmount: number,
+  trailingType: "absolute" | "percent"
+): number {
+  const offset = trailingType === "percent" ? waterMark * (trailingAmount / 100) : trailingAmount;
+  return side === "sell" ? waterMark - offset : waterMark + offset;
+}
+
+/**
+ * Place a stop-market, stop-limit or trailing stop paper order
+ */
+export async function executeStopOrder(
+  userId: string,
+  params: StopOrderParams
+): Promise<{ success: boolean; error?: string; orderId?: string }> {
+  const { symbol, side, orderType, quantity, price, stopLoss, takeProfit } = params;
+  const { id: walletId } = await initializePaperWallet(userId);
+  const quantityNum = parseFloat(quantity);
+
+  // Price levels the user chose; a trailing stop's level is derived from the market
+  const levels = [
+    orderType === "trailing_stop" ? undefined : params.stopPrice,
+    orderType === "stop_limit" ? price : undefined,
+  ]
+    .map(level => parseFloat(level || ""))
+    .filter(level => !isNaN(level) && level > 0);
+  const symbolError = await checkSymbolFilters(walletId, symbol, side, quantityNum, levels);
+  if (symbolError) {
+    return { success: false, error: symbolError };
+  }
+  const tradable = getTradablePrice(symbol);
+  if (!tradable.success) {
+    return { success: false, error: tradable.error };
+  }
+  const marketPrice = tradable.price;
+
+  let stopPrice: number;
+  let highWaterMark: number | undefined;
+
+  if (orderType === "trailing_stop") {
+    const trailingAmount = parseFloat(params.trailingAmount || "");
+    const trailingType = params.trailingType || "absolute";
+    if (isNaN(trailingAmount) || trailingAmount <= 0) {
+      return { success: false, error: "Trailing amount must be greater than 0" };
+    }
+    if (trailingType === "percent" && trailingAmount >= 100) {
+      return { success: false, error: "Trailing percent must be below 100" };
     }
-  } else if (side === "sell") {
-    // Validate position for sell orders
-    const existingPosition = await storage.getPaperPositionByWalletAndSymbol(
-      wallet.id,
-      symbol
-    );
 
-    if (!existingPosition) {
-      return { success: false, error: "No position to sell" };
+    highWaterMark = marketPrice;
+    stopPrice = computeTrailingStopPrice(side, marketPrice, trailingAmount, trailingType);
+  } else {
+    stopPrice = parseFloat(params.stopPrice || "");
+    if (isNaN(stopPrice) || stopPrice <= 0) {
+      return { success: false, error: "Stop price must be greater than 0" };
     }
 
-    const existingQty = parseFloat(existingPosition.quantity);
+    // A stop on the wrong side of the market would trigger on the next tick
+    if (side === "sell" && stopPrice >= marketPrice) {
+      return { success: false, error: "Sell stop price must be below the current market price" };
+    }
+    if (side === "buy" && stopPrice <= marketPrice) {
+      return { success: false, error: "Buy stop price must be above the current market price" };
+    }
+  }
 
-    if (existingQty < quantityNum) {
-      return { success: false, error: "Insufficient position quantity" };
+  let limitPrice: number | undefined;
+  if (orderType === "stop_limit") {
+    limitPrice = parseFloat(price || "");
+    if (isNaN(limitPrice) || limitPrice <= 0) {
+      return { success: false, error: "Limit price is required for stop-limit orders" };
     }
   }
 
-  // For limit orders, only create a pending order - don't execute immediately
-  // The order will be executed by the price monitoring service when price matches
-  await storage.createPaperOrder({
-    walletId: wallet.id,
-    symbol,
-    side,
-    orderType: "limit",
-    quantity,
-    price,
-    stopLoss: stopLoss || undefined,
-    takeProfit: takeProfit || undefined,
+  // Buys reserve against the worse of the stop and limit levels
+  const referencePrice = Math.max(stopPrice, limitPrice ?? 0);
+  const liquidity: Liquidity = orderType === "stop_limit" ? "maker" : "taker";
+
+  return storage.withPaperWalletLock(walletId, async (wallet) => {
+    const reservation = await reserveForOrder(wallet, symbol, side, quantityNum, referencePrice, liquidity);
+    if (reservation.error) {
+      return { success: false, error: reservation.error };
+    }
+
+    const order = await storage.createPaperOrder({
+      walletId: wallet.id,
+      symbol,
+      side,
+      orderType,
+      quantity,
+      price: limitPrice !== undefined ? symbolRegistry.formatPrice(symbol, limitPrice) : undefined,
+      stopPrice: orderType === "trailing_stop"
+        ? symbolRegistry.formatPrice(symbol, stopPrice, side === "sell" ? "down" : "up")
+        : symbolRegistry.formatPrice(symbol, stopPrice),
+      trailingAmount: orderType === "trailing_stop" ? params.trailingAmount : undefined,
+      trailingType: orderType === "trailing_stop" ? (params.trailingType || "absolute") : undefined,
+      highWaterMark: highWaterMark !== undefined ? symbolRegistry.formatPrice(symbol, highWaterMark) : undefined,
+      stopLoss: stopLoss || undefined,
+      takeProfit: takeProfit || undefined,
+      reservedAmount: reservation.reservedAmount,
+    });
+
+    return { success: true, orderId: order.id };
+  });
+}
+
+export interface OcoOrderParams {
+  symbol: string;
+  side: "buy" | "sell";
+  quantity: string;
+  price: string; // Limit leg
+  stopPrice: string; // Stop leg trigger
+  stopLimitPrice?: string; // Makes the stop leg a stop-limit
+}
+
+/**
+ * Place a one-cancels-other pair: a limit leg and a stop leg sharing one reservation
+ */
+export async function executeOcoOrder(
+  userId: string,
+  params: OcoOrderParams
+): Promise<{ success: boolean; error?: string; orderIds?: string[] }> {
+  const { symbol, side, quantity } = params;
+  const { id: walletId } = await initializePaperWallet(userId);
+  const quantityNum = parseFloat(quantity);
+  const limitPrice = parseFloat(params.price);
+  const stopPrice = parseFloat(params.stopPrice);
+  const stopLimitPrice = params.stopLimitPrice ? parseFloat(params.stopLimitPrice) : undefined;
+
+  if (isNaN(limitPrice) || limitPrice <= 0 || isNaN(stopPrice) || stopPrice <= 0) {
+    return { success: false, error: "OCO orders need both a limit price and a stop price" };
+  }
+  if (stopLimitPrice !== undefined && (isNaN(stopLimitPrice) || stopLimitPrice <= 0)) {
+    return { success: false, error: "Stop-limit price must be greater than 0" };
+  }
+
+  const levels = stopLimitPrice !== undefined ? [limitPrice, stopPrice, stopLimitPrice] : [limitPrice, stopPrice];
+  const symbolError = await checkSymbolFilters(walletId, symbol, side, quantityNum, levels);
+  if (symbolError) {
+    return { success: false, error: symbolError };
+  }
+  const tradable = getTradablePrice(symbol);
+  if (!tradable.success) {
+    return { success: false, error: tradable.error };
+  }
+  const marketPrice = tradable.price;
+
+  // Sell bracket: take-profit above the market, stop below. Buy bracket is the mirror image.
+  if (side === "sell" && !(limitPrice > marketPrice && stopPrice < marketPrice)) {
+    return { success: false, error: "Sell OCO needs limit price above and stop price below the market price" };
+  }
+  if (side === "buy" && !(limitPrice < marketPrice && stopPrice > marketPrice)) {
+    return { success: false, error: "Buy OCO needs limit price below and stop price above the market price" };
+  }
+
+  const referencePrice = Math.max(limitPrice, stopPrice, stopLimitPrice ?? 0);
+  return storage.withPaperWalletLock(walletId, async (wallet) => {
+    // The stop leg may fill as a taker, so reserve for the costlier side
+    const reservation = await reserveForOrder(wallet, symbol, side, quantityNum, referencePrice, "taker");
+    if (reservation.error) {
+      return { success: false, error: reservation.error };
+    }
+
+    const ocoGroupId = randomUUID();
+
+    // Only the limit leg carries the reservation; whichever leg fills takes it over
+    const limitLeg = await storage.createPaperOrder({
+      walletId: wallet.id,
+      symbol,
+      side,
+      orderType: "limit",
+      quantity,
+      price: symbolRegistry.formatPrice(symbol, limitPrice),
+      ocoGroupId,
+      reservedAmount: reservation.reservedAmount,
+    });
+
+    const stopLeg = await storage.createPaperOrder({
+      walletId: wallet.id,
+      symbol,
+      side,
+      orderType: stopLimitPrice !== undefined ? "stop_limit" : "stop_market",
+      quantity,
+      price: stopLimitPrice !== undefined ? symbolRegistry.formatPrice(symbol, stopLimitPrice) : undefined,
+      stopPrice: symbolRegistry.formatPrice(symbol, stopPrice),
+      ocoGroupId,
+    });
+
+    return { success: true, orderIds: [limitLeg.id, stopLeg.id] };
+  });
+}
+
+/**
+ * Cancel the other legs of an OCO group and release their reservations. A leg that fills
+ * keeps them instead: it has taken the group's reservation over (getOcoSiblingReservation)
+ */
+export async function cancelOcoSiblings(order: PaperOrder, options: { release?: boolean } = {}): Promise<void> {
+  if (!order.ocoGroupId) return;
+
+  const legs = await storage.getPaperOrdersByOcoGroup(order.ocoGroupId);
+  for (const leg of legs) {
+    if (leg.id !== order.id && leg.status === "pending") {
+      await storage.cancelPaperOrder(leg.id);
+      if (options.release !== false) {
+        await releaseOrderReservation(leg);
+      }
+    }
+  }
+}
+
+/**
+ * What the other pending legs of an OCO group hold reserved
+ */
+export async function getOcoSiblingReservation(order: PaperOrder): Promise<number> {
+  if (!order.ocoGroupId) return 0;
+
+  const legs = await storage.getPaperOrdersByOcoGroup(order.ocoGroupId);
+  return legs
+    .filter(leg => leg.id !== order.id && leg.status === "pending")
+    .reduce((sum, leg) => sum + parseFloat(leg.reservedAmount || "0"), 0);
+}
+
+/**
+ * Load a pending order and verify it belongs to the user's wallet (call under the wallet lock)
+ */
+async function getOwnedPendingOrder(
+  userId: string,
+  orderId: string
+): Promise<{ order?: PaperOrder; error?: string; status?: number }> {
+  const order = await storage.getPaperOrderById(orderId);
+  if (!order) {
+    return { error: "Order not found", status: 404 };
+  }
+
+  // Orders in any of the user's portfolios, not just the selected one
+  const wallet = await storage.getPaperWalletById(order.walletId);
+  if (!wallet || wallet.userId !== userId) {
+    return { error: "Forbidden: You can only modify your own orders", status: 403 };
+  }
+
+  if (order.status !== "pending") {
+    return { error: "Only pending orders can be changed", status: 400 };
+  }
+
+  return { order };
+}
+
+/**
+ * Run an order change under its wallet's lock so it can't race a fill
+ */
+async function withOrderWalletLock<T extends { success: boolean; error?: string; status?: number }>(
+  orderId: string,
+  fn: () => Promise<T>
+): Promise<T | { success: false; error: string; status: number }> {
+  const order = await storage.getPaperOrderById(orderId);
+  if (!order) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+  return storage.withPaperWalletLock(order.walletId, fn);
+}
+
+export async function cancelPendingOrder(
+  userId: string,
+  orderId: string
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  return withOrderWalletLock(orderId, async () => {
+    const { order, error, status } = await getOwnedPendingOrder(userId, orderId);
+    if (!order) {
+      return { success: false, error, status };
+    }
+
+    await storage.cancelPaperOrder(orderId);
+    await releaseOrderReservation(order);
+
+    // Cancelling one leg of an OCO cancels the whole bracket
+    await cancelOcoSiblings(order);
+    return { success: true };
   });
+}
+
+export async function amendLimitOrder(
+  userId: string,
+  orderId: string,
+  quantity: string,
+  price: string
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  return withOrderWalletLock(orderId, () => amendOwnedLimitOrder(userId, orderId, quantity, price));
+}
+
+async function amendOwnedLimitOrder(
+  userId: string,
+  orderId: string,
+  quantity: string,
+  price: string
+): Promise<{ success: boolean; error?: string; status?: number }> {
+  const { order, error, status } = await getOwnedPendingOrder(userId, orderId);
+  if (!order) {
+    return { success: false, error, status };
+  }
+
+  if (order.orderType !== "limit" || order.ocoGroupId) {
+    return { success: false, error: "Only standalone limit orders can be edited", status: 400 };
+  }
+
+  if (parseFloat(order.filledQuantity) > 0) {
+    return { success: false, error: "Partially filled orders can't be edited", status: 400 };
+  }
+
+  const quantityNum = parseFloat(quantity);
+  const side = order.side === "sell" ? "sell" : "buy";
+  const symbolError = await checkSymbolFilters(order.walletId, order.symbol, side, quantityNum, [parseFloat(price)]);
+  if (symbolError) {
+    return { success: false, error: symbolError, status: 400 };
+  }
+  const previousReserved = parseFloat(order.reservedAmount || "0");
+
+  if (order.side === "buy") {
+    const wallet = await storage.getPaperWalletById(order.walletId);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found", status: 404 };
+    }
+
+    const newReserved = estimateBuyCost(wallet, order.symbol, quantityNum, parseFloat(price), "maker");
+    if (getAvailableBalance(wallet) + previousReserved < newReserved) {
+      return { success: false, error: "Insufficient balance", status: 400 };
+    }
+
+    const walletReserved = parseFloat(wallet.reservedBalance || "0") - previousReserved + newReserved;
+    await storage.updatePaperWalletReservedBalance(wallet.id, Math.max(0, walletReserved).toFixed(2));
+    await storage.updatePaperOrder(orderId, quantity, price, newReserved.toFixed(2));
+  } else {
+    const position = await storage.getPaperPositionByWalletAndSymbol(order.walletId, order.symbol);
+    if (!position) {
+      return { success: false, error: "No position to sell", status: 400 };
+    }
+
+    if (getAvailableQuantity(position) + previousReserved < quantityNum) {
+      return { success: false, error: "Insufficient position quantity", status: 400 };
+    }
+
+    const positionReserved = parseFloat(position.reservedQuantity || "0") - previousReserved + quantityNum;
+    await storage.updatePaperPositionReservedQuantity(position.id, Math.max(0, positionReserved).toString());
+    await storage.updatePaperOrder(orderId, quantity, price, quantityNum.toString());
+  }
 
   return { success: true };
 }
+
+/**
+ * Close every open position in the user's selected portfolio at market and cancel its
+ * resting orders first, so no reservation holds quantity back (Risk Guard's hard stop)
+ */
+export async function flattenPaperPortfolio(userId: string): Promise<{
+  cancelledOrders: number;
+  closedPositions: { symbol: string; side: string; quantity: string; filledQuantity?: string; error?: string }[];
+}> {
+  const wallet = await initializePaperWallet(userId);
+
+  let cancelledOrders = 0;
+  const orders = await storage.getPaperOrdersByWalletId(wallet.id);
+  for (const order of orders.filter(o => o.status === "pending")) {
+    const result = await cancelPendingOrder(userId, order.id);
+    if (result.success) cancelledOrders++;
+  }
+
+  const closedPositions = [];
+  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  for (const position of positions) {
+    const side = position.side === "short" ? "buy" : "sell";
+    try {
+      const result = await executeMarketOrder(userId, position.symbol, side, position.quantity, undefined, undefined, "risk_stop");
+      closedPositions.push({
+        symbol: position.symbol,
+        side: position.side,
+        quantity: position.quantity,
+        filledQuantity: result.filledQuantity,
+        error: result.error,
+      });
+    } catch (error: any) {
+      closedPositions.push({ symbol: position.symbol, side: position.side, quantity: position.quantity, error: error.message });
+    }
+  }
+
+  return { cancelledOrders, closedPositions };
+}
@@ -1,6 +1,7 @@
 import { db } from "../db";
 import { peaceIndex, focusSessions, stressIndicators, paperOrders, paperWallets } from "@shared/schema";
 import { eq, and, gte, desc } from "drizzle-orm";
+import { getClosedTrades } from "./taxLots";
 
 export class PeaceIndexService {
   // Calculate daily peace score for a user
@@ -18,11 +19,12 @@ export class PeaceIndexService {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    // First, get the user's paper wallet
+    // First, get the user's selected paper wallet
     const [wallet] = await db
       .select()
       .from(paperWallets)
       .where(eq(paperWallets.userId, userId))
+      .orderBy(desc(paperWallets.isSelected), paperWallets.createdAt)
       .limit(1);
 
     if (!wallet) {
@@ -53,16 +55,18 @@ export class PeaceIndexService {
 
     // Calculate metrics
     const tradeFrequency = todayTrades.length;
-    
-    // Calculate P&L
+
+    // P&L and streaks come from the realized P&L ledger, oldest close first
+    const closedToday = await getClosedTrades({ walletId: wallet.id }, today);
+
     let dailyPnL = 0;
     let winStreak = 0;
     let lossStreak = 0;
     let currentStreak = 0;
     let streakType: 'win' | 'loss' | null = null;
 
-    for (const trade of todayTrades.reverse()) {
-      const profit = parseFloat(trade.profit || "0");
+    for (const trade of closedToday) {
+      const profit = trade.realizedPnl;
       dailyPnL += profit;
 
       if (profit > 0) {
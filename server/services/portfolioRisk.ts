@@ -0,0 +1,454 @@
+import { storage } from "../storage";
+import { fetchOHLCVData } from "./binanceService";
+import { getConnectionAdapter } from "./exchangeAdapter";
+import { getPortfolioEquity } from "./paperPortfolios";
+import { marketData } from "./marketData";
+import { mean } from "./quantModels";
+
+/**
+ * Portfolio Risk
+ *
+ * Value-at-Risk, expected shortfall and stress scenarios for the selected paper portfolio
+ * or a connected exchange account, from daily OHLCV history:
+ * - Historical: the book's current exposures replayed over each day of the lookback window;
+ *   VaR is the loss at the confidence quantile and expected shortfall the mean loss beyond it
+ * - Parametric: normal (variance-covariance) VaR and ES from the same returns' means and
+ *   covariances
+ * Both are one-day figures scaled by sqrt(horizonDays). Stress scenarios apply a BTC move
+ * with every other asset moving by a fixed or historical beta to BTC, plus explicit shocks.
+ * Amounts are in the book's quote currency (USD); stablecoins are treated as cash.
+ */
+
+const STABLE_ASSETS = new Set(["USD", "USDT", "USDC", "BUSD", "DAI", "TUSD", "FDUSD"]);
+const MARKET_ASSET = "BTC";
+
+export interface RiskBookPosition {
+  asset: string;
+  quantity: number; // Negative for shorts
+  price: number;
+  exposure: number; // Signed market value
+}
+
+export interface RiskBook {
+  source: "paper" | "live";
+  exchange?: string;
+  value: number; // Equity: cash plus positions
+  positions: RiskBookPosition[];
+  unpriced: string[]; // Assets held with no market price, left out of the figures
+}
+
+export interface RiskEstimate {
+  valueAtRisk: number;
+  expectedShortfall: number;
+  valueAtRiskPercent: number; // Of book value
+  expectedShortfallPercent: number;
+}
+
+export interface RiskMetrics {
+  confidence: number;
+  horizonDays: number;
+  lookbackDays: number;
+  observations: number; // Days of aligned returns used
+  historical: RiskEstimate | null; // Null when there is not enough history
+  parametric: RiskEstimate | null;
+  dailyVolatilityPercent: number | null;
+  missingHistory: string[]; // Assets without price history, left out of the figures
+}
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  description?: string;
+  btcShock: number; // Fractional BTC move (-0.2 = -20%)
+  altBeta: number | "historical"; // How far other assets move per unit of BTC's move
+  shocks?: Record<string, number>; // Explicit moves per asset, overriding the beta
+}
+
+export interface StressResult {
+  scenarioId: string;
+  name: string;
+  pnl: number;
+  pnlPercent: number;
+  valueAfter: number;
+  positions: { asset: string; shock: number; pnl: number }[];
+}
+
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: "btc_-20_alts_1.5",
+    name: "BTC -20%, alts beta 1.5",
+    description: "A sharp BTC sell-off with altcoins falling one and a half times as far",
+    btcShock: -0.2,
+    altBeta: 1.5,
+  },
+  {
+    id: "btc_-10_historical_beta",
+    name: "BTC -10%, historical betas",
+    description: "A BTC pullback with every asset moving by its measured beta to BTC",
+    btcShock: -0.1,
+    altBeta: "historical",
+  },
+  {
+    id: "covid_march_2020",
+    name: "COVID crash (March 2020)",
+    description: "BTC fell about 39% on 12-13 March 2020 and most altcoins fell further",
+    btcShock: -0.39,
+    altBeta: 1.2,
+  },
+  {
+    id: "ftx_november_2022",
+    name: "FTX collapse (November 2022)",
+    description: "BTC fell about 22% in a week; SOL, closest to FTX, lost more than half its value",
+    btcShock: -0.22,
+    altBeta: 1.3,
+    shocks: { SOL: -0.55 },
+  },
+  {
+    id: "alt_season_reversal",
+    name: "Altcoin flush",
+    description: "BTC holds up while altcoins unwind",
+    btcShock: -0.05,
+    altBeta: 1,
+    shocks: { ETH: -0.25, SOL: -0.35, XRP: -0.3, ADA: -0.35, DOGE: -0.4 },
+  },
+];
+
+type RiskResult<T> = { success: boolean; error?: string; status?: number } & Partial<T>;
+
+// ==================== Book ====================
+
+export async function getPaperBook(userId: string): Promise<RiskBook | null> {
+  const wallet = await storage.getPaperWalletByUserId(userId);
+  if (!wallet) return null;
+
+  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  const bookPositions: RiskBookPosition[] = [];
+  const unpriced: string[] = [];
+  for (const position of positions) {
+    const price = marketData.getPrice(position.symbol);
+    if (price === null) {
+      unpriced.push(position.symbol);
+      continue;
+    }
+    const quantity = parseFloat(position.quantity) * (position.side === "short" ? -1 : 1);
+    bookPositions.push({ asset: position.symbol.toUpperCase(), quantity, price, exposure: quantity * price });
+  }
+
+  return {
+    source: "paper",
+    value: getPortfolioEquity(wallet, positions),
+    positions: bookPositions,
+    unpriced,
+  };
+}
+
+export async function getLiveBook(userId: string, exchange?: string): Promise<RiskBook | null> {
+  const connections = await storage.getExchangeConnectionsByUserId(userId);
+  const connection = connections.find(c => c.isActive && (!exchange || c.exchange === exchange));
+  if (!connection) return null;
+
+  const account = await getConnectionAdapter(connection).getAccount();
+  const positions: RiskBookPosition[] = [];
+  const unpriced: string[] = [];
+  let cash = 0;
+
+  for (const balance of account.balances) {
+    const quantity = parseFloat(balance.free) + parseFloat(balance.locked);
+    if (!(quantity > 0)) continue;
+
+    const asset = balance.asset.toUpperCase();
+    if (STABLE_ASSETS.has(asset)) {
+      cash += quantity;
+      continue;
+    }
+    const price = marketData.getPrice(asset);
+    if (price === null) {
+      unpriced.push(asset);
+      continue;
+    }
+    positions.push({ asset, quantity, price, exposure: quantity * price });
+  }
+
+  return {
+    source: "live",
+    exchange: connection.exchange,
+    value: cash + positions.reduce((sum, p) => sum + p.exposure, 0),
+    positions,
+    unpriced,
+  };
+}
+
+// ==================== Statistics ====================
+
+/**
+ * Daily simple returns per asset over the lookback window, aligned on the days every asset has
+ */
+export async function getAlignedReturns(
+  assets: string[],
+  lookbackDays: number
+): Promise<{ returns: Record<string, number[]>; missing: string[] }> {
+  const closesByAsset = new Map<string, Map<number, number>>();
+  const missing: string[] = [];
+
+  for (const asset of assets) {
+    try {
+      const candles = await fetchOHLCVData(asset, "1d", lookbackDays + 1);
+      if (candles.length < 2) {
+        missing.push(asset);
+        continue;
+      }
+      closesByAsset.set(asset, new Map(candles.map(c => [c.time, c.close])));
+    } catch {
+      missing.push(asset);
+    }
+  }
+
+  const available = Array.from(closesByAsset.keys());
+  if (available.length === 0) {
+    return { returns: {}, missing };
+  }
+
+  // Days present for every asset, oldest first
+  const days = Array.from(closesByAsset.get(available[0])!.keys())
+    .filter(day => available.every(asset => closesByAsset.get(asset)!.has(day)))
+    .sort((a, b) => a - b)
+    .slice(-(lookbackDays + 1));
+
+  const returns: Record<string, number[]> = {};
+  for (const asset of available) {
+    const closes = days.map(day => closesByAsset.get(asset)!.get(day)!);
+    returns[asset] = closes.slice(1).map((close, i) => close / closes[i] - 1);
+  }
+  return { returns, missing };
+}
+
+function covariance(a: number[], b: number[]): number {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+// Standard normal density
+function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+ */
+export function normalQuantile(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function toEstimate(valueAtRisk: number, expectedShortfall: number, bookValue: number): RiskEstimate {
+  return {
+    valueAtRisk,
+    expectedShortfall,
+    valueAtRiskPercent: bookValue > 0 ? (valueAtRisk / bookValue) * 100 : 0,
+    expectedShortfallPercent: bookValue > 0 ? (expectedShortfall / bookValue) * 100 : 0,
+  };
+}
+
+// ==================== VaR and ES ====================
+
+/**
+ * Historical and parametric VaR/ES for a book
+ */
+export async function computeRiskMetrics(
+  book: RiskBook,
+  options: { confidence?: number; lookbackDays?: number; horizonDays?: number } = {}
+): Promise<RiskMetrics> {
+  const confidence = options.confidence ?? 0.95;
+  const lookbackDays = options.lookbackDays ?? 90;
+  const horizonDays = options.horizonDays ?? 1;
+  const scale = Math.sqrt(horizonDays);
+
+  const exposures = new Map<string, number>();
+  for (const position of book.positions) {
+    exposures.set(position.asset, (exposures.get(position.asset) ?? 0) + position.exposure);
+  }
+
+  const { returns, missing } = await getAlignedReturns(Array.from(exposures.keys()), lookbackDays);
+  const assets = Object.keys(returns);
+  const observations = assets.length > 0 ? returns[assets[0]].length : 0;
+
+  const empty: RiskMetrics = {
+    confidence,
+    horizonDays,
+    lookbackDays,
+    observations,
+    historical: null,
+    parametric: null,
+    dailyVolatilityPercent: null,
+    missingHistory: missing,
+  };
+  if (exposures.size === 0) {
+    // A flat book risks nothing
+    return { ...empty, historical: toEstimate(0, 0, book.value), parametric: toEstimate(0, 0, book.value), dailyVolatilityPercent: 0 };
+  }
+  if (observations < 10) {
+    return empty;
+  }
+
+  // Historical: the book's P&L on each day of the window, worst first
+  const pnl = Array.from({ length: observations }, (_, day) =>
+    assets.reduce((sum, asset) => sum + exposures.get(asset)! * returns[asset][day], 0)
+  ).sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.ceil(observations * (1 - confidence)));
+  const historicalVar = Math.max(0, -pnl[tailCount - 1]) * scale;
+  const historicalEs = Math.max(0, -mean(pnl.slice(0, tailCount))) * scale;
+
+  // Parametric: P&L ~ N(e·mu, e'Σe)
+  const meanPnl = assets.reduce((sum, asset) => sum + exposures.get(asset)! * mean(returns[asset]), 0);
+  let variance = 0;
+  for (const a of assets) {
+    for (const b of assets) {
+      variance += exposures.get(a)! * exposures.get(b)! * covariance(returns[a], returns[b]);
+    }
+  }
+  const sigma = Math.sqrt(Math.max(variance, 0));
+  const z = normalQuantile(confidence);
+  const parametricVar = Math.max(0, z * sigma * scale - meanPnl * horizonDays);
+  const parametricEs = Math.max(0, (sigma * normalPdf(z)) / (1 - confidence) * scale - meanPnl * horizonDays);
+
+  return {
+    ...empty,
+    historical: toEstimate(historicalVar, historicalEs, book.value),
+    parametric: toEstimate(parametricVar, parametricEs, book.value),
+    dailyVolatilityPercent: book.value > 0 ? (sigma / book.value) * 100 : null,
+  };
+}
+
+// ==================== Stress ====================
+
+/**
+ * Revalue a book under each scenario
+ */
+export async function runStressScenarios(
+  book: RiskBook,
+  scenarios: StressScenario[] = STRESS_SCENARIOS,
+  lookbackDays: number = 90
+): Promise<StressResult[]> {
+  // Historical betas only when a scenario asks for them
+  let betas: Record<string, number> = {};
+  if (scenarios.some(s => s.altBeta === "historical")) {
+    const assets = Array.from(new Set([MARKET_ASSET, ...book.positions.map(p => p.asset)]));
+    const { returns } = await getAlignedReturns(assets, lookbackDays);
+    const market = returns[MARKET_ASSET];
+    if (market) {
+      const marketVariance = covariance(market, market);
+      betas = Object.fromEntries(
+        Object.entries(returns).map(([asset, series]) => [
+          asset,
+          marketVariance > 0 ? covariance(series, market) / marketVariance : 1,
+        ])
+      );
+    }
+  }
+
+  return scenarios.map(scenario => {
+    const positions = book.positions.map(position => {
+      const beta = scenario.altBeta === "historical" ? betas[position.asset] ?? 1 : scenario.altBeta;
+      const shock = scenario.shocks?.[position.asset]
+        ?? (position.asset === MARKET_ASSET ? scenario.btcShock : scenario.btcShock * beta);
+      return { asset: position.asset, shock, pnl: position.exposure * shock };
+    });
+    const pnl = positions.reduce((sum, p) => sum + p.pnl, 0);
+
+    return {
+      scenarioId: scenario.id,
+      name: scenario.name,
+      pnl,
+      pnlPercent: book.value > 0 ? (pnl / book.value) * 100 : 0,
+      valueAfter: book.value + pnl,
+      positions,
+    };
+  });
+}
+
+// ==================== Entry points ====================
+
+async function loadBook(userId: string, source: "paper" | "live", exchange?: string): Promise<RiskResult<{ book: RiskBook }>> {
+  try {
+    const book = source === "live" ? await getLiveBook(userId, exchange) : await getPaperBook(userId);
+    if (!book) {
+      return {
+        success: false,
+        error: source === "live" ? "No active exchange connection found" : "Paper wallet not found",
+        status: 404,
+      };
+    }
+    return { success: true, book };
+  } catch (error: any) {
+    return { success: false, error: error.message || "Failed to load the portfolio", status: 502 };
+  }
+}
+
+/**
+ * VaR, expected shortfall and the built-in stress scenarios for a user's book
+ */
+export async function getPortfolioRisk(
+  userId: string,
+  options: { source: "paper" | "live"; exchange?: string; confidence: number; lookbackDays: number; horizonDays: number }
+): Promise<RiskResult<{ book: RiskBook; metrics: RiskMetrics; stress: StressResult[] }>> {
+  const { book, ...loaded } = await loadBook(userId, options.source, options.exchange);
+  if (!book) return loaded;
+
+  const metrics = await computeRiskMetrics(book, options);
+  const stress = await runStressScenarios(book, STRESS_SCENARIOS, options.lookbackDays);
+  return { success: true, book, metrics, stress };
+}
+
+/**
+ * Run the given (or built-in) stress scenarios against a user's book
+ */
+export async function stressPortfolio(
+  userId: string,
+  options: { source: "paper" | "live"; exchange?: string; scenarios?: StressScenario[] }
+): Promise<RiskResult<{ book: RiskBook; stress: StressResult[] }>> {
+  const { book, ...loaded } = await loadBook(userId, options.source, options.exchange);
+  if (!book) return loaded;
+
+  const stress = await runStressScenarios(book, options.scenarios?.length ? options.scenarios : STRESS_SCENARIOS);
+  return { success: true, book, stress };
+}
+
+/**
+ * One-day historical VaR of a paper book after adding an order's exposure, as % of book value
+ * (null when there is not enough history to tell)
+ */
+export async function getPaperVarPercentWithOrder(
+  userId: string,
+  asset: string,
+  exposure: number,
+  confidence: number = 0.95
+): Promise<number | null> {
+  const book = await getPaperBook(userId);
+  if (!book || book.value <= 0) return null;
+
+  const price = marketData.getPrice(asset) ?? 0;
+  const withOrder: RiskBook = {
+    ...book,
+    positions: [...book.positions, { asset: asset.toUpperCase(), quantity: price > 0 ? exposure / price : 0, price, exposure }],
+  };
+  const metrics = await computeRiskMetrics(withOrder, { confidence });
+  return metrics.historical?.valueAtRiskPercent ?? null;
+}
@@ -1,59 +1,225 @@
 import { storage } from "../storage";
-import { getMarketPrice } from "./paperTrading";
+import type { PaperPosition, PaperWallet } from "@shared/schema";
+import {
+  applyBuyFill,
+  applySellFill,
+  recordClosedTrade,
+  journalClosedTrade,
+  releaseOrderReservation,
+  type ClosedFill,
+} from "./paperTrading";
+import { marketData } from "./marketData";
+import { quoteExecution } from "./executionModel";
+import { riskGuardService } from "../riskGuardService";
+import { userEvents } from "./userEvents";
+import { notificationService } from "./notifications";
 
-export async function checkStopLossTakeProfit(userId: string): Promise<void> {
-  const wallet = await storage.getPaperWalletByUserId(userId);
-  if (!wallet) return;
+/**
+ * Stop-Loss / Take-Profit Monitor
+ *
+ * Enforces protective levels on every wallet's open positions:
+ * - Driven by price ticks, not a per-user polling interval
+ * - Only symbols with at least one protected position are scanned
+ * - Triggered exits are logged to the order history (closedBy) and the AI Trade Journal
+ * - Triggered exits are pushed to the position's owner as user events and sent as notifications
+ */
+export class StopLossTakeProfitMonitor {
+  private protectedSymbols = new Set<string>();
+  private latestPrices = new Map<string, number>();
+  private inFlight = new Set<string>();
+  private resyncInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
 
-  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  async start(resyncIntervalMs: number = 60000): Promise<void> {
+    if (this.resyncInterval) {
+      return; // Already monitoring
+    }
+
+    await this.resyncProtectedSymbols();
+    this.unsubscribe = marketData.onQuote(quote => {
+      // Never trigger on a stale quote; wait for the feed to deliver a live one
+      if (!quote.stale) this.handleTick(quote.symbol, quote.price);
+    });
+
+    // Picks up protected positions opened by paths that don't call trackSymbol
+    this.resyncInterval = setInterval(() => {
+      this.resyncProtectedSymbols().catch(error => {
+        console.error("[SL/TP MONITOR] Error resyncing protected symbols:", error);
+      });
+    }, resyncIntervalMs);
+
+    console.log(`[SL/TP MONITOR] Started - watching ${this.protectedSymbols.size} symbol(s) with protective levels`);
+  }
+
+  stop(): void {
+    if (this.resyncInterval) {
+      clearInterval(this.resyncInterval);
+      this.resyncInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Start watching a symbol after a position gets a stop-loss or take-profit
+   */
+  trackSymbol(symbol: string): void {
+    this.protectedSymbols.add(symbol.toUpperCase());
+  }
+
+  private async resyncProtectedSymbols(): Promise<void> {
+    const positions = await storage.getProtectedPaperPositions();
+    positions.forEach(position => this.protectedSymbols.add(position.symbol.toUpperCase()));
+  }
+
+  private handleTick(symbol: string, price: number): void {
+    if (!this.protectedSymbols.has(symbol)) return;
+
+    this.latestPrices.set(symbol, price);
+
+    // A scan already running will pick up the newest price when it loops
+    if (this.inFlight.has(symbol)) return;
+
+    this.checkSymbol(symbol).catch(error => {
+      console.error(`[SL/TP MONITOR] Error checking ${symbol}:`, error);
+    });
+  }
+
+  private async checkSymbol(symbol: string): Promise<void> {
+    this.inFlight.add(symbol);
+
+    try {
+      let price: number | undefined;
+
+      while (price !== this.latestPrices.get(symbol)) {
+        price = this.latestPrices.get(symbol)!;
+
+        const positions = await storage.getProtectedPaperPositions(symbol);
+        if (positions.length === 0) {
+          this.protectedSymbols.delete(symbol);
+          return;
+        }
 
-  for (const position of positions) {
-    const currentPrice = getMarketPrice(position.symbol);
+        for (const position of positions) {
+          await this.checkPosition(position, price);
+        }
+      }
+    } finally {
+      this.inFlight.delete(symbol);
+    }
+  }
+
+  private async checkPosition(position: PaperPosition, currentPrice: number): Promise<void> {
     const stopLoss = position.stopLoss ? parseFloat(position.stopLoss) : null;
     const takeProfit = position.takeProfit ? parseFloat(position.takeProfit) : null;
 
-    if (stopLoss && currentPrice <= stopLoss) {
+    // Shorts lose as price rises: their stop sits above the market and their target below
+    const isShort = position.side === "short";
+    const stopHit = stopLoss !== null && (isShort ? currentPrice >= stopLoss : currentPrice <= stopLoss);
+    const targetHit = takeProfit !== null && (isShort ? currentPrice <= takeProfit : currentPrice >= takeProfit);
+
+    if (stopHit) {
       console.log(`🛡️ STOP-LOSS TRIGGERED! ${position.symbol} hit $${currentPrice} (SL: $${stopLoss})`);
-      await executeTriggerOrder(position.id, wallet, position.symbol, position.quantity, currentPrice, "stop_loss");
-    } else if (takeProfit && currentPrice >= takeProfit) {
+      await this.executeTriggerOrder(position, currentPrice, "stop_loss");
+    } else if (targetHit) {
       console.log(`🎯 TAKE-PROFIT TRIGGERED! ${position.symbol} hit $${currentPrice} (TP: $${takeProfit})`);
-      await executeTriggerOrder(position.id, wallet, position.symbol, position.quantity, currentPrice, "take_profit");
+      await this.executeTriggerOrder(position, currentPrice, "take_profit");
     }
   }
-}
 
-async function executeTriggerOrder(
-  positionId: string,
-  wallet: any,
-  symbol: string,
-  quantity: string,
-  price: number,
-  closedBy: "stop_loss" | "take_profit"
-): Promise<void> {
-  const quantityNum = parseFloat(quantity);
-  const total = quantityNum * price;
-
-  const balanceNum = parseFloat(wallet.balance);
-  const newBalance = (balanceNum + total).toFixed(2);
-  await storage.updatePaperWalletBalance(wallet.id, newBalance);
-
-  await storage.createPaperOrder({
-    walletId: wallet.id,
-    symbol,
-    side: "sell",
-    orderType: "market",
-    quantity,
-    price: price.toFixed(2),
-    closedBy,
-  });
-
-  await storage.deletePaperPosition(positionId);
-  
-  console.log(`✅ Auto-sold ${quantity} ${symbol} @ $${price} via ${closedBy.toUpperCase()} | New balance: $${newBalance}`);
-}
+  private async executeTriggerOrder(
+    position: PaperPosition,
+    price: number,
+    closedBy: "stop_loss" | "take_profit"
+  ): Promise<void> {
+    const wallet = await storage.getPaperWalletById(position.walletId);
+    if (!wallet) return;
 
-export function startPriceMonitoring(userId: string, intervalMs: number = 5000): NodeJS.Timeout {
-  return setInterval(() => {
-    checkStopLossTakeProfit(userId).catch(console.error);
-  }, intervalMs);
+    // Runs under the wallet lock so a manual sell or a limit fill can't close the same quantity
+    const result = await storage.withPaperWalletLock(wallet.id, async (lockedWallet) => {
+      const current = await storage.getPaperPositionByWalletAndSymbol(wallet.id, position.symbol);
+      if (!current || current.id !== position.id) {
+        return null; // Closed elsewhere since this scan loaded it
+      }
+      return this.closePosition(lockedWallet, current, price, closedBy);
+    });
+
+    if (!result) return;
+
+    userEvents.publish(wallet.userId, "order_triggered", {
+      orderId: result.orderId,
+      symbol: position.symbol,
+      trigger: closedBy,
+      price: result.fillPrice.toFixed(8),
+      quantity: result.fillQuantity.toString(),
+    });
+
+    const label = closedBy === "stop_loss" ? "Stop-loss" : "Take-profit";
+    const pnl = result.closed ? ` (P&L $${result.closed.realizedPnl.toFixed(2)})` : "";
+    await notificationService.notify(wallet.userId, {
+      category: "order_trigger",
+      title: `${label} hit on ${position.symbol}`,
+      body: `Closed ${result.fillQuantity} ${position.symbol} at $${result.fillPrice.toFixed(2)}${pnl}`,
+      data: { orderId: result.orderId, symbol: position.symbol, trigger: closedBy, price: result.fillPrice, quantity: result.fillQuantity },
+      dedupeKey: `${closedBy}:${result.orderId}`,
+    });
+
+    if (result.closed) {
+      await journalClosedTrade(wallet.userId, result.orderId, position.symbol, result.closed);
+      await riskGuardService.recordClosedTrade(wallet.userId, wallet.id);
+    }
+  }
+
+  private async closePosition(
+    wallet: PaperWallet,
+    position: PaperPosition,
+    price: number,
+    closedBy: "stop_loss" | "take_profit"
+  ): Promise<{ orderId: string; closed: ClosedFill | null; fillPrice: number; fillQuantity: number }> {
+    // Resting orders on the closing side (sells on a long, buys on a short) can't fill once it is closed
+    const closingSide = position.side === "short" ? "buy" : "sell";
+    const pendingOrders = await storage.getPendingPaperOrders(position.symbol);
+    for (const order of pendingOrders) {
+      if (order.walletId === wallet.id && order.side === closingSide) {
+        await storage.cancelPaperOrder(order.id);
+        await releaseOrderReservation(order);
+      }
+    }
+
+    // Exits go out as market orders; with partial fills on, whatever is left stays protected
+    const quantityNum = parseFloat(position.quantity);
+    const quote = quoteExecution(wallet, position.symbol, closingSide, quantityNum, price, "taker");
+    const closed = closingSide === "sell"
+      ? await applySellFill(wallet, position, quote.fillQuantity, quote.fillPrice, quote.fee)
+      : await applyBuyFill(wallet, position.symbol, quote.fillQuantity, quote.fillPrice, quote.fee);
+
+    const order = await storage.createPaperOrder({
+      walletId: wallet.id,
+      symbol: position.symbol,
+      side: closingSide,
+      orderType: "market",
+      quantity: position.quantity,
+      price: price.toFixed(8),
+      status: quote.fillQuantity < quantityNum ? "partially_filled" : "completed",
+      closedBy,
+      filledPrice: quote.fillPrice.toFixed(8),
+      filledQuantity: quote.fillQuantity.toString(),
+      filledAt: new Date(),
+      liquidity: quote.liquidity,
+      fee: quote.fee.toFixed(8),
+      slippage: quote.slippage.toFixed(8),
+    });
+
+    if (closed) {
+      await recordClosedTrade(wallet.userId, order.id, position.symbol, closed);
+    }
+
+    console.log(
+      `✅ Auto-${closingSide === "sell" ? "sold" : "covered"} ${quote.fillQuantity} ${position.symbol} @ $${quote.fillPrice.toFixed(2)} ` +
+      `via ${closedBy.toUpperCase()} for user ${wallet.userId}`
+    );
+    return { orderId: order.id, closed, fillPrice: quote.fillPrice, fillQuantity: quote.fillQuantity };
+  }
 }
+
+export const stopLossTakeProfitMonitor = new StopLossTakeProfitMonitor();
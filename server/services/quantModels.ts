@@ -0,0 +1,228 @@
+/**
+ * Quant Models
+ *
+ * Deterministic estimators behind the volatility, correlation and position sizing tools,
+ * so the same price history always gives the same numbers. The LLM explains these figures;
+ * it does not produce them.
+ * - Volatility: GARCH(1,1) fitted by maximum likelihood on a parameter grid (variance
+ *   targeting keeps the long-run variance at the sample variance), with RiskMetrics EWMA
+ *   (lambda 0.94) when the history is short or the fit degenerates
+ * - Correlation: Pearson on returns and Spearman on their ranks
+ * - Sizing: the Kelly fraction from win rate and payoff, and fixed-fractional sizing that
+ *   risks a set share of equity between entry and stop
+ * Returns are fractions (0.01 = 1%) per candle; volatilities are standard deviations.
+ */
+
+export interface GarchParams {
+  omega: number;
+  alpha: number;
+  beta: number;
+  longRunVariance: number;
+}
+
+export interface VolatilityEstimate {
+  model: "garch" | "ewma";
+  params?: GarchParams;
+  lambda?: number;
+  nextVariance: number; // One candle ahead
+  longRunVariance: number;
+}
+
+const EWMA_LAMBDA = 0.94;
+const MIN_GARCH_OBSERVATIONS = 60;
+
+export function logReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0 && closes[i] > 0) {
+      returns.push(Math.log(closes[i] / closes[i - 1]));
+    }
+  }
+  return returns;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function sampleVariance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+// ==================== Volatility ====================
+
+/**
+ * RiskMetrics EWMA variance one candle past the end of the series
+ */
+export function ewmaVariance(returns: number[], lambda: number = EWMA_LAMBDA): number {
+  if (returns.length === 0) return 0;
+  let variance = sampleVariance(returns.slice(0, Math.min(returns.length, 20))) || returns[0] ** 2;
+  for (const r of returns) {
+    variance = lambda * variance + (1 - lambda) * r * r;
+  }
+  return variance;
+}
+
+function garchLogLikelihood(returns: number[], omega: number, alpha: number, beta: number, initialVariance: number): number {
+  let variance = initialVariance;
+  let logLikelihood = 0;
+  for (const r of returns) {
+    if (!(variance > 0)) return -Infinity;
+    logLikelihood -= Math.log(variance) + (r * r) / variance;
+    variance = omega + alpha * r * r + beta * variance;
+  }
+  return logLikelihood / 2;
+}
+
+/**
+ * Fit GARCH(1,1) to demeaned returns; null when there is too little history or the
+ * series is flat. Integrated fits (alpha + beta = 1) are left to EWMA, which assumes them.
+ */
+export function fitGarch(returns: number[]): GarchParams | null {
+  if (returns.length < MIN_GARCH_OBSERVATIONS) return null;
+
+  const m = mean(returns);
+  const residuals = returns.map(r => r - m);
+  const longRunVariance = sampleVariance(returns);
+  if (!(longRunVariance > 0)) return null;
+
+  let best: GarchParams | null = null;
+  let bestLikelihood = -Infinity;
+  // Grid in whole percent: alpha 0.01-0.30, beta 0.50-0.98
+  for (let a = 1; a <= 30; a++) {
+    for (let b = 50; b <= 98; b++) {
+      if (a + b >= 100) continue;
+      const alpha = a / 100;
+      const beta = b / 100;
+      const omega = longRunVariance * (1 - alpha - beta);
+      const likelihood = garchLogLikelihood(residuals, omega, alpha, beta, longRunVariance);
+      if (likelihood > bestLikelihood) {
+        bestLikelihood = likelihood;
+        best = { omega, alpha, beta, longRunVariance };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Next-candle variance: GARCH(1,1) when it fits, EWMA otherwise
+ */
+export function estimateVolatility(returns: number[]): VolatilityEstimate {
+  const params = fitGarch(returns);
+  if (params) {
+    const m = mean(returns);
+    let variance = params.longRunVariance;
+    for (const r of returns) {
+      variance = params.omega + params.alpha * (r - m) ** 2 + params.beta * variance;
+    }
+    return { model: "garch", params, nextVariance: variance, longRunVariance: params.longRunVariance };
+  }
+
+  return {
+    model: "ewma",
+    lambda: EWMA_LAMBDA,
+    nextVariance: ewmaVariance(returns),
+    longRunVariance: sampleVariance(returns),
+  };
+}
+
+/**
+ * Variance of the total return over the next `steps` candles. GARCH forecasts revert
+ * towards the long-run variance at rate alpha + beta; EWMA forecasts are flat.
+ */
+export function forecastVariance(estimate: VolatilityEstimate, steps: number): number {
+  if (estimate.model === "ewma" || !estimate.params) {
+    return estimate.nextVariance * steps;
+  }
+
+  const persistence = estimate.params.alpha + estimate.params.beta;
+  let total = 0;
+  for (let k = 0; k < steps; k++) {
+    total += estimate.longRunVariance + persistence ** k * (estimate.nextVariance - estimate.longRunVariance);
+  }
+  return total;
+}
+
+// ==================== Correlation ====================
+
+export function pearsonCorrelation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) return null;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  if (varianceA === 0 || varianceB === 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+// Ranks from 1, ties sharing their average rank
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value);
+  const result = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+export function spearmanCorrelation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) return null;
+  return pearsonCorrelation(ranks(a.slice(0, n)), ranks(b.slice(0, n)));
+}
+
+/**
+ * Pairwise correlations of aligned return series; entries are null where a series is flat
+ */
+export function correlationMatrix(
+  returns: Record<string, number[]>,
+  method: "pearson" | "spearman"
+): { assets: string[]; matrix: (number | null)[][] } {
+  const assets = Object.keys(returns);
+  const correlate = method === "pearson" ? pearsonCorrelation : spearmanCorrelation;
+  const matrix = assets.map((a, i) =>
+    assets.map((b, j) => (i === j ? 1 : correlate(returns[a], returns[b])))
+  );
+  return { assets, matrix };
+}
+
+// ==================== Sizing ====================
+
+/**
+ * Kelly fraction of equity for a strategy winning `winRate` (0-1) of the time with
+ * average win / average loss of `payoffRatio`; 0 when the edge is negative
+ */
+export function kellyFraction(winRate: number, payoffRatio: number): number {
+  if (!(payoffRatio > 0)) return 0;
+  return Math.max(0, winRate - (1 - winRate) / payoffRatio);
+}
+
+/**
+ * Position that loses `riskFraction` of equity if the stop is hit
+ */
+export function fixedFractionalSize(
+  equity: number,
+  riskFraction: number,
+  entryPrice: number,
+  stopPrice: number
+): { positionValue: number; quantity: number; stopDistance: number } | null {
+  const stopDistance = Math.abs(entryPrice - stopPrice) / entryPrice;
+  if (!(entryPrice > 0) || !(stopDistance > 0)) return null;
+  const positionValue = (equity * riskFraction) / stopDistance;
+  return { positionValue, quantity: positionValue / entryPrice, stopDistance };
+}
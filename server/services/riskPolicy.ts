@@ -0,0 +1,565 @@
+import { storage } from "../storage";
+import type { User, RiskGuardSettings, PaperWallet, PaperPosition } from "@shared/schema";
+import { equityTracker, type PnlSummary } from "./equityHistory";
+import { getPortfolioEquity } from "./paperPortfolios";
+import { getAvailableBalance } from "./paperTrading";
+import { marketData } from "./marketData";
+import { getPaperVarPercentWithOrder } from "./portfolioRisk";
+
+/**
+ * Risk Policy Engine
+ *
+ * The one pre-trade risk check. Paper orders, live exchange pre-checks, AI suggestion
+ * execution and the precheck endpoints all evaluate orders here, so the same trade gets
+ * the same answer everywhere:
+ * - Rules are named (RISK_RULES) and measure against one portfolio snapshot, with the order
+ *   valued at its limit/trigger price or the current market price. Paper and AI orders use
+ *   the selected paper portfolio marked to market; live orders use the exchange account they
+ *   are placed from (LivePortfolio), valued by the caller
+ * - The user's archetype picks the rule set (RULE_SETS): how hard each rule is enforced and
+ *   how close to a limit a warning starts. Loss limits block only when the user enforces
+ *   them; with Risk Guard's auto-pause turned off every rule but the pause itself only warns
+ * - The optional VaR limit revalues the portfolio's one-day historical VaR with the order
+ *   added (see portfolioRisk) and, like the loss limits, blocks only when enforced
+ * - Only orders that add exposure are checked; closing or reducing a position is always allowed
+ * - Without a portfolio value (an empty or unreadable account) only the dollar position cap
+ *   applies; the percentage limits have nothing to measure against
+ * Loss limits and the pause follow Risk Guard's paper P&L on every channel; the VaR limit is
+ * paper-only.
+ */
+
+export type RiskRuleId =
+  | "trading_paused"
+  | "cooldown"
+  | "balance"
+  | "position_size"
+  | "max_open_positions"
+  | "concentration"
+  | "daily_loss"
+  | "monthly_loss"
+  | "drawdown"
+  | "var_limit";
+
+export type RiskSeverity = "block" | "warn";
+export type RiskArchetype = "guardian" | "adaptive" | "custom";
+export type RiskChannel = "paper" | "live" | "ai_suggestion";
+
+export interface RiskFinding {
+  ruleId: RiskRuleId;
+  severity: RiskSeverity;
+  message: string;
+  mitigation?: string;
+  maxQuantity?: number; // Largest quantity this rule would allow
+}
+
+export interface RiskPolicyResult {
+  allowed: boolean;
+  archetype: RiskArchetype;
+  reason?: string; // First blocking finding
+  mitigation?: string;
+  findings: RiskFinding[];
+  violations: string[]; // Messages of blocking findings
+  warnings: string[]; // Messages of warnings
+  riskScore: number; // 0-100
+  estimatedCost: number;
+  estimatedFees: number;
+  portfolioImpact: number; // Order value as % of portfolio
+  concentration: number; // Asset exposure after the order as % of portfolio
+}
+
+export interface RiskOrder {
+  symbol: string; // Paper symbol, or exchange pair for live orders
+  asset?: string; // Base asset when symbol is an exchange pair (BTC for BTCUSDT)
+  side: "buy" | "sell";
+  quantity: number;
+  price: number; // Limit/trigger price, or the current market price
+  channel: RiskChannel;
+  portfolio?: LivePortfolio; // Live orders: the exchange account; absent when it couldn't be read
+}
+
+// An exchange account marked to market in dollars
+export interface LivePortfolio {
+  value: number;
+  assetValues: Record<string, number>; // Non-cash holdings worth counting, by base asset
+}
+
+// 'enforced' blocks when the user enforces the matching limit and warns otherwise
+type RuleMode = "block" | "warn" | "enforced" | "off";
+
+interface RuleSet {
+  rules: Record<RiskRuleId, RuleMode>;
+  warnAt: number | null; // Fraction of a sizing limit where a warning starts
+}
+
+export const RULE_SETS: Record<RiskArchetype, RuleSet> = {
+  // Strictest: every sizing limit blocks, with warnings from 80% of a limit
+  guardian: {
+    rules: {
+      trading_paused: "block",
+      cooldown: "block",
+      balance: "block",
+      position_size: "block",
+      max_open_positions: "block",
+      concentration: "block",
+      daily_loss: "enforced",
+      monthly_loss: "enforced",
+      drawdown: "warn",
+      var_limit: "enforced",
+    },
+    warnAt: 0.8,
+  },
+  // Position size blocks; spreading across more positions or assets only warns
+  adaptive: {
+    rules: {
+      trading_paused: "block",
+      cooldown: "block",
+      balance: "block",
+      position_size: "block",
+      max_open_positions: "warn",
+      concentration: "warn",
+      daily_loss: "enforced",
+      monthly_loss: "enforced",
+      drawdown: "warn",
+      var_limit: "enforced",
+    },
+    warnAt: 0.9,
+  },
+  // The user's own limits: sizing warns, loss limits follow the enforcement switches
+  custom: {
+    rules: {
+      trading_paused: "block",
+      cooldown: "block",
+      balance: "block",
+      position_size: "warn",
+      max_open_positions: "warn",
+      concentration: "warn",
+      daily_loss: "enforced",
+      monthly_loss: "enforced",
+      drawdown: "warn",
+      var_limit: "enforced",
+    },
+    warnAt: null,
+  },
+};
+
+interface RiskLimits {
+  maxPositionSizePercent: number;
+  maxPositionSizeAmount: number;
+  maxOpenPositions: number;
+  maxSingleAssetPercent: number;
+  maxDailyLossPercent: number;
+  maxDailyLossAmount: number;
+  maxMonthlyLossPercent: number;
+  maxMonthlyLossAmount: number;
+  maxPortfolioDrawdownPercent: number;
+  enforceDailyLossLimit: boolean;
+  enforceMonthlyLossLimit: boolean;
+  maxVarPercent: number | null; // Null = off
+  enforceVarLimit: boolean;
+  autoPauseEnabled: boolean;
+  cooldownEndTime: Date | null;
+}
+
+interface RiskContext {
+  order: RiskOrder;
+  user?: User;
+  limits: RiskLimits;
+  wallet?: PaperWallet;
+  openPositions: number;
+  pnl?: PnlSummary;
+  portfolioValue: number;
+  orderValue: number;
+  assetExposure: number; // Market value already held in the order's asset
+  holdsAsset: boolean;
+  varPercent?: number | null; // Historical VaR after the order, when a VaR limit is set
+  warnAt: number | null;
+}
+
+// A rule reports a finding at the mode's severity, plus near-limit warnings of its own
+interface RiskRule {
+  id: RiskRuleId;
+  name: string;
+  evaluate(ctx: RiskContext): { message: string; mitigation?: string; maxQuantity?: number; nearLimit?: boolean } | null;
+}
+
+const ESTIMATED_FEE_RATE = 0.001;
+
+function resolveLimits(settings?: RiskGuardSettings): RiskLimits {
+  return {
+    maxPositionSizePercent: parseFloat(settings?.maxPositionSizePercent || "25"),
+    maxPositionSizeAmount: parseFloat(settings?.maxPositionSizeAmount || "2500"),
+    maxOpenPositions: settings?.maxOpenPositions || 5,
+    maxSingleAssetPercent: parseFloat(settings?.maxSingleAssetPercent || "40"),
+    maxDailyLossPercent: parseFloat(settings?.maxDailyLossPercent || "10"),
+    maxDailyLossAmount: parseFloat(settings?.maxDailyLossAmount || "1000"),
+    maxMonthlyLossPercent: parseFloat(settings?.maxMonthlyLossPercent || "25"),
+    maxMonthlyLossAmount: parseFloat(settings?.maxMonthlyLossAmount || "5000"),
+    maxPortfolioDrawdownPercent: parseFloat(settings?.maxPortfolioDrawdownPercent || "20"),
+    enforceDailyLossLimit: settings?.enforceDailyLossLimit ?? false,
+    enforceMonthlyLossLimit: settings?.enforceMonthlyLossLimit ?? false,
+    maxVarPercent: settings?.maxVarPercent ? parseFloat(settings.maxVarPercent) : null,
+    enforceVarLimit: settings?.enforceVarLimit ?? false,
+    autoPauseEnabled: settings?.autoPauseEnabled ?? true,
+    cooldownEndTime: settings?.cooldownEndTime ? new Date(settings.cooldownEndTime) : null,
+  };
+}
+
+function resolveArchetype(user?: User): RiskArchetype {
+  const archetype = user?.archetype;
+  return archetype === "adaptive" || archetype === "custom" ? archetype : "guardian";
+}
+
+function maxPositionValue(ctx: RiskContext): number {
+  if (ctx.portfolioValue <= 0) return ctx.limits.maxPositionSizeAmount;
+  return Math.min(
+    ctx.portfolioValue * (ctx.limits.maxPositionSizePercent / 100),
+    ctx.limits.maxPositionSizeAmount
+  );
+}
+
+function quantityFor(value: number, price: number): number {
+  return price > 0 ? parseFloat((Math.max(0, value) / price).toFixed(6)) : 0;
+}
+
+export const RISK_RULES: RiskRule[] = [
+  {
+    id: "trading_paused",
+    name: "Trading paused",
+    evaluate: ctx => ctx.user?.tradingPaused
+      ? {
+          message: "Trading is currently paused by Risk Guard",
+          mitigation: "Review your risk limits and resume trading from Risk Guard settings",
+        }
+      : null,
+  },
+  {
+    id: "cooldown",
+    name: "Consecutive-loss cooldown",
+    evaluate: ctx => {
+      const end = ctx.limits.cooldownEndTime;
+      if (!end || end <= new Date()) return null;
+      const minutes = Math.ceil((end.getTime() - Date.now()) / 60000);
+      return {
+        message: `Trading is in cooldown after consecutive losses (${minutes} minutes remaining)`,
+        mitigation: `Wait until ${end.toISOString()} before opening new positions`,
+      };
+    },
+  },
+  {
+    id: "balance",
+    name: "Available balance",
+    evaluate: ctx => {
+      // Paper cash buys only; margin requirements are checked at fill, exchanges check their own balances
+      if (ctx.order.channel === "live" || !ctx.wallet || ctx.wallet.marginEnabled || ctx.order.side !== "buy") return null;
+      const available = getAvailableBalance(ctx.wallet);
+      const required = ctx.orderValue * (1 + ESTIMATED_FEE_RATE);
+      if (required <= available) return null;
+      const maxQuantity = quantityFor(available / (1 + ESTIMATED_FEE_RATE), ctx.order.price);
+      return {
+        message: `Insufficient balance: $${required.toFixed(2)} required, $${available.toFixed(2)} available`,
+        mitigation: `Reduce quantity to ${maxQuantity} or less`,
+        maxQuantity,
+      };
+    },
+  },
+  {
+    id: "position_size",
+    name: "Maximum position size",
+    evaluate: ctx => {
+      const max = maxPositionValue(ctx);
+      const limitText = `${ctx.limits.maxPositionSizePercent}% of portfolio or $${ctx.limits.maxPositionSizeAmount}`;
+      if (ctx.orderValue > max) {
+        const maxQuantity = quantityFor(max, ctx.order.price);
+        return {
+          message: `Position size $${ctx.orderValue.toFixed(2)} exceeds max allowed $${max.toFixed(2)} (${limitText})`,
+          mitigation: `Reduce quantity to ${maxQuantity} or less`,
+          maxQuantity,
+        };
+      }
+      if (ctx.warnAt !== null && ctx.orderValue > max * ctx.warnAt) {
+        return { message: `Position size $${ctx.orderValue.toFixed(2)} is close to the $${max.toFixed(2)} limit`, nearLimit: true };
+      }
+      return null;
+    },
+  },
+  {
+    id: "max_open_positions",
+    name: "Maximum open positions",
+    evaluate: ctx => {
+      if (ctx.holdsAsset) return null; // Adding to a position does not open a new one
+      const open = ctx.openPositions;
+      const max = ctx.limits.maxOpenPositions;
+      if (open >= max) {
+        return {
+          message: `Maximum open positions (${max}) reached`,
+          mitigation: "Close an existing position before opening a new one",
+        };
+      }
+      if (ctx.warnAt !== null && open + 1 >= max * ctx.warnAt) {
+        return { message: `${open + 1} of ${max} positions would be open`, nearLimit: true };
+      }
+      return null;
+    },
+  },
+  {
+    id: "concentration",
+    name: "Single asset concentration",
+    evaluate: ctx => {
+      if (ctx.portfolioValue <= 0) return null;
+      const max = ctx.limits.maxSingleAssetPercent;
+      const concentration = ((ctx.assetExposure + ctx.orderValue) / ctx.portfolioValue) * 100;
+      if (concentration > max) {
+        const maxQuantity = quantityFor(ctx.portfolioValue * (max / 100) - ctx.assetExposure, ctx.order.price);
+        return {
+          message: `${ctx.order.symbol} concentration would be ${concentration.toFixed(1)}%, exceeding max ${max}% for a single asset`,
+          mitigation: maxQuantity > 0
+            ? `Reduce quantity to ${maxQuantity} or less, or diversify into other assets`
+            : "Diversify into other assets",
+          maxQuantity,
+        };
+      }
+      if (ctx.warnAt !== null && concentration > max * ctx.warnAt) {
+        return { message: `${ctx.order.symbol} concentration would be ${concentration.toFixed(1)}%, close to the ${max}% limit`, nearLimit: true };
+      }
+      return null;
+    },
+  },
+  {
+    id: "daily_loss",
+    name: "Daily loss limit",
+    evaluate: ctx => {
+      if (!ctx.pnl || ctx.pnl.dailyPnl >= 0) return null;
+      const loss = -ctx.pnl.dailyPnl;
+      const lossPercent = ctx.pnl.dayStartEquity > 0 ? (loss / ctx.pnl.dayStartEquity) * 100 : 0;
+      const breaches = [];
+      if (lossPercent > ctx.limits.maxDailyLossPercent) {
+        breaches.push(`Daily loss ${lossPercent.toFixed(2)}% exceeds max ${ctx.limits.maxDailyLossPercent}%`);
+      }
+      if (loss > ctx.limits.maxDailyLossAmount) {
+        breaches.push(`Daily loss $${loss.toFixed(2)} exceeds max $${ctx.limits.maxDailyLossAmount}`);
+      }
+      return breaches.length > 0
+        ? { message: breaches.join("; "), mitigation: "Stop trading for today and review what went wrong" }
+        : null;
+    },
+  },
+  {
+    id: "monthly_loss",
+    name: "Monthly loss limit",
+    evaluate: ctx => {
+      if (!ctx.pnl || ctx.pnl.monthlyPnl >= 0) return null;
+      const loss = -ctx.pnl.monthlyPnl;
+      const lossPercent = ctx.pnl.monthStartEquity > 0 ? (loss / ctx.pnl.monthStartEquity) * 100 : 0;
+      const breaches = [];
+      if (lossPercent > ctx.limits.maxMonthlyLossPercent) {
+        breaches.push(`Monthly loss ${lossPercent.toFixed(2)}% exceeds max ${ctx.limits.maxMonthlyLossPercent}%`);
+      }
+      if (loss > ctx.limits.maxMonthlyLossAmount) {
+        breaches.push(`Monthly loss $${loss.toFixed(2)} exceeds max $${ctx.limits.maxMonthlyLossAmount}`);
+      }
+      return breaches.length > 0
+        ? { message: breaches.join("; "), mitigation: "Step back for the rest of the month and review your trades" }
+        : null;
+    },
+  },
+  {
+    id: "drawdown",
+    name: "Portfolio drawdown",
+    evaluate: ctx => {
+      if (!ctx.pnl) return null;
+      const max = ctx.limits.maxPortfolioDrawdownPercent;
+      return ctx.pnl.drawdownPercent > max
+        ? {
+            message: `Portfolio drawdown ${ctx.pnl.drawdownPercent.toFixed(2)}% exceeds max ${max}%`,
+            mitigation: "Reduce exposure until the portfolio recovers",
+          }
+        : null;
+    },
+  },
+  {
+    id: "var_limit",
+    name: "Value-at-Risk limit",
+    evaluate: ctx => {
+      const max = ctx.limits.maxVarPercent;
+      if (max === null || ctx.varPercent === undefined || ctx.varPercent === null) return null;
+      if (ctx.varPercent > max) {
+        return {
+          message: `One-day 95% VaR would be ${ctx.varPercent.toFixed(2)}% of the portfolio, exceeding max ${max}%`,
+          mitigation: "Reduce quantity or hedge existing exposure",
+        };
+      }
+      if (ctx.warnAt !== null && ctx.varPercent > max * ctx.warnAt) {
+        return { message: `One-day 95% VaR would be ${ctx.varPercent.toFixed(2)}%, close to the ${max}% limit`, nearLimit: true };
+      }
+      return null;
+    },
+  },
+];
+
+const ENFORCEMENT_SWITCHES: Partial<Record<RiskRuleId, keyof RiskLimits>> = {
+  daily_loss: "enforceDailyLossLimit",
+  monthly_loss: "enforceMonthlyLossLimit",
+  var_limit: "enforceVarLimit",
+};
+
+// The rules behind Risk Guard's portfolio limits, which the supervisor and closing trades enforce
+const LOSS_RULES: RiskRuleId[] = ["daily_loss", "monthly_loss", "drawdown"];
+
+function severityFor(mode: RuleMode, ruleId: RiskRuleId, limits: RiskLimits): RiskSeverity | null {
+  if (mode === "off") return null;
+
+  let severity: RiskSeverity;
+  if (mode === "enforced") {
+    const enforcement = ENFORCEMENT_SWITCHES[ruleId];
+    severity = enforcement && limits[enforcement] === true ? "block" : "warn";
+  } else {
+    severity = mode;
+  }
+
+  // With auto-pause off Risk Guard only advises; an active pause and the cash balance still block
+  if (!limits.autoPauseEnabled && ruleId !== "trading_paused" && ruleId !== "balance") {
+    severity = "warn";
+  }
+  return severity;
+}
+
+function runRules(ctx: RiskContext, ruleSet: RuleSet, only?: RiskRuleId[]): RiskFinding[] {
+  const findings: RiskFinding[] = [];
+  for (const rule of RISK_RULES) {
+    if (only && !only.includes(rule.id)) continue;
+    const severity = severityFor(ruleSet.rules[rule.id], rule.id, ctx.limits);
+    if (!severity) continue;
+
+    const outcome = rule.evaluate(ctx);
+    if (!outcome) continue;
+    findings.push({
+      ruleId: rule.id,
+      severity: outcome.nearLimit ? "warn" : severity,
+      message: outcome.message,
+      mitigation: outcome.mitigation,
+      maxQuantity: outcome.maxQuantity,
+    });
+  }
+  return findings;
+}
+
+function calculateRiskScore(findings: RiskFinding[]): number {
+  const score = findings.reduce((sum, finding) => sum + (finding.severity === "block" ? 40 : 15), 0);
+  return Math.min(score, 100);
+}
+
+// Whether the order adds exposure: buys (unless covering a short) and sells that open a short
+function increasesExposure(order: RiskOrder, wallet: PaperWallet | undefined, position: PaperPosition | undefined): boolean {
+  if (order.side === "buy") {
+    return order.channel === "live" || position?.side !== "short";
+  }
+  return order.channel !== "live" && !!wallet?.marginEnabled && (!position || position.side === "short");
+}
+
+export class RiskPolicyEngine {
+  /**
+   * Evaluate an order against the user's rule set
+   */
+  async evaluateOrder(userId: string, order: RiskOrder): Promise<RiskPolicyResult> {
+    const [user, settings, wallet] = await Promise.all([
+      storage.getUser(userId),
+      storage.getRiskGuardSettings(userId),
+      storage.getPaperWalletByUserId(userId),
+    ]);
+    const archetype = resolveArchetype(user);
+    const ruleSet = RULE_SETS[archetype];
+
+    const positions = wallet ? await storage.getPaperPositionsByWalletId(wallet.id) : [];
+    const asset = (order.asset || order.symbol).toUpperCase();
+    const position = positions.find(p => p.symbol.toUpperCase() === asset);
+    const orderValue = order.quantity * order.price;
+    const estimatedFees = orderValue * ESTIMATED_FEE_RATE;
+
+    // Live orders are sized against the exchange account, never the paper portfolio
+    const live = order.channel === "live";
+    const portfolioValue = live
+      ? order.portfolio?.value ?? 0
+      : wallet ? getPortfolioEquity(wallet, positions) : 0;
+    const assetPrice = marketData.getPrice(asset) ?? (position ? parseFloat(position.avgPrice) : 0);
+    const assetExposure = live
+      ? order.portfolio?.assetValues[asset] ?? 0
+      : position ? parseFloat(position.quantity) * assetPrice : 0;
+
+    const result = (findings: RiskFinding[]): RiskPolicyResult => {
+      const blocking = findings.filter(f => f.severity === "block");
+      return {
+        allowed: blocking.length === 0,
+        archetype,
+        reason: blocking[0]?.message,
+        mitigation: blocking[0]?.mitigation ?? findings.find(f => f.mitigation)?.mitigation,
+        findings,
+        violations: blocking.map(f => f.message),
+        warnings: findings.filter(f => f.severity === "warn").map(f => f.message),
+        riskScore: calculateRiskScore(findings),
+        estimatedCost: orderValue,
+        estimatedFees,
+        portfolioImpact: portfolioValue > 0 ? (orderValue / portfolioValue) * 100 : 0,
+        concentration: portfolioValue > 0 ? ((assetExposure + orderValue) / portfolioValue) * 100 : 0,
+      };
+    };
+
+    if (!increasesExposure(order, wallet, position)) {
+      return result([]);
+    }
+
+    const limits = resolveLimits(settings);
+    const ctx: RiskContext = {
+      order,
+      user,
+      limits,
+      wallet,
+      openPositions: live ? Object.keys(order.portfolio?.assetValues ?? {}).length : positions.length,
+      pnl: wallet ? await equityTracker.getPnlSummary(wallet, positions) : undefined,
+      portfolioValue,
+      orderValue,
+      assetExposure,
+      holdsAsset: live ? assetExposure > 0 : !!position,
+      varPercent: limits.maxVarPercent !== null && !live
+        ? await this.varPercentWithOrder(userId, asset, order.side === "buy" ? orderValue : -orderValue)
+        : undefined,
+      warnAt: ruleSet.warnAt,
+    };
+    return result(runRules(ctx, ruleSet));
+  }
+
+  /**
+   * Risk Guard's portfolio-wide loss limits for a portfolio, independent of any order
+   */
+  async evaluatePortfolioLimits(
+    wallet: PaperWallet,
+    positions: PaperPosition[],
+    settings: RiskGuardSettings
+  ): Promise<RiskFinding[]> {
+    const ctx: RiskContext = {
+      order: { symbol: "", side: "buy", quantity: 0, price: 0, channel: "paper" },
+      limits: resolveLimits(settings),
+      wallet,
+      openPositions: positions.length,
+      pnl: await equityTracker.getPnlSummary(wallet, positions),
+      portfolioValue: getPortfolioEquity(wallet, positions),
+      orderValue: 0,
+      assetExposure: 0,
+      holdsAsset: false,
+      warnAt: null,
+    };
+    // Loss limits are the same in every rule set
+    return runRules(ctx, RULE_SETS.custom, LOSS_RULES);
+  }
+
+  // Price history can be unavailable; the VaR rule is skipped rather than blocking every trade
+  private async varPercentWithOrder(userId: string, asset: string, exposure: number): Promise<number | null> {
+    try {
+      return await getPaperVarPercentWithOrder(userId, asset, exposure);
+    } catch (error: any) {
+      console.error("[RISK] Failed to estimate VaR:", error.message || error);
+      return null;
+    }
+  }
+}
+
+export const riskPolicyEngine = new RiskPolicyEngine();
@@ -0,0 +1,154 @@
+import { storage } from "../storage";
+import type { RiskGuardSettings } from "@shared/schema";
+import { riskGuardService } from "../riskGuardService";
+import { equityTracker } from "./equityHistory";
+import { getPortfolioEquity } from "./paperPortfolios";
+import { flattenPaperPortfolio } from "./paperTrading";
+
+/**
+ * Risk Supervisor
+ *
+ * Closing trades check Risk Guard's limits as they happen, but losses also build up in open
+ * positions and limits clear with time. The supervisor evaluates every account with Risk
+ * Guard on at a fixed interval:
+ * - Enforced loss limits pause trading; the pause lifts once the limits are back within
+ *   bounds and any consecutive-loss cooldown has ended
+ * - The hard drawdown stop pauses trading (and flattens the portfolio when
+ *   flattenOnHardStop is set); only the user can resume, and the drawdown is then measured
+ *   from the peak since that resume
+ * - Pauses placed by the user are never lifted automatically
+ * Every state change is recorded in risk_guard_events with its reason.
+ */
+
+export class RiskSupervisor {
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async start(intervalMs: number = 60 * 1000): Promise<void> {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    this.interval = setInterval(() => {
+      this.evaluateAll().catch(error => {
+        console.error("[RISK SUPERVISOR] Failed to evaluate accounts:", error);
+      });
+    }, intervalMs);
+
+    await this.evaluateAll();
+    console.log(`[RISK SUPERVISOR] Risk supervision started - evaluating accounts every ${intervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async evaluateAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const accounts = await storage.getSupervisedRiskGuardSettings();
+      for (const settings of accounts) {
+        try {
+          await this.evaluate(settings);
+        } catch (error: any) {
+          console.error(`[RISK SUPERVISOR] Failed to evaluate user ${settings.userId}:`, error.message || error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async evaluate(account: RiskGuardSettings): Promise<void> {
+    const userId = account.userId;
+
+    if (!account.autoPauseEnabled) {
+      // Risk Guard was turned off while holding a pause; a hard stop still waits for the user
+      if (account.autoPausedBy && account.autoPausedBy !== "hard_stop") {
+        await riskGuardService.resumeTrading(userId, "Risk Guard auto-pause was turned off", "supervisor");
+      }
+      return;
+    }
+
+    await riskGuardService.clearExpiredCooldown(userId);
+
+    const [user, settings, wallet] = await Promise.all([
+      storage.getUser(userId),
+      storage.getRiskGuardSettings(userId),
+      storage.getPaperWalletByUserId(userId),
+    ]);
+    if (!user || !settings || !wallet) return;
+
+    const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+    const check = await riskGuardService.checkPortfolioLimits(userId, wallet, positions, settings);
+
+    // Hard drawdown stop
+    const hardStop = settings.hardDrawdownStopPercent ? parseFloat(settings.hardDrawdownStopPercent) : 0;
+    if (hardStop > 0 && settings.autoPausedBy !== "hard_stop") {
+      const lastResume = await storage.getLatestRiskGuardEvent(userId, "resumed");
+      const equity = getPortfolioEquity(wallet, positions);
+      const drawdown = await equityTracker.getDrawdownSince(wallet, lastResume?.createdAt ?? new Date(0), equity);
+
+      if (drawdown >= hardStop) {
+        const paused = await riskGuardService.pauseTrading(
+          userId,
+          `Drawdown ${drawdown.toFixed(2)}% hit the hard stop of ${hardStop}%`,
+          "supervisor",
+          {
+            rule: "hard_stop",
+            walletId: wallet.id,
+            details: { equity, drawdownPercent: drawdown, hardDrawdownStopPercent: hardStop },
+          }
+        );
+        if (paused && settings.flattenOnHardStop) {
+          await this.flatten(userId, wallet.id);
+        }
+        return;
+      }
+    }
+
+    if (!check.allowed) {
+      await riskGuardService.pauseTrading(userId, check.violations.join("; "), "supervisor", {
+        rule: "loss_limit",
+        walletId: wallet.id,
+        details: { violations: check.violations },
+      });
+      return;
+    }
+
+    // Lift Risk Guard's own pause once nothing holds it
+    const inCooldown = settings.cooldownEndTime && new Date(settings.cooldownEndTime) > new Date();
+    if (user.tradingPaused && !inCooldown && (settings.autoPausedBy === "loss_limit" || settings.autoPausedBy === "consecutive_losses")) {
+      const reason = settings.autoPausedBy === "loss_limit"
+        ? "Loss limits are back within bounds"
+        : "Consecutive-loss cooldown has ended";
+      await riskGuardService.resumeTrading(userId, reason, "supervisor", { rule: settings.autoPausedBy });
+    }
+  }
+
+  private async flatten(userId: string, walletId: string): Promise<void> {
+    const result = await flattenPaperPortfolio(userId);
+    if (result.cancelledOrders === 0 && result.closedPositions.length === 0) {
+      return; // Nothing to flatten
+    }
+
+    const closed = result.closedPositions.filter(p => !p.error).length;
+    const failed = result.closedPositions.length - closed;
+    await riskGuardService.recordEvent(
+      userId,
+      "flattened",
+      "supervisor",
+      `Hard stop closed ${closed} position(s) and cancelled ${result.cancelledOrders} order(s)` +
+        (failed > 0 ? `; ${failed} position(s) could not be closed` : ""),
+      walletId,
+      result
+    );
+  }
+}
+
+export const riskSupervisor = new RiskSupervisor();
@@ -0,0 +1,200 @@
+import { storage } from "../storage";
+import { generateOTP, sendEmailOTP, storeOTP, verifyOTP, verifyTOTP } from "../authService";
+import type { User } from "@shared/schema";
+
+/**
+ * Step-up Authentication
+ *
+ * A session cookie alone is not enough to move real money. Sensitive actions ask for a
+ * second factor on top of the session:
+ * - TOTP (authenticator app) when the user has enabled it, or a one-time code emailed
+ *   to the account address (otp_codes, type 'step_up'). An emailed code only confirms the
+ *   action it was sent for, and for live orders only the execution token it was sent for;
+ *   a TOTP code is accepted once
+ * - Live orders below the user's stepUpThresholdUsd skip the check; the default
+ *   threshold of 0 asks on every order
+ * - Failed codes are throttled per user, and every check is written to step_up_audits
+ */
+
+export type StepUpMethod = "totp" | "email";
+export type StepUpAction = "live_order_confirm" | "step_up_policy_change";
+
+export interface StepUpCredentials {
+  code?: string;
+  method?: StepUpMethod;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface StepUpResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  stepUpRequired?: boolean;
+  methods?: StepUpMethod[];
+}
+
+interface StepUpContext {
+  executionToken?: string;
+  notional?: number;
+}
+
+const MAX_FAILED_ATTEMPTS = 5;
+const MAX_CODES_SENT = 5;
+const THROTTLE_WINDOW_MS = 15 * 60 * 1000;
+
+const EMAIL_SUBJECTS: Record<StepUpAction, string> = {
+  live_order_confirm: "Confirm your live trade",
+  step_up_policy_change: "Confirm your security settings change",
+};
+
+// The otp_codes scope of an emailed code: the action, plus the execution token for live orders
+function codeScope(action: StepUpAction, context: StepUpContext): string {
+  return context.executionToken ? `${action}:${context.executionToken}` : action;
+}
+
+/**
+ * Second factors the user can answer with, strongest first
+ */
+export function getStepUpMethods(user: User): StepUpMethod[] {
+  const methods: StepUpMethod[] = [];
+  if (user.totpEnabled && user.totpSecret) methods.push("totp");
+  if (user.email) methods.push("email");
+  return methods;
+}
+
+export function isStepUpRequired(user: User, notional: number): boolean {
+  return notional >= parseFloat(user.stepUpThresholdUsd || "0");
+}
+
+async function audit(
+  userId: string,
+  action: StepUpAction,
+  outcome: string,
+  credentials: StepUpCredentials,
+  context: StepUpContext,
+  method: StepUpMethod | null = null
+): Promise<void> {
+  await storage.createStepUpAudit({
+    userId,
+    action,
+    method,
+    outcome,
+    executionToken: context.executionToken ?? null,
+    notional: context.notional !== undefined && Number.isFinite(context.notional) ? context.notional.toFixed(2) : null,
+    ipAddress: credentials.ipAddress ?? null,
+    userAgent: credentials.userAgent ?? null,
+  });
+}
+
+/**
+ * Check a second factor for an action that always needs one
+ */
+export async function verifyStepUp(
+  userId: string,
+  action: StepUpAction,
+  credentials: StepUpCredentials,
+  context: StepUpContext = {}
+): Promise<StepUpResult> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { success: false, error: "User not found", status: 404 };
+  }
+
+  const methods = getStepUpMethods(user);
+  if (methods.length === 0) {
+    await audit(userId, action, "challenged", credentials, context);
+    return {
+      success: false,
+      error: "Enable an authenticator app or add an email address to confirm this action",
+      status: 403,
+      stepUpRequired: true,
+      methods,
+    };
+  }
+
+  const failures = await storage.countStepUpAudits(userId, "failed", new Date(Date.now() - THROTTLE_WINDOW_MS));
+  if (failures >= MAX_FAILED_ATTEMPTS) {
+    await audit(userId, action, "throttled", credentials, context);
+    return {
+      success: false,
+      error: `Too many failed verification attempts. Try again in ${THROTTLE_WINDOW_MS / 60000} minutes.`,
+      status: 429,
+      stepUpRequired: true,
+      methods,
+    };
+  }
+
+  if (!credentials.code) {
+    await audit(userId, action, "challenged", credentials, context);
+    return { success: false, error: "Verification code required", status: 401, stepUpRequired: true, methods };
+  }
+
+  const method = credentials.method ?? methods[0];
+  if (!methods.includes(method)) {
+    return { success: false, error: `Verification method ${method} is not available`, status: 400, stepUpRequired: true, methods };
+  }
+
+  const verified = method === "totp"
+    ? await verifyTOTP(userId, credentials.code)
+    : await verifyOTP(user.email!, credentials.code, "step_up", codeScope(action, context));
+
+  await audit(userId, action, verified ? "verified" : "failed", credentials, context, method);
+  console.log(`[STEP-UP] ${action} - User: ${userId}, Method: ${method}, Verified: ${verified}`);
+
+  if (!verified) {
+    return { success: false, error: "Invalid or expired verification code", status: 401, stepUpRequired: true, methods };
+  }
+  return { success: true };
+}
+
+/**
+ * Check the second factor for a live order, unless its notional is below the user's threshold
+ */
+export async function verifyLiveOrderStepUp(
+  userId: string,
+  executionToken: string,
+  notional: number,
+  credentials: StepUpCredentials
+): Promise<StepUpResult> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { success: false, error: "User not found", status: 404 };
+  }
+
+  const context = { executionToken, notional };
+  if (!isStepUpRequired(user, notional)) {
+    await audit(userId, "live_order_confirm", "not_required", credentials, context);
+    return { success: true };
+  }
+
+  return verifyStepUp(userId, "live_order_confirm", credentials, context);
+}
+
+/**
+ * Email a step-up code to the account address
+ */
+export async function sendStepUpCode(
+  userId: string,
+  action: StepUpAction,
+  credentials: StepUpCredentials,
+  context: StepUpContext = {}
+): Promise<StepUpResult> {
+  const user = await storage.getUser(userId);
+  if (!user?.email) {
+    return { success: false, error: "No email address on this account", status: 400 };
+  }
+
+  const sent = await storage.countStepUpAudits(userId, "code_sent", new Date(Date.now() - THROTTLE_WINDOW_MS));
+  if (sent >= MAX_CODES_SENT) {
+    await audit(userId, action, "throttled", credentials, context, "email");
+    return { success: false, error: "Too many codes requested. Try again later.", status: 429 };
+  }
+
+  const code = generateOTP();
+  await storeOTP(user.email, code, "step_up", userId, codeScope(action, context));
+  await sendEmailOTP(user.email, code, EMAIL_SUBJECTS[action]);
+  await audit(userId, action, "code_sent", credentials, context, "email");
+
+  return { success: true };
+}
@@ -0,0 +1,252 @@
+import { storage } from "../storage";
+import type { TradingSymbol, InsertTradingSymbol } from "@shared/schema";
+
+/**
+ * Symbol Registry
+ *
+ * The one list of tradable assets. Market data providers, paper orders, charts and OHLCV
+ * look symbols up here instead of keeping their own maps:
+ * - providerIds maps each market data provider to its ID for the asset
+ * - tickSize, lotSize and minNotional are enforced on paper orders, and stored order levels
+ *   are rounded to the tick (formatPrice)
+ * - Delisted symbols stop quoting and reject new orders; delisting is refused while
+ *   paper positions or resting orders remain
+ *
+ * Lookups are synchronous from an in-memory copy; load() refreshes it from the database.
+ */
+
+export type SymbolStatus = "active" | "delisted";
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: number;
+  lotSize: number;
+  minNotional: number;
+  providerIds: Record<string, string>;
+  status: SymbolStatus;
+}
+
+type RegistryResult<T> = { success: boolean; error?: string; status?: number } & Partial<T>;
+
+// Steps are compared with a relative tolerance so 0.3 counts as a multiple of 0.1
+const STEP_TOLERANCE = 1e-6;
+
+function builtin(
+  symbol: string,
+  name: string,
+  tickSize: string,
+  lotSize: string,
+  providerIds: Record<string, string>
+): InsertTradingSymbol {
+  return { symbol, name, baseAsset: symbol, quoteAsset: "USD", tickSize, lotSize, minNotional: "1", providerIds };
+}
+
+// Seeded into the database on first start; edit through the admin endpoints afterwards
+const BUILTIN_SYMBOLS: InsertTradingSymbol[] = [
+  builtin("BTC", "Bitcoin", "0.01", "0.00001", { coinbase: "BTC-USD", kraken: "XBT/USD", coingecko: "bitcoin", binance: "BTCUSDT" }),
+  builtin("ETH", "Ethereum", "0.01", "0.0001", { coinbase: "ETH-USD", kraken: "ETH/USD", coingecko: "ethereum", binance: "ETHUSDT" }),
+  builtin("SOL", "Solana", "0.01", "0.001", { coinbase: "SOL-USD", kraken: "SOL/USD", coingecko: "solana", binance: "SOLUSDT" }),
+  builtin("ADA", "Cardano", "0.0001", "0.1", { coinbase: "ADA-USD", kraken: "ADA/USD", coingecko: "cardano", binance: "ADAUSDT" }),
+  builtin("AVAX", "Avalanche", "0.01", "0.01", { coinbase: "AVAX-USD", kraken: "AVAX/USD", coingecko: "avalanche-2", binance: "AVAXUSDT" }),
+  builtin("MATIC", "Polygon", "0.0001", "0.1", { coinbase: "MATIC-USD", kraken: "MATIC/USD", coingecko: "matic-network", binance: "MATICUSDT" }),
+  builtin("DOT", "Polkadot", "0.001", "0.01", { coinbase: "DOT-USD", kraken: "DOT/USD", coingecko: "polkadot", binance: "DOTUSDT" }),
+  builtin("LINK", "Chainlink", "0.001", "0.01", { coinbase: "LINK-USD", kraken: "LINK/USD", coingecko: "chainlink", binance: "LINKUSDT" }),
+  builtin("XRP", "Ripple", "0.0001", "0.1", { coinbase: "XRP-USD", kraken: "XRP/USD", coingecko: "ripple", binance: "XRPUSDT" }),
+  builtin("BNB", "BNB", "0.01", "0.001", { coinbase: "BNB-USD", kraken: "BNB/USD", coingecko: "binancecoin", binance: "BNBUSDT" }),
+  builtin("DOGE", "Dogecoin", "0.00001", "1", { coinbase: "DOGE-USD", kraken: "DOGE/USD", coingecko: "dogecoin", binance: "DOGEUSDT" }),
+  builtin("TRX", "TRON", "0.00001", "1", { coinbase: "TRX-USD", kraken: "TRX/USD", coingecko: "tron", binance: "TRXUSDT" }),
+  builtin("LTC", "Litecoin", "0.01", "0.001", { coinbase: "LTC-USD", kraken: "LTC/USD", coingecko: "litecoin", binance: "LTCUSDT" }),
+  builtin("UNI", "Uniswap", "0.001", "0.01", { coinbase: "UNI-USD", kraken: "UNI/USD", coingecko: "uniswap", binance: "UNIUSDT" }),
+  builtin("ATOM", "Cosmos", "0.001", "0.01", { coinbase: "ATOM-USD", kraken: "ATOM/USD", coingecko: "cosmos", binance: "ATOMUSDT" }),
+  builtin("ALGO", "Algorand", "0.0001", "1", { coinbase: "ALGO-USD", kraken: "ALGO/USD", coingecko: "algorand", binance: "ALGOUSDT" }),
+  builtin("XLM", "Stellar", "0.0001", "1", { coinbase: "XLM-USD", kraken: "XLM/USD", coingecko: "stellar", binance: "XLMUSDT" }),
+  builtin("FIL", "Filecoin", "0.001", "0.01", { coinbase: "FIL-USD", kraken: "FIL/USD", coingecko: "filecoin", binance: "FILUSDT" }),
+  builtin("APT", "Aptos", "0.001", "0.01", { coinbase: "APT-USD", kraken: "APT/USD", coingecko: "aptos", binance: "APTUSDT" }),
+  builtin("NEAR", "NEAR Protocol", "0.001", "0.1", { coinbase: "NEAR-USD", kraken: "NEAR/USD", coingecko: "near", binance: "NEARUSDT" }),
+];
+
+function toSymbolInfo(row: TradingSymbol | InsertTradingSymbol): SymbolInfo {
+  return {
+    symbol: row.symbol,
+    name: row.name,
+    baseAsset: row.baseAsset,
+    quoteAsset: row.quoteAsset ?? "USD",
+    tickSize: parseFloat(row.tickSize),
+    lotSize: parseFloat(row.lotSize),
+    minNotional: parseFloat(row.minNotional ?? "0"),
+    providerIds: (row.providerIds ?? {}) as Record<string, string>,
+    status: row.status === "delisted" ? "delisted" : "active",
+  };
+}
+
+// Price columns hold 8 decimals
+const MAX_PRICE_DECIMALS = 8;
+
+function decimalsOf(step: number): number {
+  const fraction = step.toFixed(MAX_PRICE_DECIMALS).split(".")[1] || "";
+  return fraction.replace(/0+$/, "").length;
+}
+
+function isStepMultiple(value: number, step: number): boolean {
+  if (step <= 0) return true;
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) <= STEP_TOLERANCE * Math.max(1, Math.abs(steps));
+}
+
+export class SymbolRegistry {
+  private symbols = new Map<string, SymbolInfo>(
+    BUILTIN_SYMBOLS.map(row => [row.symbol, toSymbolInfo(row)])
+  );
+  private changeListeners: Array<() => void> = [];
+
+  /**
+   * Seed the built-in symbols and load the registry from the database
+   */
+  async load(): Promise<void> {
+    await storage.seedTradingSymbols(BUILTIN_SYMBOLS);
+    const rows = await storage.getTradingSymbols();
+    this.symbols = new Map(rows.map(row => [row.symbol, toSymbolInfo(row)]));
+    console.log(`[SYMBOLS] Loaded ${this.list().length} active symbol(s)`);
+    this.notifyChange();
+  }
+
+  /**
+   * Register a callback for additions and delistings (market data resubscribes)
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * An active symbol, or null when it is unknown or delisted
+   */
+  resolve(symbol: string): SymbolInfo | null {
+    const info = this.symbols.get(symbol.toUpperCase());
+    return info && info.status === "active" ? info : null;
+  }
+
+  /**
+   * A symbol whatever its status
+   */
+  get(symbol: string): SymbolInfo | null {
+    return this.symbols.get(symbol.toUpperCase()) ?? null;
+  }
+
+  list(includeDelisted: boolean = false): SymbolInfo[] {
+    return Array.from(this.symbols.values()).filter(info => includeDelisted || info.status === "active");
+  }
+
+  getProviderId(symbol: string, provider: string): string | null {
+    return this.get(symbol)?.providerIds[provider] ?? null;
+  }
+
+  /**
+   * Check an order against the symbol's filters. Returns an error message, or null when it passes.
+   * prices are the order's limit/stop levels; notionalPrice values the order for the minimum.
+   */
+  validateOrder(
+    symbol: string,
+    quantity: number,
+    notionalPrice: number,
+    prices: number[] = [],
+    options: { skipLotSize?: boolean } = {}
+  ): string | null {
+    const info = this.resolve(symbol);
+    if (!info) {
+      return `Unknown symbol: ${symbol}`;
+    }
+    if (!options.skipLotSize && !isStepMultiple(quantity, info.lotSize)) {
+      return `${info.symbol} quantity must be a multiple of ${info.lotSize}`;
+    }
+    for (const price of prices) {
+      if (!isStepMultiple(price, info.tickSize)) {
+        return `${info.symbol} prices must be a multiple of ${info.tickSize}`;
+      }
+    }
+    if (quantity * notionalPrice < info.minNotional) {
+      return `${info.symbol} orders must be worth at least $${info.minNotional}`;
+    }
+    return null;
+  }
+
+  /**
+   * A price on the symbol's tick, formatted for a decimal column. Derived levels round away
+   * from the market ("down" for a sell stop, "up" for a buy stop) so they never trigger early;
+   * unknown symbols keep 8 decimals
+   */
+  formatPrice(symbol: string, price: number, mode: "nearest" | "down" | "up" = "nearest"): string {
+    const tick = this.get(symbol)?.tickSize ?? 0;
+    if (!(tick > 0)) {
+      return price.toFixed(MAX_PRICE_DECIMALS);
+    }
+
+    // Tolerance keeps prices already on the tick from moving a whole tick
+    const steps = price / tick;
+    const rounded = mode === "down"
+      ? Math.floor(steps + STEP_TOLERANCE)
+      : mode === "up"
+        ? Math.ceil(steps - STEP_TOLERANCE)
+        : Math.round(steps);
+    return (rounded * tick).toFixed(Math.min(decimalsOf(tick), MAX_PRICE_DECIMALS));
+  }
+
+  /**
+   * Add a symbol, or relist a delisted one with new settings
+   */
+  async addSymbol(input: InsertTradingSymbol): Promise<RegistryResult<{ symbol: SymbolInfo }>> {
+    const symbol = input.symbol.toUpperCase();
+    if (this.resolve(symbol)) {
+      return { success: false, error: `${symbol} is already listed`, status: 409 };
+    }
+
+    const row = await storage.upsertTradingSymbol({ ...input, symbol });
+    const info = toSymbolInfo(row);
+    this.symbols.set(symbol, info);
+    console.log(`[SYMBOLS] Listed ${symbol}`);
+    this.notifyChange();
+    return { success: true, symbol: info };
+  }
+
+  /**
+   * Stop quoting a symbol and reject new orders for it
+   */
+  async delistSymbol(symbol: string): Promise<RegistryResult<{ symbol: SymbolInfo }>> {
+    const info = this.resolve(symbol);
+    if (!info) {
+      return { success: false, error: `${symbol.toUpperCase()} is not listed`, status: 404 };
+    }
+
+    // Open exposure would be left without a price to close or fill at
+    const positions = await storage.getPaperPositionsBySymbol(info.symbol);
+    const pendingOrders = await storage.getPendingPaperOrders(info.symbol);
+    if (positions.length > 0 || pendingOrders.length > 0) {
+      return {
+        success: false,
+        error: `${info.symbol} still has ${positions.length} open position(s) and ${pendingOrders.length} resting order(s)`,
+        status: 409,
+      };
+    }
+
+    const row = await storage.delistTradingSymbol(info.symbol);
+    const delisted = row ? toSymbolInfo(row) : { ...info, status: "delisted" as const };
+    this.symbols.set(info.symbol, delisted);
+    console.log(`[SYMBOLS] Delisted ${info.symbol}`);
+    this.notifyChange();
+    return { success: true, symbol: delisted };
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("[SYMBOLS] Change listener failed:", error);
+      }
+    }
+  }
+}
+
+export const symbolRegistry = new SymbolRegistry();
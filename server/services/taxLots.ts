@@ -0,0 +1,283 @@
+import { storage } from "../storage";
+import type { PaperWallet, PaperPosition, PaperRealizedPnl } from "@shared/schema";
+
+/**
+ * Paper Tax-Lot Ledger
+ *
+ * Every opening fill becomes a lot with its fee-inclusive cost price. A closing fill
+ * draws lots down by the wallet's lot method and its realized P&L is stored per lot:
+ * - fifo: oldest lots first
+ * - lifo: newest lots first
+ * - average: all open lots pro rata, so every close realizes against the average cost
+ *
+ * Margin positions always close at average cost because their margin and loan are
+ * released pro rata. Trade statistics are computed here from the ledger so the journal,
+ * Trading DNA and the peace index report the same numbers.
+ */
+
+export type LotMethod = "fifo" | "lifo" | "average";
+
+export const LOT_METHODS: LotMethod[] = ["fifo", "lifo", "average"];
+
+// Quantities are stored with 8 decimals; anything smaller is dust
+const QUANTITY_EPSILON = 1e-8;
+
+export interface LotMatch {
+  lotId: string | null; // Null for quantity opened before lots were tracked
+  quantity: number;
+  entryPrice: number; // Lot cost price, entry fee included
+  entryFee: number; // The matched share of the lot's entry fee
+  openedAt: Date | null;
+}
+
+interface LotSource {
+  lotId: string | null;
+  quantity: number;
+  remaining: number;
+  costPrice: number;
+  fee: number;
+  openedAt: Date | null;
+}
+
+export function getLotMethod(wallet: Pick<PaperWallet, "lotMethod">): LotMethod {
+  return LOT_METHODS.includes(wallet.lotMethod as LotMethod) ? (wallet.lotMethod as LotMethod) : "fifo";
+}
+
+/**
+ * Record an opening fill
+ */
+export async function openLot(
+  walletId: string,
+  symbol: string,
+  side: "long" | "short",
+  quantityNum: number,
+  costPrice: number,
+  fee: number
+): Promise<void> {
+  await storage.createPaperTaxLot({
+    walletId,
+    symbol,
+    side,
+    quantity: quantityNum.toString(),
+    remainingQuantity: quantityNum.toString(),
+    costPrice: costPrice.toFixed(8),
+    fee: fee.toFixed(8),
+  });
+}
+
+/**
+ * Open lots of a position, with any quantity that predates the ledger as one untracked lot in front
+ */
+async function getLotSources(position: PaperPosition): Promise<LotSource[]> {
+  const lots = await storage.getOpenPaperTaxLots(position.walletId, position.symbol, position.side);
+  const sources: LotSource[] = lots.map(lot => ({
+    lotId: lot.id,
+    quantity: parseFloat(lot.quantity),
+    remaining: parseFloat(lot.remainingQuantity),
+    costPrice: parseFloat(lot.costPrice),
+    fee: parseFloat(lot.fee),
+    openedAt: lot.openedAt,
+  }));
+
+  const positionQty = parseFloat(position.quantity);
+  const trackedQty = sources.reduce((sum, source) => sum + source.remaining, 0);
+  const untrackedQty = positionQty - trackedQty;
+
+  if (untrackedQty > QUANTITY_EPSILON) {
+    // Back the untracked cost out of the position's blended average
+    const trackedCost = sources.reduce((sum, source) => sum + source.remaining * source.costPrice, 0);
+    const untrackedCost = (positionQty * parseFloat(position.avgPrice) - trackedCost) / untrackedQty;
+    sources.unshift({
+      lotId: null,
+      quantity: untrackedQty,
+      remaining: untrackedQty,
+      costPrice: untrackedCost > 0 ? untrackedCost : parseFloat(position.avgPrice),
+      fee: 0,
+      openedAt: null,
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Draw a closing quantity from the position's lots.
+ * Returns the matched lots and the cost price of what is left open (null once nothing is).
+ */
+export async function matchLots(
+  position: PaperPosition,
+  quantityNum: number,
+  method: LotMethod
+): Promise<{ matches: LotMatch[]; remainingCostPrice: number | null }> {
+  const sources = await getLotSources(position);
+  const openQty = sources.reduce((sum, source) => sum + source.remaining, 0);
+  const matches: LotMatch[] = [];
+
+  const take = (source: LotSource, quantity: number) => {
+    if (quantity <= QUANTITY_EPSILON) return;
+    source.remaining -= quantity;
+    matches.push({
+      lotId: source.lotId,
+      quantity,
+      entryPrice: source.costPrice,
+      entryFee: source.fee * (quantity / source.quantity),
+      openedAt: source.openedAt,
+    });
+  };
+
+  if (method === "average") {
+    const fraction = openQty > 0 ? Math.min(1, quantityNum / openQty) : 0;
+    sources.forEach(source => take(source, source.remaining * fraction));
+  } else {
+    let left = quantityNum;
+    const ordered = method === "lifo" ? [...sources].reverse() : sources;
+    for (const source of ordered) {
+      if (left <= QUANTITY_EPSILON) break;
+      const quantity = Math.min(left, source.remaining);
+      take(source, quantity);
+      left -= quantity;
+    }
+  }
+
+  for (const source of sources) {
+    if (source.lotId && matches.some(match => match.lotId === source.lotId)) {
+      const remaining = source.remaining <= QUANTITY_EPSILON ? 0 : source.remaining;
+      await storage.updatePaperTaxLotRemaining(source.lotId, remaining.toFixed(8));
+    }
+  }
+
+  const remainingQty = sources.reduce((sum, source) => sum + Math.max(0, source.remaining), 0);
+  const remainingCost = sources.reduce((sum, source) => sum + Math.max(0, source.remaining) * source.costPrice, 0);
+
+  return {
+    matches,
+    remainingCostPrice: remainingQty > QUANTITY_EPSILON ? remainingCost / remainingQty : null,
+  };
+}
+
+/**
+ * Quantity-weighted cost price of a set of matches
+ */
+export function getMatchedEntryPrice(matches: LotMatch[]): number {
+  const quantity = matches.reduce((sum, match) => sum + match.quantity, 0);
+  if (quantity <= 0) return 0;
+  return matches.reduce((sum, match) => sum + match.quantity * match.entryPrice, 0) / quantity;
+}
+
+/**
+ * A closing order with its ledger rows rolled up
+ */
+export interface ClosedTrade {
+  orderId: string;
+  walletId: string;
+  symbol: string;
+  side: "long" | "short";
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  entryValue: number;
+  realizedPnl: number;
+  holdHours: number | null; // Quantity-weighted; null when no matched lot had an open time
+  closedAt: Date;
+}
+
+export interface TradeStats {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number; // %
+  grossProfit: number;
+  grossLoss: number; // Positive
+  totalPnl: number;
+  profitFactor: number; // grossProfit / grossLoss
+  avgProfit: number;
+  avgLoss: number; // Positive
+  largestWin: number;
+  largestLoss: number; // Negative
+}
+
+/**
+ * Roll ledger rows up into one trade per closing order, oldest first
+ */
+export function groupClosedTrades(entries: PaperRealizedPnl[]): ClosedTrade[] {
+  const byOrder = new Map<string, PaperRealizedPnl[]>();
+  for (const entry of entries) {
+    const rows = byOrder.get(entry.orderId) ?? [];
+    rows.push(entry);
+    byOrder.set(entry.orderId, rows);
+  }
+
+  const trades = Array.from(byOrder.entries()).map(([orderId, rows]): ClosedTrade => {
+    let quantity = 0;
+    let entryValue = 0;
+    let exitValue = 0;
+    let realizedPnl = 0;
+    let heldQty = 0;
+    let heldHours = 0;
+    let closedAt = rows[0].closedAt;
+
+    for (const row of rows) {
+      const rowQty = parseFloat(row.quantity);
+      quantity += rowQty;
+      entryValue += rowQty * parseFloat(row.entryPrice);
+      exitValue += rowQty * parseFloat(row.exitPrice);
+      realizedPnl += parseFloat(row.realizedPnl);
+      if (row.closedAt > closedAt) closedAt = row.closedAt;
+      if (row.openedAt) {
+        heldQty += rowQty;
+        heldHours += rowQty * (row.closedAt.getTime() - row.openedAt.getTime()) / 3_600_000;
+      }
+    }
+
+    return {
+      orderId,
+      walletId: rows[0].walletId,
+      symbol: rows[0].symbol,
+      side: rows[0].side === "short" ? "short" : "long",
+      quantity,
+      entryPrice: quantity > 0 ? entryValue / quantity : 0,
+      exitPrice: quantity > 0 ? exitValue / quantity : 0,
+      entryValue,
+      realizedPnl,
+      holdHours: heldQty > 0 ? heldHours / heldQty : null,
+      closedAt,
+    };
+  });
+
+  return trades.sort((a, b) => a.closedAt.getTime() - b.closedAt.getTime());
+}
+
+export function summarizeTrades(trades: ClosedTrade[]): TradeStats {
+  const wins = trades.filter(trade => trade.realizedPnl > 0);
+  const losses = trades.filter(trade => trade.realizedPnl < 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.realizedPnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.realizedPnl, 0));
+
+  return {
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    grossProfit,
+    grossLoss,
+    totalPnl: grossProfit - grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    avgProfit: wins.length > 0 ? grossProfit / wins.length : 0,
+    avgLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+    largestWin: Math.max(...wins.map(trade => trade.realizedPnl), 0),
+    largestLoss: Math.min(...losses.map(trade => trade.realizedPnl), 0),
+  };
+}
+
+/**
+ * Closed trades for a user across all of their portfolios (or one portfolio), oldest first
+ */
+export async function getClosedTrades(
+  filter: { userId: string } | { walletId: string },
+  since?: Date
+): Promise<ClosedTrade[]> {
+  const entries = "walletId" in filter
+    ? await storage.getPaperRealizedPnlByWalletId(filter.walletId, since)
+    : await storage.getPaperRealizedPnlByUserId(filter.userId, since);
+  return groupClosedTrades(entries);
+}
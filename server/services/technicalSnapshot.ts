@@ -0,0 +1,93 @@
+import { fetchOHLCVData } from "./binanceService";
+import {
+  RSI,
+  MACD,
+  ATR,
+  ADX,
+  SuperTrend,
+  BollingerBands,
+  Ichimoku,
+  latest,
+  type MACDValue,
+  type ADXValue,
+  type SuperTrendValue,
+  type BandValue,
+  type IchimokuValue,
+} from "@shared/indicators";
+
+/**
+ * Technical Snapshot
+ *
+ * Latest values of the standard indicators for one symbol and interval, computed with the
+ * chart's own math (@shared/indicators), so AI prompts quote figures the user can check on
+ * the chart instead of asking the model to guess them.
+ */
+
+export interface TechnicalSnapshot {
+  symbol: string;
+  interval: string;
+  close: number;
+  rsi: number | null;
+  macd: MACDValue | null;
+  atr: number | null;
+  adx: ADXValue | null;
+  superTrend: SuperTrendValue | null;
+  bollinger: BandValue | null;
+  ichimoku: IchimokuValue | null;
+}
+
+const CANDLE_LIMIT = 200;
+
+/**
+ * Null when there are no candles for the symbol
+ */
+export async function getTechnicalSnapshot(symbol: string, interval: string): Promise<TechnicalSnapshot | null> {
+  const candles = await fetchOHLCVData(symbol, interval, CANDLE_LIMIT);
+  if (candles.length === 0) return null;
+
+  const closes = candles.map(c => c.close);
+  return {
+    symbol,
+    interval,
+    close: closes[closes.length - 1],
+    rsi: latest(new RSI(14), closes),
+    macd: latest(new MACD(12, 26, 9), closes),
+    atr: latest(new ATR(14), candles),
+    adx: latest(new ADX(14), candles),
+    superTrend: latest(new SuperTrend(10, 3), candles),
+    bollinger: latest(new BollingerBands(20, 2), closes),
+    ichimoku: latest(new Ichimoku(), candles),
+  };
+}
+
+/**
+ * Prompt lines for a snapshot; indicators without enough history are left out
+ */
+export function formatTechnicalSnapshot(snapshot: TechnicalSnapshot): string {
+  const { close, rsi, macd, atr, adx, superTrend, bollinger, ichimoku } = snapshot;
+  const lines: string[] = [];
+
+  if (rsi !== null) lines.push(`- RSI(14): ${rsi.toFixed(1)}`);
+  if (macd) {
+    lines.push(`- MACD(12,26,9): ${macd.value.toFixed(4)}, signal ${macd.signal.toFixed(4)}, histogram ${macd.histogram.toFixed(4)}`);
+  }
+  if (atr !== null) lines.push(`- ATR(14): ${atr.toFixed(2)} (${((atr / close) * 100).toFixed(2)}% of price)`);
+  if (adx) {
+    lines.push(`- ADX(14): ${adx.adx.toFixed(1)} (+DI ${adx.plusDI.toFixed(1)}, -DI ${adx.minusDI.toFixed(1)})`);
+  }
+  if (superTrend) lines.push(`- SuperTrend(10,3): ${superTrend.direction}trend, band at ${superTrend.value.toFixed(2)}`);
+  if (bollinger) {
+    const position = bollinger.upper > bollinger.lower
+      ? ((close - bollinger.lower) / (bollinger.upper - bollinger.lower)) * 100
+      : 50;
+    lines.push(`- Bollinger(20,2): ${bollinger.lower.toFixed(2)} – ${bollinger.upper.toFixed(2)}, price at ${position.toFixed(0)}% of the band`);
+  }
+  if (ichimoku?.cloudA != null && ichimoku.cloudB != null) {
+    const top = Math.max(ichimoku.cloudA, ichimoku.cloudB);
+    const bottom = Math.min(ichimoku.cloudA, ichimoku.cloudB);
+    const position = close > top ? "above" : close < bottom ? "below" : "inside";
+    lines.push(`- Ichimoku: price ${position} the cloud (${bottom.toFixed(2)} – ${top.toFixed(2)})`);
+  }
+
+  return lines.join("\n");
+}
@@ -1,9 +1,15 @@
 import { storage } from "../storage";
-import OpenAI from "openai";
 import crypto from "crypto";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+import { z } from "zod";
+import { aiGateway } from "./aiGateway";
+
+const analysisResponseSchema = z.object({
+  strengths: z.array(z.string()).default([]),
+  insights: z.array(z.object({
+    category: z.string(),
+    recommendation: z.string(),
+    priority: z.enum(["medium", "high", "low"]),
+  })).default([]),
 });
 
 interface AnalysisRequest {
@@ -347,9 +353,8 @@ Return structured JSON:
   // 8. Compute prompt hash for audit
   const promptHash = computePromptHash(prompt);
 
-  // 9. Call OpenAI
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
+  // 9. Call the AI gateway
+  const completion = await aiGateway.completeJson("timeframe_analysis", {
     messages: [
       {
         role: "system",
@@ -360,13 +365,12 @@ Return structured JSON:
         content: prompt
       }
     ],
-    max_tokens: 1000,
-    temperature: 0.7,
-    response_format: { type: "json_object" }
+    schema: analysisResponseSchema,
+    userId,
   });
 
-  const tokenUsage = completion.usage?.total_tokens || 0;
-  const aiResponse = JSON.parse(completion.choices[0].message.content || "{}");
+  const tokenUsage = completion.promptTokens + completion.completionTokens;
+  const aiResponse = completion.data;
   
   // 10. Build result object
   const result: AnalysisResult = {
@@ -385,8 +389,8 @@ Return structured JSON:
     winningTrades: winningTrades.slice(0, 20), // Top 20
     losingTrades: losingTrades.slice(0, 20), // Top 20
     mistakeTags,
-    suggestions: aiResponse.insights || [],
-    strengths: aiResponse.strengths || [],
+    suggestions: aiResponse.insights,
+    strengths: aiResponse.strengths,
     tokenUsage,
   };
 
@@ -399,7 +403,7 @@ Return structured JSON:
     tokenUsage,
     privacyLearnOnly: true,
     promptHash,
-    modelVersion: "gpt-4o-mini",
+    modelVersion: completion.model,
   });
 
   result.runId = analysisRun.id;
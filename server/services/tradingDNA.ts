@@ -1,6 +1,5 @@
 import { storage } from "../storage";
-import { getMarketPrice } from "./paperTrading";
-import type { PaperOrder } from "@shared/schema";
+import { getClosedTrades, summarizeTrades } from "./taxLots";
 
 export interface TradingDNAMetrics {
   winRate: number;
@@ -60,13 +59,10 @@ export async function calculateTradingDNA(userId: string): Promise<TradingDNAMet
     };
   }
 
-  const orders = await storage.getPaperOrdersByUserId(userId);
-  const positions = await storage.getPaperPositionsByWalletId(wallet.id);
+  // Closed trades come from the realized P&L ledger, one per closing order
+  const closedTrades = await getClosedTrades({ userId });
 
-  // Filter only completed orders
-  const completedOrders = orders.filter(order => order.status === "completed");
-
-  if (completedOrders.length === 0) {
+  if (closedTrades.length === 0) {
     // Return default metrics for users with no trades
     return {
       winRate: 0,
@@ -95,43 +91,23 @@ export async function calculateTradingDNA(userId: string): Promise<TradingDNAMet
     };
   }
 
-  // Calculate P&L for each trade
-  const tradesWithPnL = completedOrders.map(order => {
-    const quantity = parseFloat(order.quantity);
-    const orderPrice = parseFloat(order.price || "0");
-    const currentPrice = getMarketPrice(order.symbol);
-    
-    let pnl = 0;
-    if (order.side === "buy") {
-      pnl = (currentPrice - orderPrice) * quantity;
-    } else {
-      pnl = (orderPrice - currentPrice) * quantity;
-    }
+  const tradesWithPnL = closedTrades.map(trade => ({
+    ...trade,
+    pnl: trade.realizedPnl,
+    tradeSize: trade.entryValue,
+  }));
 
-    return {
-      ...order,
-      pnl,
-      tradeSize: quantity * orderPrice,
-    };
-  });
-
-  // Basic metrics
-  const totalTrades = tradesWithPnL.length;
-  const winningTrades = tradesWithPnL.filter(t => t.pnl > 0);
-  const losingTrades = tradesWithPnL.filter(t => t.pnl < 0);
-  const totalProfits = winningTrades.reduce((sum, t) => sum + t.pnl, 0);
-  const totalLosses = Math.abs(losingTrades.reduce((sum, t) => sum + t.pnl, 0));
-  const totalProfitLoss = totalProfits - totalLosses;
-  
-  const winRate = totalTrades > 0 ? (winningTrades.length / totalTrades) * 100 : 0;
-  const avgProfit = winningTrades.length > 0 ? totalProfits / winningTrades.length : 0;
-  const avgLoss = losingTrades.length > 0 ? totalLosses / losingTrades.length : 0;
+  // Basic metrics (shared with every other screen that reports win rate and profit factor)
+  const stats = summarizeTrades(closedTrades);
+  const totalTrades = stats.totalTrades;
+  const totalProfitLoss = stats.totalPnl;
+  const { winRate, avgProfit, avgLoss, profitFactor, largestWin, largestLoss } = stats;
 
-  // Profit factor (ratio of gross profit to gross loss)
-  const profitFactor = totalLosses > 0 ? totalProfits / totalLosses : totalProfits > 0 ? Infinity : 0;
-
-  // Average hold time (simplified - using order timestamps)
-  const avgHoldTime = 24; // Default to 24 hours for now
+  // Average hold time from the matched lots' open and close times
+  const heldTrades = closedTrades.filter(trade => trade.holdHours !== null);
+  const avgHoldTime = heldTrades.length > 0
+    ? heldTrades.reduce((sum, trade) => sum + trade.holdHours!, 0) / heldTrades.length
+    : 24; // No lot history yet
 
   // Best timeframe (analyze trade times)
   const timeframes = {
@@ -140,8 +116,8 @@ export async function calculateTradingDNA(userId: string): Promise<TradingDNAMet
     evening: 0,
   };
 
-  completedOrders.forEach(order => {
-    const hour = new Date(order.timestamp).getHours();
+  closedTrades.forEach(trade => {
+    const hour = trade.closedAt.getHours();
     if (hour >= 6 && hour < 12) timeframes.morning++;
     else if (hour >= 12 && hour < 18) timeframes.afternoon++;
     else timeframes.evening++;
@@ -153,7 +129,7 @@ export async function calculateTradingDNA(userId: string): Promise<TradingDNAMet
 
   // Max drawdown calculation (simplified)
   let maxDrawdown = 0;
-  let peak = parseFloat(wallet.balance);
+  let peak = parseFloat(wallet.startingBalance);
   let currentBalance = peak;
 
   tradesWithPnL.forEach(trade => {
@@ -229,19 +205,15 @@ export async function calculateTradingDNA(userId: string): Promise<TradingDNAMet
     }
   });
 
-  // Largest win/loss
-  const largestWin = Math.max(...winningTrades.map(t => t.pnl), 0);
-  const largestLoss = Math.min(...losingTrades.map(t => t.pnl), 0);
-
   return {
     winRate: Math.round(winRate * 10) / 10,
     avgProfit: Math.round(avgProfit * 100) / 100,
     avgLoss: Math.round(avgLoss * 100) / 100,
     totalTrades,
-    winningTrades: winningTrades.length,
-    losingTrades: losingTrades.length,
+    winningTrades: stats.winningTrades,
+    losingTrades: stats.losingTrades,
     totalProfitLoss: Math.round(totalProfitLoss * 100) / 100,
-    avgHoldTime,
+    avgHoldTime: Math.round(avgHoldTime * 10) / 10,
     bestTimeframe,
     maxDrawdown: Math.round(maxDrawdown * 10) / 10,
     revengeTradeScore: Math.round(revengeTradeScore),
@@ -0,0 +1,107 @@
+import crypto from "crypto";
+import type { UserEvent, UserEventPayloads, UserEventType } from "@shared/userEvents";
+
+/**
+ * User Event Stream
+ *
+ * Per-user events (fills, triggers, alerts, Risk Guard state, mistake warnings, new AI
+ * suggestions) for the authenticated channel on /ws/prices:
+ * - Each user's events are numbered from 1 and the last MAX_BUFFERED_EVENTS are kept in
+ *   memory, so a client that reconnects replays what it missed from its last sequence
+ * - A user's buffer and sequence are dropped REPLAY_WINDOW_MS after their last connection
+ *   closes (or after their last event, when they have none); a later reconnect resyncs
+ * - The stream ID changes on every server start; a client holding another stream ID, or
+ *   asking for events older than the buffer, is told to resync instead
+ * - Publishing never throws, so a failed push can't undo the fill or alert behind it
+ */
+
+type UserEventListener = (event: UserEvent) => void;
+
+const MAX_BUFFERED_EVENTS = 200;
+const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+
+export class UserEventStream {
+  readonly streamId = crypto.randomUUID();
+  private sequences = new Map<string, number>();
+  private buffers = new Map<string, UserEvent[]>();
+  private listeners = new Map<string, Set<UserEventListener>>();
+  private evictionTimers = new Map<string, NodeJS.Timeout>();
+
+  publish<T extends UserEventType>(userId: string, type: T, data: UserEventPayloads[T]): void {
+    try {
+      const seq = (this.sequences.get(userId) ?? 0) + 1;
+      this.sequences.set(userId, seq);
+
+      const event = { seq, type, at: new Date().toISOString(), data } as UserEvent;
+      const buffer = this.buffers.get(userId) ?? [];
+      buffer.push(event);
+      if (buffer.length > MAX_BUFFERED_EVENTS) buffer.shift();
+      this.buffers.set(userId, buffer);
+
+      if (!this.listeners.has(userId)) this.scheduleEviction(userId);
+      this.listeners.get(userId)?.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error("[USER EVENTS] Listener failed:", error);
+        }
+      });
+    } catch (error) {
+      console.error(`[USER EVENTS] Failed to publish ${type} for user ${userId}:`, error);
+    }
+  }
+
+  subscribe(userId: string, listener: UserEventListener): () => void {
+    const listeners = this.listeners.get(userId) ?? new Set<UserEventListener>();
+    listeners.add(listener);
+    this.listeners.set(userId, listeners);
+    this.cancelEviction(userId);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(userId) === listeners) {
+        this.listeners.delete(userId);
+        this.scheduleEviction(userId);
+      }
+    };
+  }
+
+  latestSeq(userId: string): number {
+    return this.sequences.get(userId) ?? 0;
+  }
+
+  /**
+   * Events after `afterSeq` in this stream, or null when they can't all be replayed
+   * (another stream, or older than the buffer) and the client must resync
+   */
+  replay(userId: string, streamId: string | undefined, afterSeq: number): UserEvent[] | null {
+    if (streamId !== this.streamId) return null;
+
+    const latest = this.latestSeq(userId);
+    if (afterSeq > latest) return null;
+
+    const buffer = this.buffers.get(userId) ?? [];
+    const oldest = buffer[0]?.seq ?? latest + 1;
+    if (afterSeq + 1 < oldest) return null;
+
+    return buffer.filter(event => event.seq > afterSeq);
+  }
+
+  private scheduleEviction(userId: string): void {
+    this.cancelEviction(userId);
+    const timer = setTimeout(() => {
+      this.evictionTimers.delete(userId);
+      this.buffers.delete(userId);
+      this.sequences.delete(userId);
+    }, REPLAY_WINDOW_MS);
+    timer.unref(); // Never keeps the process alive
+    this.evictionTimers.set(userId, timer);
+  }
+
+  private cancelEviction(userId: string): void {
+    clearTimeout(this.evictionTimers.get(userId));
+    this.evictionTimers.delete(userId);
+  }
+}
+
+export const userEvents = new UserEventStream();
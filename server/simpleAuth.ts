@@ -6,7 +6,15 @@
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import connectPg from "connect-pg-simple";
+import { storage } from "./storage";
+
+// The app's session middleware, kept so WebSocket upgrades can read the same session
+let sessionMiddleware: RequestHandler | null = null;
+
+// Told the session ID on logout, so connections opened under that session can be dropped
+const sessionEndListeners = new Set<(sessionId: string) => void>();
 
 // ============================================
 // Session Configuration (Production Ready)
@@ -52,7 +60,8 @@ export async function setupAuth(app: Express) {
   // ALB/Nginx sends X-Forwarded-Proto header, this makes req.secure work correctly
   app.set("trust proxy", 1);
   
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -70,7 +79,9 @@ export async function setupAuth(app: Express) {
 
   // Logout endpoint
   app.get("/api/logout", (req, res) => {
+    const sessionId = req.sessionID;
     req.logout(() => {
+      sessionEndListeners.forEach(listener => listener(sessionId));
       res.redirect('/login');
     });
   });
@@ -88,6 +99,27 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   return next();
 };
 
+// Admin-only routes (symbol registry); set users.is_admin in the database to grant
+export const isAdmin: RequestHandler = async (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const sessionUser = req.user as any;
+  let user;
+  try {
+    user = await storage.getUser(sessionUser?.id || sessionUser?.claims?.sub);
+  } catch (error) {
+    console.error("[Auth] Failed to load user for admin check:", error);
+    return res.status(500).json({ error: "Failed to verify admin access" });
+  }
+  if (!user?.isAdmin) {
+    return res.status(403).json({ error: "Forbidden: Admin access required" });
+  }
+
+  return next();
+};
+
 // ============================================
 // Current User Helper
 // ============================================
@@ -99,6 +131,28 @@ export function getCurrentUserId(req: any): string | null {
   return user.claims.sub;
 }
 
+/**
+ * Signed-in user for a request that bypasses Express, such as a WebSocket upgrade, read
+ * from the session cookie; null without a session. The session is loaded from the store on
+ * every call, so a long-lived connection sees a logout.
+ */
+export function getSessionUserId(req: IncomingMessage): Promise<string | null> {
+  return new Promise(resolve => {
+    if (!sessionMiddleware) {
+      return resolve(null);
+    }
+    delete (req as any).session; // Otherwise the middleware keeps the copy it loaded last time
+    sessionMiddleware(req as any, {} as any, () => {
+      const user = (req as any).session?.passport?.user;
+      resolve(user?.id || user?.claims?.sub || null);
+    });
+  });
+}
+
+export function onSessionEnd(listener: (sessionId: string) => void): void {
+  sessionEndListeners.add(listener);
+}
+
 // ============================================
 // Configuration Notes for Production Deployment
 // ============================================
@@ -133,9 +187,9 @@ export function getCurrentUserId(req: any): string | null {
  * - NODE_ENV=production (enables secure cookies)
  * - DATABASE_URL=postgresql://... (session storage)
  * - SESSION_SECRET=<strong-random-string> (session encryption)
- * - OPENAI_API_KEY=sk-... (AI features)
  * 
  * OPTIONAL ENV VARS:
+ * - OPENAI_API_KEY=sk-... (AI features; an offline stub answers without it)
  * - BEHIND_PROXY=true (explicitly mark as behind proxy - auto-detected)
  * - PORT=5000 (default)
  * 
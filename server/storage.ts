@@ -14,6 +14,16 @@ import {
   type InsertAIBriefing,
   type RiskGuardSettings,
   type InsertRiskGuardSettings,
+  type RiskGuardEvent,
+  type InsertRiskGuardEvent,
+  type Notification,
+  type InsertNotification,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type StrategyPerformance,
+  type InsertStrategyPerformance,
   type AITradeSuggestion,
   type InsertAITradeSuggestion,
   type MarketSentiment,
@@ -39,10 +49,47 @@ import {
   type AIPersonalExample,
   type InsertAIPersonalExample,
   type AIAgentHealth,
-  type InsertAIAgentHealth
+  type InsertAIAgentHealth,
+  type PaperPortfolioSnapshot,
+  type InsertPaperPortfolioSnapshot,
+  type PaperEquityPoint,
+  type InsertPaperEquityPoint,
+  type PaperTaxLot,
+  type InsertPaperTaxLot,
+  type PaperRealizedPnl,
+  type InsertPaperRealizedPnl,
+  type PaperOrderRequest,
+  type InsertPaperOrderRequest,
+  type TradingSymbol,
+  type InsertTradingSymbol,
+  type LiveOrder,
+  type InsertLiveOrder,
+  type LiveFill,
+  type InsertLiveFill,
+  type StepUpAudit,
+  type InsertStepUpAudit
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+export type PaperWalletExecutionModel = Partial<Pick<PaperWallet, "feeTier" | "slippageEnabled" | "partialFillsEnabled">>;
+export type PaperWalletDetails = Partial<Pick<PaperWallet, "name" | "startingBalance" | "lotMethod">>;
+export type PaperWalletMarginSettings = Partial<Pick<PaperWallet, "marginEnabled" | "leverage" | "maintenanceMarginRate" | "borrowRateApr">>;
+export type PaperPositionMarginUpdate = Partial<Pick<
+  PaperPosition,
+  "quantity" | "avgPrice" | "margin" | "borrowedAmount" | "accruedInterest" | "interestAccruedAt" | "liquidationPrice"
+>>;
+
+// Running totals written when a paper order (partially) fills
+export interface PaperOrderFill {
+  filledPrice: string;
+  filledQuantity: string;
+  fee: string;
+  slippage: string;
+  liquidity: string;
+  reservedAmount: string | null;
+  complete: boolean;
+}
+
 // modify the interface with any CRUD methods
 // you might need
 
@@ -54,23 +101,67 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>; // Replit Auth
   updateUserTradingStatus(userId: string, paused: boolean): Promise<void>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
   getTradesByUserId(userId: string): Promise<Trade[]>;
   createTrade(trade: InsertTrade): Promise<Trade>;
   getPaperWalletByUserId(userId: string): Promise<PaperWallet | undefined>;
+  getPaperWalletsByUserId(userId: string): Promise<PaperWallet[]>;
+  getPaperWalletById(walletId: string): Promise<PaperWallet | undefined>;
+  getSelectedPaperWallets(): Promise<PaperWallet[]>;
+  withPaperWalletLock<T>(walletId: string, fn: (wallet: PaperWallet) => Promise<T>): Promise<T>;
   createPaperWallet(wallet: InsertPaperWallet): Promise<PaperWallet>;
+  selectPaperWallet(userId: string, walletId: string): Promise<void>;
+  updatePaperWalletDetails(walletId: string, updates: PaperWalletDetails): Promise<PaperWallet | undefined>;
+  resetPaperWallet(walletId: string, balance: string): Promise<PaperWallet | undefined>;
   updatePaperWalletBalance(walletId: string, newBalance: string): Promise<void>;
+  updatePaperWalletReservedBalance(walletId: string, reservedBalance: string): Promise<void>;
+  updatePaperWalletExecutionModel(walletId: string, updates: PaperWalletExecutionModel): Promise<PaperWallet | undefined>;
+  updatePaperWalletMarginSettings(walletId: string, updates: PaperWalletMarginSettings): Promise<PaperWallet | undefined>;
   getPaperPositionsByWalletId(walletId: string): Promise<PaperPosition[]>;
   getPaperPositionByWalletAndSymbol(walletId: string, symbol: string): Promise<PaperPosition | undefined>;
+  getProtectedPaperPositions(symbol?: string): Promise<PaperPosition[]>;
+  getMarginPaperPositions(symbol?: string): Promise<PaperPosition[]>;
+  getPaperPositionsBySymbol(symbol: string): Promise<PaperPosition[]>;
   createPaperPosition(position: InsertPaperPosition): Promise<PaperPosition>;
   updatePaperPosition(id: string, quantity: string, avgPrice: string): Promise<void>;
   updatePositionStopLossTakeProfit(id: string, stopLoss: string | null, takeProfit: string | null): Promise<void>;
+  updatePaperPositionReservedQuantity(id: string, reservedQuantity: string): Promise<void>;
+  updatePaperPositionMargin(id: string, updates: PaperPositionMarginUpdate): Promise<void>;
   deletePaperPosition(id: string): Promise<void>;
   createPaperOrder(order: InsertPaperOrder): Promise<PaperOrder>;
   getPaperOrdersByWalletId(walletId: string): Promise<PaperOrder[]>;
   getPaperOrdersByUserId(userId: string): Promise<PaperOrder[]>;
   getPaperOrderById(orderId: string): Promise<PaperOrder | undefined>;
   cancelPaperOrder(orderId: string): Promise<void>;
-  updatePaperOrder(orderId: string, quantity: string, price: string): Promise<void>;
+  updatePaperOrder(orderId: string, quantity: string, price: string, reservedAmount?: string): Promise<void>;
+  getPendingPaperOrders(symbol?: string): Promise<PaperOrder[]>;
+  fillPaperOrder(orderId: string, previousFilledQuantity: string, fill: PaperOrderFill): Promise<boolean>;
+  markPaperOrderTriggered(orderId: string): Promise<void>;
+  updatePaperOrderTrailingStop(orderId: string, highWaterMark: string, stopPrice: string): Promise<void>;
+  getPaperOrdersByOcoGroup(ocoGroupId: string): Promise<PaperOrder[]>;
+  createPaperPortfolioSnapshot(snapshot: InsertPaperPortfolioSnapshot): Promise<PaperPortfolioSnapshot>;
+  getPaperPortfolioSnapshots(walletId: string): Promise<PaperPortfolioSnapshot[]>;
+  createPaperEquityPoint(point: InsertPaperEquityPoint): Promise<PaperEquityPoint>;
+  getPaperEquityHistory(walletId: string, since: Date): Promise<PaperEquityPoint[]>;
+  getLastPaperEquityPointBefore(walletId: string, before: Date): Promise<PaperEquityPoint | undefined>;
+  getFirstPaperEquityPointSince(walletId: string, since: Date): Promise<PaperEquityPoint | undefined>;
+  getPaperEquityPeak(walletId: string, since: Date): Promise<number | null>;
+  createPaperTaxLot(lot: InsertPaperTaxLot): Promise<PaperTaxLot>;
+  getOpenPaperTaxLots(walletId: string, symbol: string, side: string): Promise<PaperTaxLot[]>;
+  updatePaperTaxLotRemaining(lotId: string, remainingQuantity: string): Promise<void>;
+  deleteOpenPaperTaxLots(walletId: string): Promise<void>;
+  createPaperRealizedPnl(entries: InsertPaperRealizedPnl[]): Promise<PaperRealizedPnl[]>;
+  getPaperRealizedPnlByUserId(userId: string, since?: Date): Promise<PaperRealizedPnl[]>;
+  getPaperRealizedPnlByWalletId(walletId: string, since?: Date): Promise<PaperRealizedPnl[]>;
+  sumPaperRealizedPnl(walletId: string, since: Date): Promise<number>;
+  claimPaperOrderRequest(request: InsertPaperOrderRequest): Promise<PaperOrderRequest | undefined>;
+  getPaperOrderRequest(userId: string, idempotencyKey: string): Promise<PaperOrderRequest | undefined>;
+  completePaperOrderRequest(id: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  deletePaperOrderRequest(id: string): Promise<void>;
+  getTradingSymbols(): Promise<TradingSymbol[]>;
+  seedTradingSymbols(symbols: InsertTradingSymbol[]): Promise<void>;
+  upsertTradingSymbol(symbol: InsertTradingSymbol): Promise<TradingSymbol>;
+  delistTradingSymbol(symbol: string): Promise<TradingSymbol | undefined>;
   createAIBriefing(briefing: InsertAIBriefing): Promise<AIBriefing>;
   getLatestBriefingByUserId(userId: string): Promise<AIBriefing | undefined>;
   getAllBriefingsByUserId(userId: string): Promise<AIBriefing[]>;
@@ -78,11 +169,16 @@ export interface IStorage {
   createRiskGuardSettings(settings: InsertRiskGuardSettings): Promise<RiskGuardSettings>;
   updateRiskGuardSettings(userId: string, settings: Partial<RiskGuardSettings>): Promise<RiskGuardSettings | undefined>;
   updateRiskGuardCooldown(userId: string, cooldownEndTime: Date | null): Promise<void>;
+  getSupervisedRiskGuardSettings(): Promise<RiskGuardSettings[]>;
+  createRiskGuardEvent(event: InsertRiskGuardEvent): Promise<RiskGuardEvent>;
+  getRiskGuardEvents(userId: string, limit: number): Promise<RiskGuardEvent[]>;
+  getLatestRiskGuardEvent(userId: string, action: string): Promise<RiskGuardEvent | undefined>;
   
   // AI Trade Suggestions
   createAITradeSuggestion(suggestion: InsertAITradeSuggestion): Promise<AITradeSuggestion>;
   getActiveSuggestionsByUserId(userId: string): Promise<AITradeSuggestion[]>;
   getAllSuggestionsByUserId(userId: string): Promise<AITradeSuggestion[]>;
+  getAITradeSuggestionById(id: string): Promise<AITradeSuggestion | undefined>;
   updateSuggestionStatus(id: string, status: string): Promise<void>;
   
   // Market Sentiment
@@ -110,11 +206,39 @@ export interface IStorage {
   getPriceAlertById(id: string): Promise<PriceAlert | undefined>;
   updatePriceAlert(id: string, updates: Partial<PriceAlert>): Promise<void>;
   deletePriceAlert(id: string): Promise<void>;
-  triggerPriceAlert(id: string): Promise<void>;
+  triggerPriceAlert(id: string, keepActive: boolean): Promise<void>;
+  rearmPriceAlert(id: string): Promise<void>;
+  deactivateExpiredPriceAlerts(now: Date): Promise<number>;
+  getPriceAlertByDrawingId(userId: string, drawingId: string): Promise<PriceAlert | undefined>;
+
+  // Notifications
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getRecentNotificationByDedupeKey(userId: string, dedupeKey: string, since: Date): Promise<Notification | undefined>;
+  getNotifications(userId: string, limit: number, unreadOnly: boolean): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  markNotificationRead(userId: string, id: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  getNotificationDeliveries(userId: string, limit: number): Promise<NotificationDelivery[]>;
+  getUserIdsWithHeldNotificationDeliveries(): Promise<string[]>;
+  getHeldNotificationDeliveries(userId: string): Promise<{ delivery: NotificationDelivery; notification: Notification }[]>;
+  updateNotificationDelivery(
+    id: string,
+    updates: Pick<NotificationDelivery, "status" | "transport" | "error" | "attemptedAt">
+  ): Promise<void>;
+
+  // Strategy Performance (backtest results are strategyType 'backtest')
+  createStrategyPerformance(performance: InsertStrategyPerformance): Promise<StrategyPerformance>;
+  getStrategyPerformances(userId: string, strategyType: string, limit: number): Promise<StrategyPerformance[]>;
+  getStrategyPerformanceById(id: string): Promise<StrategyPerformance | undefined>;
+  deleteStrategyPerformance(id: string): Promise<void>;
 
   // Exchange Connections
   createExchangeConnection(connection: InsertExchangeConnection): Promise<ExchangeConnection>;
   getExchangeConnectionsByUserId(userId: string): Promise<ExchangeConnection[]>;
+  getExchangeConnection(id: string): Promise<ExchangeConnection | undefined>;
   getActiveExchangeConnection(userId: string, exchange: string): Promise<ExchangeConnection | undefined>;
   updateExchangeConnection(id: string, updates: Partial<ExchangeConnection>): Promise<void>;
   deleteExchangeConnection(id: string): Promise<void>;
@@ -123,8 +247,24 @@ export interface IStorage {
   createExecutionToken(token: InsertExecutionToken): Promise<ExecutionToken>;
   getExecutionToken(token: string): Promise<ExecutionToken | undefined>;
   updateExecutionTokenStatus(token: string, status: string): Promise<void>;
+  claimExecutionToken(token: string, userId: string): Promise<boolean>;
   cleanExpiredTokens(): Promise<void>;
 
+  // Live Orders (real exchange orders and their fills)
+  createLiveOrder(order: InsertLiveOrder): Promise<LiveOrder>;
+  getLiveOrder(id: string): Promise<LiveOrder | undefined>;
+  getLiveOrderByExchangeId(connectionId: string, symbol: string, exchangeOrderId: string): Promise<LiveOrder | undefined>;
+  getLiveOrdersByUserId(userId: string): Promise<LiveOrder[]>;
+  getOpenLiveOrders(): Promise<LiveOrder[]>;
+  updateLiveOrder(id: string, updates: Partial<LiveOrder>): Promise<void>;
+  addLiveFills(fills: InsertLiveFill[]): Promise<LiveFill[]>;
+  getLiveFillsByOrderIds(liveOrderIds: string[]): Promise<LiveFill[]>;
+
+  // Step-up Authentication
+  createStepUpAudit(audit: InsertStepUpAudit): Promise<StepUpAudit>;
+  countStepUpAudits(userId: string, outcome: string, since: Date): Promise<number>;
+  updateStepUpThreshold(userId: string, thresholdUsd: string): Promise<void>;
+
   // AI Daily Insights (Freedom Engine)
   createAIDailyInsight(insight: InsertAIDailyInsight): Promise<AIDailyInsight>;
   getAIDailyInsights(userId: string): Promise<AIDailyInsight[]>;
@@ -203,9 +343,12 @@ export class MemStorage implements IStorage {
       phone: null,
       totpSecret: null,
       totpEnabled: false,
+      totpLastStep: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       tradingPaused: false,
+      isAdmin: false,
+      stepUpThresholdUsd: "0",
       archetype: insertUser.archetype ?? 'guardian',
       dataShareOptIn: insertUser.dataShareOptIn ?? false
     };
@@ -227,9 +370,12 @@ export class MemStorage implements IStorage {
       phone: existing?.phone ?? null,
       totpSecret: existing?.totpSecret ?? null,
       totpEnabled: existing?.totpEnabled ?? false,
+      totpLastStep: existing?.totpLastStep ?? null,
       createdAt: existing?.createdAt ?? new Date(),
       updatedAt: new Date(),
       tradingPaused: existing?.tradingPaused ?? false,
+      isAdmin: existing?.isAdmin ?? false,
+      stepUpThresholdUsd: existing?.stepUpThresholdUsd ?? "0",
       archetype: userData.archetype ?? existing?.archetype ?? 'guardian',
       dataShareOptIn: userData.dataShareOptIn ?? existing?.dataShareOptIn ?? false,
     };
@@ -274,7 +420,21 @@ export class MemStorage implements IStorage {
     const wallet: PaperWallet = {
       ...insertWallet,
       id,
+      name: insertWallet.name ?? "Main",
+      isSelected: insertWallet.isSelected ?? true,
+      startingBalance: insertWallet.startingBalance ?? "10000",
       balance: insertWallet.balance ?? "10000",
+      reservedBalance: insertWallet.reservedBalance ?? "0",
+      feeTier: insertWallet.feeTier ?? "vip0",
+      slippageEnabled: insertWallet.slippageEnabled ?? true,
+      partialFillsEnabled: insertWallet.partialFillsEnabled ?? false,
+      marginEnabled: insertWallet.marginEnabled ?? false,
+      leverage: insertWallet.leverage ?? "1",
+      maintenanceMarginRate: insertWallet.maintenanceMarginRate ?? "0.05",
+      borrowRateApr: insertWallet.borrowRateApr ?? "0.10",
+      lotMethod: insertWallet.lotMethod ?? "fifo",
+      lastResetAt: insertWallet.lastResetAt ?? null,
+      createdAt: new Date(),
     };
     this.paperWallets.set(id, wallet);
     return wallet;
@@ -308,8 +468,15 @@ export class MemStorage implements IStorage {
     const position: PaperPosition = {
       ...insertPosition,
       id,
+      side: insertPosition.side ?? "long",
+      reservedQuantity: insertPosition.reservedQuantity ?? "0",
       stopLoss: insertPosition.stopLoss ?? null,
       takeProfit: insertPosition.takeProfit ?? null,
+      margin: insertPosition.margin ?? null,
+      borrowedAmount: insertPosition.borrowedAmount ?? "0",
+      accruedInterest: insertPosition.accruedInterest ?? "0",
+      interestAccruedAt: insertPosition.interestAccruedAt ?? null,
+      liquidationPrice: insertPosition.liquidationPrice ?? null,
     };
     this.paperPositions.set(id, position);
     return position;
@@ -348,6 +515,19 @@ export class MemStorage implements IStorage {
       stopLoss: insertOrder.stopLoss ?? null,
       takeProfit: insertOrder.takeProfit ?? null,
       closedBy: insertOrder.closedBy ?? null,
+      stopPrice: insertOrder.stopPrice ?? null,
+      trailingAmount: insertOrder.trailingAmount ?? null,
+      trailingType: insertOrder.trailingType ?? null,
+      highWaterMark: insertOrder.highWaterMark ?? null,
+      ocoGroupId: insertOrder.ocoGroupId ?? null,
+      triggeredAt: insertOrder.triggeredAt ?? null,
+      reservedAmount: insertOrder.reservedAmount ?? null,
+      filledPrice: insertOrder.filledPrice ?? null,
+      filledAt: insertOrder.filledAt ?? null,
+      filledQuantity: insertOrder.filledQuantity ?? "0",
+      liquidity: insertOrder.liquidity ?? null,
+      fee: insertOrder.fee ?? "0",
+      slippage: insertOrder.slippage ?? "0",
     };
     this.paperOrders.set(id, order);
     return order;
@@ -418,6 +598,11 @@ export class MemStorage implements IStorage {
       enforceDailyLossLimit: insertSettings.enforceDailyLossLimit ?? false,
       enforceMonthlyLossLimit: insertSettings.enforceMonthlyLossLimit ?? false,
       cooldownEndTime: insertSettings.cooldownEndTime ?? null,
+      autoPausedBy: insertSettings.autoPausedBy ?? null,
+      hardDrawdownStopPercent: insertSettings.hardDrawdownStopPercent ?? null,
+      flattenOnHardStop: insertSettings.flattenOnHardStop ?? false,
+      maxVarPercent: insertSettings.maxVarPercent ?? null,
+      enforceVarLimit: insertSettings.enforceVarLimit ?? false,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+// Alert expressions stored in price_alerts.expression (see server/services/alertConditions.ts)
+
+// Portfolio alerts watch the selected paper portfolio rather than one market
+export const PORTFOLIO_ALERT_SYMBOL = "PORTFOLIO";
+
+// Candle intervals as the OHLCV routes name them
+const candleInterval = z.enum(["1", "5", "15", "30", "60", "240", "D", "W"]);
+const threshold = z.enum(["above", "below"]);
+
+export const alertExpressionSchema = z.discriminatedUnion("type", [
+  // Last price at or beyond a fixed level (the original above/below alerts)
+  z.object({
+    type: z.literal("price"),
+    operator: threshold,
+    value: z.number().positive(),
+  }),
+  // Change from the price `windowMinutes` ago, in percent (negative for drops)
+  z.object({
+    type: z.literal("percent_change"),
+    operator: threshold,
+    percent: z.number(),
+    windowMinutes: z.number().int().min(1).max(24 * 60),
+  }),
+  // Price crossing a moving average of candle closes
+  z.object({
+    type: z.literal("ma_cross"),
+    direction: z.enum(["up", "down", "either"]),
+    maType: z.enum(["sma", "ema"]),
+    period: z.number().int().min(2).max(200),
+    interval: candleInterval,
+  }),
+  z.object({
+    type: z.literal("rsi"),
+    operator: threshold,
+    value: z.number().min(0).max(100),
+    period: z.number().int().min(2).max(100).default(14),
+    interval: candleInterval,
+  }),
+  // Signal-line crosses on the latest candle, or the histogram beyond a value
+  z.object({
+    type: z.literal("macd"),
+    signal: z.enum(["bullish_cross", "bearish_cross", "histogram_above", "histogram_below"]),
+    value: z.number().default(0),
+    interval: candleInterval,
+  }),
+  // Latest candle's volume at least `multiple` times the average of the `lookback` before it
+  z.object({
+    type: z.literal("volume_spike"),
+    multiple: z.number().min(1),
+    lookback: z.number().int().min(2).max(200).default(20),
+    interval: candleInterval,
+  }),
+  // Price crossing a level drawn on the chart
+  z.object({
+    type: z.literal("level_cross"),
+    price: z.number().positive(),
+    direction: z.enum(["up", "down", "either"]),
+  }),
+  // Selected paper portfolio: P&L and equity in USD, drawdown in percent below peak
+  z.object({
+    type: z.literal("portfolio"),
+    metric: z.enum(["unrealized_pnl", "daily_pnl", "equity", "drawdown_percent"]),
+    operator: threshold,
+    value: z.number(),
+  }),
+]);
+
+export type AlertExpression = z.infer<typeof alertExpressionSchema>;
+
+// once: fire and deactivate; rearm: fire again only after the condition has gone false;
+// repeat: fire whenever it holds, at most once per cooldown
+export const ALERT_REPEAT_MODES = ["once", "rearm", "repeat"] as const;
+export type AlertRepeatMode = typeof ALERT_REPEAT_MODES[number];
+
+const INTERVAL_LABELS: Record<string, string> = {
+  "1": "1m", "5": "5m", "15": "15m", "30": "30m", "60": "1h", "240": "4h", D: "1D", W: "1W",
+};
+
+const METRIC_LABELS: Record<string, string> = {
+  unrealized_pnl: "Unrealized P&L",
+  daily_pnl: "Today's P&L",
+  equity: "Equity",
+  drawdown_percent: "Drawdown",
+};
+
+function money(value: number): string {
+  return value < 0 ? `-$${Math.abs(value).toLocaleString()}` : `$${value.toLocaleString()}`;
+}
+
+/**
+ * One-line summary of an expression, e.g. "RSI(14, 1h) above 70"
+ */
+export function describeAlertExpression(expression: AlertExpression): string {
+  switch (expression.type) {
+    case "price":
+      return `Price ${expression.operator} ${money(expression.value)}`;
+    case "percent_change":
+      return `Change over ${expression.windowMinutes}m ${expression.operator} ${expression.percent}%`;
+    case "ma_cross": {
+      const cross = expression.direction === "either" ? "crosses" : `crosses ${expression.direction === "up" ? "above" : "below"}`;
+      return `Price ${cross} ${expression.maType.toUpperCase()}(${expression.period}, ${INTERVAL_LABELS[expression.interval]})`;
+    }
+    case "rsi":
+      return `RSI(${expression.period}, ${INTERVAL_LABELS[expression.interval]}) ${expression.operator} ${expression.value}`;
+    case "macd": {
+      const interval = INTERVAL_LABELS[expression.interval];
+      switch (expression.signal) {
+        case "bullish_cross": return `MACD bullish cross (${interval})`;
+        case "bearish_cross": return `MACD bearish cross (${interval})`;
+        case "histogram_above": return `MACD histogram (${interval}) above ${expression.value}`;
+        case "histogram_below": return `MACD histogram (${interval}) below ${expression.value}`;
+      }
+    }
+    case "volume_spike":
+      return `Volume ${expression.multiple}× the ${expression.lookback}-candle average (${INTERVAL_LABELS[expression.interval]})`;
+    case "level_cross": {
+      const cross = expression.direction === "either" ? "crosses" : `crosses ${expression.direction === "up" ? "above" : "below"}`;
+      return `Price ${cross} chart level ${money(expression.price)}`;
+    }
+    case "portfolio":
+      return expression.metric === "drawdown_percent"
+        ? `${METRIC_LABELS[expression.metric]} ${expression.operator} ${expression.value}%`
+        : `${METRIC_LABELS[expression.metric]} ${expression.operator} ${money(expression.value)}`;
+  }
+}
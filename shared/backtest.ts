@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+// Strategy definitions and results for the backtester (see server/services/backtester.ts)
+
+// Candle intervals as the OHLCV routes name them
+export const BACKTEST_INTERVALS = ["15", "60", "240", "D"] as const;
+
+const period = z.number().int().min(2).max(400);
+
+// A number a rule compares: a candle price, a constant or an indicator line
+export const strategyOperandSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("price"), field: z.enum(["open", "high", "low", "close"]).default("close") }),
+  z.object({ kind: z.literal("value"), value: z.number() }),
+  z.object({ kind: z.literal("sma"), period }),
+  z.object({ kind: z.literal("ema"), period }),
+  z.object({ kind: z.literal("rsi"), period: period.default(14) }),
+  z.object({
+    kind: z.literal("macd"),
+    line: z.enum(["macd", "signal", "histogram"]),
+    fast: period.default(12),
+    slow: period.default(26),
+    signal: period.default(9),
+  }),
+  z.object({
+    kind: z.literal("bollinger"),
+    band: z.enum(["upper", "middle", "lower"]),
+    period: period.default(20),
+    stdDev: z.number().positive().max(5).default(2),
+  }),
+  z.object({ kind: z.literal("stochastic"), line: z.enum(["k", "d"]), kPeriod: period.default(14), dPeriod: period.default(3) }),
+  z.object({ kind: z.literal("atr"), period: period.default(14) }),
+  z.object({ kind: z.literal("adx"), period: period.default(14) }),
+  z.object({ kind: z.literal("supertrend"), period: period.default(10), multiplier: z.number().positive().max(10).default(3) }),
+  z.object({ kind: z.literal("vwap") }),
+]);
+
+// Crosses compare this candle with the previous one
+export const strategyRuleSchema = z.object({
+  left: strategyOperandSchema,
+  operator: z.enum(["above", "below", "crosses_above", "crosses_below"]),
+  right: strategyOperandSchema,
+});
+
+export const strategyDefinitionSchema = z.object({
+  name: z.string().min(1).max(100),
+  symbol: z.string().min(1).max(20),
+  interval: z.enum(BACKTEST_INTERVALS),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  direction: z.enum(["long", "short"]).default("long"),
+  entryRules: z.array(strategyRuleSchema).min(1).max(5), // All must hold
+  exitRules: z.array(strategyRuleSchema).max(5).default([]), // Any one closes the position
+  sizing: z.discriminatedUnion("mode", [
+    z.object({ mode: z.literal("percent_equity"), value: z.number().positive().max(100) }),
+    z.object({ mode: z.literal("fixed_usd"), value: z.number().positive() }),
+    // Percent of equity lost if the stop is hit; needs stopLossPercent
+    z.object({ mode: z.literal("risk_percent"), value: z.number().positive().max(10) }),
+  ]),
+  stopLossPercent: z.number().positive().max(50).optional(),
+  takeProfitPercent: z.number().positive().max(500).optional(),
+  initialCapital: z.number().positive().max(100_000_000).default(10_000),
+}).refine(s => s.from < s.to, { message: "from must be before to", path: ["to"] })
+  .refine(s => s.sizing.mode !== "risk_percent" || s.stopLossPercent !== undefined, {
+    message: "risk_percent sizing needs stopLossPercent",
+    path: ["stopLossPercent"],
+  });
+
+export type StrategyOperand = z.infer<typeof strategyOperandSchema>;
+export type StrategyRule = z.infer<typeof strategyRuleSchema>;
+export type StrategyDefinition = z.infer<typeof strategyDefinitionSchema>;
+
+export interface BacktestTrade {
+  side: "long" | "short";
+  entryTime: number; // UTC seconds
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  pnl: number; // After fees
+  pnlPercent: number; // Of the entry notional
+  exitReason: "signal" | "stop_loss" | "take_profit" | "end_of_data";
+}
+
+export interface BacktestMetrics {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number; // Percent
+  totalPnl: number;
+  totalReturnPercent: number;
+  avgWin: number | null;
+  avgLoss: number | null;
+  largestWin: number | null;
+  largestLoss: number | null;
+  maxDrawdownPercent: number;
+  maxDrawdownAmount: number;
+  sharpeRatio: number | null; // Annualized from per-candle returns, risk-free rate 0
+  profitFactor: number | null; // Null without losing trades
+  exposurePercent: number; // Share of candles with a position open
+  longestWinStreak: number;
+  longestLossStreak: number;
+  totalFees: number;
+}
+
+export interface BacktestResult {
+  metrics: BacktestMetrics;
+  equityCurve: { time: number; equity: number }[];
+  trades: BacktestTrade[];
+  candleCount: number;
+}
+
+const PRICE_LABELS: Record<string, string> = { open: "Open", high: "High", low: "Low", close: "Close" };
+
+/**
+ * Short label for an operand, e.g. "EMA(50)" or "MACD histogram"
+ */
+export function describeOperand(operand: StrategyOperand): string {
+  switch (operand.kind) {
+    case "price": return PRICE_LABELS[operand.field];
+    case "value": return operand.value.toString();
+    case "sma": return `SMA(${operand.period})`;
+    case "ema": return `EMA(${operand.period})`;
+    case "rsi": return `RSI(${operand.period})`;
+    case "macd": return operand.line === "macd" ? "MACD" : `MACD ${operand.line}`;
+    case "bollinger": return `Bollinger ${operand.band}`;
+    case "stochastic": return `Stochastic %${operand.line.toUpperCase()}`;
+    case "atr": return `ATR(${operand.period})`;
+    case "adx": return `ADX(${operand.period})`;
+    case "supertrend": return "SuperTrend";
+    case "vwap": return "VWAP";
+  }
+}
+
+export function describeRule(rule: StrategyRule): string {
+  return `${describeOperand(rule.left)} ${rule.operator.replace("_", " ")} ${describeOperand(rule.right)}`;
+}
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import type { Candle } from "../core";
+
+/**
+ * 80 hourly candles: a sine wave on a rising trend, so indicators see up and down swings,
+ * gaps between closes and opens, and four UTC day boundaries (at candles 2, 26, 50 and 74).
+ * The reference values in the tests were computed from the textbook formulas in a separate
+ * script, not with this library.
+ */
+export const candles: Candle[] = [];
+
+let previousClose = 100;
+for (let i = 0; i < 80; i++) {
+  const close = 100 + 10 * Math.sin(i / 5) + i * 0.3;
+  candles.push({
+    time: 1700000000 + i * 3600,
+    open: previousClose,
+    high: Math.max(previousClose, close) + 1 + (i % 3) * 0.5,
+    low: Math.min(previousClose, close) - 1 - (i % 4) * 0.25,
+    close,
+    volume: 100 + ((i * 37) % 50),
+  });
+  previousClose = close;
+}
+
+export const closes = candles.map(candle => candle.close);
+
+export function assertClose(actual: number | null | undefined, expected: number, tolerance = 1e-6): void {
+  assert.ok(
+    actual !== null && actual !== undefined && Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`
+  );
+}
+
+export function firstNonNull<T>(values: (T | null)[]): number {
+  return values.findIndex(value => value !== null);
+}
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RSI, MACD, Stochastic, series, latest } from "../index";
+import { candles, closes, assertClose, firstNonNull } from "./fixtures";
+
+describe("RSI", () => {
+  it("uses the simple average gain and loss of the last period changes", () => {
+    // Changes +2, -1, +3: average gain 5/3, average loss 1/3, RS 5
+    const values = series(new RSI(3), [10, 12, 11, 14]);
+    assert.deepEqual(values.slice(0, 3), [null, null, null]);
+    assertClose(values[3], 100 - 100 / 6);
+  });
+
+  it("is 100 without losses", () => {
+    assert.equal(latest(new RSI(3), [1, 2, 3, 4]), 100);
+  });
+
+  it("matches the reference value", () => {
+    assertClose(latest(new RSI(14), closes), 47.136638);
+  });
+});
+
+describe("MACD", () => {
+  it("starts once the signal EMA has seen a full period of MACD values", () => {
+    // Slow EMA from candle 25, signal after 9 MACD values
+    assert.equal(firstNonNull(series(new MACD(12, 26, 9), closes)), 33);
+  });
+
+  it("matches the reference values", () => {
+    const macd = latest(new MACD(12, 26, 9), closes);
+    assertClose(macd?.value, 3.057191);
+    assertClose(macd?.signal, 3.980451);
+    assertClose(macd?.histogram, -0.92326);
+  });
+});
+
+describe("Stochastic", () => {
+  it("puts the close within the kPeriod range and is 50 when the range is flat", () => {
+    const flat = { open: 5, high: 5, low: 5, close: 5 };
+    assert.deepEqual(latest(new Stochastic(2, 1), [flat, flat]), { k: 50, d: 50 });
+
+    const rising = [
+      { open: 1, high: 2, low: 0, close: 1 },
+      { open: 1, high: 4, low: 1, close: 3 },
+    ];
+    assert.deepEqual(latest(new Stochastic(2, 1), rising), { k: 75, d: 75 });
+  });
+
+  it("matches the reference values", () => {
+    const stochastic = latest(new Stochastic(14, 3), candles);
+    assertClose(stochastic?.k, 14.28649);
+    assertClose(stochastic?.d, 33.043684);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SMA, EMA, WilderAverage, series, latest } from "../index";
+import { closes, assertClose } from "./fixtures";
+
+describe("SMA", () => {
+  it("averages the last period values", () => {
+    assert.deepEqual(series(new SMA(3), [1, 2, 3, 4, 5]), [null, null, 2, 3, 4]);
+  });
+
+  it("matches the reference value", () => {
+    assertClose(latest(new SMA(20), closes), 125.276594);
+  });
+});
+
+describe("EMA", () => {
+  it("seeds with the SMA of the first period, then weights by 2 / (period + 1)", () => {
+    // Seed (1 + 2 + 3) / 3 = 2; then 2 + (4 - 2) * 0.5 = 3; then 3 + (5 - 3) * 0.5 = 4
+    assert.deepEqual(series(new EMA(3), [1, 2, 3, 4, 5]), [null, null, 2, 3, 4]);
+    assert.deepEqual(series(new EMA(3), [2, 4, 6, 2]), [null, null, 4, 3]);
+  });
+
+  it("matches the reference value", () => {
+    assertClose(latest(new EMA(20), closes), 124.413518);
+  });
+});
+
+describe("WilderAverage", () => {
+  it("seeds with the SMA, then weights by 1 / period", () => {
+    // Seed (2 + 4 + 6) / 3 = 4; then (4 * 2 + 1) / 3 = 3
+    assert.deepEqual(series(new WilderAverage(3), [2, 4, 6, 1]), [null, null, 4, 3]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SMA,
+  EMA,
+  RSI,
+  MACD,
+  BollingerBands,
+  Stochastic,
+  ATR,
+  KeltnerChannels,
+  ADX,
+  SuperTrend,
+  Ichimoku,
+  OBV,
+  VWAP,
+  series,
+  latest,
+  type Candle,
+  type StreamingIndicator,
+} from "../index";
+import { candles, closes } from "./fixtures";
+
+// Every indicator, on the input it takes; the worker, chart panels, alerts, technical
+// snapshots and the backtester all stream through these
+const cases: { name: string; create: () => StreamingIndicator<any, unknown>; inputs: (number | Candle)[] }[] = [
+  { name: "SMA", create: () => new SMA(20), inputs: closes },
+  { name: "EMA", create: () => new EMA(20), inputs: closes },
+  { name: "RSI", create: () => new RSI(14), inputs: closes },
+  { name: "MACD", create: () => new MACD(12, 26, 9), inputs: closes },
+  { name: "BollingerBands", create: () => new BollingerBands(20, 2), inputs: closes },
+  { name: "Stochastic", create: () => new Stochastic(14, 3), inputs: candles },
+  { name: "ATR", create: () => new ATR(14), inputs: candles },
+  { name: "KeltnerChannels", create: () => new KeltnerChannels(20, 10, 2), inputs: candles },
+  { name: "ADX", create: () => new ADX(14), inputs: candles },
+  { name: "SuperTrend", create: () => new SuperTrend(10, 3), inputs: candles },
+  { name: "Ichimoku", create: () => new Ichimoku(), inputs: candles },
+  { name: "OBV", create: () => new OBV(), inputs: candles },
+  { name: "VWAP", create: () => new VWAP(), inputs: candles },
+];
+
+// A forming candle that differs from the one that eventually closes
+function forming(input: number | Candle): number | Candle {
+  return typeof input === "number"
+    ? input * 1.01
+    : { ...input, high: input.high * 1.02, close: input.close * 1.01, volume: (input.volume ?? 0) / 2 };
+}
+
+for (const { name, create, inputs } of cases) {
+  describe(`${name} streaming`, () => {
+    it("gives the batch value at every candle when fed one candle at a time", () => {
+      const indicator = create();
+      inputs.forEach((input, i) => {
+        assert.deepEqual(indicator.next(input), latest(create(), inputs.slice(0, i + 1)), `candle ${i}`);
+      });
+    });
+
+    it("peeks the value next would give without changing state", () => {
+      const indicator = create();
+      const expected = series(create(), inputs);
+
+      inputs.forEach((input, i) => {
+        const peeked = indicator.peek(forming(input));
+        assert.deepEqual(peeked, latest(create(), [...inputs.slice(0, i), forming(input)]), `peek at candle ${i}`);
+        assert.deepEqual(indicator.peek(input), expected[i], `repeated peek at candle ${i}`);
+        assert.deepEqual(indicator.next(input), expected[i], `next after peeks at candle ${i}`);
+      });
+    });
+
+    it("clones state that evolves independently of the original", () => {
+      const indicator = create();
+      const half = Math.floor(inputs.length / 2);
+      inputs.slice(0, half).forEach(input => indicator.next(input));
+
+      const copy = indicator.clone();
+      inputs.slice(half).forEach(input => copy.next(forming(input)));
+
+      const rest = inputs.slice(half).map(input => indicator.next(input));
+      assert.deepEqual(rest, series(create(), inputs).slice(half));
+    });
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ADX, SuperTrend, Ichimoku, series, latest } from "../index";
+import { candles, assertClose, firstNonNull } from "./fixtures";
+
+describe("ADX", () => {
+  it("starts after two smoothing periods of directional movement", () => {
+    assert.equal(firstNonNull(series(new ADX(14), candles)), 27);
+  });
+
+  it("matches the reference values", () => {
+    const adx = latest(new ADX(14), candles);
+    assertClose(adx?.adx, 38.637303);
+    assertClose(adx?.plusDI, 16.078769);
+    assertClose(adx?.minusDI, 16.40653);
+  });
+});
+
+describe("SuperTrend", () => {
+  it("flips direction when the close crosses the active band", () => {
+    const directions = series(new SuperTrend(10, 3), candles)
+      .map(value => (value === null ? "." : value.direction === "up" ? "u" : "d"))
+      .join("");
+    assert.equal(
+      directions,
+      "........." + "d".repeat(23) + "u".repeat(18) + "d".repeat(13) + "u".repeat(17)
+    );
+  });
+
+  it("matches the reference value", () => {
+    const superTrend = latest(new SuperTrend(10, 3), candles);
+    assert.equal(superTrend?.direction, "up");
+    assertClose(superTrend?.value, 119.165087);
+  });
+});
+
+describe("Ichimoku", () => {
+  it("has a cloud once the leading spans have been displaced", () => {
+    const values = series(new Ichimoku(), candles);
+    assert.equal(firstNonNull(values), 51);
+    assert.equal(values.findIndex(value => value?.cloudA != null), 77);
+  });
+
+  it("matches the reference values", () => {
+    const ichimoku = latest(new Ichimoku(), candles);
+    assertClose(ichimoku?.tenkan, 127.155599);
+    assertClose(ichimoku?.kijun, 118.960452);
+    assertClose(ichimoku?.senkouA, 123.058026);
+    assertClose(ichimoku?.senkouB, 116.326311);
+    assertClose(ichimoku?.chikou, 122.780931);
+    assertClose(ichimoku?.cloudA, 112.184339);
+    assertClose(ichimoku?.cloudB, 109.553336);
+  });
+});
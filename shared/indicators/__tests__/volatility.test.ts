@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TrueRange, ATR, BollingerBands, KeltnerChannels, series, latest } from "../index";
+import { candles, closes, assertClose } from "./fixtures";
+
+describe("TrueRange", () => {
+  it("includes gaps from the previous close", () => {
+    const values = series(new TrueRange(), [
+      { open: 10, high: 11, low: 9, close: 10 },
+      { open: 14, high: 15, low: 14, close: 14.5 }, // Gap up: 15 - 10
+      { open: 14, high: 14.5, low: 13, close: 14 }, // Inside the previous close: high - low
+    ]);
+    assert.deepEqual(values, [2, 5, 1.5]);
+  });
+});
+
+describe("ATR", () => {
+  it("matches the reference value", () => {
+    assertClose(latest(new ATR(14), candles), 4.165429);
+  });
+});
+
+describe("BollingerBands", () => {
+  it("uses the population standard deviation", () => {
+    // Mean 5, population standard deviation 2
+    const bands = latest(new BollingerBands(8, 2), [2, 4, 4, 4, 5, 5, 7, 9]);
+    assert.deepEqual(bands, { upper: 9, middle: 5, lower: 1 });
+  });
+
+  it("matches the reference values", () => {
+    const bands = latest(new BollingerBands(20, 2), closes);
+    assertClose(bands?.upper, 136.423453);
+    assertClose(bands?.middle, 125.276594);
+    assertClose(bands?.lower, 114.129734);
+  });
+});
+
+describe("KeltnerChannels", () => {
+  it("matches the reference values", () => {
+    const channels = latest(new KeltnerChannels(20, 10, 2), candles);
+    assertClose(channels?.upper, 132.747115);
+    assertClose(channels?.middle, 124.413518);
+    assertClose(channels?.lower, 116.079921);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OBV, VWAP, series, latest } from "../index";
+import { candles, assertClose } from "./fixtures";
+
+describe("OBV", () => {
+  it("adds volume on up closes and subtracts it on down closes", () => {
+    const values = series(new OBV(), [
+      { open: 1, high: 1, low: 1, close: 1, volume: 10 },
+      { open: 1, high: 2, low: 1, close: 2, volume: 5 },
+      { open: 2, high: 2, low: 1, close: 1, volume: 3 },
+      { open: 1, high: 1, low: 1, close: 1, volume: 7 },
+    ]);
+    assert.deepEqual(values, [0, 5, 2, 2]);
+  });
+});
+
+describe("VWAP", () => {
+  it("weighs the typical price by volume and restarts each UTC day", () => {
+    const day = 24 * 60 * 60;
+    const values = series(new VWAP(), [
+      { time: 0, open: 9, high: 12, low: 9, close: 9, volume: 1 }, // Typical price 10
+      { time: 3600, open: 19, high: 22, low: 19, close: 19, volume: 3 }, // Typical price 20
+      { time: day, open: 5, high: 5, low: 5, close: 5, volume: 2 }, // New session
+    ]);
+    assert.deepEqual(values, [10, 17.5, 5]);
+  });
+
+  it("matches the reference value", () => {
+    assertClose(latest(new VWAP(), candles), 127.158677);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Streaming indicator base
+ *
+ * Every indicator is a small state machine fed one input at a time:
+ * - next(input) commits a closed candle (or close) and returns the value at it
+ * - peek(input) returns the value the forming candle would give, without committing,
+ *   so a live chart or alert can re-evaluate on every tick
+ * Values are null until the indicator has seen enough history. `series` and `latest`
+ * run an indicator over a whole array for callers that don't stream.
+ */
+
+export interface Candle {
+  time?: number; // UTC seconds; only VWAP sessions read it
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export abstract class StreamingIndicator<I, O> {
+  abstract next(input: I): O | null;
+
+  peek(input: I): O | null {
+    return this.clone().next(input);
+  }
+
+  // Copies the state: arrays, windows and nested indicators deeply, everything else by value
+  clone(): this {
+    const copy = Object.create(Object.getPrototypeOf(this));
+    for (const [key, value] of Object.entries(this)) {
+      copy[key] = cloneState(value);
+    }
+    return copy;
+  }
+}
+
+function cloneState(value: unknown): unknown {
+  if (value instanceof StreamingIndicator) return value.clone();
+  if (value instanceof RollingWindow) return value.clone();
+  if (Array.isArray(value)) return value.map(cloneState);
+  return value;
+}
+
+/**
+ * Value at every input, aligned with the inputs (null during warm-up)
+ */
+export function series<I, O>(indicator: StreamingIndicator<I, O>, inputs: I[]): (O | null)[] {
+  return inputs.map(input => indicator.next(input));
+}
+
+/**
+ * Value at the last input, or null without enough history
+ */
+export function latest<I, O>(indicator: StreamingIndicator<I, O>, inputs: I[]): O | null {
+  let value: O | null = null;
+  for (const input of inputs) {
+    value = indicator.next(input);
+  }
+  return value;
+}
+
+// Fixed-length window of the most recent values
+export class RollingWindow<T> {
+  values: T[] = [];
+
+  constructor(readonly size: number) {}
+
+  push(value: T): void {
+    this.values.push(value);
+    if (this.values.length > this.size) this.values.shift();
+  }
+
+  get full(): boolean {
+    return this.values.length === this.size;
+  }
+
+  clone(): RollingWindow<T> {
+    const copy = new RollingWindow<T>(this.size);
+    copy.values = this.values.slice();
+    return copy;
+  }
+}
+
+// (highest high + lowest low) / 2 over a window of candles
+export function midpoint(candles: Candle[]): number {
+  let high = -Infinity;
+  let low = Infinity;
+  for (const candle of candles) {
+    if (candle.high > high) high = candle.high;
+    if (candle.low < low) low = candle.low;
+  }
+  return (high + low) / 2;
+}
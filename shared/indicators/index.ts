@@ -0,0 +1,12 @@
+/**
+ * Technical indicators shared by the chart, its worker and the server (alerts, AI prompts)
+ *
+ * Import from "@shared/indicators". See core.ts for the streaming model.
+ */
+
+export { StreamingIndicator, RollingWindow, series, latest, type Candle } from "./core";
+export { SMA, EMA, WilderAverage } from "./movingAverages";
+export { RSI, MACD, Stochastic, type MACDValue, type StochasticValue } from "./momentum";
+export { TrueRange, ATR, BollingerBands, KeltnerChannels, type BandValue } from "./volatility";
+export { ADX, SuperTrend, Ichimoku, type ADXValue, type SuperTrendValue, type IchimokuValue } from "./trend";
+export { OBV, VWAP } from "./volume";
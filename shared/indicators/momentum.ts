@@ -0,0 +1,98 @@
+import { StreamingIndicator, RollingWindow, type Candle } from "./core";
+import { SMA, EMA } from "./movingAverages";
+
+/**
+ * Momentum oscillators: RSI, MACD and Stochastic
+ */
+
+export interface MACDValue {
+  value: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number;
+}
+
+// RSI from the simple average gain and loss of the last period, as the chart has always drawn it
+export class RSI extends StreamingIndicator<number, number> {
+  private previous: number | null = null;
+  private gains: SMA;
+  private losses: SMA;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.gains = new SMA(period);
+    this.losses = new SMA(period);
+  }
+
+  next(close: number): number | null {
+    if (this.previous === null) {
+      this.previous = close;
+      return null;
+    }
+
+    const change = close - this.previous;
+    this.previous = close;
+    const avgGain = this.gains.next(change > 0 ? change : 0);
+    const avgLoss = this.losses.next(change < 0 ? -change : 0);
+    if (avgGain === null || avgLoss === null) return null;
+
+    if (avgLoss === 0) return 100;
+    return 100 - (100 / (1 + avgGain / avgLoss));
+  }
+}
+
+// MACD line (fast EMA - slow EMA), its signal-period EMA and the difference
+export class MACD extends StreamingIndicator<number, MACDValue> {
+  private fastEma: EMA;
+  private slowEma: EMA;
+  private signalEma: EMA;
+
+  constructor(readonly fast: number = 12, readonly slow: number = 26, readonly signal: number = 9) {
+    super();
+    this.fastEma = new EMA(fast);
+    this.slowEma = new EMA(slow);
+    this.signalEma = new EMA(signal);
+  }
+
+  next(close: number): MACDValue | null {
+    const fast = this.fastEma.next(close);
+    const slow = this.slowEma.next(close);
+    if (fast === null || slow === null) return null;
+
+    const value = fast - slow;
+    const signal = this.signalEma.next(value);
+    if (signal === null) return null;
+
+    return { value, signal, histogram: value - signal };
+  }
+}
+
+// %K: close within the kPeriod range (50 when the range is flat); %D: SMA of %K
+export class Stochastic extends StreamingIndicator<Candle, StochasticValue> {
+  private window: RollingWindow<Candle>;
+  private dAverage: SMA;
+
+  constructor(readonly kPeriod: number = 14, readonly dPeriod: number = 3) {
+    super();
+    this.window = new RollingWindow(kPeriod);
+    this.dAverage = new SMA(dPeriod);
+  }
+
+  next(candle: Candle): StochasticValue | null {
+    this.window.push(candle);
+    if (!this.window.full) return null;
+
+    const lowestLow = Math.min(...this.window.values.map(c => c.low));
+    const highestHigh = Math.max(...this.window.values.map(c => c.high));
+    const k = highestHigh !== lowestLow
+      ? ((candle.close - lowestLow) / (highestHigh - lowestLow)) * 100
+      : 50;
+
+    const d = this.dAverage.next(k);
+    return d === null ? null : { k, d };
+  }
+}
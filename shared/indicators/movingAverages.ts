@@ -0,0 +1,61 @@
+import { StreamingIndicator } from "./core";
+
+/**
+ * Moving averages of a value stream (usually closes)
+ */
+
+// Simple moving average; the window is re-summed on each update so it never drifts
+export class SMA extends StreamingIndicator<number, number> {
+  private window: number[] = [];
+
+  constructor(readonly period: number) {
+    super();
+  }
+
+  next(value: number): number | null {
+    this.window.push(value);
+    if (this.window.length > this.period) this.window.shift();
+    if (this.window.length < this.period) return null;
+    return this.window.reduce((sum, v) => sum + v, 0) / this.period;
+  }
+}
+
+// Exponential moving average, seeded with the SMA of the first period
+export class EMA extends StreamingIndicator<number, number> {
+  private seed: SMA;
+  private value: number | null = null;
+
+  constructor(readonly period: number) {
+    super();
+    this.seed = new SMA(period);
+  }
+
+  next(value: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.next(value);
+      return this.value;
+    }
+    this.value = (value - this.value) * (2 / (this.period + 1)) + this.value;
+    return this.value;
+  }
+}
+
+// Wilder's smoothing (RMA), as ATR, ADX and Wilder's RSI use: alpha = 1 / period
+export class WilderAverage extends StreamingIndicator<number, number> {
+  private seed: SMA;
+  private value: number | null = null;
+
+  constructor(readonly period: number) {
+    super();
+    this.seed = new SMA(period);
+  }
+
+  next(value: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.next(value);
+      return this.value;
+    }
+    this.value = (this.value * (this.period - 1) + value) / this.period;
+    return this.value;
+  }
+}
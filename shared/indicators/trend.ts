@@ -0,0 +1,151 @@
+import { StreamingIndicator, RollingWindow, midpoint, type Candle } from "./core";
+import { WilderAverage } from "./movingAverages";
+import { ATR, TrueRange } from "./volatility";
+
+/**
+ * Trend: ADX, SuperTrend and Ichimoku
+ */
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface SuperTrendValue {
+  value: number; // The active band: support in an uptrend, resistance in a downtrend
+  direction: "up" | "down";
+}
+
+export interface IchimokuValue {
+  tenkan: number; // Conversion line
+  kijun: number; // Base line
+  senkouA: number; // Leading spans, plotted `displacement` candles ahead
+  senkouB: number;
+  chikou: number; // Lagging span: this close, plotted `displacement` candles back
+  cloudA: number | null; // Leading spans computed `displacement` candles ago: the cloud at this candle
+  cloudB: number | null;
+}
+
+// Wilder's Average Directional Index with the +DI/-DI lines
+export class ADX extends StreamingIndicator<Candle, ADXValue> {
+  private previous: Candle | null = null;
+  private trueRange = new TrueRange();
+  private smoothedRange: WilderAverage;
+  private smoothedPlus: WilderAverage;
+  private smoothedMinus: WilderAverage;
+  private smoothedDx: WilderAverage;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.smoothedRange = new WilderAverage(period);
+    this.smoothedPlus = new WilderAverage(period);
+    this.smoothedMinus = new WilderAverage(period);
+    this.smoothedDx = new WilderAverage(period);
+  }
+
+  next(candle: Candle): ADXValue | null {
+    const range = this.trueRange.next(candle);
+    const previous = this.previous;
+    this.previous = candle;
+    if (previous === null) return null;
+
+    const up = candle.high - previous.high;
+    const down = previous.low - candle.low;
+    const atr = this.smoothedRange.next(range);
+    const plusDM = this.smoothedPlus.next(up > down && up > 0 ? up : 0);
+    const minusDM = this.smoothedMinus.next(down > up && down > 0 ? down : 0);
+    if (atr === null || plusDM === null || minusDM === null) return null;
+
+    const plusDI = atr > 0 ? (plusDM / atr) * 100 : 0;
+    const minusDI = atr > 0 ? (minusDM / atr) * 100 : 0;
+    const dx = plusDI + minusDI > 0 ? (Math.abs(plusDI - minusDI) / (plusDI + minusDI)) * 100 : 0;
+    const adx = this.smoothedDx.next(dx);
+
+    return adx === null ? null : { adx, plusDI, minusDI };
+  }
+}
+
+// ATR bands around the candle midpoint that only tighten while the trend holds
+export class SuperTrend extends StreamingIndicator<Candle, SuperTrendValue> {
+  private atr: ATR;
+  private previousClose: number | null = null;
+  private upper: number | null = null;
+  private lower: number | null = null;
+  private direction: "up" | "down" = "down";
+
+  constructor(readonly period: number = 10, readonly multiplier: number = 3) {
+    super();
+    this.atr = new ATR(period);
+  }
+
+  next(candle: Candle): SuperTrendValue | null {
+    const atr = this.atr.next(candle);
+    const previousClose = this.previousClose;
+    this.previousClose = candle.close;
+    if (atr === null) return null;
+
+    const mid = (candle.high + candle.low) / 2;
+    const basicUpper = mid + this.multiplier * atr;
+    const basicLower = mid - this.multiplier * atr;
+
+    const upper = this.upper === null || basicUpper < this.upper || (previousClose !== null && previousClose > this.upper)
+      ? basicUpper
+      : this.upper;
+    const lower = this.lower === null || basicLower > this.lower || (previousClose !== null && previousClose < this.lower)
+      ? basicLower
+      : this.lower;
+
+    // The first value starts in a downtrend, as TradingView's does
+    if (this.upper !== null) {
+      this.direction = this.direction === "down"
+        ? (candle.close > upper ? "up" : "down")
+        : (candle.close < lower ? "down" : "up");
+    }
+    this.upper = upper;
+    this.lower = lower;
+
+    return { value: this.direction === "up" ? lower : upper, direction: this.direction };
+  }
+}
+
+// Ichimoku Kinko Hyo; null until the senkou B period has passed
+export class Ichimoku extends StreamingIndicator<Candle, IchimokuValue> {
+  private window: RollingWindow<Candle>;
+  private spans: RollingWindow<{ a: number; b: number }>;
+
+  constructor(
+    readonly tenkanPeriod: number = 9,
+    readonly kijunPeriod: number = 26,
+    readonly senkouBPeriod: number = 52,
+    readonly displacement: number = 26
+  ) {
+    super();
+    this.window = new RollingWindow(Math.max(tenkanPeriod, kijunPeriod, senkouBPeriod));
+    this.spans = new RollingWindow(displacement + 1);
+  }
+
+  next(candle: Candle): IchimokuValue | null {
+    this.window.push(candle);
+    const candles = this.window.values;
+    if (candles.length < this.senkouBPeriod) return null;
+
+    const tenkan = midpoint(candles.slice(-this.tenkanPeriod));
+    const kijun = midpoint(candles.slice(-this.kijunPeriod));
+    const senkouA = (tenkan + kijun) / 2;
+    const senkouB = midpoint(candles.slice(-this.senkouBPeriod));
+
+    this.spans.push({ a: senkouA, b: senkouB });
+    const cloud = this.spans.full ? this.spans.values[0] : null;
+
+    return {
+      tenkan,
+      kijun,
+      senkouA,
+      senkouB,
+      chikou: candle.close,
+      cloudA: cloud?.a ?? null,
+      cloudB: cloud?.b ?? null,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { StreamingIndicator, type Candle } from "./core";
+import { EMA, WilderAverage } from "./movingAverages";
+
+/**
+ * Volatility: true range, ATR, Bollinger Bands and Keltner Channels
+ */
+
+export interface BandValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+// Largest of the candle's range and its gaps from the previous close
+export class TrueRange extends StreamingIndicator<Candle, number> {
+  private previousClose: number | null = null;
+
+  next(candle: Candle): number {
+    const range = this.previousClose === null
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - this.previousClose),
+          Math.abs(candle.low - this.previousClose)
+        );
+    this.previousClose = candle.close;
+    return range;
+  }
+}
+
+// Average True Range with Wilder's smoothing
+export class ATR extends StreamingIndicator<Candle, number> {
+  private trueRange = new TrueRange();
+  private average: WilderAverage;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.average = new WilderAverage(period);
+  }
+
+  next(candle: Candle): number | null {
+    return this.average.next(this.trueRange.next(candle));
+  }
+}
+
+// SMA of closes ± stdDev population standard deviations
+export class BollingerBands extends StreamingIndicator<number, BandValue> {
+  private window: number[] = [];
+
+  constructor(readonly period: number = 20, readonly stdDev: number = 2) {
+    super();
+  }
+
+  next(close: number): BandValue | null {
+    this.window.push(close);
+    if (this.window.length > this.period) this.window.shift();
+    if (this.window.length < this.period) return null;
+
+    const middle = this.window.reduce((sum, price) => sum + price, 0) / this.period;
+    const variance = this.window.reduce((sum, price) => sum + Math.pow(price - middle, 2), 0) / this.period;
+    const sd = Math.sqrt(variance);
+
+    return { upper: middle + this.stdDev * sd, middle, lower: middle - this.stdDev * sd };
+  }
+}
+
+// EMA of closes ± multiplier ATRs
+export class KeltnerChannels extends StreamingIndicator<Candle, BandValue> {
+  private ema: EMA;
+  private atr: ATR;
+
+  constructor(readonly emaPeriod: number = 20, readonly atrPeriod: number = 10, readonly multiplier: number = 2) {
+    super();
+    this.ema = new EMA(emaPeriod);
+    this.atr = new ATR(atrPeriod);
+  }
+
+  next(candle: Candle): BandValue | null {
+    const middle = this.ema.next(candle.close);
+    const atr = this.atr.next(candle);
+    if (middle === null || atr === null) return null;
+
+    return { upper: middle + this.multiplier * atr, middle, lower: middle - this.multiplier * atr };
+  }
+}
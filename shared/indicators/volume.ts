@@ -0,0 +1,53 @@
+import { StreamingIndicator, type Candle } from "./core";
+
+/**
+ * Volume: On-Balance Volume and VWAP
+ */
+
+// Running volume total, added on up closes and subtracted on down closes; starts at 0
+export class OBV extends StreamingIndicator<Candle, number> {
+  private previousClose: number | null = null;
+  private total = 0;
+
+  next(candle: Candle): number {
+    if (this.previousClose !== null) {
+      const volume = candle.volume ?? 0;
+      if (candle.close > this.previousClose) this.total += volume;
+      else if (candle.close < this.previousClose) this.total -= volume;
+    }
+    this.previousClose = candle.close;
+    return this.total;
+  }
+}
+
+/**
+ * Volume-weighted average of the typical price ((high + low + close) / 3), restarting each
+ * session of `sessionSeconds` (UTC days by default; 0 never restarts). Candles without a
+ * time never restart, and candles without volume weigh one each.
+ */
+export class VWAP extends StreamingIndicator<Candle, number> {
+  private session: number | null = null;
+  private weightedSum = 0;
+  private totalWeight = 0;
+
+  constructor(readonly sessionSeconds: number = 24 * 60 * 60) {
+    super();
+  }
+
+  next(candle: Candle): number | null {
+    if (this.sessionSeconds > 0 && candle.time !== undefined) {
+      const session = Math.floor(candle.time / this.sessionSeconds);
+      if (session !== this.session) {
+        this.session = session;
+        this.weightedSum = 0;
+        this.totalWeight = 0;
+      }
+    }
+
+    const weight = candle.volume ?? 1;
+    this.weightedSum += ((candle.high + candle.low + candle.close) / 3) * weight;
+    this.totalWeight += weight;
+
+    return this.totalWeight > 0 ? this.weightedSum / this.totalWeight : null;
+  }
+}
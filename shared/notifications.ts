@@ -0,0 +1,10 @@
+// Notification categories and delivery channels, shared by the inbox, preferences and settings UI
+
+export const NOTIFICATION_CATEGORIES = ["price_alert", "risk", "order_trigger"] as const;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+// Channels besides the in-app inbox, which always receives every notification
+export const NOTIFICATION_CHANNELS = ["email", "webhook"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export type NotificationChannelMap = Partial<Record<NotificationCategory, NotificationChannel[]>>;
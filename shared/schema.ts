@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,15 +29,34 @@ export const users = pgTable("users", {
   phone: varchar("phone").unique(),
   totpSecret: varchar("totp_secret"), // For Google Authenticator
   totpEnabled: boolean("totp_enabled").default(false),
+  totpLastStep: integer("totp_last_step"), // 30s step of the last accepted code; that step and earlier ones are spent
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   // Trading fields
   tradingPaused: boolean("trading_paused").default(false).notNull(),
+  stepUpThresholdUsd: decimal("step_up_threshold_usd", { precision: 18, scale: 2 }).default("0").notNull(), // Live orders at or above this notional need 2FA; 0 = every order
+  isAdmin: boolean("is_admin").default(false).notNull(), // May manage the symbol registry
   // North Star Mission Fields (Oct 2025)
   archetype: text("archetype").default("guardian"), // 'guardian', 'adaptive', 'custom'
   dataShareOptIn: boolean("data_share_opt_in").default(false).notNull(), // Global Ensemble consent
 });
 
+// Symbol registry: every tradable asset, its order filters and its ID at each market data provider
+export const tradingSymbols = pgTable("trading_symbols", {
+  symbol: varchar("symbol", { length: 20 }).primaryKey(), // e.g. 'BTC'
+  name: text("name").notNull(), // e.g. 'Bitcoin'
+  baseAsset: varchar("base_asset", { length: 20 }).notNull(),
+  quoteAsset: varchar("quote_asset", { length: 20 }).default("USD").notNull(),
+  tickSize: decimal("tick_size", { precision: 18, scale: 8 }).notNull(), // Smallest price increment
+  lotSize: decimal("lot_size", { precision: 18, scale: 8 }).notNull(), // Smallest quantity increment
+  minNotional: decimal("min_notional", { precision: 18, scale: 2 }).default("1").notNull(), // Smallest order value
+  providerIds: jsonb("provider_ids").$type<Record<string, string>>().default({}).notNull(), // { coinbase: 'BTC-USD', kraken: 'XBT/USD', ... }
+  status: text("status").default("active").notNull(), // 'active' or 'delisted'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  delistedAt: timestamp("delisted_at"),
+});
+
 export const trades = pgTable("trades", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -50,36 +69,174 @@ export const trades = pgTable("trades", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// One row per named paper portfolio; a user can run several side by side
 export const paperWallets = pgTable("paper_wallets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id).unique(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").default("Main").notNull(), // e.g. "Swing test", "DCA experiment"
+  isSelected: boolean("is_selected").default(true).notNull(), // The portfolio /api/paper/* and Risk Guard act on
+  startingBalance: decimal("starting_balance", { precision: 18, scale: 2 }).default("10000").notNull(), // Balance restored on reset
   balance: decimal("balance", { precision: 18, scale: 2 }).default("10000").notNull(),
-});
+  reservedBalance: decimal("reserved_balance", { precision: 18, scale: 2 }).default("0").notNull(), // Held by resting buy limit orders
+
+  // Execution model applied to fills
+  feeTier: text("fee_tier").default("vip0").notNull(), // Binance-style maker/taker tier: 'vip0' .. 'vip9'
+  slippageEnabled: boolean("slippage_enabled").default(true).notNull(), // Taker fills walk the synthetic order book
+  partialFillsEnabled: boolean("partial_fills_enabled").default(false).notNull(), // Fills are capped by available book depth
+
+  // Margin mode: leveraged longs and shorts on isolated margin
+  marginEnabled: boolean("margin_enabled").default(false).notNull(),
+  leverage: decimal("leverage", { precision: 5, scale: 2 }).default("1").notNull(),
+  maintenanceMarginRate: decimal("maintenance_margin_rate", { precision: 6, scale: 4 }).default("0.05").notNull(), // Liquidate when equity falls below this share of position value
+  borrowRateApr: decimal("borrow_rate_apr", { precision: 6, scale: 4 }).default("0.10").notNull(), // Annual interest on borrowed cash (longs) or asset value (shorts)
+
+  lotMethod: text("lot_method").default("fifo").notNull(), // How spot sells match buy lots: 'fifo', 'lifo' or 'average'
+
+  lastResetAt: timestamp("last_reset_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_paper_wallets_user_name").on(table.userId, table.name),
+]);
+
+// Archived state of a paper portfolio, taken on reset or on demand
+export const paperPortfolioSnapshots = pgTable("paper_portfolio_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => paperWallets.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(), // Portfolio name at snapshot time
+  reason: text("reason").notNull(), // 'reset' or 'manual'
+  startingBalance: decimal("starting_balance", { precision: 18, scale: 2 }).notNull(),
+  balance: decimal("balance", { precision: 18, scale: 2 }).notNull(),
+  equity: decimal("equity", { precision: 18, scale: 2 }).notNull(), // Cash plus open positions at market
+  totalPnl: decimal("total_pnl", { precision: 18, scale: 2 }).notNull(), // Equity minus starting balance
+  positions: jsonb("positions").notNull(), // Open positions with their market value
+  orderCount: integer("order_count").default(0).notNull(),
+  openOrderCount: integer("open_order_count").default(0).notNull(),
+  periodStart: timestamp("period_start").notNull(), // Portfolio creation or previous reset
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_paper_snapshots_wallet").on(table.walletId, table.createdAt),
+]);
+
+// Portfolio equity marked to market over time; Risk Guard's daily, monthly and drawdown
+// limits measure against it
+export const paperEquityHistory = pgTable("paper_equity_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => paperWallets.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  balance: decimal("balance", { precision: 18, scale: 2 }).notNull(), // Cash
+  positionsValue: decimal("positions_value", { precision: 18, scale: 2 }).notNull(), // Open positions at market (margin positions at their equity)
+  equity: decimal("equity", { precision: 18, scale: 2 }).notNull(), // balance + positionsValue
+  realizedPnl: decimal("realized_pnl", { precision: 18, scale: 8 }).notNull(), // Cumulative since the last reset
+  unrealizedPnl: decimal("unrealized_pnl", { precision: 18, scale: 8 }).notNull(), // Equity minus starting balance minus realized
+  reason: text("reason").notNull(), // 'interval' or 'trade'
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_paper_equity_wallet").on(table.walletId, table.recordedAt),
+]);
 
 export const paperPositions = pgTable("paper_positions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => paperWallets.id),
   symbol: text("symbol").notNull(),
+  side: text("side").default("long").notNull(), // 'long' or 'short' (shorts need a margin wallet)
   quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
-  avgPrice: decimal("avg_price", { precision: 18, scale: 2 }).notNull(),
+  reservedQuantity: decimal("reserved_quantity", { precision: 18, scale: 8 }).default("0").notNull(), // Held by resting sell limit orders
+  avgPrice: decimal("avg_price", { precision: 18, scale: 8 }).notNull(), // Cost basis of the open lots, fees included
   stopLoss: decimal("stop_loss", { precision: 18, scale: 2 }),
   takeProfit: decimal("take_profit", { precision: 18, scale: 2 }),
+
+  // Margin positions only (margin is null for spot holdings)
+  margin: decimal("margin", { precision: 18, scale: 2 }), // Collateral posted from the wallet
+  borrowedAmount: decimal("borrowed_amount", { precision: 18, scale: 2 }).default("0").notNull(), // Cash borrowed (longs) or short sale proceeds held (shorts)
+  accruedInterest: decimal("accrued_interest", { precision: 18, scale: 8 }).default("0").notNull(),
+  interestAccruedAt: timestamp("interest_accrued_at"),
+  liquidationPrice: decimal("liquidation_price", { precision: 18, scale: 8 }),
 });
 
+// One row per opening fill; closing fills draw the lots down by the wallet's lot method
+export const paperTaxLots = pgTable("paper_tax_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => paperWallets.id),
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(), // 'long' or 'short'
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(), // Quantity opened
+  remainingQuantity: decimal("remaining_quantity", { precision: 18, scale: 8 }).notNull(), // Not yet matched by a closing fill
+  costPrice: decimal("cost_price", { precision: 18, scale: 8 }).notNull(), // Fill price with the entry fee folded in
+  fee: decimal("fee", { precision: 18, scale: 8 }).default("0").notNull(), // Entry fee, quote currency
+  openedAt: timestamp("opened_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"), // Set once remainingQuantity reaches 0
+}, (table) => [
+  index("idx_paper_tax_lots_open").on(table.walletId, table.symbol, table.side, table.openedAt),
+]);
+
+// Realized P&L of every closing fill, one row per lot it matched.
+// The source of truth for the trade journal, Trading DNA and the peace index.
+export const paperRealizedPnl = pgTable("paper_realized_pnl", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => paperWallets.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  orderId: varchar("order_id").notNull(), // Closing order
+  lotId: varchar("lot_id"), // Null for quantity opened before lots were tracked
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(), // Side of the position closed: 'long' or 'short'
+  method: text("method").notNull(), // 'fifo', 'lifo' or 'average'
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  entryPrice: decimal("entry_price", { precision: 18, scale: 8 }).notNull(), // Lot cost price
+  exitPrice: decimal("exit_price", { precision: 18, scale: 8 }).notNull(),
+  costs: decimal("costs", { precision: 18, scale: 8 }).default("0").notNull(), // Share of the exit fee and borrow interest
+  realizedPnl: decimal("realized_pnl", { precision: 18, scale: 8 }).notNull(),
+  openedAt: timestamp("opened_at"), // When the matched lot was opened
+  closedAt: timestamp("closed_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_paper_realized_user").on(table.userId, table.closedAt),
+  index("idx_paper_realized_wallet").on(table.walletId, table.closedAt),
+]);
+
 export const paperOrders = pgTable("paper_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => paperWallets.id),
   symbol: text("symbol").notNull(),
   side: text("side").notNull(), // 'buy' or 'sell'
-  orderType: text("order_type").notNull(), // 'market' or 'limit'
+  orderType: text("order_type").notNull(), // 'market', 'limit', 'stop_market', 'stop_limit', 'trailing_stop'
   quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
-  price: decimal("price", { precision: 18, scale: 2 }),
-  status: text("status").default("pending").notNull(), // 'completed', 'pending', 'cancelled'
+  price: decimal("price", { precision: 18, scale: 8 }), // Limit price (limit, stop_limit)
+  stopPrice: decimal("stop_price", { precision: 18, scale: 8 }), // Trigger price (stop_market, stop_limit, current trailing stop level)
+  trailingAmount: decimal("trailing_amount", { precision: 18, scale: 8 }), // Trailing offset in $ or %
+  trailingType: text("trailing_type"), // 'absolute' or 'percent'
+  highWaterMark: decimal("high_water_mark", { precision: 18, scale: 8 }), // Best price seen by a trailing stop (low-water mark for buys)
+  ocoGroupId: varchar("oco_group_id"), // Legs sharing a group cancel each other when one fills
+  triggeredAt: timestamp("triggered_at"), // When a stop_limit turned into a resting limit
+  status: text("status").default("pending").notNull(), // 'completed', 'pending', 'partially_filled', 'cancelled'
   stopLoss: decimal("stop_loss", { precision: 18, scale: 2 }),
   takeProfit: decimal("take_profit", { precision: 18, scale: 2 }),
-  closedBy: text("closed_by"), // 'stop_loss', 'take_profit', 'manual', null
+  closedBy: text("closed_by"), // 'stop_loss', 'take_profit', 'manual', 'liquidation', 'risk_stop', null
+  reservedAmount: decimal("reserved_amount", { precision: 18, scale: 8 }), // Cash (buy) or quantity (sell) held while pending
+  filledPrice: decimal("filled_price", { precision: 18, scale: 8 }), // Volume-weighted average across fills
+  filledQuantity: decimal("filled_quantity", { precision: 18, scale: 8 }).default("0").notNull(),
+  filledAt: timestamp("filled_at"),
+  liquidity: text("liquidity"), // 'maker' or 'taker'
+  fee: decimal("fee", { precision: 18, scale: 8 }).default("0").notNull(), // Quote currency, summed across fills
+  slippage: decimal("slippage", { precision: 18, scale: 8 }).default("0").notNull(), // Quote currency lost to book impact
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+}, (table) => [
+  index("idx_paper_orders_status_symbol").on(table.status, table.symbol),
+]);
+
+// Idempotency keys for POST /api/paper/order: a retried request gets the first response back
+export const paperOrderRequests = pgTable("paper_order_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(),
+  requestHash: varchar("request_hash", { length: 64 }).notNull(), // SHA-256 of the request body
+  status: text("status").default("processing").notNull(), // 'processing' or 'completed'
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  uniqueIndex("idx_paper_order_requests_key").on(table.userId, table.idempotencyKey),
+]);
 
 export const aiBriefings = pgTable("ai_briefings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -122,18 +279,90 @@ export const riskGuardSettings = pgTable("risk_guard_settings", {
   // Auto-pause settings
   autoPauseEnabled: boolean("auto_pause_enabled").default(true).notNull(),
   cooldownEndTime: timestamp("cooldown_end_time"), // When the cooldown period ends
+  autoPausedBy: text("auto_paused_by"), // Rule holding an automatic pause: 'loss_limit', 'consecutive_losses' or 'hard_stop'; null when trading is active or paused by the user
+
+  // Hard drawdown stop: pause (and optionally flatten) at this drawdown; only the user can resume
+  hardDrawdownStopPercent: decimal("hard_drawdown_stop_percent", { precision: 5, scale: 2 }), // Null = off
+  flattenOnHardStop: boolean("flatten_on_hard_stop").default(false).notNull(),
+
+  // Value-at-Risk limit: one-day 95% historical VaR of the book after a trade, as % of equity
+  maxVarPercent: decimal("max_var_percent", { precision: 5, scale: 2 }), // Null = off
+  enforceVarLimit: boolean("enforce_var_limit").default(false).notNull(), // Default: warn only
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Audit trail of every Risk Guard trading state change (pauses, resumes, cooldowns, flattening)
+export const riskGuardEvents = pgTable("risk_guard_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  walletId: varchar("wallet_id").references(() => paperWallets.id),
+  action: text("action").notNull(), // 'paused', 'resumed', 'cooldown_started', 'cooldown_ended', 'flattened'
+  source: text("source").notNull(), // 'supervisor', 'trade' or 'user'
+  reason: text("reason").notNull(),
+  details: jsonb("details"), // Figures behind the decision (equity, drawdown, closed positions)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_risk_guard_events_user").on(table.userId, table.createdAt),
+]);
+
+// In-app notification inbox; every notification lands here, whatever else delivers it
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  category: text("category").notNull(), // 'price_alert', 'risk' or 'order_trigger'
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  data: jsonb("data"), // The alert, order or Risk Guard event behind it
+  dedupeKey: text("dedupe_key"), // Repeats of the same key within the dedupe window are dropped
+  urgent: boolean("urgent").default(false).notNull(), // Delivered during quiet hours
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_notifications_user").on(table.userId, table.createdAt),
+  index("idx_notifications_dedupe").on(table.userId, table.dedupeKey, table.createdAt),
+]);
+
+// Where each user's notifications go besides the inbox
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  channels: jsonb("channels"), // { [category]: ('email' | 'webhook')[] }; null = inbox only
+  webhookUrl: text("webhook_url"),
+  quietHoursStart: text("quiet_hours_start"), // 'HH:MM' in timeZone; null = no quiet hours
+  quietHoursEnd: text("quiet_hours_end"),
+  timeZone: text("time_zone").default("UTC").notNull(), // IANA name, e.g. 'Europe/London'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Delivery log: one row per email or webhook delivery. Quiet hours leave it 'held' until
+// the window ends and it is sent.
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  notificationId: varchar("notification_id").notNull().references(() => notifications.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  channel: text("channel").notNull(), // 'email' or 'webhook'
+  transport: text("transport").notNull(), // 'resend', 'webhook' or 'local'
+  status: text("status").notNull(), // 'sent', 'failed' or 'held'
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  attemptedAt: timestamp("attempted_at"), // Set when a held delivery is finally tried
+}, (table) => [
+  index("idx_notification_deliveries_user").on(table.userId, table.createdAt),
+  index("idx_notification_deliveries_status").on(table.status),
+  index("idx_notification_deliveries_notification").on(table.notificationId),
+]);
+
 // OTP Codes table for Email/Phone verification
 export const otpCodes = pgTable("otp_codes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   identifier: varchar("identifier").notNull(), // email or phone number
   code: varchar("code", { length: 6 }).notNull(),
-  type: varchar("type", { length: 10 }).notNull(), // 'email' or 'phone'
+  type: varchar("type", { length: 10 }).notNull(), // 'email', 'phone' or 'step_up'
+  scope: varchar("scope"), // What a step_up code confirms: the action, plus the execution token for live orders
   expiresAt: timestamp("expires_at").notNull(),
   verified: boolean("verified").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -206,12 +435,19 @@ export const watchlist = pgTable("watchlist", {
 export const priceAlerts = pgTable("price_alerts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  symbol: text("symbol").notNull(),
-  condition: text("condition").notNull(), // 'above' or 'below'
-  targetPrice: decimal("target_price", { precision: 18, scale: 2 }).notNull(),
+  symbol: text("symbol").notNull(), // 'PORTFOLIO' for portfolio alerts
+  condition: text("condition").notNull(), // 'above' or 'below' for price alerts; otherwise the expression type
+  targetPrice: decimal("target_price", { precision: 18, scale: 2 }), // Price alerts only
+  expression: jsonb("expression"), // AlertExpression (shared/alertConditions.ts); null = condition/targetPrice
+  repeatMode: text("repeat_mode").default("once").notNull(), // 'once', 'rearm' or 'repeat'
+  cooldownMinutes: integer("cooldown_minutes").default(0).notNull(), // Minimum gap between firings
+  armed: boolean("armed").default(true).notNull(), // Rearm mode: false until the condition goes false again
+  triggerCount: integer("trigger_count").default(0).notNull(),
+  expiresAt: timestamp("expires_at"), // Deactivated after this; null = never
+  drawingId: text("drawing_id"), // Chart drawing that created the alert
   isActive: boolean("is_active").default(true).notNull(),
   triggered: boolean("triggered").default(false).notNull(),
-  triggeredAt: timestamp("triggered_at"),
+  triggeredAt: timestamp("triggered_at"), // Last firing
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_alerts_user").on(table.userId),
@@ -222,7 +458,8 @@ export const priceAlerts = pgTable("price_alerts", {
 export const exchangeConnections = pgTable("exchange_connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  exchange: text("exchange").notNull(), // 'binance', 'coinbase', etc.
+  exchange: text("exchange").notNull(), // 'binance', 'kraken', 'mock' (see exchangeAdapter.ts)
+  testnet: boolean("testnet").default(false).notNull(), // Sandbox endpoints, where the exchange has them
   encryptedApiKey: text("encrypted_api_key").notNull(), // AES-256 encrypted
   encryptedApiSecret: text("encrypted_api_secret").notNull(), // AES-256 encrypted
   permissions: text("permissions").notNull(), // 'read' | 'trade' | 'trade_auto'
@@ -242,7 +479,7 @@ export const executionTokens = pgTable("execution_tokens", {
   token: varchar("token").notNull().unique(),
   orderPayload: text("order_payload").notNull(), // JSON stringified order details
   preCheckResult: text("pre_check_result").notNull(), // JSON with validation results
-  status: text("status").default("pending").notNull(), // 'pending', 'confirmed', 'expired', 'rejected'
+  status: text("status").default("pending").notNull(), // 'pending', 'executing', 'confirmed', 'failed', 'expired', 'rejected'
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
@@ -251,6 +488,67 @@ export const executionTokens = pgTable("execution_tokens", {
   index("idx_token_expires").on(table.expiresAt),
 ]);
 
+// Live (real money) exchange orders, kept in step with the exchange by the reconciliation worker
+export const liveOrders = pgTable("live_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  connectionId: varchar("connection_id").notNull().references(() => exchangeConnections.id),
+  exchange: text("exchange").notNull(),
+  exchangeOrderId: varchar("exchange_order_id").notNull(),
+  clientOrderId: varchar("client_order_id"),
+  executionToken: varchar("execution_token"), // Pre-check token the order was confirmed with
+  symbol: text("symbol").notNull(), // Exchange symbol, e.g. BTCUSDT
+  side: text("side").notNull(), // 'buy' or 'sell'
+  orderType: text("order_type").notNull(), // 'market' or 'limit'
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  price: decimal("price", { precision: 18, scale: 8 }), // Limit price
+  status: text("status").default("new").notNull(), // 'new', 'partially_filled', 'filled', 'canceled', 'expired', 'rejected'
+  exchangeStatus: text("exchange_status"), // Raw status as last reported by the exchange
+  executedQuantity: decimal("executed_quantity", { precision: 18, scale: 8 }).default("0").notNull(),
+  quoteQuantity: decimal("quote_quantity", { precision: 18, scale: 8 }).default("0").notNull(), // Cumulative quote spent or received
+  avgPrice: decimal("avg_price", { precision: 18, scale: 8 }),
+  lastReconciledAt: timestamp("last_reconciled_at"),
+  closedAt: timestamp("closed_at"), // Set on reaching a final status
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_live_orders_user").on(table.userId, table.createdAt),
+  index("idx_live_orders_status").on(table.status),
+  uniqueIndex("idx_live_orders_exchange_id").on(table.connectionId, table.symbol, table.exchangeOrderId),
+]);
+
+// Every step-up (second factor) check on a sensitive action, also the source for attempt throttling
+export const stepUpAudits = pgTable("step_up_audits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  action: text("action").notNull(), // 'live_order_confirm', 'step_up_policy_change'
+  method: text("method"), // 'totp' or 'email'; null when no code was checked
+  outcome: text("outcome").notNull(), // 'not_required', 'challenged', 'code_sent', 'verified', 'failed', 'throttled'
+  executionToken: varchar("execution_token"),
+  notional: decimal("notional", { precision: 18, scale: 2 }),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_step_up_user").on(table.userId, table.createdAt),
+]);
+
+export const liveFills = pgTable("live_fills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  liveOrderId: varchar("live_order_id").notNull().references(() => liveOrders.id),
+  tradeId: varchar("trade_id").notNull(), // Exchange trade ID
+  price: decimal("price", { precision: 18, scale: 8 }).notNull(),
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  quoteQuantity: decimal("quote_quantity", { precision: 18, scale: 8 }).notNull(),
+  commission: decimal("commission", { precision: 18, scale: 8 }).default("0").notNull(),
+  commissionAsset: text("commission_asset"),
+  isMaker: boolean("is_maker"),
+  executedAt: timestamp("executed_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_live_fills_trade").on(table.liveOrderId, table.tradeId),
+]);
+
 // AI Risk Assessments table (real-time portfolio risk analysis)
 export const riskAssessments = pgTable("risk_assessments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -336,7 +634,10 @@ export const correlations = pgTable("correlations", {
   userId: varchar("user_id").notNull().references(() => users.id),
   asset1: text("asset1").notNull(),
   asset2: text("asset2").notNull(),
-  correlationScore: decimal("correlation_score", { precision: 5, scale: 2 }).notNull(), // -100 to 100
+  correlationScore: decimal("correlation_score", { precision: 5, scale: 2 }).notNull(), // -100 to 100, Pearson on daily returns
+  spearmanScore: decimal("spearman_score", { precision: 5, scale: 2 }), // -100 to 100, rank correlation on the same returns
+  llmCorrelationScore: decimal("llm_correlation_score", { precision: 5, scale: 2 }), // The LLM's own estimate, kept for comparison
+  observations: integer("observations"), // Days of returns behind the computed scores
   riskLevel: text("risk_level").notNull(), // 'high', 'medium', 'low'
   recommendation: text("recommendation").notNull(),
   alternatives: text("alternatives").notNull(), // JSON array of uncorrelated alternatives
@@ -349,8 +650,13 @@ export const correlations = pgTable("correlations", {
 export const volatilityForecasts = pgTable("volatility_forecasts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   symbol: text("symbol").notNull(),
-  currentVolatility: decimal("current_volatility", { precision: 5, scale: 2 }).notNull(), // %
-  predictedVolatility: decimal("predicted_volatility", { precision: 5, scale: 2 }).notNull(), // %
+  currentVolatility: decimal("current_volatility", { precision: 5, scale: 2 }).notNull(), // % over the timeframe, realized
+  predictedVolatility: decimal("predicted_volatility", { precision: 5, scale: 2 }).notNull(), // % over the timeframe, from the model
+  longRunVolatility: decimal("long_run_volatility", { precision: 5, scale: 2 }), // % over the timeframe, sample average
+  model: text("model"), // 'garch' or 'ewma'
+  modelParams: jsonb("model_params"), // GARCH omega/alpha/beta or EWMA lambda
+  llmPredictedVolatility: decimal("llm_predicted_volatility", { precision: 5, scale: 2 }), // The LLM's own estimate, kept for comparison
+  explanation: text("explanation"),
   timeframe: text("timeframe").notNull(), // '4h', '24h', '7d'
   volatilityTrend: text("volatility_trend").notNull(), // 'increasing', 'decreasing', 'stable'
   tradingRecommendation: text("trading_recommendation").notNull(), // 'reduce_exposure', 'normal', 'opportunity'
@@ -382,7 +688,7 @@ export const positionSizing = pgTable("position_sizing", {
 // Stores every AI decision for full explainability and accountability
 export const aiAuditLogs = pgTable("ai_audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
+  userId: varchar("user_id").references(() => users.id), // Null for LLM calls not made for a user (market briefings, news)
   featureType: text("feature_type").notNull(), // 'suggestion', 'risk_check', 'prediction', 'optimization', etc.
   modelVersion: text("model_version").notNull(), // 'gpt-4o-mini', 'gpt-4', etc.
   promptHash: text("prompt_hash"), // SHA-256 of prompt for auditability
@@ -391,6 +697,15 @@ export const aiAuditLogs = pgTable("ai_audit_logs", {
   explanation: text("explanation").notNull(), // Human-readable reasoning
   confidence: decimal("confidence", { precision: 5, scale: 2 }), // 0-100 confidence score
   outcome: text("outcome"), // Actual result if available (for learning loop)
+
+  // LLM usage, on rows written by the AI gateway (one per call)
+  provider: text("provider"), // 'openai' or 'stub'
+  status: text("status"), // 'ok' or 'error'
+  attempts: integer("attempts"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }), // Null when the model's pricing is unknown
+  latencyMs: integer("latency_ms"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 }, (table) => [
   index("idx_audit_user").on(table.userId),
@@ -851,7 +1166,7 @@ export const strategyPerformance = pgTable("strategy_performance", {
   
   // Strategy identification
   strategyName: text("strategy_name").notNull(), // User-defined or AI-detected
-  strategyType: text("strategy_type"), // 'trend_following', 'mean_reversion', 'breakout', 'scalping', 'swing', 'custom'
+  strategyType: text("strategy_type"), // 'trend_following', 'mean_reversion', 'breakout', 'scalping', 'swing', 'custom', 'backtest'
   description: text("description"),
   
   // Time period
@@ -905,6 +1220,13 @@ export const strategyPerformance = pgTable("strategy_performance", {
   performanceTrend: text("performance_trend"), // 'improving', 'declining', 'stable'
   trendConfidence: decimal("trend_confidence", { precision: 5, scale: 2 }), // 0-100
   
+  // Backtests: the strategy replayed and its full output
+  strategyDefinition: jsonb("strategy_definition"), // StrategyDefinition (shared/backtest.ts)
+  equityCurve: jsonb("equity_curve"), // [{ time, equity }]
+  backtestTrades: jsonb("backtest_trades"), // BacktestTrade[]
+  totalReturnPercent: decimal("total_return_percent", { precision: 12, scale: 2 }),
+  exposurePercent: decimal("exposure_percent", { precision: 5, scale: 2 }), // Share of candles in a position
+  
   lastUpdated: timestamp("last_updated").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
@@ -1125,17 +1447,51 @@ export const insertTradeSchema = createInsertSchema(trades).omit({
 
 export const insertPaperWalletSchema = createInsertSchema(paperWallets).omit({
   id: true,
+  createdAt: true,
+});
+
+export const insertPaperPortfolioSnapshotSchema = createInsertSchema(paperPortfolioSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPaperEquityPointSchema = createInsertSchema(paperEquityHistory).omit({
+  id: true,
+  recordedAt: true,
 });
 
 export const insertPaperPositionSchema = createInsertSchema(paperPositions).omit({
   id: true,
 });
 
+export const insertPaperTaxLotSchema = createInsertSchema(paperTaxLots).omit({
+  id: true,
+  openedAt: true,
+  closedAt: true,
+});
+
+export const insertPaperRealizedPnlSchema = createInsertSchema(paperRealizedPnl).omit({
+  id: true,
+  closedAt: true,
+});
+
 export const insertPaperOrderSchema = createInsertSchema(paperOrders).omit({
   id: true,
   timestamp: true,
 });
 
+export const insertTradingSymbolSchema = createInsertSchema(tradingSymbols).omit({
+  createdAt: true,
+  updatedAt: true,
+  delistedAt: true,
+});
+
+export const insertPaperOrderRequestSchema = createInsertSchema(paperOrderRequests).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
 export const insertAIBriefingSchema = createInsertSchema(aiBriefings).omit({
   id: true,
   timestamp: true,
@@ -1147,6 +1503,28 @@ export const insertRiskGuardSettingsSchema = createInsertSchema(riskGuardSetting
   updatedAt: true,
 });
 
+export const insertRiskGuardEventSchema = createInsertSchema(riskGuardEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+  readAt: true,
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertOtpCodeSchema = createInsertSchema(otpCodes).omit({
   id: true,
   createdAt: true,
@@ -1178,6 +1556,8 @@ export const insertPriceAlertSchema = createInsertSchema(priceAlerts).omit({
   createdAt: true,
   triggered: true,
   triggeredAt: true,
+  armed: true,
+  triggerCount: true,
 });
 
 export const insertExchangeConnectionSchema = createInsertSchema(exchangeConnections).omit({
@@ -1192,6 +1572,22 @@ export const insertExecutionTokenSchema = createInsertSchema(executionTokens).om
   createdAt: true,
 });
 
+export const insertStepUpAuditSchema = createInsertSchema(stepUpAudits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLiveOrderSchema = createInsertSchema(liveOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLiveFillSchema = createInsertSchema(liveFills).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertRiskAssessmentSchema = createInsertSchema(riskAssessments).omit({
   id: true,
   timestamp: true,
@@ -1355,18 +1751,47 @@ export type Trade = typeof trades.$inferSelect;
 export type InsertPaperWallet = z.infer<typeof insertPaperWalletSchema>;
 export type PaperWallet = typeof paperWallets.$inferSelect;
 
+export type InsertPaperPortfolioSnapshot = z.infer<typeof insertPaperPortfolioSnapshotSchema>;
+export type PaperPortfolioSnapshot = typeof paperPortfolioSnapshots.$inferSelect;
+
+export type InsertPaperEquityPoint = z.infer<typeof insertPaperEquityPointSchema>;
+export type PaperEquityPoint = typeof paperEquityHistory.$inferSelect;
+
 export type InsertPaperPosition = z.infer<typeof insertPaperPositionSchema>;
 export type PaperPosition = typeof paperPositions.$inferSelect;
 
+export type InsertPaperTaxLot = z.infer<typeof insertPaperTaxLotSchema>;
+export type PaperTaxLot = typeof paperTaxLots.$inferSelect;
+
+export type InsertPaperRealizedPnl = z.infer<typeof insertPaperRealizedPnlSchema>;
+export type PaperRealizedPnl = typeof paperRealizedPnl.$inferSelect;
+
 export type InsertPaperOrder = z.infer<typeof insertPaperOrderSchema>;
 export type PaperOrder = typeof paperOrders.$inferSelect;
 
+export type InsertTradingSymbol = z.infer<typeof insertTradingSymbolSchema>;
+export type TradingSymbol = typeof tradingSymbols.$inferSelect;
+export type InsertPaperOrderRequest = z.infer<typeof insertPaperOrderRequestSchema>;
+export type PaperOrderRequest = typeof paperOrderRequests.$inferSelect;
+
 export type InsertAIBriefing = z.infer<typeof insertAIBriefingSchema>;
 export type AIBriefing = typeof aiBriefings.$inferSelect;
 
 export type InsertRiskGuardSettings = z.infer<typeof insertRiskGuardSettingsSchema>;
 export type RiskGuardSettings = typeof riskGuardSettings.$inferSelect;
 
+export type InsertRiskGuardEvent = z.infer<typeof insertRiskGuardEventSchema>;
+export type RiskGuardEvent = typeof riskGuardEvents.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
 export type InsertOtpCode = z.infer<typeof insertOtpCodeSchema>;
 export type OtpCode = typeof otpCodes.$inferSelect;
 
@@ -1391,6 +1816,15 @@ export type ExchangeConnection = typeof exchangeConnections.$inferSelect;
 export type InsertExecutionToken = z.infer<typeof insertExecutionTokenSchema>;
 export type ExecutionToken = typeof executionTokens.$inferSelect;
 
+export type InsertStepUpAudit = z.infer<typeof insertStepUpAuditSchema>;
+export type StepUpAudit = typeof stepUpAudits.$inferSelect;
+
+export type InsertLiveOrder = z.infer<typeof insertLiveOrderSchema>;
+export type LiveOrder = typeof liveOrders.$inferSelect;
+
+export type InsertLiveFill = z.infer<typeof insertLiveFillSchema>;
+export type LiveFill = typeof liveFills.$inferSelect;
+
 export type InsertRiskAssessment = z.infer<typeof insertRiskAssessmentSchema>;
 export type RiskAssessment = typeof riskAssessments.$inferSelect;
 
@@ -0,0 +1,81 @@
+// Events pushed to a signed-in user over the /ws/prices WebSocket (see server/services/userEvents.ts)
+
+export interface UserEventPayloads {
+  // A paper or live order filled, fully or in part
+  order_filled: {
+    account: "paper" | "live";
+    orderId: string;
+    symbol: string;
+    side: "buy" | "sell";
+    orderType: string;
+    quantity: string; // This fill
+    price: string;
+    complete: boolean;
+  };
+  // A protective level or stop fired: stop-loss / take-profit exits, stop-limits going
+  // live and margin liquidations
+  order_triggered: {
+    orderId: string | null;
+    symbol: string;
+    trigger: "stop_loss" | "take_profit" | "stop_limit" | "liquidation";
+    price: string;
+    quantity: string | null;
+  };
+  price_alert: {
+    alertId: string;
+    symbol: string;
+    condition: string;
+    targetPrice: string | null; // Null unless it is a plain price alert
+    price: string | null; // Null for portfolio alerts
+    description: string;
+  };
+  // Risk Guard pauses, resumes, cooldowns and hard-stop flattening
+  risk_state: {
+    action: "paused" | "resumed" | "cooldown_started" | "cooldown_ended" | "flattened";
+    source: "supervisor" | "trade" | "user";
+    reason: string;
+  };
+  mistake_warning: {
+    predictionId: string;
+    symbol: string;
+    side: string;
+    predictionType: string;
+    severity: "low" | "medium" | "high" | "critical";
+    confidence: number;
+    reasoning: string;
+    alternativeSuggestion: string;
+  };
+  ai_suggestion: {
+    symbol: string;
+    action: string;
+    confidence: string;
+    reasoning: string;
+  };
+  // A new entry in the notification inbox
+  notification: {
+    id: string;
+    category: string;
+    title: string;
+    body: string;
+  };
+}
+
+export type UserEventType = keyof UserEventPayloads;
+
+export type UserEvent<T extends UserEventType = UserEventType> = {
+  [K in T]: {
+    seq: number; // Increases by one per event for each user
+    type: K;
+    at: string; // ISO timestamp
+    data: UserEventPayloads[K];
+  };
+}[T];
+
+// Server → client messages on the user channel
+export type UserChannelMessage =
+  | { type: "user_event"; event: UserEvent }
+  // Sent after a subscribe once any replay is done; `seq` is the latest sequence number
+  | { type: "user_subscribed"; streamId: string; seq: number }
+  // The requested events are no longer buffered (or the server restarted): refetch state
+  | { type: "user_resync"; streamId: string; seq: number }
+  | { type: "user_error"; error: string };